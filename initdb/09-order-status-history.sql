@@ -0,0 +1,54 @@
+-- Order Status History Migration
+-- Records every order status change (who, when, from/to, why) for the order timeline.
+-- Rows are written in the same transaction as the status update itself.
+
+-- =============================================================================
+-- STEP 1: Create order_status_history table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  previous_status orderStatus,
+  new_status orderStatus NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON order_status_history(order_id, changed_at);
+
+-- =============================================================================
+-- STEP 3: Backfill the initial entry of existing orders
+-- =============================================================================
+
+INSERT INTO order_status_history (order_id, previous_status, new_status, changed_by, changed_at)
+SELECT o.id, NULL, 'pending', o.createdBy, COALESCE(o.createdat, CURRENT_TIMESTAMP)
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE order_status_history IS
+  'Append-only timeline of order status changes, written atomically with orders.orderstatus updates.';
+
+COMMENT ON COLUMN order_status_history.previous_status IS
+  'Status before the change. NULL for the initial status of an order.';
+
+COMMENT ON COLUMN order_status_history.changed_by IS
+  'User who triggered the change (admin workflow, cancellation or status update).';
+
+COMMENT ON COLUMN order_status_history.reason IS
+  'Optional free-text reason, e.g. supplied when cancelling an order.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 09-order-status-history.sql completed successfully';
+END $$;
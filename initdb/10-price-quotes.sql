@@ -0,0 +1,53 @@
+-- Price Quotes Migration
+-- Time-limited price locks for spot-price based order pricing.
+-- A quote stores the priced items and can be redeemed by exactly one order before it expires.
+
+-- =============================================================================
+-- STEP 1: Create price_quote table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS price_quote (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  userid UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('buy', 'sell')),
+  currency CHAR(3) NOT NULL,
+  items JSONB NOT NULL,
+  subtotal NUMERIC(14,2) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  redeemed_at TIMESTAMP,
+  orderid UUID,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  createdBy UUID REFERENCES users(id)
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_price_quote_user
+  ON price_quote(userid, createdat DESC);
+
+CREATE INDEX IF NOT EXISTS idx_price_quote_open
+  ON price_quote(expires_at)
+  WHERE redeemed_at IS NULL;
+
+-- =============================================================================
+-- STEP 3: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE price_quote IS
+  'Price locks issued from live spot prices. POST /orders accepts a quote id and rejects expired or used quotes.';
+
+COMMENT ON COLUMN price_quote.items IS
+  'Priced items: productId, quantity, unitPrice, totalPrice, priceSource, spot price and premium used.';
+
+COMMENT ON COLUMN price_quote.expires_at IS
+  'End of the lock window (PRICE_QUOTE_LOCK_SECONDS after creation).';
+
+COMMENT ON COLUMN price_quote.orderid IS
+  'Order that redeemed the quote. Set together with redeemed_at.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 10-price-quotes.sql completed successfully';
+END $$;
@@ -0,0 +1,87 @@
+-- Tax Lots Migration
+-- Tracks the cost of every buy as a lot and records how each sell was matched against lots
+-- (FIFO, LIFO or average cost) so realized gains can be reported per disposal.
+
+-- =============================================================================
+-- STEP 1: Create tax_lot table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS tax_lot (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  positionid UUID NOT NULL REFERENCES position(id) ON DELETE CASCADE,
+  userid UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  productid UUID NOT NULL REFERENCES product(id),
+  buy_transactionid UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  acquired_at TIMESTAMP NOT NULL,
+  original_quantity NUMERIC(10,4) NOT NULL CHECK (original_quantity > 0),
+  remaining_quantity NUMERIC(10,4) NOT NULL CHECK (remaining_quantity >= 0),
+  unit_cost NUMERIC(10,2) NOT NULL,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 2: Create lot_disposal table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS lot_disposal (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sell_transactionid UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  tax_lotid UUID REFERENCES tax_lot(id) ON DELETE SET NULL,
+  positionid UUID NOT NULL REFERENCES position(id) ON DELETE CASCADE,
+  method VARCHAR(10) NOT NULL CHECK (method IN ('fifo', 'lifo', 'average')),
+  quantity NUMERIC(10,4) NOT NULL CHECK (quantity > 0),
+  acquired_at TIMESTAMP NOT NULL,
+  disposed_at TIMESTAMP NOT NULL,
+  holding_period_days INTEGER NOT NULL,
+  proceeds NUMERIC(12,2) NOT NULL,
+  cost_basis NUMERIC(12,2) NOT NULL,
+  realized_gain NUMERIC(12,2) NOT NULL,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 3: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_tax_lot_position_open
+  ON tax_lot(positionid, acquired_at)
+  WHERE remaining_quantity > 0;
+
+CREATE INDEX IF NOT EXISTS idx_lot_disposal_position_date
+  ON lot_disposal(positionid, disposed_at);
+
+-- =============================================================================
+-- STEP 4: Opening lots for positions that existed before lot tracking
+-- =============================================================================
+
+INSERT INTO tax_lot (positionid, userid, productid, acquired_at, original_quantity, remaining_quantity, unit_cost)
+SELECT pos.id, pos.userid, pos.productid, pos.purchasedate, pos.quantity, pos.quantity, pos.purchaseprice
+FROM position pos
+WHERE pos.status = 'active'
+  AND pos.quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM tax_lot tl WHERE tl.positionid = pos.id);
+
+-- =============================================================================
+-- STEP 5: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE tax_lot IS
+  'Acquisition lots. One per buy transaction; remaining_quantity is reduced when sells are matched.';
+
+COMMENT ON COLUMN tax_lot.buy_transactionid IS
+  'Buy transaction that created the lot. NULL for opening lots migrated from existing positions.';
+
+COMMENT ON TABLE lot_disposal IS
+  'Realized gains: one row per lot consumed by a sell transaction.';
+
+COMMENT ON COLUMN lot_disposal.tax_lotid IS
+  'Matched lot. NULL when the sold quantity exceeded the open lots (valued at the position purchase price).';
+
+COMMENT ON COLUMN lot_disposal.method IS
+  'Lot matching method in effect for the sell (TAX_LOT_METHOD: fifo, lifo or average).';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 11-tax-lots.sql completed successfully';
+END $$;
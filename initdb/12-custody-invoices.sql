@@ -0,0 +1,62 @@
+-- Custody Invoices Migration
+-- Persists the custody fees accrued per user and custody service for each billing period.
+-- Fees are pro-rated by the days the user held positions in the service during the period.
+
+-- =============================================================================
+-- STEP 1: Create custody_invoice table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS custody_invoice (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  userid UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  custodyserviceid UUID NOT NULL REFERENCES custodyService(id) ON DELETE CASCADE,
+  paymentfrequency paymentFrequency NOT NULL,
+  period_start TIMESTAMP NOT NULL,
+  period_end TIMESTAMP NOT NULL,
+  period_days INTEGER NOT NULL CHECK (period_days > 0),
+  billed_days INTEGER NOT NULL CHECK (billed_days >= 0 AND billed_days <= period_days),
+  period_fee NUMERIC(12,2) NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  currencyid UUID NOT NULL REFERENCES currency(id),
+  status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT custody_invoice_period_check CHECK (period_end > period_start),
+  CONSTRAINT custody_invoice_unique_period UNIQUE (userid, custodyserviceid, period_start)
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_custody_invoice_user_period
+  ON custody_invoice(userid, period_start DESC);
+
+CREATE INDEX IF NOT EXISTS idx_custody_invoice_service
+  ON custody_invoice(custodyserviceid);
+
+CREATE INDEX IF NOT EXISTS idx_position_custody_service
+  ON position(custodyserviceid)
+  WHERE custodyserviceid IS NOT NULL;
+
+-- =============================================================================
+-- STEP 3: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE custody_invoice IS
+  'Custody fee invoices. One per user, custody service and billing period (written by the custody billing job).';
+
+COMMENT ON COLUMN custody_invoice.period_fee IS
+  'custodyService.fee at the time of accrual (full fee for the billing period).';
+
+COMMENT ON COLUMN custody_invoice.billed_days IS
+  'Days of the period in which the user held at least one position in the service; amount = period_fee * billed_days / period_days.';
+
+COMMENT ON COLUMN custody_invoice.line_items IS
+  'Positions covered by the invoice with the days each was held during the period.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 12-custody-invoices.sql completed successfully';
+END $$;
@@ -0,0 +1,86 @@
+-- Tax Rules Migration
+-- VAT rates per country, optionally narrowed to a metal and/or product type.
+-- The most specific matching rule wins (metal + product type > metal > product type > country).
+
+-- =============================================================================
+-- STEP 1: Create tax_rule table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS tax_rule (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  countryid UUID NOT NULL REFERENCES country(id) ON DELETE CASCADE,
+  metalid UUID REFERENCES metal(id) ON DELETE CASCADE,
+  producttypeid UUID REFERENCES productType(id) ON DELETE CASCADE,
+  rate NUMERIC(6,4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  description TEXT,
+  valid_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_to DATE,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  createdBy UUID REFERENCES users(id),
+  updatedBy UUID REFERENCES users(id),
+  CONSTRAINT tax_rule_validity_check CHECK (valid_to IS NULL OR valid_to > valid_from)
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+-- One rule per scope and start date (NULL metal / product type = any)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_rule_scope
+  ON tax_rule(
+    countryid,
+    COALESCE(metalid, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(producttypeid, '00000000-0000-0000-0000-000000000000'::uuid),
+    valid_from
+  );
+
+-- =============================================================================
+-- STEP 3: Seed default rules
+-- =============================================================================
+
+-- Standard VAT rates
+INSERT INTO tax_rule (countryid, rate, description, valid_from)
+SELECT c.id, v.rate, v.description, DATE '2024-01-01'
+FROM (VALUES
+  ('CH', 0.081, 'Swiss standard VAT rate'),
+  ('DE', 0.19, 'German standard VAT rate'),
+  ('AT', 0.20, 'Austrian standard VAT rate')
+) AS v(isocode2, rate, description)
+JOIN country c ON c.isocode2 = v.isocode2
+ON CONFLICT DO NOTHING;
+
+-- Investment gold (bars and coins) is VAT-exempt in CH and the EU
+INSERT INTO tax_rule (countryid, metalid, producttypeid, rate, description, valid_from)
+SELECT c.id, m.id, pt.id, 0, 'Investment gold exemption', DATE '2024-01-01'
+FROM country c
+CROSS JOIN metal m
+CROSS JOIN productType pt
+WHERE c.isocode2 IN ('CH', 'DE', 'AT')
+  AND m.symbol = 'AU'
+  AND pt.producttypename IN ('Coin', 'Bar', 'Cast Bar', 'Minted Bar', 'CombiBar')
+ON CONFLICT DO NOTHING;
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE tax_rule IS
+  'VAT rules by country, optionally narrowed to a metal and/or product type. Applied to buy orders from the buyer''s primary address.';
+
+COMMENT ON COLUMN tax_rule.rate IS
+  'Tax rate as decimal fraction (0.081 = 8.1%). 0 marks an exemption.';
+
+COMMENT ON COLUMN tax_rule.metalid IS
+  'NULL = rule applies to all metals.';
+
+COMMENT ON COLUMN tax_rule.producttypeid IS
+  'NULL = rule applies to all product types.';
+
+COMMENT ON COLUMN tax_rule.valid_to IS
+  'Exclusive end date; NULL = open-ended.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 13-tax-rules.sql completed successfully';
+END $$;
@@ -0,0 +1,113 @@
+-- Shipping Tariffs Migration
+-- Shipping fees by delivery method, destination country and parcel weight,
+-- and tiered insurance rates by declared value.
+
+-- =============================================================================
+-- STEP 1: Create shipping_tariff table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS shipping_tariff (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_method VARCHAR(30) NOT NULL CHECK (delivery_method IN ('insured_courier', 'vault_delivery')),
+  countryid UUID REFERENCES country(id) ON DELETE CASCADE,
+  min_weight_grams NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (min_weight_grams >= 0),
+  max_weight_grams NUMERIC(12,2),
+  fee NUMERIC(12,2) NOT NULL CHECK (fee >= 0),
+  description TEXT,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  createdBy UUID REFERENCES users(id),
+  updatedBy UUID REFERENCES users(id),
+  CONSTRAINT shipping_tariff_weight_check CHECK (max_weight_grams IS NULL OR max_weight_grams > min_weight_grams)
+);
+
+-- =============================================================================
+-- STEP 2: Create insurance_tier table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS insurance_tier (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_method VARCHAR(30) NOT NULL CHECK (delivery_method IN ('insured_courier', 'vault_delivery')),
+  min_value NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (min_value >= 0),
+  max_value NUMERIC(14,2),
+  rate NUMERIC(7,5) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  description TEXT,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  createdBy UUID REFERENCES users(id),
+  updatedBy UUID REFERENCES users(id),
+  CONSTRAINT insurance_tier_value_check CHECK (max_value IS NULL OR max_value > min_value)
+);
+
+-- =============================================================================
+-- STEP 3: Create indexes
+-- =============================================================================
+
+-- One tariff per method, destination and weight bracket start (NULL country = all other destinations)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipping_tariff_scope
+  ON shipping_tariff(
+    delivery_method,
+    COALESCE(countryid, '00000000-0000-0000-0000-000000000000'::uuid),
+    min_weight_grams
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_insurance_tier_scope
+  ON insurance_tier(delivery_method, min_value);
+
+-- =============================================================================
+-- STEP 4: Seed default tariffs
+-- =============================================================================
+
+-- Domestic (CH) insured courier
+INSERT INTO shipping_tariff (delivery_method, countryid, min_weight_grams, max_weight_grams, fee, description)
+SELECT 'insured_courier', c.id, v.min_weight, v.max_weight, v.fee, v.description
+FROM (VALUES
+  (0, 1000, 25.00, 'Insured courier CH up to 1 kg'),
+  (1000, 5000, 45.00, 'Insured courier CH 1-5 kg'),
+  (5000, NULL, 90.00, 'Insured courier CH from 5 kg')
+) AS v(min_weight, max_weight, fee, description)
+JOIN country c ON c.isocode2 = 'CH'
+ON CONFLICT DO NOTHING;
+
+-- International insured courier (all other destinations)
+INSERT INTO shipping_tariff (delivery_method, countryid, min_weight_grams, max_weight_grams, fee, description)
+VALUES
+  ('insured_courier', NULL, 0, 1000, 60.00, 'Insured courier international up to 1 kg'),
+  ('insured_courier', NULL, 1000, 5000, 110.00, 'Insured courier international 1-5 kg'),
+  ('insured_courier', NULL, 5000, NULL, 220.00, 'Insured courier international from 5 kg'),
+  ('vault_delivery', NULL, 0, 10000, 15.00, 'Vault delivery up to 10 kg'),
+  ('vault_delivery', NULL, 10000, NULL, 40.00, 'Vault delivery from 10 kg')
+ON CONFLICT DO NOTHING;
+
+-- Insurance tiers (rate applies to the full declared value)
+INSERT INTO insurance_tier (delivery_method, min_value, max_value, rate, description)
+VALUES
+  ('insured_courier', 0, 10000, 0.01, 'Courier insurance up to 10k'),
+  ('insured_courier', 10000, 50000, 0.0075, 'Courier insurance 10k-50k'),
+  ('insured_courier', 50000, NULL, 0.005, 'Courier insurance from 50k'),
+  ('vault_delivery', 0, NULL, 0.001, 'Vault transfer insurance')
+ON CONFLICT DO NOTHING;
+
+-- =============================================================================
+-- STEP 5: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE shipping_tariff IS
+  'Shipping fee per delivery method, destination country and gross parcel weight bracket. Amounts in the order currency.';
+
+COMMENT ON COLUMN shipping_tariff.countryid IS
+  'Destination country; NULL = fallback for all destinations without a specific tariff.';
+
+COMMENT ON COLUMN shipping_tariff.max_weight_grams IS
+  'Exclusive upper bound of the weight bracket; NULL = open-ended.';
+
+COMMENT ON TABLE insurance_tier IS
+  'Insurance rate per delivery method by declared (goods) value; the tier containing the value applies to the full value.';
+
+COMMENT ON COLUMN insurance_tier.max_value IS
+  'Exclusive upper bound of the value tier; NULL = open-ended.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 14-shipping-tariffs.sql completed successfully';
+END $$;
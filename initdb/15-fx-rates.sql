@@ -0,0 +1,66 @@
+-- FX Rates Migration
+-- Stored exchange rates between reference currencies, fetched by the FX rate
+-- providers and used to convert product, order and portfolio amounts.
+
+-- =============================================================================
+-- STEP 1: Create fx_rate table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS fx_rate (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency_id UUID NOT NULL REFERENCES currency(id) ON DELETE CASCADE,
+  quote_currency_id UUID NOT NULL REFERENCES currency(id) ON DELETE CASCADE,
+  rate NUMERIC(20,10) NOT NULL CHECK (rate > 0),
+  source VARCHAR(50) NOT NULL,
+  as_of TIMESTAMP NOT NULL,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT fx_rate_pair_check CHECK (base_currency_id <> quote_currency_id),
+  CONSTRAINT fx_rate_unique_pair_as_of UNIQUE (base_currency_id, quote_currency_id, as_of)
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+-- Latest rate per pair at a point in time
+CREATE INDEX IF NOT EXISTS idx_fx_rate_pair_as_of
+  ON fx_rate(base_currency_id, quote_currency_id, as_of DESC);
+
+-- =============================================================================
+-- STEP 3: Seed indicative EUR reference rates
+-- =============================================================================
+
+-- Replaced by the first provider update; keeps conversions working on a fresh database
+INSERT INTO fx_rate (base_currency_id, quote_currency_id, rate, source, as_of)
+SELECT b.id, q.id, v.rate, 'seed', TIMESTAMP '2026-01-01 00:00:00'
+FROM (VALUES
+  ('USD', 1.1700),
+  ('CHF', 0.9300),
+  ('GBP', 0.8700),
+  ('CAD', 1.6100),
+  ('AUD', 1.7600)
+) AS v(code, rate)
+JOIN currency b ON b.isocode3 = 'EUR'
+JOIN currency q ON q.isocode3 = v.code
+ON CONFLICT DO NOTHING;
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE fx_rate IS
+  'Exchange rates between reference currencies; one row per pair and observation time.';
+
+COMMENT ON COLUMN fx_rate.rate IS
+  'Units of the quote currency for one unit of the base currency.';
+
+COMMENT ON COLUMN fx_rate.source IS
+  'Provider the rate was fetched from (e.g. ECB, OpenExchangeRates, seed).';
+
+COMMENT ON COLUMN fx_rate.as_of IS
+  'Observation time of the rate; conversions use the latest rate at or before the requested time.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 15-fx-rates.sql completed successfully';
+END $$;
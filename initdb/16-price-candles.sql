@@ -0,0 +1,82 @@
+-- Price Candles Migration
+-- Pre-computed OHLC candles (1h, 1d, 1w, 1M) per metal and currency,
+-- maintained from every price written to price_history.
+
+-- =============================================================================
+-- STEP 1: Create price_candle table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS price_candle (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  metal_id UUID NOT NULL REFERENCES metal(id) ON DELETE CASCADE,
+  currency VARCHAR(3) NOT NULL,
+  candle_interval VARCHAR(2) NOT NULL CHECK (candle_interval IN ('1h', '1d', '1w', '1M')),
+  bucket_start TIMESTAMP NOT NULL,
+  open NUMERIC(12, 4) NOT NULL,
+  high NUMERIC(12, 4) NOT NULL,
+  low NUMERIC(12, 4) NOT NULL,
+  close NUMERIC(12, 4) NOT NULL,
+  tick_count INTEGER NOT NULL DEFAULT 1 CHECK (tick_count > 0),
+  first_tick_at TIMESTAMP NOT NULL,
+  last_tick_at TIMESTAMP NOT NULL,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT price_candle_unique_bucket UNIQUE (metal_id, currency, candle_interval, bucket_start)
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_price_candle_range
+  ON price_candle(metal_id, currency, candle_interval, bucket_start DESC);
+
+-- =============================================================================
+-- STEP 3: Backfill candles from existing price history
+-- =============================================================================
+
+INSERT INTO price_candle (
+  metal_id, currency, candle_interval, bucket_start,
+  open, high, low, close, tick_count, first_tick_at, last_tick_at
+)
+SELECT
+  t.metal_id,
+  t.currency,
+  t.candle_interval,
+  t.bucket_start,
+  (ARRAY_AGG(t.price_per_troy_oz ORDER BY t.timestamp ASC))[1],
+  MAX(t.price_per_troy_oz),
+  MIN(t.price_per_troy_oz),
+  (ARRAY_AGG(t.price_per_troy_oz ORDER BY t.timestamp DESC))[1],
+  COUNT(*),
+  MIN(t.timestamp),
+  MAX(t.timestamp)
+FROM (
+  SELECT ph.metal_id, ph.currency, ph.price_per_troy_oz, ph.timestamp,
+         i.candle_interval, DATE_TRUNC(i.unit, ph.timestamp) AS bucket_start
+  FROM price_history ph
+  CROSS JOIN (VALUES ('1h', 'hour'), ('1d', 'day'), ('1w', 'week'), ('1M', 'month')) AS i(candle_interval, unit)
+) t
+GROUP BY t.metal_id, t.currency, t.candle_interval, t.bucket_start
+ON CONFLICT DO NOTHING;
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE price_candle IS
+  'OHLC candles per metal, currency and interval, updated whenever a price is saved to price_history.';
+
+COMMENT ON COLUMN price_candle.candle_interval IS
+  'Candle length: 1h (hour), 1d (day), 1w (ISO week starting Monday), 1M (calendar month).';
+
+COMMENT ON COLUMN price_candle.bucket_start IS
+  'Start of the candle period (UTC).';
+
+COMMENT ON COLUMN price_candle.first_tick_at IS
+  'Time of the price that set open; keeps open/close correct when prices arrive out of order.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 16-price-candles.sql completed successfully';
+END $$;
@@ -0,0 +1,58 @@
+-- Price Alerts Migration
+-- User-defined price thresholds per metal, evaluated after every market price update.
+-- An alert fires at most once; the trigger is recorded on the alert itself.
+
+-- =============================================================================
+-- STEP 1: Create price_alert table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS price_alert (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  metal_id UUID NOT NULL REFERENCES metal(id) ON DELETE CASCADE,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  alert_condition VARCHAR(20) NOT NULL CHECK (alert_condition IN ('above', 'below', 'change_percent')),
+  threshold NUMERIC(12, 4) NOT NULL CHECK (threshold > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  triggered_at TIMESTAMP,
+  triggered_price NUMERIC(12, 4),
+  triggered_change_percent NUMERIC(8, 4),
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT price_alert_trigger_check CHECK (
+    (triggered_at IS NULL AND triggered_price IS NULL)
+    OR (triggered_at IS NOT NULL AND triggered_price IS NOT NULL)
+  )
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_price_alert_user
+  ON price_alert(user_id, createdat DESC);
+
+CREATE INDEX IF NOT EXISTS idx_price_alert_pending
+  ON price_alert(metal_id, currency)
+  WHERE is_active = TRUE AND triggered_at IS NULL;
+
+-- =============================================================================
+-- STEP 3: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE price_alert IS
+  'Price alerts owned by a user. Evaluated against market_price after each provider update; notified by email.';
+
+COMMENT ON COLUMN price_alert.alert_condition IS
+  'above/below: price crosses threshold; change_percent: absolute move since the daily open is at least threshold percent.';
+
+COMMENT ON COLUMN price_alert.triggered_at IS
+  'Set when the alert fires; alerts with a trigger are no longer evaluated until re-armed by changing condition or threshold.';
+
+COMMENT ON COLUMN price_alert.triggered_change_percent IS
+  'Move since the daily open at trigger time (change_percent alerts only).';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 17-price-alerts.sql completed successfully';
+END $$;
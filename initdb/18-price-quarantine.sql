@@ -0,0 +1,51 @@
+-- Price Quarantine Migration
+-- Quotes from market data providers that failed the sanity checks
+-- (invalid price, bid above ask, deviation from the last stored price).
+-- Quarantined quotes never reach market_price or price_history.
+
+-- =============================================================================
+-- STEP 1: Create market_price_quarantine table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS market_price_quarantine (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES market_data_provider(id) ON DELETE CASCADE,
+  metal_id UUID NOT NULL REFERENCES metal(id) ON DELETE CASCADE,
+  currency VARCHAR(3) NOT NULL,
+  price_per_troy_oz NUMERIC(12, 4),
+  bid NUMERIC(12, 4),
+  ask NUMERIC(12, 4),
+  reference_price NUMERIC(12, 4),
+  deviation_percent NUMERIC(10, 4),
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('invalid_price', 'bid_above_ask', 'price_deviation')),
+  quoted_at TIMESTAMP NOT NULL,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 2: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_market_price_quarantine_provider
+  ON market_price_quarantine(provider_id, quoted_at DESC);
+
+-- =============================================================================
+-- STEP 3: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE market_price_quarantine IS
+  'Provider quotes rejected by the price sanity checks; kept for review instead of being persisted as market prices.';
+
+COMMENT ON COLUMN market_price_quarantine.reference_price IS
+  'Last stored market price the quote was compared with (price_deviation only).';
+
+COMMENT ON COLUMN market_price_quarantine.deviation_percent IS
+  'Move of the quote against reference_price in percent.';
+
+COMMENT ON COLUMN market_data_provider.failure_count IS
+  'Consecutive failures; the circuit breaker skips the provider once it reaches the threshold until the cooldown after last_failure has passed.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 18-price-quarantine.sql completed successfully';
+END $$;
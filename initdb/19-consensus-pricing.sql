@@ -0,0 +1,46 @@
+-- Consensus Pricing Migration
+-- Optional consensus mode (MARKET_DATA_PRICING_MODE=median|weighted) combines the
+-- quotes of all available providers into one price stored under the virtual
+-- 'Consensus' provider, together with its contributors and their spread.
+
+-- =============================================================================
+-- STEP 1: Add consensus columns to market_price
+-- =============================================================================
+
+ALTER TABLE market_price
+  ADD COLUMN IF NOT EXISTS consensus_method VARCHAR(10)
+    CHECK (consensus_method IS NULL OR consensus_method IN ('median', 'weighted')),
+  ADD COLUMN IF NOT EXISTS contributors JSONB,
+  ADD COLUMN IF NOT EXISTS spread_percent NUMERIC(10, 4),
+  ADD COLUMN IF NOT EXISTS is_disputed BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =============================================================================
+-- STEP 2: Register the virtual consensus provider
+-- =============================================================================
+-- Priority 0 makes consensus prices win over single provider quotes on reads.
+-- Deactivate the provider when switching back to MARKET_DATA_PRICING_MODE=first.
+
+INSERT INTO market_data_provider (name, api_key_env_var, base_url, is_active, rate_limit_per_minute, priority)
+VALUES ('Consensus', 'NONE', 'internal://consensus', true, 0, 0)
+ON CONFLICT (name) DO NOTHING;
+
+-- =============================================================================
+-- STEP 3: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON COLUMN market_price.consensus_method IS
+  'median or weighted for consensus prices; NULL for a single provider quote.';
+
+COMMENT ON COLUMN market_price.contributors IS
+  'Provider quotes the consensus price was computed from: [{providerId, providerName, price, weight}].';
+
+COMMENT ON COLUMN market_price.spread_percent IS
+  'Highest minus lowest contributing quote, in percent of the consensus price.';
+
+COMMENT ON COLUMN market_price.is_disputed IS
+  'True when spread_percent exceeds the configured maximum (MARKET_DATA_CONSENSUS_MAX_SPREAD_PERCENT).';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 19-consensus-pricing.sql completed successfully';
+END $$;
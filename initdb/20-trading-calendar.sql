@@ -0,0 +1,110 @@
+-- Trading Calendar Migration
+-- Venues whose sessions drive the market data scheduler and the live/stale
+-- classification of quotes, plus their holidays and half days.
+
+-- =============================================================================
+-- STEP 1: Create trading_venue table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS trading_venue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(10) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  time_zone VARCHAR(50) NOT NULL,
+  open_time TIME NOT NULL,
+  close_time TIME NOT NULL,
+  trading_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT trading_venue_session_check CHECK (open_time < close_time),
+  CONSTRAINT trading_venue_days_check CHECK (trading_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[])
+);
+
+-- =============================================================================
+-- STEP 2: Create trading_holiday table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS trading_holiday (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL REFERENCES trading_venue(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  early_close_time TIME,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT trading_holiday_unique UNIQUE (venue_id, holiday_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trading_holiday_date ON trading_holiday(holiday_date);
+
+-- =============================================================================
+-- STEP 3: Seed venues and holidays
+-- =============================================================================
+
+INSERT INTO trading_venue (code, name, time_zone, open_time, close_time) VALUES
+  ('LON', 'London Bullion Market', 'Europe/London', '08:00', '17:00'),
+  ('ZRH', 'SIX Swiss Exchange', 'Europe/Zurich', '09:00', '17:30'),
+  ('NYC', 'COMEX New York', 'America/New_York', '08:20', '13:30')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO trading_holiday (venue_id, holiday_date, name, early_close_time)
+SELECT v.id, h.holiday_date::DATE, h.name, h.early_close_time::TIME
+FROM (VALUES
+  ('LON', '2026-12-24', 'Christmas Eve', '12:30'),
+  ('LON', '2026-12-25', 'Christmas Day', NULL),
+  ('LON', '2026-12-28', 'Boxing Day (substitute)', NULL),
+  ('LON', '2026-12-31', 'New Year''s Eve', '12:30'),
+  ('LON', '2027-01-01', 'New Year''s Day', NULL),
+  ('LON', '2027-03-26', 'Good Friday', NULL),
+  ('LON', '2027-03-29', 'Easter Monday', NULL),
+  ('LON', '2027-05-03', 'Early May Bank Holiday', NULL),
+  ('LON', '2027-05-31', 'Spring Bank Holiday', NULL),
+  ('LON', '2027-08-30', 'Summer Bank Holiday', NULL),
+  ('LON', '2027-12-27', 'Christmas Day (substitute)', NULL),
+  ('LON', '2027-12-28', 'Boxing Day (substitute)', NULL),
+  ('ZRH', '2026-12-24', 'Christmas Eve', NULL),
+  ('ZRH', '2026-12-25', 'Christmas Day', NULL),
+  ('ZRH', '2026-12-31', 'New Year''s Eve', NULL),
+  ('ZRH', '2027-01-01', 'New Year''s Day', NULL),
+  ('ZRH', '2027-03-26', 'Good Friday', NULL),
+  ('ZRH', '2027-03-29', 'Easter Monday', NULL),
+  ('ZRH', '2027-05-06', 'Ascension Day', NULL),
+  ('ZRH', '2027-05-17', 'Whit Monday', NULL),
+  ('ZRH', '2027-12-24', 'Christmas Eve', NULL),
+  ('ZRH', '2027-12-31', 'New Year''s Eve', NULL),
+  ('NYC', '2026-11-26', 'Thanksgiving Day', NULL),
+  ('NYC', '2026-12-25', 'Christmas Day', NULL),
+  ('NYC', '2027-01-01', 'New Year''s Day', NULL),
+  ('NYC', '2027-01-18', 'Martin Luther King Jr. Day', NULL),
+  ('NYC', '2027-02-15', 'Presidents'' Day', NULL),
+  ('NYC', '2027-03-26', 'Good Friday', NULL),
+  ('NYC', '2027-05-31', 'Memorial Day', NULL),
+  ('NYC', '2027-06-18', 'Juneteenth (observed)', NULL),
+  ('NYC', '2027-07-05', 'Independence Day (observed)', NULL),
+  ('NYC', '2027-09-06', 'Labor Day', NULL),
+  ('NYC', '2027-11-25', 'Thanksgiving Day', NULL),
+  ('NYC', '2027-12-24', 'Christmas Day (observed)', NULL)
+) AS h(venue_code, holiday_date, name, early_close_time)
+JOIN trading_venue v ON v.code = h.venue_code
+ON CONFLICT (venue_id, holiday_date) DO NOTHING;
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE trading_venue IS
+  'Trading venues; prices are polled while at least one active venue is in session.';
+
+COMMENT ON COLUMN trading_venue.open_time IS
+  'Local session open in time_zone (IANA name); DST is applied by the application.';
+
+COMMENT ON COLUMN trading_venue.trading_days IS
+  'ISO weekdays the venue trades on (1 = Monday ... 7 = Sunday).';
+
+COMMENT ON TABLE trading_holiday IS
+  'Venue holidays (local dates). Rows with early_close_time are half days instead of closures.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 20-trading-calendar.sql completed successfully';
+END $$;
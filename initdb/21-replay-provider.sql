@@ -0,0 +1,25 @@
+-- Replay Provider Migration
+-- Registers the offline 'Replay' provider (MARKET_DATA_REPLAY_MODE=file|random_walk)
+-- used by integration tests, demos and load tests instead of the external providers.
+
+-- =============================================================================
+-- STEP 1: Register the replay provider
+-- =============================================================================
+-- Lowest priority: on reads, prices stored by a live provider win over replayed
+-- ones, so replay against a database without live prices.
+
+INSERT INTO market_data_provider (name, api_key_env_var, base_url, is_active, rate_limit_per_minute, priority)
+VALUES ('Replay', 'NONE', 'internal://replay', true, 0, 3)
+ON CONFLICT (name) DO NOTHING;
+
+-- =============================================================================
+-- STEP 2: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON COLUMN market_data_provider.base_url IS
+  'API base URL; internal:// for providers computed in process (consensus, replay).';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 21-replay-provider.sql completed successfully';
+END $$;
@@ -0,0 +1,19 @@
+-- Price History Import Migration
+-- Provider that historical prices imported from CSV/JSON files (e.g. LBMA fix
+-- exports) are stored under, via POST /api/market-data/history/import or
+-- scripts/import-price-history.js. Imports may name another provider instead.
+
+-- =============================================================================
+-- STEP 1: Register the import provider
+-- =============================================================================
+-- Inactive: it never quotes live prices, so the scheduler and the provider
+-- status list ignore it. Imports look providers up by name regardless.
+
+INSERT INTO market_data_provider (name, api_key_env_var, base_url, is_active, rate_limit_per_minute, priority)
+VALUES ('Historical Import', 'NONE', 'internal://import', false, 0, 9)
+ON CONFLICT (name) DO NOTHING;
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 22-price-history-import.sql completed successfully';
+END $$;
@@ -0,0 +1,95 @@
+-- Savings Plans Migration
+-- Recurring purchases of a fixed amount of a product (e.g. CHF 200 of gold every month).
+-- The savings plan job creates one execution per plan and due date, places a buy order
+-- with a fractional quantity and charges it to the plan's Stripe payment method.
+
+-- =============================================================================
+-- STEP 1: Create savings_plan table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS savings_plan (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  userid UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  productid UUID NOT NULL REFERENCES product(id),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'CHF',
+  frequency paymentFrequency NOT NULL CHECK (frequency <> 'onetime'),
+  start_date TIMESTAMP NOT NULL,
+  next_execution_at TIMESTAMP NOT NULL,
+  last_execution_at TIMESTAMP,
+  customer_id VARCHAR(255) NOT NULL,
+  payment_method_id VARCHAR(255) NOT NULL,
+  custodyserviceid UUID REFERENCES custodyService(id),
+  status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 2: Create savings_plan_execution table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS savings_plan_execution (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  savings_plan_id UUID NOT NULL REFERENCES savings_plan(id) ON DELETE CASCADE,
+  scheduled_for TIMESTAMP NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'retrying', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  orderid UUID REFERENCES orders(id) ON DELETE SET NULL,
+  payment_intent_id VARCHAR(255),
+  quantity NUMERIC(10,4),
+  unit_price NUMERIC(12,2),
+  charged_amount NUMERIC(12,2),
+  charged_currency VARCHAR(3),
+  last_error TEXT,
+  next_retry_at TIMESTAMP,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT savings_plan_execution_unique_date UNIQUE (savings_plan_id, scheduled_for)
+);
+
+-- =============================================================================
+-- STEP 3: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_savings_plan_user
+  ON savings_plan(userid, createdat DESC);
+
+CREATE INDEX IF NOT EXISTS idx_savings_plan_due
+  ON savings_plan(next_execution_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_savings_plan_execution_retry
+  ON savings_plan_execution(next_retry_at)
+  WHERE status = 'retrying';
+
+CREATE INDEX IF NOT EXISTS idx_savings_plan_execution_status
+  ON savings_plan_execution(status, scheduled_for DESC);
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE savings_plan IS
+  'Recurring purchases owned by a user. Executed by the savings plan job (ENABLE_SAVINGS_PLAN_SCHEDULER).';
+
+COMMENT ON COLUMN savings_plan.amount IS
+  'Amount invested per execution in savings_plan.currency; the order quantity is amount / unit price, rounded down to 4 decimals.';
+
+COMMENT ON COLUMN savings_plan.start_date IS
+  'First execution; later executions keep its day of week or day of month (clamped to shorter months).';
+
+COMMENT ON COLUMN savings_plan.payment_method_id IS
+  'Stripe payment method of customer_id charged with the order total of each execution.';
+
+COMMENT ON TABLE savings_plan_execution IS
+  'One execution per plan and due date. Failed attempts are retried until SAVINGS_PLAN_MAX_ATTEMPTS, then reported as failed.';
+
+COMMENT ON COLUMN savings_plan_execution.orderid IS
+  'Buy order placed by the execution; a retry after a failed payment charges this order again instead of placing a new one.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 23-savings-plans.sql completed successfully';
+END $$;
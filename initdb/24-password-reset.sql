@@ -0,0 +1,56 @@
+-- Password Reset Migration
+-- Single-use password reset tokens and a per-user token version.
+-- Every JWT carries the token version it was issued with; changing or resetting
+-- the password increments users.token_version, which revokes all earlier tokens.
+
+-- =============================================================================
+-- STEP 1: Add token version and password change timestamp to users
+-- =============================================================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS token_version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;
+
+-- =============================================================================
+-- STEP 2: Create password_reset_token table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS password_reset_token (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  userid UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 3: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_token_user
+  ON password_reset_token(userid)
+  WHERE used_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_token_expires_at
+  ON password_reset_token(expires_at);
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON COLUMN users.token_version IS
+  'Incremented when the password is changed or reset; JWTs issued with an older version (tv claim) are rejected.';
+
+COMMENT ON COLUMN users.password_changed_at IS
+  'Last password change or reset.';
+
+COMMENT ON TABLE password_reset_token IS
+  'Password reset tokens sent by POST /auth/password/forgot. Valid until expires_at and for one reset only.';
+
+COMMENT ON COLUMN password_reset_token.token_hash IS
+  'SHA-256 of the token sent by email; the token itself is never stored.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 24-password-reset.sql completed successfully';
+END $$;
@@ -0,0 +1,65 @@
+-- Auth Sessions Migration
+-- Server-side sessions with rotating opaque refresh tokens.
+-- Each login creates a session (one per device); every refresh replaces the refresh token.
+-- Presenting an already rotated refresh token revokes the whole session (reuse detection).
+
+-- =============================================================================
+-- STEP 1: Create auth_session table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS auth_session (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  userid UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_agent VARCHAR(512),
+  ip_address VARCHAR(45),
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  revoked_at TIMESTAMP,
+  revoked_reason VARCHAR(30)
+    CHECK (revoked_reason IN ('logout', 'user_revoked', 'admin_revoked', 'user_blocked', 'password_changed', 'refresh_token_reuse')),
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 2: Create auth_refresh_token table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS auth_refresh_token (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES auth_session(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  used_at TIMESTAMP,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 3: Create indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_auth_session_user_active
+  ON auth_session(userid)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_token_session
+  ON auth_refresh_token(session_id);
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE auth_session IS
+  'Login sessions (devices). Access tokens carry the session id (sid claim) and stop working once the session is revoked.';
+
+COMMENT ON COLUMN auth_session.expires_at IS
+  'Moved forward on every refresh; a session unused for REFRESH_TOKEN_TTL_DAYS expires.';
+
+COMMENT ON TABLE auth_refresh_token IS
+  'Refresh tokens of a session. Only the newest token is unused; presenting a used token revokes the session.';
+
+COMMENT ON COLUMN auth_refresh_token.token_hash IS
+  'SHA-256 of the opaque refresh token; the token itself is never stored.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 25-auth-sessions.sql completed successfully';
+END $$;
@@ -0,0 +1,60 @@
+-- Two-Factor Authentication Migration
+-- TOTP authenticator secrets, single-use recovery codes and step-up re-authentication.
+-- Users with enabled 2FA log in in two steps: password, then a TOTP or recovery code.
+-- Sensitive operations (e.g. sell orders) require a recent step-up on the current session.
+
+-- =============================================================================
+-- STEP 1: Create user_two_factor table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  userid UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_encrypted TEXT NOT NULL,
+  enabled_at TIMESTAMP,
+  last_used_step BIGINT,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updatedat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- STEP 2: Create user_two_factor_recovery_code table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS user_two_factor_recovery_code (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  userid UUID NOT NULL REFERENCES user_two_factor(userid) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  createdat TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (userid, code_hash)
+);
+
+-- =============================================================================
+-- STEP 3: Add step-up timestamp to sessions
+-- =============================================================================
+
+ALTER TABLE auth_session ADD COLUMN IF NOT EXISTS step_up_at TIMESTAMP;
+
+-- =============================================================================
+-- STEP 4: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE user_two_factor IS
+  'TOTP enrolment per user. 2FA is enforced at login once enabled_at is set; NULL means enrolment not yet activated.';
+
+COMMENT ON COLUMN user_two_factor.secret_encrypted IS
+  'AES-256-GCM encrypted base32 secret (key: TWO_FACTOR_ENCRYPTION_KEY).';
+
+COMMENT ON COLUMN user_two_factor.last_used_step IS
+  'Time step of the last accepted code; codes of this or earlier steps are rejected as replays.';
+
+COMMENT ON TABLE user_two_factor_recovery_code IS
+  'Single-use recovery codes issued at enrolment, stored as SHA-256 hashes.';
+
+COMMENT ON COLUMN auth_session.step_up_at IS
+  'Last re-authentication (POST /auth/step-up) on this session; required for sensitive operations.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 26-two-factor-auth.sql completed successfully';
+END $$;
@@ -0,0 +1,63 @@
+-- Login Lockout Migration
+-- Failed-login counters per account (email) and per IP with progressive delays,
+-- and failed two-factor/step-up attempts per user.
+-- Too many failures for an account suspend it temporarily: account_status 'suspended'
+-- with locked_until, lifted automatically on the next login after that time.
+
+-- =============================================================================
+-- STEP 1: Create login_attempt table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS login_attempt (
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('account', 'ip', 'two_factor')),
+  attempt_key VARCHAR(255) NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  first_failed_at TIMESTAMP NOT NULL,
+  last_failed_at TIMESTAMP NOT NULL,
+  blocked_until TIMESTAMP,
+  PRIMARY KEY (scope, attempt_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempt_last_failed_at
+  ON login_attempt(last_failed_at);
+
+-- =============================================================================
+-- STEP 2: Add automatic unlock time to users
+-- =============================================================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_users_locked_until
+  ON users(locked_until)
+  WHERE locked_until IS NOT NULL;
+
+-- Automatic locks are not set by an admin, so blocked_by stays NULL for them
+ALTER TABLE users DROP CONSTRAINT IF EXISTS chk_blocked_by_required;
+
+ALTER TABLE users
+  ADD CONSTRAINT chk_blocked_by_required
+  CHECK (
+    (account_status IN ('blocked', 'suspended') AND blocked_by IS NOT NULL)
+    OR
+    (account_status = 'suspended' AND locked_until IS NOT NULL)
+    OR
+    (account_status NOT IN ('blocked', 'suspended'))
+  );
+
+-- =============================================================================
+-- STEP 3: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON TABLE login_attempt IS
+  'Failed logins within the current window per account (lower-cased email), per client IP and, for two-factor codes and step-up passwords, per user ID.';
+
+COMMENT ON COLUMN login_attempt.blocked_until IS
+  'Progressive delay: further logins for this key are rejected with 429 until this time.';
+
+COMMENT ON COLUMN users.locked_until IS
+  'Automatic unlock time of a temporary lock after too many failed logins (account_status suspended).';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 27-login-lockout.sql completed successfully';
+END $$;
@@ -0,0 +1,31 @@
+-- Order Amounts Migration
+-- Stores the priced currency, fees, taxes and total of an order as charged on creation,
+-- so a re-read order reports the same amounts as the create response.
+-- Orders created before this migration keep NULL amounts and are summed from their items.
+
+-- =============================================================================
+-- STEP 1: Add amount columns to orders
+-- =============================================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency CHAR(3);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal NUMERIC(14,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS processing_fee NUMERIC(14,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_fee NUMERIC(14,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS insurance_fee NUMERIC(14,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS taxes NUMERIC(14,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS total_amount NUMERIC(14,2);
+
+-- =============================================================================
+-- STEP 2: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON COLUMN orders.currency IS
+  'Currency the order was priced in (ISO 4217); all amounts of the order and its items are in this currency.';
+
+COMMENT ON COLUMN orders.total_amount IS
+  'Subtotal plus processing, shipping and insurance fees plus taxes. NULL for orders created before 28-order-amounts.sql.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 28-order-amounts.sql completed successfully';
+END $$;
@@ -0,0 +1,27 @@
+-- Position Currency Migration
+-- Records the currency of position prices and transaction prices, so portfolio
+-- valuation can convert the cost basis into the valuation currency.
+-- NULL (positions and transactions entered before this migration or without an
+-- order) means the product currency.
+
+-- =============================================================================
+-- STEP 1: Add currency columns
+-- =============================================================================
+
+ALTER TABLE position ADD COLUMN IF NOT EXISTS currency CHAR(3);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency CHAR(3);
+
+-- =============================================================================
+-- STEP 2: Add comments for documentation
+-- =============================================================================
+
+COMMENT ON COLUMN position.currency IS
+  'Currency of purchaseprice and marketprice (the order currency of the last buy); NULL = product currency.';
+
+COMMENT ON COLUMN transactions.currency IS
+  'Currency of price and fees (the order currency); NULL = currency of the position, else of the product.';
+
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 29-position-currency.sql completed successfully';
+END $$;
@@ -38,6 +38,69 @@ SET row_security = off;
 \echo 'Applying user account status migration...'
 \i /docker-entrypoint-initdb.d/08-user-account-status.sql
 
+\echo 'Applying order status history migration...'
+\i /docker-entrypoint-initdb.d/09-order-status-history.sql
+
+\echo 'Applying price quote migration...'
+\i /docker-entrypoint-initdb.d/10-price-quotes.sql
+
+\echo 'Applying tax lot migration...'
+\i /docker-entrypoint-initdb.d/11-tax-lots.sql
+
+\echo 'Applying custody invoice migration...'
+\i /docker-entrypoint-initdb.d/12-custody-invoices.sql
+
+\echo 'Applying tax rule migration...'
+\i /docker-entrypoint-initdb.d/13-tax-rules.sql
+
+\echo 'Applying shipping tariff migration...'
+\i /docker-entrypoint-initdb.d/14-shipping-tariffs.sql
+
+\echo 'Applying FX rate migration...'
+\i /docker-entrypoint-initdb.d/15-fx-rates.sql
+
+\echo 'Applying price candle migration...'
+\i /docker-entrypoint-initdb.d/16-price-candles.sql
+
+\echo 'Applying price alert migration...'
+\i /docker-entrypoint-initdb.d/17-price-alerts.sql
+
+\echo 'Applying price quarantine migration...'
+\i /docker-entrypoint-initdb.d/18-price-quarantine.sql
+
+\echo 'Applying consensus pricing migration...'
+\i /docker-entrypoint-initdb.d/19-consensus-pricing.sql
+
+\echo 'Applying trading calendar migration...'
+\i /docker-entrypoint-initdb.d/20-trading-calendar.sql
+
+\echo 'Applying replay provider migration...'
+\i /docker-entrypoint-initdb.d/21-replay-provider.sql
+
+\echo 'Applying price history import migration...'
+\i /docker-entrypoint-initdb.d/22-price-history-import.sql
+
+\echo 'Applying savings plans migration...'
+\i /docker-entrypoint-initdb.d/23-savings-plans.sql
+
+\echo 'Applying password reset migration...'
+\i /docker-entrypoint-initdb.d/24-password-reset.sql
+
+\echo 'Applying auth sessions migration...'
+\i /docker-entrypoint-initdb.d/25-auth-sessions.sql
+
+\echo 'Applying two-factor authentication migration...'
+\i /docker-entrypoint-initdb.d/26-two-factor-auth.sql
+
+\echo 'Applying login lockout migration...'
+\i /docker-entrypoint-initdb.d/27-login-lockout.sql
+
+\echo 'Applying order amounts migration...'
+\i /docker-entrypoint-initdb.d/28-order-amounts.sql
+
+\echo 'Applying position currency migration...'
+\i /docker-entrypoint-initdb.d/29-position-currency.sql
+
 \echo 'GoldSphere database initialization complete!'
 
 -- Create some useful indexes for performance
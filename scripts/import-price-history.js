@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+/**
+ * Import historical prices (e.g. LBMA fix exports) into price_history and its candles
+ *
+ * Usage (after npm run build):
+ *   node scripts/import-price-history.js <file.csv|file.json> [--provider <name>] [--symbol AU] [--currency USD]
+ *
+ * CSV columns: timestamp (or date), symbol, price and optional currency, bid, ask.
+ * --symbol and --currency fill in files without those columns.
+ * Rows already stored for the metal, provider and timestamp are skipped.
+ * Database settings come from .env (DB_HOST, DB_PORT, DB_NAME, DB_USER, DB_PASSWORD).
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const dist = path.join(__dirname, '..', 'dist');
+const { getPool } = require(path.join(dist, 'dbConfig'));
+const { MarketDataServiceFactory } = require(path.join(dist, 'services/market-data/MarketDataServiceFactory'));
+const { getPriceFileFormat } = require(path.join(dist, 'services/market-data/utils/PriceFileParser'));
+
+const OPTIONS = { '--provider': 'providerName', '--symbol': 'symbol', '--currency': 'currency' };
+
+function parseArgs(argv) {
+  const options = {};
+  let file;
+
+  for (let i = 0; i < argv.length; i++) {
+    const option = OPTIONS[argv[i]];
+    if (option) {
+      options[option] = argv[++i];
+    } else if (!file) {
+      file = argv[i];
+    } else {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+
+  if (!file) {
+    throw new Error('Usage: node scripts/import-price-history.js <file.csv|file.json> [--provider <name>] [--symbol AU] [--currency USD]');
+  }
+  return { file, options };
+}
+
+async function importPriceHistory() {
+  const { file, options } = parseArgs(process.argv.slice(2));
+  const format = getPriceFileFormat(file);
+  const content = fs.readFileSync(file, 'utf-8');
+
+  console.log(`📈 Importing price history from ${file}...`);
+
+  const pool = getPool();
+  try {
+    const result = await MarketDataServiceFactory.createHistoryImporter(pool).importPriceHistory(content, format, options);
+
+    console.log(`✅ Provider: ${result.provider}`);
+    console.log(`   Inserted: ${result.inserted}`);
+    console.log(`   Skipped (already stored): ${result.skipped}`);
+    console.log(`   Failed: ${result.failed}`);
+    for (const { row, error } of result.errors) {
+      console.warn(`⚠️  Row ${row}: ${error}`);
+    }
+    if (result.failed > result.errors.length) {
+      console.warn(`⚠️  ... and ${result.failed - result.errors.length} more failed row(s)`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+importPriceHistory()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Price history import failed:', error.message);
+    process.exit(1);
+  });
@@ -9,6 +9,7 @@ import { RegisterRoutes } from "./generated/routes";
 import * as tsoaSwaggerSpec from "./generated/swagger.json";
 import { rawBodyMiddleware } from "./middleware/webhookMiddleware";
 import { WebhookController } from "./controllers/WebhookController";
+import { PriceStreamController } from "./controllers/PriceStreamController";
 import { RateLimitPresets, createRateLimiter, createUserRateLimiter } from "./middleware/rateLimiter";
 import { AUTH_ERROR_CODES } from "./services/auth/contract/AuthErrorFactory";
 
@@ -75,13 +76,31 @@ const registerRateLimiter = process.env.NODE_ENV === 'test'
   ? createRateLimiter({ windowMs: 15 * 60 * 1000, maxRequests: 10000 })
   : RateLimitPresets.auth;
 
+const passwordResetRateLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  maxRequests: process.env.NODE_ENV === 'test' ? 10000 : 5,
+  keyGenerator: (req) => `password-reset:${req.ip || req.socket?.remoteAddress || 'unknown'}`,
+});
+
+// 6 digit codes must not be brute-forceable within the challenge window
+const twoFactorRateLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  maxRequests: process.env.NODE_ENV === 'test' ? 10000 : 10,
+  keyGenerator: (req) => `two-factor:${req.ip || req.socket?.remoteAddress || 'unknown'}`,
+});
+
 const profilePatchRateLimiter = createUserRateLimiter({
   windowMs: 15 * 60 * 1000,
   maxRequests: process.env.NODE_ENV === 'test' ? 10000 : 30,
 });
 
 app.use('/api/auth/register', registerRateLimiter);
+app.use('/api/auth/password/forgot', passwordResetRateLimiter);
+app.use('/api/auth/password/reset', passwordResetRateLimiter);
+app.use('/api/auth/2fa/verify', twoFactorRateLimiter);
+app.use('/api/auth/step-up', twoFactorRateLimiter);
 app.use('/api/users/:id/profile', profilePatchRateLimiter);
+app.use('/api/market-data/stream', RateLimitPresets.readOnly);
 
 // Health endpoint with database connectivity check
 app.get("/health", async (req: any, res: any) => {
@@ -211,6 +230,15 @@ app.use("/api/payments/webhook", (req, res) => {
   webhookController.stripeWebhook(req, res);
 });
 
+// Price streaming (Server-Sent Events). Public like GET /api/market-data/prices: it only
+// carries market and catalog prices; connections are capped per instance and rate limited.
+// Created on first use (after tests may have replaced the pool) and shared by all connections.
+let priceStreamController: PriceStreamController | undefined;
+app.get("/api/market-data/stream", (req, res) => {
+  priceStreamController ??= new PriceStreamController();
+  priceStreamController.streamPrices(req, res);
+});
+
 // 404 handler - must be AFTER all routes
 app.use("*", (req: any, res: any) => {
   res.status(404).json({
@@ -1,7 +1,7 @@
 /**
  * Auth Controller
  *
- * Handles authentication endpoints (login, validate, refresh, me)
+ * Handles authentication endpoints (login, 2FA, validate, refresh, me, password, sessions, step-up)
  * Auto-generates Swagger docs and Express routes via tsoa
  */
 
@@ -9,6 +9,8 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
+  Path,
   Body,
   Header,
   Route,
@@ -21,7 +23,17 @@ import {
 import type { Request as ExpressRequest } from 'express';
 import { AuthServiceFactory } from '../services/auth/AuthServiceFactory';
 import type { IAuthService } from '../services/auth/IAuthService';
-import { AuthErrorCode } from '../services/auth/types/AuthTypes';
+import type { IPasswordManagementService } from '../services/auth/IPasswordManagementService';
+import type { ITwoFactorService } from '../services/auth/ITwoFactorService';
+import {
+  AuthErrorCode,
+  type AuthError,
+  type AuthResult,
+  type SessionSummary,
+  type TwoFactorEnrollment,
+  type TwoFactorStatus,
+} from '../services/auth/types/AuthTypes';
+import type { AuthenticatedUser } from '../middleware/tsoaAuth';
 import {
   type SessionSuccessResponse,
   type UserSuccessResponse,
@@ -30,11 +42,13 @@ import {
 import {
   AUTH_ERROR_CODES,
   type AuthErrorCode as CanonicalAuthErrorCode,
+  type AuthErrorDetails,
   type AuthErrorResponse,
   createAuthError,
   createValidationError,
   getAuthHttpStatus,
 } from '../services/auth/contract/AuthErrorFactory';
+import { requireAuthenticatedUser } from '../utils/auditTrail';
 
 // ============================================================================
 // Request/Response Types for tsoa
@@ -57,13 +71,135 @@ export interface LoginRequestBody {
   password?: string;
 }
 
-interface LogoutSuccessResponse {
+/**
+ * Second login step for users with two-factor authentication
+ */
+export interface TwoFactorVerifyRequestBody {
+  /**
+   * Challenge token from the AUTH_TWO_FACTOR_REQUIRED login response
+   */
+  challengeToken?: string;
+
+  /**
+   * 6 digit code from the authenticator app or a recovery code
+   * @example "123456"
+   */
+  code?: string;
+}
+
+/**
+ * Two-factor code request body
+ */
+export interface TwoFactorCodeRequestBody {
+  /**
+   * 6 digit code from the authenticator app (or a recovery code to disable)
+   * @example "123456"
+   */
+  code: string;
+}
+
+/**
+ * Step-up re-authentication request body
+ */
+export interface StepUpRequestBody {
+  /**
+   * Current password, for users without two-factor authentication
+   */
+  password?: string;
+
+  /**
+   * Authenticator or recovery code, for users with two-factor authentication
+   * @example "123456"
+   */
+  code?: string;
+}
+
+/**
+ * Refresh request body
+ */
+export interface RefreshRequestBody {
+  /**
+   * Refresh token from the login or the previous refresh response
+   */
+  refreshToken?: string;
+}
+
+/**
+ * Forgot password request body
+ */
+export interface ForgotPasswordRequestBody {
+  /**
+   * Email address of the account
+   * @example "user@goldsphere.vault"
+   */
+  email: string;
+}
+
+/**
+ * Reset password request body
+ */
+export interface ResetPasswordRequestBody {
+  /**
+   * Reset token from the password reset email
+   */
+  token: string;
+
+  /**
+   * New password (8-128 characters, upper and lower case letter and number)
+   * @example "NewSecurePassword123"
+   */
+  newPassword: string;
+}
+
+/**
+ * Change password request body
+ */
+export interface ChangePasswordRequestBody {
+  /**
+   * Current password
+   */
+  currentPassword: string;
+
+  /**
+   * New password (8-128 characters, upper and lower case letter and number)
+   * @example "NewSecurePassword123"
+   */
+  newPassword: string;
+}
+
+interface MessageSuccessResponse {
   success: true;
   data: {
     message: string;
   };
 }
 
+type LogoutSuccessResponse = MessageSuccessResponse;
+
+interface TwoFactorStatusSuccessResponse {
+  success: true;
+  data: TwoFactorStatus;
+}
+
+interface TwoFactorEnrollmentSuccessResponse {
+  success: true;
+  data: TwoFactorEnrollment;
+}
+
+interface StepUpSuccessResponse {
+  success: true;
+  data: {
+    stepUpExpiresAt: string;
+  };
+}
+
+interface SessionListSuccessResponse {
+  success: true;
+  data: {
+    sessions: SessionSummary[];
+  };
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -84,6 +220,20 @@ function getCanonicalCode(code?: AuthErrorCode): CanonicalAuthErrorCode {
       return AUTH_ERROR_CODES.AUTH_STALE_ROLE_CLAIM;
     case AuthErrorCode.INSUFFICIENT_PERMISSIONS:
       return AUTH_ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS;
+    case AuthErrorCode.RESET_TOKEN_INVALID:
+      return AUTH_ERROR_CODES.AUTH_RESET_TOKEN_INVALID;
+    case AuthErrorCode.SESSION_NOT_FOUND:
+      return AUTH_ERROR_CODES.AUTH_SESSION_NOT_FOUND;
+    case AuthErrorCode.TWO_FACTOR_REQUIRED:
+      return AUTH_ERROR_CODES.AUTH_TWO_FACTOR_REQUIRED;
+    case AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED:
+      return AUTH_ERROR_CODES.AUTH_TWO_FACTOR_ALREADY_ENABLED;
+    case AuthErrorCode.TWO_FACTOR_NOT_ENABLED:
+      return AUTH_ERROR_CODES.AUTH_TWO_FACTOR_NOT_ENABLED;
+    case AuthErrorCode.STEP_UP_REQUIRED:
+      return AUTH_ERROR_CODES.AUTH_STEP_UP_REQUIRED;
+    case AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS:
+      return AUTH_ERROR_CODES.AUTH_TOO_MANY_LOGIN_ATTEMPTS;
     case AuthErrorCode.VALIDATION_ERROR:
       return AUTH_ERROR_CODES.VALIDATION_ERROR;
     default:
@@ -91,6 +241,17 @@ function getCanonicalCode(code?: AuthErrorCode): CanonicalAuthErrorCode {
   }
 }
 
+function toAuthErrorResponse(error: AuthError | undefined, fallbackMessage: string): AuthErrorResponse {
+  const code = getCanonicalCode(error?.code);
+  const details: AuthErrorDetails = {
+    ...(error?.challenge
+      ? { challengeToken: error.challenge.challengeToken, challengeExpiresAt: error.challenge.expiresAt }
+      : {}),
+    ...(error?.retryAfterSeconds ? { retryAfterSeconds: error.retryAfterSeconds } : {}),
+  };
+  return createAuthError(code, error?.message || fallbackMessage, Object.keys(details).length > 0 ? details : undefined);
+}
+
 // ============================================================================
 // Controller
 // ============================================================================
@@ -99,14 +260,24 @@ function getCanonicalCode(code?: AuthErrorCode): CanonicalAuthErrorCode {
 @Tags('Authentication')
 export class AuthController extends Controller {
   private readonly authService: IAuthService;
+  private readonly passwordManagementService: IPasswordManagementService;
+  private readonly twoFactorService: ITwoFactorService;
 
   constructor() {
     super();
     this.authService = AuthServiceFactory.create();
+    this.passwordManagementService = AuthServiceFactory.createPasswordManagementService();
+    this.twoFactorService = AuthServiceFactory.createTwoFactorService();
   }
 
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password.
+   * Starts a session and returns a short-lived access token and a refresh token.
+   * Users with two-factor authentication get 403 AUTH_TWO_FACTOR_REQUIRED with
+   * details.challengeToken for POST /auth/2fa/verify instead.
+   * Repeated failures are answered with 429 and a Retry-After header; too many lock
+   * the account temporarily. The lock is only revealed for the correct password
+   * (403 AUTH_ACCOUNT_LOCKED with details.retryAfterSeconds).
    * @summary User login
    * @param body Login credentials
    * @returns Session data on success
@@ -115,9 +286,11 @@ export class AuthController extends Controller {
   @SuccessResponse(200, 'Login successful')
   @Response<AuthErrorResponse>(400, 'Missing required fields')
   @Response<AuthErrorResponse>(401, 'Invalid credentials')
-  @Response<AuthErrorResponse>(403, 'Account locked')
+  @Response<AuthErrorResponse>(403, 'Account locked or two-factor code required')
+  @Response<AuthErrorResponse>(429, 'Too many failed login attempts')
   public async login(
-    @Body() body: LoginRequestBody
+    @Body() body: LoginRequestBody,
+    @Request() request: ExpressRequest
   ): Promise<SessionSuccessResponse | AuthErrorResponse> {
     const { email, password } = body;
 
@@ -133,14 +306,51 @@ export class AuthController extends Controller {
       return errorResponse;
     }
 
-    const result = await this.authService.login({ email, password });
+    const result = await this.authService.login(
+      { email, password },
+      { userAgent: request.headers['user-agent'], ipAddress: request.ip }
+    );
 
     if (!result.success || !result.data) {
-      const error = result.error;
-      const code = getCanonicalCode(error?.code);
-      const errorResponse = createAuthError(code, error?.message || 'Authentication failed');
-      this.setStatus(getAuthHttpStatus(code));
-      return errorResponse;
+      return this.toFailureResponse(result.error, 'Authentication failed');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Second login step: exchange the challenge token and a TOTP or recovery code for a session
+   * @summary Verify two-factor code
+   * @param body Challenge token and code
+   * @returns Session data on success
+   */
+  @Post('2fa/verify')
+  @SuccessResponse(200, 'Login successful')
+  @Response<AuthErrorResponse>(400, 'Missing required fields')
+  @Response<AuthErrorResponse>(401, 'Invalid code or expired challenge')
+  @Response<AuthErrorResponse>(429, 'Too many requests or invalid codes')
+  public async verifyTwoFactor(
+    @Body() body: TwoFactorVerifyRequestBody,
+    @Request() request: ExpressRequest
+  ): Promise<SessionSuccessResponse | AuthErrorResponse> {
+    if (!body.challengeToken) {
+      this.setStatus(400);
+      return createValidationError('challengeToken', 'Challenge token is required');
+    }
+
+    if (!body.code) {
+      this.setStatus(400);
+      return createValidationError('code', 'Two-factor code is required');
+    }
+
+    const result = await this.authService.completeTwoFactorLogin(
+      body.challengeToken,
+      body.code,
+      { userAgent: request.headers['user-agent'], ipAddress: request.ip }
+    );
+
+    if (!result.success || !result.data) {
+      return this.toFailureResponse(result.error, 'Authentication failed');
     }
 
     return result.data;
@@ -184,31 +394,30 @@ export class AuthController extends Controller {
   }
 
   /**
-   * Refresh JWT token
-   * @summary Refresh token
-   * @param authorization Bearer token header
+   * Exchange a refresh token for a new access token and refresh token.
+   * Every refresh token can be used once; reusing one revokes the whole session.
+   * @summary Refresh session
+   * @param body Refresh token
    * @returns New session data
    */
   @Post('refresh')
-  @SuccessResponse(200, 'Token refreshed successfully')
-  @Response<AuthErrorResponse>(401, 'Invalid or expired token')
+  @SuccessResponse(200, 'Session refreshed successfully')
+  @Response<AuthErrorResponse>(401, 'Invalid, reused or expired refresh token')
   public async refresh(
-    @Header('Authorization') authorization?: string
+    @Body() body: RefreshRequestBody
   ): Promise<SessionSuccessResponse | AuthErrorResponse> {
-    const token = authorization?.replace('Bearer ', '');
-
-    if (!token) {
+    if (!body?.refreshToken) {
       const code = AUTH_ERROR_CODES.AUTH_TOKEN_INVALID;
       this.setStatus(401);
-      return createAuthError(code, 'No token provided');
+      return createAuthError(code, 'No refresh token provided');
     }
 
-    const result = await this.authService.refreshToken(token);
+    const result = await this.authService.refreshToken(body.refreshToken);
 
     if (!result.success || !result.data) {
       const error = result.error;
       const code = getCanonicalCode(error?.code);
-      const errorResponse = createAuthError(code, error?.message || 'Failed to refresh token');
+      const errorResponse = createAuthError(code, error?.message || 'Failed to refresh session');
       this.setStatus(getAuthHttpStatus(code));
       return errorResponse;
     }
@@ -292,4 +501,251 @@ export class AuthController extends Controller {
       },
     };
   }
+
+  /**
+   * Request a password reset link by email.
+   * Responds with success whether or not an account exists for the email address.
+   * @summary Forgot password
+   * @param body Email address of the account
+   */
+  @Post('password/forgot')
+  @SuccessResponse(200, 'Reset link sent if the account exists')
+  @Response<AuthErrorResponse>(400, 'Invalid email address')
+  @Response<AuthErrorResponse>(429, 'Too many requests')
+  public async forgotPassword(
+    @Body() body: ForgotPasswordRequestBody
+  ): Promise<MessageSuccessResponse | AuthErrorResponse> {
+    const result = await this.passwordManagementService.requestPasswordReset(body.email);
+    return this.toMessageResponse(result, 'Failed to request password reset');
+  }
+
+  /**
+   * Set a new password with the token from the password reset email.
+   * The token can be used once; all issued tokens of the user are revoked.
+   * @summary Reset password
+   * @param body Reset token and new password
+   */
+  @Post('password/reset')
+  @SuccessResponse(200, 'Password reset')
+  @Response<AuthErrorResponse>(400, 'Invalid or expired reset token, or weak password')
+  @Response<AuthErrorResponse>(429, 'Too many requests')
+  public async resetPassword(
+    @Body() body: ResetPasswordRequestBody
+  ): Promise<MessageSuccessResponse | AuthErrorResponse> {
+    const result = await this.passwordManagementService.resetPassword(body.token, body.newPassword);
+    return this.toMessageResponse(result, 'Failed to reset password');
+  }
+
+  /**
+   * Change the password of the current user.
+   * All issued tokens, including the one of this request, are revoked; log in again afterwards.
+   * @summary Change password
+   * @param body Current and new password
+   */
+  @Post('password/change')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Password changed')
+  @Response<AuthErrorResponse>(400, 'Weak password')
+  @Response<AuthErrorResponse>(401, 'Current password is incorrect')
+  public async changePassword(
+    @Body() body: ChangePasswordRequestBody,
+    @Request() request: ExpressRequest
+  ): Promise<MessageSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request);
+    const result = await this.passwordManagementService.changePassword(
+      user.id,
+      body.currentPassword,
+      body.newPassword
+    );
+    return this.toMessageResponse(result, 'Failed to change password');
+  }
+
+  /**
+   * List the active sessions (devices) of the current user
+   * @summary List sessions
+   */
+  @Get('sessions')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Sessions retrieved')
+  @Response<AuthErrorResponse>(401, 'Invalid or expired token')
+  public async listSessions(
+    @Request() request: ExpressRequest
+  ): Promise<SessionListSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request) as AuthenticatedUser;
+    const result = await this.authService.listSessions(user.id, user.sessionId);
+
+    if (!result.success || !result.data) {
+      const code = getCanonicalCode(result.error?.code);
+      this.setStatus(getAuthHttpStatus(code));
+      return createAuthError(code, result.error?.message || 'Failed to list sessions');
+    }
+
+    return {
+      success: true,
+      data: {
+        sessions: result.data,
+      },
+    };
+  }
+
+  /**
+   * Revoke one of the current user's sessions, e.g. a lost device.
+   * Its refresh token and access tokens stop working immediately.
+   * @summary Revoke session
+   * @param id Session ID
+   */
+  @Delete('sessions/{id}')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Session revoked')
+  @Response<AuthErrorResponse>(401, 'Invalid or expired token')
+  @Response<AuthErrorResponse>(404, 'Session not found')
+  public async revokeSession(
+    @Path() id: string,
+    @Request() request: ExpressRequest
+  ): Promise<MessageSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request);
+    const result = await this.authService.revokeSession(user.id, id);
+    return this.toMessageResponse(result, 'Failed to revoke session');
+  }
+
+  /**
+   * Two-factor authentication status of the current user
+   * @summary Get two-factor status
+   */
+  @Get('2fa')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Two-factor status retrieved')
+  @Response<AuthErrorResponse>(401, 'Invalid or expired token')
+  public async getTwoFactorStatus(
+    @Request() request: ExpressRequest
+  ): Promise<TwoFactorStatusSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request);
+    const result = await this.twoFactorService.getStatus(user.id);
+
+    if (!result.success || !result.data) {
+      const errorResponse = toAuthErrorResponse(result.error, 'Failed to load two-factor status');
+      this.setStatus(getAuthHttpStatus(errorResponse.code));
+      return errorResponse;
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Start two-factor enrolment: returns the secret, the otpauth:// provisioning URI
+   * (render as QR code) and recovery codes. Recovery codes are shown only once.
+   * 2FA is enforced after POST /auth/2fa/activate.
+   * @summary Enrol two-factor authentication
+   */
+  @Post('2fa/enrol')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Enrolment started')
+  @Response<AuthErrorResponse>(401, 'Invalid or expired token')
+  @Response<AuthErrorResponse>(409, 'Two-factor authentication already enabled')
+  public async enrolTwoFactor(
+    @Request() request: ExpressRequest
+  ): Promise<TwoFactorEnrollmentSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request);
+    const result = await this.twoFactorService.startEnrollment(user.id);
+
+    if (!result.success || !result.data) {
+      const errorResponse = toAuthErrorResponse(result.error, 'Failed to start two-factor enrolment');
+      this.setStatus(getAuthHttpStatus(errorResponse.code));
+      return errorResponse;
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Activate two-factor authentication with the first code from the authenticator app
+   * @summary Activate two-factor authentication
+   * @param body Authenticator code
+   */
+  @Post('2fa/activate')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Two-factor authentication enabled')
+  @Response<AuthErrorResponse>(401, 'Invalid code')
+  @Response<AuthErrorResponse>(409, 'No pending enrolment or already enabled')
+  public async activateTwoFactor(
+    @Body() body: TwoFactorCodeRequestBody,
+    @Request() request: ExpressRequest
+  ): Promise<MessageSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request);
+    const result = await this.twoFactorService.activateTwoFactor(user.id, body.code);
+    return this.toMessageResponse(result, 'Failed to activate two-factor authentication');
+  }
+
+  /**
+   * Disable two-factor authentication with an authenticator or recovery code
+   * @summary Disable two-factor authentication
+   * @param body Authenticator or recovery code
+   */
+  @Post('2fa/disable')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Two-factor authentication disabled')
+  @Response<AuthErrorResponse>(401, 'Invalid code')
+  @Response<AuthErrorResponse>(409, 'Two-factor authentication not enabled')
+  @Response<AuthErrorResponse>(429, 'Too many invalid codes')
+  public async disableTwoFactor(
+    @Body() body: TwoFactorCodeRequestBody,
+    @Request() request: ExpressRequest
+  ): Promise<MessageSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request);
+    const result = await this.twoFactorService.disableTwoFactor(user.id, body.code);
+    return this.toMessageResponse(result, 'Failed to disable two-factor authentication');
+  }
+
+  /**
+   * Re-authenticate on the current session before sensitive operations such as changing a savings plan.
+   * Users with two-factor authentication send a code, all others their password.
+   * @summary Step-up re-authentication
+   * @param body Code or password
+   */
+  @Post('step-up')
+  @Security('bearerAuth')
+  @SuccessResponse(200, 'Re-authenticated')
+  @Response<AuthErrorResponse>(401, 'Invalid code or password')
+  @Response<AuthErrorResponse>(429, 'Too many requests or invalid codes or passwords')
+  public async stepUp(
+    @Body() body: StepUpRequestBody,
+    @Request() request: ExpressRequest
+  ): Promise<StepUpSuccessResponse | AuthErrorResponse> {
+    const user = requireAuthenticatedUser(request) as AuthenticatedUser;
+    const result = await this.twoFactorService.stepUp(user.id, user.sessionId, body);
+
+    if (!result.success || !result.data) {
+      return this.toFailureResponse(result.error, 'Failed to re-authenticate');
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  private toMessageResponse(
+    result: AuthResult<{ message: string }>,
+    fallbackMessage: string
+  ): MessageSuccessResponse | AuthErrorResponse {
+    if (!result.success || !result.data) {
+      return this.toFailureResponse(result.error, fallbackMessage);
+    }
+
+    return {
+      success: true,
+      data: {
+        message: result.data.message,
+      },
+    };
+  }
+
+  /**
+   * Error response with its HTTP status and, for throttled attempts, a Retry-After header
+   */
+  private toFailureResponse(error: AuthError | undefined, fallbackMessage: string): AuthErrorResponse {
+    const errorResponse = toAuthErrorResponse(error, fallbackMessage);
+    this.setStatus(getAuthHttpStatus(errorResponse.code));
+    if (errorResponse.details?.retryAfterSeconds) {
+      this.setHeader('Retry-After', String(errorResponse.details.retryAfterSeconds));
+    }
+    return errorResponse;
+  }
 }
@@ -23,11 +23,17 @@ import {
 } from "tsoa";
 import type { Request as ExpressRequest } from "express";
 import { getPool } from "../dbConfig";
-import { requireAuthenticatedUser } from "../utils/auditTrail";
+import { AuditTrailUser, AuthenticationError, requireAuthenticatedUser } from "../utils/auditTrail";
 import { 
   CustodyServiceFactory, 
   CustodyServiceDTO,
-  CustodianWithServices
+  CustodianWithServices,
+  CustodyInvoice,
+  CustodyInvoiceStatus,
+  CustodyInvoiceList,
+  CustodyServiceResult,
+  CustodyServiceSuggestion,
+  isCustodyInvoiceStatus
 } from "../services/custody";
 import { normalizePagination } from "../utils/paginationResponse";
 
@@ -91,6 +97,28 @@ interface CustodiansWithServicesResponse {
   data: CustodianWithServices[];
 }
 
+interface CustodyInvoiceListResponse {
+  success: true;
+  data: {
+    invoices: CustodyInvoice[];
+    pagination: CustodyPaginationInfo;
+  };
+}
+
+interface CustodySuggestionRequest {
+  /** Proposed basket; fine weight is computed from product weight, unit and purity */
+  items: Array<{
+    productId: string;
+    quantity: number;
+  }>;
+}
+
+interface CustodySuggestionResponse {
+  success: true;
+  data: CustodyServiceSuggestion[];
+  message?: string;
+}
+
 interface CustodyServiceCreateRequest {
   /** Name of the custody service */
   serviceName: string;
@@ -102,7 +130,9 @@ interface CustodyServiceCreateRequest {
   paymentFrequency: PaymentFrequency;
   /** Currency ISO code (e.g., 'CHF', 'EUR', 'USD') */
   currency: string;
-  /** Maximum weight limit (optional) */
+  /** Minimum fine weight in grams a user must hold in the service (optional) */
+  minWeight?: number;
+  /** Maximum fine weight in grams a user may hold in the service (optional) */
   maxWeight?: number;
 }
 
@@ -117,10 +147,77 @@ interface CustodyServiceUpdateRequest {
   paymentFrequency?: PaymentFrequency;
   /** Updated currency ISO code */
   currency?: string;
-  /** Updated max weight limit */
+  /** Updated min fine weight in grams */
+  minWeight?: number;
+  /** Updated max fine weight in grams */
   maxWeight?: number;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createHttpError(status: number, message: string): Error & { status: number } {
+  const error = new Error(message) as Error & { status: number };
+  error.status = status;
+  return error;
+}
+
+function requireUser(request: ExpressRequest): AuditTrailUser {
+  try {
+    return requireAuthenticatedUser(request);
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw createHttpError(401, error.message);
+    }
+    throw error;
+  }
+}
+
+function parseInvoiceQuery(
+  status: string | undefined,
+  from: string | undefined,
+  to: string | undefined
+): { status?: CustodyInvoiceStatus; from?: Date; to?: Date } {
+  let invoiceStatus: CustodyInvoiceStatus | undefined;
+  if (status !== undefined) {
+    if (!isCustodyInvoiceStatus(status)) {
+      throw createHttpError(400, `Invalid invoice status: ${status}`);
+    }
+    invoiceStatus = status;
+  }
+
+  const parseDate = (value: string | undefined, name: string): Date | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw createHttpError(400, `Invalid ${name} date: ${value}`);
+    }
+    return date;
+  };
+
+  return { status: invoiceStatus, from: parseDate(from, "from"), to: parseDate(to, "to") };
+}
+
+function toInvoiceListResponse(result: CustodyServiceResult<CustodyInvoiceList>): CustodyInvoiceListResponse {
+  if (!result.success || !result.data) {
+    throw createHttpError(
+      result.error?.includes("Invalid") ? 400 : 500,
+      result.error || "Failed to fetch custody invoices"
+    );
+  }
+
+  return {
+    success: true,
+    data: {
+      invoices: result.data.invoices,
+      pagination: normalizePagination(result.data.pagination)
+    }
+  };
+}
+
 // ============================================================================
 // Controller
 // ============================================================================
@@ -130,6 +227,7 @@ interface CustodyServiceUpdateRequest {
 @Security("bearerAuth")
 export class CustodyServiceController extends Controller {
   private readonly custodyService = CustodyServiceFactory.createService(getPool());
+  private readonly billingService = CustodyServiceFactory.createBillingService(getPool());
 
   /**
    * Get all custody services (simple list)
@@ -296,6 +394,7 @@ export class CustodyServiceController extends Controller {
       fee: requestBody.fee,
       paymentFrequency: requestBody.paymentFrequency,
       currency: requestBody.currency,
+      minWeight: requestBody.minWeight,
       maxWeight: requestBody.maxWeight
     };
 
@@ -343,6 +442,7 @@ export class CustodyServiceController extends Controller {
       fee: requestBody.fee,
       paymentFrequency: requestBody.paymentFrequency,
       currency: requestBody.currency,
+      minWeight: requestBody.minWeight,
       maxWeight: requestBody.maxWeight
     };
 
@@ -428,4 +528,115 @@ export class CustodyServiceController extends Controller {
       data: result.data
     };
   }
+
+  /**
+   * Get custody fee invoices of all users (admin only)
+   * @param page Page number (default: 1)
+   * @param limit Items per page (default: 20, max: 100)
+   * @param userId Filter by user ID
+   * @param custodyServiceId Filter by custody service ID
+   * @param status Filter by invoice status (open, paid, void)
+   * @param from Only invoices whose billing period starts on or after this date (ISO 8601)
+   * @param to Only invoices whose billing period ends on or before this date (ISO 8601)
+   */
+  @Get("/invoices")
+  @SuccessResponse(200, "Custody invoices")
+  @Response<CustodyErrorResponse>(400, "Invalid query parameters")
+  @Response<CustodyErrorResponse>(401, "Authentication required")
+  @Response<CustodyErrorResponse>(403, "Admin access required")
+  @Response<CustodyErrorResponse>(500, "Server error")
+  public async getCustodyInvoices(
+    @Request() request: ExpressRequest,
+    @Query() page?: number,
+    @Query() limit?: number,
+    @Query() userId?: string,
+    @Query() custodyServiceId?: string,
+    @Query() status?: string,
+    @Query() from?: string,
+    @Query() to?: string
+  ): Promise<CustodyInvoiceListResponse> {
+    const authenticatedUser = requireUser(request);
+    if (authenticatedUser.role !== "admin") {
+      throw createHttpError(403, "Admin access required");
+    }
+
+    const result = await this.billingService.getInvoices({
+      page: page || 1,
+      limit: Math.min(limit || 20, 100),
+      userId,
+      custodyServiceId,
+      ...parseInvoiceQuery(status, from, to)
+    });
+
+    return toInvoiceListResponse(result);
+  }
+
+  /**
+   * Get custody fee invoices of the authenticated user
+   * @param page Page number (default: 1)
+   * @param limit Items per page (default: 20, max: 100)
+   * @param status Filter by invoice status (open, paid, void)
+   * @param from Only invoices whose billing period starts on or after this date (ISO 8601)
+   * @param to Only invoices whose billing period ends on or before this date (ISO 8601)
+   */
+  @Get("/invoices/my")
+  @SuccessResponse(200, "Custody invoices of the current user")
+  @Response<CustodyErrorResponse>(400, "Invalid query parameters")
+  @Response<CustodyErrorResponse>(401, "Authentication required")
+  @Response<CustodyErrorResponse>(500, "Server error")
+  public async getMyCustodyInvoices(
+    @Request() request: ExpressRequest,
+    @Query() page?: number,
+    @Query() limit?: number,
+    @Query() status?: string,
+    @Query() from?: string,
+    @Query() to?: string
+  ): Promise<CustodyInvoiceListResponse> {
+    const authenticatedUser = requireUser(request);
+
+    const result = await this.billingService.getUserInvoices(authenticatedUser.id, {
+      page: page || 1,
+      limit: Math.min(limit || 20, 100),
+      ...parseInvoiceQuery(status, from, to)
+    });
+
+    return toInvoiceListResponse(result);
+  }
+
+  /**
+   * Suggest custody services for a proposed basket
+   * Lists every custody service with the user's resulting fine weight (grams)
+   * against its min/max weight; services that can accept the basket come first, cheapest first
+   * @param requestBody Proposed basket
+   */
+  @Post("/suggestions")
+  @SuccessResponse(200, "Custody services with capacity for the basket")
+  @Response<CustodyErrorResponse>(400, "Invalid basket")
+  @Response<CustodyErrorResponse>(401, "Authentication required")
+  @Response<CustodyErrorResponse>(404, "Product not found")
+  @Response<CustodyErrorResponse>(500, "Server error")
+  public async suggestCustodyServices(
+    @Body() requestBody: CustodySuggestionRequest,
+    @Request() request: ExpressRequest
+  ): Promise<CustodySuggestionResponse> {
+    const authenticatedUser = requireUser(request);
+    const result = await this.custodyService.suggestCustodyServices(authenticatedUser.id, requestBody.items);
+
+    if (!result.success || !result.data) {
+      let status = 500;
+      if (result.error?.includes("not found")) {
+        status = 404;
+      } else if (result.error?.includes("Invalid")) {
+        status = 400;
+      }
+      throw createHttpError(status, result.error || "Failed to suggest custody services");
+    }
+
+    this.setStatus(200);
+    return {
+      success: true,
+      data: result.data,
+      message: result.message
+    };
+  }
 }
@@ -0,0 +1,163 @@
+/**
+ * FX Controller - tsoa implementation
+ *
+ * Stored exchange rates, currency conversion and manual rate updates.
+ * Rates are kept current by the FX rate scheduler (ENABLE_FX_RATE_SCHEDULER).
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Route,
+  Query,
+  Tags,
+  SuccessResponse,
+  Response,
+  Security
+} from "tsoa";
+import { getPool } from "../dbConfig";
+import {
+  FxServiceFactory,
+  FxConversion,
+  FxError,
+  FxRate,
+  FxUpdateResult,
+  getFxHttpStatus
+} from "../services/fx";
+
+// ============================================================================
+// Response Interfaces
+// ============================================================================
+
+interface FxErrorResponse {
+  success: false;
+  code?: string;
+  error: string;
+}
+
+interface FxRatesResponse {
+  success: true;
+  data: {
+    asOf: Date;
+    currencies: string[];
+    rates: FxRate[];
+  };
+}
+
+interface FxConversionResponse {
+  success: true;
+  data: FxConversion;
+}
+
+interface FxUpdateResponse {
+  success: true;
+  data: FxUpdateResult;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getFxService() {
+  return FxServiceFactory.create(getPool());
+}
+
+function createHttpError(status: number, message: string, code?: string): Error & { status: number; code?: string } {
+  const error = new Error(message) as Error & { status: number; code?: string };
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+function toHttpError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof FxError) {
+    return createHttpError(getFxHttpStatus(error.code), error.message, error.code);
+  }
+  return createHttpError(500, fallbackMessage);
+}
+
+function parseAsOf(value: string | undefined): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw createHttpError(400, `Invalid asOf date: ${value}`);
+  }
+  return date;
+}
+
+// ============================================================================
+// Controller
+// ============================================================================
+
+@Route("fx")
+@Tags("FX")
+export class FxController extends Controller {
+  /**
+   * Latest stored exchange rate per currency pair
+   * @param asOf Point in time (ISO 8601), default: now
+   */
+  @Get("rates")
+  @SuccessResponse(200, "Exchange rates")
+  @Response<FxErrorResponse>(400, "Invalid asOf date")
+  @Response<FxErrorResponse>(500, "Server error")
+  public async getRates(@Query() asOf?: string): Promise<FxRatesResponse> {
+    const at = parseAsOf(asOf) ?? new Date();
+
+    try {
+      const fxService = getFxService();
+      const [table, rates] = await Promise.all([fxService.getRateTable(at), fxService.listRates(at)]);
+      return { success: true, data: { asOf: at, currencies: table.getCurrencies(), rates } };
+    } catch (error) {
+      throw toHttpError(error, "Failed to fetch exchange rates");
+    }
+  }
+
+  /**
+   * Convert an amount between two reference currencies
+   * @param amount Amount in the source currency
+   * @param from Source currency (ISO 4217)
+   * @param to Target currency (ISO 4217)
+   * @param asOf Use the rates valid at this time (ISO 8601), default: now
+   */
+  @Get("convert")
+  @SuccessResponse(200, "Converted amount")
+  @Response<FxErrorResponse>(400, "Invalid amount, date or unsupported currency")
+  @Response<FxErrorResponse>(500, "Server error")
+  @Response<FxErrorResponse>(503, "No exchange rate available for the currency pair")
+  public async convert(
+    @Query() amount: number,
+    @Query() from: string,
+    @Query() to: string,
+    @Query() asOf?: string
+  ): Promise<FxConversionResponse> {
+    const at = parseAsOf(asOf);
+
+    try {
+      return { success: true, data: await getFxService().convert(amount, from, to, at) };
+    } catch (error) {
+      throw toHttpError(error, "Failed to convert amount");
+    }
+  }
+
+  /**
+   * Fetch and store current rates from the FX rate providers (Admin only)
+   */
+  @Post("rates/update")
+  @Security("bearerAuth", ["admin"])
+  @SuccessResponse(200, "Rates updated successfully")
+  @Response<FxErrorResponse>(401, "Unauthorized")
+  @Response<FxErrorResponse>(403, "Forbidden - Admin access required")
+  @Response<FxErrorResponse>(502, "All providers failed")
+  public async updateRates(): Promise<FxUpdateResponse> {
+    const result = await getFxService().updateRatesFromProviders();
+
+    if (!result.success) {
+      throw createHttpError(502, `Failed to update exchange rates: ${result.errors.join(", ")}`);
+    }
+
+    return { success: true, data: result };
+  }
+}
@@ -9,23 +9,46 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Delete,
   Route,
   Path,
   Query,
+  Body,
+  Request,
   Tags,
   SuccessResponse,
   Response,
-  Security
+  Security,
+  UploadedFile
 } from "tsoa";
+import type { Request as ExpressRequest } from "express";
 import { getPool } from "../dbConfig";
-import { MarketDataServiceFactory, MarketDataQuery } from "../services/market-data";
+import { AuthenticationError, requireAuthenticatedUser } from "../utils/auditTrail";
+import {
+  MarketDataServiceFactory,
+  MarketDataQuery,
+  PriceAlert,
+  PriceAlertError,
+  CreatePriceAlertInput,
+  UpdatePriceAlertInput,
+  getPriceAlertHttpStatus
+} from "../services/market-data";
 import {
   MarketPrice,
   PriceHistory,
+  PriceCandle,
+  CandleInterval,
   PriceUpdateResult,
-  MarketDataProvider
+  ProviderStatus,
+  MarketStatus,
+  QuoteFreshness,
+  PriceHistoryImportResult,
+  PriceHistoryImportError,
+  CANDLE_INTERVALS,
+  isCandleInterval
 } from "../services/market-data/types/MarketDataTypes";
+import { getPriceFileFormat, PriceFileFormat } from "../services/market-data/utils/PriceFileParser";
 
 // ============================================================================
 // Response Interfaces
@@ -33,6 +56,7 @@ import {
 
 interface MarketDataErrorResponse {
   success: false;
+  code?: string;
   error: string;
   details?: string;
 }
@@ -40,6 +64,8 @@ interface MarketDataErrorResponse {
 interface SinglePriceResponse {
   success: true;
   data: MarketPrice;
+  /** Whether the quote is live, stale or the last close, and its age */
+  freshness: QuoteFreshness;
 }
 
 interface MultiplePricesResponse {
@@ -47,12 +73,29 @@ interface MultiplePricesResponse {
   data: Record<string, MarketPrice>;
 }
 
+interface MarketStatusResponse {
+  success: true;
+  data: MarketStatus;
+}
+
 interface HistoryResponse {
   success: true;
   data: PriceHistory[];
   count: number;
 }
 
+interface CandleHistoryResponse {
+  success: true;
+  interval: CandleInterval;
+  data: PriceCandle[];
+  count: number;
+}
+
+interface HistoryImportResponse {
+  success: true;
+  data: PriceHistoryImportResult;
+}
+
 interface UpdateResponse {
   success: true;
   data: PriceUpdateResult;
@@ -66,7 +109,7 @@ interface UpdateErrorResponse {
 
 interface ProvidersResponse {
   success: true;
-  data: MarketDataProvider[];
+  data: ProviderStatus[];
 }
 
 interface CacheCleanupResponse {
@@ -74,6 +117,17 @@ interface CacheCleanupResponse {
   message: string;
 }
 
+interface PriceAlertResponse {
+  success: true;
+  data: PriceAlert;
+}
+
+interface PriceAlertListResponse {
+  success: true;
+  data: PriceAlert[];
+  count: number;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -82,6 +136,12 @@ function getMarketDataService() {
   return MarketDataServiceFactory.create(getPool());
 }
 
+function getPriceAlertService() {
+  return MarketDataServiceFactory.createPriceAlertService(getPool());
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // ============================================================================
 // Controller
 // ============================================================================
@@ -91,6 +151,8 @@ function getMarketDataService() {
 export class MarketDataController extends Controller {
   /**
    * Get current market price for a specific metal
+   * The freshness block tells whether the quote is live, stale or the last close
+   * according to the trading calendar
    * @param metalSymbol Metal symbol (e.g., XAU for gold, XAG for silver)
    * @param currency Currency code (default: USD)
    */
@@ -110,7 +172,8 @@ export class MarketDataController extends Controller {
       }
 
       const currencyCode = (currency || "USD").toUpperCase();
-      const price = await getMarketDataService().getCurrentPrice(
+      const service = getMarketDataService();
+      const price = await service.getCurrentPrice(
         metalSymbol.toUpperCase(),
         currencyCode
       );
@@ -122,7 +185,8 @@ export class MarketDataController extends Controller {
 
       return {
         success: true,
-        data: price
+        data: price,
+        freshness: await service.getQuoteFreshness(price)
       };
     } catch (error) {
       this.setStatus(500);
@@ -183,6 +247,29 @@ export class MarketDataController extends Controller {
     }
   }
 
+  /**
+   * Get whether a trading venue is in session, with the next open and
+   * last close while the market is closed
+   */
+  @Get("market-status")
+  @SuccessResponse(200, "Current market status")
+  @Response<MarketDataErrorResponse>(500, "Server error")
+  public async getMarketStatus(): Promise<MarketStatusResponse | MarketDataErrorResponse> {
+    try {
+      return {
+        success: true,
+        data: await getMarketDataService().getMarketStatus()
+      };
+    } catch (error) {
+      this.setStatus(500);
+      return {
+        success: false,
+        error: "Failed to fetch market status",
+        details: error instanceof Error ? error.message : "Unknown error"
+      };
+    }
+  }
+
   /**
    * Get historical price data for a metal
    * @param metalSymbol Metal symbol
@@ -190,6 +277,7 @@ export class MarketDataController extends Controller {
    * @param endDate End date (ISO 8601)
    * @param currency Currency code (default: USD)
    * @param limit Maximum number of records (default: 100, max: 1000)
+   * @param interval Aggregate into OHLC candles: 1h, 1d, 1w or 1M (default: raw prices)
    */
   @Get("history/{metalSymbol}")
   @SuccessResponse(200, "Historical price data")
@@ -200,8 +288,9 @@ export class MarketDataController extends Controller {
     @Query() startDate?: string,
     @Query() endDate?: string,
     @Query() currency?: string,
-    @Query() limit?: number
-  ): Promise<HistoryResponse | MarketDataErrorResponse> {
+    @Query() limit?: number,
+    @Query() interval?: string
+  ): Promise<HistoryResponse | CandleHistoryResponse | MarketDataErrorResponse> {
     try {
       if (!metalSymbol || metalSymbol.trim() === "") {
         this.setStatus(400);
@@ -228,14 +317,34 @@ export class MarketDataController extends Controller {
         }
       }
 
+      if (interval !== undefined && !isCandleInterval(interval)) {
+        this.setStatus(400);
+        return {
+          success: false,
+          error: `Invalid interval. Supported: ${CANDLE_INTERVALS.join(", ")}`
+        };
+      }
+
       const query: MarketDataQuery = {
         metalSymbol: metalSymbol.toUpperCase(),
         currency: (currency || "USD").toUpperCase(),
         limit: Math.min(limit || 100, 1000),
         startDate: parsedStartDate,
-        endDate: parsedEndDate
+        endDate: parsedEndDate,
+        interval
       };
 
+      if (query.interval) {
+        const candles = await getMarketDataService().getPriceCandles(query);
+
+        return {
+          success: true,
+          interval: query.interval,
+          data: candles,
+          count: candles.length
+        };
+      }
+
       const history = await getMarketDataService().getHistoricalPrices(query);
 
       return {
@@ -253,8 +362,71 @@ export class MarketDataController extends Controller {
     }
   }
 
+  /**
+   * Import historical prices from a CSV or JSON file into the price history (Admin only)
+   * CSV columns: timestamp (or date), symbol, price and optional currency, bid, ask.
+   * Rows already stored for the metal, provider and timestamp are skipped; invalid
+   * rows are reported with their row number and do not stop the import.
+   * @param file CSV or JSON price file
+   * @param provider Provider the prices are stored under (default: Historical Import)
+   * @param symbol Metal of rows without a symbol column (e.g. AU for an LBMA gold export)
+   * @param currency Currency of rows without a currency column (default: USD)
+   */
+  @Post("history/import")
+  @Security("bearerAuth", ["admin"])
+  @SuccessResponse(200, "Price history imported")
+  @Response<MarketDataErrorResponse>(400, "Invalid price file or unknown provider")
+  @Response<MarketDataErrorResponse>(401, "Unauthorized")
+  @Response<MarketDataErrorResponse>(403, "Forbidden - Admin access required")
+  @Response<MarketDataErrorResponse>(500, "Server error")
+  public async importPriceHistory(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() provider?: string,
+    @Query() symbol?: string,
+    @Query() currency?: string
+  ): Promise<HistoryImportResponse | MarketDataErrorResponse> {
+    if (!file) {
+      this.setStatus(400);
+      return { success: false, error: "No price file provided" };
+    }
+
+    let format: PriceFileFormat;
+    try {
+      format = getPriceFileFormat(file.originalname);
+    } catch (error) {
+      this.setStatus(400);
+      return { success: false, error: error instanceof Error ? error.message : "Unsupported price file" };
+    }
+
+    try {
+      const result = await getMarketDataService().importPriceHistory(file.buffer.toString("utf-8"), format, {
+        providerName: provider,
+        symbol,
+        currency
+      });
+
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      if (error instanceof PriceHistoryImportError) {
+        this.setStatus(400);
+        return { success: false, code: error.code, error: error.message };
+      }
+
+      this.setStatus(500);
+      return {
+        success: false,
+        error: "Failed to import price history",
+        details: error instanceof Error ? error.message : "Unknown error"
+      };
+    }
+  }
+
   /**
    * Manually trigger price update from external APIs (Admin only)
+   * Price alerts are evaluated against the new prices, as by the scheduler
    */
   @Post("update")
   @Security("bearerAuth", ["admin"])
@@ -264,7 +436,7 @@ export class MarketDataController extends Controller {
   @Response<UpdateErrorResponse>(500, "Failed to update prices")
   public async triggerPriceUpdate(): Promise<UpdateResponse> {
     try {
-      const result = await getMarketDataService().updatePricesFromApi();
+      const result = await MarketDataServiceFactory.create(getPool(), getPriceAlertService()).updatePricesFromApi();
 
       if (result.success) {
         return {
@@ -294,6 +466,8 @@ export class MarketDataController extends Controller {
 
   /**
    * Get status of all market data providers
+   * Includes circuit breaker state (closed, open, half_open) and the number of
+   * quotes quarantined by the price sanity checks
    */
   @Get("providers")
   @SuccessResponse(200, "Provider status list")
@@ -342,4 +516,153 @@ export class MarketDataController extends Controller {
       };
     }
   }
+
+  /**
+   * List the authenticated user's price alerts
+   */
+  @Get("alerts")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Price alerts")
+  @Response<MarketDataErrorResponse>(401, "User not authenticated")
+  @Response<MarketDataErrorResponse>(500, "Server error")
+  public async listPriceAlerts(
+    @Request() request: ExpressRequest
+  ): Promise<PriceAlertListResponse | MarketDataErrorResponse> {
+    try {
+      const user = requireAuthenticatedUser(request);
+      const alerts = await getPriceAlertService().listAlerts(user.id);
+
+      return { success: true, data: alerts, count: alerts.length };
+    } catch (error) {
+      return this.handlePriceAlertError(error, "Failed to fetch price alerts");
+    }
+  }
+
+  /**
+   * Create a price alert
+   * Conditions: above/below a price, or change_percent for a move of at least
+   * `threshold` percent since the daily open. An alert fires once and is emailed.
+   */
+  @Post("alerts")
+  @Security("bearerAuth")
+  @SuccessResponse(201, "Price alert created")
+  @Response<MarketDataErrorResponse>(400, "Invalid alert")
+  @Response<MarketDataErrorResponse>(401, "User not authenticated")
+  @Response<MarketDataErrorResponse>(500, "Server error")
+  public async createPriceAlert(
+    @Request() request: ExpressRequest,
+    @Body() body: CreatePriceAlertInput
+  ): Promise<PriceAlertResponse | MarketDataErrorResponse> {
+    try {
+      const user = requireAuthenticatedUser(request);
+      const alert = await getPriceAlertService().createAlert(user.id, body);
+
+      this.setStatus(201);
+      return { success: true, data: alert };
+    } catch (error) {
+      return this.handlePriceAlertError(error, "Failed to create price alert");
+    }
+  }
+
+  /**
+   * Get one of the authenticated user's price alerts
+   */
+  @Get("alerts/{id}")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Price alert")
+  @Response<MarketDataErrorResponse>(400, "Invalid alert ID format")
+  @Response<MarketDataErrorResponse>(401, "User not authenticated")
+  @Response<MarketDataErrorResponse>(404, "Price alert not found")
+  @Response<MarketDataErrorResponse>(500, "Server error")
+  public async getPriceAlert(
+    @Request() request: ExpressRequest,
+    @Path() id: string
+  ): Promise<PriceAlertResponse | MarketDataErrorResponse> {
+    if (!UUID_REGEX.test(id)) {
+      this.setStatus(400);
+      return { success: false, error: "Invalid alert ID format" };
+    }
+
+    try {
+      const user = requireAuthenticatedUser(request);
+      return { success: true, data: await getPriceAlertService().getAlert(id, user.id) };
+    } catch (error) {
+      return this.handlePriceAlertError(error, "Failed to fetch price alert");
+    }
+  }
+
+  /**
+   * Update a price alert
+   * Changing the condition or threshold re-arms an alert that already fired
+   */
+  @Put("alerts/{id}")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Price alert updated")
+  @Response<MarketDataErrorResponse>(400, "Invalid alert")
+  @Response<MarketDataErrorResponse>(401, "User not authenticated")
+  @Response<MarketDataErrorResponse>(404, "Price alert not found")
+  @Response<MarketDataErrorResponse>(500, "Server error")
+  public async updatePriceAlert(
+    @Request() request: ExpressRequest,
+    @Path() id: string,
+    @Body() body: UpdatePriceAlertInput
+  ): Promise<PriceAlertResponse | MarketDataErrorResponse> {
+    if (!UUID_REGEX.test(id)) {
+      this.setStatus(400);
+      return { success: false, error: "Invalid alert ID format" };
+    }
+
+    try {
+      const user = requireAuthenticatedUser(request);
+      return { success: true, data: await getPriceAlertService().updateAlert(id, user.id, body) };
+    } catch (error) {
+      return this.handlePriceAlertError(error, "Failed to update price alert");
+    }
+  }
+
+  /**
+   * Delete a price alert
+   */
+  @Delete("alerts/{id}")
+  @Security("bearerAuth")
+  @SuccessResponse(204, "Price alert deleted")
+  @Response<MarketDataErrorResponse>(400, "Invalid alert ID format")
+  @Response<MarketDataErrorResponse>(401, "User not authenticated")
+  @Response<MarketDataErrorResponse>(404, "Price alert not found")
+  @Response<MarketDataErrorResponse>(500, "Server error")
+  public async deletePriceAlert(
+    @Request() request: ExpressRequest,
+    @Path() id: string
+  ): Promise<void | MarketDataErrorResponse> {
+    if (!UUID_REGEX.test(id)) {
+      this.setStatus(400);
+      return { success: false, error: "Invalid alert ID format" };
+    }
+
+    try {
+      const user = requireAuthenticatedUser(request);
+      await getPriceAlertService().deleteAlert(id, user.id);
+      this.setStatus(204);
+    } catch (error) {
+      return this.handlePriceAlertError(error, "Failed to delete price alert");
+    }
+  }
+
+  private handlePriceAlertError(error: unknown, message: string): MarketDataErrorResponse {
+    if (error instanceof AuthenticationError) {
+      this.setStatus(401);
+      return { success: false, error: error.message };
+    }
+    if (error instanceof PriceAlertError) {
+      this.setStatus(getPriceAlertHttpStatus(error.code));
+      return { success: false, code: error.code, error: error.message };
+    }
+
+    this.setStatus(500);
+    return {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
 }
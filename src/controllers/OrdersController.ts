@@ -23,18 +23,28 @@ import {
   SuccessResponse,
   Tags
 } from "tsoa";
+import type { Request as ExpressRequest } from "express";
 import { getPool } from "../dbConfig";
-import { OrderServiceFactory } from "../services/order";
+import { OrderServiceFactory, OrderStatusTransitionError } from "../services/order";
 import { ProductServiceFactory } from "../services/product";
 import { CalculationServiceFactory } from "../services/calculation";
+import { PricingServiceFactory, PricingError, getPricingHttpStatus } from "../services/pricing";
+import { CustodyServiceFactory, CustodyWeightLimitError, CustodyCapacityCheck } from "../services/custody";
+import { TaxServiceFactory } from "../services/tax";
+import { ShippingServiceFactory, ShippingUnavailableError } from "../services/shipping";
+import { FxServiceFactory, FxError, FxRateTable, getFxHttpStatus, normalizeCurrencyCode } from "../services/fx";
+import type { OrderCalculation, OrderFees } from "../services/order/types/OrderTypes";
 import type {
   Order,
   OrderItem,
   OrderItemProduct,
   OrderCustodyService,
+  OrderStatusHistoryEntry,
 } from "../services/order/types/OrderTypes";
 import { createLogger } from "../utils/logger";
 import { requireAuthenticatedUser, AuthenticationError } from "../utils/auditTrail";
+import { hasRecentStepUp } from "../middleware/tsoaAuth";
+import { AUTH_ERROR_CODES } from "../services/auth/contract/AuthErrorFactory";
 import { normalizePagination } from "../utils/paginationResponse";
 
 const logger = createLogger("OrdersController");
@@ -43,16 +53,33 @@ const logger = createLogger("OrdersController");
 const pool = getPool();
 const productService = ProductServiceFactory.createProductService(pool);
 const calculationService = CalculationServiceFactory.create();
-const orderService = OrderServiceFactory.create(pool, productService, calculationService);
+const pricingService = PricingServiceFactory.create(pool);
+const custodyService = CustodyServiceFactory.createService(pool);
+const taxService = TaxServiceFactory.create(pool);
+const shippingService = ShippingServiceFactory.create(pool);
+const fxService = FxServiceFactory.create(pool);
+const orderService = OrderServiceFactory.create(
+  pool, productService, calculationService, { pricingService, custodyService, taxService, shippingService }
+);
 
 // =============================================================================
 // INTERFACES
 // =============================================================================
 
+interface OrderStatusTransitionDetails {
+  currentStatus: string;
+  requestedStatus: string | null;
+  allowedNextStatuses: string[];
+  reason?: string;
+}
+
 interface OrdersErrorResponse {
   success: false;
   error: string;
+  code?: string;
   details?: string;
+  transition?: OrderStatusTransitionDetails;
+  custody?: CustodyCapacityCheck;
 }
 
 interface OrdersPaginationInfo {
@@ -107,6 +134,7 @@ interface DetailedOrderData {
   paymentStatus: string;
   items: OrderItemResponse[];
   subtotal: number;
+  fees?: OrderFees;
   taxes: number;
   totalAmount: number;
   user: DetailedOrderUserResponse;
@@ -166,6 +194,8 @@ interface OrderResponse {
   items: OrderItemResponse[];
   currency: string;
   subtotal: number;
+  /** Processing, shipping and insurance fees; absent for orders stored before the amounts were persisted */
+  fees?: OrderFees;
   taxes: number;
   totalAmount: number;
   custodyService?: OrderCustodyServiceResponse | null;
@@ -251,6 +281,7 @@ function mapOrderToResponse(order: Order): OrderResponse {
     items: order.items.map(mapOrderItemToResponse),
     currency: order.currency,
     subtotal: order.subtotal,
+    fees: order.fees,
     taxes: order.taxes,
     totalAmount: order.totalAmount,
     custodyService: order.custodyService
@@ -261,6 +292,90 @@ function mapOrderToResponse(order: Order): OrderResponse {
   };
 }
 
+interface OrderCurrencyConversion {
+  currency: string;
+  rates: FxRateTable;
+}
+
+/**
+ * Latest exchange rates for the requested display currency, or null when none was requested
+ */
+async function loadOrderCurrencyConversion(currency: string | undefined): Promise<OrderCurrencyConversion | null> {
+  if (currency === undefined) {
+    return null;
+  }
+  const targetCurrency = normalizeCurrencyCode(currency);
+  return { currency: targetCurrency, rates: await fxService.getRateTable() };
+}
+
+/**
+ * Restate order amounts (from the order currency) and current product prices
+ * (from the product currency) in the requested currency; custody fees keep their own currency
+ */
+function convertOrderResponse(order: OrderResponse, conversion: OrderCurrencyConversion | null): OrderResponse {
+  if (!conversion) {
+    return order;
+  }
+  const { currency, rates } = conversion;
+  const fromOrderCurrency = (amount: number) => rates.convert(amount, order.currency, currency);
+
+  return {
+    ...order,
+    items: order.items.map(item => ({
+      ...item,
+      unitPrice: fromOrderCurrency(item.unitPrice),
+      totalPrice: fromOrderCurrency(item.totalPrice),
+      product: item.product
+        ? {
+          ...item.product,
+          currentPrice: rates.convert(item.product.currentPrice, item.product.currency, currency),
+          currency,
+        }
+        : item.product,
+    })),
+    currency,
+    subtotal: fromOrderCurrency(order.subtotal),
+    fees: order.fees
+      ? {
+        processing: fromOrderCurrency(order.fees.processing),
+        shipping: fromOrderCurrency(order.fees.shipping),
+        insurance: fromOrderCurrency(order.fees.insurance),
+      }
+      : order.fees,
+    taxes: fromOrderCurrency(order.taxes),
+    totalAmount: fromOrderCurrency(order.totalAmount),
+  };
+}
+
+function mapFxError(error: FxError): OrdersErrorResponse {
+  return { success: false, error: error.message, code: error.code };
+}
+
+function mapStatusTransitionError(error: OrderStatusTransitionError, message: string): OrdersErrorResponse {
+  return {
+    success: false,
+    error: message,
+    code: error.code,
+    details: error.message,
+    transition: {
+      currentStatus: error.currentStatus,
+      requestedStatus: error.requestedStatus,
+      allowedNextStatuses: error.allowedNextStatuses,
+      reason: error.reason,
+    },
+  };
+}
+
+function mapCustodyWeightLimitError(error: CustodyWeightLimitError): OrdersErrorResponse {
+  return {
+    success: false,
+    error: "Custody service weight limit",
+    code: error.code,
+    details: error.message,
+    custody: error.check,
+  };
+}
+
 interface OrdersCreateInput {
   type: string;
   items: Array<{
@@ -272,11 +387,15 @@ interface OrdersCreateInput {
   currency?: string; // Optional - currency for the order
   source?: string; // Optional - source of the order (e.g. 'web', 'mobile')
   userId?: string; // Optional - ignored, user comes from JWT token
+  quoteId?: string; // Optional - price quote from POST /quotes locking the unit prices
+  deliveryMethod?: "insured_courier" | "vault_delivery"; // Optional - ship to the primary address country
 }
 
 interface OrdersCreateResponse {
   success: true;
   data: any;
+  /** Subtotal, fees (with shipping tariff and insurance breakdown), taxes and total */
+  calculation: OrderCalculation;
   message: string;
 }
 
@@ -303,6 +422,43 @@ interface OrdersDeleteResponse {
   };
 }
 
+interface OrdersCancelInput {
+  /** Optional reason recorded in the order status history */
+  reason?: string;
+}
+
+interface OrderStatusHistoryEntryResponse {
+  id: string;
+  previousStatus: string | null;
+  newStatus: string;
+  reason: string | null;
+  changedBy: {
+    id: string;
+    email: string | null;
+  } | null;
+  changedAt: string;
+}
+
+interface OrderStatusHistoryResponse {
+  success: true;
+  data: {
+    orderId: string;
+    currentStatus: string;
+    history: OrderStatusHistoryEntryResponse[];
+  };
+}
+
+function mapStatusHistoryEntryToResponse(entry: OrderStatusHistoryEntry): OrderStatusHistoryEntryResponse {
+  return {
+    id: entry.id,
+    previousStatus: entry.previousStatus,
+    newStatus: entry.newStatus,
+    reason: entry.reason,
+    changedBy: entry.changedBy,
+    changedAt: entry.changedAt.toISOString(),
+  };
+}
+
 interface OrdersCancelResponse {
   success: true;
   message: string;
@@ -326,16 +482,19 @@ export class OrdersController extends Controller {
    */
   @Get()
   @SuccessResponse(200, "Orders retrieved successfully")
+  @Response<OrdersErrorResponse>(400, "Unsupported currency")
   @Response<OrdersErrorResponse>(401, "User not authenticated")
   @Response<OrdersErrorResponse>(403, "Access denied")
   @Response<OrdersErrorResponse>(500, "Internal server error")
+  @Response<OrdersErrorResponse>(503, "No exchange rate available for the currency")
   public async getOrders(
-    @Request() request: any,
+    @Request() request: ExpressRequest,
     @Query() page?: number,
     @Query() limit?: number,
     @Query() status?: string,
     @Query() type?: string,
-    @Query() userId?: string
+    @Query() userId?: string,
+    @Query() currency?: string
   ): Promise<OrdersListResponse | OrdersErrorResponse> {
     try {
       const authenticatedUser = requireAuthenticatedUser(request);
@@ -353,13 +512,14 @@ export class OrdersController extends Controller {
       const effectiveUserId = authenticatedUser.role === 'admin' ? userId : authenticatedUser.id;
 
       // Use orderService to get orders with proper access control
+      const conversion = await loadOrderCurrencyConversion(currency);
       const ordersResult = await orderService.getOrdersByUserId(effectiveUserId, {
         page: page || 1,
         limit: limit || 20,
         status: status as string,
         type: type as string
       });
-      const mappedOrders = ordersResult.orders.map(mapOrderToResponse);
+      const mappedOrders = ordersResult.orders.map(order => convertOrderResponse(mapOrderToResponse(order), conversion));
 
       this.setStatus(200);
       return {
@@ -373,6 +533,10 @@ export class OrdersController extends Controller {
         this.setStatus(401);
         return { success: false, error: error.message };
       }
+      if (error instanceof FxError) {
+        this.setStatus(getFxHttpStatus(error.code));
+        return mapFxError(error);
+      }
       logger.error("Error fetching orders", error);
       this.setStatus(500);
       return {
@@ -393,7 +557,7 @@ export class OrdersController extends Controller {
   @Response<OrdersErrorResponse>(403, "Access denied - Admin role required")
   @Response<OrdersErrorResponse>(500, "Internal server error")
   public async getOrdersAdmin(
-    @Request() request: any,
+    @Request() request: ExpressRequest,
     @Query() page?: number,
     @Query() limit?: number,
     @Query() status?: string,
@@ -508,26 +672,30 @@ export class OrdersController extends Controller {
    */
   @Get("my")
   @SuccessResponse(200, "User orders retrieved successfully")
+  @Response<OrdersErrorResponse>(400, "Unsupported currency")
   @Response<OrdersErrorResponse>(401, "User not authenticated")
   @Response<OrdersErrorResponse>(500, "Internal server error")
+  @Response<OrdersErrorResponse>(503, "No exchange rate available for the currency")
   public async getMyOrders(
-    @Request() request: any,
+    @Request() request: ExpressRequest,
     @Query() page?: number,
     @Query() limit?: number,
     @Query() status?: string,
-    @Query() type?: string
+    @Query() type?: string,
+    @Query() currency?: string
   ): Promise<OrdersListResponse | OrdersErrorResponse> {
     try {
       const authenticatedUser = requireAuthenticatedUser(request);
 
       // Use orderService to get user's orders
+      const conversion = await loadOrderCurrencyConversion(currency);
       const ordersResult = await orderService.getOrdersByUserId(authenticatedUser.id, {
         page: page || 1,
         limit: limit || 20,
         status: status as string,
         type: type as string
       });
-      const mappedOrders = ordersResult.orders.map(mapOrderToResponse);
+      const mappedOrders = ordersResult.orders.map(order => convertOrderResponse(mapOrderToResponse(order), conversion));
 
       // Return enhanced data
       this.setStatus(200);
@@ -544,6 +712,10 @@ export class OrdersController extends Controller {
         this.setStatus(401);
         return { success: false, error: error.message };
       }
+      if (error instanceof FxError) {
+        this.setStatus(getFxHttpStatus(error.code));
+        return mapFxError(error);
+      }
       logger.error("Error fetching user's orders", error);
       this.setStatus(500);
       return {
@@ -557,19 +729,36 @@ export class OrdersController extends Controller {
   /**
    * Create a new order
    * Frontend sends minimal request, backend enriches with product details
+   * Requires a verified email address (403 AUTH_EMAIL_NOT_VERIFIED otherwise);
+   * sell orders also require a recent step-up re-authentication (403 AUTH_STEP_UP_REQUIRED)
    */
   @Post()
+  @Security("bearerAuth", ["email_verified"])
   @SuccessResponse(201, "Order created successfully")
-  @Response<OrdersErrorResponse>(400, "Invalid order data or insufficient stock")
+  @Response<OrdersErrorResponse>(400, "Invalid order data, insufficient stock, custody weight limit exceeded or shipping not available")
   @Response<OrdersErrorResponse>(401, "User not authenticated")
+  @Response<OrdersErrorResponse>(403, "Email address not verified or re-authentication required for sell orders")
+  @Response<OrdersErrorResponse>(404, "Price quote or product not found")
+  @Response<OrdersErrorResponse>(409, "Price quote expired or already used")
   @Response<OrdersErrorResponse>(500, "Internal server error")
+  @Response<OrdersErrorResponse>(503, "No spot price available")
   public async createOrder(
-    @Request() request: any,
+    @Request() request: ExpressRequest,
     @Body() body: OrdersCreateInput
   ): Promise<OrdersCreateResponse | OrdersErrorResponse> {
     try {
       const authenticatedUser = requireAuthenticatedUser(request);
 
+      if (body.type?.toLowerCase() === "sell" && !(await hasRecentStepUp(authenticatedUser))) {
+        this.setStatus(403);
+        return {
+          success: false,
+          error: "Re-authentication required",
+          code: AUTH_ERROR_CODES.AUTH_STEP_UP_REQUIRED,
+          details: "Sell orders require a recent re-authentication (POST /api/auth/step-up)"
+        };
+      }
+
       // Validate items array
       if (!body.items || body.items.length === 0) {
         this.setStatus(400);
@@ -586,7 +775,9 @@ export class OrdersController extends Controller {
         type: body.type,
         items: body.items,
         custodyServiceId: body.custodyServiceId,
-        notes: body.notes
+        notes: body.notes,
+        quoteId: body.quoteId,
+        deliveryMethod: body.deliveryMethod
       };
 
       const result = await orderService.createOrder(createOrderRequest, authenticatedUser);
@@ -595,6 +786,7 @@ export class OrdersController extends Controller {
       return {
         success: true,
         data: result.order,
+        calculation: result.calculation,
         message: "Order created successfully. Backend enriched the order with product details and calculations."
       };
     } catch (error) {
@@ -602,10 +794,50 @@ export class OrdersController extends Controller {
         this.setStatus(401);
         return { success: false, error: error.message };
       }
+      if (error instanceof PricingError) {
+        this.setStatus(getPricingHttpStatus(error.code));
+        return {
+          success: false,
+          error: "Order pricing failed",
+          code: error.code,
+          details: error.message
+        };
+      }
+      if (error instanceof CustodyWeightLimitError) {
+        this.setStatus(400);
+        return mapCustodyWeightLimitError(error);
+      }
+      if (error instanceof ShippingUnavailableError) {
+        this.setStatus(400);
+        return {
+          success: false,
+          error: "Shipping not available",
+          code: error.code,
+          details: error.message
+        };
+      }
       logger.error("Error creating order", error);
 
       const errorMessage = (error as Error).message;
 
+      if (errorMessage.startsWith('Invalid delivery method')) {
+        this.setStatus(400);
+        return {
+          success: false,
+          error: "Invalid delivery method",
+          details: errorMessage
+        };
+      }
+
+      if (errorMessage.startsWith('Invalid custody service')) {
+        this.setStatus(400);
+        return {
+          success: false,
+          error: "Invalid custody service",
+          details: errorMessage
+        };
+      }
+
       // Check if it's a stock availability error
       if (errorMessage.includes('Insufficient stock for')) {
         this.setStatus(400);
@@ -632,10 +864,14 @@ export class OrdersController extends Controller {
    */
   @Get("{id}")
   @SuccessResponse(200, "Order retrieved successfully")
-  @Response<OrdersErrorResponse>(400, "Invalid order ID format")
+  @Response<OrdersErrorResponse>(400, "Invalid order ID format or unsupported currency")
   @Response<OrdersErrorResponse>(404, "Order not found")
   @Response<OrdersErrorResponse>(500, "Internal server error")
-  public async getOrder(@Path() id: string): Promise<OrderDetailResponse | OrdersErrorResponse> {
+  @Response<OrdersErrorResponse>(503, "No exchange rate available for the currency")
+  public async getOrder(
+    @Path() id: string,
+    @Query() currency?: string
+  ): Promise<OrderDetailResponse | OrdersErrorResponse> {
     try {
       // Validate UUID format
       const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -647,6 +883,7 @@ export class OrdersController extends Controller {
         };
       }
 
+      const conversion = await loadOrderCurrencyConversion(currency);
       const order = await orderService.getOrderById(id);
       if (!order) {
         this.setStatus(404);
@@ -659,10 +896,14 @@ export class OrdersController extends Controller {
       this.setStatus(200);
       return {
         success: true,
-        data: mapOrderToResponse(order),
+        data: convertOrderResponse(mapOrderToResponse(order), conversion),
         message: "Order retrieved successfully"
       };
     } catch (error) {
+      if (error instanceof FxError) {
+        this.setStatus(getFxHttpStatus(error.code));
+        return mapFxError(error);
+      }
       logger.error("Error fetching order", error);
       this.setStatus(500);
       return {
@@ -684,7 +925,7 @@ export class OrdersController extends Controller {
   @Response<OrdersErrorResponse>(404, "Order not found")
   @Response<OrdersErrorResponse>(500, "Internal server error")
   public async getOrderDetailed(
-    @Request() request: any,
+    @Request() request: ExpressRequest,
     @Path() id: string
   ): Promise<DetailedOrderResponse | OrdersErrorResponse> {
     try {
@@ -711,6 +952,13 @@ export class OrdersController extends Controller {
           o.createdat as order_created_at,
           o.updatedat as order_updated_at,
           o.custodyserviceid as order_custody_service_id,
+          o.currency as order_currency,
+          o.subtotal as order_subtotal,
+          o.processing_fee as order_processing_fee,
+          o.shipping_fee as order_shipping_fee,
+          o.insurance_fee as order_insurance_fee,
+          o.taxes as order_taxes,
+          o.total_amount as order_total_amount,
 
           -- User information
           u.email as user_email,
@@ -799,9 +1047,12 @@ export class OrdersController extends Controller {
         }
       }));
 
-      // Calculate totals
-      const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-      const taxes = 0;
+      // Amounts as charged on creation; orders stored without them are summed from their items
+      const storedAmounts = firstRow.order_total_amount !== null;
+      const subtotal = storedAmounts
+        ? Number.parseFloat(firstRow.order_subtotal)
+        : items.reduce((sum, item) => sum + item.totalPrice, 0);
+      const taxes = storedAmounts ? Number.parseFloat(firstRow.order_taxes ?? "0") : 0;
 
       const detailedOrder: DetailedOrderData = {
         id: firstRow.order_id,
@@ -809,12 +1060,21 @@ export class OrdersController extends Controller {
         type: firstRow.order_type,
         status: firstRow.order_status,
         orderNumber: `ORD-${firstRow.order_id.slice(0, 8).toUpperCase()}`,
-        currency: firstRow.product_currency || firstRow.custody_service_currency || 'CHF',
+        currency: storedAmounts
+          ? String(firstRow.order_currency).trim()
+          : firstRow.product_currency || firstRow.custody_service_currency || 'CHF',
         paymentStatus: firstRow.payment_status,
         items,
         subtotal,
+        ...(storedAmounts ? {
+          fees: {
+            processing: Number.parseFloat(firstRow.order_processing_fee ?? "0"),
+            shipping: Number.parseFloat(firstRow.order_shipping_fee ?? "0"),
+            insurance: Number.parseFloat(firstRow.order_insurance_fee ?? "0"),
+          }
+        } : {}),
         taxes,
-        totalAmount: subtotal + taxes,
+        totalAmount: storedAmounts ? Number.parseFloat(firstRow.order_total_amount) : subtotal + taxes,
         user: {
           email: firstRow.user_email || null
         },
@@ -856,20 +1116,93 @@ export class OrdersController extends Controller {
     }
   }
 
+  /**
+   * Get order status history
+   * Timeline of status changes with actor, timestamp and optional reason.
+   * Users can only view the history of their own orders, admins can view any order
+   */
+  @Get("{id}/history")
+  @SuccessResponse(200, "Order status history retrieved successfully")
+  @Response<OrdersErrorResponse>(400, "Invalid order ID format")
+  @Response<OrdersErrorResponse>(401, "User not authenticated")
+  @Response<OrdersErrorResponse>(403, "Access denied")
+  @Response<OrdersErrorResponse>(404, "Order not found")
+  @Response<OrdersErrorResponse>(500, "Internal server error")
+  public async getOrderHistory(
+    @Request() request: ExpressRequest,
+    @Path() id: string
+  ): Promise<OrderStatusHistoryResponse | OrdersErrorResponse> {
+    try {
+      // Validate UUID format
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (!id || !uuidRegex.exec(id)) {
+        this.setStatus(400);
+        return {
+          success: false,
+          error: "Invalid order ID format"
+        };
+      }
+
+      const authenticatedUser = requireAuthenticatedUser(request);
+
+      const order = await orderService.getOrderById(id);
+      if (!order) {
+        this.setStatus(404);
+        return {
+          success: false,
+          error: "Order not found"
+        };
+      }
+
+      if (authenticatedUser.role !== 'admin' && order.userId !== authenticatedUser.id) {
+        this.setStatus(403);
+        return {
+          success: false,
+          error: "You can only view the history of your own orders"
+        };
+      }
+
+      const history = await orderService.getOrderStatusHistory(id);
+
+      this.setStatus(200);
+      return {
+        success: true,
+        data: {
+          orderId: id,
+          currentStatus: order.status,
+          history: history.map(mapStatusHistoryEntryToResponse)
+        }
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        this.setStatus(401);
+        return { success: false, error: error.message };
+      }
+      logger.error(`Error fetching status history for order ${id}`, error);
+      this.setStatus(500);
+      return {
+        success: false,
+        error: "Failed to fetch order status history",
+        details: (error as Error).message
+      };
+    }
+  }
+
   /**
    * Process order (status progression)
    * Admin-only endpoint to move order through workflow stages
    * Auto-determines next status: pending→confirmed→processing→shipped→delivered→completed
+   * Transitions follow the order status table; buy orders are only shipped once paid
    */
   @Post("{id}/process")
   @SuccessResponse(200, "Order processed successfully")
-  @Response<OrdersErrorResponse>(400, "Invalid order ID or cannot process")
+  @Response<OrdersErrorResponse>(400, "Invalid order ID, cannot process or custody weight limit exceeded")
   @Response<OrdersErrorResponse>(401, "User not authenticated")
   @Response<OrdersErrorResponse>(403, "Admin role required")
   @Response<OrdersErrorResponse>(404, "Order not found")
   @Response<OrdersErrorResponse>(500, "Internal server error")
   public async processOrder(
-    @Request() request: any,
+    @Request() request: ExpressRequest,
     @Path() id: string
   ): Promise<OrdersUpdateResponse | OrdersErrorResponse> {
     try {
@@ -918,7 +1251,7 @@ export class OrdersController extends Controller {
       }
 
       const errorMessage = (error as Error).message;
-      const handledWorkflowError = this.mapWorkflowProcessError(errorMessage);
+      const handledWorkflowError = this.mapWorkflowProcessError(error);
       if (handledWorkflowError) {
         return handledWorkflowError;
       }
@@ -933,8 +1266,8 @@ export class OrdersController extends Controller {
     }
   }
 
-  private mapWorkflowProcessError(errorMessage: string): OrdersErrorResponse | null {
-    if (errorMessage === 'ORDER_NOT_FOUND') {
+  private mapWorkflowProcessError(error: unknown): OrdersErrorResponse | null {
+    if ((error as Error).message === 'ORDER_NOT_FOUND') {
       this.setStatus(404);
       return {
         success: false,
@@ -942,43 +1275,41 @@ export class OrdersController extends Controller {
       };
     }
 
-    if (!errorMessage.startsWith('ORDER_WORKFLOW_INVALID_STATE:')) {
+    if (error instanceof CustodyWeightLimitError) {
+      this.setStatus(400);
+      return mapCustodyWeightLimitError(error);
+    }
+
+    if (!(error instanceof OrderStatusTransitionError)) {
       return null;
     }
 
-    const currentStatus = errorMessage.split(':')[1] || 'unknown';
     this.setStatus(400);
 
-    if (currentStatus === 'completed') {
-      return {
-        success: false,
-        error: 'Order is already completed and cannot be processed further'
-      };
+    if (error.currentStatus === 'completed') {
+      return mapStatusTransitionError(error, 'Order is already completed and cannot be processed further');
     }
 
-    if (currentStatus === 'cancelled') {
-      return {
-        success: false,
-        error: 'Order is cancelled and cannot be processed'
-      };
+    if (error.currentStatus === 'cancelled') {
+      return mapStatusTransitionError(error, 'Order is cancelled and cannot be processed');
     }
 
-    return {
-      success: false,
-      error: `Invalid order status '${currentStatus}' for further processing`
-    };
+    return mapStatusTransitionError(error, `Order cannot be processed from status '${error.currentStatus}'`);
   }
 
   /**
    * Update order
    * Update order fields (type, status, notes)
+   * Status changes are validated against the order status transition table
    */
   @Put("{id}")
   @SuccessResponse(200, "Order updated successfully")
-  @Response<OrdersErrorResponse>(400, "Invalid order ID or data")
+  @Response<OrdersErrorResponse>(400, "Invalid order ID, data or status transition")
+  @Response<OrdersErrorResponse>(401, "User not authenticated")
   @Response<OrdersErrorResponse>(404, "Order not found")
   @Response<OrdersErrorResponse>(500, "Internal server error")
   public async updateOrder(
+    @Request() request: ExpressRequest,
     @Path() id: string,
     @Body() body: OrdersUpdateInput
   ): Promise<OrdersUpdateResponse | OrdersErrorResponse> {
@@ -1003,33 +1334,9 @@ export class OrdersController extends Controller {
         };
       }
 
-      // Build dynamic update query
-      const updateFields: string[] = [];
-      const updateValues: any[] = [];
-      let paramIndex = 1;
-
-      if (body.type) {
-        updateFields.push(`type = $${paramIndex}`);
-        updateValues.push(body.type);
-        paramIndex++;
-      }
-
-      if (body.status) {
-        updateFields.push(`orderstatus = $${paramIndex}`);
-        updateValues.push(body.status);
-        paramIndex++;
-      }
-
-      if (body.notes) {
-        updateFields.push(`notes = $${paramIndex}`);
-        updateValues.push(body.notes);
-        paramIndex++;
-      }
-
-      // Always update timestamp
-      updateFields.push(`updatedat = CURRENT_TIMESTAMP`);
+      const authenticatedUser = requireAuthenticatedUser(request);
 
-      if (updateFields.length === 1) {
+      if (!body.type && !body.notes && !body.status) {
         this.setStatus(400);
         return {
           success: false,
@@ -1037,15 +1344,12 @@ export class OrdersController extends Controller {
         };
       }
 
-      const updateQuery = `
-        UPDATE orders 
-        SET ${updateFields.join(', ')} 
-        WHERE id = $${paramIndex} 
-        RETURNING *
-      `;
-      updateValues.push(id);
-
-      await getPool().query(updateQuery, updateValues);
+      // Fields and status change are written in one transaction; the status goes through the state machine
+      await orderService.updateOrder(
+        id,
+        { type: body.type, status: body.status, notes: body.notes },
+        authenticatedUser
+      );
 
       // Get updated order
       const updatedOrder = await orderService.getOrderById(id);
@@ -1057,6 +1361,19 @@ export class OrdersController extends Controller {
         message: "Order updated successfully"
       };
     } catch (error) {
+      if (error instanceof AuthenticationError) {
+        this.setStatus(401);
+        return { success: false, error: error.message };
+      }
+      if (error instanceof OrderStatusTransitionError) {
+        this.setStatus(400);
+        return mapStatusTransitionError(error, "Order status cannot be changed");
+      }
+      const errorMessage = (error as Error).message;
+      if (errorMessage.startsWith("Invalid order type") || errorMessage.startsWith("Invalid order status")) {
+        this.setStatus(400);
+        return { success: false, error: "Invalid order data", details: errorMessage };
+      }
       logger.error("Error updating order", error);
       this.setStatus(500);
       return {
@@ -1079,7 +1396,7 @@ export class OrdersController extends Controller {
   @Response<OrdersErrorResponse>(404, "Order not found")
   @Response<OrdersErrorResponse>(500, "Internal server error")
   public async deleteOrder(
-    @Request() request: any,
+    @Request() request: ExpressRequest,
     @Path() id: string
   ): Promise<OrdersDeleteResponse | OrdersErrorResponse> {
     try {
@@ -1165,7 +1482,8 @@ export class OrdersController extends Controller {
 
   /**
    * Cancel order
-   * Users can cancel their own pending orders, admins can cancel any order
+   * Users can cancel their own pending orders, admins can cancel any order.
+   * An optional reason is recorded in the order status history
    */
   @Post("{id}/cancel")
   @SuccessResponse(200, "Order cancelled successfully")
@@ -1175,8 +1493,9 @@ export class OrdersController extends Controller {
   @Response<OrdersErrorResponse>(404, "Order not found")
   @Response<OrdersErrorResponse>(500, "Internal server error")
   public async cancelOrder(
-    @Request() request: any,
-    @Path() id: string
+    @Request() request: ExpressRequest,
+    @Path() id: string,
+    @Body() body?: OrdersCancelInput
   ): Promise<OrdersCancelResponse | OrdersErrorResponse> {
     try {
       // Validate UUID format
@@ -1231,7 +1550,7 @@ export class OrdersController extends Controller {
       }
 
       // Update status to cancelled
-      await orderService.updateOrderStatus(id, 'cancelled', authenticatedUser);
+      await orderService.updateOrderStatus(id, 'cancelled', authenticatedUser, body?.reason);
 
       // Get updated order
       const cancelledOrder = await orderService.getOrderById(id);
@@ -1256,17 +1575,13 @@ export class OrdersController extends Controller {
         this.setStatus(401);
         return { success: false, error: error.message };
       }
+      if (error instanceof OrderStatusTransitionError) {
+        this.setStatus(400);
+        return mapStatusTransitionError(error, "Cannot cancel order in current state");
+      }
       logger.error(`Error cancelling order ${id}`, error);
 
       const errorMessage = (error as Error).message;
-      if (errorMessage.includes('Invalid status transition')) {
-        this.setStatus(400);
-        return {
-          success: false,
-          error: "Cannot cancel order in current state",
-          details: errorMessage
-        };
-      }
 
       this.setStatus(500);
       return {
@@ -29,6 +29,10 @@ import {
   validateListPaymentMethods
 } from "@marcopersi/shared";
 import { PaymentServiceFactory, IPaymentService } from "../services/payment";
+import { IOrderService, OrderServiceFactory } from "../services/order";
+import { ProductServiceFactory } from "../services/product";
+import { CalculationServiceFactory } from "../services/calculation";
+import { getPool } from "../dbConfig";
 import { createLogger } from "../utils/logger";
 
 const logger = createLogger("PaymentsController");
@@ -43,18 +47,25 @@ interface PaymentErrorResponse {
 @Security("bearerAuth")
 export class PaymentsController extends Controller {
   private readonly paymentService: IPaymentService;
+  private readonly orderService: IOrderService;
 
   constructor() {
     super();
+    const pool = getPool();
     this.paymentService = PaymentServiceFactory.create();
+    this.orderService = OrderServiceFactory.create(
+      pool, ProductServiceFactory.createProductService(pool), CalculationServiceFactory.create()
+    );
   }
 
   /**
    * Create a payment intent
    */
   @Post("intent")
+  @Security("bearerAuth", ["email_verified"])
   @SuccessResponse(201, "Payment intent created")
   @Response<PaymentErrorResponse>(400, "Invalid request data")
+  @Response<PaymentErrorResponse>(403, "Email address not verified")
   @Response<PaymentErrorResponse>(500, "Internal server error")
   public async createPaymentIntent(
     @Body() requestBody: CreatePaymentIntentRequest
@@ -94,10 +105,13 @@ export class PaymentsController extends Controller {
 
   /**
    * Confirm a payment intent
+   * A succeeded payment marks the order from the intent's metadata as paid
    */
   @Post("intent/{id}/confirm")
+  @Security("bearerAuth", ["email_verified"])
   @SuccessResponse(200, "Payment confirmed")
   @Response<PaymentErrorResponse>(400, "Invalid request data")
+  @Response<PaymentErrorResponse>(403, "Email address not verified")
   @Response<PaymentErrorResponse>(500, "Internal server error")
   public async confirmPayment(
     @Path() id: string,
@@ -133,6 +147,10 @@ export class PaymentsController extends Controller {
       };
 
       const response = await this.paymentService.confirmPayment(id, request);
+      const { paymentIntent } = response;
+      if (paymentIntent.status === "succeeded" && paymentIntent.orderId) {
+        await this.orderService.markOrderPaid(paymentIntent.orderId, paymentIntent.id);
+      }
       return response;
     } catch (error) {
       logger.error("Error in confirmPayment", error);
@@ -22,14 +22,22 @@ import {
   Request
 } from "tsoa";
 import { getPool } from "../dbConfig";
-import { requireAuthenticatedUser } from "../utils/auditTrail";
+import { requireAuthenticatedUser, AuthenticationError } from "../utils/auditTrail";
 import { PortfolioServiceFactory } from "../services/portfolio";
+import { PricingServiceFactory } from "../services/pricing";
+import { FxServiceFactory, FxError, FxRateTable, getFxHttpStatus, normalizeCurrencyCode } from "../services/fx";
 import {
   PortfolioErrorCode,
   PortfolioSummary,
   PortfolioWithPositions,
   Position
 } from "../services/portfolio/types/PortfolioTypes";
+import type {
+  PerformanceInterval,
+  PortfolioPerformance,
+  PortfolioValuation
+} from "../services/portfolio/types/PortfolioValuationTypes";
+import type { RealizedGainsReport } from "../services/portfolio/types/TaxLotTypes";
 import * as express from "express";
 import { normalizePagination } from "../utils/paginationResponse";
 
@@ -47,6 +55,8 @@ interface PortfolioErrorResponse {
 interface PortfolioListResponse {
   success: true;
   data: {
+    /** Currency of the amounts when a currency was requested */
+    currency?: string;
     portfolios: PortfolioSummary[];
     pagination: {
       page: number;
@@ -62,17 +72,38 @@ interface PortfolioListResponse {
 interface PortfolioSingleResponse {
   success: true;
   data: {
+    /** Currency of the amounts when a currency was requested */
+    currency?: string;
     portfolio: PortfolioSummary;
   };
 }
 
 interface PortfolioWithPositionsResponse {
   success: true;
-  data: PortfolioWithPositions;
+  data: PortfolioWithPositions & {
+    valuation?: PortfolioValuation;
+  };
+}
+
+interface PortfolioValuationResponse {
+  success: true;
+  data: PortfolioValuation;
+}
+
+interface PortfolioPerformanceResponse {
+  success: true;
+  data: PortfolioPerformance;
+}
+
+interface PortfolioRealizedGainsResponse {
+  success: true;
+  data: RealizedGainsReport;
 }
 
 interface PortfolioArrayResponse {
   success: true;
+  /** Currency of the amounts when a currency was requested */
+  currency?: string;
   data: PortfolioWithPositions[];
 }
 
@@ -105,6 +136,10 @@ function getPortfolioService() {
   return PortfolioServiceFactory.create(getPool());
 }
 
+function getPortfolioValuationService() {
+  return PortfolioServiceFactory.createValuationService(getPool());
+}
+
 function mapErrorCodeToStatus(code: PortfolioErrorCode): number {
   switch (code) {
     case PortfolioErrorCode.NOT_FOUND:
@@ -119,6 +154,8 @@ function mapErrorCodeToStatus(code: PortfolioErrorCode): number {
       return 409;
     case PortfolioErrorCode.UNAUTHORIZED:
       return 403;
+    case PortfolioErrorCode.FX_RATE_UNAVAILABLE:
+      return 503;
     default:
       return 500;
   }
@@ -130,6 +167,100 @@ function createHttpError(status: number, message: string): Error & { status: num
   return error;
 }
 
+/**
+ * Owners and admins only; throws 400/401/403 http errors
+ */
+async function assertPortfolioAccess(id: string, request: express.Request): Promise<void> {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(id)) {
+    throw createHttpError(400, "Invalid portfolio ID format");
+  }
+
+  let authenticatedUser;
+  try {
+    authenticatedUser = requireAuthenticatedUser(request);
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw createHttpError(401, error.message);
+    }
+    throw error;
+  }
+
+  if (authenticatedUser.role !== "admin") {
+    const isOwner = await getPortfolioService().validateOwnership(id, authenticatedUser.id);
+    if (!isOwner) {
+      throw createHttpError(403, "You can only access your own portfolios");
+    }
+  }
+}
+
+interface PortfolioCurrencyConversion {
+  currency: string;
+  rates: FxRateTable;
+}
+
+/**
+ * Latest exchange rates for the requested display currency, or null when none was requested
+ */
+async function loadPortfolioCurrencyConversion(currency: string | undefined): Promise<PortfolioCurrencyConversion | null> {
+  if (currency === undefined) {
+    return null;
+  }
+  const targetCurrency = normalizeCurrencyCode(currency);
+  return { currency: targetCurrency, rates: await FxServiceFactory.create(getPool()).getRateTable() };
+}
+
+/**
+ * Portfolio totals and position prices come from orders, priced in the order pricing currency
+ */
+function convertPortfolioAmount(amount: number, conversion: PortfolioCurrencyConversion): number {
+  const pricingCurrency = PricingServiceFactory.createConfigFromEnv().currency;
+  return conversion.rates.convert(amount, pricingCurrency, conversion.currency);
+}
+
+function convertPortfolioSummary<T extends PortfolioSummary>(
+  portfolio: T,
+  conversion: PortfolioCurrencyConversion | null
+): T {
+  if (!conversion) {
+    return portfolio;
+  }
+  return {
+    ...portfolio,
+    totalValue: convertPortfolioAmount(portfolio.totalValue, conversion),
+    totalCost: convertPortfolioAmount(portfolio.totalCost, conversion),
+    totalGainLoss: convertPortfolioAmount(portfolio.totalGainLoss, conversion)
+  };
+}
+
+function convertPortfolioWithPositions(
+  portfolio: PortfolioWithPositions,
+  conversion: PortfolioCurrencyConversion | null
+): PortfolioWithPositions {
+  if (!conversion) {
+    return portfolio;
+  }
+  return {
+    ...convertPortfolioSummary(portfolio, conversion),
+    positions: portfolio.positions.map(position => ({
+      ...position,
+      purchasePrice: convertPortfolioAmount(position.purchasePrice, conversion),
+      marketPrice: convertPortfolioAmount(position.marketPrice, conversion)
+    }))
+  };
+}
+
+function parseDateParam(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw createHttpError(400, `Invalid ${name} date: ${value}`);
+  }
+  return date;
+}
+
 // ============================================================================
 // Controller
 // ============================================================================
@@ -157,6 +288,7 @@ export class PortfolioController extends Controller {
    * @param metal Filter by metal type
    * @param sortBy Sort field
    * @param sortOrder Sort order
+   * @param currency Show amounts in this currency (ISO 4217), converted with the latest exchange rates
    */
   @Get()
   @Security("bearerAuth")
@@ -182,9 +314,11 @@ export class PortfolioController extends Controller {
     @Query() updatedBefore?: string,
     @Query() metal?: "gold" | "silver" | "platinum" | "palladium",
     @Query() sortBy?: "portfolioName" | "totalValue" | "totalGainLoss" | "positionCount" | "createdAt" | "updatedAt",
-    @Query() sortOrder?: "asc" | "desc"
+    @Query() sortOrder?: "asc" | "desc",
+    @Query() currency?: string
   ): Promise<PortfolioListResponse> {
     try {
+      const conversion = await loadPortfolioCurrencyConversion(currency);
       const options = {
         page,
         limit,
@@ -215,6 +349,8 @@ export class PortfolioController extends Controller {
 
       const normalizedResult = {
         ...result,
+        currency: conversion?.currency,
+        portfolios: result.portfolios.map(portfolio => convertPortfolioSummary(portfolio, conversion)),
         pagination: normalizePagination(result.pagination)
       };
 
@@ -223,6 +359,9 @@ export class PortfolioController extends Controller {
         data: normalizedResult
       };
     } catch (error) {
+      if (error instanceof FxError) {
+        throw createHttpError(getFxHttpStatus(error.code), error.message);
+      }
       this.setStatus(500);
       throw {
         success: false,
@@ -234,17 +373,22 @@ export class PortfolioController extends Controller {
 
   /**
    * Get current user's portfolios with positions
+   * @param currency Show amounts in this currency (ISO 4217), converted with the latest exchange rates
    */
   @Get("my")
   @Security("bearerAuth")
   @SuccessResponse(200, "User's portfolios with positions")
+  @Response<PortfolioErrorResponse>(400, "Unsupported currency")
   @Response<PortfolioErrorResponse>(401, "Unauthorized")
   @Response<PortfolioErrorResponse>(500, "Server error")
+  @Response<PortfolioErrorResponse>(503, "No exchange rate available for the currency")
   public async getMyPortfolios(
-    @Request() request: express.Request
+    @Request() request: express.Request,
+    @Query() currency?: string
   ): Promise<PortfolioArrayResponse> {
     try {
       const authenticatedUser = requireAuthenticatedUser(request);
+      const conversion = await loadPortfolioCurrencyConversion(currency);
 
       const userId = authenticatedUser.id;
       const portfolioService = getPortfolioService();
@@ -274,9 +418,13 @@ export class PortfolioController extends Controller {
 
       return {
         success: true,
-        data: portfoliosWithPositions
+        currency: conversion?.currency,
+        data: portfoliosWithPositions.map(portfolio => convertPortfolioWithPositions(portfolio, conversion))
       };
     } catch (error) {
+      if (error instanceof FxError) {
+        throw createHttpError(getFxHttpStatus(error.code), error.message);
+      }
       this.setStatus(500);
       throw new Error((error as Error).message || "Failed to fetch portfolios");
     }
@@ -285,15 +433,20 @@ export class PortfolioController extends Controller {
   /**
    * Get portfolio by ID
    * @param id Portfolio ID (UUID)
+   * @param currency Show amounts in this currency (ISO 4217), converted with the latest exchange rates
    */
   @Get("{id}")
   @Security("bearerAuth")
   @SuccessResponse(200, "Portfolio details")
-  @Response<PortfolioErrorResponse>(400, "Invalid portfolio ID format")
+  @Response<PortfolioErrorResponse>(400, "Invalid portfolio ID format or unsupported currency")
   @Response<PortfolioErrorResponse>(401, "Unauthorized")
   @Response<PortfolioErrorResponse>(404, "Portfolio not found")
   @Response<PortfolioErrorResponse>(500, "Server error")
-  public async getPortfolioById(@Path() id: string): Promise<PortfolioSingleResponse> {
+  @Response<PortfolioErrorResponse>(503, "No exchange rate available for the currency")
+  public async getPortfolioById(
+    @Path() id: string,
+    @Query() currency?: string
+  ): Promise<PortfolioSingleResponse> {
     try {
       // Basic UUID validation
       const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -301,6 +454,7 @@ export class PortfolioController extends Controller {
         throw createHttpError(400, "Invalid portfolio ID format");
       }
 
+      const conversion = await loadPortfolioCurrencyConversion(currency);
       const result = await getPortfolioService().getPortfolioById(id);
 
       if (!result.success) {
@@ -317,9 +471,15 @@ export class PortfolioController extends Controller {
 
       return {
         success: true,
-        data: { portfolio: result.data }
+        data: {
+          currency: conversion?.currency,
+          portfolio: convertPortfolioSummary(result.data, conversion)
+        }
       };
     } catch (error) {
+      if (error instanceof FxError) {
+        throw createHttpError(getFxHttpStatus(error.code), error.message);
+      }
       const httpError = error as Error & { status?: number };
       if (typeof httpError.status === "number") {
         throw httpError;
@@ -361,9 +521,15 @@ export class PortfolioController extends Controller {
         throw { success: false, message: 'Failed to fetch portfolio summary' };
       }
 
+      // Mark-to-market valuation in the owner's currency; the summary is still served without it
+      const valuationResult = await getPortfolioValuationService().getPortfolioValuation(id);
+
       return {
         success: true,
-        data: result.data
+        data: {
+          ...result.data,
+          valuation: valuationResult.success ? valuationResult.data : undefined
+        }
       };
     } catch (error) {
       if ((error as { success?: boolean }).success === false) {
@@ -378,6 +544,154 @@ export class PortfolioController extends Controller {
     }
   }
 
+  /**
+   * Get mark-to-market valuation with unrealized P&L per position, per metal and in total
+   * @param id Portfolio ID (UUID)
+   * @param currency Valuation currency (ISO 4217), defaults to the owner's preferred currency
+   */
+  @Get("{id}/valuation")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Portfolio valuation")
+  @Response<PortfolioErrorResponse>(400, "Invalid portfolio ID or currency")
+  @Response<PortfolioErrorResponse>(401, "Unauthorized")
+  @Response<PortfolioErrorResponse>(403, "Access denied")
+  @Response<PortfolioErrorResponse>(404, "Portfolio not found")
+  @Response<PortfolioErrorResponse>(500, "Server error")
+  @Response<PortfolioErrorResponse>(503, "No exchange rate available for the currency")
+  public async getPortfolioValuation(
+    @Path() id: string,
+    @Request() request: express.Request,
+    @Query() currency?: string
+  ): Promise<PortfolioValuationResponse> {
+    try {
+      await assertPortfolioAccess(id, request);
+
+      const result = await getPortfolioValuationService().getPortfolioValuation(id, currency);
+
+      if (!result.success || !result.data) {
+        const error = result.error;
+        throw createHttpError(
+          mapErrorCodeToStatus(error?.code || PortfolioErrorCode.INTERNAL_ERROR),
+          error?.message || "Failed to value portfolio"
+        );
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      const httpError = error as Error & { status?: number };
+      if (typeof httpError.status === "number") {
+        throw httpError;
+      }
+      throw createHttpError(500, "Failed to value portfolio");
+    }
+  }
+
+  /**
+   * Get portfolio value over time
+   * Holdings are rebuilt from transactions at each point and priced with the daily close of price history.
+   * Closes (USD) are converted with the exchange rates at each point, transactions with the rates at their date.
+   * @param id Portfolio ID (UUID)
+   * @param from Start date (ISO 8601), defaults to 30 days before `to`
+   * @param to End date (ISO 8601), defaults to now
+   * @param interval Spacing of the points
+   * @param currency Valuation currency (ISO 4217), defaults to the owner's preferred currency
+   */
+  @Get("{id}/performance")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Portfolio value time series")
+  @Response<PortfolioErrorResponse>(400, "Invalid portfolio ID or query parameters")
+  @Response<PortfolioErrorResponse>(401, "Unauthorized")
+  @Response<PortfolioErrorResponse>(403, "Access denied")
+  @Response<PortfolioErrorResponse>(404, "Portfolio not found")
+  @Response<PortfolioErrorResponse>(500, "Server error")
+  @Response<PortfolioErrorResponse>(503, "No exchange rate available for the currency")
+  public async getPortfolioPerformance(
+    @Path() id: string,
+    @Request() request: express.Request,
+    @Query() from?: string,
+    @Query() to?: string,
+    @Query() interval?: PerformanceInterval,
+    @Query() currency?: string
+  ): Promise<PortfolioPerformanceResponse> {
+    try {
+      await assertPortfolioAccess(id, request);
+
+      const result = await getPortfolioValuationService().getPortfolioPerformance(id, {
+        from: parseDateParam(from, "from"),
+        to: parseDateParam(to, "to"),
+        interval,
+        currency
+      });
+
+      if (!result.success || !result.data) {
+        const error = result.error;
+        throw createHttpError(
+          mapErrorCodeToStatus(error?.code || PortfolioErrorCode.INTERNAL_ERROR),
+          error?.message || "Failed to calculate portfolio performance"
+        );
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      const httpError = error as Error & { status?: number };
+      if (typeof httpError.status === "number") {
+        throw httpError;
+      }
+      throw createHttpError(500, "Failed to calculate portfolio performance");
+    }
+  }
+
+  /**
+   * Get realized gains of a tax year
+   * One entry per lot consumed by a sell, with proceeds, cost basis, holding period and gain.
+   * @param id Portfolio ID (UUID)
+   * @param year Tax year (calendar year, UTC), defaults to the current year
+   */
+  @Get("{id}/realized-gains")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Realized gains report")
+  @Response<PortfolioErrorResponse>(400, "Invalid portfolio ID or year")
+  @Response<PortfolioErrorResponse>(401, "Unauthorized")
+  @Response<PortfolioErrorResponse>(403, "Access denied")
+  @Response<PortfolioErrorResponse>(404, "Portfolio not found")
+  @Response<PortfolioErrorResponse>(500, "Server error")
+  public async getRealizedGains(
+    @Path() id: string,
+    @Request() request: express.Request,
+    @Query() year?: number
+  ): Promise<PortfolioRealizedGainsResponse> {
+    try {
+      await assertPortfolioAccess(id, request);
+
+      const result = await getPortfolioService().getRealizedGains(id, year ?? new Date().getUTCFullYear());
+
+      if (!result.success || !result.data) {
+        const error = result.error;
+        throw createHttpError(
+          mapErrorCodeToStatus(error?.code || PortfolioErrorCode.INTERNAL_ERROR),
+          error?.message || "Failed to fetch realized gains"
+        );
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      const httpError = error as Error & { status?: number };
+      if (typeof httpError.status === "number") {
+        throw httpError;
+      }
+      throw createHttpError(500, "Failed to fetch realized gains");
+    }
+  }
+
   /**
    * Create a new portfolio
    * @param requestBody Portfolio data
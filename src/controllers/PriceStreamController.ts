@@ -0,0 +1,95 @@
+/**
+ * Price Stream Controller - Server-Sent Events
+ *
+ * GET /api/market-data/stream?channels=prices,products&metals=AU,AG&currencies=USD
+ *
+ * Events:
+ * - snapshot: current prices (and product prices) matching the filter, on connect
+ * - price: a saved market price (MarketPrice)
+ * - product_prices: product prices recalculated at a new spot price
+ * - heartbeat: keeps idle connections and proxies alive
+ *
+ * Plain Express handler: tsoa cannot keep a response open.
+ * Unauthenticated on purpose, like the other market price reads; one instance
+ * (stream service and product pricer) serves all connections.
+ */
+
+import { Request, Response } from 'express';
+import { getPool } from '../dbConfig';
+import { MarketDataServiceFactory } from '../services/market-data/MarketDataServiceFactory';
+import type { IPriceStreamService } from '../services/market-data/IPriceStreamService';
+import type { PriceStreamConfig } from '../services/market-data/types/PriceStreamTypes';
+import { parsePriceStreamFilter, PriceStreamQuery } from '../services/market-data/utils/PriceStreamFilter';
+import { PricingServiceFactory } from '../services/pricing/PricingServiceFactory';
+
+export class PriceStreamController {
+  private readonly priceStream: IPriceStreamService;
+  private readonly config: PriceStreamConfig;
+
+  constructor() {
+    this.priceStream = MarketDataServiceFactory.getPriceStreamService(getPool());
+    this.config = MarketDataServiceFactory.createPriceStreamConfigFromEnv();
+
+    const pricingService = PricingServiceFactory.create(getPool());
+    this.priceStream.setProductPricer((metalSymbol, spotPrice, currency) =>
+      pricingService.priceProductsAtSpot(metalSymbol, spotPrice, currency)
+    );
+  }
+
+  /**
+   * Stream prices until the client disconnects
+   */
+  streamPrices = async (req: Request, res: Response): Promise<void> => {
+    let filter;
+    try {
+      filter = parsePriceStreamFilter(req.query as PriceStreamQuery);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        code: 'VALIDATION_ERROR',
+        error: error instanceof Error ? error.message : 'Invalid stream filter'
+      });
+      return;
+    }
+
+    if (this.priceStream.getSubscriberCount() >= this.config.maxClients) {
+      res.status(503).json({
+        success: false,
+        code: 'PRICE_STREAM_UNAVAILABLE',
+        error: 'Too many price stream connections, retry later'
+      });
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write('retry: 5000\n\n');
+
+    // Subscribe before loading the snapshot so no price saved meanwhile is lost
+    const unsubscribe = this.priceStream.subscribe(filter, event => writeEvent(res, event.type, event.data));
+    const heartbeat = setInterval(
+      () => writeEvent(res, 'heartbeat', { timestamp: new Date() }),
+      this.config.heartbeatSeconds * 1000
+    );
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    try {
+      writeEvent(res, 'snapshot', await this.priceStream.getSnapshot(filter));
+    } catch (error) {
+      console.error('[PriceStream] Failed to load snapshot:', error);
+      writeEvent(res, 'error', { error: 'Failed to load price snapshot' });
+    }
+  };
+}
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
@@ -25,6 +25,7 @@ import type { Request as ExpressRequest } from "express";
 import { getPool } from "../dbConfig";
 import { requireAuthenticatedUser } from "../utils/auditTrail";
 import { ProductServiceFactory } from "../services/product";
+import { FxServiceFactory, FxError, FxRateTable, getFxHttpStatus, normalizeCurrencyCode } from "../services/fx";
 import { Metal, ProductTypeEnum } from "@marcopersi/shared";
 import { normalizePagination } from "../utils/paginationResponse";
 import {
@@ -209,6 +210,33 @@ function getProductManagementService() {
   return ProductServiceFactory.createProductManagementService(getPool());
 }
 
+interface PriceCurrencyConversion {
+  currency: string;
+  rates: FxRateTable;
+}
+
+/**
+ * Latest exchange rates for the requested display currency, or null when none was requested
+ */
+async function loadPriceConversion(currency: string | undefined): Promise<PriceCurrencyConversion | null> {
+  if (currency === undefined) {
+    return null;
+  }
+  const targetCurrency = normalizeCurrencyCode(currency);
+  return { currency: targetCurrency, rates: await FxServiceFactory.create(getPool()).getRateTable() };
+}
+
+function convertProductPrice(product: ProductApiResponse, conversion: PriceCurrencyConversion | null): ProductApiResponse {
+  if (!conversion) {
+    return product;
+  }
+  return {
+    ...product,
+    price: conversion.rates.convert(product.price, product.currency, conversion.currency),
+    currency: conversion.currency
+  };
+}
+
 function generateImageUrl(productId: string, imageFilename: string | null | undefined): string {
   if (imageFilename) {
     return `/api/products/${productId}/image`;
@@ -278,11 +306,13 @@ export class ProductController extends Controller {
    * @param inStock Filter by stock availability
    * @param minPrice Minimum price filter
    * @param maxPrice Maximum price filter
+   * @param currency Show prices in this currency (ISO 4217), converted with the latest exchange rates
    */
   @Get()
   @SuccessResponse(200, "Paginated list of products")
   @Response<ProductErrorResponse>(400, "Invalid query parameters")
   @Response<ProductErrorResponse>(500, "Server error")
+  @Response<ProductErrorResponse>(503, "No exchange rate available for the currency")
   public async getProducts(
     @Query() page?: number,
     @Query() limit?: number,
@@ -294,9 +324,11 @@ export class ProductController extends Controller {
     @Query() producerId?: string,
     @Query() inStock?: boolean,
     @Query() minPrice?: number,
-    @Query() maxPrice?: number
+    @Query() maxPrice?: number,
+    @Query() currency?: string
   ): Promise<ProductListApiResponse | ProductErrorResponse> {
     try {
+      const conversion = await loadPriceConversion(currency);
       const filter: Record<string, unknown> = {};
       if (search) filter.search = search;
       if (metalId) filter.metalId = metalId;
@@ -315,7 +347,9 @@ export class ProductController extends Controller {
       };
 
       const result = await getProductManagementService().listProducts(options);
-      const transformedItems = result.items.map(transformToApiResponse);
+      const transformedItems = result.items.map(item =>
+        convertProductPrice(transformToApiResponse(item), conversion)
+      );
 
       return {
         success: true,
@@ -326,6 +360,10 @@ export class ProductController extends Controller {
         message: `Found ${result.pagination.total} products`
       };
     } catch (error) {
+      if (error instanceof FxError) {
+        this.setStatus(getFxHttpStatus(error.code));
+        return { success: false, error: error.message };
+      }
       const errorMessage = (error as Error).message;
       if (
         errorMessage.includes("Page number") ||
@@ -344,14 +382,20 @@ export class ProductController extends Controller {
   /**
    * Get product by ID
    * @param id Product ID
+   * @param currency Show the price in this currency (ISO 4217), converted with the latest exchange rates
    */
   @Get("{id}")
   @SuccessResponse(200, "Product details")
-  @Response<ProductErrorResponse>(400, "Invalid product ID format")
+  @Response<ProductErrorResponse>(400, "Invalid product ID format or unsupported currency")
   @Response<ProductErrorResponse>(404, "Product not found")
   @Response<ProductErrorResponse>(500, "Server error")
-  public async getProductById(@Path() id: string): Promise<ProductSingleResponse | ProductErrorResponse> {
+  @Response<ProductErrorResponse>(503, "No exchange rate available for the currency")
+  public async getProductById(
+    @Path() id: string,
+    @Query() currency?: string
+  ): Promise<ProductSingleResponse | ProductErrorResponse> {
     try {
+      const conversion = await loadPriceConversion(currency);
       const product = await getProductManagementService().getProductById(id);
 
       if (!product) {
@@ -361,10 +405,14 @@ export class ProductController extends Controller {
 
       return {
         success: true,
-        data: transformToApiResponse(product),
+        data: convertProductPrice(transformToApiResponse(product), conversion),
         message: "Product retrieved successfully"
       };
     } catch (error) {
+      if (error instanceof FxError) {
+        this.setStatus(getFxHttpStatus(error.code));
+        return { success: false, error: error.message };
+      }
       const errorMessage = (error as Error).message;
 
       if (errorMessage.includes("Invalid product ID format") || errorMessage.includes("Valid product ID is required")) {
@@ -0,0 +1,196 @@
+/**
+ * Quotes Controller - tsoa implementation
+ *
+ * Issues price quotes based on live spot prices. A quote locks the unit prices
+ * for a configurable window and is redeemed by passing its id to POST /orders.
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  Path,
+  Post,
+  Request,
+  Response,
+  Route,
+  Security,
+  SuccessResponse,
+  Tags
+} from "tsoa";
+import type { Request as ExpressRequest } from "express";
+import { getPool } from "../dbConfig";
+import { PricingServiceFactory, PricingError, getPricingHttpStatus } from "../services/pricing";
+import type { PriceQuote, PricedItem } from "../services/pricing";
+import { createLogger } from "../utils/logger";
+import { requireAuthenticatedUser, AuthenticationError } from "../utils/auditTrail";
+
+const logger = createLogger("QuotesController");
+
+const pricingService = PricingServiceFactory.create(getPool());
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+interface QuotesCreateInput {
+  type: string;
+  items: Array<{
+    productId: string;
+    quantity: number;
+  }>;
+}
+
+interface PricedItemResponse {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  currency: string;
+  priceSource: string;
+  metalSymbol: string;
+  fineWeightTroyOz: number;
+  spotPricePerTroyOz: number | null;
+  premiumPercentage: number;
+}
+
+interface PriceQuoteResponse {
+  id: string;
+  type: string;
+  currency: string;
+  items: PricedItemResponse[];
+  subtotal: number;
+  createdAt: string;
+  expiresAt: string;
+  expiresInSeconds: number;
+  redeemedAt: string | null;
+  orderId: string | null;
+}
+
+interface QuotesSuccessResponse {
+  success: true;
+  data: PriceQuoteResponse;
+}
+
+interface QuotesErrorResponse {
+  success: false;
+  error: string;
+  code?: string;
+  details?: string;
+}
+
+function mapPricedItemToResponse(item: PricedItem): PricedItemResponse {
+  return {
+    productId: item.productId,
+    productName: item.productName,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    totalPrice: item.totalPrice,
+    currency: item.currency,
+    priceSource: item.priceSource,
+    metalSymbol: item.metalSymbol,
+    fineWeightTroyOz: item.fineWeightTroyOz,
+    spotPricePerTroyOz: item.spotPricePerTroyOz,
+    premiumPercentage: item.premiumPercentage,
+  };
+}
+
+function mapQuoteToResponse(quote: PriceQuote): PriceQuoteResponse {
+  return {
+    id: quote.id,
+    type: quote.type,
+    currency: quote.currency,
+    items: quote.items.map(mapPricedItemToResponse),
+    subtotal: quote.subtotal,
+    createdAt: quote.createdAt.toISOString(),
+    expiresAt: quote.expiresAt.toISOString(),
+    expiresInSeconds: Math.max(0, Math.floor((quote.expiresAt.getTime() - Date.now()) / 1000)),
+    redeemedAt: quote.redeemedAt ? quote.redeemedAt.toISOString() : null,
+    orderId: quote.orderId,
+  };
+}
+
+@Route("quotes")
+@Tags("Orders")
+@Security("bearerAuth")
+export class QuotesController extends Controller {
+  /**
+   * Create a price quote
+   * Prices the items from the current spot price and locks the prices for the quote window
+   */
+  @Post()
+  @SuccessResponse(201, "Quote created successfully")
+  @Response<QuotesErrorResponse>(400, "Invalid quote request")
+  @Response<QuotesErrorResponse>(401, "User not authenticated")
+  @Response<QuotesErrorResponse>(404, "Product not found")
+  @Response<QuotesErrorResponse>(500, "Internal server error")
+  @Response<QuotesErrorResponse>(503, "No spot price available")
+  public async createQuote(
+    @Request() request: ExpressRequest,
+    @Body() body: QuotesCreateInput
+  ): Promise<QuotesSuccessResponse | QuotesErrorResponse> {
+    try {
+      const authenticatedUser = requireAuthenticatedUser(request);
+
+      const quote = await pricingService.createQuote(
+        {
+          userId: authenticatedUser.id,
+          type: body.type,
+          items: body.items,
+        },
+        authenticatedUser
+      );
+
+      this.setStatus(201);
+      return { success: true, data: mapQuoteToResponse(quote) };
+    } catch (error) {
+      return this.handleError(error, "Failed to create price quote");
+    }
+  }
+
+  /**
+   * Get one of the caller's price quotes
+   */
+  @Get("{id}")
+  @SuccessResponse(200, "Quote retrieved successfully")
+  @Response<QuotesErrorResponse>(400, "Invalid quote ID format")
+  @Response<QuotesErrorResponse>(401, "User not authenticated")
+  @Response<QuotesErrorResponse>(404, "Quote not found")
+  @Response<QuotesErrorResponse>(500, "Internal server error")
+  public async getQuote(
+    @Request() request: ExpressRequest,
+    @Path() id: string
+  ): Promise<QuotesSuccessResponse | QuotesErrorResponse> {
+    try {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (!id || !uuidRegex.exec(id)) {
+        this.setStatus(400);
+        return { success: false, error: "Invalid quote ID format" };
+      }
+
+      const authenticatedUser = requireAuthenticatedUser(request);
+      const quote = await pricingService.getQuote(id, authenticatedUser.id);
+
+      this.setStatus(200);
+      return { success: true, data: mapQuoteToResponse(quote) };
+    } catch (error) {
+      return this.handleError(error, "Failed to fetch price quote");
+    }
+  }
+
+  private handleError(error: unknown, message: string): QuotesErrorResponse {
+    if (error instanceof AuthenticationError) {
+      this.setStatus(401);
+      return { success: false, error: error.message };
+    }
+    if (error instanceof PricingError) {
+      this.setStatus(getPricingHttpStatus(error.code));
+      return { success: false, error: message, code: error.code, details: error.message };
+    }
+
+    logger.error(message, error);
+    this.setStatus(500);
+    return { success: false, error: message, details: (error as Error).message };
+  }
+}
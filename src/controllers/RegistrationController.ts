@@ -26,7 +26,8 @@ import { EmailServiceFactory } from "../services/email";
 import { getRequiredEnvVar } from "../config/environment";
 import type { 
   EnhancedRegistrationRequest,
-  EnhancedRegistrationResponse
+  EnhancedRegistrationResponse,
+  EmailVerificationResponse
 } from "../services/user/registrationTypes";
 
 // ============================================================================
@@ -58,6 +59,11 @@ interface ResendVerificationResponse {
   message: string;
 }
 
+interface VerifyEmailRequest {
+  /** Verification token from the verification email */
+  token: string;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -95,6 +101,8 @@ function getErrorStatusCode(errorCode: string): number {
     case "INVALID_BIRTH_DATE":
     case "INVALID_COUNTRY":
     case "MISSING_REQUIRED_FIELD":
+    case "INVALID_VERIFICATION_TOKEN":
+    case "VERIFICATION_TOKEN_EXPIRED":
       return 400;
     case "EMAIL_ALREADY_EXISTS":
       return 409;
@@ -222,7 +230,7 @@ export class RegistrationController extends Controller {
     const { registrationService, userRepository, emailService } = getRegistrationServices();
     const user = await userRepository.findUserByEmail(email);
 
-    if (user) {
+    if (user && !user.emailVerified) {
       try {
         const verificationToken = await registrationService.generateEmailVerificationToken(user.id);
 
@@ -266,4 +274,35 @@ export class RegistrationController extends Controller {
       message: "If the email address is registered, a verification email has been sent."
     };
   }
+
+  /**
+   * Verify email address
+   * Confirms the email address with the token from the verification email.
+   * Tokens are single-use and expire after 24 hours; request a new one via resend-verification.
+   * A verified email is required to place orders and payments.
+   * @param requestBody Verification token
+   */
+  @Post("verify-email")
+  @SuccessResponse(200, "Email verified")
+  @Response<RegistrationErrorResponse>(400, "Invalid, used or expired verification token")
+  @Response<RegistrationErrorResponse>(500, "Internal server error")
+  public async verifyEmail(
+    @Body() requestBody: VerifyEmailRequest
+  ): Promise<EmailVerificationResponse | RegistrationErrorResponse> {
+    try {
+      const result = await getRegistrationServices().registrationService.verifyEmail(requestBody.token);
+
+      if (!result.success) {
+        this.setStatus(getErrorStatusCode(result.code));
+      }
+      return result;
+    } catch {
+      this.setStatus(500);
+      return {
+        success: false,
+        code: 'INTERNAL_ERROR',
+        error: "Email verification failed"
+      };
+    }
+  }
 }
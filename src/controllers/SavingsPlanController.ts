@@ -0,0 +1,298 @@
+/**
+ * Savings Plan Controller - tsoa implementation
+ *
+ * Recurring purchases per user ("buy CHF 200 of gold every month").
+ * Due plans are executed by the savings plan scheduler (ENABLE_SAVINGS_PLAN_SCHEDULER).
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Route,
+  Path,
+  Query,
+  Body,
+  Request,
+  Tags,
+  SuccessResponse,
+  Response,
+  Security
+} from "tsoa";
+import type { Request as ExpressRequest } from "express";
+import { getPool } from "../dbConfig";
+import { AuthenticationError, requireAuthenticatedUser } from "../utils/auditTrail";
+import {
+  SavingsPlanServiceFactory,
+  SavingsPlan,
+  SavingsPlanError,
+  SavingsPlanExecution,
+  SavingsPlanExecutionStatus,
+  CreateSavingsPlanInput,
+  UpdateSavingsPlanInput,
+  getSavingsPlanHttpStatus
+} from "../services/savings-plan";
+
+// ============================================================================
+// Response Interfaces
+// ============================================================================
+
+interface SavingsPlanErrorResponse {
+  success: false;
+  code?: string;
+  error: string;
+  details?: string;
+}
+
+interface SavingsPlanListResponse {
+  success: true;
+  data: SavingsPlan[];
+  count: number;
+}
+
+interface SavingsPlanResponse {
+  success: true;
+  data: SavingsPlan;
+}
+
+interface SavingsPlanExecutionListResponse {
+  success: true;
+  data: SavingsPlanExecution[];
+  count: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_EXECUTIONS_LIMIT = 500;
+
+function getSavingsPlanService() {
+  return SavingsPlanServiceFactory.createService(getPool());
+}
+
+// ============================================================================
+// Controller
+// ============================================================================
+
+@Route("savings-plans")
+@Tags("Savings Plans")
+export class SavingsPlanController extends Controller {
+  /**
+   * Executions of all savings plans (Admin only)
+   * Use status=failed for the executions that failed after all retries.
+   * @param status Filter by status (pending, retrying, succeeded, failed)
+   * @param userId Filter by plan owner
+   * @param limit Max results (default: 100, max: 500)
+   */
+  @Get("executions")
+  @Security("bearerAuth", ["admin"])
+  @SuccessResponse(200, "Savings plan executions")
+  @Response<SavingsPlanErrorResponse>(400, "Invalid status or user ID")
+  @Response<SavingsPlanErrorResponse>(401, "Unauthorized")
+  @Response<SavingsPlanErrorResponse>(403, "Forbidden - Admin access required")
+  @Response<SavingsPlanErrorResponse>(500, "Server error")
+  public async getExecutions(
+    @Query() status?: SavingsPlanExecutionStatus,
+    @Query() userId?: string,
+    @Query() limit?: number
+  ): Promise<SavingsPlanExecutionListResponse | SavingsPlanErrorResponse> {
+    try {
+      const executions = await getSavingsPlanService().listExecutions({
+        status,
+        userId,
+        limit: Math.min(limit && limit > 0 ? limit : 100, MAX_EXECUTIONS_LIMIT)
+      });
+      return { success: true, data: executions, count: executions.length };
+    } catch (error) {
+      return this.handleError(error, "Failed to fetch savings plan executions");
+    }
+  }
+
+  /**
+   * List the authenticated user's savings plans
+   */
+  @Get()
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Savings plans")
+  @Response<SavingsPlanErrorResponse>(401, "User not authenticated")
+  @Response<SavingsPlanErrorResponse>(500, "Server error")
+  public async listSavingsPlans(
+    @Request() request: ExpressRequest
+  ): Promise<SavingsPlanListResponse | SavingsPlanErrorResponse> {
+    try {
+      const user = requireAuthenticatedUser(request);
+      const plans = await getSavingsPlanService().listPlans(user.id);
+      return { success: true, data: plans, count: plans.length };
+    } catch (error) {
+      return this.handleError(error, "Failed to fetch savings plans");
+    }
+  }
+
+  /**
+   * Create a savings plan
+   * Buys `amount` worth of the product at every due date (daily, weekly, monthly,
+   * quarterly or yearly from startDate) with a fractional quantity at the current price.
+   * The order total is charged to the linked Stripe payment method; failed executions are retried.
+   */
+  @Post()
+  @Security("bearerAuth", ["email_verified"])
+  @SuccessResponse(201, "Savings plan created")
+  @Response<SavingsPlanErrorResponse>(400, "Invalid savings plan")
+  @Response<SavingsPlanErrorResponse>(401, "User not authenticated")
+  @Response<SavingsPlanErrorResponse>(403, "Email address not verified")
+  @Response<SavingsPlanErrorResponse>(500, "Server error")
+  public async createSavingsPlan(
+    @Request() request: ExpressRequest,
+    @Body() body: CreateSavingsPlanInput
+  ): Promise<SavingsPlanResponse | SavingsPlanErrorResponse> {
+    try {
+      const user = requireAuthenticatedUser(request);
+      const plan = await getSavingsPlanService().createPlan(user.id, body);
+
+      this.setStatus(201);
+      return { success: true, data: plan };
+    } catch (error) {
+      return this.handleError(error, "Failed to create savings plan");
+    }
+  }
+
+  /**
+   * Get one of the authenticated user's savings plans
+   */
+  @Get("{id}")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Savings plan")
+  @Response<SavingsPlanErrorResponse>(400, "Invalid savings plan ID format")
+  @Response<SavingsPlanErrorResponse>(401, "User not authenticated")
+  @Response<SavingsPlanErrorResponse>(404, "Savings plan not found")
+  @Response<SavingsPlanErrorResponse>(500, "Server error")
+  public async getSavingsPlan(
+    @Request() request: ExpressRequest,
+    @Path() id: string
+  ): Promise<SavingsPlanResponse | SavingsPlanErrorResponse> {
+    if (!UUID_REGEX.test(id)) {
+      this.setStatus(400);
+      return { success: false, error: "Invalid savings plan ID format" };
+    }
+
+    try {
+      const user = requireAuthenticatedUser(request);
+      return { success: true, data: await getSavingsPlanService().getPlan(id, user.id) };
+    } catch (error) {
+      return this.handleError(error, "Failed to fetch savings plan");
+    }
+  }
+
+  /**
+   * Update a savings plan
+   * Change amount, frequency or payment method, or pause (status=paused) and resume (status=active) it.
+   * Executions missed while a plan was paused are not caught up.
+   * Requires a recent step-up re-authentication (403 AUTH_STEP_UP_REQUIRED otherwise)
+   */
+  @Put("{id}")
+  @Security("bearerAuth", ["step_up"])
+  @SuccessResponse(200, "Savings plan updated")
+  @Response<SavingsPlanErrorResponse>(400, "Invalid savings plan")
+  @Response<SavingsPlanErrorResponse>(401, "User not authenticated")
+  @Response<SavingsPlanErrorResponse>(403, "Re-authentication required")
+  @Response<SavingsPlanErrorResponse>(404, "Savings plan not found")
+  @Response<SavingsPlanErrorResponse>(409, "Savings plan is cancelled")
+  @Response<SavingsPlanErrorResponse>(500, "Server error")
+  public async updateSavingsPlan(
+    @Request() request: ExpressRequest,
+    @Path() id: string,
+    @Body() body: UpdateSavingsPlanInput
+  ): Promise<SavingsPlanResponse | SavingsPlanErrorResponse> {
+    if (!UUID_REGEX.test(id)) {
+      this.setStatus(400);
+      return { success: false, error: "Invalid savings plan ID format" };
+    }
+
+    try {
+      const user = requireAuthenticatedUser(request);
+      return { success: true, data: await getSavingsPlanService().updatePlan(id, user.id, body) };
+    } catch (error) {
+      return this.handleError(error, "Failed to update savings plan");
+    }
+  }
+
+  /**
+   * Cancel a savings plan
+   * The plan and its execution history are kept; pending retries are given up.
+   */
+  @Delete("{id}")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Savings plan cancelled")
+  @Response<SavingsPlanErrorResponse>(400, "Invalid savings plan ID format")
+  @Response<SavingsPlanErrorResponse>(401, "User not authenticated")
+  @Response<SavingsPlanErrorResponse>(404, "Savings plan not found")
+  @Response<SavingsPlanErrorResponse>(409, "Savings plan is already cancelled")
+  @Response<SavingsPlanErrorResponse>(500, "Server error")
+  public async cancelSavingsPlan(
+    @Request() request: ExpressRequest,
+    @Path() id: string
+  ): Promise<SavingsPlanResponse | SavingsPlanErrorResponse> {
+    if (!UUID_REGEX.test(id)) {
+      this.setStatus(400);
+      return { success: false, error: "Invalid savings plan ID format" };
+    }
+
+    try {
+      const user = requireAuthenticatedUser(request);
+      return { success: true, data: await getSavingsPlanService().cancelPlan(id, user.id) };
+    } catch (error) {
+      return this.handleError(error, "Failed to cancel savings plan");
+    }
+  }
+
+  /**
+   * Execution history of one of the authenticated user's savings plans, newest first
+   * Each execution shows its order, attempts and the error of the last failed attempt.
+   */
+  @Get("{id}/executions")
+  @Security("bearerAuth")
+  @SuccessResponse(200, "Savings plan executions")
+  @Response<SavingsPlanErrorResponse>(400, "Invalid savings plan ID format")
+  @Response<SavingsPlanErrorResponse>(401, "User not authenticated")
+  @Response<SavingsPlanErrorResponse>(404, "Savings plan not found")
+  @Response<SavingsPlanErrorResponse>(500, "Server error")
+  public async getSavingsPlanExecutions(
+    @Request() request: ExpressRequest,
+    @Path() id: string
+  ): Promise<SavingsPlanExecutionListResponse | SavingsPlanErrorResponse> {
+    if (!UUID_REGEX.test(id)) {
+      this.setStatus(400);
+      return { success: false, error: "Invalid savings plan ID format" };
+    }
+
+    try {
+      const user = requireAuthenticatedUser(request);
+      const executions = await getSavingsPlanService().listPlanExecutions(id, user.id);
+      return { success: true, data: executions, count: executions.length };
+    } catch (error) {
+      return this.handleError(error, "Failed to fetch savings plan executions");
+    }
+  }
+
+  private handleError(error: unknown, message: string): SavingsPlanErrorResponse {
+    if (error instanceof AuthenticationError) {
+      this.setStatus(401);
+      return { success: false, error: error.message };
+    }
+    if (error instanceof SavingsPlanError) {
+      this.setStatus(getSavingsPlanHttpStatus(error.code));
+      return { success: false, code: error.code, error: error.message };
+    }
+
+    this.setStatus(500);
+    return {
+      success: false,
+      error: message,
+      details: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * Shipping Controller - tsoa implementation
+ *
+ * Admin management of shipping tariffs (delivery method, destination country,
+ * parcel weight) and insurance tiers (declared value).
+ * Buy orders with a delivery method are charged from these tables.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Route,
+  Path,
+  Query,
+  Body,
+  Tags,
+  SuccessResponse,
+  Response,
+  Security,
+  Request
+} from "tsoa";
+import type { Request as ExpressRequest } from "express";
+import { getPool } from "../dbConfig";
+import { requireAuthenticatedUser } from "../utils/auditTrail";
+import {
+  ShippingServiceFactory,
+  ShippingTariff,
+  InsuranceTier,
+  ShippingError,
+  ShippingErrorCode,
+  DeliveryMethod,
+  getShippingHttpStatus
+} from "../services/shipping";
+
+// ============================================================================
+// Request/Response Interfaces
+// ============================================================================
+
+interface ShippingErrorResponse {
+  success: false;
+  code?: string;
+  error: string;
+}
+
+interface ShippingTariffListResponse {
+  success: true;
+  data: ShippingTariff[];
+}
+
+interface ShippingTariffResponse {
+  success: true;
+  data: ShippingTariff;
+}
+
+interface InsuranceTierListResponse {
+  success: true;
+  data: InsuranceTier[];
+}
+
+interface InsuranceTierResponse {
+  success: true;
+  data: InsuranceTier;
+}
+
+interface ShippingDeleteResponse {
+  success: true;
+  message: string;
+}
+
+interface ShippingTariffCreateRequest {
+  deliveryMethod: DeliveryMethod;
+  /** Destination country ID (UUID); omit or null for the fallback tariff of all other destinations */
+  countryId?: string | null;
+  /** Inclusive lower bound of the gross parcel weight in grams (default: 0) */
+  minWeightGrams?: number;
+  /** Exclusive upper bound in grams; null = open-ended */
+  maxWeightGrams?: number | null;
+  /** Shipping fee in the order currency */
+  fee: number;
+  description?: string | null;
+}
+
+type ShippingTariffUpdateRequest = Partial<ShippingTariffCreateRequest>;
+
+interface InsuranceTierCreateRequest {
+  deliveryMethod: DeliveryMethod;
+  /** Inclusive lower bound of the declared value (default: 0) */
+  minValue?: number;
+  /** Exclusive upper bound; null = open-ended */
+  maxValue?: number | null;
+  /** Rate as decimal fraction applied to the full declared value (0.01 = 1%) */
+  rate: number;
+  description?: string | null;
+}
+
+type InsuranceTierUpdateRequest = Partial<InsuranceTierCreateRequest>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function createHttpError(status: number, message: string, code?: string): Error & { status: number; code?: string } {
+  const error = new Error(message) as Error & { status: number; code?: string };
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+function toHttpError(error: ShippingError | undefined, fallbackMessage: string): Error {
+  const code = error?.code ?? ShippingErrorCode.INTERNAL_ERROR;
+  return createHttpError(getShippingHttpStatus(code), error?.message || fallbackMessage, code);
+}
+
+// ============================================================================
+// Controller
+// ============================================================================
+
+@Route("shipping")
+@Tags("Shipping")
+@Security("bearerAuth", ["admin"])
+export class ShippingController extends Controller {
+  private readonly shippingService = ShippingServiceFactory.create(getPool());
+
+  /**
+   * List shipping tariffs
+   * @param deliveryMethod Filter by delivery method
+   * @param countryId Tariffs for this destination (including fallback tariffs)
+   */
+  @Get("tariffs")
+  @SuccessResponse(200, "List of shipping tariffs")
+  @Response<ShippingErrorResponse>(400, "Invalid query parameters")
+  @Response<ShippingErrorResponse>(401, "Unauthorized")
+  @Response<ShippingErrorResponse>(403, "Forbidden - Admin access required")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async listShippingTariffs(
+    @Query() deliveryMethod?: DeliveryMethod,
+    @Query() countryId?: string
+  ): Promise<ShippingTariffListResponse> {
+    const result = await this.shippingService.listTariffs({ deliveryMethod, countryId });
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to fetch shipping tariffs");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Get shipping tariff by ID
+   * @param id Shipping tariff ID (UUID)
+   */
+  @Get("tariffs/{id}")
+  @SuccessResponse(200, "Shipping tariff details")
+  @Response<ShippingErrorResponse>(404, "Shipping tariff not found")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async getShippingTariff(@Path() id: string): Promise<ShippingTariffResponse> {
+    const result = await this.shippingService.getTariff(id);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to fetch shipping tariff");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Create a shipping tariff
+   * @param requestBody Shipping tariff data
+   */
+  @Post("tariffs")
+  @SuccessResponse(201, "Shipping tariff created successfully")
+  @Response<ShippingErrorResponse>(400, "Invalid request data or unknown country")
+  @Response<ShippingErrorResponse>(409, "Tariff for this method, destination and weight bracket already exists")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async createShippingTariff(
+    @Body() requestBody: ShippingTariffCreateRequest,
+    @Request() request: ExpressRequest
+  ): Promise<ShippingTariffResponse> {
+    const authenticatedUser = requireAuthenticatedUser(request);
+    const result = await this.shippingService.createTariff(requestBody, authenticatedUser);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to create shipping tariff");
+    }
+
+    this.setStatus(201);
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Update a shipping tariff (omitted fields keep their value)
+   * @param id Shipping tariff ID (UUID)
+   * @param requestBody Fields to update
+   */
+  @Put("tariffs/{id}")
+  @SuccessResponse(200, "Shipping tariff updated successfully")
+  @Response<ShippingErrorResponse>(400, "Invalid request data")
+  @Response<ShippingErrorResponse>(404, "Shipping tariff not found")
+  @Response<ShippingErrorResponse>(409, "Tariff for this method, destination and weight bracket already exists")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async updateShippingTariff(
+    @Path() id: string,
+    @Body() requestBody: ShippingTariffUpdateRequest,
+    @Request() request: ExpressRequest
+  ): Promise<ShippingTariffResponse> {
+    const authenticatedUser = requireAuthenticatedUser(request);
+    const result = await this.shippingService.updateTariff(id, requestBody, authenticatedUser);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to update shipping tariff");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Delete a shipping tariff
+   * @param id Shipping tariff ID (UUID)
+   */
+  @Delete("tariffs/{id}")
+  @SuccessResponse(200, "Shipping tariff deleted successfully")
+  @Response<ShippingErrorResponse>(404, "Shipping tariff not found")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async deleteShippingTariff(
+    @Path() id: string,
+    @Request() request: ExpressRequest
+  ): Promise<ShippingDeleteResponse> {
+    requireAuthenticatedUser(request);
+    const result = await this.shippingService.deleteTariff(id);
+
+    if (!result.success) {
+      throw toHttpError(result.error, "Failed to delete shipping tariff");
+    }
+
+    return { success: true, message: "Shipping tariff deleted successfully" };
+  }
+
+  /**
+   * List insurance tiers
+   */
+  @Get("insurance-tiers")
+  @SuccessResponse(200, "List of insurance tiers")
+  @Response<ShippingErrorResponse>(401, "Unauthorized")
+  @Response<ShippingErrorResponse>(403, "Forbidden - Admin access required")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async listInsuranceTiers(): Promise<InsuranceTierListResponse> {
+    const result = await this.shippingService.listInsuranceTiers();
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to fetch insurance tiers");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Get insurance tier by ID
+   * @param id Insurance tier ID (UUID)
+   */
+  @Get("insurance-tiers/{id}")
+  @SuccessResponse(200, "Insurance tier details")
+  @Response<ShippingErrorResponse>(404, "Insurance tier not found")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async getInsuranceTier(@Path() id: string): Promise<InsuranceTierResponse> {
+    const result = await this.shippingService.getInsuranceTier(id);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to fetch insurance tier");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Create an insurance tier
+   * @param requestBody Insurance tier data
+   */
+  @Post("insurance-tiers")
+  @SuccessResponse(201, "Insurance tier created successfully")
+  @Response<ShippingErrorResponse>(400, "Invalid request data")
+  @Response<ShippingErrorResponse>(409, "Tier for this method and lower bound already exists")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async createInsuranceTier(
+    @Body() requestBody: InsuranceTierCreateRequest,
+    @Request() request: ExpressRequest
+  ): Promise<InsuranceTierResponse> {
+    const authenticatedUser = requireAuthenticatedUser(request);
+    const result = await this.shippingService.createInsuranceTier(requestBody, authenticatedUser);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to create insurance tier");
+    }
+
+    this.setStatus(201);
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Update an insurance tier (omitted fields keep their value)
+   * @param id Insurance tier ID (UUID)
+   * @param requestBody Fields to update
+   */
+  @Put("insurance-tiers/{id}")
+  @SuccessResponse(200, "Insurance tier updated successfully")
+  @Response<ShippingErrorResponse>(400, "Invalid request data")
+  @Response<ShippingErrorResponse>(404, "Insurance tier not found")
+  @Response<ShippingErrorResponse>(409, "Tier for this method and lower bound already exists")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async updateInsuranceTier(
+    @Path() id: string,
+    @Body() requestBody: InsuranceTierUpdateRequest,
+    @Request() request: ExpressRequest
+  ): Promise<InsuranceTierResponse> {
+    const authenticatedUser = requireAuthenticatedUser(request);
+    const result = await this.shippingService.updateInsuranceTier(id, requestBody, authenticatedUser);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to update insurance tier");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Delete an insurance tier
+   * @param id Insurance tier ID (UUID)
+   */
+  @Delete("insurance-tiers/{id}")
+  @SuccessResponse(200, "Insurance tier deleted successfully")
+  @Response<ShippingErrorResponse>(404, "Insurance tier not found")
+  @Response<ShippingErrorResponse>(500, "Server error")
+  public async deleteInsuranceTier(
+    @Path() id: string,
+    @Request() request: ExpressRequest
+  ): Promise<ShippingDeleteResponse> {
+    requireAuthenticatedUser(request);
+    const result = await this.shippingService.deleteInsuranceTier(id);
+
+    if (!result.success) {
+      throw toHttpError(result.error, "Failed to delete insurance tier");
+    }
+
+    return { success: true, message: "Insurance tier deleted successfully" };
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Tax Rules Controller - tsoa implementation
+ *
+ * Admin management of VAT rules per country, metal and product type.
+ * Buy orders are taxed with the rule matching the buyer's primary address country.
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Route,
+  Path,
+  Query,
+  Body,
+  Tags,
+  SuccessResponse,
+  Response,
+  Security,
+  Request
+} from "tsoa";
+import type { Request as ExpressRequest } from "express";
+import { getPool } from "../dbConfig";
+import { requireAuthenticatedUser } from "../utils/auditTrail";
+import {
+  TaxServiceFactory,
+  TaxRule,
+  TaxError,
+  TaxErrorCode,
+  getTaxHttpStatus
+} from "../services/tax";
+
+// ============================================================================
+// Request/Response Interfaces
+// ============================================================================
+
+interface TaxRuleErrorResponse {
+  success: false;
+  code?: string;
+  error: string;
+}
+
+interface TaxRuleListResponse {
+  success: true;
+  data: TaxRule[];
+}
+
+interface TaxRuleResponse {
+  success: true;
+  data: TaxRule;
+}
+
+interface TaxRuleDeleteResponse {
+  success: true;
+  message: string;
+}
+
+interface TaxRuleCreateRequest {
+  /** Country ID (UUID) */
+  countryId: string;
+  /** Metal ID (UUID); omit or null for all metals */
+  metalId?: string | null;
+  /** Product type ID (UUID); omit or null for all product types */
+  productTypeId?: string | null;
+  /** Tax rate as decimal fraction (0.081 = 8.1%); 0 marks an exemption */
+  rate: number;
+  description?: string | null;
+  /** First day the rule applies (YYYY-MM-DD, default: today) */
+  validFrom?: string;
+  /** First day the rule no longer applies (YYYY-MM-DD); null = open-ended */
+  validTo?: string | null;
+}
+
+type TaxRuleUpdateRequest = Partial<TaxRuleCreateRequest>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function createHttpError(status: number, message: string, code?: string): Error & { status: number; code?: string } {
+  const error = new Error(message) as Error & { status: number; code?: string };
+  error.status = status;
+  error.code = code;
+  return error;
+}
+
+function toHttpError(error: TaxError | undefined, fallbackMessage: string): Error {
+  const code = error?.code ?? TaxErrorCode.INTERNAL_ERROR;
+  return createHttpError(getTaxHttpStatus(code), error?.message || fallbackMessage, code);
+}
+
+function parseDateParam(value: string | undefined, name: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw createHttpError(400, `Invalid ${name}: ${value}`, TaxErrorCode.VALIDATION_ERROR);
+  }
+  return date;
+}
+
+// ============================================================================
+// Controller
+// ============================================================================
+
+@Route("tax-rules")
+@Tags("Tax Rules")
+@Security("bearerAuth", ["admin"])
+export class TaxRulesController extends Controller {
+  private readonly taxService = TaxServiceFactory.create(getPool());
+
+  /**
+   * List tax rules
+   * @param countryId Filter by country ID
+   * @param metalId Rules covering this metal (including rules for all metals)
+   * @param productTypeId Rules covering this product type (including rules for all product types)
+   * @param activeAt Only rules valid at this date (YYYY-MM-DD)
+   */
+  @Get("/")
+  @SuccessResponse(200, "List of tax rules")
+  @Response<TaxRuleErrorResponse>(400, "Invalid query parameters")
+  @Response<TaxRuleErrorResponse>(401, "Unauthorized")
+  @Response<TaxRuleErrorResponse>(403, "Forbidden - Admin access required")
+  @Response<TaxRuleErrorResponse>(500, "Server error")
+  public async listTaxRules(
+    @Query() countryId?: string,
+    @Query() metalId?: string,
+    @Query() productTypeId?: string,
+    @Query() activeAt?: string
+  ): Promise<TaxRuleListResponse> {
+    const result = await this.taxService.listRules({
+      countryId,
+      metalId,
+      productTypeId,
+      activeAt: parseDateParam(activeAt, "activeAt")
+    });
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to fetch tax rules");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Get tax rule by ID
+   * @param id Tax rule ID (UUID)
+   */
+  @Get("{id}")
+  @SuccessResponse(200, "Tax rule details")
+  @Response<TaxRuleErrorResponse>(404, "Tax rule not found")
+  @Response<TaxRuleErrorResponse>(500, "Server error")
+  public async getTaxRule(@Path() id: string): Promise<TaxRuleResponse> {
+    const result = await this.taxService.getRule(id);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to fetch tax rule");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Create a tax rule
+   * @param requestBody Tax rule data
+   */
+  @Post("/")
+  @SuccessResponse(201, "Tax rule created successfully")
+  @Response<TaxRuleErrorResponse>(400, "Invalid request data or unknown country, metal or product type")
+  @Response<TaxRuleErrorResponse>(409, "Rule with the same scope and start date already exists")
+  @Response<TaxRuleErrorResponse>(500, "Server error")
+  public async createTaxRule(
+    @Body() requestBody: TaxRuleCreateRequest,
+    @Request() request: ExpressRequest
+  ): Promise<TaxRuleResponse> {
+    const authenticatedUser = requireAuthenticatedUser(request);
+    const result = await this.taxService.createRule(requestBody, authenticatedUser);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to create tax rule");
+    }
+
+    this.setStatus(201);
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Update a tax rule (omitted fields keep their value)
+   * @param id Tax rule ID (UUID)
+   * @param requestBody Fields to update
+   */
+  @Put("{id}")
+  @SuccessResponse(200, "Tax rule updated successfully")
+  @Response<TaxRuleErrorResponse>(400, "Invalid request data")
+  @Response<TaxRuleErrorResponse>(404, "Tax rule not found")
+  @Response<TaxRuleErrorResponse>(409, "Rule with the same scope and start date already exists")
+  @Response<TaxRuleErrorResponse>(500, "Server error")
+  public async updateTaxRule(
+    @Path() id: string,
+    @Body() requestBody: TaxRuleUpdateRequest,
+    @Request() request: ExpressRequest
+  ): Promise<TaxRuleResponse> {
+    const authenticatedUser = requireAuthenticatedUser(request);
+    const result = await this.taxService.updateRule(id, requestBody, authenticatedUser);
+
+    if (!result.success || !result.data) {
+      throw toHttpError(result.error, "Failed to update tax rule");
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Delete a tax rule
+   * @param id Tax rule ID (UUID)
+   */
+  @Delete("{id}")
+  @SuccessResponse(200, "Tax rule deleted successfully")
+  @Response<TaxRuleErrorResponse>(404, "Tax rule not found")
+  @Response<TaxRuleErrorResponse>(500, "Server error")
+  public async deleteTaxRule(
+    @Path() id: string,
+    @Request() request: ExpressRequest
+  ): Promise<TaxRuleDeleteResponse> {
+    requireAuthenticatedUser(request);
+    const result = await this.taxService.deleteRule(id);
+
+    if (!result.success) {
+      throw toHttpError(result.error, "Failed to delete tax rule");
+    }
+
+    return { success: true, message: "Tax rule deleted successfully" };
+  }
+}
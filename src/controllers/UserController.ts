@@ -26,13 +26,17 @@ import type { Request as ExpressRequest } from 'express';
 import { requireAuthenticatedUser } from '../utils/auditTrail';
 import { UuidSchema } from '@marcopersi/shared';
 import { UserErrorCode } from '../services/user';
+import { AuthErrorCode } from '../services/auth/types/AuthTypes';
 import type { UserRole, UserTitle } from '../services/user';
 import {
+  getAuthService,
+  getTwoFactorService,
   getUserService,
   mapErrorCodeToStatus,
 } from './user/UserController.helpers';
 import {
   mapBlockedUserResponse,
+  mapLockedUserResponse,
   mapUserDetailsData,
   mapUserProfilePatchData,
   mapUserResponse,
@@ -48,6 +52,7 @@ import type {
   BlockedUserResponse,
   BlockUserRequest,
   CreateUserRequest,
+  LockedUserResponse,
   PatchUserProfileRequest,
   SuccessResponseWrapper,
   UpdateUserRequest,
@@ -159,6 +164,31 @@ export class UserController extends Controller {
     };
   }
 
+  /**
+   * Get accounts temporarily locked after too many failed logins (Admin only).
+   * Locks lift automatically at lockedUntil; POST /users/{id}/unblock lifts them early.
+   * @summary Get locked users
+   */
+  @Get('locked')
+  @Security('bearerAuth', ['admin'])
+  @SuccessResponse(200, 'Locked users retrieved')
+  @Response<UserErrorResponse>(401, 'Unauthorized')
+  @Response<UserErrorResponse>(403, 'Forbidden - Admin only')
+  public async getLockedUsers(): Promise<SuccessResponseWrapper<LockedUserResponse[]>> {
+    const userService = getUserService();
+    const result = await userService.findLockedUsers();
+
+    if (!result.success || !result.data) {
+      this.setStatus(500);
+      throw new Error(result.error || 'Failed to fetch locked users');
+    }
+
+    return {
+      success: true,
+      data: result.data.map(mapLockedUserResponse),
+    };
+  }
+
   /**
    * Get user by ID
    * @summary Get user by ID
@@ -569,7 +599,8 @@ export class UserController extends Controller {
   }
 
   /**
-   * Block a user account (Admin only)
+   * Block a user account (Admin only).
+   * All sessions of the user are revoked.
    * @summary Block user
    * @param id User UUID
    * @param body Block reason
@@ -610,6 +641,12 @@ export class UserController extends Controller {
       throw this.createHttpError(500, 'Failed to block user');
     }
 
+    // Blocked users already fail authentication; revoking keeps old sessions dead after an unblock
+    const revocation = await getAuthService().revokeAllSessions(id, 'user_blocked');
+    if (!revocation.success) {
+      console.error(`Failed to revoke sessions of blocked user ${id}:`, revocation.error?.message);
+    }
+
     return {
       success: true,
       data: mapBlockedUserResponse(result.data),
@@ -658,6 +695,71 @@ export class UserController extends Controller {
     };
   }
 
+  /**
+   * Revoke all sessions of a user (Admin only).
+   * The user has to log in again on every device.
+   * @summary Revoke user sessions
+   * @param id User UUID
+   */
+  @Delete('{id}/sessions')
+  @Security('bearerAuth', ['admin'])
+  @SuccessResponse(200, 'Sessions revoked')
+  @Response<UserErrorResponse>(400, 'Invalid user ID')
+  public async revokeUserSessions(
+    @Path() id: string
+  ): Promise<SuccessResponseWrapper<{ revokedSessions: number }>> {
+    const idValidation = UuidSchema.safeParse(id);
+    if (!idValidation.success) {
+      throw this.createHttpError(400, 'Invalid user ID format');
+    }
+
+    const result = await getAuthService().revokeAllSessions(id, 'admin_revoked');
+
+    if (!result.success || !result.data) {
+      throw this.createHttpError(500, result.error?.message || 'Failed to revoke sessions');
+    }
+
+    return {
+      success: true,
+      data: result.data,
+      message: 'Sessions revoked successfully',
+    };
+  }
+
+  /**
+   * Reset two-factor authentication of a user (Admin only).
+   * For users who lost their authenticator and recovery codes; they can log in with
+   * their password and enrol again afterwards.
+   * @summary Reset user two-factor authentication
+   * @param id User UUID
+   */
+  @Delete('{id}/two-factor')
+  @Security('bearerAuth', ['admin'])
+  @SuccessResponse(200, 'Two-factor authentication reset')
+  @Response<UserErrorResponse>(400, 'Invalid user ID')
+  @Response<UserErrorResponse>(409, 'Two-factor authentication not set up')
+  public async resetUserTwoFactor(
+    @Path() id: string
+  ): Promise<SuccessResponseWrapper<{ message: string }>> {
+    const idValidation = UuidSchema.safeParse(id);
+    if (!idValidation.success) {
+      throw this.createHttpError(400, 'Invalid user ID format');
+    }
+
+    const result = await getTwoFactorService().resetTwoFactor(id);
+
+    if (!result.success || !result.data) {
+      const status = result.error?.code === AuthErrorCode.TWO_FACTOR_NOT_ENABLED ? 409 : 500;
+      throw this.createHttpError(status, result.error?.message || 'Failed to reset two-factor authentication');
+    }
+
+    return {
+      success: true,
+      data: result.data,
+      message: result.data.message,
+    };
+  }
+
   /**
    * Soft delete a user account (Admin only)
    * @summary Soft delete user
@@ -1,18 +1,28 @@
 import { Request, Response } from 'express';
 import Stripe from 'stripe';
 import { PaymentServiceFactory, IPaymentService } from '../services/payment';
+import { IOrderService, OrderServiceFactory } from '../services/order';
+import { ProductServiceFactory } from '../services/product';
+import { CalculationServiceFactory } from '../services/calculation';
+import { getPool } from '../dbConfig';
 
 export class WebhookController {
   private readonly paymentService: IPaymentService;
+  private readonly orderService: IOrderService;
 
   constructor() {
+    const pool = getPool();
     this.paymentService = PaymentServiceFactory.create();
+    this.orderService = OrderServiceFactory.create(
+      pool, ProductServiceFactory.createProductService(pool), CalculationServiceFactory.create()
+    );
   }
 
   /**
    * Handle Stripe webhook events
    */
   stripeWebhook = async (req: Request, res: Response): Promise<void> => {
+    let event: Stripe.Event;
     try {
       const signature = req.headers['stripe-signature'] as string;
       
@@ -26,8 +36,17 @@ export class WebhookController {
       const rawBody = req.body;
       
       // Process the webhook with Stripe
-      const event = await this.paymentService.processWebhook(rawBody, signature);
-      
+      event = await this.paymentService.processWebhook(rawBody, signature);
+    } catch (error) {
+      console.error('Error processing webhook:', error);
+      res.status(400).json({ 
+        error: 'Webhook signature verification failed',
+        details: (error as Error).message 
+      });
+      return;
+    }
+
+    try {
       // Log the event
       console.log(`Received Stripe webhook: ${event.type} (${event.id})`);
       
@@ -37,11 +56,9 @@ export class WebhookController {
       // Acknowledge receipt of the event
       res.json({ received: true });
     } catch (error) {
-      console.error('Error processing webhook:', error);
-      res.status(400).json({ 
-        error: 'Webhook signature verification failed',
-        details: (error as Error).message 
-      });
+      // A non-2xx response makes Stripe deliver the event again
+      console.error(`Error handling webhook ${event.id}:`, error);
+      res.status(500).json({ error: 'Webhook handling failed' });
     }
   };
 
@@ -90,28 +107,24 @@ export class WebhookController {
    * Handle successful payment intent
    */
   private async handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    try {
-      console.log(`Payment succeeded: ${paymentIntent.id}`);
-      
-      // Extract order information from metadata
-      const orderId = paymentIntent.metadata?.orderId;
-      
-      if (orderId) {
-        // Update order status in database (you would implement this based on your order system)
-        await this.updateOrderStatus(orderId, 'paid', {
-          paymentIntentId: paymentIntent.id,
-          amount: paymentIntent.amount,
-          currency: paymentIntent.currency,
-          paymentMethod: paymentIntent.payment_method as string,
-        });
-        
-        console.log(`Order ${orderId} marked as paid`);
-      } else {
-        console.warn(`Payment ${paymentIntent.id} succeeded but no orderId in metadata`);
-      }
-    } catch (error) {
-      console.error('Error handling payment_intent.succeeded:', error);
+    console.log(`Payment succeeded: ${paymentIntent.id}`);
+    
+    // Extract order information from metadata
+    const orderId = paymentIntent.metadata?.orderId;
+    
+    if (!orderId) {
+      console.warn(`Payment ${paymentIntent.id} succeeded but no orderId in metadata`);
+      return;
     }
+
+    // Errors propagate so the event is retried: a paid order must not stay unpaid
+    if (!(await this.orderService.markOrderPaid(orderId, paymentIntent.id))) {
+      console.warn(`Payment ${paymentIntent.id} succeeded for unknown order ${orderId}`);
+      return;
+    }
+
+    console.log(`Order ${orderId} marked as paid`);
+    await this.sendOrderConfirmationEmail(orderId);
   }
 
   /**
@@ -227,9 +240,7 @@ export class WebhookController {
       console.log(`Order ${orderId} status updated to ${status}`, paymentDetails);
       
       // You might also want to send notifications, emails, etc.
-      if (status === 'paid') {
-        await this.sendOrderConfirmationEmail(orderId);
-      } else if (status === 'payment_failed') {
+      if (status === 'payment_failed') {
         await this.sendPaymentFailedEmail(orderId);
       }
       
@@ -8,11 +8,22 @@ import {
   UserErrorCode,
 } from '../../services/user';
 import type { IUserService } from '../../services/user/service/IUserService';
+import { AuthServiceFactory } from '../../services/auth/AuthServiceFactory';
+import type { IAuthService } from '../../services/auth/IAuthService';
+import type { ITwoFactorService } from '../../services/auth/ITwoFactorService';
 
 export function getUserService(): IUserService {
   return UserServiceFactory.createUserService(getPool());
 }
 
+export function getAuthService(): IAuthService {
+  return AuthServiceFactory.create(getPool());
+}
+
+export function getTwoFactorService(): ITwoFactorService {
+  return AuthServiceFactory.createTwoFactorService(getPool());
+}
+
 export function mapErrorCodeToStatus(errorCode?: UserErrorCode): number {
   switch (errorCode) {
     case UserErrorCode.USER_NOT_FOUND:
@@ -8,6 +8,7 @@ import type {
   UserProfilePatchResponse,
   UserResponse,
   BlockedUserResponse,
+  LockedUserResponse,
 } from './UserController.types';
 
 export function mapUserResponse(user: UserEntity): UserResponse {
@@ -38,6 +39,17 @@ export function mapBlockedUserResponse(user: UserEntity): BlockedUserResponse {
   };
 }
 
+export function mapLockedUserResponse(user: UserEntity): LockedUserResponse {
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    lockedAt: user.blockedAt,
+    lockedUntil: user.lockedUntil,
+    lockReason: user.blockReason,
+  };
+}
+
 export function mapUserDetailsData(data: UserWithDetails): UserDetailsResponse['data'] {
   const { user, profile, address, verificationStatus } = data;
 
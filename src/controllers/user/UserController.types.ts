@@ -149,6 +149,15 @@ export interface BlockedUserResponse {
   blockReason?: string | null;
 }
 
+export interface LockedUserResponse {
+  id: string;
+  email: string;
+  username?: string | null;
+  lockedAt?: Date | null;
+  lockedUntil: Date | null;
+  lockReason?: string | null;
+}
+
 export interface SuccessResponseWrapper<T> {
   success: true;
   data: T;
@@ -8,10 +8,18 @@ import { UserController } from './../controllers/UserController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { TransactionsController } from './../controllers/TransactionsController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { TaxRulesController } from './../controllers/TaxRulesController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { ShippingController } from './../controllers/ShippingController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { SavingsPlanController } from './../controllers/SavingsPlanController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { RegistrationController } from './../controllers/RegistrationController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { ReferenceDataController } from './../controllers/ReferenceDataController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { QuotesController } from './../controllers/QuotesController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { ProductTypesController } from './../controllers/ProductTypesController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { ProductController } from './../controllers/ProductController';
@@ -32,6 +40,8 @@ import { MetalsController } from './../controllers/MetalsController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { MarketDataController } from './../controllers/MarketDataController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { FxController } from './../controllers/FxController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { CustodyServiceController } from './../controllers/CustodyServiceController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { CustodiansController } from './../controllers/CustodiansController';
@@ -118,6 +128,29 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LockedUserResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "email": {"dataType":"string","required":true},
+            "username": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "lockedAt": {"dataType":"union","subSchemas":[{"dataType":"datetime"},{"dataType":"enum","enums":[null]}]},
+            "lockedUntil": {"dataType":"union","subSchemas":[{"dataType":"datetime"},{"dataType":"enum","enums":[null]}],"required":true},
+            "lockReason": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SuccessResponseWrapper_LockedUserResponse-Array_": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"LockedUserResponse"},"required":true},
+            "message": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
     "SuccessResponseWrapper_UserResponse_": {
         "dataType": "refObject",
         "properties": {
@@ -261,6 +294,26 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SuccessResponseWrapper__revokedSessions-number__": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"revokedSessions":{"dataType":"double","required":true}},"required":true},
+            "message": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SuccessResponseWrapper__message-string__": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true}},"required":true},
+            "message": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
     "TransactionItem": {
         "dataType": "refObject",
         "properties": {
@@ -455,577 +508,645 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UserTitle": {
-        "dataType": "refEnum",
-        "enums": ["Herr","Frau","Divers"],
+    "TaxRule": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "countryId": {"dataType":"string","required":true},
+            "countryCode": {"dataType":"string","required":true},
+            "countryName": {"dataType":"string","required":true},
+            "metalId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "metalSymbol": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "productTypeId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "productTypeName": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "rate": {"dataType":"double","required":true},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "validFrom": {"dataType":"datetime","required":true},
+            "validTo": {"dataType":"union","subSchemas":[{"dataType":"datetime"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Address": {
+    "TaxRuleListResponse": {
         "dataType": "refObject",
         "properties": {
-            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "postalCode": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "city": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "state": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "street": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "houseNumber": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "addressLine2": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "poBox": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"TaxRule"},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "EmailVerificationStatus": {
-        "dataType": "refEnum",
-        "enums": ["pending","verified","failed"],
+    "TaxRuleErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "code": {"dataType":"string"},
+            "error": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "IdentityVerificationStatus": {
-        "dataType": "refEnum",
-        "enums": ["pending","verified","failed","rejected"],
+    "TaxRuleResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"TaxRule","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UserProfile": {
+    "TaxRuleCreateRequest": {
         "dataType": "refObject",
         "properties": {
-            "title": {"dataType":"union","subSchemas":[{"ref":"UserTitle"},{"dataType":"enum","enums":[null]}],"required":true},
-            "firstName": {"dataType":"string","required":true},
-            "lastName": {"dataType":"string","required":true},
-            "birthDate": {"dataType":"string","required":true},
-            "phone": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "gender": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "preferredCurrency": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "preferredPaymentMethod": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "address": {"ref":"Address","required":true},
-            "createdAt": {"dataType":"string","required":true},
-            "verificationStatus": {"dataType":"nestedObjectLiteral","nestedProperties":{"identity":{"ref":"IdentityVerificationStatus","required":true},"email":{"ref":"EmailVerificationStatus","required":true}},"required":true},
+            "countryId": {"dataType":"string","required":true},
+            "metalId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "productTypeId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "rate": {"dataType":"double","required":true},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "validFrom": {"dataType":"string"},
+            "validTo": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "RegisteredUser": {
+    "Partial_TaxRuleCreateRequest_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"countryId":{"dataType":"string"},"metalId":{"dataType":"string"},"productTypeId":{"dataType":"string"},"rate":{"dataType":"double"},"description":{"dataType":"string"},"validFrom":{"dataType":"string"},"validTo":{"dataType":"string"}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TaxRuleUpdateRequest": {
+        "dataType": "refAlias",
+        "type": {"ref":"Partial_TaxRuleCreateRequest_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TaxRuleDeleteResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeliveryMethod": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["insured_courier"]},{"dataType":"enum","enums":["vault_delivery"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ShippingTariff": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "email": {"dataType":"string","required":true},
-            "role": {"dataType":"string","required":true},
-            "firstName": {"dataType":"string","required":true},
-            "lastName": {"dataType":"string","required":true},
-            "profile": {"ref":"UserProfile","required":true},
+            "deliveryMethod": {"ref":"DeliveryMethod","required":true},
+            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "countryCode": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "minWeightGrams": {"dataType":"double","required":true},
+            "maxWeightGrams": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "fee": {"dataType":"double","required":true},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "EnhancedRegistrationResponse": {
+    "ShippingTariffListResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "user": {"ref":"RegisteredUser","required":true},
-            "token": {"dataType":"string","required":true},
-            "expiresIn": {"dataType":"double","required":true},
-            "expiresAt": {"dataType":"string"},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"ShippingTariff"},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "RegistrationErrorResponse": {
+    "ShippingErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
+            "code": {"dataType":"string"},
             "error": {"dataType":"string","required":true},
-            "code": {"dataType":"string","required":true},
-            "details": {"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string"},"field":{"dataType":"string"},"fields":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}}}},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PersonalInfo": {
+    "ShippingTariffResponse": {
         "dataType": "refObject",
         "properties": {
-            "title": {"dataType":"union","subSchemas":[{"ref":"UserTitle"},{"dataType":"enum","enums":[null]}],"required":true},
-            "firstName": {"dataType":"string","required":true},
-            "lastName": {"dataType":"string","required":true},
-            "birthDate": {"dataType":"string","required":true},
-            "email": {"dataType":"string","required":true},
-            "password": {"dataType":"string","required":true},
-            "phone": {"dataType":"string"},
-            "gender": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["male"]},{"dataType":"enum","enums":["female"]},{"dataType":"enum","enums":["diverse"]},{"dataType":"enum","enums":["prefer_not_to_say"]}]},
-            "preferredCurrency": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["CHF"]},{"dataType":"enum","enums":["EUR"]},{"dataType":"enum","enums":["USD"]},{"dataType":"enum","enums":["GBP"]},{"dataType":"enum","enums":["CAD"]},{"dataType":"enum","enums":["AUD"]}]},
-            "preferredPaymentMethod": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["bank_transfer"]},{"dataType":"enum","enums":["card"]},{"dataType":"enum","enums":["invoice"]}]},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"ShippingTariff","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Record_string.unknown_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{},"additionalProperties":{"dataType":"any"},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "DocumentInfo": {
+    "ShippingTariffCreateRequest": {
         "dataType": "refObject",
         "properties": {
-            "wasProcessed": {"dataType":"boolean","required":true},
-            "originalFilename": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-            "extractedFields": {"ref":"Record_string.unknown_","required":true},
+            "deliveryMethod": {"ref":"DeliveryMethod","required":true},
+            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "minWeightGrams": {"dataType":"double"},
+            "maxWeightGrams": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}]},
+            "fee": {"dataType":"double","required":true},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Consent": {
+    "Partial_ShippingTariffCreateRequest_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"deliveryMethod":{"ref":"DeliveryMethod"},"countryId":{"dataType":"string"},"minWeightGrams":{"dataType":"double"},"maxWeightGrams":{"dataType":"double"},"fee":{"dataType":"double"},"description":{"dataType":"string"}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ShippingTariffUpdateRequest": {
+        "dataType": "refAlias",
+        "type": {"ref":"Partial_ShippingTariffCreateRequest_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ShippingDeleteResponse": {
         "dataType": "refObject",
         "properties": {
-            "agreeToTerms": {"dataType":"boolean","required":true},
-            "termsVersion": {"dataType":"string","required":true},
-            "consentTimestamp": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "EnhancedRegistrationRequest": {
+    "InsuranceTier": {
         "dataType": "refObject",
         "properties": {
-            "personalInfo": {"ref":"PersonalInfo","required":true},
-            "address": {"ref":"Address","required":true},
-            "documentInfo": {"ref":"DocumentInfo"},
-            "consent": {"ref":"Consent","required":true},
+            "id": {"dataType":"string","required":true},
+            "deliveryMethod": {"ref":"DeliveryMethod","required":true},
+            "minValue": {"dataType":"double","required":true},
+            "maxValue": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "rate": {"dataType":"double","required":true},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "EmailCheckResponse": {
+    "InsuranceTierListResponse": {
         "dataType": "refObject",
         "properties": {
-            "exists": {"dataType":"boolean","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"InsuranceTier"},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ResendVerificationResponse": {
+    "InsuranceTierResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "message": {"dataType":"string","required":true},
+            "data": {"ref":"InsuranceTier","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ResendVerificationRequest": {
+    "InsuranceTierCreateRequest": {
         "dataType": "refObject",
         "properties": {
-            "email": {"dataType":"string","required":true},
+            "deliveryMethod": {"ref":"DeliveryMethod","required":true},
+            "minValue": {"dataType":"double"},
+            "maxValue": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}]},
+            "rate": {"dataType":"double","required":true},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "AggregatedReferenceData": {
+    "Partial_InsuranceTierCreateRequest_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"deliveryMethod":{"ref":"DeliveryMethod"},"minValue":{"dataType":"double"},"maxValue":{"dataType":"double"},"rate":{"dataType":"double"},"description":{"dataType":"string"}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "InsuranceTierUpdateRequest": {
+        "dataType": "refAlias",
+        "type": {"ref":"Partial_InsuranceTierCreateRequest_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SavingsPlanExecutionStatus": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["pending"]},{"dataType":"enum","enums":["retrying"]},{"dataType":"enum","enums":["succeeded"]},{"dataType":"enum","enums":["failed"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SavingsPlanExecution": {
         "dataType": "refObject",
         "properties": {
-            "metals": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"symbol":{"dataType":"string","required":true}}},"required":true},
-            "productTypes": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true}}},"required":true},
-            "countries": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"required":true},
-            "weightUnits": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"aliases":{"dataType":"array","array":{"dataType":"string"},"required":true},"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
-            "roles": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
-            "titles": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
-            "producers": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"required":true},
-            "currencies": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"isoNumericCode":{"dataType":"double","required":true},"isoCode3":{"dataType":"string","required":true},"isoCode2":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"required":true},
-            "custodians": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
-            "paymentFrequencies": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"description":{"dataType":"string","required":true},"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
-            "custodyServiceTypes": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"description":{"dataType":"string","required":true},"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
+            "id": {"dataType":"string","required":true},
+            "savingsPlanId": {"dataType":"string","required":true},
+            "userId": {"dataType":"string","required":true},
+            "scheduledFor": {"dataType":"datetime","required":true},
+            "status": {"ref":"SavingsPlanExecutionStatus","required":true},
+            "attempts": {"dataType":"double","required":true},
+            "orderId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "paymentIntentId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "quantity": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "unitPrice": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "chargedAmount": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "chargedCurrency": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "lastError": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "nextRetryAt": {"dataType":"union","subSchemas":[{"dataType":"datetime"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ReferenceDataResponse": {
+    "SavingsPlanExecutionListResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "data": {"ref":"AggregatedReferenceData","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"SavingsPlanExecution"},"required":true},
+            "count": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ReferenceDataErrorResponse": {
+    "SavingsPlanErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
+            "code": {"dataType":"string"},
             "error": {"dataType":"string","required":true},
             "details": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductTypeResponse": {
+    "SavingsPlanFrequency": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["daily"]},{"dataType":"enum","enums":["weekly"]},{"dataType":"enum","enums":["monthly"]},{"dataType":"enum","enums":["quarterly"]},{"dataType":"enum","enums":["yearly"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SavingsPlanStatus": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["paused"]},{"dataType":"enum","enums":["cancelled"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SavingsPlan": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
+            "userId": {"dataType":"string","required":true},
+            "productId": {"dataType":"string","required":true},
+            "productName": {"dataType":"string","required":true},
+            "amount": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
+            "frequency": {"ref":"SavingsPlanFrequency","required":true},
+            "startDate": {"dataType":"datetime","required":true},
+            "nextExecutionAt": {"dataType":"datetime","required":true},
+            "lastExecutionAt": {"dataType":"union","subSchemas":[{"dataType":"datetime"},{"dataType":"enum","enums":[null]}],"required":true},
+            "customerId": {"dataType":"string","required":true},
+            "paymentMethodId": {"dataType":"string","required":true},
+            "custodyServiceId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "status": {"ref":"SavingsPlanStatus","required":true},
             "createdAt": {"dataType":"datetime","required":true},
             "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "StandardPagination": {
+    "SavingsPlanListResponse": {
         "dataType": "refObject",
         "properties": {
-            "page": {"dataType":"double","required":true},
-            "limit": {"dataType":"double","required":true},
-            "total": {"dataType":"double","required":true},
-            "totalPages": {"dataType":"double","required":true},
-            "hasNext": {"dataType":"boolean","required":true},
-            "hasPrev": {"dataType":"boolean","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"SavingsPlan"},"required":true},
+            "count": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductTypesListResponse": {
+    "SavingsPlanResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"StandardPagination","required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"ProductTypeResponse"},"required":true}},"required":true},
+            "data": {"ref":"SavingsPlan","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductTypesErrorResponse": {
+    "CreateSavingsPlanInput": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"string"},
+            "productId": {"dataType":"string","required":true},
+            "amount": {"dataType":"double","required":true},
+            "currency": {"dataType":"string"},
+            "frequency": {"ref":"SavingsPlanFrequency","required":true},
+            "startDate": {"dataType":"string"},
+            "customerId": {"dataType":"string","required":true},
+            "paymentMethodId": {"dataType":"string","required":true},
+            "custodyServiceId": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductTypeRequest": {
+    "UpdateSavingsPlanInput": {
         "dataType": "refObject",
         "properties": {
-            "productTypeName": {"dataType":"string","required":true},
+            "amount": {"dataType":"double"},
+            "frequency": {"ref":"SavingsPlanFrequency"},
+            "paymentMethodId": {"dataType":"string"},
+            "status": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["paused"]}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductApiResponse": {
+    "UserTitle": {
+        "dataType": "refEnum",
+        "enums": ["Herr","Frau","Divers"],
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "Address": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
-            "type": {"dataType":"string","required":true},
-            "productTypeId": {"dataType":"string","required":true},
-            "metal": {"dataType":"string","required":true},
-            "metalId": {"dataType":"string","required":true},
-            "weight": {"dataType":"double","required":true},
-            "weightUnit": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["grams"]},{"dataType":"enum","enums":["troy_ounces"]},{"dataType":"enum","enums":["kilograms"]}],"required":true},
-            "purity": {"dataType":"double","required":true},
-            "price": {"dataType":"double","required":true},
-            "currency": {"dataType":"string","required":true},
-            "producerId": {"dataType":"string","required":true},
-            "producer": {"dataType":"string","required":true},
-            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-            "country": {"dataType":"string","required":true},
-            "year": {"dataType":"double"},
-            "description": {"dataType":"string"},
-            "certifiedProvenance": {"dataType":"boolean","required":true},
-            "imageUrl": {"dataType":"string","required":true},
-            "inStock": {"dataType":"boolean","required":true},
-            "stockQuantity": {"dataType":"double","required":true},
-            "minimumOrderQuantity": {"dataType":"double","required":true},
-            "premiumPercentage": {"dataType":"double"},
-            "diameter": {"dataType":"double"},
-            "thickness": {"dataType":"double"},
-            "mintage": {"dataType":"double"},
-            "certification": {"dataType":"string"},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
+            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "postalCode": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "city": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "state": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "street": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "houseNumber": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "addressLine2": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "poBox": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductListApiResponse": {
+    "EmailVerificationStatus": {
+        "dataType": "refEnum",
+        "enums": ["pending","verified","failed"],
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "IdentityVerificationStatus": {
+        "dataType": "refEnum",
+        "enums": ["pending","verified","failed","rejected"],
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UserProfile": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"dataType":"nestedObjectLiteral","nestedProperties":{"hasPrev":{"dataType":"boolean","required":true},"hasNext":{"dataType":"boolean","required":true},"totalPages":{"dataType":"double","required":true},"total":{"dataType":"double","required":true},"limit":{"dataType":"double","required":true},"page":{"dataType":"double","required":true}},"required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"ProductApiResponse"},"required":true}},"required":true},
-            "message": {"dataType":"string","required":true},
+            "title": {"dataType":"union","subSchemas":[{"ref":"UserTitle"},{"dataType":"enum","enums":[null]}],"required":true},
+            "firstName": {"dataType":"string","required":true},
+            "lastName": {"dataType":"string","required":true},
+            "birthDate": {"dataType":"string","required":true},
+            "phone": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "gender": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "preferredCurrency": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "preferredPaymentMethod": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "address": {"ref":"Address","required":true},
+            "createdAt": {"dataType":"string","required":true},
+            "verificationStatus": {"dataType":"nestedObjectLiteral","nestedProperties":{"identity":{"ref":"IdentityVerificationStatus","required":true},"email":{"ref":"EmailVerificationStatus","required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductErrorResponse": {
+    "RegisteredUser": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"any"},
+            "id": {"dataType":"string","required":true},
+            "email": {"dataType":"string","required":true},
+            "role": {"dataType":"string","required":true},
+            "firstName": {"dataType":"string","required":true},
+            "lastName": {"dataType":"string","required":true},
+            "profile": {"ref":"UserProfile","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductSingleResponse": {
+    "EnhancedRegistrationResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "data": {"ref":"ProductApiResponse","required":true},
-            "message": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "user": {"ref":"RegisteredUser","required":true},
+            "token": {"dataType":"string","required":true},
+            "expiresIn": {"dataType":"double","required":true},
+            "expiresAt": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductPriceDTO": {
+    "RegistrationErrorResponse": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "price": {"dataType":"double","required":true},
-            "currency": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"dataType":"string","required":true},
+            "code": {"dataType":"string","required":true},
+            "details": {"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string"},"field":{"dataType":"string"},"fields":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}}}},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductPriceResponse": {
+    "PersonalInfo": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "data": {"ref":"ProductPriceDTO","required":true},
+            "title": {"dataType":"union","subSchemas":[{"ref":"UserTitle"},{"dataType":"enum","enums":[null]}],"required":true},
+            "firstName": {"dataType":"string","required":true},
+            "lastName": {"dataType":"string","required":true},
+            "birthDate": {"dataType":"string","required":true},
+            "email": {"dataType":"string","required":true},
+            "password": {"dataType":"string","required":true},
+            "phone": {"dataType":"string"},
+            "gender": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["male"]},{"dataType":"enum","enums":["female"]},{"dataType":"enum","enums":["diverse"]},{"dataType":"enum","enums":["prefer_not_to_say"]}]},
+            "preferredCurrency": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["CHF"]},{"dataType":"enum","enums":["EUR"]},{"dataType":"enum","enums":["USD"]},{"dataType":"enum","enums":["GBP"]},{"dataType":"enum","enums":["CAD"]},{"dataType":"enum","enums":["AUD"]}]},
+            "preferredPaymentMethod": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["bank_transfer"]},{"dataType":"enum","enums":["card"]},{"dataType":"enum","enums":["invoice"]}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductPricesResponse": {
+    "Record_string.unknown_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{},"additionalProperties":{"dataType":"any"},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DocumentInfo": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"ProductPriceDTO"},"required":true},
-            "message": {"dataType":"string","required":true},
+            "wasProcessed": {"dataType":"boolean","required":true},
+            "originalFilename": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "extractedFields": {"ref":"Record_string.unknown_","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "BulkPriceRequest": {
+    "Consent": {
         "dataType": "refObject",
         "properties": {
-            "productIds": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "agreeToTerms": {"dataType":"boolean","required":true},
+            "termsVersion": {"dataType":"string","required":true},
+            "consentTimestamp": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CreateProductRequest": {
+    "EnhancedRegistrationRequest": {
         "dataType": "refObject",
         "properties": {
-            "productName": {"dataType":"string","required":true},
-            "productTypeId": {"dataType":"string","required":true,"validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
-            "metalId": {"dataType":"string","required":true,"validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
-            "producerId": {"dataType":"string","required":true,"validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
-            "countryId": {"dataType":"string","validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
-            "fineWeight": {"dataType":"double","required":true},
-            "unitOfMeasure": {"dataType":"string","required":true},
-            "purity": {"dataType":"double","validators":{"minimum":{"value":0},"maximum":{"value":1}}},
-            "price": {"dataType":"double","required":true},
-            "currency": {"dataType":"string","required":true},
-            "productYear": {"dataType":"double"},
-            "description": {"dataType":"string"},
-            "imageFilename": {"dataType":"string"},
-            "inStock": {"dataType":"boolean"},
-            "stockQuantity": {"dataType":"double"},
-            "minimumOrderQuantity": {"dataType":"double"},
-            "premiumPercentage": {"dataType":"double"},
-            "diameter": {"dataType":"double"},
-            "thickness": {"dataType":"double"},
-            "mintage": {"dataType":"double"},
-            "certification": {"dataType":"string"},
+            "personalInfo": {"ref":"PersonalInfo","required":true},
+            "address": {"ref":"Address","required":true},
+            "documentInfo": {"ref":"DocumentInfo"},
+            "consent": {"ref":"Consent","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UpdateProductRequest": {
+    "EmailCheckResponse": {
         "dataType": "refObject",
         "properties": {
-            "productName": {"dataType":"string"},
-            "productTypeId": {"dataType":"string"},
-            "metalId": {"dataType":"string"},
-            "producerId": {"dataType":"string"},
-            "countryId": {"dataType":"string"},
-            "fineWeight": {"dataType":"double"},
-            "unitOfMeasure": {"dataType":"string"},
-            "purity": {"dataType":"double"},
-            "price": {"dataType":"double"},
-            "currency": {"dataType":"string"},
-            "productYear": {"dataType":"double"},
-            "description": {"dataType":"string"},
-            "imageFilename": {"dataType":"string"},
-            "inStock": {"dataType":"boolean"},
-            "stockQuantity": {"dataType":"double"},
-            "minimumOrderQuantity": {"dataType":"double"},
-            "premiumPercentage": {"dataType":"double"},
-            "diameter": {"dataType":"double"},
-            "thickness": {"dataType":"double"},
-            "mintage": {"dataType":"double"},
-            "certification": {"dataType":"string"},
+            "exists": {"dataType":"boolean","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProductDeleteResponse": {
+    "ResendVerificationResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
             "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ValidationResponse": {
+    "ResendVerificationRequest": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "message": {"dataType":"string","required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"validatedData":{"dataType":"any","required":true},"schemaType":{"dataType":"string","required":true}},"required":true},
+            "email": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ImageUploadRequest": {
+    "EmailVerificationResponse": {
         "dataType": "refObject",
         "properties": {
-            "imageBase64": {"dataType":"string","required":true},
-            "contentType": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["image/jpeg"]},{"dataType":"enum","enums":["image/jpg"]},{"dataType":"enum","enums":["image/png"]},{"dataType":"enum","enums":["image/gif"]},{"dataType":"enum","enums":["image/webp"]}],"required":true},
-            "filename": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "userId": {"dataType":"string","required":true},
+            "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProducerRow": {
+    "VerifyEmailRequest": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "producerName": {"dataType":"string","required":true},
-            "status": {"dataType":"string","required":true},
-            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-            "countryName": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-            "websiteURL": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
+            "token": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PaginationInfo": {
+    "AggregatedReferenceData": {
         "dataType": "refObject",
         "properties": {
-            "page": {"dataType":"double","required":true},
-            "limit": {"dataType":"double","required":true},
-            "total": {"dataType":"double","required":true},
-            "totalPages": {"dataType":"double","required":true},
-            "hasNext": {"dataType":"boolean","required":true},
-            "hasPrev": {"dataType":"boolean","required":true},
+            "metals": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"symbol":{"dataType":"string","required":true}}},"required":true},
+            "productTypes": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true}}},"required":true},
+            "countries": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"required":true},
+            "weightUnits": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"aliases":{"dataType":"array","array":{"dataType":"string"},"required":true},"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
+            "roles": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
+            "titles": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
+            "producers": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"required":true},
+            "currencies": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"isoNumericCode":{"dataType":"double","required":true},"isoCode3":{"dataType":"string","required":true},"isoCode2":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"required":true},
+            "custodians": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
+            "paymentFrequencies": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"description":{"dataType":"string","required":true},"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
+            "custodyServiceTypes": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"description":{"dataType":"string","required":true},"displayName":{"dataType":"string","required":true},"value":{"dataType":"string","required":true}}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProducersListResponse": {
+    "ReferenceDataResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"PaginationInfo","required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"ProducerRow"},"required":true}},"required":true},
+            "success": {"dataType":"boolean","required":true},
+            "data": {"ref":"AggregatedReferenceData","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProducersErrorResponse": {
+    "ReferenceDataErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
             "error": {"dataType":"string","required":true},
-            "details": {"dataType":"any"},
+            "details": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProducersApiResponse": {
+    "PricedItemResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"ProducerRow","required":true},
-            "message": {"dataType":"string"},
+            "productId": {"dataType":"string","required":true},
+            "productName": {"dataType":"string","required":true},
+            "quantity": {"dataType":"double","required":true},
+            "unitPrice": {"dataType":"double","required":true},
+            "totalPrice": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
+            "priceSource": {"dataType":"string","required":true},
+            "metalSymbol": {"dataType":"string","required":true},
+            "fineWeightTroyOz": {"dataType":"double","required":true},
+            "spotPricePerTroyOz": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "premiumPercentage": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofProducerCreateRequestSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"websiteURL":{"dataType":"string"},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["inactive"]}]},"countryId":{"dataType":"string"},"producerName":{"dataType":"string","required":true}},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofProducerUpdateRequestSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"websiteURL":{"dataType":"string"},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["inactive"]}]},"countryId":{"dataType":"string"},"producerName":{"dataType":"string"}},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PositionsProductInfo": {
+    "PriceQuoteResponse": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
             "type": {"dataType":"string","required":true},
-            "productTypeId": {"dataType":"string","required":true},
-            "metal": {"dataType":"nestedObjectLiteral","nestedProperties":{"symbol":{"dataType":"string","required":true},"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},
-            "metalId": {"dataType":"string","required":true},
-            "weight": {"dataType":"double","required":true},
-            "weightUnit": {"dataType":"string","required":true},
-            "purity": {"dataType":"double","required":true},
-            "price": {"dataType":"double","required":true},
             "currency": {"dataType":"string","required":true},
-            "producer": {"dataType":"string","required":true},
-            "producerId": {"dataType":"string","required":true},
-            "country": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-            "countryId": {"dataType":"string"},
-            "year": {"dataType":"double"},
-            "description": {"dataType":"string","required":true},
-            "imageUrl": {"dataType":"string","required":true},
-            "inStock": {"dataType":"boolean","required":true},
-            "stockQuantity": {"dataType":"double","required":true},
-            "minimumOrderQuantity": {"dataType":"double","required":true},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
+            "items": {"dataType":"array","array":{"dataType":"refObject","ref":"PricedItemResponse"},"required":true},
+            "subtotal": {"dataType":"double","required":true},
+            "createdAt": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+            "expiresInSeconds": {"dataType":"double","required":true},
+            "redeemedAt": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "orderId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PositionsCustodyInfo": {
+    "QuotesSuccessResponse": {
         "dataType": "refObject",
         "properties": {
-            "custodyServiceId": {"dataType":"string","required":true},
-            "custodyServiceName": {"dataType":"string","required":true},
-            "custodianId": {"dataType":"string","required":true},
-            "custodianName": {"dataType":"string","required":true},
-            "fee": {"dataType":"double","required":true},
-            "paymentFrequency": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"PriceQuoteResponse","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PositionDetail": {
+    "QuotesErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"dataType":"string","required":true},
+            "code": {"dataType":"string"},
+            "details": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "QuotesCreateInput": {
+        "dataType": "refObject",
+        "properties": {
+            "type": {"dataType":"string","required":true},
+            "items": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"quantity":{"dataType":"double","required":true},"productId":{"dataType":"string","required":true}}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ProductTypeResponse": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "userId": {"dataType":"string","required":true},
-            "productId": {"dataType":"string","required":true},
-            "portfolioId": {"dataType":"string","required":true},
-            "product": {"ref":"PositionsProductInfo","required":true},
-            "purchaseDate": {"dataType":"datetime","required":true},
-            "purchasePrice": {"dataType":"double","required":true},
-            "marketPrice": {"dataType":"double","required":true},
-            "quantity": {"dataType":"double","required":true},
-            "custodyServiceId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-            "custody": {"dataType":"union","subSchemas":[{"ref":"PositionsCustodyInfo"},{"dataType":"enum","enums":[null]}],"required":true},
-            "status": {"dataType":"string","required":true},
-            "notes": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
             "createdAt": {"dataType":"datetime","required":true},
             "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PositionsPaginationInfo": {
+    "StandardPagination": {
         "dataType": "refObject",
         "properties": {
             "page": {"dataType":"double","required":true},
@@ -1038,17 +1159,16 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PositionsListResponse": {
+    "ProductTypesListResponse": {
         "dataType": "refObject",
         "properties": {
-            "positions": {"dataType":"array","array":{"dataType":"refObject","ref":"PositionDetail"},"required":true},
-            "pagination": {"ref":"PositionsPaginationInfo","required":true},
-            "filters": {"dataType":"nestedObjectLiteral","nestedProperties":{"status":{"dataType":"string","required":true}}},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"StandardPagination","required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"ProductTypeResponse"},"required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PositionsErrorResponse": {
+    "ProductTypesErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
@@ -1058,289 +1178,335 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofPositionSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"custody":{"dataType":"nestedObjectLiteral","nestedProperties":{"paymentFrequency":{"dataType":"string","required":true},"fee":{"dataType":"double","required":true},"custodianName":{"dataType":"string","required":true},"custodianId":{"dataType":"string","required":true},"custodyServiceName":{"dataType":"string","required":true},"custodyServiceId":{"dataType":"string","required":true}}},"custodyServiceId":{"dataType":"string"},"notes":{"dataType":"string"},"closedDate":{"dataType":"datetime"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["closed"]}],"required":true},"quantity":{"dataType":"double","required":true},"marketPrice":{"dataType":"double","required":true},"purchasePrice":{"dataType":"double","required":true},"purchaseDate":{"dataType":"datetime","required":true},"product":{"dataType":"nestedObjectLiteral","nestedProperties":{"certification":{"dataType":"string"},"mintage":{"dataType":"double"},"thickness":{"dataType":"double"},"diameter":{"dataType":"double"},"stockQuantity":{"dataType":"double"},"imageFilename":{"dataType":"string"},"description":{"dataType":"string"},"year":{"dataType":"double"},"premiumPercentage":{"dataType":"double"},"countryId":{"dataType":"string"},"country":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"minimumOrderQuantity":{"dataType":"double","required":true},"inStock":{"dataType":"boolean","required":true},"imageUrl":{"dataType":"string","required":true},"certifiedProvenance":{"dataType":"boolean","required":true},"currency":{"dataType":"string","required":true},"price":{"dataType":"double","required":true},"purity":{"dataType":"double","required":true},"weightUnit":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["grams"]},{"dataType":"enum","enums":["troy_ounces"]},{"dataType":"enum","enums":["kilograms"]}],"required":true},"weight":{"dataType":"double","required":true},"producerId":{"dataType":"string","required":true},"producer":{"dataType":"string","required":true},"metalId":{"dataType":"string","required":true},"metal":{"dataType":"nestedObjectLiteral","nestedProperties":{"symbol":{"dataType":"string","required":true},"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},"productTypeId":{"dataType":"string","required":true},"type":{"dataType":"string","required":true},"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},"portfolioId":{"dataType":"string","required":true},"productId":{"dataType":"string","required":true},"userId":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PositionResponse": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofPositionSchema_","validators":{}},
+    "ProductTypeRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "productTypeName": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioSummary": {
+    "ProductApiResponse": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "portfolioName": {"dataType":"string","required":true},
-            "ownerId": {"dataType":"string","required":true},
-            "ownerDisplayName": {"dataType":"string"},
-            "ownerName": {"dataType":"string"},
-            "ownerEmail": {"dataType":"string"},
-            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "isActive": {"dataType":"boolean","required":true},
-            "totalValue": {"dataType":"double","required":true},
-            "totalCost": {"dataType":"double","required":true},
-            "totalGainLoss": {"dataType":"double","required":true},
-            "totalGainLossPercentage": {"dataType":"double","required":true},
-            "positionCount": {"dataType":"double","required":true},
-            "lastUpdated": {"dataType":"datetime","required":true},
+            "name": {"dataType":"string","required":true},
+            "type": {"dataType":"string","required":true},
+            "productTypeId": {"dataType":"string","required":true},
+            "metal": {"dataType":"string","required":true},
+            "metalId": {"dataType":"string","required":true},
+            "weight": {"dataType":"double","required":true},
+            "weightUnit": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["grams"]},{"dataType":"enum","enums":["troy_ounces"]},{"dataType":"enum","enums":["kilograms"]}],"required":true},
+            "purity": {"dataType":"double","required":true},
+            "price": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
+            "producerId": {"dataType":"string","required":true},
+            "producer": {"dataType":"string","required":true},
+            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "country": {"dataType":"string","required":true},
+            "year": {"dataType":"double"},
+            "description": {"dataType":"string"},
+            "certifiedProvenance": {"dataType":"boolean","required":true},
+            "imageUrl": {"dataType":"string","required":true},
+            "inStock": {"dataType":"boolean","required":true},
+            "stockQuantity": {"dataType":"double","required":true},
+            "minimumOrderQuantity": {"dataType":"double","required":true},
+            "premiumPercentage": {"dataType":"double"},
+            "diameter": {"dataType":"double"},
+            "thickness": {"dataType":"double"},
+            "mintage": {"dataType":"double"},
+            "certification": {"dataType":"string"},
             "createdAt": {"dataType":"datetime","required":true},
             "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioListResponse": {
+    "ProductListApiResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"dataType":"nestedObjectLiteral","nestedProperties":{"hasPrev":{"dataType":"boolean","required":true},"hasNext":{"dataType":"boolean","required":true},"totalPages":{"dataType":"double","required":true},"total":{"dataType":"double","required":true},"limit":{"dataType":"double","required":true},"page":{"dataType":"double","required":true}},"required":true},"portfolios":{"dataType":"array","array":{"dataType":"refObject","ref":"PortfolioSummary"},"required":true}},"required":true},
+            "success": {"dataType":"boolean","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"dataType":"nestedObjectLiteral","nestedProperties":{"hasPrev":{"dataType":"boolean","required":true},"hasNext":{"dataType":"boolean","required":true},"totalPages":{"dataType":"double","required":true},"total":{"dataType":"double","required":true},"limit":{"dataType":"double","required":true},"page":{"dataType":"double","required":true}},"required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"ProductApiResponse"},"required":true}},"required":true},
+            "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioErrorResponse": {
+    "ProductErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"dataType":"string"},
-            "message": {"dataType":"string"},
-            "errors": {"dataType":"array","array":{"dataType":"any"}},
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"any"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Position": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofPositionSchema_","validators":{}},
+    "ProductSingleResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "data": {"ref":"ProductApiResponse","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioWithPositions": {
+    "ProductPriceDTO": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "portfolioName": {"dataType":"string","required":true},
-            "ownerId": {"dataType":"string","required":true},
-            "ownerDisplayName": {"dataType":"string"},
-            "ownerName": {"dataType":"string"},
-            "ownerEmail": {"dataType":"string"},
-            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
-            "isActive": {"dataType":"boolean","required":true},
-            "totalValue": {"dataType":"double","required":true},
-            "totalCost": {"dataType":"double","required":true},
-            "totalGainLoss": {"dataType":"double","required":true},
-            "totalGainLossPercentage": {"dataType":"double","required":true},
-            "positionCount": {"dataType":"double","required":true},
-            "lastUpdated": {"dataType":"datetime","required":true},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
-            "positions": {"dataType":"array","array":{"dataType":"refAlias","ref":"Position"},"required":true},
+            "price": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioArrayResponse": {
+    "ProductPriceResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"PortfolioWithPositions"},"required":true},
+            "success": {"dataType":"boolean","required":true},
+            "data": {"ref":"ProductPriceDTO","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioSingleResponse": {
+    "ProductPricesResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"portfolio":{"ref":"PortfolioSummary","required":true}},"required":true},
+            "success": {"dataType":"boolean","required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"ProductPriceDTO"},"required":true},
+            "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioWithPositionsResponse": {
+    "BulkPriceRequest": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"PortfolioWithPositions","required":true},
+            "productIds": {"dataType":"array","array":{"dataType":"string"},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CreatePortfolioRequest": {
+    "CreateProductRequest": {
         "dataType": "refObject",
         "properties": {
-            "portfolioName": {"dataType":"string","required":true},
-            "ownerId": {"dataType":"string","required":true},
+            "productName": {"dataType":"string","required":true},
+            "productTypeId": {"dataType":"string","required":true,"validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
+            "metalId": {"dataType":"string","required":true,"validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
+            "producerId": {"dataType":"string","required":true,"validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
+            "countryId": {"dataType":"string","validators":{"pattern":{"errorMsg":"UUID format required","value":"^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$"}}},
+            "fineWeight": {"dataType":"double","required":true},
+            "unitOfMeasure": {"dataType":"string","required":true},
+            "purity": {"dataType":"double","validators":{"minimum":{"value":0},"maximum":{"value":1}}},
+            "price": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
+            "productYear": {"dataType":"double"},
             "description": {"dataType":"string"},
+            "imageFilename": {"dataType":"string"},
+            "inStock": {"dataType":"boolean"},
+            "stockQuantity": {"dataType":"double"},
+            "minimumOrderQuantity": {"dataType":"double"},
+            "premiumPercentage": {"dataType":"double"},
+            "diameter": {"dataType":"double"},
+            "thickness": {"dataType":"double"},
+            "mintage": {"dataType":"double"},
+            "certification": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UpdatePortfolioRequest": {
+    "UpdateProductRequest": {
         "dataType": "refObject",
         "properties": {
-            "portfolioName": {"dataType":"string"},
+            "productName": {"dataType":"string"},
+            "productTypeId": {"dataType":"string"},
+            "metalId": {"dataType":"string"},
+            "producerId": {"dataType":"string"},
+            "countryId": {"dataType":"string"},
+            "fineWeight": {"dataType":"double"},
+            "unitOfMeasure": {"dataType":"string"},
+            "purity": {"dataType":"double"},
+            "price": {"dataType":"double"},
+            "currency": {"dataType":"string"},
+            "productYear": {"dataType":"double"},
             "description": {"dataType":"string"},
-            "isActive": {"dataType":"boolean"},
+            "imageFilename": {"dataType":"string"},
+            "inStock": {"dataType":"boolean"},
+            "stockQuantity": {"dataType":"double"},
+            "minimumOrderQuantity": {"dataType":"double"},
+            "premiumPercentage": {"dataType":"double"},
+            "diameter": {"dataType":"double"},
+            "thickness": {"dataType":"double"},
+            "mintage": {"dataType":"double"},
+            "certification": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PortfolioDeleteResponse": {
+    "ProductDeleteResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
+            "success": {"dataType":"boolean","required":true},
             "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Record_string.string_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{},"validators":{}},
+    "ValidationResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"validatedData":{"dataType":"any","required":true},"schemaType":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofCreatePaymentIntentResponseSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"paymentIntent":{"dataType":"nestedObjectLiteral","nestedProperties":{"refundedAmount":{"dataType":"double"},"refunded":{"dataType":"boolean"},"fees":{"dataType":"double"},"amountReceived":{"dataType":"double"},"metadata":{"ref":"Record_string.string_"},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["processing"]},{"dataType":"enum","enums":["requires_payment_method"]},{"dataType":"enum","enums":["requires_confirmation"]},{"dataType":"enum","enums":["requires_action"]},{"dataType":"enum","enums":["succeeded"]},{"dataType":"enum","enums":["canceled"]},{"dataType":"enum","enums":["requires_capture"]}],"required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true},"clientSecret":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
+    "ImageUploadRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "imageBase64": {"dataType":"string","required":true},
+            "contentType": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["image/jpeg"]},{"dataType":"enum","enums":["image/jpg"]},{"dataType":"enum","enums":["image/png"]},{"dataType":"enum","enums":["image/gif"]},{"dataType":"enum","enums":["image/webp"]}],"required":true},
+            "filename": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CreatePaymentIntentResponse": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofCreatePaymentIntentResponseSchema_","validators":{}},
+    "ProducerRow": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "producerName": {"dataType":"string","required":true},
+            "status": {"dataType":"string","required":true},
+            "countryId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "countryName": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "websiteURL": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofPaymentErrorSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}},"validators":{}},
+    "PaginationInfo": {
+        "dataType": "refObject",
+        "properties": {
+            "page": {"dataType":"double","required":true},
+            "limit": {"dataType":"double","required":true},
+            "total": {"dataType":"double","required":true},
+            "totalPages": {"dataType":"double","required":true},
+            "hasNext": {"dataType":"boolean","required":true},
+            "hasPrev": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PaymentError": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofPaymentErrorSchema_","validators":{}},
+    "ProducersListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"PaginationInfo","required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"ProducerRow"},"required":true}},"required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PaymentErrorResponse": {
+    "ProducersErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"ref":"PaymentError","required":true},
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"any"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofCreatePaymentIntentRequestSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"metadata":{"ref":"Record_string.string_"},"description":{"dataType":"string"},"automaticPaymentMethods":{"dataType":"nestedObjectLiteral","nestedProperties":{"allowRedirects":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["never"]},{"dataType":"enum","enums":["always"]}]},"enabled":{"dataType":"boolean","required":true}}},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string","required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true}},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CreatePaymentIntentRequest": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofCreatePaymentIntentRequestSchema_","validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofConfirmPaymentResponseSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"nextAction":{"dataType":"nestedObjectLiteral","nestedProperties":{"redirectToUrl":{"dataType":"string"},"type":{"dataType":"string","required":true}}},"requiresAction":{"dataType":"boolean"},"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"paymentIntent":{"dataType":"nestedObjectLiteral","nestedProperties":{"refundedAmount":{"dataType":"double"},"refunded":{"dataType":"boolean"},"fees":{"dataType":"double"},"amountReceived":{"dataType":"double"},"metadata":{"ref":"Record_string.string_"},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["processing"]},{"dataType":"enum","enums":["requires_payment_method"]},{"dataType":"enum","enums":["requires_confirmation"]},{"dataType":"enum","enums":["requires_action"]},{"dataType":"enum","enums":["succeeded"]},{"dataType":"enum","enums":["canceled"]},{"dataType":"enum","enums":["requires_capture"]}],"required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true},"clientSecret":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ConfirmPaymentResponse": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofConfirmPaymentResponseSchema_","validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Partial_ConfirmPaymentRequest_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"paymentIntentId":{"dataType":"string"},"paymentMethodId":{"dataType":"string"},"returnUrl":{"dataType":"string"},"useStripeSdk":{"dataType":"boolean"}},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofRetrievePaymentIntentResponseSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"paymentIntent":{"dataType":"nestedObjectLiteral","nestedProperties":{"refundedAmount":{"dataType":"double"},"refunded":{"dataType":"boolean"},"fees":{"dataType":"double"},"amountReceived":{"dataType":"double"},"metadata":{"ref":"Record_string.string_"},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["processing"]},{"dataType":"enum","enums":["requires_payment_method"]},{"dataType":"enum","enums":["requires_confirmation"]},{"dataType":"enum","enums":["requires_action"]},{"dataType":"enum","enums":["succeeded"]},{"dataType":"enum","enums":["canceled"]},{"dataType":"enum","enums":["requires_capture"]}],"required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true},"clientSecret":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "RetrievePaymentIntentResponse": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofRetrievePaymentIntentResponseSchema_","validators":{}},
+    "ProducersApiResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"ProducerRow","required":true},
+            "message": {"dataType":"string"},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofListPaymentMethodsResponseSchema_": {
+    "infer_typeofProducerCreateRequestSchema_": {
         "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"hasMore":{"dataType":"boolean"},"paymentMethods":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"accountLast4":{"dataType":"string"},"bankName":{"dataType":"string"},"expiryYear":{"dataType":"double"},"expiryMonth":{"dataType":"double"},"brand":{"dataType":"string"},"last4":{"dataType":"string"},"isDefault":{"dataType":"boolean"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["card"]},{"dataType":"enum","enums":["bank_transfer"]},{"dataType":"enum","enums":["sepa_debit"]}],"required":true},"id":{"dataType":"string","required":true}}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"websiteURL":{"dataType":"string"},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["inactive"]}]},"countryId":{"dataType":"string"},"producerName":{"dataType":"string","required":true}},"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ListPaymentMethodsResponse": {
+    "infer_typeofProducerUpdateRequestSchema_": {
         "dataType": "refAlias",
-        "type": {"ref":"infer_typeofListPaymentMethodsResponseSchema_","validators":{}},
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"websiteURL":{"dataType":"string"},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["inactive"]}]},"countryId":{"dataType":"string"},"producerName":{"dataType":"string"}},"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrderItemProductResponse": {
+    "PositionsProductInfo": {
         "dataType": "refObject",
         "properties": {
+            "id": {"dataType":"string","required":true},
             "name": {"dataType":"string","required":true},
-            "currentPrice": {"dataType":"double","required":true},
-            "currency": {"dataType":"string","required":true},
+            "type": {"dataType":"string","required":true},
+            "productTypeId": {"dataType":"string","required":true},
+            "metal": {"dataType":"nestedObjectLiteral","nestedProperties":{"symbol":{"dataType":"string","required":true},"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},
+            "metalId": {"dataType":"string","required":true},
             "weight": {"dataType":"double","required":true},
             "weightUnit": {"dataType":"string","required":true},
             "purity": {"dataType":"double","required":true},
-            "year": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
-            "type": {"dataType":"string","required":true},
-            "metal": {"dataType":"string","required":true},
-            "country": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "price": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
             "producer": {"dataType":"string","required":true},
+            "producerId": {"dataType":"string","required":true},
+            "country": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "countryId": {"dataType":"string"},
+            "year": {"dataType":"double"},
+            "description": {"dataType":"string","required":true},
+            "imageUrl": {"dataType":"string","required":true},
+            "inStock": {"dataType":"boolean","required":true},
+            "stockQuantity": {"dataType":"double","required":true},
+            "minimumOrderQuantity": {"dataType":"double","required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrderItemResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "id": {"dataType":"string","required":true},
-            "productId": {"dataType":"string","required":true},
-            "productName": {"dataType":"string","required":true},
-            "quantity": {"dataType":"double","required":true},
-            "unitPrice": {"dataType":"double","required":true},
-            "totalPrice": {"dataType":"double","required":true},
-            "product": {"ref":"OrderItemProductResponse"},
-        },
-        "additionalProperties": false,
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrderCustodyServiceResponse": {
+    "PositionsCustodyInfo": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
+            "custodyServiceId": {"dataType":"string","required":true},
+            "custodyServiceName": {"dataType":"string","required":true},
+            "custodianId": {"dataType":"string","required":true},
+            "custodianName": {"dataType":"string","required":true},
             "fee": {"dataType":"double","required":true},
             "paymentFrequency": {"dataType":"string","required":true},
-            "currency": {"dataType":"string","required":true},
-            "custodian": {"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrderResponse": {
+    "PositionDetail": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
             "userId": {"dataType":"string","required":true},
-            "type": {"dataType":"string","required":true},
+            "productId": {"dataType":"string","required":true},
+            "portfolioId": {"dataType":"string","required":true},
+            "product": {"ref":"PositionsProductInfo","required":true},
+            "purchaseDate": {"dataType":"datetime","required":true},
+            "purchasePrice": {"dataType":"double","required":true},
+            "marketPrice": {"dataType":"double","required":true},
+            "quantity": {"dataType":"double","required":true},
+            "custodyServiceId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "custody": {"dataType":"union","subSchemas":[{"ref":"PositionsCustodyInfo"},{"dataType":"enum","enums":[null]}],"required":true},
             "status": {"dataType":"string","required":true},
-            "orderNumber": {"dataType":"string","required":true},
-            "items": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderItemResponse"},"required":true},
-            "currency": {"dataType":"string","required":true},
-            "subtotal": {"dataType":"double","required":true},
-            "taxes": {"dataType":"double","required":true},
-            "totalAmount": {"dataType":"double","required":true},
-            "custodyService": {"dataType":"union","subSchemas":[{"ref":"OrderCustodyServiceResponse"},{"dataType":"enum","enums":[null]}]},
-            "createdAt": {"dataType":"string","required":true},
-            "updatedAt": {"dataType":"string","required":true},
+            "notes": {"dataType":"string","required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersPaginationInfo": {
+    "PositionsPaginationInfo": {
         "dataType": "refObject",
         "properties": {
             "page": {"dataType":"double","required":true},
@@ -1353,18 +1519,17 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersListResponse": {
+    "PositionsListResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "orders": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderResponse"},"required":true},
-            "pagination": {"ref":"OrdersPaginationInfo","required":true},
-            "user": {"dataType":"nestedObjectLiteral","nestedProperties":{"id":{"dataType":"string","required":true}}},
+            "positions": {"dataType":"array","array":{"dataType":"refObject","ref":"PositionDetail"},"required":true},
+            "pagination": {"ref":"PositionsPaginationInfo","required":true},
+            "filters": {"dataType":"nestedObjectLiteral","nestedProperties":{"status":{"dataType":"string","required":true}}},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersErrorResponse": {
+    "PositionsErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
@@ -1374,846 +1539,3696 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersAdminStatistics": {
-        "dataType": "refObject",
-        "properties": {
-            "totalOrders": {"dataType":"double","required":true},
-            "pendingOrders": {"dataType":"double","required":true},
-            "processingOrders": {"dataType":"double","required":true},
-            "shippedOrders": {"dataType":"double","required":true},
-            "deliveredOrders": {"dataType":"double","required":true},
-            "cancelledOrders": {"dataType":"double","required":true},
-            "uniqueUsers": {"dataType":"double","required":true},
-        },
-        "additionalProperties": false,
+    "infer_typeofPositionSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"custody":{"dataType":"nestedObjectLiteral","nestedProperties":{"paymentFrequency":{"dataType":"string","required":true},"fee":{"dataType":"double","required":true},"custodianName":{"dataType":"string","required":true},"custodianId":{"dataType":"string","required":true},"custodyServiceName":{"dataType":"string","required":true},"custodyServiceId":{"dataType":"string","required":true}}},"custodyServiceId":{"dataType":"string"},"notes":{"dataType":"string"},"closedDate":{"dataType":"datetime"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["active"]},{"dataType":"enum","enums":["closed"]}],"required":true},"quantity":{"dataType":"double","required":true},"marketPrice":{"dataType":"double","required":true},"purchasePrice":{"dataType":"double","required":true},"purchaseDate":{"dataType":"datetime","required":true},"product":{"dataType":"nestedObjectLiteral","nestedProperties":{"certification":{"dataType":"string"},"mintage":{"dataType":"double"},"thickness":{"dataType":"double"},"diameter":{"dataType":"double"},"stockQuantity":{"dataType":"double"},"imageFilename":{"dataType":"string"},"description":{"dataType":"string"},"year":{"dataType":"double"},"premiumPercentage":{"dataType":"double"},"countryId":{"dataType":"string"},"country":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"minimumOrderQuantity":{"dataType":"double","required":true},"inStock":{"dataType":"boolean","required":true},"imageUrl":{"dataType":"string","required":true},"certifiedProvenance":{"dataType":"boolean","required":true},"currency":{"dataType":"string","required":true},"price":{"dataType":"double","required":true},"purity":{"dataType":"double","required":true},"weightUnit":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["grams"]},{"dataType":"enum","enums":["troy_ounces"]},{"dataType":"enum","enums":["kilograms"]}],"required":true},"weight":{"dataType":"double","required":true},"producerId":{"dataType":"string","required":true},"producer":{"dataType":"string","required":true},"metalId":{"dataType":"string","required":true},"metal":{"dataType":"nestedObjectLiteral","nestedProperties":{"symbol":{"dataType":"string","required":true},"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},"productTypeId":{"dataType":"string","required":true},"type":{"dataType":"string","required":true},"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},"portfolioId":{"dataType":"string","required":true},"productId":{"dataType":"string","required":true},"userId":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersAdminResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "orders": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderResponse"},"required":true},
-            "pagination": {"ref":"OrdersPaginationInfo","required":true},
-            "statistics": {"ref":"OrdersAdminStatistics","required":true},
-            "filters": {"dataType":"nestedObjectLiteral","nestedProperties":{"userId":{"dataType":"string"},"type":{"dataType":"string"},"status":{"dataType":"string"}}},
-            "adminContext": {"dataType":"nestedObjectLiteral","nestedProperties":{"role":{"dataType":"string","required":true},"requestedBy":{"dataType":"string","required":true}},"required":true},
-        },
-        "additionalProperties": false,
+    "PositionResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofPositionSchema_","validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersCreateResponse": {
+    "PortfolioSummary": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"any","required":true},
-            "message": {"dataType":"string","required":true},
+            "id": {"dataType":"string","required":true},
+            "portfolioName": {"dataType":"string","required":true},
+            "ownerId": {"dataType":"string","required":true},
+            "ownerDisplayName": {"dataType":"string"},
+            "ownerName": {"dataType":"string"},
+            "ownerEmail": {"dataType":"string"},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "isActive": {"dataType":"boolean","required":true},
+            "totalValue": {"dataType":"double","required":true},
+            "totalCost": {"dataType":"double","required":true},
+            "totalGainLoss": {"dataType":"double","required":true},
+            "totalGainLossPercentage": {"dataType":"double","required":true},
+            "positionCount": {"dataType":"double","required":true},
+            "lastUpdated": {"dataType":"datetime","required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersCreateInput": {
+    "PortfolioListResponse": {
         "dataType": "refObject",
         "properties": {
-            "type": {"dataType":"string","required":true},
-            "items": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"quantity":{"dataType":"double","required":true},"productId":{"dataType":"string","required":true}}},"required":true},
-            "custodyServiceId": {"dataType":"string"},
-            "notes": {"dataType":"string"},
-            "currency": {"dataType":"string"},
-            "source": {"dataType":"string"},
-            "userId": {"dataType":"string"},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"dataType":"nestedObjectLiteral","nestedProperties":{"hasPrev":{"dataType":"boolean","required":true},"hasNext":{"dataType":"boolean","required":true},"totalPages":{"dataType":"double","required":true},"total":{"dataType":"double","required":true},"limit":{"dataType":"double","required":true},"page":{"dataType":"double","required":true}},"required":true},"portfolios":{"dataType":"array","array":{"dataType":"refObject","ref":"PortfolioSummary"},"required":true},"currency":{"dataType":"string"}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrderDetailResponse": {
+    "PortfolioErrorResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"OrderResponse","required":true},
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"dataType":"string"},
             "message": {"dataType":"string"},
+            "errors": {"dataType":"array","array":{"dataType":"any"}},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "DetailedOrderUserResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "email": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-        },
-        "additionalProperties": false,
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "DetailedOrderCustodianResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "name": {"dataType":"string","required":true},
-            "email": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
-        },
-        "additionalProperties": false,
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "DetailedOrderCustodyServiceResponse": {
+    "Position": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofPositionSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PortfolioWithPositions": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
-            "fee": {"dataType":"double","required":true},
-            "paymentFrequency": {"dataType":"string","required":true},
-            "currency": {"dataType":"string","required":true},
-            "custodian": {"ref":"DetailedOrderCustodianResponse","required":true},
-        },
-        "additionalProperties": false,
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "DetailedOrderData": {
-        "dataType": "refObject",
-        "properties": {
-            "id": {"dataType":"string","required":true},
-            "userId": {"dataType":"string","required":true},
-            "type": {"dataType":"string","required":true},
-            "status": {"dataType":"string","required":true},
-            "orderNumber": {"dataType":"string","required":true},
-            "currency": {"dataType":"string","required":true},
-            "paymentStatus": {"dataType":"string","required":true},
-            "items": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderItemResponse"},"required":true},
-            "subtotal": {"dataType":"double","required":true},
-            "taxes": {"dataType":"double","required":true},
-            "totalAmount": {"dataType":"double","required":true},
-            "user": {"ref":"DetailedOrderUserResponse","required":true},
-            "custodyService": {"dataType":"union","subSchemas":[{"ref":"DetailedOrderCustodyServiceResponse"},{"dataType":"enum","enums":[null]}],"required":true},
+            "portfolioName": {"dataType":"string","required":true},
+            "ownerId": {"dataType":"string","required":true},
+            "ownerDisplayName": {"dataType":"string"},
+            "ownerName": {"dataType":"string"},
+            "ownerEmail": {"dataType":"string"},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}]},
+            "isActive": {"dataType":"boolean","required":true},
+            "totalValue": {"dataType":"double","required":true},
+            "totalCost": {"dataType":"double","required":true},
+            "totalGainLoss": {"dataType":"double","required":true},
+            "totalGainLossPercentage": {"dataType":"double","required":true},
+            "positionCount": {"dataType":"double","required":true},
+            "lastUpdated": {"dataType":"datetime","required":true},
             "createdAt": {"dataType":"datetime","required":true},
             "updatedAt": {"dataType":"datetime","required":true},
+            "positions": {"dataType":"array","array":{"dataType":"refAlias","ref":"Position"},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "DetailedOrderResponse": {
+    "PortfolioArrayResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"DetailedOrderData","required":true},
-            "message": {"dataType":"string","required":true},
+            "currency": {"dataType":"string"},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"PortfolioWithPositions"},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersUpdateResponse": {
+    "PortfolioSingleResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"any","required":true},
-            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"portfolio":{"ref":"PortfolioSummary","required":true},"currency":{"dataType":"string"}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersUpdateInput": {
-        "dataType": "refObject",
-        "properties": {
-            "type": {"dataType":"string"},
-            "status": {"dataType":"string"},
-            "notes": {"dataType":"string"},
-        },
-        "additionalProperties": false,
+    "ValuationPriceSource": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["market"]},{"dataType":"enum","enums":["position"]}],"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersDeleteResponse": {
+    "PositionValuation": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "message": {"dataType":"string","required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"deletedAt":{"dataType":"string","required":true},"deletedBy":{"dataType":"string","required":true},"deletedOrderItems":{"dataType":"double","required":true},"orderId":{"dataType":"string","required":true}},"required":true},
+            "currentValue": {"dataType":"double","required":true},
+            "costBasis": {"dataType":"double","required":true},
+            "unrealizedPnL": {"dataType":"double","required":true},
+            "unrealizedPnLPercentage": {"dataType":"double","required":true},
+            "positionId": {"dataType":"string","required":true},
+            "productId": {"dataType":"string","required":true},
+            "productName": {"dataType":"string","required":true},
+            "metalSymbol": {"dataType":"string","required":true},
+            "metalName": {"dataType":"string","required":true},
+            "quantity": {"dataType":"double","required":true},
+            "fineWeightTroyOz": {"dataType":"double","required":true},
+            "spotPricePerTroyOz": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "unitValue": {"dataType":"double","required":true},
+            "priceSource": {"ref":"ValuationPriceSource","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrdersCancelResponse": {
+    "MetalValuation": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "message": {"dataType":"string","required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"order":{"dataType":"any","required":true},"cancelledAt":{"dataType":"string","required":true},"cancelledBy":{"dataType":"string","required":true},"newStatus":{"dataType":"string","required":true},"previousStatus":{"dataType":"string","required":true},"orderId":{"dataType":"string","required":true}},"required":true},
+            "currentValue": {"dataType":"double","required":true},
+            "costBasis": {"dataType":"double","required":true},
+            "unrealizedPnL": {"dataType":"double","required":true},
+            "unrealizedPnLPercentage": {"dataType":"double","required":true},
+            "metalSymbol": {"dataType":"string","required":true},
+            "metalName": {"dataType":"string","required":true},
+            "positionCount": {"dataType":"double","required":true},
+            "fineWeightTroyOz": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrderStatusRow": {
+    "ValuationFigures": {
         "dataType": "refObject",
         "properties": {
-            "orderstatus": {"dataType":"string","required":true},
+            "currentValue": {"dataType":"double","required":true},
+            "costBasis": {"dataType":"double","required":true},
+            "unrealizedPnL": {"dataType":"double","required":true},
+            "unrealizedPnLPercentage": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "OrderStatusErrorResponse": {
+    "PortfolioValuation": {
         "dataType": "refObject",
         "properties": {
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"string"},
+            "portfolioId": {"dataType":"string","required":true},
+            "currency": {"dataType":"string","required":true},
+            "valuedAt": {"dataType":"datetime","required":true},
+            "positions": {"dataType":"array","array":{"dataType":"refObject","ref":"PositionValuation"},"required":true},
+            "metals": {"dataType":"array","array":{"dataType":"refObject","ref":"MetalValuation"},"required":true},
+            "totals": {"dataType":"intersection","subSchemas":[{"ref":"ValuationFigures"},{"dataType":"nestedObjectLiteral","nestedProperties":{"fineWeightTroyOz":{"dataType":"double","required":true},"positionCount":{"dataType":"double","required":true}}}],"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MetalResponse": {
+    "PortfolioWithPositionsResponse": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
-            "symbol": {"dataType":"string"},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"intersection","subSchemas":[{"ref":"PortfolioWithPositions"},{"dataType":"nestedObjectLiteral","nestedProperties":{"valuation":{"ref":"PortfolioValuation"}}}],"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MetalsListResponse": {
+    "PortfolioValuationResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"StandardPagination","required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"MetalResponse"},"required":true}},"required":true},
+            "data": {"ref":"PortfolioValuation","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MetalsErrorResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"string"},
-        },
-        "additionalProperties": false,
+    "PerformanceInterval": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["day"]},{"dataType":"enum","enums":["week"]},{"dataType":"enum","enums":["month"]}],"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MetalRequest": {
+    "PerformancePoint": {
         "dataType": "refObject",
         "properties": {
-            "metalName": {"dataType":"string","required":true},
+            "date": {"dataType":"datetime","required":true},
+            "marketValue": {"dataType":"double","required":true},
+            "netInvested": {"dataType":"double","required":true},
+            "unrealizedPnL": {"dataType":"double","required":true},
+            "unrealizedPnLPercentage": {"dataType":"double","required":true},
+            "fineWeightTroyOz": {"dataType":"double","required":true},
+            "fullyPriced": {"dataType":"boolean","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MarketPrice": {
+    "PortfolioPerformance": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "metalId": {"dataType":"string","required":true},
-            "metalSymbol": {"dataType":"string"},
-            "metalName": {"dataType":"string"},
-            "providerId": {"dataType":"string","required":true},
-            "providerName": {"dataType":"string"},
-            "pricePerTroyOz": {"dataType":"double","required":true},
+            "portfolioId": {"dataType":"string","required":true},
             "currency": {"dataType":"string","required":true},
-            "bid": {"dataType":"double"},
-            "ask": {"dataType":"double"},
-            "high24h": {"dataType":"double"},
-            "low24h": {"dataType":"double"},
-            "change24h": {"dataType":"double"},
-            "changePercent24h": {"dataType":"double"},
-            "timestamp": {"dataType":"datetime","required":true},
-            "createdAt": {"dataType":"datetime"},
-            "updatedAt": {"dataType":"datetime"},
+            "interval": {"ref":"PerformanceInterval","required":true},
+            "from": {"dataType":"datetime","required":true},
+            "to": {"dataType":"datetime","required":true},
+            "points": {"dataType":"array","array":{"dataType":"refObject","ref":"PerformancePoint"},"required":true},
+            "summary": {"dataType":"nestedObjectLiteral","nestedProperties":{"valueChangePercentage":{"dataType":"double","required":true},"valueChange":{"dataType":"double","required":true},"endValue":{"dataType":"double","required":true},"startValue":{"dataType":"double","required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "SinglePriceResponse": {
+    "PortfolioPerformanceResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"MarketPrice","required":true},
-        },
-        "additionalProperties": false,
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MarketDataErrorResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"string"},
+            "data": {"ref":"PortfolioPerformance","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Record_string.MarketPrice_": {
+    "TaxLotMethod": {
         "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{},"additionalProperties":{"ref":"MarketPrice"},"validators":{}},
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["fifo"]},{"dataType":"enum","enums":["lifo"]},{"dataType":"enum","enums":["average"]}],"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MultiplePricesResponse": {
+    "RealizedGainDisposal": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"Record_string.MarketPrice_","required":true},
+            "id": {"dataType":"string","required":true},
+            "sellTransactionId": {"dataType":"string","required":true},
+            "productId": {"dataType":"string","required":true},
+            "productName": {"dataType":"string","required":true},
+            "metalSymbol": {"dataType":"string","required":true},
+            "method": {"ref":"TaxLotMethod","required":true},
+            "quantity": {"dataType":"double","required":true},
+            "acquiredAt": {"dataType":"datetime","required":true},
+            "disposedAt": {"dataType":"datetime","required":true},
+            "holdingPeriodDays": {"dataType":"double","required":true},
+            "holdingPeriod": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["short"]},{"dataType":"enum","enums":["long"]}],"required":true},
+            "proceeds": {"dataType":"double","required":true},
+            "costBasis": {"dataType":"double","required":true},
+            "realizedGain": {"dataType":"double","required":true},
+            "matchedToLot": {"dataType":"boolean","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PriceHistory": {
+    "RealizedGainsReport": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "metalId": {"dataType":"string","required":true},
-            "metalSymbol": {"dataType":"string"},
-            "providerId": {"dataType":"string","required":true},
-            "pricePerTroyOz": {"dataType":"double","required":true},
-            "currency": {"dataType":"string","required":true},
-            "bid": {"dataType":"double"},
-            "ask": {"dataType":"double"},
-            "high": {"dataType":"double"},
-            "low": {"dataType":"double"},
-            "open": {"dataType":"double"},
-            "close": {"dataType":"double"},
-            "volume": {"dataType":"double"},
-            "timestamp": {"dataType":"datetime","required":true},
-            "createdAt": {"dataType":"datetime"},
+            "portfolioId": {"dataType":"string","required":true},
+            "year": {"dataType":"double","required":true},
+            "disposals": {"dataType":"array","array":{"dataType":"refObject","ref":"RealizedGainDisposal"},"required":true},
+            "totals": {"dataType":"nestedObjectLiteral","nestedProperties":{"longTermGain":{"dataType":"double","required":true},"shortTermGain":{"dataType":"double","required":true},"realizedGain":{"dataType":"double","required":true},"costBasis":{"dataType":"double","required":true},"proceeds":{"dataType":"double","required":true},"disposalCount":{"dataType":"double","required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "HistoryResponse": {
+    "PortfolioRealizedGainsResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"PriceHistory"},"required":true},
-            "count": {"dataType":"double","required":true},
+            "data": {"ref":"RealizedGainsReport","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PriceUpdateResult": {
+    "CreatePortfolioRequest": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "provider": {"dataType":"string","required":true},
-            "updatedMetals": {"dataType":"array","array":{"dataType":"string"},"required":true},
-            "errors": {"dataType":"array","array":{"dataType":"string"},"required":true},
-            "timestamp": {"dataType":"datetime","required":true},
+            "portfolioName": {"dataType":"string","required":true},
+            "ownerId": {"dataType":"string","required":true},
+            "description": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UpdateResponse": {
+    "UpdatePortfolioRequest": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"PriceUpdateResult","required":true},
+            "portfolioName": {"dataType":"string"},
+            "description": {"dataType":"string"},
+            "isActive": {"dataType":"boolean"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UpdateErrorResponse": {
+    "PortfolioDeleteResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"array","array":{"dataType":"string"}},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "MarketDataProvider": {
-        "dataType": "refObject",
-        "properties": {
-            "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
-            "apiKeyEnvVar": {"dataType":"string","required":true},
-            "baseUrl": {"dataType":"string","required":true},
-            "isActive": {"dataType":"boolean","required":true},
-            "rateLimitPerMinute": {"dataType":"double","required":true},
-            "priority": {"dataType":"double","required":true},
-            "lastSuccess": {"dataType":"datetime"},
-            "lastFailure": {"dataType":"datetime"},
-            "failureCount": {"dataType":"double","required":true},
-            "createdAt": {"dataType":"datetime"},
-            "updatedAt": {"dataType":"datetime"},
-            "createdBy": {"dataType":"string"},
-            "updatedBy": {"dataType":"string"},
-        },
-        "additionalProperties": false,
+    "Record_string.string_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{},"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ProvidersResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"MarketDataProvider"},"required":true},
-        },
-        "additionalProperties": false,
+    "infer_typeofCreatePaymentIntentResponseSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"paymentIntent":{"dataType":"nestedObjectLiteral","nestedProperties":{"refundedAmount":{"dataType":"double"},"refunded":{"dataType":"boolean"},"fees":{"dataType":"double"},"amountReceived":{"dataType":"double"},"metadata":{"ref":"Record_string.string_"},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["processing"]},{"dataType":"enum","enums":["requires_payment_method"]},{"dataType":"enum","enums":["requires_confirmation"]},{"dataType":"enum","enums":["requires_action"]},{"dataType":"enum","enums":["succeeded"]},{"dataType":"enum","enums":["canceled"]},{"dataType":"enum","enums":["requires_capture"]}],"required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true},"clientSecret":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CacheCleanupResponse": {
+    "CreatePaymentIntentResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofCreatePaymentIntentResponseSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "infer_typeofPaymentErrorSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PaymentError": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofPaymentErrorSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PaymentErrorResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "message": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"ref":"PaymentError","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyServiceDTO": {
-        "dataType": "refObject",
-        "properties": {
-            "id": {"dataType":"string","required":true},
-            "custodyServiceName": {"dataType":"string","required":true},
-            "custodianId": {"dataType":"string","required":true},
-            "custodianName": {"dataType":"string","required":true},
-            "fee": {"dataType":"double","required":true},
-            "paymentFrequency": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["monthly"]},{"dataType":"enum","enums":["quarterly"]},{"dataType":"enum","enums":["annual"]},{"dataType":"enum","enums":["onetime"]}],"required":true},
-            "currencyId": {"dataType":"string","required":true},
-            "currency": {"dataType":"string","required":true},
-            "minWeight": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
-            "maxWeight": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
-        },
-        "additionalProperties": false,
+    "infer_typeofCreatePaymentIntentRequestSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"metadata":{"ref":"Record_string.string_"},"description":{"dataType":"string"},"automaticPaymentMethods":{"dataType":"nestedObjectLiteral","nestedProperties":{"allowRedirects":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["never"]},{"dataType":"enum","enums":["always"]}]},"enabled":{"dataType":"boolean","required":true}}},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string","required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true}},"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyServiceListResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodyServiceDTO"},"required":true},
-            "total": {"dataType":"double","required":true},
-        },
-        "additionalProperties": false,
+    "CreatePaymentIntentRequest": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofCreatePaymentIntentRequestSchema_","validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyErrorResponse": {
-        "dataType": "refObject",
-        "properties": {
-            "success": {"dataType":"enum","enums":[false],"required":true},
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"nestedObjectLiteral","nestedProperties":{"fields":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}}}},
-        },
-        "additionalProperties": false,
+    "infer_typeofConfirmPaymentResponseSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"nextAction":{"dataType":"nestedObjectLiteral","nestedProperties":{"redirectToUrl":{"dataType":"string"},"type":{"dataType":"string","required":true}}},"requiresAction":{"dataType":"boolean"},"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"paymentIntent":{"dataType":"nestedObjectLiteral","nestedProperties":{"refundedAmount":{"dataType":"double"},"refunded":{"dataType":"boolean"},"fees":{"dataType":"double"},"amountReceived":{"dataType":"double"},"metadata":{"ref":"Record_string.string_"},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["processing"]},{"dataType":"enum","enums":["requires_payment_method"]},{"dataType":"enum","enums":["requires_confirmation"]},{"dataType":"enum","enums":["requires_action"]},{"dataType":"enum","enums":["succeeded"]},{"dataType":"enum","enums":["canceled"]},{"dataType":"enum","enums":["requires_capture"]}],"required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true},"clientSecret":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyPaginationInfo": {
+    "ConfirmPaymentResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofConfirmPaymentResponseSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "Partial_ConfirmPaymentRequest_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"paymentIntentId":{"dataType":"string"},"paymentMethodId":{"dataType":"string"},"returnUrl":{"dataType":"string"},"useStripeSdk":{"dataType":"boolean"}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "infer_typeofRetrievePaymentIntentResponseSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"paymentIntent":{"dataType":"nestedObjectLiteral","nestedProperties":{"refundedAmount":{"dataType":"double"},"refunded":{"dataType":"boolean"},"fees":{"dataType":"double"},"amountReceived":{"dataType":"double"},"metadata":{"ref":"Record_string.string_"},"paymentMethodId":{"dataType":"string"},"customerId":{"dataType":"string"},"orderId":{"dataType":"string"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"status":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["processing"]},{"dataType":"enum","enums":["requires_payment_method"]},{"dataType":"enum","enums":["requires_confirmation"]},{"dataType":"enum","enums":["requires_action"]},{"dataType":"enum","enums":["succeeded"]},{"dataType":"enum","enums":["canceled"]},{"dataType":"enum","enums":["requires_capture"]}],"required":true},"currency":{"dataType":"string","required":true},"amount":{"dataType":"double","required":true},"clientSecret":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RetrievePaymentIntentResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofRetrievePaymentIntentResponseSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "infer_typeofListPaymentMethodsResponseSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"error":{"dataType":"nestedObjectLiteral","nestedProperties":{"declineCode":{"dataType":"string"},"param":{"dataType":"string"},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["validation_error"]},{"dataType":"enum","enums":["card_error"]},{"dataType":"enum","enums":["api_error"]},{"dataType":"enum","enums":["authentication_error"]}],"required":true},"message":{"dataType":"string","required":true},"code":{"dataType":"string","required":true}}},"hasMore":{"dataType":"boolean"},"paymentMethods":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"accountLast4":{"dataType":"string"},"bankName":{"dataType":"string"},"expiryYear":{"dataType":"double"},"expiryMonth":{"dataType":"double"},"brand":{"dataType":"string"},"last4":{"dataType":"string"},"isDefault":{"dataType":"boolean"},"updatedAt":{"dataType":"datetime","required":true},"createdAt":{"dataType":"datetime","required":true},"type":{"dataType":"union","subSchemas":[{"dataType":"enum","enums":["card"]},{"dataType":"enum","enums":["bank_transfer"]},{"dataType":"enum","enums":["sepa_debit"]}],"required":true},"id":{"dataType":"string","required":true}}}},"success":{"dataType":"boolean","required":true}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ListPaymentMethodsResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofListPaymentMethodsResponseSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OrderItemProductResponse": {
         "dataType": "refObject",
         "properties": {
-            "page": {"dataType":"double","required":true},
-            "limit": {"dataType":"double","required":true},
-            "total": {"dataType":"double","required":true},
-            "totalPages": {"dataType":"double","required":true},
-            "hasNext": {"dataType":"boolean","required":true},
-            "hasPrev": {"dataType":"boolean","required":true},
+            "name": {"dataType":"string","required":true},
+            "currentPrice": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
+            "weight": {"dataType":"double","required":true},
+            "weightUnit": {"dataType":"string","required":true},
+            "purity": {"dataType":"double","required":true},
+            "year": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "type": {"dataType":"string","required":true},
+            "metal": {"dataType":"string","required":true},
+            "country": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "producer": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyServicePaginatedResponse": {
+    "OrderItemResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"CustodyPaginationInfo","required":true},"custodyServices":{"dataType":"array","array":{"dataType":"refObject","ref":"CustodyServiceDTO"},"required":true}},"required":true},
+            "id": {"dataType":"string","required":true},
+            "productId": {"dataType":"string","required":true},
+            "productName": {"dataType":"string","required":true},
+            "quantity": {"dataType":"double","required":true},
+            "unitPrice": {"dataType":"double","required":true},
+            "totalPrice": {"dataType":"double","required":true},
+            "product": {"ref":"OrderItemProductResponse"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "PaymentFrequency": {
-        "dataType": "refAlias",
-        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["monthly"]},{"dataType":"enum","enums":["quarterly"]},{"dataType":"enum","enums":["annual"]},{"dataType":"enum","enums":["onetime"]}],"validators":{}},
-    },
-    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyServiceResponse": {
+    "OrderFees": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"CustodyServiceDTO","required":true},
-            "message": {"dataType":"string"},
+            "processing": {"dataType":"double","required":true},
+            "shipping": {"dataType":"double","required":true},
+            "insurance": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyServiceCreateRequest": {
+    "OrderCustodyServiceResponse": {
         "dataType": "refObject",
         "properties": {
-            "serviceName": {"dataType":"string","required":true},
-            "custodianId": {"dataType":"string","required":true},
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
             "fee": {"dataType":"double","required":true},
-            "paymentFrequency": {"ref":"PaymentFrequency","required":true},
+            "paymentFrequency": {"dataType":"string","required":true},
             "currency": {"dataType":"string","required":true},
-            "maxWeight": {"dataType":"double"},
+            "custodian": {"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyServiceUpdateRequest": {
+    "OrderResponse": {
         "dataType": "refObject",
         "properties": {
-            "serviceName": {"dataType":"string"},
-            "custodianId": {"dataType":"string"},
-            "fee": {"dataType":"double"},
-            "paymentFrequency": {"ref":"PaymentFrequency"},
-            "currency": {"dataType":"string"},
-            "maxWeight": {"dataType":"double"},
+            "id": {"dataType":"string","required":true},
+            "userId": {"dataType":"string","required":true},
+            "type": {"dataType":"string","required":true},
+            "status": {"dataType":"string","required":true},
+            "orderNumber": {"dataType":"string","required":true},
+            "items": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderItemResponse"},"required":true},
+            "currency": {"dataType":"string","required":true},
+            "subtotal": {"dataType":"double","required":true},
+            "fees": {"ref":"OrderFees"},
+            "taxes": {"dataType":"double","required":true},
+            "totalAmount": {"dataType":"double","required":true},
+            "custodyService": {"dataType":"union","subSchemas":[{"ref":"OrderCustodyServiceResponse"},{"dataType":"enum","enums":[null]}]},
+            "createdAt": {"dataType":"string","required":true},
+            "updatedAt": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodyServiceDeleteResponse": {
+    "OrdersPaginationInfo": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "message": {"dataType":"string","required":true},
+            "page": {"dataType":"double","required":true},
+            "limit": {"dataType":"double","required":true},
+            "total": {"dataType":"double","required":true},
+            "totalPages": {"dataType":"double","required":true},
+            "hasNext": {"dataType":"boolean","required":true},
+            "hasPrev": {"dataType":"boolean","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianWithServices": {
+    "OrdersListResponse": {
         "dataType": "refObject",
         "properties": {
-            "custodianId": {"dataType":"string","required":true},
-            "custodianName": {"dataType":"string","required":true},
-            "services": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodyServiceDTO"},"required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "orders": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderResponse"},"required":true},
+            "pagination": {"ref":"OrdersPaginationInfo","required":true},
+            "user": {"dataType":"nestedObjectLiteral","nestedProperties":{"id":{"dataType":"string","required":true}}},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodiansWithServicesResponse": {
+    "OrderStatusTransitionDetails": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodianWithServices"},"required":true},
+            "currentStatus": {"dataType":"string","required":true},
+            "requestedStatus": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "allowedNextStatuses": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "reason": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianDTO": {
-        "dataType": "refObject",
-        "properties": {
-            "id": {"dataType":"string","required":true},
-            "name": {"dataType":"string","required":true},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
-        },
-        "additionalProperties": false,
+    "CustodyWeightErrorCode": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["CUSTODY_MAX_WEIGHT_EXCEEDED"]},{"dataType":"enum","enums":["CUSTODY_MIN_WEIGHT_NOT_MET"]}],"validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianListResponse": {
+    "CustodyCapacityCheck": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodianDTO"},"required":true},
-            "total": {"dataType":"double","required":true},
+            "custodyServiceId": {"dataType":"string","required":true},
+            "custodyServiceName": {"dataType":"string","required":true},
+            "minWeight": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "maxWeight": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "currentWeightGrams": {"dataType":"double","required":true},
+            "basketWeightGrams": {"dataType":"double","required":true},
+            "resultingWeightGrams": {"dataType":"double","required":true},
+            "accepted": {"dataType":"boolean","required":true},
+            "code": {"ref":"CustodyWeightErrorCode"},
+            "reason": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianErrorResponse": {
+    "OrdersErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
             "error": {"dataType":"string","required":true},
-            "details": {"dataType":"nestedObjectLiteral","nestedProperties":{"fields":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}}}},
+            "code": {"dataType":"string"},
+            "details": {"dataType":"string"},
+            "transition": {"ref":"OrderStatusTransitionDetails"},
+            "custody": {"ref":"CustodyCapacityCheck"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianPaginationInfo": {
+    "OrdersAdminStatistics": {
         "dataType": "refObject",
         "properties": {
-            "page": {"dataType":"double","required":true},
-            "limit": {"dataType":"double","required":true},
-            "total": {"dataType":"double","required":true},
-            "totalPages": {"dataType":"double","required":true},
-            "hasNext": {"dataType":"boolean","required":true},
-            "hasPrev": {"dataType":"boolean","required":true},
+            "totalOrders": {"dataType":"double","required":true},
+            "pendingOrders": {"dataType":"double","required":true},
+            "processingOrders": {"dataType":"double","required":true},
+            "shippedOrders": {"dataType":"double","required":true},
+            "deliveredOrders": {"dataType":"double","required":true},
+            "cancelledOrders": {"dataType":"double","required":true},
+            "uniqueUsers": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianPaginatedResponse": {
+    "OrdersAdminResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"CustodianPaginationInfo","required":true},"custodians":{"dataType":"array","array":{"dataType":"refObject","ref":"CustodianDTO"},"required":true}},"required":true},
+            "orders": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderResponse"},"required":true},
+            "pagination": {"ref":"OrdersPaginationInfo","required":true},
+            "statistics": {"ref":"OrdersAdminStatistics","required":true},
+            "filters": {"dataType":"nestedObjectLiteral","nestedProperties":{"userId":{"dataType":"string"},"type":{"dataType":"string"},"status":{"dataType":"string"}}},
+            "adminContext": {"dataType":"nestedObjectLiteral","nestedProperties":{"role":{"dataType":"string","required":true},"requestedBy":{"dataType":"string","required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianResponse": {
+    "ShippingCharges": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"ref":"CustodianDTO","required":true},
-            "message": {"dataType":"string"},
+            "deliveryMethod": {"ref":"DeliveryMethod","required":true},
+            "destinationCountry": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "parcelWeightGrams": {"dataType":"double","required":true},
+            "shippingTariffId": {"dataType":"string","required":true},
+            "shippingFee": {"dataType":"double","required":true},
+            "declaredValue": {"dataType":"double","required":true},
+            "insuranceTierId": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "insuranceRate": {"dataType":"double","required":true},
+            "insuranceFee": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianCreateRequest": {
+    "OrderCalculation": {
         "dataType": "refObject",
         "properties": {
-            "name": {"dataType":"string","required":true},
+            "subtotal": {"dataType":"double","required":true},
+            "fees": {"ref":"OrderFees","required":true},
+            "taxes": {"dataType":"double","required":true},
+            "totalAmount": {"dataType":"double","required":true},
+            "shipping": {"ref":"ShippingCharges"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianUpdateRequest": {
+    "OrdersCreateResponse": {
         "dataType": "refObject",
         "properties": {
-            "name": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"any","required":true},
+            "calculation": {"ref":"OrderCalculation","required":true},
+            "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CustodianDeleteResponse": {
+    "OrdersCreateInput": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "message": {"dataType":"string","required":true},
+            "type": {"dataType":"string","required":true},
+            "items": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"quantity":{"dataType":"double","required":true},"productId":{"dataType":"string","required":true}}},"required":true},
+            "custodyServiceId": {"dataType":"string"},
+            "notes": {"dataType":"string"},
+            "currency": {"dataType":"string"},
+            "source": {"dataType":"string"},
+            "userId": {"dataType":"string"},
+            "quoteId": {"dataType":"string"},
+            "deliveryMethod": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["insured_courier"]},{"dataType":"enum","enums":["vault_delivery"]}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Currency": {
+    "OrderDetailResponse": {
         "dataType": "refObject",
         "properties": {
-            "id": {"dataType":"string","required":true},
-            "isoCode2": {"dataType":"string","required":true},
-            "isoCode3": {"dataType":"string","required":true},
-            "isoNumericCode": {"dataType":"double","required":true},
-            "createdAt": {"dataType":"datetime","required":true},
-            "updatedAt": {"dataType":"datetime","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"OrderResponse","required":true},
+            "message": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CurrenciesErrorResponse": {
+    "DetailedOrderUserResponse": {
         "dataType": "refObject",
         "properties": {
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"string"},
+            "email": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CurrencyRequest": {
+    "DetailedOrderCustodianResponse": {
         "dataType": "refObject",
         "properties": {
-            "isoCode2": {"dataType":"string","required":true},
-            "isoCode3": {"dataType":"string","required":true},
-            "isoNumericCode": {"dataType":"double","required":true},
+            "name": {"dataType":"string","required":true},
+            "email": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "Country": {
+    "DetailedOrderCustodyServiceResponse": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
-            "countryName": {"dataType":"string","required":true},
-            "isoCode2": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "fee": {"dataType":"double","required":true},
+            "paymentFrequency": {"dataType":"string","required":true},
+            "currency": {"dataType":"string","required":true},
+            "custodian": {"ref":"DetailedOrderCustodianResponse","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DetailedOrderData": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "userId": {"dataType":"string","required":true},
+            "type": {"dataType":"string","required":true},
+            "status": {"dataType":"string","required":true},
+            "orderNumber": {"dataType":"string","required":true},
+            "currency": {"dataType":"string","required":true},
+            "paymentStatus": {"dataType":"string","required":true},
+            "items": {"dataType":"array","array":{"dataType":"refObject","ref":"OrderItemResponse"},"required":true},
+            "subtotal": {"dataType":"double","required":true},
+            "fees": {"ref":"OrderFees"},
+            "taxes": {"dataType":"double","required":true},
+            "totalAmount": {"dataType":"double","required":true},
+            "user": {"ref":"DetailedOrderUserResponse","required":true},
+            "custodyService": {"dataType":"union","subSchemas":[{"ref":"DetailedOrderCustodyServiceResponse"},{"dataType":"enum","enums":[null]}],"required":true},
             "createdAt": {"dataType":"datetime","required":true},
             "updatedAt": {"dataType":"datetime","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CountriesErrorResponse": {
+    "DetailedOrderResponse": {
         "dataType": "refObject",
         "properties": {
-            "error": {"dataType":"string","required":true},
-            "details": {"dataType":"string"},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"DetailedOrderData","required":true},
+            "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CountryRequest": {
+    "OrderStatusHistoryEntryResponse": {
         "dataType": "refObject",
         "properties": {
-            "countryName": {"dataType":"string","required":true},
-            "isoCode2": {"dataType":"string","required":true},
+            "id": {"dataType":"string","required":true},
+            "previousStatus": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "newStatus": {"dataType":"string","required":true},
+            "reason": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "changedBy": {"dataType":"union","subSchemas":[{"dataType":"nestedObjectLiteral","nestedProperties":{"email":{"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},"id":{"dataType":"string","required":true}}},{"dataType":"enum","enums":[null]}],"required":true},
+            "changedAt": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofSessionSuccessResponseSchema_": {
-        "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"data":{"dataType":"nestedObjectLiteral","nestedProperties":{"issuedAt":{"dataType":"string"},"refreshToken":{"dataType":"string"},"user":{"dataType":"nestedObjectLiteral","nestedProperties":{"role":{"dataType":"string","required":true},"lastName":{"dataType":"string","required":true},"firstName":{"dataType":"string","required":true},"email":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},"expiresAt":{"dataType":"string","required":true},"expiresIn":{"dataType":"double","required":true},"tokenType":{"dataType":"enum","enums":["Bearer"],"required":true},"accessToken":{"dataType":"string","required":true}},"required":true},"success":{"dataType":"enum","enums":[true],"required":true}},"validators":{}},
+    "OrderStatusHistoryResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"history":{"dataType":"array","array":{"dataType":"refObject","ref":"OrderStatusHistoryEntryResponse"},"required":true},"currentStatus":{"dataType":"string","required":true},"orderId":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "SessionSuccessResponse": {
-        "dataType": "refAlias",
-        "type": {"ref":"infer_typeofSessionSuccessResponseSchema_","validators":{}},
+    "OrdersUpdateResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"any","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "AuthErrorCode": {
-        "dataType": "refAlias",
-        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["AUTH_INVALID_CREDENTIALS"]},{"dataType":"enum","enums":["AUTH_TOKEN_EXPIRED"]},{"dataType":"enum","enums":["AUTH_TOKEN_INVALID"]},{"dataType":"enum","enums":["AUTH_UNAUTHORIZED"]},{"dataType":"enum","enums":["AUTH_ACCOUNT_LOCKED"]},{"dataType":"enum","enums":["AUTH_USER_INACTIVE"]},{"dataType":"enum","enums":["AUTH_STALE_ROLE_CLAIM"]},{"dataType":"enum","enums":["AUTH_INSUFFICIENT_PERMISSIONS"]},{"dataType":"enum","enums":["VALIDATION_ERROR"]},{"dataType":"enum","enums":["AUTH_INTERNAL_ERROR"]}],"validators":{}},
+    "OrdersUpdateInput": {
+        "dataType": "refObject",
+        "properties": {
+            "type": {"dataType":"string"},
+            "status": {"dataType":"string"},
+            "notes": {"dataType":"string"},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "AuthErrorDetails": {
+    "OrdersDeleteResponse": {
         "dataType": "refObject",
         "properties": {
-            "fields": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"deletedAt":{"dataType":"string","required":true},"deletedBy":{"dataType":"string","required":true},"deletedOrderItems":{"dataType":"double","required":true},"orderId":{"dataType":"string","required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "AuthErrorResponse": {
+    "OrdersCancelResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"order":{"dataType":"any","required":true},"cancelledAt":{"dataType":"string","required":true},"cancelledBy":{"dataType":"string","required":true},"newStatus":{"dataType":"string","required":true},"previousStatus":{"dataType":"string","required":true},"orderId":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OrdersCancelInput": {
+        "dataType": "refObject",
+        "properties": {
+            "reason": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OrderStatusRow": {
+        "dataType": "refObject",
+        "properties": {
+            "orderstatus": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OrderStatusErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MetalResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "symbol": {"dataType":"string"},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MetalsListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"StandardPagination","required":true},"items":{"dataType":"array","array":{"dataType":"refObject","ref":"MetalResponse"},"required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MetalsErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
-            "code": {"ref":"AuthErrorCode","required":true},
             "error": {"dataType":"string","required":true},
-            "details": {"ref":"AuthErrorDetails"},
+            "details": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "LoginRequestBody": {
+    "MetalRequest": {
         "dataType": "refObject",
         "properties": {
-            "email": {"dataType":"string"},
-            "password": {"dataType":"string"},
+            "metalName": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "infer_typeofUserSuccessResponseSchema_": {
+    "ConsensusMethod": {
         "dataType": "refAlias",
-        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"data":{"dataType":"nestedObjectLiteral","nestedProperties":{"user":{"dataType":"nestedObjectLiteral","nestedProperties":{"role":{"dataType":"string","required":true},"lastName":{"dataType":"string","required":true},"firstName":{"dataType":"string","required":true},"email":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true}},"required":true},"success":{"dataType":"enum","enums":[true],"required":true}},"validators":{}},
+        "type": {"ref":"Exclude_PricingMode.first_","validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UserSuccessResponse": {
+    "Exclude_PricingMode.first_": {
         "dataType": "refAlias",
-        "type": {"ref":"infer_typeofUserSuccessResponseSchema_","validators":{}},
+        "type": {"ref":"ConsensusMethod","validators":{}},
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "LogoutSuccessResponse": {
+    "ConsensusContributor": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"enum","enums":[true],"required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true}},"required":true},
+            "providerId": {"dataType":"string","required":true},
+            "providerName": {"dataType":"string","required":true},
+            "price": {"dataType":"double","required":true},
+            "weight": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ImageUploadResponse": {
+    "PriceConsensus": {
+        "dataType": "refObject",
+        "properties": {
+            "method": {"ref":"ConsensusMethod","required":true},
+            "spreadPercent": {"dataType":"double","required":true},
+            "disputed": {"dataType":"boolean","required":true},
+            "contributors": {"dataType":"array","array":{"dataType":"refObject","ref":"ConsensusContributor"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MarketPrice": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "metalId": {"dataType":"string","required":true},
+            "metalSymbol": {"dataType":"string"},
+            "metalName": {"dataType":"string"},
+            "providerId": {"dataType":"string","required":true},
+            "providerName": {"dataType":"string"},
+            "pricePerTroyOz": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
+            "bid": {"dataType":"double"},
+            "ask": {"dataType":"double"},
+            "high24h": {"dataType":"double"},
+            "low24h": {"dataType":"double"},
+            "change24h": {"dataType":"double"},
+            "changePercent24h": {"dataType":"double"},
+            "consensus": {"ref":"PriceConsensus"},
+            "timestamp": {"dataType":"datetime","required":true},
+            "createdAt": {"dataType":"datetime"},
+            "updatedAt": {"dataType":"datetime"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "QuoteStatus": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["live"]},{"dataType":"enum","enums":["stale"]},{"dataType":"enum","enums":["last_close"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "QuoteFreshness": {
+        "dataType": "refObject",
+        "properties": {
+            "status": {"ref":"QuoteStatus","required":true},
+            "ageSeconds": {"dataType":"double","required":true},
+            "marketOpen": {"dataType":"boolean","required":true},
+            "openVenues": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "nextOpenAt": {"dataType":"datetime"},
+            "lastCloseAt": {"dataType":"datetime"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SinglePriceResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[true],"required":true},
-            "message": {"dataType":"string","required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"contentType":{"dataType":"string","required":true},"filename":{"dataType":"string","required":true}},"required":true},
+            "data": {"ref":"MarketPrice","required":true},
+            "freshness": {"ref":"QuoteFreshness","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "AdminErrorResponse": {
+    "MarketDataErrorResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"enum","enums":[false],"required":true},
+            "code": {"dataType":"string"},
             "error": {"dataType":"string","required":true},
             "details": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "LoadImagesResult": {
+    "Record_string.MarketPrice_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{},"additionalProperties":{"ref":"MarketPrice"},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MultiplePricesResponse": {
         "dataType": "refObject",
         "properties": {
-            "filename": {"dataType":"string","required":true},
-            "productName": {"dataType":"string","required":true},
-            "status": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"Record_string.MarketPrice_","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "LoadImagesResponse": {
+    "MarketStatus": {
         "dataType": "refObject",
         "properties": {
-            "message": {"dataType":"string","required":true},
-            "results": {"dataType":"array","array":{"dataType":"refObject","ref":"LoadImagesResult"},"required":true},
+            "open": {"dataType":"boolean","required":true},
+            "openVenues": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "nextOpenAt": {"dataType":"datetime"},
+            "lastCloseAt": {"dataType":"datetime"},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CsvImportResponse": {
+    "MarketStatusResponse": {
         "dataType": "refObject",
         "properties": {
-            "message": {"dataType":"string","required":true},
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"MarketStatus","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-};
-const templateService = new ExpressTemplateService(models, {"noImplicitAdditionalProperties":"throw-on-extras","bodyCoercion":true});
+    "PriceHistory": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "metalId": {"dataType":"string","required":true},
+            "metalSymbol": {"dataType":"string"},
+            "providerId": {"dataType":"string","required":true},
+            "pricePerTroyOz": {"dataType":"double","required":true},
+            "currency": {"dataType":"string","required":true},
+            "bid": {"dataType":"double"},
+            "ask": {"dataType":"double"},
+            "high": {"dataType":"double"},
+            "low": {"dataType":"double"},
+            "open": {"dataType":"double"},
+            "close": {"dataType":"double"},
+            "volume": {"dataType":"double"},
+            "timestamp": {"dataType":"datetime","required":true},
+            "createdAt": {"dataType":"datetime"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "HistoryResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"PriceHistory"},"required":true},
+            "count": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CandleInterval": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["1h"]},{"dataType":"enum","enums":["1d"]},{"dataType":"enum","enums":["1w"]},{"dataType":"enum","enums":["1M"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceCandle": {
+        "dataType": "refObject",
+        "properties": {
+            "metalId": {"dataType":"string","required":true},
+            "metalSymbol": {"dataType":"string"},
+            "currency": {"dataType":"string","required":true},
+            "interval": {"ref":"CandleInterval","required":true},
+            "bucketStart": {"dataType":"datetime","required":true},
+            "open": {"dataType":"double","required":true},
+            "high": {"dataType":"double","required":true},
+            "low": {"dataType":"double","required":true},
+            "close": {"dataType":"double","required":true},
+            "tickCount": {"dataType":"double","required":true},
+            "firstTickAt": {"dataType":"datetime","required":true},
+            "lastTickAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CandleHistoryResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "interval": {"ref":"CandleInterval","required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"PriceCandle"},"required":true},
+            "count": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceFileRowError": {
+        "dataType": "refObject",
+        "properties": {
+            "row": {"dataType":"double","required":true},
+            "error": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceHistoryImportResult": {
+        "dataType": "refObject",
+        "properties": {
+            "provider": {"dataType":"string","required":true},
+            "inserted": {"dataType":"double","required":true},
+            "skipped": {"dataType":"double","required":true},
+            "failed": {"dataType":"double","required":true},
+            "errors": {"dataType":"array","array":{"dataType":"refObject","ref":"PriceFileRowError"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "HistoryImportResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"PriceHistoryImportResult","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceUpdateResult": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "provider": {"dataType":"string","required":true},
+            "updatedMetals": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "errors": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "skippedProviders": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "quarantinedQuotes": {"dataType":"double","required":true},
+            "disputedMetals": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "timestamp": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UpdateResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"PriceUpdateResult","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UpdateErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"array","array":{"dataType":"string"}},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CircuitState": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["closed"]},{"dataType":"enum","enums":["open"]},{"dataType":"enum","enums":["half_open"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ProviderStatus": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "apiKeyEnvVar": {"dataType":"string","required":true},
+            "baseUrl": {"dataType":"string","required":true},
+            "isActive": {"dataType":"boolean","required":true},
+            "rateLimitPerMinute": {"dataType":"double","required":true},
+            "priority": {"dataType":"double","required":true},
+            "lastSuccess": {"dataType":"datetime"},
+            "lastFailure": {"dataType":"datetime"},
+            "failureCount": {"dataType":"double","required":true},
+            "createdAt": {"dataType":"datetime"},
+            "updatedAt": {"dataType":"datetime"},
+            "createdBy": {"dataType":"string"},
+            "updatedBy": {"dataType":"string"},
+            "circuitState": {"ref":"CircuitState","required":true},
+            "circuitOpenUntil": {"dataType":"datetime"},
+            "rejectedQuoteCount": {"dataType":"double","required":true},
+            "lastRejectedAt": {"dataType":"datetime"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ProvidersResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"ProviderStatus"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CacheCleanupResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceAlertCondition": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["above"]},{"dataType":"enum","enums":["below"]},{"dataType":"enum","enums":["change_percent"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceAlert": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "userId": {"dataType":"string","required":true},
+            "metalId": {"dataType":"string","required":true},
+            "metalSymbol": {"dataType":"string","required":true},
+            "currency": {"dataType":"string","required":true},
+            "condition": {"ref":"PriceAlertCondition","required":true},
+            "threshold": {"dataType":"double","required":true},
+            "isActive": {"dataType":"boolean","required":true},
+            "triggeredAt": {"dataType":"union","subSchemas":[{"dataType":"datetime"},{"dataType":"enum","enums":[null]}],"required":true},
+            "triggeredPrice": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "triggeredChangePercent": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceAlertListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"PriceAlert"},"required":true},
+            "count": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PriceAlertResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"PriceAlert","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CreatePriceAlertInput": {
+        "dataType": "refObject",
+        "properties": {
+            "metalSymbol": {"dataType":"string","required":true},
+            "condition": {"ref":"PriceAlertCondition","required":true},
+            "threshold": {"dataType":"double","required":true},
+            "currency": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UpdatePriceAlertInput": {
+        "dataType": "refObject",
+        "properties": {
+            "condition": {"ref":"PriceAlertCondition"},
+            "threshold": {"dataType":"double"},
+            "isActive": {"dataType":"boolean"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FxRate": {
+        "dataType": "refObject",
+        "properties": {
+            "baseCurrency": {"dataType":"string","required":true},
+            "quoteCurrency": {"dataType":"string","required":true},
+            "rate": {"dataType":"double","required":true},
+            "source": {"dataType":"string","required":true},
+            "asOf": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FxRatesResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"rates":{"dataType":"array","array":{"dataType":"refObject","ref":"FxRate"},"required":true},"currencies":{"dataType":"array","array":{"dataType":"string"},"required":true},"asOf":{"dataType":"datetime","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FxErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "code": {"dataType":"string"},
+            "error": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FxConversion": {
+        "dataType": "refObject",
+        "properties": {
+            "amount": {"dataType":"double","required":true},
+            "from": {"dataType":"string","required":true},
+            "to": {"dataType":"string","required":true},
+            "rate": {"dataType":"double","required":true},
+            "convertedAmount": {"dataType":"double","required":true},
+            "rateAsOf": {"dataType":"datetime","required":true},
+            "source": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FxConversionResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"FxConversion","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FxUpdateResult": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "provider": {"dataType":"string","required":true},
+            "savedRates": {"dataType":"double","required":true},
+            "errors": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "timestamp": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FxUpdateResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"FxUpdateResult","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServiceDTO": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "custodyServiceName": {"dataType":"string","required":true},
+            "custodianId": {"dataType":"string","required":true},
+            "custodianName": {"dataType":"string","required":true},
+            "fee": {"dataType":"double","required":true},
+            "paymentFrequency": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["monthly"]},{"dataType":"enum","enums":["quarterly"]},{"dataType":"enum","enums":["annual"]},{"dataType":"enum","enums":["onetime"]}],"required":true},
+            "currencyId": {"dataType":"string","required":true},
+            "currency": {"dataType":"string","required":true},
+            "minWeight": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "maxWeight": {"dataType":"union","subSchemas":[{"dataType":"double"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServiceListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodyServiceDTO"},"required":true},
+            "total": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"nestedObjectLiteral","nestedProperties":{"fields":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}}}},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyPaginationInfo": {
+        "dataType": "refObject",
+        "properties": {
+            "page": {"dataType":"double","required":true},
+            "limit": {"dataType":"double","required":true},
+            "total": {"dataType":"double","required":true},
+            "totalPages": {"dataType":"double","required":true},
+            "hasNext": {"dataType":"boolean","required":true},
+            "hasPrev": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServicePaginatedResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"CustodyPaginationInfo","required":true},"custodyServices":{"dataType":"array","array":{"dataType":"refObject","ref":"CustodyServiceDTO"},"required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PaymentFrequency": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["monthly"]},{"dataType":"enum","enums":["quarterly"]},{"dataType":"enum","enums":["annual"]},{"dataType":"enum","enums":["onetime"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServiceResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"CustodyServiceDTO","required":true},
+            "message": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServiceCreateRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "serviceName": {"dataType":"string","required":true},
+            "custodianId": {"dataType":"string","required":true},
+            "fee": {"dataType":"double","required":true},
+            "paymentFrequency": {"ref":"PaymentFrequency","required":true},
+            "currency": {"dataType":"string","required":true},
+            "minWeight": {"dataType":"double"},
+            "maxWeight": {"dataType":"double"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServiceUpdateRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "serviceName": {"dataType":"string"},
+            "custodianId": {"dataType":"string"},
+            "fee": {"dataType":"double"},
+            "paymentFrequency": {"ref":"PaymentFrequency"},
+            "currency": {"dataType":"string"},
+            "minWeight": {"dataType":"double"},
+            "maxWeight": {"dataType":"double"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServiceDeleteResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianWithServices": {
+        "dataType": "refObject",
+        "properties": {
+            "custodianId": {"dataType":"string","required":true},
+            "custodianName": {"dataType":"string","required":true},
+            "services": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodyServiceDTO"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodiansWithServicesResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodianWithServices"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyInvoiceStatus": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["open"]},{"dataType":"enum","enums":["paid"]},{"dataType":"enum","enums":["void"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AccruedPaymentFrequency": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["daily"]},{"dataType":"enum","enums":["weekly"]},{"dataType":"enum","enums":["monthly"]},{"dataType":"enum","enums":["quarterly"]},{"dataType":"enum","enums":["yearly"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyInvoiceLineItem": {
+        "dataType": "refObject",
+        "properties": {
+            "positionId": {"dataType":"string","required":true},
+            "heldFrom": {"dataType":"datetime","required":true},
+            "heldUntil": {"dataType":"datetime","required":true},
+            "days": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyInvoice": {
+        "dataType": "refObject",
+        "properties": {
+            "userId": {"dataType":"string","required":true},
+            "custodyServiceId": {"dataType":"string","required":true},
+            "paymentFrequency": {"ref":"AccruedPaymentFrequency","required":true},
+            "periodStart": {"dataType":"datetime","required":true},
+            "periodEnd": {"dataType":"datetime","required":true},
+            "periodDays": {"dataType":"double","required":true},
+            "billedDays": {"dataType":"double","required":true},
+            "periodFee": {"dataType":"double","required":true},
+            "amount": {"dataType":"double","required":true},
+            "currencyId": {"dataType":"string","required":true},
+            "currency": {"dataType":"string","required":true},
+            "lineItems": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodyInvoiceLineItem"},"required":true},
+            "id": {"dataType":"string","required":true},
+            "custodyServiceName": {"dataType":"string","required":true},
+            "status": {"ref":"CustodyInvoiceStatus","required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyInvoiceListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"CustodyPaginationInfo","required":true},"invoices":{"dataType":"array","array":{"dataType":"refObject","ref":"CustodyInvoice"},"required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodyServiceSuggestion": {
+        "dataType": "refObject",
+        "properties": {
+            "custodyService": {"ref":"CustodyServiceDTO","required":true},
+            "capacity": {"ref":"CustodyCapacityCheck","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodySuggestionResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodyServiceSuggestion"},"required":true},
+            "message": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodySuggestionRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "items": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"quantity":{"dataType":"double","required":true},"productId":{"dataType":"string","required":true}}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianDTO": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"array","array":{"dataType":"refObject","ref":"CustodianDTO"},"required":true},
+            "total": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"nestedObjectLiteral","nestedProperties":{"fields":{"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}}}},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianPaginationInfo": {
+        "dataType": "refObject",
+        "properties": {
+            "page": {"dataType":"double","required":true},
+            "limit": {"dataType":"double","required":true},
+            "total": {"dataType":"double","required":true},
+            "totalPages": {"dataType":"double","required":true},
+            "hasNext": {"dataType":"boolean","required":true},
+            "hasPrev": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianPaginatedResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"pagination":{"ref":"CustodianPaginationInfo","required":true},"custodians":{"dataType":"array","array":{"dataType":"refObject","ref":"CustodianDTO"},"required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"CustodianDTO","required":true},
+            "message": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianCreateRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianUpdateRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CustodianDeleteResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "Currency": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "isoCode2": {"dataType":"string","required":true},
+            "isoCode3": {"dataType":"string","required":true},
+            "isoNumericCode": {"dataType":"double","required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CurrenciesErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CurrencyRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "isoCode2": {"dataType":"string","required":true},
+            "isoCode3": {"dataType":"string","required":true},
+            "isoNumericCode": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "Country": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "countryName": {"dataType":"string","required":true},
+            "isoCode2": {"dataType":"string","required":true},
+            "createdAt": {"dataType":"datetime","required":true},
+            "updatedAt": {"dataType":"datetime","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CountriesErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CountryRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "countryName": {"dataType":"string","required":true},
+            "isoCode2": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "infer_typeofSessionSuccessResponseSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"data":{"dataType":"nestedObjectLiteral","nestedProperties":{"issuedAt":{"dataType":"string"},"refreshToken":{"dataType":"string"},"user":{"dataType":"nestedObjectLiteral","nestedProperties":{"role":{"dataType":"string","required":true},"lastName":{"dataType":"string","required":true},"firstName":{"dataType":"string","required":true},"email":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},"expiresAt":{"dataType":"string","required":true},"expiresIn":{"dataType":"double","required":true},"tokenType":{"dataType":"enum","enums":["Bearer"],"required":true},"accessToken":{"dataType":"string","required":true}},"required":true},"success":{"dataType":"enum","enums":[true],"required":true}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SessionSuccessResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofSessionSuccessResponseSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AuthErrorCode": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["AUTH_INVALID_CREDENTIALS"]},{"dataType":"enum","enums":["AUTH_TOKEN_EXPIRED"]},{"dataType":"enum","enums":["AUTH_TOKEN_INVALID"]},{"dataType":"enum","enums":["AUTH_UNAUTHORIZED"]},{"dataType":"enum","enums":["AUTH_ACCOUNT_LOCKED"]},{"dataType":"enum","enums":["AUTH_USER_INACTIVE"]},{"dataType":"enum","enums":["AUTH_STALE_ROLE_CLAIM"]},{"dataType":"enum","enums":["AUTH_INSUFFICIENT_PERMISSIONS"]},{"dataType":"enum","enums":["AUTH_EMAIL_NOT_VERIFIED"]},{"dataType":"enum","enums":["AUTH_RESET_TOKEN_INVALID"]},{"dataType":"enum","enums":["AUTH_SESSION_NOT_FOUND"]},{"dataType":"enum","enums":["AUTH_TWO_FACTOR_REQUIRED"]},{"dataType":"enum","enums":["AUTH_TWO_FACTOR_ALREADY_ENABLED"]},{"dataType":"enum","enums":["AUTH_TWO_FACTOR_NOT_ENABLED"]},{"dataType":"enum","enums":["AUTH_STEP_UP_REQUIRED"]},{"dataType":"enum","enums":["AUTH_TOO_MANY_LOGIN_ATTEMPTS"]},{"dataType":"enum","enums":["VALIDATION_ERROR"]},{"dataType":"enum","enums":["AUTH_INTERNAL_ERROR"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AuthErrorDetails": {
+        "dataType": "refObject",
+        "properties": {
+            "fields": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true},"path":{"dataType":"string","required":true}}}},
+            "challengeToken": {"dataType":"string"},
+            "challengeExpiresAt": {"dataType":"string"},
+            "retryAfterSeconds": {"dataType":"double"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AuthErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "code": {"ref":"AuthErrorCode","required":true},
+            "error": {"dataType":"string","required":true},
+            "details": {"ref":"AuthErrorDetails"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LoginRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string"},
+            "password": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TwoFactorVerifyRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "challengeToken": {"dataType":"string"},
+            "code": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "infer_typeofUserSuccessResponseSchema_": {
+        "dataType": "refAlias",
+        "type": {"dataType":"nestedObjectLiteral","nestedProperties":{"data":{"dataType":"nestedObjectLiteral","nestedProperties":{"user":{"dataType":"nestedObjectLiteral","nestedProperties":{"role":{"dataType":"string","required":true},"lastName":{"dataType":"string","required":true},"firstName":{"dataType":"string","required":true},"email":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true}},"required":true},"success":{"dataType":"enum","enums":[true],"required":true}},"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UserSuccessResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"infer_typeofUserSuccessResponseSchema_","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RefreshRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "refreshToken": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MessageSuccessResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"message":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LogoutSuccessResponse": {
+        "dataType": "refAlias",
+        "type": {"ref":"MessageSuccessResponse","validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ForgotPasswordRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ResetPasswordRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "token": {"dataType":"string","required":true},
+            "newPassword": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ChangePasswordRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "currentPassword": {"dataType":"string","required":true},
+            "newPassword": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SessionSummary": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "userAgent": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "ipAddress": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"enum","enums":[null]}],"required":true},
+            "createdAt": {"dataType":"string","required":true},
+            "lastUsedAt": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+            "current": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SessionListSuccessResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"sessions":{"dataType":"array","array":{"dataType":"refObject","ref":"SessionSummary"},"required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TwoFactorStatus": {
+        "dataType": "refObject",
+        "properties": {
+            "enabled": {"dataType":"boolean","required":true},
+            "recoveryCodesRemaining": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TwoFactorStatusSuccessResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"TwoFactorStatus","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TwoFactorEnrollment": {
+        "dataType": "refObject",
+        "properties": {
+            "secret": {"dataType":"string","required":true},
+            "provisioningUri": {"dataType":"string","required":true},
+            "recoveryCodes": {"dataType":"array","array":{"dataType":"string"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TwoFactorEnrollmentSuccessResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"ref":"TwoFactorEnrollment","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TwoFactorCodeRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "code": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StepUpSuccessResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"stepUpExpiresAt":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StepUpRequestBody": {
+        "dataType": "refObject",
+        "properties": {
+            "password": {"dataType":"string"},
+            "code": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ImageUploadResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[true],"required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"contentType":{"dataType":"string","required":true},"filename":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AdminErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"enum","enums":[false],"required":true},
+            "error": {"dataType":"string","required":true},
+            "details": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LoadImagesResult": {
+        "dataType": "refObject",
+        "properties": {
+            "filename": {"dataType":"string","required":true},
+            "productName": {"dataType":"string","required":true},
+            "status": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LoadImagesResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "message": {"dataType":"string","required":true},
+            "results": {"dataType":"array","array":{"dataType":"refObject","ref":"LoadImagesResult"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CsvImportResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+};
+const templateService = new ExpressTemplateService(models, {"noImplicitAdditionalProperties":"throw-on-extras","bodyCoercion":true});
+
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+
+
+
+export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof multer>}) {
+
+    // ###########################################################################################################
+    //  NOTE: If you do not see routes for all of your controllers in this file, then you might not have informed tsoa of where to look
+    //      Please look into the "controllerPathGlobs" config option described in the readme: https://github.com/lukeautry/tsoa
+    // ###########################################################################################################
+
+    const upload = opts?.multer ||  multer({"limits":{"fileSize":8388608}});
+
+    
+        const argsUserController_getUsers: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                search: {"in":"query","name":"search","dataType":"string"},
+                role: {"in":"query","name":"role","dataType":"string"},
+                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["email"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["updatedAt"]},{"dataType":"enum","enums":["lastLogin"]}]},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+        };
+        app.get('/api/users',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getUsers)),
+
+            async function UserController_getUsers(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getUsers, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'getUsers',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_getBlockedUsers: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/api/users/blocked',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getBlockedUsers)),
+
+            async function UserController_getBlockedUsers(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getBlockedUsers, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'getBlockedUsers',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_getLockedUsers: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/api/users/locked',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getLockedUsers)),
+
+            async function UserController_getLockedUsers(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getLockedUsers, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'getLockedUsers',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_getUserById: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/users/:id',
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getUserById)),
+
+            async function UserController_getUserById(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getUserById, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'getUserById',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_getUserDetails: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/users/:id/details',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getUserDetails)),
+
+            async function UserController_getUserDetails(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getUserDetails, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'getUserDetails',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_patchUserProfile: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"PatchUserProfileRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.patch('/api/users/:id/profile',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.patchUserProfile)),
+
+            async function UserController_patchUserProfile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_patchUserProfile, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'patchUserProfile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_createUser: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"CreateUserRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/users',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.createUser)),
+
+            async function UserController_createUser(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_createUser, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'createUser',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_updateUser: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"UpdateUserRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.put('/api/users/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.updateUser)),
+
+            async function UserController_updateUser(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_updateUser, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'updateUser',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_blockUser: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"BlockUserRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/users/:id/block',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.blockUser)),
+
+            async function UserController_blockUser(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_blockUser, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'blockUser',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_unblockUser: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/users/:id/unblock',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.unblockUser)),
+
+            async function UserController_unblockUser(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_unblockUser, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'unblockUser',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_revokeUserSessions: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.delete('/api/users/:id/sessions',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.revokeUserSessions)),
+
+            async function UserController_revokeUserSessions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_revokeUserSessions, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'revokeUserSessions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_resetUserTwoFactor: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.delete('/api/users/:id/two-factor',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.resetUserTwoFactor)),
+
+            async function UserController_resetUserTwoFactor(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_resetUserTwoFactor, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'resetUserTwoFactor',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_softDeleteUser: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/api/users/:id/soft',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.softDeleteUser)),
+
+            async function UserController_softDeleteUser(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_softDeleteUser, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'softDeleteUser',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserController_deleteUser: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.delete('/api/users/:id',
+            ...(fetchMiddlewares<RequestHandler>(UserController)),
+            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.deleteUser)),
+
+            async function UserController_deleteUser(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_deleteUser, request, response });
+
+                const controller = new UserController();
+
+              await templateService.apiHandler({
+                methodName: 'deleteUser',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionsController_getTransactions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"string"},
+                limit: {"in":"query","name":"limit","dataType":"string"},
+                type: {"in":"query","name":"type","dataType":"union","subSchemas":[{"dataType":"enum","enums":["buy"]},{"dataType":"enum","enums":["sell"]}]},
+                positionId: {"in":"query","name":"positionId","dataType":"string"},
+                dateFrom: {"in":"query","name":"dateFrom","dataType":"string"},
+                dateTo: {"in":"query","name":"dateTo","dataType":"string"},
+                minQuantity: {"in":"query","name":"minQuantity","dataType":"string"},
+                maxQuantity: {"in":"query","name":"maxQuantity","dataType":"string"},
+                minPrice: {"in":"query","name":"minPrice","dataType":"string"},
+                maxPrice: {"in":"query","name":"maxPrice","dataType":"string"},
+                sortBy: {"in":"query","name":"sortBy","dataType":"string"},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"string"},
+        };
+        app.get('/api/transactions',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionsController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionsController.prototype.getTransactions)),
+
+            async function TransactionsController_getTransactions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionsController_getTransactions, request, response });
+
+                const controller = new TransactionsController();
+
+              await templateService.apiHandler({
+                methodName: 'getTransactions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionsController_createTransaction: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreateTransactionRequest"},
+        };
+        app.post('/api/transactions',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionsController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionsController.prototype.createTransaction)),
+
+            async function TransactionsController_createTransaction(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionsController_createTransaction, request, response });
+
+                const controller = new TransactionsController();
+
+              await templateService.apiHandler({
+                methodName: 'createTransaction',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionsController_getTransaction: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/transactions/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionsController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionsController.prototype.getTransaction)),
+
+            async function TransactionsController_getTransaction(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionsController_getTransaction, request, response });
+
+                const controller = new TransactionsController();
+
+              await templateService.apiHandler({
+                methodName: 'getTransaction',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTaxRulesController_listTaxRules: Record<string, TsoaRoute.ParameterSchema> = {
+                countryId: {"in":"query","name":"countryId","dataType":"string"},
+                metalId: {"in":"query","name":"metalId","dataType":"string"},
+                productTypeId: {"in":"query","name":"productTypeId","dataType":"string"},
+                activeAt: {"in":"query","name":"activeAt","dataType":"string"},
+        };
+        app.get('/api/tax-rules',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController)),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController.prototype.listTaxRules)),
+
+            async function TaxRulesController_listTaxRules(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTaxRulesController_listTaxRules, request, response });
+
+                const controller = new TaxRulesController();
+
+              await templateService.apiHandler({
+                methodName: 'listTaxRules',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTaxRulesController_getTaxRule: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/tax-rules/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController)),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController.prototype.getTaxRule)),
+
+            async function TaxRulesController_getTaxRule(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTaxRulesController_getTaxRule, request, response });
+
+                const controller = new TaxRulesController();
+
+              await templateService.apiHandler({
+                methodName: 'getTaxRule',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTaxRulesController_createTaxRule: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"TaxRuleCreateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/tax-rules',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController)),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController.prototype.createTaxRule)),
+
+            async function TaxRulesController_createTaxRule(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTaxRulesController_createTaxRule, request, response });
+
+                const controller = new TaxRulesController();
+
+              await templateService.apiHandler({
+                methodName: 'createTaxRule',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTaxRulesController_updateTaxRule: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"TaxRuleUpdateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.put('/api/tax-rules/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController)),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController.prototype.updateTaxRule)),
+
+            async function TaxRulesController_updateTaxRule(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTaxRulesController_updateTaxRule, request, response });
+
+                const controller = new TaxRulesController();
+
+              await templateService.apiHandler({
+                methodName: 'updateTaxRule',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTaxRulesController_deleteTaxRule: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/api/tax-rules/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController)),
+            ...(fetchMiddlewares<RequestHandler>(TaxRulesController.prototype.deleteTaxRule)),
+
+            async function TaxRulesController_deleteTaxRule(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTaxRulesController_deleteTaxRule, request, response });
+
+                const controller = new TaxRulesController();
+
+              await templateService.apiHandler({
+                methodName: 'deleteTaxRule',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_listShippingTariffs: Record<string, TsoaRoute.ParameterSchema> = {
+                deliveryMethod: {"in":"query","name":"deliveryMethod","ref":"DeliveryMethod"},
+                countryId: {"in":"query","name":"countryId","dataType":"string"},
+        };
+        app.get('/api/shipping/tariffs',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.listShippingTariffs)),
+
+            async function ShippingController_listShippingTariffs(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_listShippingTariffs, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'listShippingTariffs',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_getShippingTariff: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/shipping/tariffs/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.getShippingTariff)),
+
+            async function ShippingController_getShippingTariff(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_getShippingTariff, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'getShippingTariff',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_createShippingTariff: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ShippingTariffCreateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/shipping/tariffs',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.createShippingTariff)),
+
+            async function ShippingController_createShippingTariff(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_createShippingTariff, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'createShippingTariff',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_updateShippingTariff: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ShippingTariffUpdateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.put('/api/shipping/tariffs/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.updateShippingTariff)),
+
+            async function ShippingController_updateShippingTariff(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_updateShippingTariff, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'updateShippingTariff',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_deleteShippingTariff: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/api/shipping/tariffs/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.deleteShippingTariff)),
+
+            async function ShippingController_deleteShippingTariff(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_deleteShippingTariff, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'deleteShippingTariff',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_listInsuranceTiers: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/api/shipping/insurance-tiers',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.listInsuranceTiers)),
+
+            async function ShippingController_listInsuranceTiers(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_listInsuranceTiers, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'listInsuranceTiers',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_getInsuranceTier: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/shipping/insurance-tiers/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.getInsuranceTier)),
+
+            async function ShippingController_getInsuranceTier(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_getInsuranceTier, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'getInsuranceTier',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_createInsuranceTier: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"InsuranceTierCreateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/shipping/insurance-tiers',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.createInsuranceTier)),
+
+            async function ShippingController_createInsuranceTier(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_createInsuranceTier, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'createInsuranceTier',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_updateInsuranceTier: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"InsuranceTierUpdateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.put('/api/shipping/insurance-tiers/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.updateInsuranceTier)),
+
+            async function ShippingController_updateInsuranceTier(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_updateInsuranceTier, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'updateInsuranceTier',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShippingController_deleteInsuranceTier: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/api/shipping/insurance-tiers/:id',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController)),
+            ...(fetchMiddlewares<RequestHandler>(ShippingController.prototype.deleteInsuranceTier)),
+
+            async function ShippingController_deleteInsuranceTier(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShippingController_deleteInsuranceTier, request, response });
+
+                const controller = new ShippingController();
+
+              await templateService.apiHandler({
+                methodName: 'deleteInsuranceTier',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSavingsPlanController_getExecutions: Record<string, TsoaRoute.ParameterSchema> = {
+                status: {"in":"query","name":"status","ref":"SavingsPlanExecutionStatus"},
+                userId: {"in":"query","name":"userId","dataType":"string"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+        };
+        app.get('/api/savings-plans/executions',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController)),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController.prototype.getExecutions)),
+
+            async function SavingsPlanController_getExecutions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSavingsPlanController_getExecutions, request, response });
+
+                const controller = new SavingsPlanController();
+
+              await templateService.apiHandler({
+                methodName: 'getExecutions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSavingsPlanController_listSavingsPlans: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/api/savings-plans',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController)),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController.prototype.listSavingsPlans)),
+
+            async function SavingsPlanController_listSavingsPlans(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSavingsPlanController_listSavingsPlans, request, response });
+
+                const controller = new SavingsPlanController();
+
+              await templateService.apiHandler({
+                methodName: 'listSavingsPlans',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSavingsPlanController_createSavingsPlan: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                body: {"in":"body","name":"body","required":true,"ref":"CreateSavingsPlanInput"},
+        };
+        app.post('/api/savings-plans',
+            authenticateMiddleware([{"bearerAuth":["email_verified"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController)),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController.prototype.createSavingsPlan)),
+
+            async function SavingsPlanController_createSavingsPlan(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSavingsPlanController_createSavingsPlan, request, response });
+
+                const controller = new SavingsPlanController();
+
+              await templateService.apiHandler({
+                methodName: 'createSavingsPlan',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSavingsPlanController_getSavingsPlan: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/savings-plans/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController)),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController.prototype.getSavingsPlan)),
+
+            async function SavingsPlanController_getSavingsPlan(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSavingsPlanController_getSavingsPlan, request, response });
+
+                const controller = new SavingsPlanController();
+
+              await templateService.apiHandler({
+                methodName: 'getSavingsPlan',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSavingsPlanController_updateSavingsPlan: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"UpdateSavingsPlanInput"},
+        };
+        app.put('/api/savings-plans/:id',
+            authenticateMiddleware([{"bearerAuth":["step_up"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController)),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController.prototype.updateSavingsPlan)),
+
+            async function SavingsPlanController_updateSavingsPlan(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSavingsPlanController_updateSavingsPlan, request, response });
+
+                const controller = new SavingsPlanController();
+
+              await templateService.apiHandler({
+                methodName: 'updateSavingsPlan',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSavingsPlanController_cancelSavingsPlan: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.delete('/api/savings-plans/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController)),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController.prototype.cancelSavingsPlan)),
+
+            async function SavingsPlanController_cancelSavingsPlan(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSavingsPlanController_cancelSavingsPlan, request, response });
+
+                const controller = new SavingsPlanController();
+
+              await templateService.apiHandler({
+                methodName: 'cancelSavingsPlan',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSavingsPlanController_getSavingsPlanExecutions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/savings-plans/:id/executions',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController)),
+            ...(fetchMiddlewares<RequestHandler>(SavingsPlanController.prototype.getSavingsPlanExecutions)),
+
+            async function SavingsPlanController_getSavingsPlanExecutions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSavingsPlanController_getSavingsPlanExecutions, request, response });
+
+                const controller = new SavingsPlanController();
+
+              await templateService.apiHandler({
+                methodName: 'getSavingsPlanExecutions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsRegistrationController_register: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"EnhancedRegistrationRequest"},
+                req: {"in":"request","name":"req","required":true,"dataType":"object"},
+        };
+        app.post('/api/auth/register',
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController)),
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController.prototype.register)),
+
+            async function RegistrationController_register(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsRegistrationController_register, request, response });
+
+                const controller = new RegistrationController();
+
+              await templateService.apiHandler({
+                methodName: 'register',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsRegistrationController_checkEmail: Record<string, TsoaRoute.ParameterSchema> = {
+                email: {"in":"path","name":"email","required":true,"dataType":"string"},
+        };
+        app.get('/api/auth/register/check-email/:email',
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController)),
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController.prototype.checkEmail)),
+
+            async function RegistrationController_checkEmail(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsRegistrationController_checkEmail, request, response });
+
+                const controller = new RegistrationController();
+
+              await templateService.apiHandler({
+                methodName: 'checkEmail',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsRegistrationController_resendVerification: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ResendVerificationRequest"},
+        };
+        app.post('/api/auth/register/resend-verification',
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController)),
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController.prototype.resendVerification)),
+
+            async function RegistrationController_resendVerification(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsRegistrationController_resendVerification, request, response });
+
+                const controller = new RegistrationController();
+
+              await templateService.apiHandler({
+                methodName: 'resendVerification',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsRegistrationController_verifyEmail: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"VerifyEmailRequest"},
+        };
+        app.post('/api/auth/verify-email',
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController)),
+            ...(fetchMiddlewares<RequestHandler>(RegistrationController.prototype.verifyEmail)),
+
+            async function RegistrationController_verifyEmail(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsRegistrationController_verifyEmail, request, response });
+
+                const controller = new RegistrationController();
+
+              await templateService.apiHandler({
+                methodName: 'verifyEmail',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsReferenceDataController_getAllReferenceData: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/api/references',
+            ...(fetchMiddlewares<RequestHandler>(ReferenceDataController)),
+            ...(fetchMiddlewares<RequestHandler>(ReferenceDataController.prototype.getAllReferenceData)),
+
+            async function ReferenceDataController_getAllReferenceData(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsReferenceDataController_getAllReferenceData, request, response });
+
+                const controller = new ReferenceDataController();
+
+              await templateService.apiHandler({
+                methodName: 'getAllReferenceData',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsQuotesController_createQuote: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                body: {"in":"body","name":"body","required":true,"ref":"QuotesCreateInput"},
+        };
+        app.post('/api/quotes',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(QuotesController)),
+            ...(fetchMiddlewares<RequestHandler>(QuotesController.prototype.createQuote)),
+
+            async function QuotesController_createQuote(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsQuotesController_createQuote, request, response });
+
+                const controller = new QuotesController();
+
+              await templateService.apiHandler({
+                methodName: 'createQuote',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsQuotesController_getQuote: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/quotes/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(QuotesController)),
+            ...(fetchMiddlewares<RequestHandler>(QuotesController.prototype.getQuote)),
+
+            async function QuotesController_getQuote(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsQuotesController_getQuote, request, response });
+
+                const controller = new QuotesController();
+
+              await templateService.apiHandler({
+                methodName: 'getQuote',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductTypesController_listProductTypes: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                search: {"in":"query","name":"search","dataType":"string"},
+        };
+        app.get('/api/productTypes',
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.listProductTypes)),
+
+            async function ProductTypesController_listProductTypes(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_listProductTypes, request, response });
+
+                const controller = new ProductTypesController();
+
+              await templateService.apiHandler({
+                methodName: 'listProductTypes',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductTypesController_createProductType: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ProductTypeRequest"},
+        };
+        app.post('/api/productTypes',
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.createProductType)),
+
+            async function ProductTypesController_createProductType(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_createProductType, request, response });
+
+                const controller = new ProductTypesController();
+
+              await templateService.apiHandler({
+                methodName: 'createProductType',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductTypesController_updateProductType: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ProductTypeRequest"},
+        };
+        app.put('/api/productTypes/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.updateProductType)),
+
+            async function ProductTypesController_updateProductType(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_updateProductType, request, response });
+
+                const controller = new ProductTypesController();
+
+              await templateService.apiHandler({
+                methodName: 'updateProductType',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductTypesController_deleteProductType: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.delete('/api/productTypes/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.deleteProductType)),
+
+            async function ProductTypesController_deleteProductType(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_deleteProductType, request, response });
+
+                const controller = new ProductTypesController();
+
+              await templateService.apiHandler({
+                methodName: 'deleteProductType',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 204,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductTypesController_getProductTypeById: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/productTypes/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.getProductTypeById)),
+
+            async function ProductTypesController_getProductTypeById(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_getProductTypeById, request, response });
+
+                const controller = new ProductTypesController();
+
+              await templateService.apiHandler({
+                methodName: 'getProductTypeById',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductController_getProducts: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["name"]},{"dataType":"enum","enums":["price"]},{"dataType":"enum","enums":["createdAt"]}]},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+                search: {"in":"query","name":"search","dataType":"string"},
+                metalId: {"in":"query","name":"metalId","dataType":"string"},
+                productTypeId: {"in":"query","name":"productTypeId","dataType":"string"},
+                producerId: {"in":"query","name":"producerId","dataType":"string"},
+                inStock: {"in":"query","name":"inStock","dataType":"boolean"},
+                minPrice: {"in":"query","name":"minPrice","dataType":"double"},
+                maxPrice: {"in":"query","name":"maxPrice","dataType":"double"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
+        };
+        app.get('/api/products',
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProducts)),
+
+            async function ProductController_getProducts(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProducts, request, response });
+
+                const controller = new ProductController();
+
+              await templateService.apiHandler({
+                methodName: 'getProducts',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductController_getProductById: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
+        };
+        app.get('/api/products/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductById)),
+
+            async function ProductController_getProductById(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductById, request, response });
+
+                const controller = new ProductController();
+
+              await templateService.apiHandler({
+                methodName: 'getProductById',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductController_getProductPrice: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        };
+        app.get('/api/products/price/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductPrice)),
 
-// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+            async function ProductController_getProductPrice(request: ExRequest, response: ExResponse, next: any) {
 
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductPrice, request, response });
 
+                const controller = new ProductController();
 
-export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof multer>}) {
+              await templateService.apiHandler({
+                methodName: 'getProductPrice',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductController_getProductPrices: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"BulkPriceRequest"},
+        };
+        app.post('/api/products/prices',
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductPrices)),
 
-    // ###########################################################################################################
-    //  NOTE: If you do not see routes for all of your controllers in this file, then you might not have informed tsoa of where to look
-    //      Please look into the "controllerPathGlobs" config option described in the readme: https://github.com/lukeautry/tsoa
-    // ###########################################################################################################
+            async function ProductController_getProductPrices(request: ExRequest, response: ExResponse, next: any) {
 
-    const upload = opts?.multer ||  multer({"limits":{"fileSize":8388608}});
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
-    
-        const argsUserController_getUsers: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                search: {"in":"query","name":"search","dataType":"string"},
-                role: {"in":"query","name":"role","dataType":"string"},
-                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["email"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["updatedAt"]},{"dataType":"enum","enums":["lastLogin"]}]},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductPrices, request, response });
+
+                const controller = new ProductController();
+
+              await templateService.apiHandler({
+                methodName: 'getProductPrices',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProductController_createProduct: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreateProductRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/users',
+        app.post('/api/products',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getUsers)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.createProduct)),
 
-            async function UserController_getUsers(request: ExRequest, response: ExResponse, next: any) {
+            async function ProductController_createProduct(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getUsers, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_createProduct, request, response });
 
-                const controller = new UserController();
+                const controller = new ProductController();
 
               await templateService.apiHandler({
-                methodName: 'getUsers',
+                methodName: 'createProduct',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_getBlockedUsers: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsProductController_updateProduct: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"UpdateProductRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/users/blocked',
-            authenticateMiddleware([{"bearerAuth":["admin"]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getBlockedUsers)),
+        app.put('/api/products/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.updateProduct)),
 
-            async function UserController_getBlockedUsers(request: ExRequest, response: ExResponse, next: any) {
+            async function ProductController_updateProduct(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getBlockedUsers, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_updateProduct, request, response });
 
-                const controller = new UserController();
+                const controller = new ProductController();
 
               await templateService.apiHandler({
-                methodName: 'getBlockedUsers',
+                methodName: 'updateProduct',
                 controller,
                 response,
                 next,
@@ -2225,25 +5240,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_getUserById: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsProductController_deleteProduct: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/users/:id',
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getUserById)),
+        app.delete('/api/products/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.deleteProduct)),
 
-            async function UserController_getUserById(request: ExRequest, response: ExResponse, next: any) {
+            async function ProductController_deleteProduct(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getUserById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_deleteProduct, request, response });
 
-                const controller = new UserController();
+                const controller = new ProductController();
 
               await templateService.apiHandler({
-                methodName: 'getUserById',
+                methodName: 'deleteProduct',
                 controller,
                 response,
                 next,
@@ -2255,26 +5272,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_getUserDetails: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsProductController_validateProduct: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreateProductRequest"},
         };
-        app.get('/api/users/:id/details',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.getUserDetails)),
+        app.post('/api/products/validate',
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.validateProduct)),
 
-            async function UserController_getUserDetails(request: ExRequest, response: ExResponse, next: any) {
+            async function ProductController_validateProduct(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_getUserDetails, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_validateProduct, request, response });
 
-                const controller = new UserController();
+                const controller = new ProductController();
 
               await templateService.apiHandler({
-                methodName: 'getUserDetails',
+                methodName: 'validateProduct',
                 controller,
                 response,
                 next,
@@ -2286,28 +5302,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_patchUserProfile: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsProductController_getProductImage: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                body: {"in":"body","name":"body","required":true,"ref":"PatchUserProfileRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.patch('/api/users/:id/profile',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.patchUserProfile)),
+        app.get('/api/products/:id/image',
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductImage)),
 
-            async function UserController_patchUserProfile(request: ExRequest, response: ExResponse, next: any) {
+            async function ProductController_getProductImage(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_patchUserProfile, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductImage, request, response });
 
-                const controller = new UserController();
+                const controller = new ProductController();
 
               await templateService.apiHandler({
-                methodName: 'patchUserProfile',
+                methodName: 'getProductImage',
                 controller,
                 response,
                 next,
@@ -2319,60 +5332,62 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_createUser: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"CreateUserRequest"},
+        const argsProductController_uploadProductImage: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ImageUploadRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/api/users',
+        app.post('/api/products/:id/image',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.createUser)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController)),
+            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.uploadProductImage)),
 
-            async function UserController_createUser(request: ExRequest, response: ExResponse, next: any) {
+            async function ProductController_uploadProductImage(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_createUser, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_uploadProductImage, request, response });
 
-                const controller = new UserController();
+                const controller = new ProductController();
 
               await templateService.apiHandler({
-                methodName: 'createUser',
+                methodName: 'uploadProductImage',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_updateUser: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                body: {"in":"body","name":"body","required":true,"ref":"UpdateUserRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsProducersController_listProducers: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                search: {"in":"query","name":"search","dataType":"string"},
+                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["name"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["updatedAt"]},{"dataType":"enum","enums":["status"]}]},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
         };
-        app.put('/api/users/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.updateUser)),
+        app.get('/api/producers',
+            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
+            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.listProducers)),
 
-            async function UserController_updateUser(request: ExRequest, response: ExResponse, next: any) {
+            async function ProducersController_listProducers(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_updateUser, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_listProducers, request, response });
 
-                const controller = new UserController();
+                const controller = new ProducersController();
 
               await templateService.apiHandler({
-                methodName: 'updateUser',
+                methodName: 'listProducers',
                 controller,
                 response,
                 next,
@@ -2384,28 +5399,55 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_blockUser: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsProducersController_createProducer: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"infer_typeofProducerCreateRequestSchema_"},
+        };
+        app.post('/api/producers',
+            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
+            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.createProducer)),
+
+            async function ProducersController_createProducer(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_createProducer, request, response });
+
+                const controller = new ProducersController();
+
+              await templateService.apiHandler({
+                methodName: 'createProducer',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsProducersController_getProducerById: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                body: {"in":"body","name":"body","required":true,"ref":"BlockUserRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/api/users/:id/block',
-            authenticateMiddleware([{"bearerAuth":["admin"]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.blockUser)),
+        app.get('/api/producers/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
+            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.getProducerById)),
 
-            async function UserController_blockUser(request: ExRequest, response: ExResponse, next: any) {
+            async function ProducersController_getProducerById(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_blockUser, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_getProducerById, request, response });
 
-                const controller = new UserController();
+                const controller = new ProducersController();
 
               await templateService.apiHandler({
-                methodName: 'blockUser',
+                methodName: 'getProducerById',
                 controller,
                 response,
                 next,
@@ -2417,27 +5459,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_unblockUser: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsProducersController_updateProducer: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"infer_typeofProducerUpdateRequestSchema_"},
         };
-        app.post('/api/users/:id/unblock',
-            authenticateMiddleware([{"bearerAuth":["admin"]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.unblockUser)),
+        app.put('/api/producers/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
+            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.updateProducer)),
 
-            async function UserController_unblockUser(request: ExRequest, response: ExResponse, next: any) {
+            async function ProducersController_updateProducer(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_unblockUser, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_updateProducer, request, response });
 
-                const controller = new UserController();
+                const controller = new ProducersController();
 
               await templateService.apiHandler({
-                methodName: 'unblockUser',
+                methodName: 'updateProducer',
                 controller,
                 response,
                 next,
@@ -2449,27 +5490,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_softDeleteUser: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsProducersController_deleteProducer: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.delete('/api/users/:id/soft',
-            authenticateMiddleware([{"bearerAuth":["admin"]}]),
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.softDeleteUser)),
+        app.delete('/api/producers/:id',
+            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
+            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.deleteProducer)),
 
-            async function UserController_softDeleteUser(request: ExRequest, response: ExResponse, next: any) {
+            async function ProducersController_deleteProducer(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_softDeleteUser, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_deleteProducer, request, response });
 
-                const controller = new UserController();
+                const controller = new ProducersController();
 
               await templateService.apiHandler({
-                methodName: 'softDeleteUser',
+                methodName: 'deleteProducer',
                 controller,
                 response,
                 next,
@@ -2481,25 +5520,29 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsUserController_deleteUser: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsPositionsController_getPositions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"default":1,"in":"query","name":"page","dataType":"double"},
+                limit: {"default":20,"in":"query","name":"limit","dataType":"double"},
+                status: {"default":"active","in":"query","name":"status","dataType":"string"},
         };
-        app.delete('/api/users/:id',
-            ...(fetchMiddlewares<RequestHandler>(UserController)),
-            ...(fetchMiddlewares<RequestHandler>(UserController.prototype.deleteUser)),
+        app.get('/api/positions',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PositionsController)),
+            ...(fetchMiddlewares<RequestHandler>(PositionsController.prototype.getPositions)),
 
-            async function UserController_deleteUser(request: ExRequest, response: ExResponse, next: any) {
+            async function PositionsController_getPositions(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsUserController_deleteUser, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPositionsController_getPositions, request, response });
 
-                const controller = new UserController();
+                const controller = new PositionsController();
 
               await templateService.apiHandler({
-                methodName: 'deleteUser',
+                methodName: 'getPositions',
                 controller,
                 response,
                 next,
@@ -2511,38 +5554,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsTransactionsController_getTransactions: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsPositionsController_getPortfolioPositions: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                page: {"in":"query","name":"page","dataType":"string"},
-                limit: {"in":"query","name":"limit","dataType":"string"},
-                type: {"in":"query","name":"type","dataType":"union","subSchemas":[{"dataType":"enum","enums":["buy"]},{"dataType":"enum","enums":["sell"]}]},
-                positionId: {"in":"query","name":"positionId","dataType":"string"},
-                dateFrom: {"in":"query","name":"dateFrom","dataType":"string"},
-                dateTo: {"in":"query","name":"dateTo","dataType":"string"},
-                minQuantity: {"in":"query","name":"minQuantity","dataType":"string"},
-                maxQuantity: {"in":"query","name":"maxQuantity","dataType":"string"},
-                minPrice: {"in":"query","name":"minPrice","dataType":"string"},
-                maxPrice: {"in":"query","name":"maxPrice","dataType":"string"},
-                sortBy: {"in":"query","name":"sortBy","dataType":"string"},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"string"},
+                portfolioId: {"in":"path","name":"portfolioId","required":true,"dataType":"string"},
         };
-        app.get('/api/transactions',
+        app.get('/api/positions/portfolios/:portfolioId/positions',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionsController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionsController.prototype.getTransactions)),
+            ...(fetchMiddlewares<RequestHandler>(PositionsController)),
+            ...(fetchMiddlewares<RequestHandler>(PositionsController.prototype.getPortfolioPositions)),
 
-            async function TransactionsController_getTransactions(request: ExRequest, response: ExResponse, next: any) {
+            async function PositionsController_getPortfolioPositions(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionsController_getTransactions, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPositionsController_getPortfolioPositions, request, response });
 
-                const controller = new TransactionsController();
+                const controller = new PositionsController();
 
               await templateService.apiHandler({
-                methodName: 'getTransactions',
+                methodName: 'getPortfolioPositions',
                 controller,
                 response,
                 next,
@@ -2554,57 +5586,76 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsTransactionsController_createTransaction: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreateTransactionRequest"},
+        const argsPositionsController_getPosition: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.post('/api/transactions',
+        app.get('/api/positions/:id',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionsController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionsController.prototype.createTransaction)),
+            ...(fetchMiddlewares<RequestHandler>(PositionsController)),
+            ...(fetchMiddlewares<RequestHandler>(PositionsController.prototype.getPosition)),
 
-            async function TransactionsController_createTransaction(request: ExRequest, response: ExResponse, next: any) {
+            async function PositionsController_getPosition(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionsController_createTransaction, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPositionsController_getPosition, request, response });
 
-                const controller = new TransactionsController();
+                const controller = new PositionsController();
 
               await templateService.apiHandler({
-                methodName: 'createTransaction',
+                methodName: 'getPosition',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsTransactionsController_getTransaction: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsPortfolioController_getPortfolios: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                search: {"in":"query","name":"search","dataType":"string"},
+                ownerId: {"in":"query","name":"ownerId","dataType":"string"},
+                isActive: {"in":"query","name":"isActive","dataType":"boolean"},
+                minValue: {"in":"query","name":"minValue","dataType":"double"},
+                maxValue: {"in":"query","name":"maxValue","dataType":"double"},
+                minPositionCount: {"in":"query","name":"minPositionCount","dataType":"double"},
+                maxPositionCount: {"in":"query","name":"maxPositionCount","dataType":"double"},
+                minGainLoss: {"in":"query","name":"minGainLoss","dataType":"double"},
+                maxGainLoss: {"in":"query","name":"maxGainLoss","dataType":"double"},
+                createdAfter: {"in":"query","name":"createdAfter","dataType":"string"},
+                createdBefore: {"in":"query","name":"createdBefore","dataType":"string"},
+                updatedAfter: {"in":"query","name":"updatedAfter","dataType":"string"},
+                updatedBefore: {"in":"query","name":"updatedBefore","dataType":"string"},
+                metal: {"in":"query","name":"metal","dataType":"union","subSchemas":[{"dataType":"enum","enums":["gold"]},{"dataType":"enum","enums":["silver"]},{"dataType":"enum","enums":["platinum"]},{"dataType":"enum","enums":["palladium"]}]},
+                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["portfolioName"]},{"dataType":"enum","enums":["totalValue"]},{"dataType":"enum","enums":["totalGainLoss"]},{"dataType":"enum","enums":["positionCount"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["updatedAt"]}]},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.get('/api/transactions/:id',
+        app.get('/api/portfolios',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionsController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionsController.prototype.getTransaction)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolios)),
 
-            async function TransactionsController_getTransaction(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_getPortfolios(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionsController_getTransaction, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolios, request, response });
 
-                const controller = new TransactionsController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'getTransaction',
+                methodName: 'getPortfolios',
                 controller,
                 response,
                 next,
@@ -2616,56 +5667,59 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsRegistrationController_register: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"EnhancedRegistrationRequest"},
-                req: {"in":"request","name":"req","required":true,"dataType":"object"},
+        const argsPortfolioController_getMyPortfolios: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.post('/api/auth/register',
-            ...(fetchMiddlewares<RequestHandler>(RegistrationController)),
-            ...(fetchMiddlewares<RequestHandler>(RegistrationController.prototype.register)),
+        app.get('/api/portfolios/my',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getMyPortfolios)),
 
-            async function RegistrationController_register(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_getMyPortfolios(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsRegistrationController_register, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getMyPortfolios, request, response });
 
-                const controller = new RegistrationController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'register',
+                methodName: 'getMyPortfolios',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsRegistrationController_checkEmail: Record<string, TsoaRoute.ParameterSchema> = {
-                email: {"in":"path","name":"email","required":true,"dataType":"string"},
+        const argsPortfolioController_getPortfolioById: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.get('/api/auth/register/check-email/:email',
-            ...(fetchMiddlewares<RequestHandler>(RegistrationController)),
-            ...(fetchMiddlewares<RequestHandler>(RegistrationController.prototype.checkEmail)),
+        app.get('/api/portfolios/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolioById)),
 
-            async function RegistrationController_checkEmail(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_getPortfolioById(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsRegistrationController_checkEmail, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolioById, request, response });
 
-                const controller = new RegistrationController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'checkEmail',
+                methodName: 'getPortfolioById',
                 controller,
                 response,
                 next,
@@ -2677,25 +5731,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsRegistrationController_resendVerification: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ResendVerificationRequest"},
+        const argsPortfolioController_getPortfolioSummary: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.post('/api/auth/register/resend-verification',
-            ...(fetchMiddlewares<RequestHandler>(RegistrationController)),
-            ...(fetchMiddlewares<RequestHandler>(RegistrationController.prototype.resendVerification)),
+        app.get('/api/portfolios/:id/summary',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolioSummary)),
 
-            async function RegistrationController_resendVerification(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_getPortfolioSummary(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsRegistrationController_resendVerification, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolioSummary, request, response });
 
-                const controller = new RegistrationController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'resendVerification',
+                methodName: 'getPortfolioSummary',
                 controller,
                 response,
                 next,
@@ -2707,24 +5762,28 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsReferenceDataController_getAllReferenceData: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsPortfolioController_getPortfolioValuation: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.get('/api/references',
-            ...(fetchMiddlewares<RequestHandler>(ReferenceDataController)),
-            ...(fetchMiddlewares<RequestHandler>(ReferenceDataController.prototype.getAllReferenceData)),
+        app.get('/api/portfolios/:id/valuation',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolioValuation)),
 
-            async function ReferenceDataController_getAllReferenceData(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_getPortfolioValuation(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsReferenceDataController_getAllReferenceData, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolioValuation, request, response });
 
-                const controller = new ReferenceDataController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'getAllReferenceData',
+                methodName: 'getPortfolioValuation',
                 controller,
                 response,
                 next,
@@ -2736,27 +5795,31 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductTypesController_listProductTypes: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                search: {"in":"query","name":"search","dataType":"string"},
+        const argsPortfolioController_getPortfolioPerformance: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                from: {"in":"query","name":"from","dataType":"string"},
+                to: {"in":"query","name":"to","dataType":"string"},
+                interval: {"in":"query","name":"interval","ref":"PerformanceInterval"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.get('/api/productTypes',
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.listProductTypes)),
+        app.get('/api/portfolios/:id/performance',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolioPerformance)),
 
-            async function ProductTypesController_listProductTypes(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_getPortfolioPerformance(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_listProductTypes, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolioPerformance, request, response });
 
-                const controller = new ProductTypesController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'listProductTypes',
+                methodName: 'getPortfolioPerformance',
                 controller,
                 response,
                 next,
@@ -2768,116 +5831,125 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductTypesController_createProductType: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ProductTypeRequest"},
+        const argsPortfolioController_getRealizedGains: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                year: {"in":"query","name":"year","dataType":"double"},
         };
-        app.post('/api/productTypes',
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.createProductType)),
+        app.get('/api/portfolios/:id/realized-gains',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getRealizedGains)),
 
-            async function ProductTypesController_createProductType(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_getRealizedGains(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_createProductType, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getRealizedGains, request, response });
 
-                const controller = new ProductTypesController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'createProductType',
+                methodName: 'getRealizedGains',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductTypesController_updateProductType: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ProductTypeRequest"},
+        const argsPortfolioController_createPortfolio: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreatePortfolioRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.put('/api/productTypes/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.updateProductType)),
+        app.post('/api/portfolios',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.createPortfolio)),
 
-            async function ProductTypesController_updateProductType(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_createPortfolio(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_updateProductType, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_createPortfolio, request, response });
 
-                const controller = new ProductTypesController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'updateProductType',
+                methodName: 'createPortfolio',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductTypesController_deleteProductType: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsPortfolioController_updatePortfolio: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"UpdatePortfolioRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.delete('/api/productTypes/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.deleteProductType)),
+        app.put('/api/portfolios/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.updatePortfolio)),
 
-            async function ProductTypesController_deleteProductType(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_updatePortfolio(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_deleteProductType, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_updatePortfolio, request, response });
 
-                const controller = new ProductTypesController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'deleteProductType',
+                methodName: 'updatePortfolio',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 204,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductTypesController_getProductTypeById: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsPortfolioController_deletePortfolio: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/productTypes/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductTypesController.prototype.getProductTypeById)),
+        app.delete('/api/portfolios/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
+            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.deletePortfolio)),
 
-            async function ProductTypesController_getProductTypeById(request: ExRequest, response: ExResponse, next: any) {
+            async function PortfolioController_deletePortfolio(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductTypesController_getProductTypeById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_deletePortfolio, request, response });
 
-                const controller = new ProductTypesController();
+                const controller = new PortfolioController();
 
               await templateService.apiHandler({
-                methodName: 'getProductTypeById',
+                methodName: 'deletePortfolio',
                 controller,
                 response,
                 next,
@@ -2889,65 +5961,58 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_getProducts: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["name"]},{"dataType":"enum","enums":["price"]},{"dataType":"enum","enums":["createdAt"]}]},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
-                search: {"in":"query","name":"search","dataType":"string"},
-                metalId: {"in":"query","name":"metalId","dataType":"string"},
-                productTypeId: {"in":"query","name":"productTypeId","dataType":"string"},
-                producerId: {"in":"query","name":"producerId","dataType":"string"},
-                inStock: {"in":"query","name":"inStock","dataType":"boolean"},
-                minPrice: {"in":"query","name":"minPrice","dataType":"double"},
-                maxPrice: {"in":"query","name":"maxPrice","dataType":"double"},
+        const argsPaymentsController_createPaymentIntent: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreatePaymentIntentRequest"},
         };
-        app.get('/api/products',
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProducts)),
+        app.post('/api/payments/intent',
+            authenticateMiddleware([{"bearerAuth":["email_verified"]}]),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.createPaymentIntent)),
 
-            async function ProductController_getProducts(request: ExRequest, response: ExResponse, next: any) {
+            async function PaymentsController_createPaymentIntent(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProducts, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_createPaymentIntent, request, response });
 
-                const controller = new ProductController();
+                const controller = new PaymentsController();
 
               await templateService.apiHandler({
-                methodName: 'getProducts',
+                methodName: 'createPaymentIntent',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_getProductById: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsPaymentsController_confirmPayment: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"Partial_ConfirmPaymentRequest_"},
         };
-        app.get('/api/products/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductById)),
+        app.post('/api/payments/intent/:id/confirm',
+            authenticateMiddleware([{"bearerAuth":["email_verified"]}]),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.confirmPayment)),
 
-            async function ProductController_getProductById(request: ExRequest, response: ExResponse, next: any) {
+            async function PaymentsController_confirmPayment(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_confirmPayment, request, response });
 
-                const controller = new ProductController();
+                const controller = new PaymentsController();
 
               await templateService.apiHandler({
-                methodName: 'getProductById',
+                methodName: 'confirmPayment',
                 controller,
                 response,
                 next,
@@ -2959,25 +6024,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_getProductPrice: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsPaymentsController_retrievePaymentIntent: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/products/price/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductPrice)),
+        app.get('/api/payments/intent/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.retrievePaymentIntent)),
 
-            async function ProductController_getProductPrice(request: ExRequest, response: ExResponse, next: any) {
+            async function PaymentsController_retrievePaymentIntent(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductPrice, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_retrievePaymentIntent, request, response });
 
-                const controller = new ProductController();
+                const controller = new PaymentsController();
 
               await templateService.apiHandler({
-                methodName: 'getProductPrice',
+                methodName: 'retrievePaymentIntent',
                 controller,
                 response,
                 next,
@@ -2989,25 +6055,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_getProductPrices: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"BulkPriceRequest"},
+        const argsPaymentsController_listPaymentMethods: Record<string, TsoaRoute.ParameterSchema> = {
+                customerId: {"in":"query","name":"customerId","required":true,"dataType":"string"},
         };
-        app.post('/api/products/prices',
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductPrices)),
+        app.get('/api/payments/methods',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
+            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.listPaymentMethods)),
 
-            async function ProductController_getProductPrices(request: ExRequest, response: ExResponse, next: any) {
+            async function PaymentsController_listPaymentMethods(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductPrices, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_listPaymentMethods, request, response });
 
-                const controller = new ProductController();
+                const controller = new PaymentsController();
 
               await templateService.apiHandler({
-                methodName: 'getProductPrices',
+                methodName: 'listPaymentMethods',
                 controller,
                 response,
                 next,
@@ -3019,60 +6086,68 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_createProduct: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreateProductRequest"},
+        const argsOrdersController_getOrders: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                status: {"in":"query","name":"status","dataType":"string"},
+                type: {"in":"query","name":"type","dataType":"string"},
+                userId: {"in":"query","name":"userId","dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.post('/api/products',
+        app.get('/api/orders',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.createProduct)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrders)),
 
-            async function ProductController_createProduct(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_getOrders(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_createProduct, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrders, request, response });
 
-                const controller = new ProductController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'createProduct',
+                methodName: 'getOrders',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_updateProduct: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"UpdateProductRequest"},
+        const argsOrdersController_getOrdersAdmin: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                status: {"in":"query","name":"status","dataType":"string"},
+                type: {"in":"query","name":"type","dataType":"string"},
+                userId: {"in":"query","name":"userId","dataType":"string"},
         };
-        app.put('/api/products/:id',
+        app.get('/api/orders/admin',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.updateProduct)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrdersAdmin)),
 
-            async function ProductController_updateProduct(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_getOrdersAdmin(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_updateProduct, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrdersAdmin, request, response });
 
-                const controller = new ProductController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'updateProduct',
+                methodName: 'getOrdersAdmin',
                 controller,
                 response,
                 next,
@@ -3084,27 +6159,31 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_deleteProduct: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsOrdersController_getMyOrders: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                status: {"in":"query","name":"status","dataType":"string"},
+                type: {"in":"query","name":"type","dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.delete('/api/products/:id',
+        app.get('/api/orders/my',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.deleteProduct)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getMyOrders)),
 
-            async function ProductController_deleteProduct(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_getMyOrders(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_deleteProduct, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getMyOrders, request, response });
 
-                const controller = new ProductController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'deleteProduct',
+                methodName: 'getMyOrders',
                 controller,
                 response,
                 next,
@@ -3116,55 +6195,59 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_validateProduct: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreateProductRequest"},
+        const argsOrdersController_createOrder: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                body: {"in":"body","name":"body","required":true,"ref":"OrdersCreateInput"},
         };
-        app.post('/api/products/validate',
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.validateProduct)),
+        app.post('/api/orders',
+            authenticateMiddleware([{"bearerAuth":["email_verified"]}]),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.createOrder)),
 
-            async function ProductController_validateProduct(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_createOrder(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_validateProduct, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_createOrder, request, response });
 
-                const controller = new ProductController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'validateProduct',
+                methodName: 'createOrder',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_getProductImage: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsOrdersController_getOrder: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.get('/api/products/:id/image',
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.getProductImage)),
+        app.get('/api/orders/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrder)),
 
-            async function ProductController_getProductImage(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_getOrder(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_getProductImage, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrder, request, response });
 
-                const controller = new ProductController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'getProductImage',
+                methodName: 'getOrder',
                 controller,
                 response,
                 next,
@@ -3176,28 +6259,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProductController_uploadProductImage: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"ImageUploadRequest"},
+        const argsOrdersController_getOrderDetailed: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.post('/api/products/:id/image',
+        app.get('/api/orders/:id/detailed',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ProductController)),
-            ...(fetchMiddlewares<RequestHandler>(ProductController.prototype.uploadProductImage)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrderDetailed)),
 
-            async function ProductController_uploadProductImage(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_getOrderDetailed(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProductController_uploadProductImage, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrderDetailed, request, response });
 
-                const controller = new ProductController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'uploadProductImage',
+                methodName: 'getOrderDetailed',
                 controller,
                 response,
                 next,
@@ -3209,29 +6291,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProducersController_listProducers: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                search: {"in":"query","name":"search","dataType":"string"},
-                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["name"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["updatedAt"]},{"dataType":"enum","enums":["status"]}]},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+        const argsOrdersController_getOrderHistory: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/producers',
-            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
-            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.listProducers)),
+        app.get('/api/orders/:id/history',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrderHistory)),
 
-            async function ProducersController_listProducers(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_getOrderHistory(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_listProducers, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrderHistory, request, response });
 
-                const controller = new ProducersController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'listProducers',
+                methodName: 'getOrderHistory',
                 controller,
                 response,
                 next,
@@ -3243,55 +6323,60 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProducersController_createProducer: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"infer_typeofProducerCreateRequestSchema_"},
+        const argsOrdersController_processOrder: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.post('/api/producers',
-            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
-            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.createProducer)),
+        app.post('/api/orders/:id/process',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.processOrder)),
 
-            async function ProducersController_createProducer(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_processOrder(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_createProducer, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_processOrder, request, response });
 
-                const controller = new ProducersController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'createProducer',
+                methodName: 'processOrder',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProducersController_getProducerById: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsOrdersController_updateOrder: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"OrdersUpdateInput"},
         };
-        app.get('/api/producers/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
-            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.getProducerById)),
+        app.put('/api/orders/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.updateOrder)),
 
-            async function ProducersController_getProducerById(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_updateOrder(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_getProducerById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_updateOrder, request, response });
 
-                const controller = new ProducersController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'getProducerById',
+                methodName: 'updateOrder',
                 controller,
                 response,
                 next,
@@ -3303,26 +6388,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProducersController_updateProducer: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsOrdersController_deleteOrder: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"infer_typeofProducerUpdateRequestSchema_"},
         };
-        app.put('/api/producers/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
-            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.updateProducer)),
+        app.delete('/api/orders/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.deleteOrder)),
 
-            async function ProducersController_updateProducer(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_deleteOrder(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_updateProducer, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_deleteOrder, request, response });
 
-                const controller = new ProducersController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'updateProducer',
+                methodName: 'deleteOrder',
                 controller,
                 response,
                 next,
@@ -3334,25 +6420,28 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsProducersController_deleteProducer: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsOrdersController_cancelOrder: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","ref":"OrdersCancelInput"},
         };
-        app.delete('/api/producers/:id',
-            ...(fetchMiddlewares<RequestHandler>(ProducersController)),
-            ...(fetchMiddlewares<RequestHandler>(ProducersController.prototype.deleteProducer)),
+        app.post('/api/orders/:id/cancel',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
+            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.cancelOrder)),
 
-            async function ProducersController_deleteProducer(request: ExRequest, response: ExResponse, next: any) {
+            async function OrdersController_cancelOrder(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsProducersController_deleteProducer, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_cancelOrder, request, response });
 
-                const controller = new ProducersController();
+                const controller = new OrdersController();
 
               await templateService.apiHandler({
-                methodName: 'deleteProducer',
+                methodName: 'cancelOrder',
                 controller,
                 response,
                 next,
@@ -3364,29 +6453,24 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPositionsController_getPositions: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                page: {"default":1,"in":"query","name":"page","dataType":"double"},
-                limit: {"default":20,"in":"query","name":"limit","dataType":"double"},
-                status: {"default":"active","in":"query","name":"status","dataType":"string"},
+        const argsOrderStatusController_listOrderStatus: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.get('/api/positions',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PositionsController)),
-            ...(fetchMiddlewares<RequestHandler>(PositionsController.prototype.getPositions)),
+        app.get('/api/orderstatus',
+            ...(fetchMiddlewares<RequestHandler>(OrderStatusController)),
+            ...(fetchMiddlewares<RequestHandler>(OrderStatusController.prototype.listOrderStatus)),
 
-            async function PositionsController_getPositions(request: ExRequest, response: ExResponse, next: any) {
+            async function OrderStatusController_listOrderStatus(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPositionsController_getPositions, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsOrderStatusController_listOrderStatus, request, response });
 
-                const controller = new PositionsController();
+                const controller = new OrderStatusController();
 
               await templateService.apiHandler({
-                methodName: 'getPositions',
+                methodName: 'listOrderStatus',
                 controller,
                 response,
                 next,
@@ -3398,27 +6482,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPositionsController_getPortfolioPositions: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                portfolioId: {"in":"path","name":"portfolioId","required":true,"dataType":"string"},
+        const argsMetalsController_listMetals: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                search: {"in":"query","name":"search","dataType":"string"},
         };
-        app.get('/api/positions/portfolios/:portfolioId/positions',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PositionsController)),
-            ...(fetchMiddlewares<RequestHandler>(PositionsController.prototype.getPortfolioPositions)),
+        app.get('/api/metals',
+            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
+            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.listMetals)),
 
-            async function PositionsController_getPortfolioPositions(request: ExRequest, response: ExResponse, next: any) {
+            async function MetalsController_listMetals(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPositionsController_getPortfolioPositions, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_listMetals, request, response });
 
-                const controller = new PositionsController();
+                const controller = new MetalsController();
 
               await templateService.apiHandler({
-                methodName: 'getPortfolioPositions',
+                methodName: 'listMetals',
                 controller,
                 response,
                 next,
@@ -3430,75 +6514,56 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPositionsController_getPosition: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsMetalsController_createMetal: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"MetalRequest"},
         };
-        app.get('/api/positions/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PositionsController)),
-            ...(fetchMiddlewares<RequestHandler>(PositionsController.prototype.getPosition)),
+        app.post('/api/metals',
+            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
+            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.createMetal)),
 
-            async function PositionsController_getPosition(request: ExRequest, response: ExResponse, next: any) {
+            async function MetalsController_createMetal(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPositionsController_getPosition, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_createMetal, request, response });
 
-                const controller = new PositionsController();
+                const controller = new MetalsController();
 
               await templateService.apiHandler({
-                methodName: 'getPosition',
+                methodName: 'createMetal',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPortfolioController_getPortfolios: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                search: {"in":"query","name":"search","dataType":"string"},
-                ownerId: {"in":"query","name":"ownerId","dataType":"string"},
-                isActive: {"in":"query","name":"isActive","dataType":"boolean"},
-                minValue: {"in":"query","name":"minValue","dataType":"double"},
-                maxValue: {"in":"query","name":"maxValue","dataType":"double"},
-                minPositionCount: {"in":"query","name":"minPositionCount","dataType":"double"},
-                maxPositionCount: {"in":"query","name":"maxPositionCount","dataType":"double"},
-                minGainLoss: {"in":"query","name":"minGainLoss","dataType":"double"},
-                maxGainLoss: {"in":"query","name":"maxGainLoss","dataType":"double"},
-                createdAfter: {"in":"query","name":"createdAfter","dataType":"string"},
-                createdBefore: {"in":"query","name":"createdBefore","dataType":"string"},
-                updatedAfter: {"in":"query","name":"updatedAfter","dataType":"string"},
-                updatedBefore: {"in":"query","name":"updatedBefore","dataType":"string"},
-                metal: {"in":"query","name":"metal","dataType":"union","subSchemas":[{"dataType":"enum","enums":["gold"]},{"dataType":"enum","enums":["silver"]},{"dataType":"enum","enums":["platinum"]},{"dataType":"enum","enums":["palladium"]}]},
-                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["portfolioName"]},{"dataType":"enum","enums":["totalValue"]},{"dataType":"enum","enums":["totalGainLoss"]},{"dataType":"enum","enums":["positionCount"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["updatedAt"]}]},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+        const argsMetalsController_updateMetal: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"MetalRequest"},
         };
-        app.get('/api/portfolios',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolios)),
+        app.put('/api/metals/:id',
+            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
+            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.updateMetal)),
 
-            async function PortfolioController_getPortfolios(request: ExRequest, response: ExResponse, next: any) {
+            async function MetalsController_updateMetal(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolios, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_updateMetal, request, response });
 
-                const controller = new PortfolioController();
+                const controller = new MetalsController();
 
               await templateService.apiHandler({
-                methodName: 'getPortfolios',
+                methodName: 'updateMetal',
                 controller,
                 response,
                 next,
@@ -3510,57 +6575,55 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPortfolioController_getMyPortfolios: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsMetalsController_deleteMetal: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/portfolios/my',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getMyPortfolios)),
+        app.delete('/api/metals/:id',
+            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
+            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.deleteMetal)),
 
-            async function PortfolioController_getMyPortfolios(request: ExRequest, response: ExResponse, next: any) {
+            async function MetalsController_deleteMetal(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getMyPortfolios, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_deleteMetal, request, response });
 
-                const controller = new PortfolioController();
+                const controller = new MetalsController();
 
               await templateService.apiHandler({
-                methodName: 'getMyPortfolios',
+                methodName: 'deleteMetal',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 204,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPortfolioController_getPortfolioById: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsMetalsController_getMetalById: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/portfolios/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolioById)),
+        app.get('/api/metals/:id',
+            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
+            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.getMetalById)),
 
-            async function PortfolioController_getPortfolioById(request: ExRequest, response: ExResponse, next: any) {
+            async function MetalsController_getMetalById(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolioById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_getMetalById, request, response });
 
-                const controller = new PortfolioController();
+                const controller = new MetalsController();
 
               await templateService.apiHandler({
-                methodName: 'getPortfolioById',
+                methodName: 'getMetalById',
                 controller,
                 response,
                 next,
@@ -3572,26 +6635,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPortfolioController_getPortfolioSummary: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsMarketDataController_getCurrentPrice: Record<string, TsoaRoute.ParameterSchema> = {
+                metalSymbol: {"in":"path","name":"metalSymbol","required":true,"dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.get('/api/portfolios/:id/summary',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.getPortfolioSummary)),
+        app.get('/api/market-data/price/:metalSymbol',
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getCurrentPrice)),
 
-            async function PortfolioController_getPortfolioSummary(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_getCurrentPrice(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_getPortfolioSummary, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getCurrentPrice, request, response });
 
-                const controller = new PortfolioController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'getPortfolioSummary',
+                methodName: 'getCurrentPrice',
                 controller,
                 response,
                 next,
@@ -3603,60 +6666,55 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPortfolioController_createPortfolio: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreatePortfolioRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsMarketDataController_getMultiplePrices: Record<string, TsoaRoute.ParameterSchema> = {
+                symbols: {"in":"query","name":"symbols","dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.post('/api/portfolios',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.createPortfolio)),
+        app.get('/api/market-data/prices',
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getMultiplePrices)),
 
-            async function PortfolioController_createPortfolio(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_getMultiplePrices(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_createPortfolio, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getMultiplePrices, request, response });
 
-                const controller = new PortfolioController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'createPortfolio',
+                methodName: 'getMultiplePrices',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPortfolioController_updatePortfolio: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"UpdatePortfolioRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsMarketDataController_getMarketStatus: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.put('/api/portfolios/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.updatePortfolio)),
+        app.get('/api/market-data/market-status',
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getMarketStatus)),
 
-            async function PortfolioController_updatePortfolio(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_getMarketStatus(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_updatePortfolio, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getMarketStatus, request, response });
 
-                const controller = new PortfolioController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'updatePortfolio',
+                methodName: 'getMarketStatus',
                 controller,
                 response,
                 next,
@@ -3668,27 +6726,30 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPortfolioController_deletePortfolio: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsMarketDataController_getHistoricalPrices: Record<string, TsoaRoute.ParameterSchema> = {
+                metalSymbol: {"in":"path","name":"metalSymbol","required":true,"dataType":"string"},
+                startDate: {"in":"query","name":"startDate","dataType":"string"},
+                endDate: {"in":"query","name":"endDate","dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                interval: {"in":"query","name":"interval","dataType":"string"},
         };
-        app.delete('/api/portfolios/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController)),
-            ...(fetchMiddlewares<RequestHandler>(PortfolioController.prototype.deletePortfolio)),
+        app.get('/api/market-data/history/:metalSymbol',
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getHistoricalPrices)),
 
-            async function PortfolioController_deletePortfolio(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_getHistoricalPrices(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPortfolioController_deletePortfolio, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getHistoricalPrices, request, response });
 
-                const controller = new PortfolioController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'deletePortfolio',
+                methodName: 'getHistoricalPrices',
                 controller,
                 response,
                 next,
@@ -3700,58 +6761,65 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPaymentsController_createPaymentIntent: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CreatePaymentIntentRequest"},
+        const argsMarketDataController_importPriceHistory: Record<string, TsoaRoute.ParameterSchema> = {
+                file: {"in":"formData","name":"file","required":true,"dataType":"file"},
+                provider: {"in":"query","name":"provider","dataType":"string"},
+                symbol: {"in":"query","name":"symbol","dataType":"string"},
+                currency: {"in":"query","name":"currency","dataType":"string"},
         };
-        app.post('/api/payments/intent',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.createPaymentIntent)),
+        app.post('/api/market-data/history/import',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            upload.fields([
+                {
+                    name: "file",
+                    maxCount: 1
+                }
+            ]),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.importPriceHistory)),
 
-            async function PaymentsController_createPaymentIntent(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_importPriceHistory(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_createPaymentIntent, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_importPriceHistory, request, response });
 
-                const controller = new PaymentsController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'createPaymentIntent',
+                methodName: 'importPriceHistory',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPaymentsController_confirmPayment: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"Partial_ConfirmPaymentRequest_"},
+        const argsMarketDataController_triggerPriceUpdate: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.post('/api/payments/intent/:id/confirm',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.confirmPayment)),
+        app.post('/api/market-data/update',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.triggerPriceUpdate)),
 
-            async function PaymentsController_confirmPayment(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_triggerPriceUpdate(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_confirmPayment, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_triggerPriceUpdate, request, response });
 
-                const controller = new PaymentsController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'confirmPayment',
+                methodName: 'triggerPriceUpdate',
                 controller,
                 response,
                 next,
@@ -3763,26 +6831,24 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPaymentsController_retrievePaymentIntent: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsMarketDataController_getProviderStatus: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.get('/api/payments/intent/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.retrievePaymentIntent)),
+        app.get('/api/market-data/providers',
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getProviderStatus)),
 
-            async function PaymentsController_retrievePaymentIntent(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_getProviderStatus(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_retrievePaymentIntent, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getProviderStatus, request, response });
 
-                const controller = new PaymentsController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'retrievePaymentIntent',
+                methodName: 'getProviderStatus',
                 controller,
                 response,
                 next,
@@ -3794,26 +6860,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsPaymentsController_listPaymentMethods: Record<string, TsoaRoute.ParameterSchema> = {
-                customerId: {"in":"query","name":"customerId","required":true,"dataType":"string"},
+        const argsMarketDataController_cleanupCache: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.get('/api/payments/methods',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController)),
-            ...(fetchMiddlewares<RequestHandler>(PaymentsController.prototype.listPaymentMethods)),
+        app.delete('/api/market-data/cache',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.cleanupCache)),
 
-            async function PaymentsController_listPaymentMethods(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_cleanupCache(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsPaymentsController_listPaymentMethods, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_cleanupCache, request, response });
 
-                const controller = new PaymentsController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'listPaymentMethods',
+                methodName: 'cleanupCache',
                 controller,
                 response,
                 next,
@@ -3825,31 +6890,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_getOrders: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsMarketDataController_listPriceAlerts: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                status: {"in":"query","name":"status","dataType":"string"},
-                type: {"in":"query","name":"type","dataType":"string"},
-                userId: {"in":"query","name":"userId","dataType":"string"},
         };
-        app.get('/api/orders',
+        app.get('/api/market-data/alerts',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrders)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.listPriceAlerts)),
 
-            async function OrdersController_getOrders(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_listPriceAlerts(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrders, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_listPriceAlerts, request, response });
 
-                const controller = new OrdersController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'getOrders',
+                methodName: 'listPriceAlerts',
                 controller,
                 response,
                 next,
@@ -3861,66 +6921,59 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_getOrdersAdmin: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsMarketDataController_createPriceAlert: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                status: {"in":"query","name":"status","dataType":"string"},
-                type: {"in":"query","name":"type","dataType":"string"},
-                userId: {"in":"query","name":"userId","dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"CreatePriceAlertInput"},
         };
-        app.get('/api/orders/admin',
+        app.post('/api/market-data/alerts',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrdersAdmin)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.createPriceAlert)),
 
-            async function OrdersController_getOrdersAdmin(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_createPriceAlert(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrdersAdmin, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_createPriceAlert, request, response });
 
-                const controller = new OrdersController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'getOrdersAdmin',
+                methodName: 'createPriceAlert',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_getMyOrders: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsMarketDataController_getPriceAlert: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                status: {"in":"query","name":"status","dataType":"string"},
-                type: {"in":"query","name":"type","dataType":"string"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/orders/my',
+        app.get('/api/market-data/alerts/:id',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getMyOrders)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getPriceAlert)),
 
-            async function OrdersController_getMyOrders(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_getPriceAlert(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getMyOrders, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getPriceAlert, request, response });
 
-                const controller = new OrdersController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'getMyOrders',
+                methodName: 'getPriceAlert',
                 controller,
                 response,
                 next,
@@ -3932,90 +6985,90 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_createOrder: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsMarketDataController_updatePriceAlert: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                body: {"in":"body","name":"body","required":true,"ref":"OrdersCreateInput"},
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"UpdatePriceAlertInput"},
         };
-        app.post('/api/orders',
+        app.put('/api/market-data/alerts/:id',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.createOrder)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.updatePriceAlert)),
 
-            async function OrdersController_createOrder(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_updatePriceAlert(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_createOrder, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_updatePriceAlert, request, response });
 
-                const controller = new OrdersController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'createOrder',
+                methodName: 'updatePriceAlert',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_getOrder: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsMarketDataController_deletePriceAlert: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/orders/:id',
+        app.delete('/api/market-data/alerts/:id',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrder)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
+            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.deletePriceAlert)),
 
-            async function OrdersController_getOrder(request: ExRequest, response: ExResponse, next: any) {
+            async function MarketDataController_deletePriceAlert(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrder, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_deletePriceAlert, request, response });
 
-                const controller = new OrdersController();
+                const controller = new MarketDataController();
 
               await templateService.apiHandler({
-                methodName: 'getOrder',
+                methodName: 'deletePriceAlert',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 204,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_getOrderDetailed: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsFxController_getRates: Record<string, TsoaRoute.ParameterSchema> = {
+                asOf: {"in":"query","name":"asOf","dataType":"string"},
         };
-        app.get('/api/orders/:id/detailed',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.getOrderDetailed)),
+        app.get('/api/fx/rates',
+            ...(fetchMiddlewares<RequestHandler>(FxController)),
+            ...(fetchMiddlewares<RequestHandler>(FxController.prototype.getRates)),
 
-            async function OrdersController_getOrderDetailed(request: ExRequest, response: ExResponse, next: any) {
+            async function FxController_getRates(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_getOrderDetailed, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsFxController_getRates, request, response });
 
-                const controller = new OrdersController();
+                const controller = new FxController();
 
               await templateService.apiHandler({
-                methodName: 'getOrderDetailed',
+                methodName: 'getRates',
                 controller,
                 response,
                 next,
@@ -4027,27 +7080,28 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_processOrder: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsFxController_convert: Record<string, TsoaRoute.ParameterSchema> = {
+                amount: {"in":"query","name":"amount","required":true,"dataType":"double"},
+                from: {"in":"query","name":"from","required":true,"dataType":"string"},
+                to: {"in":"query","name":"to","required":true,"dataType":"string"},
+                asOf: {"in":"query","name":"asOf","dataType":"string"},
         };
-        app.post('/api/orders/:id/process',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.processOrder)),
+        app.get('/api/fx/convert',
+            ...(fetchMiddlewares<RequestHandler>(FxController)),
+            ...(fetchMiddlewares<RequestHandler>(FxController.prototype.convert)),
 
-            async function OrdersController_processOrder(request: ExRequest, response: ExResponse, next: any) {
+            async function FxController_convert(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_processOrder, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsFxController_convert, request, response });
 
-                const controller = new OrdersController();
+                const controller = new FxController();
 
               await templateService.apiHandler({
-                methodName: 'processOrder',
+                methodName: 'convert',
                 controller,
                 response,
                 next,
@@ -4059,27 +7113,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_updateOrder: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                body: {"in":"body","name":"body","required":true,"ref":"OrdersUpdateInput"},
+        const argsFxController_updateRates: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.put('/api/orders/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.updateOrder)),
+        app.post('/api/fx/rates/update',
+            authenticateMiddleware([{"bearerAuth":["admin"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FxController)),
+            ...(fetchMiddlewares<RequestHandler>(FxController.prototype.updateRates)),
 
-            async function OrdersController_updateOrder(request: ExRequest, response: ExResponse, next: any) {
+            async function FxController_updateRates(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_updateOrder, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsFxController_updateRates, request, response });
 
-                const controller = new OrdersController();
+                const controller = new FxController();
 
               await templateService.apiHandler({
-                methodName: 'updateOrder',
+                methodName: 'updateRates',
                 controller,
                 response,
                 next,
@@ -4091,27 +7143,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_deleteOrder: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsCustodyServiceController_getAllCustodyServices: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.delete('/api/orders/:id',
+        app.get('/api/custody',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.deleteOrder)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getAllCustodyServices)),
 
-            async function OrdersController_deleteOrder(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_getAllCustodyServices(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_deleteOrder, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getAllCustodyServices, request, response });
 
-                const controller = new OrdersController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'deleteOrder',
+                methodName: 'getAllCustodyServices',
                 controller,
                 response,
                 next,
@@ -4123,27 +7173,32 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrdersController_cancelOrder: Record<string, TsoaRoute.ParameterSchema> = {
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsCustodyServiceController_getCustodyServicesPaginated: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                search: {"in":"query","name":"search","dataType":"string"},
+                custodianId: {"in":"query","name":"custodianId","dataType":"string"},
+                paymentFrequency: {"in":"query","name":"paymentFrequency","ref":"PaymentFrequency"},
+                sortBy: {"in":"query","name":"sortBy","dataType":"string"},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
         };
-        app.post('/api/orders/:id/cancel',
+        app.get('/api/custody/custodyServices',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController)),
-            ...(fetchMiddlewares<RequestHandler>(OrdersController.prototype.cancelOrder)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getCustodyServicesPaginated)),
 
-            async function OrdersController_cancelOrder(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_getCustodyServicesPaginated(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrdersController_cancelOrder, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getCustodyServicesPaginated, request, response });
 
-                const controller = new OrdersController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'cancelOrder',
+                methodName: 'getCustodyServicesPaginated',
                 controller,
                 response,
                 next,
@@ -4155,24 +7210,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsOrderStatusController_listOrderStatus: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCustodyServiceController_getDefaultCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.get('/api/orderstatus',
-            ...(fetchMiddlewares<RequestHandler>(OrderStatusController)),
-            ...(fetchMiddlewares<RequestHandler>(OrderStatusController.prototype.listOrderStatus)),
+        app.get('/api/custody/custodyServices/default',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getDefaultCustodyService)),
 
-            async function OrderStatusController_listOrderStatus(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_getDefaultCustodyService(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsOrderStatusController_listOrderStatus, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getDefaultCustodyService, request, response });
 
-                const controller = new OrderStatusController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'listOrderStatus',
+                methodName: 'getDefaultCustodyService',
                 controller,
                 response,
                 next,
@@ -4184,27 +7240,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMetalsController_listMetals: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                search: {"in":"query","name":"search","dataType":"string"},
+        const argsCustodyServiceController_getCustodyServiceById: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/metals',
-            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
-            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.listMetals)),
+        app.get('/api/custody/custodyServices/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getCustodyServiceById)),
 
-            async function MetalsController_listMetals(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_getCustodyServiceById(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_listMetals, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getCustodyServiceById, request, response });
 
-                const controller = new MetalsController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'listMetals',
+                methodName: 'getCustodyServiceById',
                 controller,
                 response,
                 next,
@@ -4216,25 +7271,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMetalsController_createMetal: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"MetalRequest"},
+        const argsCustodyServiceController_createCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodyServiceCreateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/api/metals',
-            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
-            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.createMetal)),
+        app.post('/api/custody',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.createCustodyService)),
 
-            async function MetalsController_createMetal(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_createCustodyService(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_createMetal, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_createCustodyService, request, response });
 
-                const controller = new MetalsController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'createMetal',
+                methodName: 'createCustodyService',
                 controller,
                 response,
                 next,
@@ -4246,26 +7303,28 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMetalsController_updateMetal: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCustodyServiceController_updateCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"MetalRequest"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodyServiceUpdateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.put('/api/metals/:id',
-            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
-            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.updateMetal)),
+        app.put('/api/custody/custodyServices/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.updateCustodyService)),
 
-            async function MetalsController_updateMetal(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_updateCustodyService(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_updateMetal, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_updateCustodyService, request, response });
 
-                const controller = new MetalsController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'updateMetal',
+                methodName: 'updateCustodyService',
                 controller,
                 response,
                 next,
@@ -4277,55 +7336,58 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMetalsController_deleteMetal: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCustodyServiceController_deleteCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.delete('/api/metals/:id',
-            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
-            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.deleteMetal)),
+        app.delete('/api/custody/custodyServices/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.deleteCustodyService)),
 
-            async function MetalsController_deleteMetal(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_deleteCustodyService(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_deleteMetal, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_deleteCustodyService, request, response });
 
-                const controller = new MetalsController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'deleteMetal',
+                methodName: 'deleteCustodyService',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 204,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMetalsController_getMetalById: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsCustodyServiceController_getCustodiansWithServices: Record<string, TsoaRoute.ParameterSchema> = {
+                search: {"in":"query","name":"search","dataType":"string"},
         };
-        app.get('/api/metals/:id',
-            ...(fetchMiddlewares<RequestHandler>(MetalsController)),
-            ...(fetchMiddlewares<RequestHandler>(MetalsController.prototype.getMetalById)),
+        app.get('/api/custody/custodians-with-services',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getCustodiansWithServices)),
 
-            async function MetalsController_getMetalById(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_getCustodiansWithServices(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMetalsController_getMetalById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getCustodiansWithServices, request, response });
 
-                const controller = new MetalsController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'getMetalById',
+                methodName: 'getCustodiansWithServices',
                 controller,
                 response,
                 next,
@@ -4337,26 +7399,33 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMarketDataController_getCurrentPrice: Record<string, TsoaRoute.ParameterSchema> = {
-                metalSymbol: {"in":"path","name":"metalSymbol","required":true,"dataType":"string"},
-                currency: {"in":"query","name":"currency","dataType":"string"},
+        const argsCustodyServiceController_getCustodyInvoices: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                userId: {"in":"query","name":"userId","dataType":"string"},
+                custodyServiceId: {"in":"query","name":"custodyServiceId","dataType":"string"},
+                status: {"in":"query","name":"status","dataType":"string"},
+                from: {"in":"query","name":"from","dataType":"string"},
+                to: {"in":"query","name":"to","dataType":"string"},
         };
-        app.get('/api/market-data/price/:metalSymbol',
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getCurrentPrice)),
+        app.get('/api/custody/invoices',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getCustodyInvoices)),
 
-            async function MarketDataController_getCurrentPrice(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_getCustodyInvoices(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getCurrentPrice, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getCustodyInvoices, request, response });
 
-                const controller = new MarketDataController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'getCurrentPrice',
+                methodName: 'getCustodyInvoices',
                 controller,
                 response,
                 next,
@@ -4368,26 +7437,31 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMarketDataController_getMultiplePrices: Record<string, TsoaRoute.ParameterSchema> = {
-                symbols: {"in":"query","name":"symbols","dataType":"string"},
-                currency: {"in":"query","name":"currency","dataType":"string"},
+        const argsCustodyServiceController_getMyCustodyInvoices: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                status: {"in":"query","name":"status","dataType":"string"},
+                from: {"in":"query","name":"from","dataType":"string"},
+                to: {"in":"query","name":"to","dataType":"string"},
         };
-        app.get('/api/market-data/prices',
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getMultiplePrices)),
+        app.get('/api/custody/invoices/my',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getMyCustodyInvoices)),
 
-            async function MarketDataController_getMultiplePrices(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_getMyCustodyInvoices(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getMultiplePrices, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getMyCustodyInvoices, request, response });
 
-                const controller = new MarketDataController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'getMultiplePrices',
+                methodName: 'getMyCustodyInvoices',
                 controller,
                 response,
                 next,
@@ -4399,29 +7473,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMarketDataController_getHistoricalPrices: Record<string, TsoaRoute.ParameterSchema> = {
-                metalSymbol: {"in":"path","name":"metalSymbol","required":true,"dataType":"string"},
-                startDate: {"in":"query","name":"startDate","dataType":"string"},
-                endDate: {"in":"query","name":"endDate","dataType":"string"},
-                currency: {"in":"query","name":"currency","dataType":"string"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
+        const argsCustodyServiceController_suggestCustodyServices: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodySuggestionRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/market-data/history/:metalSymbol',
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getHistoricalPrices)),
+        app.post('/api/custody/suggestions',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.suggestCustodyServices)),
 
-            async function MarketDataController_getHistoricalPrices(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodyServiceController_suggestCustodyServices(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getHistoricalPrices, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_suggestCustodyServices, request, response });
 
-                const controller = new MarketDataController();
+                const controller = new CustodyServiceController();
 
               await templateService.apiHandler({
-                methodName: 'getHistoricalPrices',
+                methodName: 'suggestCustodyServices',
                 controller,
                 response,
                 next,
@@ -4433,25 +7505,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMarketDataController_triggerPriceUpdate: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCustodiansController_getAllCustodians: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.post('/api/market-data/update',
-            authenticateMiddleware([{"bearerAuth":["admin"]}]),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.triggerPriceUpdate)),
+        app.get('/api/custodians',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.getAllCustodians)),
 
-            async function MarketDataController_triggerPriceUpdate(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodiansController_getAllCustodians(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_triggerPriceUpdate, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_getAllCustodians, request, response });
 
-                const controller = new MarketDataController();
+                const controller = new CustodiansController();
 
               await templateService.apiHandler({
-                methodName: 'triggerPriceUpdate',
+                methodName: 'getAllCustodians',
                 controller,
                 response,
                 next,
@@ -4463,24 +7535,32 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMarketDataController_getProviderStatus: Record<string, TsoaRoute.ParameterSchema> = {
-        };
-        app.get('/api/market-data/providers',
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.getProviderStatus)),
+        const argsCustodiansController_getCustodiansPaginated: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                search: {"in":"query","name":"search","dataType":"string"},
+                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["custodianName"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["name"]},{"dataType":"enum","enums":["updatedAt"]}]},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+                isActive: {"in":"query","name":"isActive","dataType":"boolean"},
+                region: {"in":"query","name":"region","dataType":"string"},
+        };
+        app.get('/api/custodians/custodians',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.getCustodiansPaginated)),
 
-            async function MarketDataController_getProviderStatus(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodiansController_getCustodiansPaginated(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_getProviderStatus, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_getCustodiansPaginated, request, response });
 
-                const controller = new MarketDataController();
+                const controller = new CustodiansController();
 
               await templateService.apiHandler({
-                methodName: 'getProviderStatus',
+                methodName: 'getCustodiansPaginated',
                 controller,
                 response,
                 next,
@@ -4492,55 +7572,58 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsMarketDataController_cleanupCache: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCustodiansController_createCustodian: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodianCreateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.delete('/api/market-data/cache',
-            authenticateMiddleware([{"bearerAuth":["admin"]}]),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController)),
-            ...(fetchMiddlewares<RequestHandler>(MarketDataController.prototype.cleanupCache)),
+        app.post('/api/custodians',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.createCustodian)),
 
-            async function MarketDataController_cleanupCache(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodiansController_createCustodian(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsMarketDataController_cleanupCache, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_createCustodian, request, response });
 
-                const controller = new MarketDataController();
+                const controller = new CustodiansController();
 
               await templateService.apiHandler({
-                methodName: 'cleanupCache',
+                methodName: 'createCustodian',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_getAllCustodyServices: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCustodiansController_getCustodianById: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/custody',
+        app.get('/api/custodians/custodians/:id',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getAllCustodyServices)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.getCustodianById)),
 
-            async function CustodyServiceController_getAllCustodyServices(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodiansController_getCustodianById(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getAllCustodyServices, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_getCustodianById, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CustodiansController();
 
               await templateService.apiHandler({
-                methodName: 'getAllCustodyServices',
+                methodName: 'getCustodianById',
                 controller,
                 response,
                 next,
@@ -4552,32 +7635,28 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_getCustodyServicesPaginated: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                search: {"in":"query","name":"search","dataType":"string"},
-                custodianId: {"in":"query","name":"custodianId","dataType":"string"},
-                paymentFrequency: {"in":"query","name":"paymentFrequency","ref":"PaymentFrequency"},
-                sortBy: {"in":"query","name":"sortBy","dataType":"string"},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
+        const argsCustodiansController_updateCustodian: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodianUpdateRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/custody/custodyServices',
+        app.put('/api/custodians/custodians/:id',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getCustodyServicesPaginated)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.updateCustodian)),
 
-            async function CustodyServiceController_getCustodyServicesPaginated(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodiansController_updateCustodian(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getCustodyServicesPaginated, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_updateCustodian, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CustodiansController();
 
               await templateService.apiHandler({
-                methodName: 'getCustodyServicesPaginated',
+                methodName: 'updateCustodian',
                 controller,
                 response,
                 next,
@@ -4589,25 +7668,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_getDefaultCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCustodiansController_deleteCustodian: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/custody/custodyServices/default',
+        app.delete('/api/custodians/custodians/:id',
             authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getDefaultCustodyService)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
+            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.deleteCustodian)),
 
-            async function CustodyServiceController_getDefaultCustodyService(request: ExRequest, response: ExResponse, next: any) {
+            async function CustodiansController_deleteCustodian(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getDefaultCustodyService, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_deleteCustodian, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CustodiansController();
 
               await templateService.apiHandler({
-                methodName: 'getDefaultCustodyService',
+                methodName: 'deleteCustodian',
                 controller,
                 response,
                 next,
@@ -4619,26 +7700,24 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_getCustodyServiceById: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsCurrenciesController_listCurrencies: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.get('/api/custody/custodyServices/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getCustodyServiceById)),
+        app.get('/api/currencies',
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.listCurrencies)),
 
-            async function CustodyServiceController_getCustodyServiceById(request: ExRequest, response: ExResponse, next: any) {
+            async function CurrenciesController_listCurrencies(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getCustodyServiceById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_listCurrencies, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CurrenciesController();
 
               await templateService.apiHandler({
-                methodName: 'getCustodyServiceById',
+                methodName: 'listCurrencies',
                 controller,
                 response,
                 next,
@@ -4650,27 +7729,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_createCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodyServiceCreateRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsCurrenciesController_createCurrency: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CurrencyRequest"},
         };
-        app.post('/api/custody',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.createCustodyService)),
+        app.post('/api/currencies',
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.createCurrency)),
 
-            async function CustodyServiceController_createCustodyService(request: ExRequest, response: ExResponse, next: any) {
+            async function CurrenciesController_createCurrency(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_createCustodyService, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_createCurrency, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CurrenciesController();
 
               await templateService.apiHandler({
-                methodName: 'createCustodyService',
+                methodName: 'createCurrency',
                 controller,
                 response,
                 next,
@@ -4682,28 +7759,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_updateCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCurrenciesController_updateCurrency: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodyServiceUpdateRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CurrencyRequest"},
         };
-        app.put('/api/custody/custodyServices/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.updateCustodyService)),
+        app.put('/api/currencies/:id',
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.updateCurrency)),
 
-            async function CustodyServiceController_updateCustodyService(request: ExRequest, response: ExResponse, next: any) {
+            async function CurrenciesController_updateCurrency(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_updateCustodyService, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_updateCurrency, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CurrenciesController();
 
               await templateService.apiHandler({
-                methodName: 'updateCustodyService',
+                methodName: 'updateCurrency',
                 controller,
                 response,
                 next,
@@ -4715,58 +7790,55 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_deleteCustodyService: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCurrenciesController_deleteCurrency: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.delete('/api/custody/custodyServices/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.deleteCustodyService)),
+        app.delete('/api/currencies/:id',
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.deleteCurrency)),
 
-            async function CustodyServiceController_deleteCustodyService(request: ExRequest, response: ExResponse, next: any) {
+            async function CurrenciesController_deleteCurrency(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_deleteCustodyService, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_deleteCurrency, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CurrenciesController();
 
               await templateService.apiHandler({
-                methodName: 'deleteCustodyService',
+                methodName: 'deleteCurrency',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 204,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodyServiceController_getCustodiansWithServices: Record<string, TsoaRoute.ParameterSchema> = {
-                search: {"in":"query","name":"search","dataType":"string"},
+        const argsCurrenciesController_getCurrencyById: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/custody/custodians-with-services',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodyServiceController.prototype.getCustodiansWithServices)),
+        app.get('/api/currencies/:id',
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
+            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.getCurrencyById)),
 
-            async function CustodyServiceController_getCustodiansWithServices(request: ExRequest, response: ExResponse, next: any) {
+            async function CurrenciesController_getCurrencyById(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodyServiceController_getCustodiansWithServices, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_getCurrencyById, request, response });
 
-                const controller = new CustodyServiceController();
+                const controller = new CurrenciesController();
 
               await templateService.apiHandler({
-                methodName: 'getCustodiansWithServices',
+                methodName: 'getCurrencyById',
                 controller,
                 response,
                 next,
@@ -4778,25 +7850,24 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodiansController_getAllCustodians: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCountriesController_listCountries: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.get('/api/custodians',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.getAllCustodians)),
+        app.get('/api/countries',
+            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
+            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.listCountries)),
 
-            async function CustodiansController_getAllCustodians(request: ExRequest, response: ExResponse, next: any) {
+            async function CountriesController_listCountries(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_getAllCustodians, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_listCountries, request, response });
 
-                const controller = new CustodiansController();
+                const controller = new CountriesController();
 
               await templateService.apiHandler({
-                methodName: 'getAllCustodians',
+                methodName: 'listCountries',
                 controller,
                 response,
                 next,
@@ -4808,128 +7879,116 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodiansController_getCustodiansPaginated: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                search: {"in":"query","name":"search","dataType":"string"},
-                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["custodianName"]},{"dataType":"enum","enums":["createdAt"]},{"dataType":"enum","enums":["name"]},{"dataType":"enum","enums":["updatedAt"]}]},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["asc"]},{"dataType":"enum","enums":["desc"]}]},
-                isActive: {"in":"query","name":"isActive","dataType":"boolean"},
-                region: {"in":"query","name":"region","dataType":"string"},
+        const argsCountriesController_createCountry: Record<string, TsoaRoute.ParameterSchema> = {
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CountryRequest"},
         };
-        app.get('/api/custodians/custodians',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.getCustodiansPaginated)),
+        app.post('/api/countries',
+            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
+            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.createCountry)),
 
-            async function CustodiansController_getCustodiansPaginated(request: ExRequest, response: ExResponse, next: any) {
+            async function CountriesController_createCountry(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_getCustodiansPaginated, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_createCountry, request, response });
 
-                const controller = new CustodiansController();
+                const controller = new CountriesController();
 
               await templateService.apiHandler({
-                methodName: 'getCustodiansPaginated',
+                methodName: 'createCountry',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodiansController_createCustodian: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodianCreateRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsCountriesController_updateCountry: Record<string, TsoaRoute.ParameterSchema> = {
+                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CountryRequest"},
         };
-        app.post('/api/custodians',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.createCustodian)),
+        app.put('/api/countries/:id',
+            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
+            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.updateCountry)),
 
-            async function CustodiansController_createCustodian(request: ExRequest, response: ExResponse, next: any) {
+            async function CountriesController_updateCountry(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_createCustodian, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_updateCountry, request, response });
 
-                const controller = new CustodiansController();
+                const controller = new CountriesController();
 
               await templateService.apiHandler({
-                methodName: 'createCustodian',
+                methodName: 'updateCountry',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodiansController_getCustodianById: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCountriesController_deleteCountry: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
         };
-        app.get('/api/custodians/custodians/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.getCustodianById)),
+        app.delete('/api/countries/:id',
+            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
+            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.deleteCountry)),
 
-            async function CustodiansController_getCustodianById(request: ExRequest, response: ExResponse, next: any) {
+            async function CountriesController_deleteCountry(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_getCustodianById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_deleteCountry, request, response });
 
-                const controller = new CustodiansController();
+                const controller = new CountriesController();
 
               await templateService.apiHandler({
-                methodName: 'getCustodianById',
+                methodName: 'deleteCountry',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 204,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodiansController_updateCustodian: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsCountriesController_getCountryById: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CustodianUpdateRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.put('/api/custodians/custodians/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.updateCustodian)),
+        app.get('/api/countries/:id',
+            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
+            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.getCountryById)),
 
-            async function CustodiansController_updateCustodian(request: ExRequest, response: ExResponse, next: any) {
+            async function CountriesController_getCountryById(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_updateCustodian, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_getCountryById, request, response });
 
-                const controller = new CustodiansController();
+                const controller = new CountriesController();
 
               await templateService.apiHandler({
-                methodName: 'updateCustodian',
+                methodName: 'getCountryById',
                 controller,
                 response,
                 next,
@@ -4941,27 +8000,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCustodiansController_deleteCustodian: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsAuthController_login: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"LoginRequestBody"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.delete('/api/custodians/custodians/:id',
-            authenticateMiddleware([{"bearerAuth":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController)),
-            ...(fetchMiddlewares<RequestHandler>(CustodiansController.prototype.deleteCustodian)),
+        app.post('/api/auth/login',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.login)),
 
-            async function CustodiansController_deleteCustodian(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_login(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCustodiansController_deleteCustodian, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_login, request, response });
 
-                const controller = new CustodiansController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'deleteCustodian',
+                methodName: 'login',
                 controller,
                 response,
                 next,
@@ -4973,24 +8031,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCurrenciesController_listCurrencies: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAuthController_verifyTwoFactor: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"TwoFactorVerifyRequestBody"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/currencies',
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.listCurrencies)),
+        app.post('/api/auth/2fa/verify',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.verifyTwoFactor)),
 
-            async function CurrenciesController_listCurrencies(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_verifyTwoFactor(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_listCurrencies, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_verifyTwoFactor, request, response });
 
-                const controller = new CurrenciesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'listCurrencies',
+                methodName: 'verifyTwoFactor',
                 controller,
                 response,
                 next,
@@ -5002,56 +8062,56 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCurrenciesController_createCurrency: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CurrencyRequest"},
+        const argsAuthController_validate: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/api/currencies',
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.createCurrency)),
+        app.get('/api/auth/validate',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.validate)),
 
-            async function CurrenciesController_createCurrency(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_validate(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_createCurrency, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_validate, request, response });
 
-                const controller = new CurrenciesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'createCurrency',
+                methodName: 'validate',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCurrenciesController_updateCurrency: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CurrencyRequest"},
+        const argsAuthController_refresh: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"RefreshRequestBody"},
         };
-        app.put('/api/currencies/:id',
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.updateCurrency)),
+        app.post('/api/auth/refresh',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.refresh)),
 
-            async function CurrenciesController_updateCurrency(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_refresh(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_updateCurrency, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_refresh, request, response });
 
-                const controller = new CurrenciesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'updateCurrency',
+                methodName: 'refresh',
                 controller,
                 response,
                 next,
@@ -5063,55 +8123,57 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCurrenciesController_deleteCurrency: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsAuthController_getCurrentUser: Record<string, TsoaRoute.ParameterSchema> = {
+                authorization: {"in":"header","name":"Authorization","dataType":"string"},
         };
-        app.delete('/api/currencies/:id',
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.deleteCurrency)),
+        app.get('/api/auth/me',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.getCurrentUser)),
 
-            async function CurrenciesController_deleteCurrency(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_getCurrentUser(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_deleteCurrency, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_getCurrentUser, request, response });
 
-                const controller = new CurrenciesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'deleteCurrency',
+                methodName: 'getCurrentUser',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 204,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCurrenciesController_getCurrencyById: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsAuthController_logout: Record<string, TsoaRoute.ParameterSchema> = {
+                authorization: {"in":"header","name":"Authorization","dataType":"string"},
         };
-        app.get('/api/currencies/:id',
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController)),
-            ...(fetchMiddlewares<RequestHandler>(CurrenciesController.prototype.getCurrencyById)),
+        app.post('/api/auth/logout',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.logout)),
 
-            async function CurrenciesController_getCurrencyById(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_logout(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCurrenciesController_getCurrencyById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_logout, request, response });
 
-                const controller = new CurrenciesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'getCurrencyById',
+                methodName: 'logout',
                 controller,
                 response,
                 next,
@@ -5123,24 +8185,25 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCountriesController_listCountries: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAuthController_forgotPassword: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ForgotPasswordRequestBody"},
         };
-        app.get('/api/countries',
-            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
-            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.listCountries)),
+        app.post('/api/auth/password/forgot',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.forgotPassword)),
 
-            async function CountriesController_listCountries(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_forgotPassword(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_listCountries, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_forgotPassword, request, response });
 
-                const controller = new CountriesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'listCountries',
+                methodName: 'forgotPassword',
                 controller,
                 response,
                 next,
@@ -5152,56 +8215,57 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCountriesController_createCountry: Record<string, TsoaRoute.ParameterSchema> = {
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CountryRequest"},
+        const argsAuthController_resetPassword: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ResetPasswordRequestBody"},
         };
-        app.post('/api/countries',
-            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
-            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.createCountry)),
+        app.post('/api/auth/password/reset',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.resetPassword)),
 
-            async function CountriesController_createCountry(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_resetPassword(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_createCountry, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_resetPassword, request, response });
 
-                const controller = new CountriesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'createCountry',
+                methodName: 'resetPassword',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCountriesController_updateCountry: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
-                requestBody: {"in":"body","name":"requestBody","required":true,"ref":"CountryRequest"},
+        const argsAuthController_changePassword: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ChangePasswordRequestBody"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.put('/api/countries/:id',
-            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
-            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.updateCountry)),
+        app.post('/api/auth/password/change',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.changePassword)),
 
-            async function CountriesController_updateCountry(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_changePassword(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_updateCountry, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_changePassword, request, response });
 
-                const controller = new CountriesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'updateCountry',
+                methodName: 'changePassword',
                 controller,
                 response,
                 next,
@@ -5213,55 +8277,58 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCountriesController_deleteCountry: Record<string, TsoaRoute.ParameterSchema> = {
-                id: {"in":"path","name":"id","required":true,"dataType":"string"},
+        const argsAuthController_listSessions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.delete('/api/countries/:id',
-            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
-            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.deleteCountry)),
+        app.get('/api/auth/sessions',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.listSessions)),
 
-            async function CountriesController_deleteCountry(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_listSessions(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_deleteCountry, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_listSessions, request, response });
 
-                const controller = new CountriesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'deleteCountry',
+                methodName: 'listSessions',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 204,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsCountriesController_getCountryById: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAuthController_revokeSession: Record<string, TsoaRoute.ParameterSchema> = {
                 id: {"in":"path","name":"id","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/countries/:id',
-            ...(fetchMiddlewares<RequestHandler>(CountriesController)),
-            ...(fetchMiddlewares<RequestHandler>(CountriesController.prototype.getCountryById)),
+        app.delete('/api/auth/sessions/:id',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.revokeSession)),
 
-            async function CountriesController_getCountryById(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_revokeSession(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsCountriesController_getCountryById, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_revokeSession, request, response });
 
-                const controller = new CountriesController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'getCountryById',
+                methodName: 'revokeSession',
                 controller,
                 response,
                 next,
@@ -5273,25 +8340,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsAuthController_login: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"LoginRequestBody"},
+        const argsAuthController_getTwoFactorStatus: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/api/auth/login',
+        app.get('/api/auth/2fa',
+            authenticateMiddleware([{"bearerAuth":[]}]),
             ...(fetchMiddlewares<RequestHandler>(AuthController)),
-            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.login)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.getTwoFactorStatus)),
 
-            async function AuthController_login(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_getTwoFactorStatus(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_login, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_getTwoFactorStatus, request, response });
 
                 const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'login',
+                methodName: 'getTwoFactorStatus',
                 controller,
                 response,
                 next,
@@ -5303,26 +8371,26 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsAuthController_validate: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAuthController_enrolTwoFactor: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/auth/validate',
+        app.post('/api/auth/2fa/enrol',
             authenticateMiddleware([{"bearerAuth":[]}]),
             ...(fetchMiddlewares<RequestHandler>(AuthController)),
-            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.validate)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.enrolTwoFactor)),
 
-            async function AuthController_validate(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_enrolTwoFactor(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_validate, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_enrolTwoFactor, request, response });
 
                 const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'validate',
+                methodName: 'enrolTwoFactor',
                 controller,
                 response,
                 next,
@@ -5334,25 +8402,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsAuthController_refresh: Record<string, TsoaRoute.ParameterSchema> = {
-                authorization: {"in":"header","name":"Authorization","dataType":"string"},
+        const argsAuthController_activateTwoFactor: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"TwoFactorCodeRequestBody"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/api/auth/refresh',
+        app.post('/api/auth/2fa/activate',
+            authenticateMiddleware([{"bearerAuth":[]}]),
             ...(fetchMiddlewares<RequestHandler>(AuthController)),
-            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.refresh)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.activateTwoFactor)),
 
-            async function AuthController_refresh(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_activateTwoFactor(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_refresh, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_activateTwoFactor, request, response });
 
                 const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'refresh',
+                methodName: 'activateTwoFactor',
                 controller,
                 response,
                 next,
@@ -5364,26 +8434,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsAuthController_getCurrentUser: Record<string, TsoaRoute.ParameterSchema> = {
-                authorization: {"in":"header","name":"Authorization","dataType":"string"},
+        const argsAuthController_disableTwoFactor: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"TwoFactorCodeRequestBody"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/api/auth/me',
+        app.post('/api/auth/2fa/disable',
             authenticateMiddleware([{"bearerAuth":[]}]),
             ...(fetchMiddlewares<RequestHandler>(AuthController)),
-            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.getCurrentUser)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.disableTwoFactor)),
 
-            async function AuthController_getCurrentUser(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_disableTwoFactor(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_getCurrentUser, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_disableTwoFactor, request, response });
 
                 const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'getCurrentUser',
+                methodName: 'disableTwoFactor',
                 controller,
                 response,
                 next,
@@ -5395,26 +8466,27 @@ export function RegisterRoutes(app: Router,opts?:{multer?:ReturnType<typeof mult
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsAuthController_logout: Record<string, TsoaRoute.ParameterSchema> = {
-                authorization: {"in":"header","name":"Authorization","dataType":"string"},
+        const argsAuthController_stepUp: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"StepUpRequestBody"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/api/auth/logout',
+        app.post('/api/auth/step-up',
             authenticateMiddleware([{"bearerAuth":[]}]),
             ...(fetchMiddlewares<RequestHandler>(AuthController)),
-            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.logout)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.stepUp)),
 
-            async function AuthController_logout(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_stepUp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_logout, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_stepUp, request, response });
 
                 const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'logout',
+                methodName: 'stepUp',
                 controller,
                 response,
                 next,
@@ -5,6 +5,12 @@ import { getPool } from "./dbConfig";
 import { validateRuntimeEnvironment } from "./config/environment";
 import { MarketDataServiceFactory } from "./services/market-data/MarketDataServiceFactory";
 import type { MarketDataScheduler } from "./services/market-data/marketDataScheduler";
+import { CustodyServiceFactory } from "./services/custody/CustodyServiceFactory";
+import type { CustodyBillingScheduler } from "./services/custody/CustodyBillingScheduler";
+import { FxServiceFactory } from "./services/fx/FxServiceFactory";
+import type { FxRateScheduler } from "./services/fx/FxRateScheduler";
+import { SavingsPlanServiceFactory } from "./services/savings-plan/SavingsPlanServiceFactory";
+import type { SavingsPlanScheduler } from "./services/savings-plan/SavingsPlanScheduler";
 
 dotenv.config();
 
@@ -17,6 +23,9 @@ try {
 }
 
 let marketDataScheduler: MarketDataScheduler | null = null;
+let custodyBillingScheduler: CustodyBillingScheduler | null = null;
+let fxRateScheduler: FxRateScheduler | null = null;
+let savingsPlanScheduler: SavingsPlanScheduler | null = null;
 
 if (!process.env.PORT) {
   console.error("❌ FATAL: Missing required environment variable PORT. Please set it in your .env file or environment.");
@@ -25,6 +34,9 @@ if (!process.env.PORT) {
 
 const PORT = Number(process.env.PORT);
 const ENABLE_MARKET_DATA_SCHEDULER = process.env.ENABLE_MARKET_DATA_SCHEDULER === 'true';
+const ENABLE_CUSTODY_BILLING_SCHEDULER = process.env.ENABLE_CUSTODY_BILLING_SCHEDULER === 'true';
+const ENABLE_FX_RATE_SCHEDULER = process.env.ENABLE_FX_RATE_SCHEDULER === 'true';
+const ENABLE_SAVINGS_PLAN_SCHEDULER = process.env.ENABLE_SAVINGS_PLAN_SCHEDULER === 'true';
 
 // Database connectivity check
 async function checkDatabaseConnection(): Promise<boolean> {
@@ -84,7 +96,10 @@ async function startServer() {
     // Initialize and start market data scheduler if enabled
     if (ENABLE_MARKET_DATA_SCHEDULER && dbConnected) {
       try {
-        const marketDataService = MarketDataServiceFactory.create(getPool());
+        const marketDataService = MarketDataServiceFactory.create(
+          getPool(),
+          MarketDataServiceFactory.createPriceAlertService(getPool())
+        );
         marketDataScheduler = MarketDataServiceFactory.createScheduler(marketDataService);
         marketDataScheduler.initialize();
         marketDataScheduler.start();
@@ -95,6 +110,51 @@ async function startServer() {
     } else if (!ENABLE_MARKET_DATA_SCHEDULER) {
       console.log("📊 Market Data Scheduler: Disabled (set ENABLE_MARKET_DATA_SCHEDULER=true to enable)");
     }
+
+    // Initialize and start custody fee accrual if enabled
+    if (ENABLE_CUSTODY_BILLING_SCHEDULER && dbConnected) {
+      try {
+        const billingService = CustodyServiceFactory.createBillingService(getPool());
+        custodyBillingScheduler = CustodyServiceFactory.createBillingScheduler(billingService);
+        custodyBillingScheduler.initialize();
+        custodyBillingScheduler.start();
+        console.log("🧾 Custody Billing Scheduler: Started");
+      } catch (error) {
+        console.error("⚠️  Custody Billing Scheduler failed to start:", error);
+      }
+    } else if (!ENABLE_CUSTODY_BILLING_SCHEDULER) {
+      console.log("🧾 Custody Billing Scheduler: Disabled (set ENABLE_CUSTODY_BILLING_SCHEDULER=true to enable)");
+    }
+
+    // Initialize and start exchange rate updates if enabled
+    if (ENABLE_FX_RATE_SCHEDULER && dbConnected) {
+      try {
+        const fxService = FxServiceFactory.create(getPool());
+        fxRateScheduler = FxServiceFactory.createScheduler(fxService);
+        fxRateScheduler.initialize();
+        fxRateScheduler.start();
+        console.log("💱 FX Rate Scheduler: Started");
+      } catch (error) {
+        console.error("⚠️  FX Rate Scheduler failed to start:", error);
+      }
+    } else if (!ENABLE_FX_RATE_SCHEDULER) {
+      console.log("💱 FX Rate Scheduler: Disabled (set ENABLE_FX_RATE_SCHEDULER=true to enable)");
+    }
+
+    // Initialize and start savings plan execution if enabled
+    if (ENABLE_SAVINGS_PLAN_SCHEDULER && dbConnected) {
+      try {
+        const executionService = SavingsPlanServiceFactory.createExecutionService(getPool());
+        savingsPlanScheduler = SavingsPlanServiceFactory.createScheduler(executionService);
+        savingsPlanScheduler.initialize();
+        savingsPlanScheduler.start();
+        console.log("🪙 Savings Plan Scheduler: Started");
+      } catch (error) {
+        console.error("⚠️  Savings Plan Scheduler failed to start:", error);
+      }
+    } else if (!ENABLE_SAVINGS_PLAN_SCHEDULER) {
+      console.log("🪙 Savings Plan Scheduler: Disabled (set ENABLE_SAVINGS_PLAN_SCHEDULER=true to enable)");
+    }
   });
 }
 
@@ -104,6 +164,15 @@ process.on('SIGTERM', () => {
   if (marketDataScheduler) {
     marketDataScheduler.stop();
   }
+  if (custodyBillingScheduler) {
+    custodyBillingScheduler.stop();
+  }
+  if (fxRateScheduler) {
+    fxRateScheduler.stop();
+  }
+  if (savingsPlanScheduler) {
+    savingsPlanScheduler.stop();
+  }
   process.exit(0);
 });
 
@@ -112,6 +181,15 @@ process.on('SIGINT', () => {
   if (marketDataScheduler) {
     marketDataScheduler.stop();
   }
+  if (custodyBillingScheduler) {
+    custodyBillingScheduler.stop();
+  }
+  if (fxRateScheduler) {
+    fxRateScheduler.stop();
+  }
+  if (savingsPlanScheduler) {
+    savingsPlanScheduler.stop();
+  }
   process.exit(0);
 });
 
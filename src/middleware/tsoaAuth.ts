@@ -10,6 +10,7 @@ import { getPool } from '../dbConfig';
 import { UserErrorCode, UserServiceFactory } from '../services/user';
 import { AUTH_ERROR_CODES } from '../services/auth/contract/AuthErrorFactory';
 import { AuthRepositoryImpl } from '../services/auth/repository/AuthRepositoryImpl';
+import { AuthServiceFactory } from '../services/auth/AuthServiceFactory';
 
 const envJwtSecret = process.env.JWT_SECRET;
 
@@ -19,10 +20,33 @@ if (!envJwtSecret || envJwtSecret.trim().length === 0) {
 
 const JWT_SECRET: string = envJwtSecret;
 
+/**
+ * Scope for endpoints that require a verified email address,
+ * e.g. @Security("bearerAuth", ["email_verified"]). All other scopes are roles.
+ */
+export const EMAIL_VERIFIED_SCOPE = 'email_verified';
+
+/**
+ * Scope for sensitive endpoints that require a recent re-authentication
+ * on the current session (POST /auth/step-up), e.g. @Security("bearerAuth", ["step_up"])
+ */
+export const STEP_UP_SCOPE = 'step_up';
+
+const NON_ROLE_SCOPES = [EMAIL_VERIFIED_SCOPE, STEP_UP_SCOPE];
+
 export interface AuthenticatedUser {
   id: string;
   email: string;
   role: string;
+  /** Session of the access token, absent for tokens issued at registration */
+  sessionId?: string;
+}
+
+interface AuthTokenClaims extends Omit<AuthenticatedUser, 'sessionId'> {
+  /** Token version the JWT was issued with, see users.token_version */
+  tv?: number;
+  /** Session ID, see auth_session */
+  sid?: string;
 }
 
 interface AuthSecurityError extends Error {
@@ -47,7 +71,10 @@ function getBearerToken(authHeader?: string): string {
     : authHeader;
 }
 
-async function verifyAuthenticatedUser(decoded: AuthenticatedUser): Promise<AuthenticatedUser> {
+async function verifyAuthenticatedUser(
+  decoded: AuthTokenClaims,
+  requireVerifiedEmail: boolean
+): Promise<AuthenticatedUser> {
   const userService = UserServiceFactory.createUserService(getPool());
   const verification = await userService.verifyUser(decoded.id, decoded.role);
 
@@ -64,13 +91,34 @@ async function verifyAuthenticatedUser(decoded: AuthenticatedUser): Promise<Auth
     throw createAuthSecurityError(401, AUTH_ERROR_CODES.AUTH_TOKEN_INVALID, 'Invalid or expired token');
   }
 
+  if ((decoded.tv ?? 0) !== verification.data.tokenVersion) {
+    throw createAuthSecurityError(401, AUTH_ERROR_CODES.AUTH_TOKEN_INVALID, 'Token has been revoked');
+  }
+
+  if (requireVerifiedEmail && !verification.data.emailVerified) {
+    throw createAuthSecurityError(
+      403,
+      AUTH_ERROR_CODES.AUTH_EMAIL_NOT_VERIFIED,
+      'Please verify your email address before placing orders or payments'
+    );
+  }
+
   return {
     id: verification.data.id,
     email: verification.data.email,
     role: verification.data.role,
+    ...(decoded.sid ? { sessionId: decoded.sid } : {}),
   };
 }
 
+/**
+ * Whether the user's session re-authenticated recently (STEP_UP_SCOPE), for
+ * operations that need step-up depending on the request body (sell orders)
+ */
+export async function hasRecentStepUp(user: AuthenticatedUser): Promise<boolean> {
+  return AuthServiceFactory.createTwoFactorService(getPool()).hasRecentStepUp(user.sessionId);
+}
+
 function rethrowKnownAuthError(error: unknown): never {
   if (!error || !(error instanceof Error)) {
     throw createAuthSecurityError(500, AUTH_ERROR_CODES.AUTH_INTERNAL_ERROR, 'Authentication service unavailable');
@@ -96,7 +144,8 @@ function rethrowKnownAuthError(error: unknown): never {
  * Authentication function for tsoa @Security decorator
  * Called automatically by tsoa-generated routes
  * 
- * @param scopes - Required roles, e.g. ["admin"] from @Security("bearerAuth", ["admin"])
+ * @param scopes - Required roles, e.g. ["admin"] from @Security("bearerAuth", ["admin"]),
+ *                 and optionally EMAIL_VERIFIED_SCOPE and STEP_UP_SCOPE
  */
 export async function expressAuthentication(
   request: Request,
@@ -115,13 +164,26 @@ export async function expressAuthentication(
       throw createAuthSecurityError(401, AUTH_ERROR_CODES.AUTH_TOKEN_INVALID, 'Token has been revoked');
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as AuthenticatedUser;
-    const authenticatedUser = await verifyAuthenticatedUser(decoded);
+    const decoded = jwt.verify(token, JWT_SECRET) as AuthTokenClaims;
+    if (decoded.sid && !(await authRepository.isSessionActive(decoded.sid))) {
+      throw createAuthSecurityError(401, AUTH_ERROR_CODES.AUTH_TOKEN_INVALID, 'Session has been revoked');
+    }
+
+    const roles = (scopes ?? []).filter(scope => !NON_ROLE_SCOPES.includes(scope));
+    const authenticatedUser = await verifyAuthenticatedUser(decoded, scopes?.includes(EMAIL_VERIFIED_SCOPE) ?? false);
 
-    if (scopes && scopes.length > 0 && !scopes.includes(authenticatedUser.role)) {
+    if (roles.length > 0 && !roles.includes(authenticatedUser.role)) {
       throw createAuthSecurityError(403, AUTH_ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS, 'Insufficient permissions');
     }
 
+    if (scopes?.includes(STEP_UP_SCOPE) && !(await hasRecentStepUp(authenticatedUser))) {
+      throw createAuthSecurityError(
+        403,
+        AUTH_ERROR_CODES.AUTH_STEP_UP_REQUIRED,
+        'Please re-authenticate (POST /api/auth/step-up) before this operation'
+      );
+    }
+
     return authenticatedUser;
   } catch (error) {
     rethrowKnownAuthError(error);
@@ -6,19 +6,98 @@
 import { Pool } from 'pg';
 import { getPool } from '../../dbConfig';
 import { IAuthService } from './IAuthService';
+import { IPasswordManagementService } from './IPasswordManagementService';
+import { ITwoFactorService } from './ITwoFactorService';
 import { AuthServiceImpl } from './impl/AuthServiceImpl';
+import { PasswordManagementServiceImpl } from './impl/PasswordManagementServiceImpl';
+import { TwoFactorServiceImpl } from './impl/TwoFactorServiceImpl';
+import { TotpSecretCipher } from './utils/TotpSecretCipher';
+import { LoginAttemptGuard } from './utils/LoginAttemptGuard';
 import { AuthRepositoryImpl } from './repository/AuthRepositoryImpl';
 import { AuthRepositoryMock } from './mock/AuthRepositoryMock';
-import { AuthUserRecord } from './types';
+import {
+  AuthUserRecord,
+  DEFAULT_LOGIN_PROTECTION_CONFIG,
+  DEFAULT_PASSWORD_MANAGEMENT_CONFIG,
+  LoginProtectionConfig,
+  PasswordManagementConfig,
+} from './types';
+import { EmailServiceFactory } from '../email/EmailServiceFactory';
+import { getRequiredEnvVar } from '../../config/environment';
 
 export class AuthServiceFactory {
   /**
-   * Create production AuthService with PostgreSQL repository
+   * Create production AuthService with PostgreSQL repository.
+   * Account lock notifications require APP_BASE_URL and EMAIL_FROM.
    */
   static create(pool?: Pool): IAuthService {
     const dbPool = pool || getPool();
     const repository = new AuthRepositoryImpl(dbPool);
-    return new AuthServiceImpl(repository);
+    const loginAttemptGuard = new LoginAttemptGuard(
+      repository,
+      this.createLoginProtectionConfigFromEnv(),
+      EmailServiceFactory.create(getRequiredEnvVar('APP_BASE_URL'), getRequiredEnvVar('EMAIL_FROM'))
+    );
+    return new AuthServiceImpl(repository, undefined, undefined, undefined, loginAttemptGuard);
+  }
+
+  /**
+   * Login protection configuration from LOGIN_MAX_FAILED_ATTEMPTS and LOGIN_LOCK_DURATION_MINUTES.
+   * The IP limits are relaxed in test mode, where all requests share one address.
+   */
+  static createLoginProtectionConfigFromEnv(): LoginProtectionConfig {
+    const accountLockAfter = Number.parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '', 10);
+    const lockDurationMinutes = Number.parseInt(process.env.LOGIN_LOCK_DURATION_MINUTES || '', 10);
+    const isTest = process.env.NODE_ENV === 'test';
+
+    return {
+      ...DEFAULT_LOGIN_PROTECTION_CONFIG,
+      accountLockAfter: accountLockAfter > 0 ? accountLockAfter : DEFAULT_LOGIN_PROTECTION_CONFIG.accountLockAfter,
+      lockDurationMinutes: lockDurationMinutes > 0
+        ? lockDurationMinutes
+        : DEFAULT_LOGIN_PROTECTION_CONFIG.lockDurationMinutes,
+      ipDelayAfter: isTest ? 10000 : DEFAULT_LOGIN_PROTECTION_CONFIG.ipDelayAfter,
+      ipBlockAfter: isTest ? 10000 : DEFAULT_LOGIN_PROTECTION_CONFIG.ipBlockAfter,
+    };
+  }
+
+  /**
+   * Create password forgot/reset/change service.
+   * Requires APP_BASE_URL (reset link) and EMAIL_FROM.
+   */
+  static createPasswordManagementService(pool?: Pool): IPasswordManagementService {
+    return new PasswordManagementServiceImpl(
+      new AuthRepositoryImpl(pool || getPool()),
+      EmailServiceFactory.create(getRequiredEnvVar('APP_BASE_URL'), getRequiredEnvVar('EMAIL_FROM')),
+      this.createPasswordManagementConfigFromEnv()
+    );
+  }
+
+  /**
+   * Password management configuration from PASSWORD_RESET_TOKEN_TTL_MINUTES
+   */
+  static createPasswordManagementConfigFromEnv(): PasswordManagementConfig {
+    const resetTokenTtlMinutes = Number.parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '', 10);
+
+    return {
+      resetTokenTtlMinutes: resetTokenTtlMinutes > 0
+        ? resetTokenTtlMinutes
+        : DEFAULT_PASSWORD_MANAGEMENT_CONFIG.resetTokenTtlMinutes,
+    };
+  }
+
+  /**
+   * Create TOTP enrolment and step-up service.
+   * Secrets are encrypted with TWO_FACTOR_ENCRYPTION_KEY (falls back to JWT_SECRET).
+   */
+  static createTwoFactorService(pool?: Pool): ITwoFactorService {
+    const repository = new AuthRepositoryImpl(pool || getPool());
+    return new TwoFactorServiceImpl(
+      repository,
+      TotpSecretCipher.fromEnvironment(getRequiredEnvVar('JWT_SECRET')),
+      undefined,
+      new LoginAttemptGuard(repository, this.createLoginProtectionConfigFromEnv())
+    );
   }
 
   /**
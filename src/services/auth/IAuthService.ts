@@ -7,15 +7,30 @@ import {
   LoginRequest, 
   LoginResponse, 
   AuthResult, 
-  TokenPayload
+  TokenPayload,
+  SessionContext,
+  SessionRevocationReason,
+  SessionSummary,
 } from './types';
 import type { AuthUser } from './contract/AuthContract';
 
 export interface IAuthService {
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password and start a session.
+   * Users with 2FA get TWO_FACTOR_REQUIRED with a challenge instead.
+   * Repeated failures are delayed (TOO_MANY_LOGIN_ATTEMPTS) and lock the account temporarily.
    */
-  login(request: LoginRequest): Promise<AuthResult<LoginResponse>>;
+  login(request: LoginRequest, context?: SessionContext): Promise<AuthResult<LoginResponse>>;
+
+  /**
+   * Second login step for users with 2FA: exchange the challenge token from login
+   * and a TOTP or recovery code for a session
+   */
+  completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    context?: SessionContext
+  ): Promise<AuthResult<LoginResponse>>;
 
   /**
    * Validate JWT token and return payload
@@ -23,9 +38,10 @@ export interface IAuthService {
   validateToken(token: string): Promise<AuthResult<TokenPayload>>;
 
   /**
-   * Refresh an existing token
+   * Exchange a refresh token for a new access and refresh token (rotation).
+   * Presenting an already used refresh token revokes the session.
    */
-  refreshToken(token: string): Promise<AuthResult<LoginResponse>>;
+  refreshToken(refreshToken: string): Promise<AuthResult<LoginResponse>>;
 
   /**
    * Get current user from token
@@ -33,7 +49,25 @@ export interface IAuthService {
   getCurrentUser(token: string): Promise<AuthResult<AuthUser>>;
 
   /**
-   * Logout user by revoking current token
+   * Logout user by revoking current token and its session
    */
   logout(token: string): Promise<AuthResult<{ message: string }>>;
+
+  /**
+   * Active sessions (devices) of a user
+   */
+  listSessions(userId: string, currentSessionId?: string): Promise<AuthResult<SessionSummary[]>>;
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  revokeSession(userId: string, sessionId: string): Promise<AuthResult<{ message: string }>>;
+
+  /**
+   * Revoke all sessions of a user, e.g. when an admin blocks the account
+   */
+  revokeAllSessions(
+    userId: string,
+    reason: SessionRevocationReason
+  ): Promise<AuthResult<{ revokedSessions: number }>>;
 }
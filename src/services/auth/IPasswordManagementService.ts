@@ -0,0 +1,28 @@
+/**
+ * Password Management Service Interface
+ * Defines password forgot, reset and change operations
+ */
+
+import { AuthResult } from './types';
+
+export interface IPasswordManagementService {
+  /**
+   * Email a single-use reset link to an active user.
+   * Succeeds for unknown email addresses too, so accounts cannot be enumerated.
+   */
+  requestPasswordReset(email: string): Promise<AuthResult<{ message: string }>>;
+
+  /**
+   * Set a new password with a reset token and revoke all issued JWTs
+   */
+  resetPassword(token: string, newPassword: string): Promise<AuthResult<{ message: string }>>;
+
+  /**
+   * Change the password of an authenticated user and revoke all issued JWTs
+   */
+  changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<AuthResult<{ message: string }>>;
+}
@@ -0,0 +1,48 @@
+/**
+ * Two-Factor Service Interface
+ * Defines TOTP enrolment, admin reset and step-up re-authentication
+ */
+
+import { AuthResult, StepUpRequest, TwoFactorEnrollment, TwoFactorStatus } from './types';
+
+export interface ITwoFactorService {
+  /**
+   * Whether 2FA is enabled and how many recovery codes are left
+   */
+  getStatus(userId: string): Promise<AuthResult<TwoFactorStatus>>;
+
+  /**
+   * Generate a new secret and recovery codes. 2FA is enforced only after activateTwoFactor.
+   */
+  startEnrollment(userId: string): Promise<AuthResult<TwoFactorEnrollment>>;
+
+  /**
+   * Activate a pending enrolment with the first code from the authenticator app
+   */
+  activateTwoFactor(userId: string, code: string): Promise<AuthResult<{ message: string }>>;
+
+  /**
+   * Disable 2FA; requires a valid TOTP or recovery code
+   */
+  disableTwoFactor(userId: string, code: string): Promise<AuthResult<{ message: string }>>;
+
+  /**
+   * Remove the enrolment of a user who lost their authenticator (Admin)
+   */
+  resetTwoFactor(userId: string): Promise<AuthResult<{ message: string }>>;
+
+  /**
+   * Re-authenticate on the current session for sensitive operations:
+   * TOTP or recovery code with 2FA, password without
+   */
+  stepUp(
+    userId: string,
+    sessionId: string | undefined,
+    request: StepUpRequest
+  ): Promise<AuthResult<{ stepUpExpiresAt: string }>>;
+
+  /**
+   * Whether the session re-authenticated within the step-up window
+   */
+  hasRecentStepUp(sessionId: string | undefined): Promise<boolean>;
+}
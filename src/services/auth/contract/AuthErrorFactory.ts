@@ -7,6 +7,14 @@ export const AUTH_ERROR_CODES = {
   AUTH_USER_INACTIVE: 'AUTH_USER_INACTIVE',
   AUTH_STALE_ROLE_CLAIM: 'AUTH_STALE_ROLE_CLAIM',
   AUTH_INSUFFICIENT_PERMISSIONS: 'AUTH_INSUFFICIENT_PERMISSIONS',
+  AUTH_EMAIL_NOT_VERIFIED: 'AUTH_EMAIL_NOT_VERIFIED',
+  AUTH_RESET_TOKEN_INVALID: 'AUTH_RESET_TOKEN_INVALID',
+  AUTH_SESSION_NOT_FOUND: 'AUTH_SESSION_NOT_FOUND',
+  AUTH_TWO_FACTOR_REQUIRED: 'AUTH_TWO_FACTOR_REQUIRED',
+  AUTH_TWO_FACTOR_ALREADY_ENABLED: 'AUTH_TWO_FACTOR_ALREADY_ENABLED',
+  AUTH_TWO_FACTOR_NOT_ENABLED: 'AUTH_TWO_FACTOR_NOT_ENABLED',
+  AUTH_STEP_UP_REQUIRED: 'AUTH_STEP_UP_REQUIRED',
+  AUTH_TOO_MANY_LOGIN_ATTEMPTS: 'AUTH_TOO_MANY_LOGIN_ATTEMPTS',
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   AUTH_INTERNAL_ERROR: 'AUTH_INTERNAL_ERROR',
 } as const;
@@ -18,6 +26,11 @@ export interface AuthErrorDetails {
     path: string;
     message: string;
   }>;
+  /** Token for POST /auth/2fa/verify, set with AUTH_TWO_FACTOR_REQUIRED */
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  /** Seconds until the next login attempt, set with AUTH_TOO_MANY_LOGIN_ATTEMPTS and temporary locks */
+  retryAfterSeconds?: number;
 }
 
 export interface AuthErrorResponse {
@@ -35,10 +48,21 @@ export interface AuthHttpError extends Error {
 export function getAuthHttpStatus(code: AuthErrorCode): number {
   switch (code) {
     case AUTH_ERROR_CODES.VALIDATION_ERROR:
+    case AUTH_ERROR_CODES.AUTH_RESET_TOKEN_INVALID:
       return 400;
     case AUTH_ERROR_CODES.AUTH_ACCOUNT_LOCKED:
     case AUTH_ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS:
+    case AUTH_ERROR_CODES.AUTH_EMAIL_NOT_VERIFIED:
+    case AUTH_ERROR_CODES.AUTH_TWO_FACTOR_REQUIRED:
+    case AUTH_ERROR_CODES.AUTH_STEP_UP_REQUIRED:
       return 403;
+    case AUTH_ERROR_CODES.AUTH_SESSION_NOT_FOUND:
+      return 404;
+    case AUTH_ERROR_CODES.AUTH_TWO_FACTOR_ALREADY_ENABLED:
+    case AUTH_ERROR_CODES.AUTH_TWO_FACTOR_NOT_ENABLED:
+      return 409;
+    case AUTH_ERROR_CODES.AUTH_TOO_MANY_LOGIN_ATTEMPTS:
+      return 429;
     case AUTH_ERROR_CODES.AUTH_INTERNAL_ERROR:
       return 500;
     default:
@@ -4,6 +4,7 @@
  */
 
 import bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
 import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
 import type { StringValue } from 'ms';
 import { IAuthService } from '../IAuthService';
@@ -14,12 +15,28 @@ import {
   AuthResult,
   TokenPayload,
   AuthErrorCode,
+  AuthUserRecord,
+  DEFAULT_TWO_FACTOR_CONFIG,
+  SessionContext,
+  SessionRevocationReason,
+  SessionSummary,
+  TwoFactorChallenge,
   validateLoginRequest,
 } from '../types';
 import { type AuthUser, serializeSessionSuccessResponse } from '../contract/AuthContract';
+import { TotpSecretCipher } from '../utils/TotpSecretCipher';
+import { TwoFactorCodeVerifier } from '../utils/TwoFactorCodeVerifier';
+import { LoginAttemptGuard } from '../utils/LoginAttemptGuard';
 
 type RoleType = 'admin' | 'user' | 'customer' | 'advisor' | 'investor';
 
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
 function requireNonEmptyString(value: string | null | undefined, fieldName: string): string {
   if (typeof value !== 'string') {
     throw new TypeError(`Missing required auth user field: ${fieldName}`);
@@ -82,11 +99,17 @@ function decodeTokenTimestamps(token: string): { expiresIn: number; expiresAt: s
 export class AuthServiceImpl implements IAuthService {
   private readonly jwtSecret: string;
   private readonly tokenExpiry: StringValue;
+  private readonly refreshTokenTtlDays: number;
+  private readonly challengeSecret: string;
+  private readonly twoFactorVerifier: TwoFactorCodeVerifier;
+  private readonly loginAttemptGuard: LoginAttemptGuard;
 
   constructor(
     private readonly authRepository: IAuthRepository,
     jwtSecret?: string,
-    tokenExpiry?: StringValue
+    tokenExpiry?: StringValue,
+    refreshTokenTtlDays?: number,
+    loginAttemptGuard?: LoginAttemptGuard
   ) {
     const resolvedJwtSecret = jwtSecret ?? process.env.JWT_SECRET;
     const resolvedTokenExpiry = tokenExpiry ?? (process.env.JWT_EXPIRES_IN as StringValue | undefined);
@@ -101,9 +124,21 @@ export class AuthServiceImpl implements IAuthService {
 
     this.jwtSecret = resolvedJwtSecret;
     this.tokenExpiry = resolvedTokenExpiry;
+
+    const envRefreshTokenTtlDays = Number.parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '', 10);
+    this.refreshTokenTtlDays = refreshTokenTtlDays
+      ?? (envRefreshTokenTtlDays > 0 ? envRefreshTokenTtlDays : DEFAULT_REFRESH_TOKEN_TTL_DAYS);
+
+    // Challenge tokens use a derived key so they can never pass as access tokens
+    this.challengeSecret = createHash('sha256').update(`2fa-challenge:${resolvedJwtSecret}`).digest('hex');
+    this.twoFactorVerifier = new TwoFactorCodeVerifier(
+      authRepository,
+      TotpSecretCipher.fromEnvironment(resolvedJwtSecret)
+    );
+    this.loginAttemptGuard = loginAttemptGuard ?? new LoginAttemptGuard(authRepository);
   }
 
-  async login(request: LoginRequest): Promise<AuthResult<LoginResponse>> {
+  async login(request: LoginRequest, context: SessionContext = {}): Promise<AuthResult<LoginResponse>> {
     // Validate request
     const validation = validateLoginRequest(request);
     if (!validation.success) {
@@ -117,9 +152,23 @@ export class AuthServiceImpl implements IAuthService {
     }
 
     try {
+      // Progressive delay after repeated failures for this account or IP
+      const retryAfterSeconds = await this.loginAttemptGuard.getRetryAfterSeconds(request.email, context.ipAddress);
+      if (retryAfterSeconds !== null) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS,
+            message: 'Too many failed login attempts. Please try again later',
+            retryAfterSeconds,
+          },
+        };
+      }
+
       // Find user by email
       const user = await this.authRepository.findUserByEmail(request.email);
       if (!user) {
+        await this.loginAttemptGuard.registerFailure(request.email, context.ipAddress, null);
         return {
           success: false,
           error: {
@@ -129,8 +178,13 @@ export class AuthServiceImpl implements IAuthService {
         };
       }
 
-      // Check user status
-      if (user.status !== 'active') {
+      if (await this.loginAttemptGuard.releaseExpiredLock(user)) {
+        user.status = 'active';
+        user.lockedUntil = null;
+      }
+
+      // Check user status; a temporary lock is only revealed after the password check
+      if (user.status !== 'active' && !this.loginAttemptGuard.isLocked(user)) {
         const statusCode =
           user.status === 'locked' || user.status === 'blocked' || user.status === 'suspended'
             ? AuthErrorCode.ACCOUNT_LOCKED
@@ -151,6 +205,8 @@ export class AuthServiceImpl implements IAuthService {
         user.passwordHash
       );
       if (!isValidPassword) {
+        // Answered like an unknown email, also for locked accounts; the owner is notified by email
+        await this.loginAttemptGuard.registerFailure(request.email, context.ipAddress, user);
         return {
           success: false,
           error: {
@@ -160,46 +216,106 @@ export class AuthServiceImpl implements IAuthService {
         };
       }
 
-      // Update last login
-      await this.authRepository.updateLastLogin(user.id);
+      // Temporary lock after failed logins, lifted automatically at lockedUntil
+      if (this.loginAttemptGuard.isLocked(user)) {
+        return this.accountLockedResult(user.lockedUntil);
+      }
 
-      const userRole = resolveRole(user.role);
+      // Second step for users with 2FA: POST /auth/2fa/verify with the challenge token.
+      // The failure counter is only reset once the whole login succeeded.
+      const twoFactor = await this.authRepository.findTwoFactor(user.id);
+      if (twoFactor?.enabledAt) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TWO_FACTOR_REQUIRED,
+            message: 'Two-factor authentication code required',
+            challenge: this.createTwoFactorChallenge(user),
+          },
+        };
+      }
 
-      // Generate JWT token
-      const payload = {
-        id: user.id,
-        email: user.email,
-        role: userRole,
+      await this.loginAttemptGuard.registerSuccess(request.email);
+      return {
+        success: true,
+        data: await this.startSession(user, context),
       };
-
-      const signOptions: SignOptions = {
-        expiresIn: this.tokenExpiry,
+    } catch (error) {
+      console.error('Login error:', error);
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.INTERNAL_ERROR,
+          message: 'Internal server error',
+        },
       };
+    }
+  }
 
-      const token = jwt.sign(payload, this.jwtSecret, signOptions);
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {}
+  ): Promise<AuthResult<LoginResponse>> {
+    let challenge: JwtPayload;
+    try {
+      challenge = jwt.verify(challengeToken, this.challengeSecret) as JwtPayload;
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: error instanceof jwt.TokenExpiredError ? AuthErrorCode.TOKEN_EXPIRED : AuthErrorCode.TOKEN_INVALID,
+          message: 'Two-factor challenge is invalid or has expired. Please log in again',
+        },
+      };
+    }
 
-      const { expiresIn, expiresAt, issuedAt } = decodeTokenTimestamps(token);
+    try {
+      const user = typeof challenge.id === 'string'
+        ? await this.authRepository.findUserById(challenge.id)
+        : null;
+      if (user?.status !== 'active' || user.tokenVersion !== challenge.tv) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TOKEN_INVALID,
+            message: 'Two-factor challenge is invalid or has expired. Please log in again',
+          },
+        };
+      }
 
-      const authUser = mapAuthUser(user, userRole);
+      const retryAfterSeconds = await this.loginAttemptGuard.getTwoFactorRetryAfterSeconds(user.id);
+      if (retryAfterSeconds !== null) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS,
+            message: 'Too many invalid two-factor codes. Please try again later',
+            retryAfterSeconds,
+          },
+        };
+      }
 
-      const sessionResponse = serializeSessionSuccessResponse({
-        success: true,
-        data: {
-          accessToken: token,
-          tokenType: 'Bearer',
-          expiresIn,
-          expiresAt,
-          issuedAt,
-          user: authUser,
-        },
-      });
+      const method = await this.twoFactorVerifier.verify(user.id, code ?? '');
+      if (!method) {
+        await this.loginAttemptGuard.registerTwoFactorFailure(user.id);
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.INVALID_CREDENTIALS,
+            message: 'Invalid two-factor code',
+          },
+        };
+      }
 
+      await this.loginAttemptGuard.registerTwoFactorSuccess(user.id);
+      await this.loginAttemptGuard.registerSuccess(user.email);
       return {
         success: true,
-        data: sessionResponse,
+        data: await this.startSession(user, context),
       };
     } catch (error) {
-      console.error('Login error:', error);
+      console.error('Two-factor login error:', error);
       return {
         success: false,
         error: {
@@ -234,6 +350,29 @@ export class AuthServiceImpl implements IAuthService {
 
     try {
       const decoded = jwt.verify(token, this.jwtSecret) as TokenPayload;
+
+      // Tokens issued before the last password change or reset are revoked
+      const tokenVersion = await this.authRepository.getTokenVersion(decoded.id);
+      if (tokenVersion !== null && (decoded.tv ?? 0) !== tokenVersion) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TOKEN_INVALID,
+            message: 'Token has been revoked',
+          },
+        };
+      }
+
+      if (decoded.sid && !(await this.authRepository.isSessionActive(decoded.sid))) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TOKEN_INVALID,
+            message: 'Session has been revoked',
+          },
+        };
+      }
+
       return {
         success: true,
         data: decoded,
@@ -267,86 +406,84 @@ export class AuthServiceImpl implements IAuthService {
     }
   }
 
-  async refreshToken(token: string): Promise<AuthResult<LoginResponse>> {
-    const validation = await this.validateToken(token);
-    if (!validation.success) {
-      return {
-        success: false,
-        error: validation.error || {
-          code: AuthErrorCode.TOKEN_INVALID,
-          message: 'Invalid token',
-        },
-      };
-    }
+  async refreshToken(refreshToken: string): Promise<AuthResult<LoginResponse>> {
+    const invalidToken = (message: string): AuthResult<LoginResponse> => ({
+      success: false,
+      error: {
+        code: AuthErrorCode.TOKEN_INVALID,
+        message,
+      },
+    });
 
-    if (!validation.data) {
-      return {
-        success: false,
-        error: {
-          code: AuthErrorCode.TOKEN_INVALID,
-          message: 'Invalid token payload',
-        },
-      };
+    if (typeof refreshToken !== 'string' || refreshToken.trim().length === 0) {
+      return invalidToken('Invalid refresh token');
     }
 
-    const payload = validation.data;
+    try {
+      const tokenHash = hashRefreshToken(refreshToken);
+      const storedToken = await this.authRepository.findRefreshToken(tokenHash);
+      if (!storedToken) {
+        return invalidToken('Invalid refresh token');
+      }
 
-    // Verify user still exists and is active
-    const user = await this.authRepository.findUserByEmail(payload.email);
-    if (user?.status !== 'active') {
-      return {
-        success: false,
-        error: {
-          code: AuthErrorCode.USER_INACTIVE,
-          message: 'Account is no longer active',
-        },
-      };
-    }
+      // A rotated token presented again was stolen or replayed: end the whole session
+      if (storedToken.usedAt) {
+        await this.authRepository.revokeSession(storedToken.sessionId, 'refresh_token_reuse');
+        return invalidToken('Refresh token reuse detected; session has been revoked');
+      }
 
-    // Generate new token
-    const newPayload = {
-      id: payload.id,
-      email: payload.email,
-      role: payload.role,
-    };
+      const session = await this.authRepository.findSessionById(storedToken.sessionId);
+      if (!session || session.revokedAt) {
+        return invalidToken('Session has been revoked');
+      }
 
-    const signOptions: SignOptions = {
-      expiresIn: this.tokenExpiry,
-    };
+      if (session.expiresAt.getTime() <= Date.now()) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TOKEN_EXPIRED,
+            message: 'Session has expired',
+          },
+        };
+      }
 
-    const newToken = jwt.sign(newPayload, this.jwtSecret, signOptions);
+      // Verify user still exists and is active
+      const user = await this.authRepository.findUserById(session.userId);
+      if (user?.status !== 'active') {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.USER_INACTIVE,
+            message: 'Account is no longer active',
+          },
+        };
+      }
 
-    const { expiresIn, expiresAt, issuedAt } = decodeTokenTimestamps(newToken);
+      const newRefreshToken = randomBytes(32).toString('hex');
+      const rotated = await this.authRepository.rotateRefreshToken(
+        session.id,
+        tokenHash,
+        hashRefreshToken(newRefreshToken),
+        this.getRefreshTokenExpiry()
+      );
+      if (!rotated) {
+        await this.authRepository.revokeSession(session.id, 'refresh_token_reuse');
+        return invalidToken('Refresh token reuse detected; session has been revoked');
+      }
 
-    let authUser: AuthUser;
-    try {
-      authUser = mapAuthUser(user);
+      return {
+        success: true,
+        data: this.createSessionResponse(user, session.id, newRefreshToken),
+      };
     } catch (error) {
       return {
         success: false,
         error: {
           code: AuthErrorCode.INTERNAL_ERROR,
-          message: `Failed to build refresh session payload: ${(error as Error).message}`,
+          message: `Failed to refresh session: ${(error as Error).message}`,
         },
       };
     }
-
-    const refreshResponse = serializeSessionSuccessResponse({
-      success: true,
-      data: {
-        accessToken: newToken,
-        tokenType: 'Bearer',
-        expiresIn,
-        expiresAt,
-        issuedAt,
-        user: authUser,
-      },
-    });
-
-    return {
-      success: true,
-      data: refreshResponse,
-    };
   }
 
   async getCurrentUser(token: string): Promise<AuthResult<AuthUser>> {
@@ -419,6 +556,10 @@ export class AuthServiceImpl implements IAuthService {
 
     await this.authRepository.revokeToken(token, expiresAt);
 
+    if (validation.data.sid) {
+      await this.authRepository.revokeSession(validation.data.sid, 'logout');
+    }
+
     return {
       success: true,
       data: {
@@ -426,5 +567,172 @@ export class AuthServiceImpl implements IAuthService {
       },
     };
   }
+
+  async listSessions(userId: string, currentSessionId?: string): Promise<AuthResult<SessionSummary[]>> {
+    try {
+      const sessions = await this.authRepository.findActiveSessions(userId);
+      return {
+        success: true,
+        data: sessions.map((session) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt.toISOString(),
+          lastUsedAt: session.lastUsedAt.toISOString(),
+          expiresAt: session.expiresAt.toISOString(),
+          current: session.id === currentSessionId,
+        })),
+      };
+    } catch (error) {
+      console.error('List sessions error:', error);
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.INTERNAL_ERROR,
+          message: 'Failed to list sessions',
+        },
+      };
+    }
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<AuthResult<{ message: string }>> {
+    try {
+      const session = UUID_REGEX.test(sessionId)
+        ? await this.authRepository.findSessionById(sessionId)
+        : null;
+      if (session?.userId !== userId || session.revokedAt) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.SESSION_NOT_FOUND,
+            message: 'Session not found',
+          },
+        };
+      }
+
+      await this.authRepository.revokeSession(sessionId, 'user_revoked');
+      return {
+        success: true,
+        data: {
+          message: 'Session revoked',
+        },
+      };
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.INTERNAL_ERROR,
+          message: 'Failed to revoke session',
+        },
+      };
+    }
+  }
+
+  async revokeAllSessions(
+    userId: string,
+    reason: SessionRevocationReason
+  ): Promise<AuthResult<{ revokedSessions: number }>> {
+    try {
+      const revokedSessions = await this.authRepository.revokeAllSessions(userId, reason);
+      return {
+        success: true,
+        data: {
+          revokedSessions,
+        },
+      };
+    } catch (error) {
+      console.error('Revoke all sessions error:', error);
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.INTERNAL_ERROR,
+          message: 'Failed to revoke sessions',
+        },
+      };
+    }
+  }
+
+  /**
+   * Update last login and start a session (device) with its first refresh token
+   */
+  private async startSession(user: AuthUserRecord, context: SessionContext): Promise<LoginResponse> {
+    await this.authRepository.updateLastLogin(user.id);
+
+    const refreshToken = randomBytes(32).toString('hex');
+    const sessionId = await this.authRepository.createSession({
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      userAgent: context.userAgent?.slice(0, 512) ?? null,
+      ipAddress: context.ipAddress ?? null,
+      expiresAt: this.getRefreshTokenExpiry(),
+    });
+
+    return this.createSessionResponse(user, sessionId, refreshToken);
+  }
+
+  private createTwoFactorChallenge(user: AuthUserRecord): TwoFactorChallenge {
+    const challengeToken = jwt.sign(
+      { id: user.id, tv: user.tokenVersion },
+      this.challengeSecret,
+      { expiresIn: `${DEFAULT_TWO_FACTOR_CONFIG.challengeTtlMinutes}m` }
+    );
+
+    return {
+      challengeToken,
+      expiresAt: decodeTokenTimestamps(challengeToken).expiresAt,
+    };
+  }
+
+  private accountLockedResult<T>(lockedUntil: Date): AuthResult<T> {
+    return {
+      success: false,
+      error: {
+        code: AuthErrorCode.ACCOUNT_LOCKED,
+        message: `Account is temporarily locked after too many failed login attempts. Try again after ${lockedUntil.toISOString()}`,
+        retryAfterSeconds: Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)),
+      },
+    };
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Sign a short-lived access token bound to the session and build the session response
+   */
+  private createSessionResponse(user: AuthUserRecord, sessionId: string, refreshToken: string): LoginResponse {
+    const userRole = resolveRole(user.role);
+
+    const payload = {
+      id: user.id,
+      email: user.email,
+      role: userRole,
+      tv: user.tokenVersion,
+      sid: sessionId,
+    };
+
+    const signOptions: SignOptions = {
+      expiresIn: this.tokenExpiry,
+    };
+
+    const token = jwt.sign(payload, this.jwtSecret, signOptions);
+
+    const { expiresIn, expiresAt, issuedAt } = decodeTokenTimestamps(token);
+
+    return serializeSessionSuccessResponse({
+      success: true,
+      data: {
+        accessToken: token,
+        refreshToken,
+        tokenType: 'Bearer',
+        expiresIn,
+        expiresAt,
+        issuedAt,
+        user: mapAuthUser(user, userRole),
+      },
+    });
+  }
 }
 
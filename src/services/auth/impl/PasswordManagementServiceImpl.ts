@@ -0,0 +1,165 @@
+/**
+ * Password Management Service Implementation
+ * Handles password forgot, reset and change with dependency injection
+ */
+
+import bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { IPasswordManagementService } from '../IPasswordManagementService';
+import { IAuthRepository } from '../repository/IAuthRepository';
+import { IEmailService } from '../../email/IEmailService';
+import {
+  AuthResult,
+  AuthErrorCode,
+  ChangePasswordRequestSchema,
+  DEFAULT_PASSWORD_MANAGEMENT_CONFIG,
+  ForgotPasswordRequestSchema,
+  PasswordManagementConfig,
+  ResetPasswordRequestSchema,
+  validatePasswordRequest,
+} from '../types';
+
+const SALT_ROUNDS = 12;
+
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class PasswordManagementServiceImpl implements IPasswordManagementService {
+  constructor(
+    private readonly authRepository: IAuthRepository,
+    private readonly emailService: IEmailService,
+    private readonly config: PasswordManagementConfig = DEFAULT_PASSWORD_MANAGEMENT_CONFIG
+  ) {}
+
+  async requestPasswordReset(email: string): Promise<AuthResult<{ message: string }>> {
+    const validation = validatePasswordRequest(ForgotPasswordRequestSchema, { email });
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    const response = {
+      success: true,
+      data: { message: 'If an account exists for this email address, a password reset link has been sent' },
+    };
+
+    try {
+      const user = await this.authRepository.findUserByEmail(validation.data.email);
+      if (user?.status !== 'active') {
+        return response;
+      }
+
+      // Only the hash is stored, the token itself is sent by email
+      const token = randomBytes(32).toString('hex');
+      const expiresAt = new Date(Date.now() + this.config.resetTokenTtlMinutes * 60 * 1000);
+      await this.authRepository.createPasswordResetToken(user.id, hashResetToken(token), expiresAt);
+
+      await this.emailService.sendPasswordReset(user.email, token, this.config.resetTokenTtlMinutes, {
+        firstName: user.firstName,
+        lastName: user.lastName,
+      });
+
+      return response;
+    } catch (error) {
+      console.error('Password reset request error:', error);
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.INTERNAL_ERROR,
+          message: 'Failed to request password reset',
+        },
+      };
+    }
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<AuthResult<{ message: string }>> {
+    const validation = validatePasswordRequest(ResetPasswordRequestSchema, { token, newPassword });
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const passwordHash = await bcrypt.hash(validation.data.newPassword, SALT_ROUNDS);
+      const userId = await this.authRepository.resetPasswordWithToken(
+        hashResetToken(validation.data.token),
+        passwordHash
+      );
+
+      if (!userId) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.RESET_TOKEN_INVALID,
+            message: 'Password reset token is invalid or has expired',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: { message: 'Password has been reset. Please log in with your new password' },
+      };
+    } catch (error) {
+      console.error('Password reset error:', error);
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.INTERNAL_ERROR,
+          message: 'Failed to reset password',
+        },
+      };
+    }
+  }
+
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<AuthResult<{ message: string }>> {
+    const validation = validatePasswordRequest(ChangePasswordRequestSchema, { currentPassword, newPassword });
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const user = await this.authRepository.findUserById(userId);
+      if (user?.status !== 'active') {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.USER_INACTIVE,
+            message: 'Account is no longer active',
+          },
+        };
+      }
+
+      const isValidPassword = await bcrypt.compare(validation.data.currentPassword, user.passwordHash);
+      if (!isValidPassword) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.INVALID_CREDENTIALS,
+            message: 'Current password is incorrect',
+          },
+        };
+      }
+
+      const passwordHash = await bcrypt.hash(validation.data.newPassword, SALT_ROUNDS);
+      await this.authRepository.updatePassword(user.id, passwordHash);
+
+      return {
+        success: true,
+        data: { message: 'Password has been changed. Please log in again' },
+      };
+    } catch (error) {
+      console.error('Password change error:', error);
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.INTERNAL_ERROR,
+          message: 'Failed to change password',
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Two-Factor Service Implementation
+ * Handles TOTP enrolment, admin reset and step-up re-authentication.
+ * Failed codes and step-up passwords are limited per user by the LoginAttemptGuard.
+ */
+
+import bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { ITwoFactorService } from '../ITwoFactorService';
+import { IAuthRepository } from '../repository/IAuthRepository';
+import {
+  AuthResult,
+  AuthErrorCode,
+  DEFAULT_TWO_FACTOR_CONFIG,
+  StepUpRequest,
+  TwoFactorCodeSchema,
+  TwoFactorConfig,
+  TwoFactorEnrollment,
+  TwoFactorStatus,
+  validatePasswordRequest,
+} from '../types';
+import { buildTotpProvisioningUri, generateTotpSecret } from '../utils/Totp';
+import { TotpSecretCipher } from '../utils/TotpSecretCipher';
+import { TwoFactorCodeVerifier, hashRecoveryCode } from '../utils/TwoFactorCodeVerifier';
+import { LoginAttemptGuard } from '../utils/LoginAttemptGuard';
+
+function generateRecoveryCode(): string {
+  const code = randomBytes(5).toString('hex');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+export class TwoFactorServiceImpl implements ITwoFactorService {
+  private readonly verifier: TwoFactorCodeVerifier;
+
+  constructor(
+    private readonly authRepository: IAuthRepository,
+    private readonly cipher: TotpSecretCipher,
+    private readonly config: TwoFactorConfig = DEFAULT_TWO_FACTOR_CONFIG,
+    private readonly loginAttemptGuard: LoginAttemptGuard = new LoginAttemptGuard(authRepository)
+  ) {
+    this.verifier = new TwoFactorCodeVerifier(authRepository, cipher);
+  }
+
+  async getStatus(userId: string): Promise<AuthResult<TwoFactorStatus>> {
+    try {
+      const twoFactor = await this.authRepository.findTwoFactor(userId);
+      const enabled = Boolean(twoFactor?.enabledAt);
+
+      return {
+        success: true,
+        data: {
+          enabled,
+          recoveryCodesRemaining: enabled ? await this.authRepository.countUnusedRecoveryCodes(userId) : 0,
+        },
+      };
+    } catch (error) {
+      return this.internalError('Failed to load two-factor status', error);
+    }
+  }
+
+  async startEnrollment(userId: string): Promise<AuthResult<TwoFactorEnrollment>> {
+    try {
+      const [user, existing] = await Promise.all([
+        this.authRepository.findUserById(userId),
+        this.authRepository.findTwoFactor(userId),
+      ]);
+
+      if (user?.status !== 'active') {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.USER_INACTIVE,
+            message: 'Account is no longer active',
+          },
+        };
+      }
+
+      if (existing?.enabledAt) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED,
+            message: 'Two-factor authentication is already enabled',
+          },
+        };
+      }
+
+      const secret = generateTotpSecret();
+      const recoveryCodes = Array.from({ length: this.config.recoveryCodeCount }, generateRecoveryCode);
+
+      await this.authRepository.saveTwoFactorEnrollment(
+        userId,
+        this.cipher.encrypt(secret),
+        recoveryCodes.map(hashRecoveryCode)
+      );
+
+      return {
+        success: true,
+        data: {
+          secret,
+          provisioningUri: buildTotpProvisioningUri(secret, user.email, this.config.issuer),
+          recoveryCodes,
+        },
+      };
+    } catch (error) {
+      return this.internalError('Failed to start two-factor enrolment', error);
+    }
+  }
+
+  async activateTwoFactor(userId: string, code: string): Promise<AuthResult<{ message: string }>> {
+    const validation = validatePasswordRequest(TwoFactorCodeSchema, code);
+    if (!validation.success || validation.data === undefined) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const twoFactor = await this.authRepository.findTwoFactor(userId);
+      if (!twoFactor) {
+        return this.notEnabled('Start the two-factor enrolment first');
+      }
+
+      if (twoFactor.enabledAt) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED,
+            message: 'Two-factor authentication is already enabled',
+          },
+        };
+      }
+
+      if (!(await this.verifier.verifyTotp(twoFactor, validation.data))) {
+        return this.invalidCode();
+      }
+
+      await this.authRepository.enableTwoFactor(userId);
+      return {
+        success: true,
+        data: { message: 'Two-factor authentication enabled' },
+      };
+    } catch (error) {
+      return this.internalError('Failed to activate two-factor authentication', error);
+    }
+  }
+
+  async disableTwoFactor(userId: string, code: string): Promise<AuthResult<{ message: string }>> {
+    const validation = validatePasswordRequest(TwoFactorCodeSchema, code);
+    if (!validation.success || validation.data === undefined) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const twoFactor = await this.authRepository.findTwoFactor(userId);
+      if (!twoFactor?.enabledAt) {
+        return this.notEnabled('Two-factor authentication is not enabled');
+      }
+
+      const retryAfterSeconds = await this.loginAttemptGuard.getTwoFactorRetryAfterSeconds(userId);
+      if (retryAfterSeconds !== null) {
+        return this.tooManyAttempts(retryAfterSeconds);
+      }
+
+      if (!(await this.verifier.verify(userId, validation.data))) {
+        await this.loginAttemptGuard.registerTwoFactorFailure(userId);
+        return this.invalidCode();
+      }
+
+      await this.loginAttemptGuard.registerTwoFactorSuccess(userId);
+      await this.authRepository.deleteTwoFactor(userId);
+      return {
+        success: true,
+        data: { message: 'Two-factor authentication disabled' },
+      };
+    } catch (error) {
+      return this.internalError('Failed to disable two-factor authentication', error);
+    }
+  }
+
+  async resetTwoFactor(userId: string): Promise<AuthResult<{ message: string }>> {
+    try {
+      const deleted = await this.authRepository.deleteTwoFactor(userId);
+      if (!deleted) {
+        return this.notEnabled('Two-factor authentication is not set up for this user');
+      }
+
+      return {
+        success: true,
+        data: { message: 'Two-factor authentication reset' },
+      };
+    } catch (error) {
+      return this.internalError('Failed to reset two-factor authentication', error);
+    }
+  }
+
+  async stepUp(
+    userId: string,
+    sessionId: string | undefined,
+    request: StepUpRequest
+  ): Promise<AuthResult<{ stepUpExpiresAt: string }>> {
+    if (!sessionId) {
+      return {
+        success: false,
+        error: {
+          code: AuthErrorCode.TOKEN_INVALID,
+          message: 'Access token is not bound to a session. Please log in again',
+        },
+      };
+    }
+
+    try {
+      const [user, twoFactor, session] = await Promise.all([
+        this.authRepository.findUserById(userId),
+        this.authRepository.findTwoFactor(userId),
+        this.authRepository.findSessionById(sessionId),
+      ]);
+
+      if (user?.status !== 'active' || session?.userId !== userId || session.revokedAt) {
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.TOKEN_INVALID,
+            message: 'Session has been revoked',
+          },
+        };
+      }
+
+      const retryAfterSeconds = await this.loginAttemptGuard.getTwoFactorRetryAfterSeconds(userId);
+      if (retryAfterSeconds !== null) {
+        return this.tooManyAttempts(retryAfterSeconds);
+      }
+
+      // With 2FA the second factor is required, the password alone is not enough
+      const verified = twoFactor?.enabledAt
+        ? Boolean(request.code && (await this.verifier.verify(userId, request.code)))
+        : Boolean(request.password && (await bcrypt.compare(request.password, user.passwordHash)));
+
+      if (!verified) {
+        await this.loginAttemptGuard.registerTwoFactorFailure(userId);
+        return {
+          success: false,
+          error: {
+            code: AuthErrorCode.INVALID_CREDENTIALS,
+            message: twoFactor?.enabledAt ? 'Invalid two-factor code' : 'Invalid password',
+          },
+        };
+      }
+
+      await this.loginAttemptGuard.registerTwoFactorSuccess(userId);
+      await this.authRepository.markSessionSteppedUp(sessionId);
+      return {
+        success: true,
+        data: {
+          stepUpExpiresAt: new Date(Date.now() + this.config.stepUpTtlMinutes * 60 * 1000).toISOString(),
+        },
+      };
+    } catch (error) {
+      return this.internalError('Failed to re-authenticate', error);
+    }
+  }
+
+  async hasRecentStepUp(sessionId: string | undefined): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    const session = await this.authRepository.findSessionById(sessionId);
+    if (!session?.stepUpAt || session.revokedAt) {
+      return false;
+    }
+
+    return Date.now() - session.stepUpAt.getTime() <= this.config.stepUpTtlMinutes * 60 * 1000;
+  }
+
+  private invalidCode<T>(): AuthResult<T> {
+    return {
+      success: false,
+      error: {
+        code: AuthErrorCode.INVALID_CREDENTIALS,
+        message: 'Invalid two-factor code',
+      },
+    };
+  }
+
+  private tooManyAttempts<T>(retryAfterSeconds: number): AuthResult<T> {
+    return {
+      success: false,
+      error: {
+        code: AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS,
+        message: 'Too many failed attempts. Please try again later',
+        retryAfterSeconds,
+      },
+    };
+  }
+
+  private notEnabled<T>(message: string): AuthResult<T> {
+    return {
+      success: false,
+      error: {
+        code: AuthErrorCode.TWO_FACTOR_NOT_ENABLED,
+        message,
+      },
+    };
+  }
+
+  private internalError<T>(message: string, error: unknown): AuthResult<T> {
+    console.error(`${message}:`, error);
+    return {
+      success: false,
+      error: {
+        code: AuthErrorCode.INTERNAL_ERROR,
+        message,
+      },
+    };
+  }
+}
@@ -1 +1,3 @@
 export * from './AuthServiceImpl';
+export * from './PasswordManagementServiceImpl';
+export * from './TwoFactorServiceImpl';
@@ -5,6 +5,8 @@
 
 export * from './types';
 export * from './IAuthService';
+export * from './IPasswordManagementService';
+export * from './ITwoFactorService';
 export * from './repository';
 export * from './impl';
 export * from './mock';
@@ -3,13 +3,29 @@
  * In-memory mock for unit testing
  */
 
+import { randomUUID } from 'crypto';
 import { IAuthRepository } from '../repository/IAuthRepository';
-import { AuthUserRecord } from '../types';
+import {
+  AuthSessionRecord,
+  AuthUserRecord,
+  CreateSessionInput,
+  LoginAttemptRecord,
+  LoginAttemptScope,
+  RefreshTokenRecord,
+  SessionRevocationReason,
+  TwoFactorRecord,
+} from '../types';
 
 export class AuthRepositoryMock implements IAuthRepository {
   private readonly users: Map<string, AuthUserRecord> = new Map();
   private readonly lastLoginUpdates: Map<string, Date> = new Map();
   private readonly revokedTokens: Set<string> = new Set();
+  private readonly resetTokens: Map<string, { userId: string; expiresAt: Date; usedAt: Date | null }> = new Map();
+  private readonly sessions: Map<string, AuthSessionRecord & { revokedReason: SessionRevocationReason | null }> = new Map();
+  private readonly refreshTokens: Map<string, RefreshTokenRecord> = new Map();
+  private readonly twoFactors: Map<string, TwoFactorRecord> = new Map();
+  private readonly recoveryCodes: Map<string, Map<string, Date | null>> = new Map();
+  private readonly loginAttempts: Map<string, LoginAttemptRecord & { firstFailedAt: Date }> = new Map();
 
   constructor(initialUsers?: AuthUserRecord[]) {
     if (initialUsers) {
@@ -21,6 +37,10 @@ export class AuthRepositoryMock implements IAuthRepository {
     return this.users.get(email) || null;
   }
 
+  async findUserById(userId: string): Promise<AuthUserRecord | null> {
+    return this.findById(userId);
+  }
+
   async updateLastLogin(userId: string): Promise<void> {
     this.lastLoginUpdates.set(userId, new Date());
   }
@@ -42,6 +62,239 @@ export class AuthRepositoryMock implements IAuthRepository {
     return this.revokedTokens.has(token);
   }
 
+  async getTokenVersion(userId: string): Promise<number | null> {
+    return this.findById(userId)?.tokenVersion ?? null;
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    this.invalidateResetTokens(userId);
+    this.resetTokens.set(tokenHash, { userId, expiresAt, usedAt: null });
+  }
+
+  async resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<string | null> {
+    const resetToken = this.resetTokens.get(tokenHash);
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    await this.updatePassword(resetToken.userId, passwordHash);
+    return resetToken.userId;
+  }
+
+  async updatePassword(userId: string, passwordHash: string): Promise<void> {
+    const user = this.findById(userId);
+    if (user) {
+      this.users.set(user.email, { ...user, passwordHash, tokenVersion: user.tokenVersion + 1 });
+    }
+    this.invalidateResetTokens(userId);
+    await this.revokeAllSessions(userId, 'password_changed');
+  }
+
+  async createSession(input: CreateSessionInput): Promise<string> {
+    const now = new Date();
+    const id = randomUUID();
+    this.sessions.set(id, {
+      id,
+      userId: input.userId,
+      userAgent: input.userAgent,
+      ipAddress: input.ipAddress,
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: input.expiresAt,
+      revokedAt: null,
+      stepUpAt: null,
+      revokedReason: null,
+    });
+    this.refreshTokens.set(input.refreshTokenHash, { sessionId: id, usedAt: null });
+    return id;
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const refreshToken = this.refreshTokens.get(tokenHash);
+    return refreshToken ? { ...refreshToken } : null;
+  }
+
+  async rotateRefreshToken(
+    sessionId: string,
+    tokenHash: string,
+    newTokenHash: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const refreshToken = this.refreshTokens.get(tokenHash);
+    const session = this.sessions.get(sessionId);
+    if (!refreshToken || refreshToken.sessionId !== sessionId || refreshToken.usedAt || !session) {
+      return false;
+    }
+
+    refreshToken.usedAt = new Date();
+    this.refreshTokens.set(newTokenHash, { sessionId, usedAt: null });
+    session.lastUsedAt = new Date();
+    session.expiresAt = expiresAt;
+    return true;
+  }
+
+  async findSessionById(sessionId: string): Promise<AuthSessionRecord | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? this.toSessionRecord(session) : null;
+  }
+
+  async findActiveSessions(userId: string): Promise<AuthSessionRecord[]> {
+    return [...this.sessions.values()]
+      .filter((session) => session.userId === userId && this.isActive(session))
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime())
+      .map((session) => this.toSessionRecord(session));
+  }
+
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    return session ? this.isActive(session) : false;
+  }
+
+  async revokeSession(sessionId: string, reason: SessionRevocationReason): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session && !session.revokedAt) {
+      session.revokedAt = new Date();
+      session.revokedReason = reason;
+    }
+  }
+
+  async revokeAllSessions(userId: string, reason: SessionRevocationReason): Promise<number> {
+    let revoked = 0;
+    for (const session of this.sessions.values()) {
+      if (session.userId === userId && !session.revokedAt) {
+        session.revokedAt = new Date();
+        session.revokedReason = reason;
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  async markSessionSteppedUp(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.stepUpAt = new Date();
+    }
+  }
+
+  async findTwoFactor(userId: string): Promise<TwoFactorRecord | null> {
+    const twoFactor = this.twoFactors.get(userId);
+    return twoFactor ? { ...twoFactor } : null;
+  }
+
+  async saveTwoFactorEnrollment(userId: string, secretEncrypted: string, recoveryCodeHashes: string[]): Promise<void> {
+    this.twoFactors.set(userId, { userId, secretEncrypted, enabledAt: null, lastUsedStep: null });
+    this.recoveryCodes.set(userId, new Map(recoveryCodeHashes.map((hash) => [hash, null])));
+  }
+
+  async enableTwoFactor(userId: string): Promise<void> {
+    const twoFactor = this.twoFactors.get(userId);
+    if (twoFactor) {
+      twoFactor.enabledAt = new Date();
+    }
+  }
+
+  async markTotpStepUsed(userId: string, timeStep: number): Promise<boolean> {
+    const twoFactor = this.twoFactors.get(userId);
+    if (!twoFactor || (twoFactor.lastUsedStep !== null && twoFactor.lastUsedStep >= timeStep)) {
+      return false;
+    }
+    twoFactor.lastUsedStep = timeStep;
+    return true;
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const codes = this.recoveryCodes.get(userId);
+    if (!codes?.has(codeHash) || codes.get(codeHash)) {
+      return false;
+    }
+    codes.set(codeHash, new Date());
+    return true;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    return [...(this.recoveryCodes.get(userId)?.values() ?? [])].filter((usedAt) => !usedAt).length;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<boolean> {
+    this.recoveryCodes.delete(userId);
+    return this.twoFactors.delete(userId);
+  }
+
+  async findLoginAttempt(scope: LoginAttemptScope, key: string): Promise<LoginAttemptRecord | null> {
+    const attempt = this.loginAttempts.get(`${scope}:${key}`);
+    return attempt ? { failedCount: attempt.failedCount, blockedUntil: attempt.blockedUntil } : null;
+  }
+
+  async recordFailedLogin(scope: LoginAttemptScope, key: string, windowStart: Date): Promise<number> {
+    const attempt = this.loginAttempts.get(`${scope}:${key}`);
+    if (!attempt || attempt.firstFailedAt < windowStart) {
+      this.loginAttempts.set(`${scope}:${key}`, { failedCount: 1, blockedUntil: null, firstFailedAt: new Date(Date.now()) });
+      return 1;
+    }
+    attempt.failedCount += 1;
+    return attempt.failedCount;
+  }
+
+  async delayLoginAttempts(scope: LoginAttemptScope, key: string, blockedUntil: Date): Promise<void> {
+    const attempt = this.loginAttempts.get(`${scope}:${key}`);
+    if (attempt) {
+      attempt.blockedUntil = blockedUntil;
+    }
+  }
+
+  async clearLoginAttempts(scope: LoginAttemptScope, key: string): Promise<void> {
+    this.loginAttempts.delete(`${scope}:${key}`);
+  }
+
+  async lockAccount(userId: string, lockedUntil: Date, _reason: string): Promise<boolean> {
+    const user = this.findById(userId);
+    if (user?.status !== 'active') {
+      return false;
+    }
+    user.status = 'suspended';
+    user.lockedUntil = lockedUntil;
+    return true;
+  }
+
+  async unlockExpiredAccount(userId: string): Promise<boolean> {
+    const user = this.findById(userId);
+    if (user?.status !== 'suspended' || !user.lockedUntil || user.lockedUntil.getTime() > Date.now()) {
+      return false;
+    }
+    user.status = 'active';
+    user.lockedUntil = null;
+    return true;
+  }
+
+  private isActive(session: AuthSessionRecord): boolean {
+    return !session.revokedAt && session.expiresAt.getTime() > Date.now();
+  }
+
+  private toSessionRecord(
+    session: AuthSessionRecord & { revokedReason: SessionRevocationReason | null }
+  ): AuthSessionRecord {
+    const { revokedReason: _revokedReason, ...record } = session;
+    return { ...record };
+  }
+
+  private findById(userId: string): AuthUserRecord | null {
+    for (const user of this.users.values()) {
+      if (user.id === userId) {
+        return user;
+      }
+    }
+    return null;
+  }
+
+  private invalidateResetTokens(userId: string): void {
+    for (const resetToken of this.resetTokens.values()) {
+      if (resetToken.userId === userId && !resetToken.usedAt) {
+        resetToken.usedAt = new Date();
+      }
+    }
+  }
+
   // Test helper methods
   addUser(user: AuthUserRecord): void {
     this.users.set(user.email, user);
@@ -55,9 +308,19 @@ export class AuthRepositoryMock implements IAuthRepository {
     return this.lastLoginUpdates.get(userId);
   }
 
+  getSessionRevocationReason(sessionId: string): SessionRevocationReason | null {
+    return this.sessions.get(sessionId)?.revokedReason ?? null;
+  }
+
   clear(): void {
     this.users.clear();
     this.lastLoginUpdates.clear();
     this.revokedTokens.clear();
+    this.resetTokens.clear();
+    this.sessions.clear();
+    this.refreshTokens.clear();
+    this.twoFactors.clear();
+    this.recoveryCodes.clear();
+    this.loginAttempts.clear();
   }
 }
@@ -3,10 +3,30 @@
  * PostgreSQL-based data access for authentication
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { createHash } from 'node:crypto';
 import { IAuthRepository } from './IAuthRepository';
-import { AuthUserRecord } from '../types';
+import {
+  AuthSessionRecord,
+  AuthUserRecord,
+  CreateSessionInput,
+  LoginAttemptRecord,
+  LoginAttemptScope,
+  RefreshTokenRecord,
+  SessionRevocationReason,
+  TwoFactorRecord,
+} from '../types';
+
+const SESSION_COLUMNS = `
+  id,
+  userid as "userId",
+  user_agent as "userAgent",
+  ip_address as "ipAddress",
+  createdat as "createdAt",
+  last_used_at as "lastUsedAt",
+  expires_at as "expiresAt",
+  revoked_at as "revokedAt",
+  step_up_at as "stepUpAt"`;
 
 export class AuthRepositoryImpl implements IAuthRepository {
   constructor(private readonly pool: Pool) {}
@@ -31,6 +51,14 @@ export class AuthRepositoryImpl implements IAuthRepository {
   }
 
   async findUserByEmail(email: string): Promise<AuthUserRecord | null> {
+    return this.findUser('u.email = $1', email);
+  }
+
+  async findUserById(userId: string): Promise<AuthUserRecord | null> {
+    return this.findUser('u.id = $1', userId);
+  }
+
+  private async findUser(condition: string, value: string): Promise<AuthUserRecord | null> {
     let result;
     try {
       result = await this.pool.query(
@@ -41,12 +69,14 @@ export class AuthRepositoryImpl implements IAuthRepository {
           u.role,
           u.last_login as "lastLogin",
           u.account_status as "accountStatus",
+          u.token_version as "tokenVersion",
+          u.locked_until as "lockedUntil",
           up.first_name as "firstName",
           up.last_name as "lastName"
         FROM users u
         LEFT JOIN user_profiles up ON up.user_id = u.id
-        WHERE u.email = $1`,
-        [email]
+        WHERE ${condition}`,
+        [value]
       );
     } catch (error) {
       const pgError = error as { code?: string; message?: string };
@@ -69,15 +99,15 @@ export class AuthRepositoryImpl implements IAuthRepository {
     const accountStatus = typeof row.accountStatus === 'string' ? row.accountStatus.trim() : '';
 
     if (!firstName || !lastName) {
-      throw new Error(`User profile is incomplete for ${email}: firstName and lastName are required`);
+      throw new Error(`User profile is incomplete for ${value}: firstName and lastName are required`);
     }
 
     if (!role) {
-      throw new Error(`User role is missing for ${email}`);
+      throw new Error(`User role is missing for ${value}`);
     }
 
     if (!accountStatus) {
-      throw new Error(`User account_status is missing for ${email}`);
+      throw new Error(`User account_status is missing for ${value}`);
     }
 
     return {
@@ -88,7 +118,9 @@ export class AuthRepositoryImpl implements IAuthRepository {
       lastName,
       role,
       status: accountStatus,
+      tokenVersion: row.tokenVersion,
       lastLogin: row.lastLogin ? new Date(row.lastLogin) : undefined,
+      lockedUntil: row.lockedUntil ? new Date(row.lockedUntil) : null,
     };
   }
 
@@ -139,6 +171,387 @@ export class AuthRepositoryImpl implements IAuthRepository {
 
     return result.rows.length > 0;
   }
-}
 
+  async getTokenVersion(userId: string): Promise<number | null> {
+    const result = await this.pool.query(
+      'SELECT token_version FROM users WHERE id = $1',
+      [userId]
+    );
+    return result.rows.length > 0 ? result.rows[0].token_version : null;
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE password_reset_token SET used_at = CURRENT_TIMESTAMP
+         WHERE userid = $1 AND used_at IS NULL`,
+        [userId]
+      );
+      await client.query(
+        `INSERT INTO password_reset_token (userid, token_hash, expires_at)
+         VALUES ($1, $2, $3)`,
+        [userId, tokenHash, expiresAt]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 
+  async resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<string | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const consumed = await client.query(
+        `UPDATE password_reset_token SET used_at = CURRENT_TIMESTAMP
+         WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+         RETURNING userid`,
+        [tokenHash]
+      );
+
+      if (consumed.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const userId: string = consumed.rows[0].userid;
+      await this.setPassword(client, userId, passwordHash);
+      await client.query('COMMIT');
+      return userId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updatePassword(userId: string, passwordHash: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.setPassword(client, userId, passwordHash);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async setPassword(client: PoolClient, userId: string, passwordHash: string): Promise<void> {
+    await client.query(
+      `UPDATE users
+       SET passwordhash = $2, token_version = token_version + 1,
+           password_changed_at = CURRENT_TIMESTAMP, updatedat = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [userId, passwordHash]
+    );
+    await client.query(
+      `UPDATE password_reset_token SET used_at = CURRENT_TIMESTAMP
+       WHERE userid = $1 AND used_at IS NULL`,
+      [userId]
+    );
+    await client.query(
+      `UPDATE auth_session SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'password_changed'
+       WHERE userid = $1 AND revoked_at IS NULL`,
+      [userId]
+    );
+  }
+
+  async createSession(input: CreateSessionInput): Promise<string> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const session = await client.query(
+        `INSERT INTO auth_session (userid, user_agent, ip_address, expires_at)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [input.userId, input.userAgent, input.ipAddress, input.expiresAt]
+      );
+      const sessionId: string = session.rows[0].id;
+      await client.query(
+        'INSERT INTO auth_refresh_token (session_id, token_hash) VALUES ($1, $2)',
+        [sessionId, input.refreshTokenHash]
+      );
+      await client.query('COMMIT');
+      return sessionId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const result = await this.pool.query(
+      `SELECT session_id as "sessionId", used_at as "usedAt"
+       FROM auth_refresh_token
+       WHERE token_hash = $1`,
+      [tokenHash]
+    );
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  async rotateRefreshToken(
+    sessionId: string,
+    tokenHash: string,
+    newTokenHash: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const consumed = await client.query(
+        `UPDATE auth_refresh_token SET used_at = CURRENT_TIMESTAMP
+         WHERE token_hash = $1 AND session_id = $2 AND used_at IS NULL`,
+        [tokenHash, sessionId]
+      );
+
+      if (consumed.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await client.query(
+        'INSERT INTO auth_refresh_token (session_id, token_hash) VALUES ($1, $2)',
+        [sessionId, newTokenHash]
+      );
+      await client.query(
+        `UPDATE auth_session SET last_used_at = CURRENT_TIMESTAMP, expires_at = $2
+         WHERE id = $1`,
+        [sessionId, expiresAt]
+      );
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findSessionById(sessionId: string): Promise<AuthSessionRecord | null> {
+    const result = await this.pool.query<AuthSessionRecord>(
+      `SELECT ${SESSION_COLUMNS} FROM auth_session WHERE id = $1`,
+      [sessionId]
+    );
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  async findActiveSessions(userId: string): Promise<AuthSessionRecord[]> {
+    const result = await this.pool.query<AuthSessionRecord>(
+      `SELECT ${SESSION_COLUMNS}
+       FROM auth_session
+       WHERE userid = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY last_used_at DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1
+       FROM auth_session
+       WHERE id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+      [sessionId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async revokeSession(sessionId: string, reason: SessionRevocationReason): Promise<void> {
+    await this.pool.query(
+      `UPDATE auth_session SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [sessionId, reason]
+    );
+  }
+
+  async revokeAllSessions(userId: string, reason: SessionRevocationReason): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE auth_session SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+       WHERE userid = $1 AND revoked_at IS NULL`,
+      [userId, reason]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async markSessionSteppedUp(sessionId: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE auth_session SET step_up_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [sessionId]
+    );
+  }
+
+  async findTwoFactor(userId: string): Promise<TwoFactorRecord | null> {
+    const result = await this.pool.query(
+      `SELECT
+        userid as "userId",
+        secret_encrypted as "secretEncrypted",
+        enabled_at as "enabledAt",
+        last_used_step as "lastUsedStep"
+       FROM user_two_factor
+       WHERE userid = $1`,
+      [userId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      ...row,
+      // BIGINT is returned as string by pg
+      lastUsedStep: row.lastUsedStep === null ? null : Number(row.lastUsedStep),
+    };
+  }
+
+  async saveTwoFactorEnrollment(userId: string, secretEncrypted: string, recoveryCodeHashes: string[]): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO user_two_factor (userid, secret_encrypted)
+         VALUES ($1, $2)
+         ON CONFLICT (userid) DO UPDATE
+         SET secret_encrypted = EXCLUDED.secret_encrypted,
+             enabled_at = NULL,
+             last_used_step = NULL,
+             updatedat = CURRENT_TIMESTAMP`,
+        [userId, secretEncrypted]
+      );
+      await client.query('DELETE FROM user_two_factor_recovery_code WHERE userid = $1', [userId]);
+      await client.query(
+        `INSERT INTO user_two_factor_recovery_code (userid, code_hash)
+         SELECT $1, unnest($2::varchar[])`,
+        [userId, recoveryCodeHashes]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async enableTwoFactor(userId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE user_two_factor SET enabled_at = CURRENT_TIMESTAMP, updatedat = CURRENT_TIMESTAMP
+       WHERE userid = $1`,
+      [userId]
+    );
+  }
+
+  async markTotpStepUsed(userId: string, timeStep: number): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE user_two_factor SET last_used_step = $2
+       WHERE userid = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+      [userId, timeStep]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE user_two_factor_recovery_code SET used_at = CURRENT_TIMESTAMP
+       WHERE userid = $1 AND code_hash = $2 AND used_at IS NULL`,
+      [userId, codeHash]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*)::int as count
+       FROM user_two_factor_recovery_code
+       WHERE userid = $1 AND used_at IS NULL`,
+      [userId]
+    );
+    return result.rows[0].count;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM user_two_factor WHERE userid = $1', [userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findLoginAttempt(scope: LoginAttemptScope, key: string): Promise<LoginAttemptRecord | null> {
+    const result = await this.pool.query<LoginAttemptRecord>(
+      `SELECT failed_count as "failedCount", blocked_until as "blockedUntil"
+       FROM login_attempt
+       WHERE scope = $1 AND attempt_key = $2`,
+      [scope, key]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async recordFailedLogin(scope: LoginAttemptScope, key: string, windowStart: Date): Promise<number> {
+    const result = await this.pool.query<{ failedCount: number }>(
+      `INSERT INTO login_attempt (scope, attempt_key, failed_count, first_failed_at, last_failed_at)
+       VALUES ($1, $2, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+       ON CONFLICT (scope, attempt_key) DO UPDATE
+       SET failed_count = CASE WHEN login_attempt.first_failed_at < $3 THEN 1 ELSE login_attempt.failed_count + 1 END,
+           blocked_until = CASE WHEN login_attempt.first_failed_at < $3 THEN NULL ELSE login_attempt.blocked_until END,
+           first_failed_at = CASE WHEN login_attempt.first_failed_at < $3 THEN CURRENT_TIMESTAMP ELSE login_attempt.first_failed_at END,
+           last_failed_at = CURRENT_TIMESTAMP
+       RETURNING failed_count as "failedCount"`,
+      [scope, key, windowStart]
+    );
+    return result.rows[0].failedCount;
+  }
+
+  async delayLoginAttempts(scope: LoginAttemptScope, key: string, blockedUntil: Date): Promise<void> {
+    await this.pool.query(
+      'UPDATE login_attempt SET blocked_until = $3 WHERE scope = $1 AND attempt_key = $2',
+      [scope, key, blockedUntil]
+    );
+  }
+
+  async clearLoginAttempts(scope: LoginAttemptScope, key: string): Promise<void> {
+    await this.pool.query('DELETE FROM login_attempt WHERE scope = $1 AND attempt_key = $2', [scope, key]);
+  }
+
+  async lockAccount(userId: string, lockedUntil: Date, reason: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET account_status = 'suspended',
+           blocked_at = CURRENT_TIMESTAMP,
+           blocked_by = NULL,
+           block_reason = $3,
+           locked_until = $2,
+           updatedat = CURRENT_TIMESTAMP
+       WHERE id = $1 AND account_status = 'active'`,
+      [userId, lockedUntil, reason]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async unlockExpiredAccount(userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET account_status = 'active',
+           blocked_at = NULL,
+           blocked_by = NULL,
+           block_reason = NULL,
+           locked_until = NULL,
+           updatedat = CURRENT_TIMESTAMP
+       WHERE id = $1
+         AND account_status = 'suspended'
+         AND locked_until IS NOT NULL
+         AND locked_until <= CURRENT_TIMESTAMP`,
+      [userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
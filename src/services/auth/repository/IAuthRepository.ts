@@ -3,7 +3,16 @@
  * Defines data access operations for authentication
  */
 
-import { AuthUserRecord } from '../types';
+import {
+  AuthSessionRecord,
+  AuthUserRecord,
+  CreateSessionInput,
+  LoginAttemptRecord,
+  LoginAttemptScope,
+  RefreshTokenRecord,
+  SessionRevocationReason,
+  TwoFactorRecord,
+} from '../types';
 
 export interface IAuthRepository {
   /**
@@ -11,6 +20,11 @@ export interface IAuthRepository {
    */
   findUserByEmail(email: string): Promise<AuthUserRecord | null>;
 
+  /**
+   * Find user by ID (e.g. to check the current password)
+   */
+  findUserById(userId: string): Promise<AuthUserRecord | null>;
+
   /**
    * Update last login timestamp
    */
@@ -30,4 +44,149 @@ export interface IAuthRepository {
    * Check whether a JWT token has been revoked
    */
   isTokenRevoked(token: string): Promise<boolean>;
+
+  /**
+   * Current token version of a user, null if the user does not exist
+   */
+  getTokenVersion(userId: string): Promise<number | null>;
+
+  /**
+   * Store a password reset token hash; earlier unused tokens of the user are invalidated
+   */
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Consume an unused, unexpired reset token and set the new password
+   * @returns ID of the user whose password was reset, null if the token is invalid
+   */
+  resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<string | null>;
+
+  /**
+   * Set a new password, increment the token version and invalidate open reset tokens
+   */
+  updatePassword(userId: string, passwordHash: string): Promise<void>;
+
+  /**
+   * Create a session with its first refresh token hash
+   * @returns Session ID
+   */
+  createSession(input: CreateSessionInput): Promise<string>;
+
+  /**
+   * Find a refresh token by hash, used or not
+   */
+  findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null>;
+
+  /**
+   * Mark an unused refresh token as used, store its successor and extend the session
+   * @returns False if the token was used in the meantime
+   */
+  rotateRefreshToken(
+    sessionId: string,
+    tokenHash: string,
+    newTokenHash: string,
+    expiresAt: Date
+  ): Promise<boolean>;
+
+  /**
+   * Find session by ID, including revoked and expired sessions
+   */
+  findSessionById(sessionId: string): Promise<AuthSessionRecord | null>;
+
+  /**
+   * Not revoked and not expired sessions of a user, most recently used first
+   */
+  findActiveSessions(userId: string): Promise<AuthSessionRecord[]>;
+
+  /**
+   * Check whether a session is neither revoked nor expired
+   */
+  isSessionActive(sessionId: string): Promise<boolean>;
+
+  /**
+   * Revoke a single session
+   */
+  revokeSession(sessionId: string, reason: SessionRevocationReason): Promise<void>;
+
+  /**
+   * Revoke all open sessions of a user
+   * @returns Number of revoked sessions
+   */
+  revokeAllSessions(userId: string, reason: SessionRevocationReason): Promise<number>;
+
+  /**
+   * Record a successful step-up re-authentication on a session
+   */
+  markSessionSteppedUp(sessionId: string): Promise<void>;
+
+  /**
+   * TOTP enrolment of a user, activated or not
+   */
+  findTwoFactor(userId: string): Promise<TwoFactorRecord | null>;
+
+  /**
+   * Store a new, not yet activated enrolment and replace the recovery codes
+   */
+  saveTwoFactorEnrollment(userId: string, secretEncrypted: string, recoveryCodeHashes: string[]): Promise<void>;
+
+  /**
+   * Activate the enrolment after the first valid code
+   */
+  enableTwoFactor(userId: string): Promise<void>;
+
+  /**
+   * Remember the time step of an accepted code
+   * @returns False if a code of this or a later step was already accepted (replay)
+   */
+  markTotpStepUsed(userId: string, timeStep: number): Promise<boolean>;
+
+  /**
+   * Consume an unused recovery code
+   * @returns False if the code is unknown or already used
+   */
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+
+  /**
+   * Number of unused recovery codes of a user
+   */
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+
+  /**
+   * Remove the enrolment and recovery codes (disable or admin reset)
+   * @returns False if the user had no enrolment
+   */
+  deleteTwoFactor(userId: string): Promise<boolean>;
+
+  /**
+   * Failed-login counter of an account or IP
+   */
+  findLoginAttempt(scope: LoginAttemptScope, key: string): Promise<LoginAttemptRecord | null>;
+
+  /**
+   * Count a failed login; counters whose first failure is before windowStart start over
+   * @returns Failed logins within the current window
+   */
+  recordFailedLogin(scope: LoginAttemptScope, key: string, windowStart: Date): Promise<number>;
+
+  /**
+   * Reject further logins for an account or IP until the given time
+   */
+  delayLoginAttempts(scope: LoginAttemptScope, key: string, blockedUntil: Date): Promise<void>;
+
+  /**
+   * Reset the failed-login counter (successful login or account lock)
+   */
+  clearLoginAttempts(scope: LoginAttemptScope, key: string): Promise<void>;
+
+  /**
+   * Suspend an active account until lockedUntil
+   * @returns False if the account was not active
+   */
+  lockAccount(userId: string, lockedUntil: Date, reason: string): Promise<boolean>;
+
+  /**
+   * Reactivate an account whose temporary lock has expired
+   * @returns False if the account has no expired temporary lock
+   */
+  unlockExpiredAccount(userId: string): Promise<boolean>;
 }
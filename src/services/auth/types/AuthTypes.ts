@@ -19,10 +19,41 @@ export const TokenPayloadSchema = z.object({
   id: z.string().uuid(),
   email: z.string().email(),
   role: z.enum(['admin', 'user', 'customer', 'advisor', 'investor']),
+  tv: z.number().int().optional(),
+  sid: z.string().optional(),
   iat: z.number().optional(),
   exp: z.number().optional(),
 });
 
+/**
+ * Same strength rules as registration
+ */
+export const NewPasswordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters long')
+  .max(128, 'Password cannot exceed 128 characters')
+  .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number');
+
+export const ForgotPasswordRequestSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+export const ResetPasswordRequestSchema = z.object({
+  token: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid reset token'),
+  newPassword: NewPasswordSchema,
+});
+
+export const TwoFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(6, 'Two-factor code is required')
+  .max(32, 'Invalid two-factor code');
+
+export const ChangePasswordRequestSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: NewPasswordSchema,
+});
+
 // =============================================================================
 // Error Codes (as object for runtime use)
 // =============================================================================
@@ -36,6 +67,13 @@ export const AuthErrorCode = {
   USER_INACTIVE: 'AUTH_USER_INACTIVE',
   STALE_ROLE_CLAIM: 'AUTH_STALE_ROLE_CLAIM',
   INSUFFICIENT_PERMISSIONS: 'AUTH_INSUFFICIENT_PERMISSIONS',
+  RESET_TOKEN_INVALID: 'AUTH_RESET_TOKEN_INVALID',
+  SESSION_NOT_FOUND: 'AUTH_SESSION_NOT_FOUND',
+  TWO_FACTOR_REQUIRED: 'AUTH_TWO_FACTOR_REQUIRED',
+  TWO_FACTOR_ALREADY_ENABLED: 'AUTH_TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_NOT_ENABLED: 'AUTH_TWO_FACTOR_NOT_ENABLED',
+  STEP_UP_REQUIRED: 'AUTH_STEP_UP_REQUIRED',
+  TOO_MANY_LOGIN_ATTEMPTS: 'AUTH_TOO_MANY_LOGIN_ATTEMPTS',
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   INTERNAL_ERROR: 'AUTH_INTERNAL_ERROR',
 } as const;
@@ -57,6 +95,129 @@ export type LoginResponse = SessionSuccessResponse;
 
 export type TokenPayload = z.infer<typeof TokenPayloadSchema>;
 
+export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordRequestSchema>;
+
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordRequestSchema>;
+
+export type ChangePasswordRequest = z.infer<typeof ChangePasswordRequestSchema>;
+
+export interface PasswordManagementConfig {
+  /** Minutes a password reset token stays valid */
+  resetTokenTtlMinutes: number;
+}
+
+export const DEFAULT_PASSWORD_MANAGEMENT_CONFIG: PasswordManagementConfig = {
+  resetTokenTtlMinutes: 60,
+};
+
+/**
+ * Client details stored with a session, shown in the device list
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type SessionRevocationReason =
+  | 'logout'
+  | 'user_revoked'
+  | 'admin_revoked'
+  | 'user_blocked'
+  | 'password_changed'
+  | 'refresh_token_reuse';
+
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  /** True for the session of the access token used for the request */
+  current: boolean;
+}
+
+export interface TwoFactorConfig {
+  /** Issuer shown in authenticator apps */
+  issuer: string;
+  /** Minutes the login challenge token stays valid */
+  challengeTtlMinutes: number;
+  /** Minutes a step-up re-authentication authorizes sensitive operations */
+  stepUpTtlMinutes: number;
+  /** Recovery codes issued at enrolment */
+  recoveryCodeCount: number;
+}
+
+export const DEFAULT_TWO_FACTOR_CONFIG: TwoFactorConfig = {
+  issuer: 'GoldSphere',
+  challengeTtlMinutes: 5,
+  stepUpTtlMinutes: 5,
+  recoveryCodeCount: 10,
+};
+
+/**
+ * Second login step for users with 2FA, returned with AUTH_TWO_FACTOR_REQUIRED
+ */
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  expiresAt: string;
+}
+
+export interface TwoFactorEnrollment {
+  /** Base32 secret for manual entry */
+  secret: string;
+  /** otpauth:// URI to render as QR code */
+  provisioningUri: string;
+  /** Single-use recovery codes, shown only once */
+  recoveryCodes: string[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface StepUpRequest {
+  /** Required for users without 2FA */
+  password?: string;
+  /** TOTP or recovery code, required for users with 2FA */
+  code?: string;
+}
+
+export interface LoginProtectionConfig {
+  /** Failed logins are counted within this window, per account and per IP */
+  failureWindowMinutes: number;
+  /** First delay; doubles with every further failure up to maxDelaySeconds */
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  /** Account failures before progressive delays start */
+  accountDelayAfter: number;
+  /** Account failures that suspend the account for lockDurationMinutes */
+  accountLockAfter: number;
+  lockDurationMinutes: number;
+  /** IP failures (across all accounts) before progressive delays start */
+  ipDelayAfter: number;
+  /** IP failures that block the IP for lockDurationMinutes */
+  ipBlockAfter: number;
+  /** Failed two-factor codes (login, step-up, disable) and step-up passwords per user before delays start */
+  twoFactorDelayAfter: number;
+  /** Failed two-factor attempts that block further ones of the user for lockDurationMinutes */
+  twoFactorBlockAfter: number;
+}
+
+export const DEFAULT_LOGIN_PROTECTION_CONFIG: LoginProtectionConfig = {
+  failureWindowMinutes: 15,
+  baseDelaySeconds: 1,
+  maxDelaySeconds: 30,
+  accountDelayAfter: 5,
+  accountLockAfter: 10,
+  lockDurationMinutes: 15,
+  ipDelayAfter: 20,
+  ipBlockAfter: 100,
+  twoFactorDelayAfter: 3,
+  twoFactorBlockAfter: 5,
+};
+
 export interface AuthResult<T> {
   success: boolean;
   data?: T;
@@ -66,6 +227,10 @@ export interface AuthResult<T> {
 export interface AuthError {
   code: AuthErrorCode;
   message: string;
+  /** Set with TWO_FACTOR_REQUIRED */
+  challenge?: TwoFactorChallenge;
+  /** Set with TOO_MANY_LOGIN_ATTEMPTS and temporary ACCOUNT_LOCKED */
+  retryAfterSeconds?: number;
 }
 
 // =============================================================================
@@ -80,13 +245,73 @@ export interface AuthUserRecord {
   lastName: string;
   role: string;
   status: 'active' | 'blocked' | 'suspended' | 'deleted' | 'inactive' | 'pending' | 'locked';
+  tokenVersion: number;
   lastLogin?: Date;
+  /** Automatic unlock time of a temporary lock after failed logins */
+  lockedUntil?: Date | null;
+}
+
+export interface AuthSessionRecord {
+  id: string;
+  userId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  stepUpAt: Date | null;
+}
+
+export interface CreateSessionInput {
+  userId: string;
+  refreshTokenHash: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: Date;
+}
+
+export interface TwoFactorRecord {
+  userId: string;
+  secretEncrypted: string;
+  enabledAt: Date | null;
+  lastUsedStep: number | null;
+}
+
+export interface RefreshTokenRecord {
+  sessionId: string;
+  usedAt: Date | null;
+}
+
+/**
+ * Account attempts are keyed by lower-cased email, IP attempts by client IP,
+ * two-factor attempts by user ID
+ */
+export type LoginAttemptScope = 'account' | 'ip' | 'two_factor';
+
+export interface LoginAttemptRecord {
+  failedCount: number;
+  blockedUntil: Date | null;
 }
 
 // =============================================================================
 // Validation Helpers
 // =============================================================================
 
+export function validatePasswordRequest<T>(schema: z.ZodType<T>, data: unknown): AuthResult<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    error: {
+      code: AuthErrorCode.VALIDATION_ERROR,
+      message: result.error.issues.map(i => i.message).join(', '),
+    },
+  };
+}
+
 export function validateLoginRequest(data: unknown): AuthResult<LoginRequest> {
   const result = LoginRequestSchema.safeParse(data);
   if (result.success) {
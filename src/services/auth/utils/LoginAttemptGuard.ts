@@ -0,0 +1,170 @@
+/**
+ * Login Attempt Guard
+ *
+ * Brute-force protection for password logins: failed-login counters per account
+ * (lower-cased email, so unknown addresses behave like known ones) and per client IP,
+ * progressive delays, and a temporary account lock with automatic unlock.
+ * Second-factor codes and step-up passwords are limited per user the same way.
+ */
+
+import { IAuthRepository } from '../repository/IAuthRepository';
+import type { IEmailService } from '../../email/IEmailService';
+import {
+  AuthUserRecord,
+  DEFAULT_LOGIN_PROTECTION_CONFIG,
+  LoginAttemptRecord,
+  LoginAttemptScope,
+  LoginProtectionConfig,
+} from '../types';
+
+export const ACCOUNT_LOCK_REASON = 'Too many failed login attempts';
+
+export class LoginAttemptGuard {
+  constructor(
+    private readonly authRepository: IAuthRepository,
+    private readonly config: LoginProtectionConfig = DEFAULT_LOGIN_PROTECTION_CONFIG,
+    private readonly emailService?: IEmailService
+  ) {}
+
+  /**
+   * Seconds until the account or IP may try again, null if a login attempt is allowed
+   */
+  async getRetryAfterSeconds(email: string, ipAddress?: string): Promise<number | null> {
+    const attempts = await Promise.all([
+      this.authRepository.findLoginAttempt('account', this.accountKey(email)),
+      ipAddress ? this.authRepository.findLoginAttempt('ip', ipAddress) : null,
+    ]);
+
+    return this.secondsUntilUnblocked(attempts);
+  }
+
+  /**
+   * Seconds until the user may try a two-factor code (or step-up password) again, null if allowed
+   */
+  async getTwoFactorRetryAfterSeconds(userId: string): Promise<number | null> {
+    return this.secondsUntilUnblocked([await this.authRepository.findLoginAttempt('two_factor', userId)]);
+  }
+
+  /**
+   * Count a failed login and apply delays; suspends the account once it reaches accountLockAfter
+   */
+  async registerFailure(email: string, ipAddress: string | undefined, user: AuthUserRecord | null): Promise<void> {
+    const accountKey = this.accountKey(email);
+    const accountFailures = await this.recordFailure('account', accountKey, this.config.accountDelayAfter);
+
+    if (ipAddress) {
+      const ipFailures = await this.recordFailure('ip', ipAddress, this.config.ipDelayAfter);
+      if (ipFailures >= this.config.ipBlockAfter) {
+        await this.authRepository.delayLoginAttempts('ip', ipAddress, this.minutesFromNow(this.config.lockDurationMinutes));
+      }
+    }
+
+    if (!user || accountFailures < this.config.accountLockAfter) {
+      return;
+    }
+
+    const lockedUntil = this.minutesFromNow(this.config.lockDurationMinutes);
+    if (!(await this.authRepository.lockAccount(user.id, lockedUntil, ACCOUNT_LOCK_REASON))) {
+      return;
+    }
+
+    // The lock replaces the delays; after it expires the user starts with a clean counter
+    await this.authRepository.clearLoginAttempts('account', accountKey);
+    await this.notifyLocked(user, lockedUntil, accountFailures, ipAddress);
+  }
+
+  /**
+   * Reset the account counter after a successful login. IP counters only expire,
+   * so an attacker cannot reset them by logging into an own account.
+   */
+  async registerSuccess(email: string): Promise<void> {
+    await this.authRepository.clearLoginAttempts('account', this.accountKey(email));
+  }
+
+  /**
+   * Count a failed two-factor code (or step-up password); delays and finally blocks further attempts
+   */
+  async registerTwoFactorFailure(userId: string): Promise<void> {
+    const failures = await this.recordFailure('two_factor', userId, this.config.twoFactorDelayAfter);
+    if (failures >= this.config.twoFactorBlockAfter) {
+      await this.authRepository.delayLoginAttempts(
+        'two_factor',
+        userId,
+        this.minutesFromNow(this.config.lockDurationMinutes)
+      );
+    }
+  }
+
+  async registerTwoFactorSuccess(userId: string): Promise<void> {
+    await this.authRepository.clearLoginAttempts('two_factor', userId);
+  }
+
+  /**
+   * Lift a temporary lock whose unlock time has passed
+   * @returns True if the user is active again
+   */
+  async releaseExpiredLock(user: AuthUserRecord): Promise<boolean> {
+    if (user.status !== 'suspended' || !user.lockedUntil || user.lockedUntil.getTime() > Date.now()) {
+      return false;
+    }
+    return this.authRepository.unlockExpiredAccount(user.id);
+  }
+
+  /**
+   * Whether the account is suspended by a temporary lock that has not expired yet
+   */
+  isLocked(user: AuthUserRecord): user is AuthUserRecord & { lockedUntil: Date } {
+    return user.status === 'suspended' && !!user.lockedUntil && user.lockedUntil.getTime() > Date.now();
+  }
+
+  private secondsUntilUnblocked(attempts: Array<LoginAttemptRecord | null>): number | null {
+    const blockedUntil = Math.max(0, ...attempts.map(attempt => attempt?.blockedUntil?.getTime() ?? 0));
+    return blockedUntil > Date.now() ? Math.ceil((blockedUntil - Date.now()) / 1000) : null;
+  }
+
+  private async recordFailure(scope: LoginAttemptScope, key: string, delayAfter: number): Promise<number> {
+    const windowStart = this.minutesFromNow(-this.config.failureWindowMinutes);
+    const failures = await this.authRepository.recordFailedLogin(scope, key, windowStart);
+
+    if (failures >= delayAfter) {
+      // 1s, 2s, 4s, ... capped at maxDelaySeconds
+      const delaySeconds = Math.min(
+        this.config.baseDelaySeconds * 2 ** (failures - delayAfter),
+        this.config.maxDelaySeconds
+      );
+      await this.authRepository.delayLoginAttempts(scope, key, new Date(Date.now() + delaySeconds * 1000));
+    }
+
+    return failures;
+  }
+
+  private async notifyLocked(
+    user: AuthUserRecord,
+    lockedUntil: Date,
+    failedAttempts: number,
+    ipAddress: string | undefined
+  ): Promise<void> {
+    if (!this.emailService) {
+      return;
+    }
+
+    try {
+      await this.emailService.sendAccountLocked(
+        user.email,
+        { lockedUntil, failedAttempts, ipAddress: ipAddress ?? null },
+        { firstName: user.firstName, lastName: user.lastName }
+      );
+    } catch (error) {
+      // The lock stays in place even if the notification cannot be delivered
+      console.error(`Failed to send account locked notice to user ${user.id}:`, error);
+    }
+  }
+
+  private accountKey(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private minutesFromNow(minutes: number): Date {
+    return new Date(Date.now() + minutes * 60 * 1000);
+  }
+}
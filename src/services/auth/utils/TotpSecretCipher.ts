@@ -0,0 +1,47 @@
+/**
+ * TOTP Secret Cipher
+ *
+ * Encrypts authenticator secrets at rest with AES-256-GCM.
+ * Stored format: base64url(iv).base64url(authTag).base64url(ciphertext)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const IV_BYTES = 12;
+
+export class TotpSecretCipher {
+  private readonly key: Buffer;
+
+  constructor(encryptionKey: string) {
+    if (!encryptionKey || encryptionKey.trim().length === 0) {
+      throw new Error('Two-factor encryption key must not be empty');
+    }
+    this.key = createHash('sha256').update(encryptionKey).digest();
+  }
+
+  /**
+   * Cipher keyed with TWO_FACTOR_ENCRYPTION_KEY, or the given fallback (JWT secret) if unset
+   */
+  static fromEnvironment(fallbackKey: string): TotpSecretCipher {
+    return new TotpSecretCipher(process.env.TWO_FACTOR_ENCRYPTION_KEY || fallbackKey);
+  }
+
+  encrypt(secret: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+  }
+
+  decrypt(encrypted: string): string {
+    const [iv, authTag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+    if (!iv || !authTag || !ciphertext) {
+      throw new Error('Malformed encrypted two-factor secret');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', this.key, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Two-Factor Code Verifier
+ *
+ * Checks a code entered by the user against the TOTP enrolment or the
+ * recovery codes. Accepted TOTP time steps and recovery codes cannot be reused.
+ */
+
+import { createHash } from 'crypto';
+import { IAuthRepository } from '../repository/IAuthRepository';
+import { TwoFactorRecord } from '../types';
+import { findTotpTimeStep } from './Totp';
+import { TotpSecretCipher } from './TotpSecretCipher';
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+/**
+ * Recovery codes are entered as "xxxxx-xxxxx"; case and dashes are ignored
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export class TwoFactorCodeVerifier {
+  constructor(
+    private readonly authRepository: IAuthRepository,
+    private readonly cipher: TotpSecretCipher
+  ) {}
+
+  /**
+   * Verify a TOTP code against an enrolment, activated or not
+   */
+  async verifyTotp(twoFactor: TwoFactorRecord, code: string): Promise<boolean> {
+    const timeStep = findTotpTimeStep(this.cipher.decrypt(twoFactor.secretEncrypted), code.trim());
+    if (timeStep === null) {
+      return false;
+    }
+    return this.authRepository.markTotpStepUsed(twoFactor.userId, timeStep);
+  }
+
+  /**
+   * Verify a TOTP or recovery code of a user with activated 2FA
+   * @returns Method of the accepted code, null if rejected
+   */
+  async verify(userId: string, code: string): Promise<TwoFactorMethod | null> {
+    const twoFactor = await this.authRepository.findTwoFactor(userId);
+    if (!twoFactor?.enabledAt) {
+      return null;
+    }
+
+    if (/^\d{6}$/.test(code.trim())) {
+      return (await this.verifyTotp(twoFactor, code)) ? 'totp' : null;
+    }
+
+    return (await this.authRepository.useRecoveryCode(userId, hashRecoveryCode(code))) ? 'recovery_code' : null;
+  }
+}
@@ -15,7 +15,15 @@ export class CalculationServiceFactory {
    * @param config Optional configuration for rates and fees
    */
   static create(config?: Partial<CalculationConfig>): ICalculationService {
-    return new CalculationServiceImpl(config);
+    return new CalculationServiceImpl({ ...CalculationServiceFactory.createConfigFromEnv(), ...config });
+  }
+
+  /**
+   * Default tax rate for items without a tax rule from TAX_DEFAULT_RATE (decimal, unset: untaxed)
+   */
+  static createConfigFromEnv(): Partial<CalculationConfig> {
+    const taxRate = Number.parseFloat(process.env.TAX_DEFAULT_RATE || '');
+    return taxRate >= 0 && taxRate < 1 ? { taxRate } : {};
   }
 
   /**
@@ -5,31 +5,17 @@
  * fees, taxes, and pricing computations.
  */
 
-import { CalculationResult, CalculationItem, TaxLocation, OrderTypeValue } from './types/CalculationTypes';
+import { CalculationResult, CalculationItem, OrderTypeValue, ShippingCharges } from './types/CalculationTypes';
 
 export interface ICalculationService {
   /**
-   * Calculate order totals including fees and taxes
+   * Calculate order totals including fees and taxes.
+   * Quoted shipping charges replace the configured flat shipping and insurance fees.
    */
-  calculateOrderTotal(items: CalculationItem[], orderType?: OrderTypeValue): CalculationResult;
+  calculateOrderTotal(items: CalculationItem[], orderType?: OrderTypeValue, shipping?: ShippingCharges): CalculationResult;
 
   /**
    * Calculate processing fees based on subtotal
    */
   calculateProcessingFee(subtotal: number): number;
-
-  /**
-   * Calculate shipping costs based on order details
-   */
-  calculateShippingCost(items: CalculationItem[], shippingMethod?: string): number;
-
-  /**
-   * Calculate insurance costs based on order value
-   */
-  calculateInsurance(subtotal: number): number;
-
-  /**
-   * Calculate taxes based on order details and location
-   */
-  calculateTaxes(subtotal: number, location?: TaxLocation, orderType?: OrderTypeValue): number;
 }
@@ -8,7 +8,13 @@
  */
 
 import { ICalculationService } from "../ICalculationService";
-import { CalculationResult, CalculationConfig, CalculationItem, TaxLocation, OrderTypeValue } from "../types/CalculationTypes";
+import {
+  CalculationResult,
+  CalculationConfig,
+  CalculationItem,
+  OrderTypeValue,
+  ShippingCharges
+} from "../types/CalculationTypes";
 
 export class CalculationServiceImpl implements ICalculationService {
   private readonly config: CalculationConfig;
@@ -16,7 +22,7 @@ export class CalculationServiceImpl implements ICalculationService {
   constructor(config?: Partial<CalculationConfig>) {
     this.config = {
       processingFeeRate: 0.05,  // 5% processing fee
-      taxRate: 0.0825,          // 8.25% tax rate
+      taxRate: 0,               // Untaxed unless a tax rule matches or a default is configured
       shippingFee: 0,           // No shipping fee by default
       insuranceFee: 0,          // No insurance fee by default
       ...config
@@ -26,21 +32,24 @@ export class CalculationServiceImpl implements ICalculationService {
   /**
    * Calculate order total with all fees and taxes
    */
-  calculateOrderTotal(items: CalculationItem[], orderType: OrderTypeValue = 'buy'): CalculationResult {
+  calculateOrderTotal(
+    items: CalculationItem[],
+    orderType: OrderTypeValue = 'buy',
+    shipping?: ShippingCharges
+  ): CalculationResult {
     // Calculate subtotal
     const subtotal = this.calculateSubtotal(items);
     
-    // Calculate fees
+    // Calculate fees (quoted shipping charges replace the flat config fees)
     const processingFee = this.calculateProcessingFee(subtotal);
     const fees = {
       processing: processingFee,
-      shipping: this.config.shippingFee,
-      insurance: this.config.insuranceFee
+      shipping: shipping ? shipping.shippingFee : this.config.shippingFee,
+      insurance: shipping ? shipping.insuranceFee : this.config.insuranceFee
     };
     
     // Calculate taxes (on subtotal + fees)
-    const taxableAmount = subtotal + processingFee + fees.shipping + fees.insurance;
-    const taxes = this.calculateTaxes(taxableAmount, undefined, orderType);
+    const taxes = this.calculateItemTaxes(items, subtotal, processingFee + fees.shipping + fees.insurance, orderType);
     
     // Calculate total
     const totalAmount = subtotal + processingFee + fees.shipping + fees.insurance + taxes;
@@ -49,7 +58,8 @@ export class CalculationServiceImpl implements ICalculationService {
       subtotal,
       fees,
       taxes,
-      totalAmount
+      totalAmount,
+      ...(shipping ? { shipping } : {})
     };
   }
 
@@ -87,29 +97,26 @@ export class CalculationServiceImpl implements ICalculationService {
   }
 
   /**
-   * Calculate shipping costs based on order details
+   * Taxes each item at its own rate (default: configured rate).
+   * Fees are taxed at the effective rate of the goods they belong to.
    */
-  calculateShippingCost(_items: CalculationItem[], _shippingMethod?: string): number {
-    // For now, use flat rate - could be enhanced with complex shipping logic
-    return this.config.shippingFee;
-  }
-
-  /**
-   * Calculate insurance costs based on order value
-   */
-  calculateInsurance(subtotal: number): number {
-    return subtotal * this.config.insuranceFee;
-  }
-
-  /**
-   * Calculate taxes based on order details and location
-   */
-  calculateTaxes(subtotal: number, _location?: TaxLocation, orderType: OrderTypeValue = 'buy'): number {
+  private calculateItemTaxes(
+    items: CalculationItem[],
+    subtotal: number,
+    feeTotal: number,
+    orderType: OrderTypeValue
+  ): number {
     if (orderType === 'sell') {
       return 0;
     }
 
-    return subtotal * this.config.taxRate;
+    const itemTaxes = items.reduce((total, item) => {
+      const rate = item.taxRate ?? this.config.taxRate;
+      return total + this.calculateItemTotal(item.quantity, item.unitPrice) * rate;
+    }, 0);
+    const feeTaxRate = subtotal > 0 ? itemTaxes / subtotal : this.config.taxRate;
+
+    return itemTaxes + feeTotal * feeTaxRate;
   }
 
   /**
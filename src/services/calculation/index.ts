@@ -12,7 +12,8 @@ export {
   CalculationResult,
   CalculationConfig,
   CalculationItem,
-  TaxLocation
+  DeliveryMethod,
+  ShippingCharges
 } from './types/CalculationTypes';
 
 // Implementations
@@ -5,7 +5,7 @@
  */
 
 import { ICalculationService } from "../ICalculationService";
-import { CalculationResult, CalculationItem, TaxLocation, OrderTypeValue } from "../types/CalculationTypes";
+import { CalculationResult, CalculationItem, OrderTypeValue } from "../types/CalculationTypes";
 
 export class CalculationServiceMock implements ICalculationService {
   /**
@@ -33,25 +33,4 @@ export class CalculationServiceMock implements ICalculationService {
   calculateProcessingFee(_subtotal: number): number {
     return 10;
   }
-
-  /**
-   * Calculate fixed shipping cost
-   */
-  calculateShippingCost(_items: CalculationItem[], _shippingMethod?: string): number {
-    return 5;
-  }
-
-  /**
-   * Calculate fixed insurance
-   */
-  calculateInsurance(_subtotal: number): number {
-    return 2.5;
-  }
-
-  /**
-   * Calculate fixed taxes
-   */
-  calculateTaxes(_subtotal: number, _location?: TaxLocation, orderType: OrderTypeValue = 'buy'): number {
-    return orderType === 'sell' ? 0 : 8.5;
-  }
 }
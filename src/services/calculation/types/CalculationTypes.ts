@@ -16,6 +16,7 @@ export interface CalculationResult {
   };
   taxes: number;
   totalAmount: number;
+  shipping?: ShippingCharges; // Tariff breakdown when shipping was quoted for the order
 }
 
 /**
@@ -23,9 +24,9 @@ export interface CalculationResult {
  */
 export interface CalculationConfig {
   processingFeeRate: number;  // Percentage as decimal (e.g., 0.05 for 5%)
-  taxRate: number;            // Percentage as decimal (e.g., 0.0825 for 8.25%)
-  shippingFee: number;        // Flat fee amount
-  insuranceFee: number;       // Percentage as decimal
+  taxRate: number;            // Default for items without a tax rule, as decimal (e.g., 0.081 for 8.1%)
+  shippingFee: number;        // Flat fee amount, used when no shipping was quoted (see ShippingService)
+  insuranceFee: number;       // Flat fee amount, used when no shipping was quoted
 }
 
 /**
@@ -34,16 +35,24 @@ export interface CalculationConfig {
 export interface CalculationItem {
   quantity: number;
   unitPrice: number;
+  taxRate?: number;           // Per-item rate from the tax rules; falls back to the configured taxRate
 }
 
+export type OrderTypeValue = 'buy' | 'sell';
+
+export type DeliveryMethod = 'insured_courier' | 'vault_delivery';
+
 /**
- * Location information for tax calculation
+ * Shipping and insurance charges resolved from the shipping tariffs and insurance tiers
  */
-export interface TaxLocation {
-  country?: string;
-  state?: string;
-  city?: string;
-  postalCode?: string;
+export interface ShippingCharges {
+  deliveryMethod: DeliveryMethod;
+  destinationCountry: string | null;  // ISO alpha-2; null when the user has no primary address
+  parcelWeightGrams: number;          // Gross weight of all items
+  shippingTariffId: string;
+  shippingFee: number;
+  declaredValue: number;              // Goods value the insurance is based on
+  insuranceTierId: string | null;
+  insuranceRate: number;              // Percentage as decimal
+  insuranceFee: number;
 }
-
-export type OrderTypeValue = 'buy' | 'sell';
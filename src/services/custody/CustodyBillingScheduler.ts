@@ -0,0 +1,85 @@
+/**
+ * Custody Billing Scheduler
+ * Accrues custody fees for completed billing periods
+ * Uses Dependency Injection for testability
+ */
+
+import { CronJob } from 'cron';
+import type { ICustodyBillingService } from './ICustodyBillingService';
+import type { CustodyAccrualResult } from './types/CustodyBillingTypes';
+
+export class CustodyBillingScheduler {
+  private accrualJob?: CronJob;
+
+  constructor(private readonly billingService: ICustodyBillingService) {}
+
+  /**
+   * Initialize scheduled jobs
+   */
+  initialize(): void {
+    // Daily run shortly after midnight invoices every period that ended the day before
+    this.accrualJob = new CronJob(
+      '15 0 * * *', // Every day at 00:15
+      async () => {
+        console.log('[CustodyBillingScheduler] Running scheduled fee accrual...');
+        try {
+          this.logResult('Fee accrual', await this.billingService.accrueFees());
+        } catch (error) {
+          console.error('[CustodyBillingScheduler] Fee accrual error:', error);
+        }
+      },
+      null, // onComplete
+      false, // start immediately
+      'UTC' // timezone
+    );
+
+    console.log('[CustodyBillingScheduler] Scheduler initialized (not started)');
+  }
+
+  /**
+   * Start all scheduled jobs
+   */
+  start(): void {
+    if (this.accrualJob) {
+      this.accrualJob.start();
+      console.log('[CustodyBillingScheduler] Fee accrual job started');
+    }
+  }
+
+  /**
+   * Stop all scheduled jobs
+   */
+  stop(): void {
+    if (this.accrualJob) {
+      this.accrualJob.stop();
+      console.log('[CustodyBillingScheduler] Fee accrual job stopped');
+    }
+  }
+
+  /**
+   * Run fee accrual immediately
+   */
+  async runAccrualNow(asOf?: Date): Promise<CustodyAccrualResult> {
+    console.log('[CustodyBillingScheduler] Running manual fee accrual...');
+    try {
+      const result = await this.billingService.accrueFees(asOf);
+      this.logResult('Manual accrual', result);
+      return result;
+    } catch (error) {
+      console.error('[CustodyBillingScheduler] Manual accrual error:', error);
+      throw error;
+    }
+  }
+
+  private logResult(label: string, result: CustodyAccrualResult): void {
+    if (result.errors.length === 0) {
+      console.log(
+        `[CustodyBillingScheduler] ${label} successful - Created: ${result.invoicesCreated}, Already invoiced: ${result.invoicesSkipped}`
+      );
+    } else {
+      console.error(
+        `[CustodyBillingScheduler] ${label} completed with errors - Created: ${result.invoicesCreated}, Errors: ${result.errors.join(', ')}`
+      );
+    }
+  }
+}
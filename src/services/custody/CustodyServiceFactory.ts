@@ -9,6 +9,9 @@ import { CustodyServiceImpl } from './impl/CustodyServiceImpl';
 import { ICustodyRepository } from './repository/ICustodyRepository';
 import { CustodyRepositoryImpl } from './repository/CustodyRepositoryImpl';
 import { CustodyRepositoryMock } from './mock/CustodyRepositoryMock';
+import { ICustodyBillingService } from './ICustodyBillingService';
+import { CustodyBillingServiceImpl } from './impl/CustodyBillingServiceImpl';
+import { CustodyBillingScheduler } from './CustodyBillingScheduler';
 
 export class CustodyServiceFactory {
   /**
@@ -40,4 +43,27 @@ export class CustodyServiceFactory {
   static createMockRepository(): ICustodyRepository {
     return new CustodyRepositoryMock();
   }
+
+  /**
+   * Create a custody billing service with real database repository
+   */
+  static createBillingService(pool: Pool): ICustodyBillingService {
+    return new CustodyBillingServiceImpl(new CustodyRepositoryImpl(pool));
+  }
+
+  /**
+   * Create a custody billing service with mock repository (for testing)
+   */
+  static createMockBillingService(
+    repository: ICustodyRepository = new CustodyRepositoryMock()
+  ): ICustodyBillingService {
+    return new CustodyBillingServiceImpl(repository);
+  }
+
+  /**
+   * Create billing scheduler with service dependency
+   */
+  static createBillingScheduler(service: ICustodyBillingService): CustodyBillingScheduler {
+    return new CustodyBillingScheduler(service);
+  }
 }
@@ -0,0 +1,38 @@
+/**
+ * Custody Billing Service Interface
+ * Accrues custody fees per billing period and exposes the resulting invoices
+ */
+
+import { CustodyServiceResult } from './types/CustodyTypes';
+import {
+  CustodyAccrualResult,
+  CustodyInvoice,
+  ListCustodyInvoicesOptions,
+} from './types/CustodyBillingTypes';
+import { Pagination } from '../common/PaginationHelper';
+
+export interface CustodyInvoiceList {
+  invoices: CustodyInvoice[];
+  pagination: Pagination;
+}
+
+export interface ICustodyBillingService {
+  /**
+   * Invoice the most recently completed billing period of every payment frequency.
+   * Idempotent: periods that were already invoiced are skipped.
+   */
+  accrueFees(asOf?: Date): Promise<CustodyAccrualResult>;
+
+  /**
+   * Get custody invoices of all users (admin view)
+   */
+  getInvoices(options?: ListCustodyInvoicesOptions): Promise<CustodyServiceResult<CustodyInvoiceList>>;
+
+  /**
+   * Get custody invoices of a single user
+   */
+  getUserInvoices(
+    userId: string,
+    options?: ListCustodyInvoicesOptions
+  ): Promise<CustodyServiceResult<CustodyInvoiceList>>;
+}
@@ -10,6 +10,9 @@ import {
   CustodyServicesListResult,
   ListCustodyServicesOptions,
   CustodianWithServices,
+  CustodyBasketItem,
+  CustodyCapacityCheck,
+  CustodyServiceSuggestion,
 } from './types/CustodyTypes';
 import { AuditTrailUser } from '../../utils/auditTrail';
 
@@ -66,4 +69,23 @@ export interface ICustodyService {
   canDeleteCustodyService(
     id: string
   ): Promise<CustodyServiceResult<{ canDelete: boolean; reason?: string }>>;
+
+  /**
+   * Check whether a custody service can hold the basket in addition to
+   * what the user already holds there (min/max fine weight)
+   */
+  checkCustodyCapacity(
+    userId: string,
+    custodyServiceId: string,
+    items: CustodyBasketItem[]
+  ): Promise<CustodyServiceResult<CustodyCapacityCheck>>;
+
+  /**
+   * List all custody services with their capacity for the basket,
+   * services that can accept it first (cheapest first)
+   */
+  suggestCustodyServices(
+    userId: string,
+    items: CustodyBasketItem[]
+  ): Promise<CustodyServiceResult<CustodyServiceSuggestion[]>>;
 }
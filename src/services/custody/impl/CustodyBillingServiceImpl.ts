@@ -0,0 +1,111 @@
+/**
+ * Custody Billing Service Implementation
+ * Fee accrual and invoice queries with Dependency Injection
+ */
+
+import { CustodyInvoiceList, ICustodyBillingService } from '../ICustodyBillingService';
+import { ICustodyRepository } from '../repository/ICustodyRepository';
+import { CustodyServiceResult } from '../types/CustodyTypes';
+import {
+  ACCRUED_PAYMENT_FREQUENCIES,
+  AccruedPaymentFrequency,
+  CustodyAccrualResult,
+  ListCustodyInvoicesOptions,
+} from '../types/CustodyBillingTypes';
+import { calculateCustodyInvoices, getLastCompletedPeriod } from '../utils/CustodyFeeCalculator';
+import { isValidUUID } from '../validators/CustodyValidators';
+import { createPagination } from '../../common/PaginationHelper';
+
+/**
+ * Database values per accrued frequency ('annual' is a legacy alias of 'yearly')
+ */
+const STORED_FREQUENCIES: Record<AccruedPaymentFrequency, string[]> = {
+  daily: ['daily'],
+  weekly: ['weekly'],
+  monthly: ['monthly'],
+  quarterly: ['quarterly'],
+  yearly: ['yearly', 'annual'],
+};
+
+export class CustodyBillingServiceImpl implements ICustodyBillingService {
+  constructor(private readonly repository: ICustodyRepository) {}
+
+  async accrueFees(asOf: Date = new Date()): Promise<CustodyAccrualResult> {
+    const result: CustodyAccrualResult = {
+      asOf,
+      periods: [],
+      invoicesCreated: 0,
+      invoicesSkipped: 0,
+      errors: [],
+    };
+
+    for (const frequency of ACCRUED_PAYMENT_FREQUENCIES) {
+      const period = getLastCompletedPeriod(frequency, asOf);
+      result.periods.push(period);
+
+      try {
+        const positions = await this.repository.findBillablePositions(
+          STORED_FREQUENCIES[frequency],
+          period.start,
+          period.end
+        );
+
+        for (const invoice of calculateCustodyInvoices(positions, period)) {
+          const created = await this.repository.createInvoice(invoice);
+          if (created) {
+            result.invoicesCreated++;
+          } else {
+            result.invoicesSkipped++;
+          }
+        }
+      } catch (error) {
+        console.error(`Error accruing ${frequency} custody fees:`, error);
+        result.errors.push(
+          `${frequency}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  async getInvoices(
+    options: ListCustodyInvoicesOptions = {}
+  ): Promise<CustodyServiceResult<CustodyInvoiceList>> {
+    if (options.custodyServiceId && !isValidUUID(options.custodyServiceId)) {
+      return { success: false, error: 'Invalid custody service ID format' };
+    }
+
+    if (options.userId && !isValidUUID(options.userId)) {
+      return { success: false, error: 'Invalid user ID format' };
+    }
+
+    try {
+      const page = options.page || 1;
+      const limit = options.limit || 20;
+      const { invoices, total } = await this.repository.findInvoices({ ...options, page, limit });
+
+      return {
+        success: true,
+        data: {
+          invoices,
+          pagination: createPagination(page, limit, total),
+        },
+        message: `Retrieved ${invoices.length} custody invoices`,
+      };
+    } catch (error) {
+      console.error('Error fetching custody invoices:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch custody invoices',
+      };
+    }
+  }
+
+  async getUserInvoices(
+    userId: string,
+    options: ListCustodyInvoicesOptions = {}
+  ): Promise<CustodyServiceResult<CustodyInvoiceList>> {
+    return this.getInvoices({ ...options, userId });
+  }
+}
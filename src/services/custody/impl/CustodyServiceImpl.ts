@@ -12,10 +12,19 @@ import {
   CustodyServicesListResult,
   ListCustodyServicesOptions,
   CustodianWithServices,
+  CustodyBasketItem,
+  CustodyCapacityCheck,
+  CustodyServiceEntity,
+  CustodyServiceSuggestion,
   mapEntityToDTO,
   mapEntitiesToDTOs,
 } from '../types/CustodyTypes';
-import { isValidUUID, validateCreateData } from '../validators/CustodyValidators';
+import {
+  calculateFineWeightGrams,
+  checkCustodyWeightLimits,
+  isValidUUID,
+  validateCreateData,
+} from '../validators/CustodyValidators';
 import { createPagination, emptyPagination } from '../../common/PaginationHelper';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
@@ -187,4 +196,109 @@ export class CustodyServiceImpl implements ICustodyService {
       return { success: false, error: `Failed to validate deletion: ${(error as Error).message}` };
     }
   }
+
+  async checkCustodyCapacity(
+    userId: string,
+    custodyServiceId: string,
+    items: CustodyBasketItem[]
+  ): Promise<CustodyServiceResult<CustodyCapacityCheck>> {
+    try {
+      if (!isValidUUID(custodyServiceId)) return { success: false, error: 'Invalid custody service ID format' };
+
+      const service = await this.repository.findById(custodyServiceId);
+      if (!service) return { success: false, error: 'Custody service not found' };
+
+      const basket = await this.calculateBasketWeight(items);
+      if ('error' in basket) return { success: false, error: basket.error };
+
+      const held = await this.getHeldWeightByService(userId);
+      return { success: true, data: this.checkService(service, held.get(service.id) || 0, basket.grams) };
+    } catch (error) {
+      return { success: false, error: `Failed to check custody capacity: ${(error as Error).message}` };
+    }
+  }
+
+  async suggestCustodyServices(
+    userId: string,
+    items: CustodyBasketItem[]
+  ): Promise<CustodyServiceResult<CustodyServiceSuggestion[]>> {
+    try {
+      const basket = await this.calculateBasketWeight(items);
+      if ('error' in basket) return { success: false, error: basket.error };
+
+      const [{ custodyServices }, held] = await Promise.all([
+        this.repository.findAll({ page: 1, limit: 1000, sortBy: 'fee' }),
+        this.getHeldWeightByService(userId),
+      ]);
+
+      const suggestions = custodyServices
+        .map((service) => ({
+          custodyService: mapEntityToDTO(service),
+          capacity: this.checkService(service, held.get(service.id) || 0, basket.grams),
+        }))
+        // Stable sort keeps services ordered by fee within each group
+        .sort((a, b) => Number(b.capacity.accepted) - Number(a.capacity.accepted));
+
+      const acceptedCount = suggestions.filter((suggestion) => suggestion.capacity.accepted).length;
+      return {
+        success: true,
+        data: suggestions,
+        message: `${acceptedCount} of ${suggestions.length} custody services can accept the basket`,
+      };
+    } catch (error) {
+      return { success: false, error: `Failed to suggest custody services: ${(error as Error).message}` };
+    }
+  }
+
+  private checkService(service: CustodyServiceEntity, currentGrams: number, basketGrams: number): CustodyCapacityCheck {
+    return checkCustodyWeightLimits(
+      {
+        id: service.id,
+        name: service.custodyservicename,
+        minWeight: service.minweight !== null ? parseFloat(service.minweight) : null,
+        maxWeight: service.maxweight !== null ? parseFloat(service.maxweight) : null,
+      },
+      currentGrams,
+      basketGrams
+    );
+  }
+
+  private async calculateBasketWeight(items: CustodyBasketItem[]): Promise<{ grams: number } | { error: string }> {
+    if (!Array.isArray(items) || items.length === 0) {
+      return { error: 'Invalid basket: at least one item is required' };
+    }
+
+    for (const item of items) {
+      if (!item.productId || !isValidUUID(item.productId)) {
+        return { error: `Invalid product ID format: ${item.productId}` };
+      }
+      if (typeof item.quantity !== 'number' || !(item.quantity > 0)) {
+        return { error: `Invalid quantity for product ${item.productId}` };
+      }
+    }
+
+    const products = await this.repository.findProductWeights(items.map((item) => item.productId));
+    const weightItems = [];
+    for (const item of items) {
+      const product = products.find((candidate) => candidate.productId === item.productId);
+      if (!product) {
+        return { error: `Product not found: ${item.productId}` };
+      }
+      weightItems.push({ ...product, quantity: item.quantity });
+    }
+
+    return { grams: calculateFineWeightGrams(weightItems) };
+  }
+
+  private async getHeldWeightByService(userId: string): Promise<Map<string, number>> {
+    const held = await this.repository.findHeldWeights(userId);
+    const byService = new Map<string, number>();
+    for (const position of held) {
+      byService.set(
+        position.custodyServiceId,
+        (byService.get(position.custodyServiceId) || 0) + calculateFineWeightGrams([position])
+      );
+    }
+    return byService;
+  }
 }
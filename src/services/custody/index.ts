@@ -5,9 +5,11 @@
 
 // Service Interface
 export { ICustodyService } from './ICustodyService';
+export { ICustodyBillingService, CustodyInvoiceList } from './ICustodyBillingService';
 
 // Service Implementation
 export { CustodyServiceImpl } from './impl/CustodyServiceImpl';
+export { CustodyBillingServiceImpl } from './impl/CustodyBillingServiceImpl';
 
 // Repository Interfaces
 export { ICustodyRepository } from './repository/ICustodyRepository';
@@ -18,6 +20,13 @@ export { CustodyRepositoryMock } from './mock/CustodyRepositoryMock';
 
 // Types
 export * from './types/CustodyTypes';
+export * from './types/CustodyBillingTypes';
+
+// Utilities
+export * from './utils/CustodyFeeCalculator';
+
+// Scheduler
+export { CustodyBillingScheduler } from './CustodyBillingScheduler';
 
 // Factory
 export { CustodyServiceFactory } from './CustodyServiceFactory';
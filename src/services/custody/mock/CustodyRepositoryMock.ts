@@ -8,8 +8,15 @@ import {
   ListCustodyServicesOptions,
   DeleteCustodyServiceValidation,
   CustodianWithServices,
+  CustodyWeightItem,
   mapEntityToDTO,
 } from '../types/CustodyTypes';
+import {
+  BillablePosition,
+  CustodyInvoice,
+  CustodyInvoiceDraft,
+  ListCustodyInvoicesOptions,
+} from '../types/CustodyBillingTypes';
 import { ICustodyRepository } from '../repository/ICustodyRepository';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
@@ -50,6 +57,14 @@ export class CustodyRepositoryMock implements ICustodyRepository {
     '650e8400-e29b-41d4-a716-446655440002': 0,
   };
 
+  private billablePositions: BillablePosition[] = [];
+
+  private invoices: CustodyInvoice[] = [];
+
+  private productWeights: Array<Omit<CustodyWeightItem, 'quantity'> & { productId: string }> = [];
+
+  private heldWeights: Array<CustodyWeightItem & { custodyServiceId: string; userId: string }> = [];
+
   async findAll(
     options: ListCustodyServicesOptions = {}
   ): Promise<{ custodyServices: CustodyServiceEntity[]; total: number }> {
@@ -251,6 +266,71 @@ export class CustodyRepositoryMock implements ICustodyRepository {
     return currencies[isoCode] || null;
   }
 
+  async findBillablePositions(
+    paymentFrequencies: string[],
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<BillablePosition[]> {
+    return this.billablePositions.filter(
+      (position) =>
+        paymentFrequencies.includes(position.paymentFrequency) &&
+        position.openedAt < periodEnd &&
+        (position.closedAt === null || position.closedAt > periodStart)
+    );
+  }
+
+  async createInvoice(invoice: CustodyInvoiceDraft): Promise<boolean> {
+    const exists = this.invoices.some(
+      (existing) =>
+        existing.userId === invoice.userId &&
+        existing.custodyServiceId === invoice.custodyServiceId &&
+        existing.periodStart.getTime() === invoice.periodStart.getTime()
+    );
+    if (exists) {
+      return false;
+    }
+
+    const service = this.custodyServices.find((cs) => cs.id === invoice.custodyServiceId);
+    this.invoices.push({
+      ...invoice,
+      id: `invoice-${this.invoices.length + 1}`,
+      custodyServiceName: service?.custodyservicename || '',
+      status: 'open',
+      createdAt: new Date(),
+    });
+    return true;
+  }
+
+  async findInvoices(
+    options: ListCustodyInvoicesOptions = {}
+  ): Promise<{ invoices: CustodyInvoice[]; total: number }> {
+    const { page = 1, limit = 20 } = options;
+    const filtered = this.invoices
+      .filter((invoice) => !options.userId || invoice.userId === options.userId)
+      .filter((invoice) => !options.custodyServiceId || invoice.custodyServiceId === options.custodyServiceId)
+      .filter((invoice) => !options.status || invoice.status === options.status)
+      .filter((invoice) => !options.from || invoice.periodStart >= options.from)
+      .filter((invoice) => !options.to || invoice.periodEnd <= options.to)
+      .sort((a, b) => b.periodStart.getTime() - a.periodStart.getTime());
+
+    return {
+      invoices: filtered.slice((page - 1) * limit, page * limit),
+      total: filtered.length,
+    };
+  }
+
+  async findProductWeights(
+    productIds: string[]
+  ): Promise<Array<Omit<CustodyWeightItem, 'quantity'> & { productId: string }>> {
+    return this.productWeights.filter((product) => productIds.includes(product.productId));
+  }
+
+  async findHeldWeights(userId: string): Promise<Array<CustodyWeightItem & { custodyServiceId: string }>> {
+    return this.heldWeights
+      .filter((held) => held.userId === userId)
+      .map(({ userId: _userId, ...held }) => held);
+  }
+
   // Test helper methods
   reset(): void {
     this.custodyServices = [
@@ -272,9 +352,25 @@ export class CustodyRepositoryMock implements ICustodyRepository {
     this.activePositionsByCustodyService = {
       '650e8400-e29b-41d4-a716-446655440001': 5,
     };
+    this.billablePositions = [];
+    this.invoices = [];
+    this.productWeights = [];
+    this.heldWeights = [];
   }
 
   setActivePositionCount(custodyServiceId: string, count: number): void {
     this.activePositionsByCustodyService[custodyServiceId] = count;
   }
+
+  setBillablePositions(positions: BillablePosition[]): void {
+    this.billablePositions = positions;
+  }
+
+  setProductWeights(products: Array<Omit<CustodyWeightItem, 'quantity'> & { productId: string }>): void {
+    this.productWeights = products;
+  }
+
+  setHeldWeights(held: Array<CustodyWeightItem & { custodyServiceId: string; userId: string }>): void {
+    this.heldWeights = held;
+  }
 }
@@ -86,3 +86,72 @@ export const CHECK_SERVICE_NAME_EXISTS = `
   SELECT id FROM custodyService
   WHERE custodianId = $1 AND LOWER(custodyServiceName) = LOWER($2)
 `;
+
+/**
+ * Positions held in custody services of the given payment frequencies
+ * during [$2, $3). Closed positions without closeddate use their last update.
+ */
+export const GET_BILLABLE_POSITIONS = `
+  SELECT
+    pos.id AS positionid, pos.userid, pos.custodyserviceid,
+    cs.custodyservicename, cs.fee, cs.paymentfrequency, cs.currencyid,
+    curr.isocode3 AS currency,
+    pos.purchasedate AS opened_at,
+    COALESCE(pos.closeddate, CASE WHEN pos.status = 'closed' THEN pos.updatedat END) AS closed_at
+  FROM position pos
+  JOIN custodyService cs ON cs.id = pos.custodyserviceid
+  JOIN currency curr ON curr.id = cs.currencyid
+  WHERE cs.paymentfrequency::text = ANY($1)
+    AND pos.purchasedate < $3
+    AND COALESCE(pos.closeddate, CASE WHEN pos.status = 'closed' THEN pos.updatedat END, 'infinity'::timestamp) > $2
+  ORDER BY pos.userid, pos.custodyserviceid, pos.purchasedate
+`;
+
+/**
+ * Insert custody invoice; an existing invoice for the same user, service and period is kept
+ */
+export const INSERT_CUSTODY_INVOICE = `
+  INSERT INTO custody_invoice (
+    userid, custodyserviceid, paymentfrequency, period_start, period_end,
+    period_days, billed_days, period_fee, amount, currencyid, line_items
+  )
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+  ON CONFLICT (userid, custodyserviceid, period_start) DO NOTHING
+  RETURNING id
+`;
+
+/**
+ * Base SELECT for custody invoice queries
+ */
+export const CUSTODY_INVOICE_SELECT = `
+  SELECT
+    ci.id, ci.userid, ci.custodyserviceid, cs.custodyservicename,
+    ci.paymentfrequency, ci.period_start, ci.period_end, ci.period_days,
+    ci.billed_days, ci.period_fee, ci.amount, ci.currencyid,
+    curr.isocode3 AS currency, ci.status, ci.line_items, ci.createdat
+  FROM custody_invoice ci
+  JOIN custodyService cs ON cs.id = ci.custodyserviceid
+  JOIN currency curr ON curr.id = ci.currencyid
+`;
+
+/**
+ * Weight attributes of products (for fine weight calculation)
+ */
+export const GET_PRODUCT_WEIGHTS = `
+  SELECT id AS productid, weight, weightunit, purity
+  FROM product
+  WHERE id = ANY($1)
+`;
+
+/**
+ * Active positions of a user that are held in a custody service, with product weight attributes
+ */
+export const GET_HELD_CUSTODY_WEIGHTS = `
+  SELECT pos.custodyserviceid, pos.quantity, p.weight, p.weightunit, p.purity
+  FROM position pos
+  JOIN product p ON p.id = pos.productid
+  WHERE pos.userid = $1
+    AND pos.status = 'active'
+    AND pos.custodyserviceid IS NOT NULL
+`;
+
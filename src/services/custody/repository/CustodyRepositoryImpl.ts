@@ -9,8 +9,17 @@ import {
   ListCustodyServicesOptions,
   DeleteCustodyServiceValidation,
   CustodianWithServices,
+  CustodyWeightItem,
   mapEntityToDTO,
 } from '../types/CustodyTypes';
+import {
+  BillablePosition,
+  CustodyInvoice,
+  CustodyInvoiceDraft,
+  ListCustodyInvoicesOptions,
+  mapRowToBillablePosition,
+  mapRowToCustodyInvoice,
+} from '../types/CustodyBillingTypes';
 import { ICustodyRepository } from './ICustodyRepository';
 import * as queries from './CustodyQueries';
 import { AuditTrailUser, getAuditUser } from '../../../utils/auditTrail';
@@ -308,4 +317,115 @@ export class CustodyRepositoryImpl implements ICustodyRepository {
     const result = await this.pool.query(query, [isoCode]);
     return result.rows.length > 0 ? result.rows[0].id : null;
   }
+
+  async findBillablePositions(
+    paymentFrequencies: string[],
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<BillablePosition[]> {
+    const result = await this.pool.query(queries.GET_BILLABLE_POSITIONS, [
+      paymentFrequencies,
+      periodStart,
+      periodEnd,
+    ]);
+    return result.rows.map(mapRowToBillablePosition);
+  }
+
+  async createInvoice(invoice: CustodyInvoiceDraft): Promise<boolean> {
+    const result = await this.pool.query(queries.INSERT_CUSTODY_INVOICE, [
+      invoice.userId,
+      invoice.custodyServiceId,
+      invoice.paymentFrequency,
+      invoice.periodStart,
+      invoice.periodEnd,
+      invoice.periodDays,
+      invoice.billedDays,
+      invoice.periodFee,
+      invoice.amount,
+      invoice.currencyId,
+      JSON.stringify(invoice.lineItems),
+    ]);
+    return result.rows.length > 0;
+  }
+
+  async findInvoices(
+    options: ListCustodyInvoicesOptions = {}
+  ): Promise<{ invoices: CustodyInvoice[]; total: number }> {
+    const { page = 1, limit = 20, userId, custodyServiceId, status, from, to } = options;
+
+    const whereConditions: string[] = [];
+    const queryParams: Array<string | Date> = [];
+    let paramIndex = 1;
+
+    if (userId) {
+      whereConditions.push(`ci.userid = $${paramIndex++}`);
+      queryParams.push(userId);
+    }
+
+    if (custodyServiceId) {
+      whereConditions.push(`ci.custodyserviceid = $${paramIndex++}`);
+      queryParams.push(custodyServiceId);
+    }
+
+    if (status) {
+      whereConditions.push(`ci.status = $${paramIndex++}`);
+      queryParams.push(status);
+    }
+
+    if (from) {
+      whereConditions.push(`ci.period_start >= $${paramIndex++}`);
+      queryParams.push(from);
+    }
+
+    if (to) {
+      whereConditions.push(`ci.period_end <= $${paramIndex++}`);
+      queryParams.push(to);
+    }
+
+    const whereClause =
+      whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*) FROM custody_invoice ci ${whereClause}`,
+      queryParams
+    );
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const offset = (page - 1) * limit;
+    const dataResult = await this.pool.query(
+      `${queries.CUSTODY_INVOICE_SELECT}
+      ${whereClause}
+      ORDER BY ci.period_start DESC, cs.custodyservicename ASC
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
+      [...queryParams, limit, offset]
+    );
+
+    return {
+      invoices: dataResult.rows.map(mapRowToCustodyInvoice),
+      total,
+    };
+  }
+
+  async findProductWeights(
+    productIds: string[]
+  ): Promise<Array<Omit<CustodyWeightItem, 'quantity'> & { productId: string }>> {
+    const result = await this.pool.query(queries.GET_PRODUCT_WEIGHTS, [productIds]);
+    return result.rows.map((row) => ({
+      productId: row.productid,
+      weight: parseFloat(row.weight),
+      weightUnit: row.weightunit,
+      purity: parseFloat(row.purity),
+    }));
+  }
+
+  async findHeldWeights(userId: string): Promise<Array<CustodyWeightItem & { custodyServiceId: string }>> {
+    const result = await this.pool.query(queries.GET_HELD_CUSTODY_WEIGHTS, [userId]);
+    return result.rows.map((row) => ({
+      custodyServiceId: row.custodyserviceid,
+      quantity: parseFloat(row.quantity),
+      weight: parseFloat(row.weight),
+      weightUnit: row.weightunit,
+      purity: parseFloat(row.purity),
+    }));
+  }
 }
@@ -8,7 +8,14 @@ import {
   ListCustodyServicesOptions,
   DeleteCustodyServiceValidation,
   CustodianWithServices,
+  CustodyWeightItem,
 } from '../types/CustodyTypes';
+import {
+  BillablePosition,
+  CustodyInvoice,
+  CustodyInvoiceDraft,
+  ListCustodyInvoicesOptions,
+} from '../types/CustodyBillingTypes';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
 export interface ICustodyRepository {
@@ -103,4 +110,40 @@ export interface ICustodyRepository {
    * Get currency ID by ISO code
    */
   getCurrencyIdByCode(isoCode: string): Promise<string | null>;
+
+  /**
+   * Find positions held during [periodStart, periodEnd) in custody services
+   * with one of the given payment frequencies
+   */
+  findBillablePositions(
+    paymentFrequencies: string[],
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<BillablePosition[]>;
+
+  /**
+   * Persist a custody invoice; returns false if the user was already invoiced
+   * for this custody service and period
+   */
+  createInvoice(invoice: CustodyInvoiceDraft): Promise<boolean>;
+
+  /**
+   * Find custody invoices with optional filtering and pagination
+   */
+  findInvoices(options?: ListCustodyInvoicesOptions): Promise<{
+    invoices: CustodyInvoice[];
+    total: number;
+  }>;
+
+  /**
+   * Get weight, unit and purity of products (missing products are omitted)
+   */
+  findProductWeights(
+    productIds: string[]
+  ): Promise<Array<Omit<CustodyWeightItem, 'quantity'> & { productId: string }>>;
+
+  /**
+   * Get the user's active positions held in custody services with their weight attributes
+   */
+  findHeldWeights(userId: string): Promise<Array<CustodyWeightItem & { custodyServiceId: string }>>;
 }
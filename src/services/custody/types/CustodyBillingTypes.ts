@@ -0,0 +1,154 @@
+/**
+ * Custody Billing Types
+ * Fee accrual per user and custody service for each billing period
+ */
+
+// ============================================================================
+// Billing Periods
+// ============================================================================
+
+/**
+ * Recurring payment frequencies that are accrued by the billing job.
+ * 'annual' is accepted as an alias of the database value 'yearly';
+ * 'onetime' services are not accrued.
+ */
+export const ACCRUED_PAYMENT_FREQUENCIES = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'] as const;
+
+export type AccruedPaymentFrequency = typeof ACCRUED_PAYMENT_FREQUENCIES[number];
+
+/**
+ * Half-open billing period [start, end) in UTC
+ */
+export interface BillingPeriod {
+  frequency: AccruedPaymentFrequency;
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+// ============================================================================
+// Accrual Input
+// ============================================================================
+
+/**
+ * Position held in a custody service, as loaded for accrual
+ */
+export interface BillablePosition {
+  positionId: string;
+  userId: string;
+  custodyServiceId: string;
+  custodyServiceName: string;
+  fee: number;
+  currencyId: string;
+  currency: string;
+  paymentFrequency: string;
+  openedAt: Date;
+  closedAt: Date | null;
+}
+
+// ============================================================================
+// Invoices
+// ============================================================================
+
+export const CUSTODY_INVOICE_STATUSES = ['open', 'paid', 'void'] as const;
+
+export type CustodyInvoiceStatus = typeof CUSTODY_INVOICE_STATUSES[number];
+
+export interface CustodyInvoiceLineItem {
+  positionId: string;
+  heldFrom: Date;
+  heldUntil: Date;
+  days: number;
+}
+
+/**
+ * Invoice computed by the accrual calculator, not yet persisted
+ */
+export interface CustodyInvoiceDraft {
+  userId: string;
+  custodyServiceId: string;
+  paymentFrequency: AccruedPaymentFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  periodDays: number;
+  billedDays: number;
+  periodFee: number;
+  amount: number;
+  currencyId: string;
+  currency: string;
+  lineItems: CustodyInvoiceLineItem[];
+}
+
+export interface CustodyInvoice extends CustodyInvoiceDraft {
+  id: string;
+  custodyServiceName: string;
+  status: CustodyInvoiceStatus;
+  createdAt: Date;
+}
+
+export interface ListCustodyInvoicesOptions {
+  page?: number;
+  limit?: number;
+  userId?: string;
+  custodyServiceId?: string;
+  status?: CustodyInvoiceStatus;
+  /** Only invoices whose period starts on or after this date */
+  from?: Date;
+  /** Only invoices whose period ends on or before this date */
+  to?: Date;
+}
+
+export interface CustodyAccrualResult {
+  asOf: Date;
+  periods: BillingPeriod[];
+  invoicesCreated: number;
+  invoicesSkipped: number;
+  errors: string[];
+}
+
+export const isCustodyInvoiceStatus = (value: string): value is CustodyInvoiceStatus =>
+  (CUSTODY_INVOICE_STATUSES as readonly string[]).includes(value);
+
+// ============================================================================
+// Mapper Functions
+// ============================================================================
+
+export const mapRowToBillablePosition = (row: Record<string, unknown>): BillablePosition => ({
+  positionId: row.positionid as string,
+  userId: row.userid as string,
+  custodyServiceId: row.custodyserviceid as string,
+  custodyServiceName: row.custodyservicename as string,
+  fee: parseFloat(row.fee as string),
+  currencyId: row.currencyid as string,
+  currency: row.currency as string,
+  paymentFrequency: row.paymentfrequency as string,
+  openedAt: new Date(row.opened_at as string),
+  closedAt: row.closed_at ? new Date(row.closed_at as string) : null,
+});
+
+/** line_items is stored as JSON, so the dates come back as strings */
+const mapLineItem = (item: Record<string, unknown>): CustodyInvoiceLineItem => ({
+  positionId: item.positionId as string,
+  heldFrom: new Date(item.heldFrom as string),
+  heldUntil: new Date(item.heldUntil as string),
+  days: Number(item.days),
+});
+
+export const mapRowToCustodyInvoice = (row: Record<string, unknown>): CustodyInvoice => ({
+  id: row.id as string,
+  userId: row.userid as string,
+  custodyServiceId: row.custodyserviceid as string,
+  custodyServiceName: row.custodyservicename as string,
+  paymentFrequency: row.paymentfrequency as AccruedPaymentFrequency,
+  periodStart: new Date(row.period_start as string),
+  periodEnd: new Date(row.period_end as string),
+  periodDays: Number(row.period_days),
+  billedDays: Number(row.billed_days),
+  periodFee: parseFloat(row.period_fee as string),
+  amount: parseFloat(row.amount as string),
+  currencyId: row.currencyid as string,
+  currency: row.currency as string,
+  status: row.status as CustodyInvoiceStatus,
+  lineItems: ((row.line_items as Array<Record<string, unknown>> | null) ?? []).map(mapLineItem),
+  createdAt: row.createdat as Date,
+});
@@ -121,6 +121,64 @@ export interface CustodianWithServices {
   services: CustodyServiceDTO[];
 }
 
+// ============================================================================
+// Weight Limits
+// ============================================================================
+
+/**
+ * custodyService.minweight / maxweight are fine metal weights in grams,
+ * compared against everything a user holds in the service
+ */
+export const CustodyWeightErrorCode = {
+  MAX_WEIGHT_EXCEEDED: 'CUSTODY_MAX_WEIGHT_EXCEEDED',
+  MIN_WEIGHT_NOT_MET: 'CUSTODY_MIN_WEIGHT_NOT_MET',
+} as const;
+
+export type CustodyWeightErrorCode = typeof CustodyWeightErrorCode[keyof typeof CustodyWeightErrorCode];
+
+/**
+ * Product weight attributes and quantity needed to compute fine weight
+ */
+export interface CustodyWeightItem {
+  weight: number;
+  weightUnit: string;
+  purity: number;
+  quantity: number;
+}
+
+export interface CustodyBasketItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface CustodyCapacityCheck {
+  custodyServiceId: string;
+  custodyServiceName: string;
+  minWeight: number | null;
+  maxWeight: number | null;
+  currentWeightGrams: number;
+  basketWeightGrams: number;
+  resultingWeightGrams: number;
+  accepted: boolean;
+  code?: CustodyWeightErrorCode;
+  reason?: string;
+}
+
+export interface CustodyServiceSuggestion {
+  custodyService: CustodyServiceDTO;
+  capacity: CustodyCapacityCheck;
+}
+
+export class CustodyWeightLimitError extends Error {
+  public readonly code: CustodyWeightErrorCode;
+
+  constructor(public readonly check: CustodyCapacityCheck) {
+    super(check.reason || `Custody service ${check.custodyServiceName} cannot accept this basket`);
+    this.name = 'CustodyWeightLimitError';
+    this.code = check.code || CustodyWeightErrorCode.MAX_WEIGHT_EXCEEDED;
+  }
+}
+
 // ============================================================================
 // Mapper Functions
 // ============================================================================
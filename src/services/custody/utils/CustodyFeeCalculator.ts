@@ -0,0 +1,181 @@
+/**
+ * Custody Fee Calculator
+ * Pure functions for billing periods and pro-rated custody fee accrual
+ */
+
+import {
+  ACCRUED_PAYMENT_FREQUENCIES,
+  AccruedPaymentFrequency,
+  BillablePosition,
+  BillingPeriod,
+  CustodyInvoiceDraft,
+  CustodyInvoiceLineItem,
+} from '../types/CustodyBillingTypes';
+import { roundCurrency } from '../../../utils/currency';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Map a custody service payment frequency to the accrued frequency.
+ * Returns null for one-time (or unknown) frequencies, which are not accrued.
+ */
+export function toAccruedFrequency(paymentFrequency: string): AccruedPaymentFrequency | null {
+  const normalized = paymentFrequency.toLowerCase() === 'annual' ? 'yearly' : paymentFrequency.toLowerCase();
+  return (ACCRUED_PAYMENT_FREQUENCIES as readonly string[]).includes(normalized)
+    ? normalized as AccruedPaymentFrequency
+    : null;
+}
+
+/**
+ * Billing period containing the given date.
+ * Weeks start on Monday; months, quarters and years are calendar periods (UTC).
+ */
+export function getBillingPeriod(frequency: AccruedPaymentFrequency, date: Date): BillingPeriod {
+  const day = startOfUtcDay(date);
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+  let start: Date;
+  let end: Date;
+
+  switch (frequency) {
+    case 'daily':
+      start = day;
+      end = new Date(day.getTime() + MS_PER_DAY);
+      break;
+    case 'weekly': {
+      const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+      start = new Date(day.getTime() - daysSinceMonday * MS_PER_DAY);
+      end = new Date(start.getTime() + 7 * MS_PER_DAY);
+      break;
+    }
+    case 'monthly':
+      start = new Date(Date.UTC(year, month, 1));
+      end = new Date(Date.UTC(year, month + 1, 1));
+      break;
+    case 'quarterly': {
+      const quarterStartMonth = Math.floor(month / 3) * 3;
+      start = new Date(Date.UTC(year, quarterStartMonth, 1));
+      end = new Date(Date.UTC(year, quarterStartMonth + 3, 1));
+      break;
+    }
+    case 'yearly':
+      start = new Date(Date.UTC(year, 0, 1));
+      end = new Date(Date.UTC(year + 1, 0, 1));
+      break;
+  }
+
+  return { frequency, start, end, days: daysBetween(start, end) };
+}
+
+/**
+ * Most recent billing period that ended on or before asOf
+ */
+export function getLastCompletedPeriod(frequency: AccruedPaymentFrequency, asOf: Date): BillingPeriod {
+  const current = getBillingPeriod(frequency, asOf);
+  return getBillingPeriod(frequency, new Date(current.start.getTime() - MS_PER_DAY));
+}
+
+/**
+ * Whole days a position was held within the period.
+ * The opening day is billed, the closing day is not.
+ */
+export function calculateHeldInterval(
+  position: Pick<BillablePosition, 'openedAt' | 'closedAt'>,
+  period: BillingPeriod
+): { from: Date; until: Date } | null {
+  const opened = startOfUtcDay(position.openedAt);
+  const closed = position.closedAt ? startOfUtcDay(position.closedAt) : period.end;
+
+  const from = opened > period.start ? opened : period.start;
+  const until = closed < period.end ? closed : period.end;
+
+  return until > from ? { from, until } : null;
+}
+
+/**
+ * Days covered by at least one interval (overlapping positions are billed once)
+ */
+function countCoveredDays(intervals: Array<{ from: Date; until: Date }>): number {
+  const sorted = [...intervals].sort((a, b) => a.from.getTime() - b.from.getTime());
+  let covered = 0;
+  let currentFrom: Date | null = null;
+  let currentUntil: Date | null = null;
+
+  for (const interval of sorted) {
+    if (currentFrom && currentUntil && interval.from <= currentUntil) {
+      if (interval.until > currentUntil) {
+        currentUntil = interval.until;
+      }
+      continue;
+    }
+    if (currentFrom && currentUntil) {
+      covered += daysBetween(currentFrom, currentUntil);
+    }
+    currentFrom = interval.from;
+    currentUntil = interval.until;
+  }
+
+  if (currentFrom && currentUntil) {
+    covered += daysBetween(currentFrom, currentUntil);
+  }
+  return covered;
+}
+
+/**
+ * Build one invoice per user and custody service for the period.
+ * The service fee is charged per billing period and pro-rated by the days
+ * the user held at least one position in the service. Services without a fee are not invoiced.
+ */
+export function calculateCustodyInvoices(
+  positions: BillablePosition[],
+  period: BillingPeriod
+): CustodyInvoiceDraft[] {
+  const groups = new Map<string, { service: BillablePosition; lineItems: CustodyInvoiceLineItem[] }>();
+
+  for (const position of positions) {
+    if (position.fee <= 0 || toAccruedFrequency(position.paymentFrequency) !== period.frequency) {
+      continue;
+    }
+
+    const held = calculateHeldInterval(position, period);
+    if (!held) {
+      continue;
+    }
+
+    const key = `${position.userId}:${position.custodyServiceId}`;
+    const group = groups.get(key) ?? { service: position, lineItems: [] };
+    group.lineItems.push({
+      positionId: position.positionId,
+      heldFrom: held.from,
+      heldUntil: held.until,
+      days: daysBetween(held.from, held.until),
+    });
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map(({ service, lineItems }) => {
+    const billedDays = countCoveredDays(lineItems.map(item => ({ from: item.heldFrom, until: item.heldUntil })));
+    return {
+      userId: service.userId,
+      custodyServiceId: service.custodyServiceId,
+      paymentFrequency: period.frequency,
+      periodStart: period.start,
+      periodEnd: period.end,
+      periodDays: period.days,
+      billedDays,
+      periodFee: service.fee,
+      amount: roundCurrency(service.fee * billedDays / period.days),
+      currencyId: service.currencyId,
+      currency: service.currency,
+      lineItems,
+    };
+  });
+}
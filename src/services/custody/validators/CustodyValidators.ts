@@ -5,7 +5,14 @@
  * Extracted to keep CustodyServiceImpl under 300 lines
  */
 
-import { CreateCustodyServiceDTO, UpdateCustodyServiceDTO } from '../types/CustodyTypes';
+import {
+  CreateCustodyServiceDTO,
+  UpdateCustodyServiceDTO,
+  CustodyCapacityCheck,
+  CustodyWeightErrorCode,
+  CustodyWeightItem,
+} from '../types/CustodyTypes';
+import { GRAMS_PER_TROY_OUNCE, convertWeightToTroyOunces } from '../../pricing/utils/SpotPriceCalculator';
 
 export interface ValidationResult {
   valid: boolean;
@@ -89,3 +96,59 @@ export function validateUpdateData(data: UpdateCustodyServiceDTO): ValidationRes
 
   return { valid: true };
 }
+
+/**
+ * Total fine metal weight in grams (gross weight x purity x quantity)
+ */
+export function calculateFineWeightGrams(items: CustodyWeightItem[]): number {
+  const grams = items.reduce(
+    (sum, item) =>
+      sum + convertWeightToTroyOunces(item.weight, item.weightUnit) * item.purity * item.quantity * GRAMS_PER_TROY_OUNCE,
+    0
+  );
+  return Math.round(grams * 100) / 100;
+}
+
+/**
+ * Check whether a custody service can take additional fine weight for a user.
+ * The user's resulting holding in the service must lie within [minWeight, maxWeight].
+ */
+export function checkCustodyWeightLimits(
+  service: { id: string; name: string; minWeight: number | null; maxWeight: number | null },
+  currentWeightGrams: number,
+  basketWeightGrams: number
+): CustodyCapacityCheck {
+  const resultingWeightGrams = Math.round((currentWeightGrams + basketWeightGrams) * 100) / 100;
+  const check: CustodyCapacityCheck = {
+    custodyServiceId: service.id,
+    custodyServiceName: service.name,
+    minWeight: service.minWeight,
+    maxWeight: service.maxWeight,
+    currentWeightGrams,
+    basketWeightGrams,
+    resultingWeightGrams,
+    accepted: true,
+  };
+
+  if (service.maxWeight !== null && resultingWeightGrams > service.maxWeight) {
+    return {
+      ...check,
+      accepted: false,
+      code: CustodyWeightErrorCode.MAX_WEIGHT_EXCEEDED,
+      reason: `Custody service ${service.name} allows at most ${service.maxWeight} g fine weight; ` +
+        `holding would be ${resultingWeightGrams} g`,
+    };
+  }
+
+  if (service.minWeight !== null && resultingWeightGrams < service.minWeight) {
+    return {
+      ...check,
+      accepted: false,
+      code: CustodyWeightErrorCode.MIN_WEIGHT_NOT_MET,
+      reason: `Custody service ${service.name} requires at least ${service.minWeight} g fine weight; ` +
+        `holding would be ${resultingWeightGrams} g`,
+    };
+  }
+
+  return check;
+}
@@ -4,7 +4,12 @@
  * Defines the contract for email sending operations
  */
 
-import { EmailUserInfo } from './types/EmailTypes';
+import {
+  AccountLockedEmailInfo,
+  EmailUserInfo,
+  PriceAlertEmailInfo,
+  SavingsPlanFailureEmailInfo,
+} from './types/EmailTypes';
 
 export interface IEmailService {
   /**
@@ -19,6 +24,56 @@ export interface IEmailService {
     userInfo: EmailUserInfo
   ): Promise<void>;
 
+  /**
+   * Send password reset link to user
+   * @param email User's email address
+   * @param token Single-use password reset token
+   * @param expiresInMinutes Minutes until the token expires
+   * @param userInfo User information for personalization
+   */
+  sendPasswordReset(
+    email: string,
+    token: string,
+    expiresInMinutes: number,
+    userInfo: EmailUserInfo
+  ): Promise<void>;
+
+  /**
+   * Notify user that their account was locked after too many failed logins
+   * @param email User's email address
+   * @param lock Unlock time and the failed attempts that caused the lock
+   * @param userInfo User information for personalization
+   */
+  sendAccountLocked(
+    email: string,
+    lock: AccountLockedEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void>;
+
+  /**
+   * Notify user that one of their price alerts fired
+   * @param email User's email address
+   * @param alert Fired alert and the price that triggered it
+   * @param userInfo User information for personalization
+   */
+  sendPriceAlert(
+    email: string,
+    alert: PriceAlertEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void>;
+
+  /**
+   * Notify user that a savings plan execution failed after all retries
+   * @param email User's email address
+   * @param failure Plan and the reason of the last failed attempt
+   * @param userInfo User information for personalization
+   */
+  sendSavingsPlanExecutionFailed(
+    email: string,
+    failure: SavingsPlanFailureEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void>;
+
   /**
    * Test email service connection
    * @returns True if connection is successful
@@ -7,7 +7,13 @@
 
 import nodemailer from 'nodemailer';
 import { IEmailService } from '../IEmailService';
-import { EmailUserInfo, EmailServiceConfig } from '../types/EmailTypes';
+import {
+  AccountLockedEmailInfo,
+  EmailUserInfo,
+  EmailServiceConfig,
+  PriceAlertEmailInfo,
+  SavingsPlanFailureEmailInfo,
+} from '../types/EmailTypes';
 
 export class EmailServiceImpl implements IEmailService {
   private readonly baseUrl: string;
@@ -60,6 +66,115 @@ export class EmailServiceImpl implements IEmailService {
     }
   }
 
+  async sendPasswordReset(
+    email: string,
+    token: string,
+    expiresInMinutes: number,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    try {
+      const resetUrl = `${this.baseUrl}/reset-password?token=${token}`;
+
+      const mailOptions = {
+        from: this.fromEmail,
+        to: email,
+        subject: 'Reset your GoldSphere password',
+        html: this.generatePasswordResetEmailHtml(userInfo.firstName, resetUrl, expiresInMinutes),
+        text: this.generatePasswordResetEmailText(userInfo.firstName, resetUrl, expiresInMinutes),
+      };
+
+      const info = await this.transporter.sendMail(mailOptions);
+
+      console.log(`✅ Password reset email sent to ${email}`, {
+        messageId: info.messageId
+      });
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+      throw new Error('Failed to send password reset email');
+    }
+  }
+
+  async sendAccountLocked(
+    email: string,
+    lock: AccountLockedEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    try {
+      const resetUrl = `${this.baseUrl}/forgot-password`;
+      const mailOptions = {
+        from: this.fromEmail,
+        to: email,
+        subject: 'Your GoldSphere account was temporarily locked',
+        html: this.generateAccountLockedEmailHtml(userInfo.firstName, lock, resetUrl),
+        text: this.generateAccountLockedEmailText(userInfo.firstName, lock, resetUrl),
+      };
+
+      const info = await this.transporter.sendMail(mailOptions);
+
+      console.log(`✅ Account locked notice sent to ${email}`, {
+        messageId: info.messageId,
+        lockedUntil: lock.lockedUntil.toISOString()
+      });
+    } catch (error) {
+      console.error('Error sending account locked notice:', error);
+      throw new Error('Failed to send account locked email');
+    }
+  }
+
+  async sendPriceAlert(
+    email: string,
+    alert: PriceAlertEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    try {
+      const summary = this.describePriceAlert(alert);
+
+      const mailOptions = {
+        from: this.fromEmail,
+        to: email,
+        subject: `GoldSphere price alert: ${summary}`,
+        html: this.generatePriceAlertEmailHtml(userInfo.firstName, summary, alert),
+        text: this.generatePriceAlertEmailText(userInfo.firstName, summary, alert),
+      };
+
+      const info = await this.transporter.sendMail(mailOptions);
+
+      console.log(`✅ Price alert sent to ${email}`, {
+        messageId: info.messageId,
+        metalSymbol: alert.metalSymbol
+      });
+    } catch (error) {
+      console.error('Error sending price alert:', error);
+      throw new Error('Failed to send price alert email');
+    }
+  }
+
+  async sendSavingsPlanExecutionFailed(
+    email: string,
+    failure: SavingsPlanFailureEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    try {
+      const mailOptions = {
+        from: this.fromEmail,
+        to: email,
+        subject: `GoldSphere savings plan: purchase of ${failure.productName} failed`,
+        html: this.generateSavingsPlanFailureEmailHtml(userInfo.firstName, failure),
+        text: this.generateSavingsPlanFailureEmailText(userInfo.firstName, failure),
+      };
+
+      const info = await this.transporter.sendMail(mailOptions);
+
+      console.log(`✅ Savings plan failure notice sent to ${email}`, {
+        messageId: info.messageId,
+        productName: failure.productName
+      });
+    } catch (error) {
+      console.error('Error sending savings plan failure notice:', error);
+      throw new Error('Failed to send savings plan failure email');
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       await this.transporter.verify();
@@ -147,6 +262,308 @@ If you didn't create an account with us, please ignore this email.
 Best regards,
 The GoldSphere Team
 
+© 2025 GoldSphere. All rights reserved.
+This is an automated message, please do not reply to this email.
+    `.trim();
+  }
+
+  private generatePasswordResetEmailHtml(firstName: string, resetUrl: string, expiresInMinutes: number): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Reset your GoldSphere password</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f8f9fa; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; }
+          .button { 
+            display: inline-block; 
+            padding: 12px 24px; 
+            background: #007bff; 
+            color: white; 
+            text-decoration: none; 
+            border-radius: 4px; 
+            margin: 20px 0;
+          }
+          .footer { font-size: 12px; color: #666; text-align: center; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Password reset</h1>
+          </div>
+          
+          <div class="content">
+            <h2>Hi ${firstName},</h2>
+            
+            <p>We received a request to reset the password of your GoldSphere account. Click the button below to choose a new password:</p>
+            
+            <p style="text-align: center;">
+              <a href="${resetUrl}" class="button">Reset Password</a>
+            </p>
+            
+            <p>If the button doesn't work, you can also copy and paste the following link into your browser:</p>
+            <p style="word-break: break-all; color: #007bff;">${resetUrl}</p>
+            
+            <p>This link can be used once and will expire in ${expiresInMinutes} minutes. Resetting your password signs you out on all devices.</p>
+            
+            <p>If you didn't request a password reset, please ignore this email. Your password will not be changed.</p>
+            
+            <p>Best regards,<br>The GoldSphere Team</p>
+          </div>
+          
+          <div class="footer">
+            <p>© 2025 GoldSphere. All rights reserved.</p>
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generatePasswordResetEmailText(firstName: string, resetUrl: string, expiresInMinutes: number): string {
+    return `
+Password reset
+
+Hi ${firstName},
+
+We received a request to reset the password of your GoldSphere account. Visit the following link to choose a new password:
+
+${resetUrl}
+
+This link can be used once and will expire in ${expiresInMinutes} minutes. Resetting your password signs you out on all devices.
+
+If you didn't request a password reset, please ignore this email. Your password will not be changed.
+
+Best regards,
+The GoldSphere Team
+
+© 2025 GoldSphere. All rights reserved.
+This is an automated message, please do not reply to this email.
+    `.trim();
+  }
+
+  private describeFailedLogins(lock: AccountLockedEmailInfo): string {
+    const origin = lock.ipAddress ? ` from IP address ${lock.ipAddress}` : '';
+    return `${lock.failedAttempts} failed login attempts${origin}`;
+  }
+
+  private generateAccountLockedEmailHtml(firstName: string, lock: AccountLockedEmailInfo, resetUrl: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>GoldSphere account locked</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f8f9fa; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; }
+          .button { 
+            display: inline-block; 
+            padding: 12px 24px; 
+            background: #d4af37; 
+            color: white; 
+            text-decoration: none; 
+            border-radius: 4px; 
+            margin: 20px 0;
+          }
+          .footer { font-size: 12px; color: #666; text-align: center; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Account temporarily locked</h1>
+          </div>
+
+          <div class="content">
+            <h2>Hi ${firstName},</h2>
+
+            <p>After ${this.describeFailedLogins(lock)} we locked your GoldSphere account to protect it. It unlocks automatically at <strong>${lock.lockedUntil.toISOString().replace('T', ' ').slice(0, 16)} UTC</strong>.</p>
+
+            <p>If these attempts were not yours, someone may know your email address. Please choose a new password once the lock has expired:</p>
+
+            <a href="${resetUrl}" class="button">Reset Password</a>
+
+            <p>Best regards,<br>The GoldSphere Team</p>
+          </div>
+
+          <div class="footer">
+            <p>© 2025 GoldSphere. All rights reserved.</p>
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateAccountLockedEmailText(firstName: string, lock: AccountLockedEmailInfo, resetUrl: string): string {
+    return `
+Account temporarily locked
+
+Hi ${firstName},
+
+After ${this.describeFailedLogins(lock)} we locked your GoldSphere account to protect it. It unlocks automatically at ${lock.lockedUntil.toISOString().replace('T', ' ').slice(0, 16)} UTC.
+
+If these attempts were not yours, someone may know your email address. Please choose a new password once the lock has expired:
+${resetUrl}
+
+Best regards,
+The GoldSphere Team
+
+© 2025 GoldSphere. All rights reserved.
+This is an automated message, please do not reply to this email.
+    `.trim();
+  }
+
+  private describePriceAlert(alert: PriceAlertEmailInfo): string {
+    switch (alert.condition) {
+      case 'above':
+        return `${alert.metalSymbol} is above ${alert.threshold.toFixed(2)} ${alert.currency}`;
+      case 'below':
+        return `${alert.metalSymbol} is below ${alert.threshold.toFixed(2)} ${alert.currency}`;
+      case 'change_percent':
+        return `${alert.metalSymbol} moved ${(alert.changePercent ?? 0).toFixed(2)}% today`;
+    }
+  }
+
+  private generatePriceAlertEmailHtml(firstName: string, summary: string, alert: PriceAlertEmailInfo): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>GoldSphere price alert</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f8f9fa; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; }
+          .price { font-size: 24px; font-weight: bold; text-align: center; margin: 20px 0; }
+          .footer { font-size: 12px; color: #666; text-align: center; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Price alert</h1>
+          </div>
+
+          <div class="content">
+            <h2>Hi ${firstName},</h2>
+
+            <p>Your price alert was triggered: <strong>${summary}</strong>.</p>
+
+            <p class="price">${alert.price.toFixed(2)} ${alert.currency} / troy oz</p>
+
+            <p>Price as of ${alert.triggeredAt.toISOString()}. The alert will not fire again until you change its condition or threshold.</p>
+
+            <p>Best regards,<br>The GoldSphere Team</p>
+          </div>
+
+          <div class="footer">
+            <p>© 2025 GoldSphere. All rights reserved.</p>
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generatePriceAlertEmailText(firstName: string, summary: string, alert: PriceAlertEmailInfo): string {
+    return `
+Price alert
+
+Hi ${firstName},
+
+Your price alert was triggered: ${summary}.
+
+Current price: ${alert.price.toFixed(2)} ${alert.currency} / troy oz (as of ${alert.triggeredAt.toISOString()})
+
+The alert will not fire again until you change its condition or threshold.
+
+Best regards,
+The GoldSphere Team
+
+© 2025 GoldSphere. All rights reserved.
+This is an automated message, please do not reply to this email.
+    `.trim();
+  }
+
+  private describeNextExecution(failure: SavingsPlanFailureEmailInfo): string {
+    return failure.nextExecutionAt
+      ? `Your plan stays active; the next purchase is scheduled for ${failure.nextExecutionAt.toISOString().slice(0, 10)}.`
+      : 'Your plan is paused; resume it to continue your purchases.';
+  }
+
+  private generateSavingsPlanFailureEmailHtml(firstName: string, failure: SavingsPlanFailureEmailInfo): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>GoldSphere savings plan</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f8f9fa; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; }
+          .reason { background: #fff3cd; padding: 12px; border-radius: 4px; }
+          .footer { font-size: 12px; color: #666; text-align: center; padding: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Savings plan purchase failed</h1>
+          </div>
+
+          <div class="content">
+            <h2>Hi ${firstName},</h2>
+
+            <p>We could not complete the purchase of <strong>${failure.amount.toFixed(2)} ${failure.currency}</strong> of <strong>${failure.productName}</strong> due on ${failure.scheduledFor.toISOString().slice(0, 10)}, even after several attempts.</p>
+
+            <p class="reason">${failure.reason}</p>
+
+            <p>Any order placed for this date has been cancelled and nothing was charged. Please check the payment method linked to your savings plan. ${this.describeNextExecution(failure)}</p>
+
+            <p>Best regards,<br>The GoldSphere Team</p>
+          </div>
+
+          <div class="footer">
+            <p>© 2025 GoldSphere. All rights reserved.</p>
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateSavingsPlanFailureEmailText(firstName: string, failure: SavingsPlanFailureEmailInfo): string {
+    return `
+Savings plan purchase failed
+
+Hi ${firstName},
+
+We could not complete the purchase of ${failure.amount.toFixed(2)} ${failure.currency} of ${failure.productName} due on ${failure.scheduledFor.toISOString().slice(0, 10)}, even after several attempts.
+
+Reason: ${failure.reason}
+
+Any order placed for this date has been cancelled and nothing was charged. Please check the payment method linked to your savings plan. ${this.describeNextExecution(failure)}
+
+Best regards,
+The GoldSphere Team
+
 © 2025 GoldSphere. All rights reserved.
 This is an automated message, please do not reply to this email.
     `.trim();
@@ -11,7 +11,8 @@ export { IEmailService } from './IEmailService';
 export {
   EmailConfig,
   EmailUserInfo,
-  EmailServiceConfig
+  EmailServiceConfig,
+  PriceAlertEmailInfo
 } from './types/EmailTypes';
 
 // Implementations
@@ -5,7 +5,12 @@
  */
 
 import { IEmailService } from '../IEmailService';
-import { EmailUserInfo } from '../types/EmailTypes';
+import {
+  AccountLockedEmailInfo,
+  EmailUserInfo,
+  PriceAlertEmailInfo,
+  SavingsPlanFailureEmailInfo,
+} from '../types/EmailTypes';
 
 export class EmailServiceMock implements IEmailService {
   private sentEmails: Array<{
@@ -14,6 +19,31 @@ export class EmailServiceMock implements IEmailService {
     userInfo: EmailUserInfo;
     sentAt: Date;
   }> = [];
+  private sentPasswordResets: Array<{
+    email: string;
+    token: string;
+    expiresInMinutes: number;
+    userInfo: EmailUserInfo;
+    sentAt: Date;
+  }> = [];
+  private sentAccountLocks: Array<{
+    email: string;
+    lock: AccountLockedEmailInfo;
+    userInfo: EmailUserInfo;
+    sentAt: Date;
+  }> = [];
+  private sentPriceAlerts: Array<{
+    email: string;
+    alert: PriceAlertEmailInfo;
+    userInfo: EmailUserInfo;
+    sentAt: Date;
+  }> = [];
+  private sentSavingsPlanFailures: Array<{
+    email: string;
+    failure: SavingsPlanFailureEmailInfo;
+    userInfo: EmailUserInfo;
+    sentAt: Date;
+  }> = [];
 
   async sendEmailVerification(
     email: string,
@@ -30,6 +60,68 @@ export class EmailServiceMock implements IEmailService {
     });
   }
 
+  async sendPasswordReset(
+    email: string,
+    token: string,
+    expiresInMinutes: number,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    console.log(`📧 [MOCK] Password reset sent to ${email} with token ${token}`);
+
+    this.sentPasswordResets.push({
+      email,
+      token,
+      expiresInMinutes,
+      userInfo,
+      sentAt: new Date()
+    });
+  }
+
+  async sendAccountLocked(
+    email: string,
+    lock: AccountLockedEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    console.log(`📧 [MOCK] Account locked notice sent to ${email} (until ${lock.lockedUntil.toISOString()})`);
+
+    this.sentAccountLocks.push({
+      email,
+      lock,
+      userInfo,
+      sentAt: new Date()
+    });
+  }
+
+  async sendPriceAlert(
+    email: string,
+    alert: PriceAlertEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    console.log(`📧 [MOCK] Price alert sent to ${email}: ${alert.metalSymbol} ${alert.condition} ${alert.threshold}`);
+
+    this.sentPriceAlerts.push({
+      email,
+      alert,
+      userInfo,
+      sentAt: new Date()
+    });
+  }
+
+  async sendSavingsPlanExecutionFailed(
+    email: string,
+    failure: SavingsPlanFailureEmailInfo,
+    userInfo: EmailUserInfo
+  ): Promise<void> {
+    console.log(`📧 [MOCK] Savings plan failure sent to ${email}: ${failure.productName} (${failure.reason})`);
+
+    this.sentSavingsPlanFailures.push({
+      email,
+      failure,
+      userInfo,
+      sentAt: new Date()
+    });
+  }
+
   async testConnection(): Promise<boolean> {
     console.log('✅ [MOCK] Email service connection test passed');
     return true;
@@ -44,7 +136,27 @@ export class EmailServiceMock implements IEmailService {
     return this.sentEmails[this.sentEmails.length - 1] || null;
   }
 
+  getSentPasswordResets() {
+    return [...this.sentPasswordResets];
+  }
+
+  getSentAccountLocks() {
+    return [...this.sentAccountLocks];
+  }
+
+  getSentPriceAlerts() {
+    return [...this.sentPriceAlerts];
+  }
+
+  getSentSavingsPlanFailures() {
+    return [...this.sentSavingsPlanFailures];
+  }
+
   clear() {
     this.sentEmails = [];
+    this.sentPasswordResets = [];
+    this.sentAccountLocks = [];
+    this.sentPriceAlerts = [];
+    this.sentSavingsPlanFailures = [];
   }
 }
@@ -27,6 +27,43 @@ export interface EmailUserInfo {
   lastName: string;
 }
 
+/**
+ * Fired price alert details for the notification email
+ */
+export interface PriceAlertEmailInfo {
+  metalSymbol: string;
+  condition: 'above' | 'below' | 'change_percent';
+  threshold: number;
+  currency: string;
+  price: number;
+  /** Move since the daily open in percent (change_percent alerts only) */
+  changePercent: number | null;
+  triggeredAt: Date;
+}
+
+/**
+ * Savings plan execution that failed for good, for the notification email
+ */
+export interface SavingsPlanFailureEmailInfo {
+  productName: string;
+  amount: number;
+  currency: string;
+  scheduledFor: Date;
+  reason: string;
+  /** Next due date of the plan; null when the plan is paused */
+  nextExecutionAt: Date | null;
+}
+
+/**
+ * Temporary lock after too many failed logins, for the notification email
+ */
+export interface AccountLockedEmailInfo {
+  lockedUntil: Date;
+  failedAttempts: number;
+  /** Client IP of the last failed attempt, if known */
+  ipAddress: string | null;
+}
+
 /**
  * Email service configuration
  */
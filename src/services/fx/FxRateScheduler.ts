@@ -0,0 +1,83 @@
+/**
+ * FX Rate Scheduler
+ * Stores daily exchange rates from the configured providers
+ * Uses Dependency Injection for testability
+ */
+
+import { CronJob } from 'cron';
+import type { IFxService } from './IFxService';
+import type { FxUpdateResult } from './types/FxTypes';
+
+export class FxRateScheduler {
+  private updateJob?: CronJob;
+
+  constructor(private readonly fxService: IFxService) {}
+
+  /**
+   * Initialize scheduled jobs
+   */
+  initialize(): void {
+    // ECB reference rates are published around 16:00 CET on working days
+    this.updateJob = new CronJob(
+      '0 16 * * 1-5', // Every weekday at 16:00
+      async () => {
+        console.log('[FxRateScheduler] Running scheduled rate update...');
+        try {
+          this.logResult('Rate update', await this.fxService.updateRatesFromProviders());
+        } catch (error) {
+          console.error('[FxRateScheduler] Rate update error:', error);
+        }
+      },
+      null, // onComplete
+      false, // start immediately
+      'UTC' // timezone
+    );
+
+    console.log('[FxRateScheduler] Scheduler initialized (not started)');
+  }
+
+  /**
+   * Start all scheduled jobs
+   */
+  start(): void {
+    if (this.updateJob) {
+      this.updateJob.start();
+      console.log('[FxRateScheduler] Rate update job started');
+    }
+  }
+
+  /**
+   * Stop all scheduled jobs
+   */
+  stop(): void {
+    if (this.updateJob) {
+      this.updateJob.stop();
+      console.log('[FxRateScheduler] Rate update job stopped');
+    }
+  }
+
+  /**
+   * Run rate update immediately
+   */
+  async runUpdateNow(): Promise<FxUpdateResult> {
+    console.log('[FxRateScheduler] Running manual rate update...');
+    try {
+      const result = await this.fxService.updateRatesFromProviders();
+      this.logResult('Manual update', result);
+      return result;
+    } catch (error) {
+      console.error('[FxRateScheduler] Manual update error:', error);
+      throw error;
+    }
+  }
+
+  private logResult(label: string, result: FxUpdateResult): void {
+    if (result.success) {
+      console.log(
+        `[FxRateScheduler] ${label} successful - Provider: ${result.provider}, New rates: ${result.savedRates}`
+      );
+    } else {
+      console.error(`[FxRateScheduler] ${label} failed - Errors: ${result.errors.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * FX Service Factory
+ *
+ * Factory for creating FX services with proper dependency injection
+ */
+
+import { Pool } from 'pg';
+import { IFxService } from './IFxService';
+import { IFxRateRepository } from './repository/IFxRateRepository';
+import { FxRateRepositoryImpl } from './repository/FxRateRepositoryImpl';
+import { FxRateRepositoryMock } from './mock/FxRateRepositoryMock';
+import { FxServiceImpl } from './impl/FxServiceImpl';
+import type { IFxRateProvider } from './providers/IFxRateProvider';
+import { EcbFxRateProvider } from './providers/EcbFxRateProvider';
+import { OpenExchangeRatesProvider } from './providers/OpenExchangeRatesProvider';
+import { FxRateScheduler } from './FxRateScheduler';
+
+export class FxServiceFactory {
+  /**
+   * Create FxService with real PostgreSQL database and the available providers
+   */
+  static create(pool: Pool): IFxService {
+    return new FxServiceImpl(this.createRepository(pool), this.createProviders());
+  }
+
+  /**
+   * Create FxService with mock repository for testing (no providers unless given)
+   */
+  static createMock(
+    repository: IFxRateRepository = this.createMockRepository(),
+    providers: IFxRateProvider[] = []
+  ): IFxService {
+    return new FxServiceImpl(repository, providers);
+  }
+
+  /**
+   * Create FX rate repository with PostgreSQL
+   */
+  static createRepository(pool: Pool): IFxRateRepository {
+    return new FxRateRepositoryImpl(pool);
+  }
+
+  /**
+   * Create in-memory FX rate repository
+   */
+  static createMockRepository(): FxRateRepositoryMock {
+    return new FxRateRepositoryMock();
+  }
+
+  /**
+   * Create scheduler with service dependency
+   */
+  static createScheduler(service: IFxService): FxRateScheduler {
+    return new FxRateScheduler(service);
+  }
+
+  /**
+   * Configured providers in priority order (lower number = higher priority)
+   */
+  private static createProviders(): IFxRateProvider[] {
+    const providers: IFxRateProvider[] = [
+      new OpenExchangeRatesProvider(),
+      new EcbFxRateProvider(),
+    ];
+
+    return providers.filter(p => p.isAvailable());
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * IFxService Interface
+ *
+ * Currency conversion from stored exchange rates and rate updates from providers
+ */
+
+import { FxConversion, FxRate, FxUpdateResult } from './types/FxTypes';
+import { FxRateTable } from './utils/FxRateTable';
+
+export interface IFxService {
+  /**
+   * Convert an amount with the latest rates at asOf (default: now), rounded to cents.
+   * Throws FxError (FX_VALIDATION_ERROR, FX_UNSUPPORTED_CURRENCY, FX_RATE_UNAVAILABLE).
+   */
+  convert(amount: number, from: string, to: string, asOf?: Date): Promise<FxConversion>;
+
+  /**
+   * Rate snapshot at asOf (default: now) for converting many amounts without further lookups
+   */
+  getRateTable(asOf?: Date): Promise<FxRateTable>;
+
+  /**
+   * Latest stored rate per currency pair at asOf (default: now)
+   */
+  listRates(asOf?: Date): Promise<FxRate[]>;
+
+  /**
+   * Fetch rates from the first available provider (by priority) that returns any and store them
+   */
+  updateRatesFromProviders(): Promise<FxUpdateResult>;
+}
@@ -0,0 +1,111 @@
+/**
+ * FX Service Implementation
+ *
+ * Converts amounts with stored exchange rates and keeps them current
+ * from the configured rate providers
+ */
+
+import { IFxService } from '../IFxService';
+import { IFxRateRepository } from '../repository/IFxRateRepository';
+import type { IFxRateProvider } from '../providers/IFxRateProvider';
+import { FxConversion, FxError, FxErrorCode, FxRate, FxUpdateResult } from '../types/FxTypes';
+import { FxRateTable } from '../utils/FxRateTable';
+import { roundCurrency } from '../../../utils/currency';
+
+export class FxServiceImpl implements IFxService {
+  constructor(
+    private readonly repository: IFxRateRepository,
+    private readonly providers: IFxRateProvider[]
+  ) {}
+
+  async convert(amount: number, from: string, to: string, asOf?: Date): Promise<FxConversion> {
+    if (!Number.isFinite(amount)) {
+      throw new FxError(FxErrorCode.VALIDATION_ERROR, 'amount must be a finite number');
+    }
+
+    const table = await this.getRateTable(asOf);
+    const resolved = table.getRate(from, to);
+
+    return {
+      amount,
+      from: resolved.from,
+      to: resolved.to,
+      rate: resolved.rate,
+      convertedAmount: roundCurrency(amount * resolved.rate),
+      rateAsOf: resolved.asOf,
+      source: resolved.source,
+    };
+  }
+
+  async getRateTable(asOf: Date = new Date()): Promise<FxRateTable> {
+    this.assertValidDate(asOf);
+    const [currencies, rates] = await Promise.all([
+      this.repository.findCurrencyCodes(),
+      this.repository.findLatestRates(asOf),
+    ]);
+    return new FxRateTable(currencies, rates, asOf);
+  }
+
+  async listRates(asOf: Date = new Date()): Promise<FxRate[]> {
+    this.assertValidDate(asOf);
+    const rates = await this.repository.findLatestRates(asOf);
+    return rates.sort((a, b) =>
+      a.baseCurrency.localeCompare(b.baseCurrency) || a.quoteCurrency.localeCompare(b.quoteCurrency)
+    );
+  }
+
+  async updateRatesFromProviders(): Promise<FxUpdateResult> {
+    const result: FxUpdateResult = {
+      success: false,
+      provider: 'none',
+      savedRates: 0,
+      errors: [],
+      timestamp: new Date()
+    };
+
+    const availableProviders = this.providers
+      .filter(p => p.isAvailable())
+      .sort((a, b) => a.getPriority() - b.getPriority());
+
+    if (availableProviders.length === 0) {
+      result.errors.push('No providers available');
+      return result;
+    }
+
+    const currencies = await this.repository.findCurrencyCodes();
+
+    // Try each provider until one succeeds
+    for (const provider of availableProviders) {
+      try {
+        console.log(`[FxService] Fetching rates from ${provider.getName()}`);
+        const rates = await provider.fetchRates(currencies);
+
+        if (rates.length > 0) {
+          result.savedRates = await this.repository.saveRates(rates);
+          result.success = true;
+          result.provider = provider.getName();
+          console.log(
+            `[FxService] Fetched ${rates.length} rates from ${provider.getName()}, stored ${result.savedRates} new`
+          );
+          break;
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[FxService] Provider ${provider.getName()} failed: ${errorMsg}`);
+        result.errors.push(`${provider.getName()}: ${errorMsg}`);
+      }
+    }
+
+    if (!result.success) {
+      console.error('[FxService] All providers failed to fetch rates');
+    }
+
+    return result;
+  }
+
+  private assertValidDate(asOf: Date): void {
+    if (Number.isNaN(asOf.getTime())) {
+      throw new FxError(FxErrorCode.VALIDATION_ERROR, 'asOf must be a valid date');
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * FX Service Barrel Export
+ * Clean public API
+ */
+
+// Service Interface
+export { IFxService } from './IFxService';
+
+// Service Implementation
+export { FxServiceImpl } from './impl/FxServiceImpl';
+
+// Repository Interfaces
+export { IFxRateRepository } from './repository/IFxRateRepository';
+
+// Repository Implementations
+export { FxRateRepositoryImpl } from './repository/FxRateRepositoryImpl';
+export { FxRateRepositoryMock } from './mock/FxRateRepositoryMock';
+
+// Provider Interfaces and Implementations
+export { IFxRateProvider } from './providers/IFxRateProvider';
+export { EcbFxRateProvider } from './providers/EcbFxRateProvider';
+export { OpenExchangeRatesProvider } from './providers/OpenExchangeRatesProvider';
+
+// Types
+export * from './types/FxTypes';
+
+// Utilities
+export { FxRateTable } from './utils/FxRateTable';
+
+// Scheduler
+export { FxRateScheduler } from './FxRateScheduler';
+
+// Factory
+export { FxServiceFactory } from './FxServiceFactory';
@@ -0,0 +1,59 @@
+/**
+ * FX Rate Repository Mock
+ * In-memory implementation for testing
+ */
+
+import { FxRate } from '../types/FxTypes';
+import { IFxRateRepository } from '../repository/IFxRateRepository';
+
+const DEFAULT_CURRENCIES = ['AUD', 'CAD', 'CHF', 'EUR', 'GBP', 'USD'];
+
+export class FxRateRepositoryMock implements IFxRateRepository {
+  private currencies: string[] = [...DEFAULT_CURRENCIES];
+  private rates: FxRate[] = [];
+
+  async findCurrencyCodes(): Promise<string[]> {
+    return [...this.currencies];
+  }
+
+  async findLatestRates(asOf: Date): Promise<FxRate[]> {
+    const latest = new Map<string, FxRate>();
+    for (const rate of this.rates) {
+      const key = `${rate.baseCurrency}/${rate.quoteCurrency}`;
+      const existing = latest.get(key);
+      if (rate.asOf <= asOf && (!existing || existing.asOf < rate.asOf)) {
+        latest.set(key, rate);
+      }
+    }
+    return [...latest.values()];
+  }
+
+  async saveRates(rates: FxRate[]): Promise<number> {
+    let saved = 0;
+    for (const rate of rates) {
+      const known = this.currencies.includes(rate.baseCurrency) && this.currencies.includes(rate.quoteCurrency);
+      const stored = this.rates.some(existing =>
+        existing.baseCurrency === rate.baseCurrency &&
+        existing.quoteCurrency === rate.quoteCurrency &&
+        existing.asOf.getTime() === rate.asOf.getTime()
+      );
+      if (known && !stored) {
+        this.rates.push({ ...rate });
+        saved++;
+      }
+    }
+    return saved;
+  }
+
+  // ============================================================================
+  // Test helpers
+  // ============================================================================
+
+  setCurrencies(currencies: string[]): void {
+    this.currencies = [...currencies];
+  }
+
+  getStoredRates(): FxRate[] {
+    return [...this.rates];
+  }
+}
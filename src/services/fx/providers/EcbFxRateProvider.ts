@@ -0,0 +1,69 @@
+/**
+ * ECB Reference Rate Provider
+ *
+ * Daily euro foreign exchange reference rates published by the European Central Bank
+ * (working days around 16:00 CET). No API key required.
+ *
+ * @see https://www.ecb.europa.eu/stats/policy_and_exchange_rates/euro_reference_exchange_rates/html/index.en.html
+ */
+
+import type { IFxRateProvider } from './IFxRateProvider';
+import type { FxRate } from '../types/FxTypes';
+
+const BASE_CURRENCY = 'EUR';
+const DATE_PATTERN = /<Cube\s+time=['"](\d{4}-\d{2}-\d{2})['"]/;
+const RATE_PATTERN = /<Cube\s+currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]/g;
+
+export class EcbFxRateProvider implements IFxRateProvider {
+  private readonly url = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+  private readonly priority = 2;
+
+  getName(): string {
+    return 'ECB';
+  }
+
+  getPriority(): number {
+    return this.priority;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * Fetch EUR reference rates for the requested currencies
+   */
+  async fetchRates(currencies: readonly string[]): Promise<FxRate[]> {
+    if (!currencies.includes(BASE_CURRENCY)) {
+      return [];
+    }
+
+    const response = await fetch(this.url, { headers: { Accept: 'application/xml' } });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const xml = await response.text();
+    const date = DATE_PATTERN.exec(xml)?.[1];
+    if (!date) {
+      throw new Error('Reference date missing in ECB response');
+    }
+
+    const asOf = new Date(`${date}T00:00:00Z`);
+    const rates: FxRate[] = [];
+
+    for (const [, currency, rate] of xml.matchAll(RATE_PATTERN)) {
+      if (currencies.includes(currency)) {
+        rates.push({
+          baseCurrency: BASE_CURRENCY,
+          quoteCurrency: currency,
+          rate: Number.parseFloat(rate),
+          source: this.getName(),
+          asOf
+        });
+      }
+    }
+
+    return rates;
+  }
+}
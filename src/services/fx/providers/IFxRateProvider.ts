@@ -0,0 +1,30 @@
+/**
+ * FX Rate Provider Interface
+ * Strategy pattern for different exchange rate sources
+ */
+
+import type { FxRate } from '../types/FxTypes';
+
+export interface IFxRateProvider {
+  /**
+   * Get the provider name (stored as fx_rate.source)
+   */
+  getName(): string;
+
+  /**
+   * Get provider priority (lower = higher priority)
+   */
+  getPriority(): number;
+
+  /**
+   * Check if provider is configured and ready
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Fetch current rates between the given currencies
+   * Providers quote against their own base currency; pairs are crossed on conversion.
+   * @param currencies ISO 4217 codes of the currency reference table
+   */
+  fetchRates(currencies: readonly string[]): Promise<FxRate[]>;
+}
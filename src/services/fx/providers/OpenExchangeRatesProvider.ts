@@ -0,0 +1,75 @@
+/**
+ * Open Exchange Rates Provider
+ *
+ * Hourly USD-based exchange rates; requires OPEN_EXCHANGE_RATES_APP_ID
+ *
+ * @see https://openexchangerates.org/
+ */
+
+import type { IFxRateProvider } from './IFxRateProvider';
+import type { FxRate } from '../types/FxTypes';
+
+/**
+ * Open Exchange Rates latest.json response
+ */
+interface OpenExchangeRatesResponse {
+  readonly timestamp: number;
+  readonly base: string;
+  readonly rates: Record<string, number>;
+  readonly error?: boolean;
+  readonly description?: string;
+}
+
+export class OpenExchangeRatesProvider implements IFxRateProvider {
+  private readonly baseUrl = 'https://openexchangerates.org/api';
+  private readonly priority = 1;
+  private readonly appId: string | undefined;
+
+  constructor() {
+    this.appId = process.env.OPEN_EXCHANGE_RATES_APP_ID;
+  }
+
+  getName(): string {
+    return 'OpenExchangeRates';
+  }
+
+  getPriority(): number {
+    return this.priority;
+  }
+
+  isAvailable(): boolean {
+    return !!this.appId;
+  }
+
+  /**
+   * Fetch latest rates against the account base currency (USD on the free plan)
+   */
+  async fetchRates(currencies: readonly string[]): Promise<FxRate[]> {
+    if (!this.appId) {
+      throw new Error('OPEN_EXCHANGE_RATES_APP_ID not configured');
+    }
+
+    const url = `${this.baseUrl}/latest.json?app_id=${encodeURIComponent(this.appId)}&symbols=${currencies.join(',')}`;
+    const response = await fetch(url, { headers: { 'Content-Type': 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as OpenExchangeRatesResponse;
+    if (data.error) {
+      throw new Error(data.description || 'Open Exchange Rates request failed');
+    }
+
+    const asOf = new Date(data.timestamp * 1000);
+
+    return Object.entries(data.rates)
+      .filter(([currency, rate]) => currency !== data.base && currencies.includes(currency) && rate > 0)
+      .map(([currency, rate]) => ({
+        baseCurrency: data.base,
+        quoteCurrency: currency,
+        rate,
+        source: this.getName(),
+        asOf
+      }));
+  }
+}
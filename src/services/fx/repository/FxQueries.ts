@@ -0,0 +1,42 @@
+/**
+ * FX SQL Queries
+ *
+ * Centralized SQL query definitions for currencies and exchange rates
+ */
+
+export const GET_CURRENCY_CODES = `
+  SELECT isocode3
+  FROM currency
+  ORDER BY isocode3
+`;
+
+/**
+ * Latest rate per currency pair observed at or before $1
+ */
+export const GET_LATEST_RATES_AS_OF = `
+  SELECT DISTINCT ON (r.base_currency_id, r.quote_currency_id)
+    b.isocode3 AS base_currency,
+    q.isocode3 AS quote_currency,
+    r.rate,
+    r.source,
+    r.as_of
+  FROM fx_rate r
+  JOIN currency b ON b.id = r.base_currency_id
+  JOIN currency q ON q.id = r.quote_currency_id
+  WHERE r.as_of <= $1
+  ORDER BY r.base_currency_id, r.quote_currency_id, r.as_of DESC
+`;
+
+/**
+ * Bulk insert; pairs with unknown currency codes are skipped,
+ * rates already stored for the pair and observation time are kept
+ */
+export const INSERT_RATES = `
+  INSERT INTO fx_rate (base_currency_id, quote_currency_id, rate, source, as_of)
+  SELECT b.id, q.id, v.rate, v.source, v.as_of
+  FROM UNNEST($1::text[], $2::text[], $3::numeric[], $4::text[], $5::timestamp[])
+    AS v(base_currency, quote_currency, rate, source, as_of)
+  JOIN currency b ON b.isocode3 = v.base_currency
+  JOIN currency q ON q.isocode3 = v.quote_currency
+  ON CONFLICT (base_currency_id, quote_currency_id, as_of) DO NOTHING
+`;
@@ -0,0 +1,38 @@
+/**
+ * FX Rate Repository Implementation
+ * PostgreSQL implementation of IFxRateRepository
+ */
+
+import { Pool } from 'pg';
+import { FxRate, mapRowToFxRate } from '../types/FxTypes';
+import { IFxRateRepository } from './IFxRateRepository';
+import * as queries from './FxQueries';
+
+export class FxRateRepositoryImpl implements IFxRateRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async findCurrencyCodes(): Promise<string[]> {
+    const result = await this.pool.query(queries.GET_CURRENCY_CODES);
+    return result.rows.map(row => String(row.isocode3).trim());
+  }
+
+  async findLatestRates(asOf: Date): Promise<FxRate[]> {
+    const result = await this.pool.query(queries.GET_LATEST_RATES_AS_OF, [asOf]);
+    return result.rows.map(mapRowToFxRate);
+  }
+
+  async saveRates(rates: FxRate[]): Promise<number> {
+    if (rates.length === 0) {
+      return 0;
+    }
+
+    const result = await this.pool.query(queries.INSERT_RATES, [
+      rates.map(rate => rate.baseCurrency),
+      rates.map(rate => rate.quoteCurrency),
+      rates.map(rate => rate.rate),
+      rates.map(rate => rate.source),
+      rates.map(rate => rate.asOf),
+    ]);
+    return result.rowCount ?? 0;
+  }
+}
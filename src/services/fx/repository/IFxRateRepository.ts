@@ -0,0 +1,25 @@
+/**
+ * FX Rate Repository Interface
+ *
+ * Data access for the currency reference table and stored exchange rates
+ */
+
+import { FxRate } from '../types/FxTypes';
+
+export interface IFxRateRepository {
+  /**
+   * ISO 4217 codes of all reference currencies
+   */
+  findCurrencyCodes(): Promise<string[]>;
+
+  /**
+   * Latest stored rate per currency pair observed at or before asOf
+   */
+  findLatestRates(asOf: Date): Promise<FxRate[]>;
+
+  /**
+   * Store fetched rates; returns the number of new rows
+   * (unknown currencies and already stored observations are skipped)
+   */
+  saveRates(rates: FxRate[]): Promise<number>;
+}
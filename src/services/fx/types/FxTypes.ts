@@ -0,0 +1,111 @@
+/**
+ * FX Domain Types
+ *
+ * Stored exchange rates between reference currencies and amount conversion
+ */
+
+// ============================================================================
+// Error Codes
+// ============================================================================
+
+export const FxErrorCode = {
+  VALIDATION_ERROR: 'FX_VALIDATION_ERROR',
+  UNSUPPORTED_CURRENCY: 'FX_UNSUPPORTED_CURRENCY',
+  RATE_UNAVAILABLE: 'FX_RATE_UNAVAILABLE',
+} as const;
+
+export type FxErrorCode = typeof FxErrorCode[keyof typeof FxErrorCode];
+
+export class FxError extends Error {
+  constructor(
+    public readonly code: FxErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FxError';
+  }
+}
+
+export function getFxHttpStatus(code: FxErrorCode): number {
+  switch (code) {
+    case FxErrorCode.RATE_UNAVAILABLE:
+      return 503;
+    default:
+      return 400;
+  }
+}
+
+// ============================================================================
+// Rates
+// ============================================================================
+
+/**
+ * Exchange rate: one unit of baseCurrency costs `rate` units of quoteCurrency
+ */
+export interface FxRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  source: string;
+  asOf: Date;
+}
+
+/**
+ * Rate between two currencies derived from stored rates
+ * (direct, inverse or crossed via a third currency)
+ */
+export interface ResolvedFxRate {
+  from: string;
+  to: string;
+  rate: number;
+  /** Observation time of the oldest stored rate used */
+  asOf: Date;
+  /** Stored rates the rate was derived from, e.g. ['EUR/USD', 'EUR/CHF'] */
+  path: string[];
+  source: string;
+}
+
+export interface FxConversion {
+  amount: number;
+  from: string;
+  to: string;
+  rate: number;
+  convertedAmount: number;
+  rateAsOf: Date;
+  source: string;
+}
+
+export interface FxUpdateResult {
+  success: boolean;
+  provider: string;
+  savedRates: number;
+  errors: string[];
+  readonly timestamp: Date;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Upper-cased ISO 4217 code; throws FX_VALIDATION_ERROR for anything else
+ */
+export function normalizeCurrencyCode(code: string): string {
+  const normalized = String(code ?? '').trim().toUpperCase();
+  if (!CURRENCY_PATTERN.test(normalized)) {
+    throw new FxError(FxErrorCode.VALIDATION_ERROR, `Invalid currency: ${code}`);
+  }
+  return normalized;
+}
+
+export function mapRowToFxRate(row: Record<string, unknown>): FxRate {
+  return {
+    baseCurrency: String(row.base_currency).trim(),
+    quoteCurrency: String(row.quote_currency).trim(),
+    rate: Number.parseFloat(row.rate as string),
+    source: row.source as string,
+    asOf: new Date(row.as_of as string),
+  };
+}
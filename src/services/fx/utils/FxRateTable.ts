@@ -0,0 +1,126 @@
+/**
+ * FX Rate Table
+ *
+ * Snapshot of the latest stored rate per currency pair at one point in time.
+ * Resolves any supported pair from the stored rates: directly, inverted,
+ * or crossed via a third currency (e.g. CHF -> USD via EUR/CHF and EUR/USD).
+ */
+
+import { FxError, FxErrorCode, FxRate, ResolvedFxRate, normalizeCurrencyCode } from '../types/FxTypes';
+import { roundCurrency } from '../../../utils/currency';
+
+interface RateLeg {
+  rate: number;
+  stored: FxRate;
+}
+
+export class FxRateTable {
+  private readonly currencies: Set<string>;
+  private readonly rates = new Map<string, FxRate>();
+
+  constructor(currencies: readonly string[], rates: readonly FxRate[], readonly asOf: Date = new Date()) {
+    this.currencies = new Set(currencies.map(code => code.trim().toUpperCase()));
+    for (const rate of rates) {
+      const key = pairKey(rate.baseCurrency, rate.quoteCurrency);
+      const existing = this.rates.get(key);
+      if (rate.rate > 0 && (!existing || existing.asOf < rate.asOf)) {
+        this.rates.set(key, rate);
+      }
+    }
+  }
+
+  /**
+   * Supported currency codes (the currency reference table)
+   */
+  getCurrencies(): string[] {
+    return [...this.currencies].sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Rate to convert one unit of `from` into `to`
+   * Throws FX_UNSUPPORTED_CURRENCY or FX_RATE_UNAVAILABLE
+   */
+  getRate(from: string, to: string): ResolvedFxRate {
+    const source = this.requireSupported(from);
+    const target = this.requireSupported(to);
+
+    if (source === target) {
+      return { from: source, to: target, rate: 1, asOf: this.asOf, path: [], source: 'identity' };
+    }
+
+    const direct = this.findLeg(source, target);
+    if (direct) {
+      return this.toResolved(source, target, [direct]);
+    }
+
+    const crossed = this.findCrossLegs(source, target);
+    if (crossed) {
+      return this.toResolved(source, target, crossed);
+    }
+
+    throw new FxError(FxErrorCode.RATE_UNAVAILABLE, `No exchange rate available for ${source}/${target}`);
+  }
+
+  /**
+   * Convert an amount, rounded to cents
+   */
+  convert(amount: number, from: string, to: string): number {
+    return roundCurrency(amount * this.getRate(from, to).rate);
+  }
+
+  private requireSupported(code: string): string {
+    const normalized = normalizeCurrencyCode(code);
+    if (!this.currencies.has(normalized)) {
+      throw new FxError(FxErrorCode.UNSUPPORTED_CURRENCY, `Unsupported currency: ${normalized}`);
+    }
+    return normalized;
+  }
+
+  private findLeg(from: string, to: string): RateLeg | null {
+    const direct = this.rates.get(pairKey(from, to));
+    if (direct) {
+      return { rate: direct.rate, stored: direct };
+    }
+    const inverse = this.rates.get(pairKey(to, from));
+    return inverse ? { rate: 1 / inverse.rate, stored: inverse } : null;
+  }
+
+  /**
+   * Cross via the pivot whose older leg is the most recent
+   */
+  private findCrossLegs(from: string, to: string): RateLeg[] | null {
+    let best: RateLeg[] | null = null;
+
+    for (const pivot of this.getCurrencies()) {
+      if (pivot === from || pivot === to) {
+        continue;
+      }
+      const first = this.findLeg(from, pivot);
+      const second = first ? this.findLeg(pivot, to) : null;
+      if (first && second && (!best || oldestAsOf([first, second]) > oldestAsOf(best))) {
+        best = [first, second];
+      }
+    }
+
+    return best;
+  }
+
+  private toResolved(from: string, to: string, legs: RateLeg[]): ResolvedFxRate {
+    return {
+      from,
+      to,
+      rate: legs.reduce((product, leg) => product * leg.rate, 1),
+      asOf: oldestAsOf(legs),
+      path: legs.map(leg => pairKey(leg.stored.baseCurrency, leg.stored.quoteCurrency)),
+      source: [...new Set(legs.map(leg => leg.stored.source))].join('+'),
+    };
+  }
+}
+
+function pairKey(base: string, quote: string): string {
+  return `${base}/${quote}`;
+}
+
+function oldestAsOf(legs: RateLeg[]): Date {
+  return new Date(Math.min(...legs.map(leg => leg.stored.asOf.getTime())));
+}
@@ -8,6 +8,8 @@
  * - Fetch current and historical prices
  * - Update prices from external providers
  * - Manage provider status
+ * - Trading calendar (market hours, holidays)
+ * - Historical price imports
  * - Cache management
  */
 
@@ -16,8 +18,14 @@ import type {
   PriceHistory,
   MarketDataQuery,
   PriceUpdateResult,
-  MarketDataProvider
+  ProviderStatus,
+  PriceCandle,
+  MarketStatus,
+  QuoteFreshness,
+  PriceHistoryImportOptions,
+  PriceHistoryImportResult
 } from './types/MarketDataTypes';
+import type { PriceFileFormat } from './utils/PriceFileParser';
 
 export interface IMarketDataService {
   /**
@@ -42,18 +50,55 @@ export interface IMarketDataService {
    */
   getHistoricalPrices(query: MarketDataQuery): Promise<PriceHistory[]>;
 
+  /**
+   * Get OHLC candles for a metal (pre-computed when prices are saved)
+   * @param query - Query parameters; interval defaults to 1d
+   * @returns Candles, newest first
+   */
+  getPriceCandles(query: MarketDataQuery): Promise<PriceCandle[]>;
+
   /**
    * Update prices from external API providers
-   * Uses provider fallback strategy
+   * Uses provider fallback strategy; providers with an open circuit are skipped
+   * and quotes failing the sanity checks are quarantined
    * @returns Update result with success status and errors
    */
   updatePricesFromApi(): Promise<PriceUpdateResult>;
 
   /**
    * Get status of all registered providers
-   * @returns Array of providers with their status
+   * @returns Array of providers with circuit breaker state and rejected-quote counts
+   */
+  getProviderStatus(): Promise<ProviderStatus[]>;
+
+  /**
+   * Get whether any trading venue is in session
+   * @param at - Point in time (default: now)
+   * @returns Open venues, or next open and last close while the market is closed
+   */
+  getMarketStatus(at?: Date): Promise<MarketStatus>;
+
+  /**
+   * Classify a stored price as live, stale or last close using the trading calendar
+   * @param price - Price as returned by getCurrentPrice
+   * @param at - Point in time (default: now)
+   */
+  getQuoteFreshness(price: MarketPrice, at?: Date): Promise<QuoteFreshness>;
+
+  /**
+   * Import historical prices (e.g. daily fixes) into the price history and its candles
+   * Rows already stored for the metal, provider and timestamp are skipped;
+   * invalid rows are counted as failed and do not stop the import
+   * @param content - CSV or JSON price file content
+   * @param format - File format
+   * @param options - Provider to store the prices under, defaults for missing columns
+   * @throws PriceHistoryImportError when the file cannot be read or the provider is unknown
    */
-  getProviderStatus(): Promise<MarketDataProvider[]>;
+  importPriceHistory(
+    content: string,
+    format: PriceFileFormat,
+    options?: PriceHistoryImportOptions
+  ): Promise<PriceHistoryImportResult>;
 
   /**
    * Clean up expired cache entries
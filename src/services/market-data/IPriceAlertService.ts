@@ -0,0 +1,50 @@
+/**
+ * Price Alert Service Interface
+ *
+ * User-defined price alerts per metal. Alerts are evaluated after every
+ * market price update, notify the owner by email and fire only once.
+ */
+
+import type {
+  PriceAlert,
+  CreatePriceAlertInput,
+  UpdatePriceAlertInput,
+  PriceAlertEvaluationResult
+} from './types/PriceAlertTypes';
+
+export interface IPriceAlertService {
+  /**
+   * Create an alert for a user
+   * Throws PRICE_ALERT_VALIDATION_ERROR or PRICE_ALERT_UNKNOWN_METAL
+   */
+  createAlert(userId: string, input: CreatePriceAlertInput): Promise<PriceAlert>;
+
+  /**
+   * Get all alerts of a user, newest first
+   */
+  listAlerts(userId: string): Promise<PriceAlert[]>;
+
+  /**
+   * Get one alert of a user
+   * Throws PRICE_ALERT_NOT_FOUND
+   */
+  getAlert(id: string, userId: string): Promise<PriceAlert>;
+
+  /**
+   * Update an alert of a user; changing condition or threshold re-arms a fired alert
+   * Throws PRICE_ALERT_VALIDATION_ERROR or PRICE_ALERT_NOT_FOUND
+   */
+  updateAlert(id: string, userId: string, input: UpdatePriceAlertInput): Promise<PriceAlert>;
+
+  /**
+   * Delete an alert of a user
+   * Throws PRICE_ALERT_NOT_FOUND
+   */
+  deleteAlert(id: string, userId: string): Promise<void>;
+
+  /**
+   * Check armed alerts of the given metals against the current market prices,
+   * record each trigger and notify the owner
+   */
+  evaluateAlerts(metalSymbols: readonly string[]): Promise<PriceAlertEvaluationResult>;
+}
@@ -0,0 +1,44 @@
+/**
+ * Price Stream Service Interface
+ *
+ * In-process fan-out of saved market prices (and product prices recalculated
+ * from them) to streaming subscribers. Only prices saved by this server
+ * instance are pushed, so the price scheduler must run where clients connect.
+ */
+
+import type { MarketPrice } from './types/MarketDataTypes';
+import type {
+  PriceStreamEvent,
+  PriceStreamFilter,
+  PriceStreamSnapshot,
+  ProductPricer
+} from './types/PriceStreamTypes';
+
+export interface IPriceStreamService {
+  /**
+   * Register a subscriber; events outside its filter are not delivered
+   * @returns Function removing the subscription
+   */
+  subscribe(filter: PriceStreamFilter, listener: (event: PriceStreamEvent) => void): () => void;
+
+  /**
+   * Number of connected subscribers
+   */
+  getSubscriberCount(): number;
+
+  /**
+   * Push a saved market price, and the product prices recalculated from it
+   * to subscribers of the products channel
+   */
+  publishPrice(price: MarketPrice): Promise<void>;
+
+  /**
+   * Current prices (and product prices) matching a filter, sent on connect
+   */
+  getSnapshot(filter: PriceStreamFilter): Promise<PriceStreamSnapshot>;
+
+  /**
+   * Set how product prices are recalculated for the products channel
+   */
+  setProductPricer(pricer: ProductPricer): void;
+}
@@ -5,36 +5,227 @@
  * Follows Factory Pattern and Dependency Injection
  * 
  * Responsibilities:
- * - Wire up all dependencies (Repository, Providers, ReferenceService)
+ * - Wire up all dependencies (Repository, Providers, ReferenceService, PriceAlertService)
  * - Configure Strategy Pattern for providers
  * - Provide single entry point for service creation
  */
 
 import { Pool } from 'pg';
 import type { IMarketDataService } from './IMarketDataService';
+import type { IPriceAlertService } from './IPriceAlertService';
 import type { IMarketDataRepository } from './repository/IMarketDataRepository';
 import type { IMarketDataProvider } from './providers/IMarketDataProvider';
 import type { IReferenceService } from '../reference/IReferenceService';
+import type { IEmailService } from '../email/IEmailService';
 import { MarketDataServiceImpl } from './impl/MarketDataServiceImpl';
+import { PriceAlertServiceImpl } from './impl/PriceAlertServiceImpl';
 import { MarketDataRepositoryImpl } from './repository/MarketDataRepositoryImpl';
 import { MarketDataRepositoryMock } from './mock/MarketDataRepositoryMock';
+import { PriceAlertRepositoryImpl } from './repository/PriceAlertRepositoryImpl';
 import { SIXSwissExchangeProvider } from './providers/SIXSwissExchangeProvider';
 import { GoldApiProvider } from './providers/GoldApiProvider';
+import { ReplayProvider } from './providers/ReplayProvider';
 import { MarketDataScheduler } from './marketDataScheduler';
 import { ReferenceServiceFactory } from '../reference/ReferenceServiceFactory';
+import { EmailServiceFactory } from '../email/EmailServiceFactory';
+import { FxServiceFactory } from '../fx/FxServiceFactory';
+import { getRequiredEnvVar } from '../../config/environment';
+import {
+  CLOSED_MARKET_MODES,
+  DEFAULT_CONSENSUS_CONFIG,
+  DEFAULT_PROVIDER_HEALTH_CONFIG,
+  DEFAULT_REPLAY_CONFIG,
+  DEFAULT_TRADING_CALENDAR_CONFIG,
+  PRICING_MODES,
+  REPLAY_MODES,
+  ClosedMarketMode,
+  ConsensusConfig,
+  PricingMode,
+  ProviderHealthConfig,
+  ReplayConfig,
+  ReplayMode,
+  TradingCalendarConfig
+} from './types/MarketDataTypes';
+import { DEFAULT_PRICE_STREAM_CONFIG, PriceStreamConfig } from './types/PriceStreamTypes';
+import type { IPriceStreamService } from './IPriceStreamService';
+import { PriceStreamServiceImpl } from './impl/PriceStreamServiceImpl';
 
 export class MarketDataServiceFactory {
+  private static priceStreamService?: IPriceStreamService;
+
   /**
    * Create production service instance with real database
+   * Price alerts are only evaluated after price updates when a priceAlertService is passed
    */
-  static create(pool: Pool): IMarketDataService {
+  static create(pool: Pool, priceAlertService?: IPriceAlertService): IMarketDataService {
     const repository: IMarketDataRepository = new MarketDataRepositoryImpl(pool);
     const providers: IMarketDataProvider[] = this.createProviders();
     const referenceService: IReferenceService = ReferenceServiceFactory.createService(pool);
 
     console.log(`[MarketDataFactory] Creating service with ${providers.length} provider(s)`);
 
-    return new MarketDataServiceImpl(repository, providers, referenceService);
+    return new MarketDataServiceImpl(repository, providers, referenceService, {
+      priceAlertService,
+      healthConfig: this.createProviderHealthConfigFromEnv(),
+      consensusConfig: this.createConsensusConfigFromEnv(),
+      calendarConfig: this.createTradingCalendarConfigFromEnv(),
+      priceStream: this.getPriceStreamService(pool),
+    });
+  }
+
+  /**
+   * Service for price history imports outside the server (CLI): no providers,
+   * price alerts or stream, so no email configuration is required
+   */
+  static createHistoryImporter(pool: Pool): Pick<IMarketDataService, 'importPriceHistory'> {
+    return new MarketDataServiceImpl(
+      new MarketDataRepositoryImpl(pool),
+      [],
+      ReferenceServiceFactory.createService(pool)
+    );
+  }
+
+  /**
+   * Price stream shared by this process: services created here publish to it,
+   * the stream endpoint subscribes to it
+   */
+  static getPriceStreamService(pool: Pool): IPriceStreamService {
+    this.priceStreamService ??= new PriceStreamServiceImpl(new MarketDataRepositoryImpl(pool));
+    return this.priceStreamService;
+  }
+
+  /**
+   * Stream settings from MARKET_DATA_STREAM_HEARTBEAT_SECONDS and MARKET_DATA_STREAM_MAX_CLIENTS
+   */
+  static createPriceStreamConfigFromEnv(): PriceStreamConfig {
+    const heartbeatSeconds = Number.parseInt(process.env.MARKET_DATA_STREAM_HEARTBEAT_SECONDS || '', 10);
+    const maxClients = Number.parseInt(process.env.MARKET_DATA_STREAM_MAX_CLIENTS || '', 10);
+
+    return {
+      heartbeatSeconds: heartbeatSeconds > 0 ? heartbeatSeconds : DEFAULT_PRICE_STREAM_CONFIG.heartbeatSeconds,
+      maxClients: maxClients > 0 ? maxClients : DEFAULT_PRICE_STREAM_CONFIG.maxClients
+    };
+  }
+
+  /**
+   * Circuit breaker and sanity check settings from MARKET_DATA_BREAKER_FAILURE_THRESHOLD,
+   * MARKET_DATA_BREAKER_COOLDOWN_MINUTES and MARKET_DATA_MAX_PRICE_DEVIATION_PERCENT
+   */
+  static createProviderHealthConfigFromEnv(): ProviderHealthConfig {
+    const failureThreshold = Number.parseInt(process.env.MARKET_DATA_BREAKER_FAILURE_THRESHOLD || '', 10);
+    const cooldownMinutes = Number.parseInt(process.env.MARKET_DATA_BREAKER_COOLDOWN_MINUTES || '', 10);
+    const maxDeviationPercent = Number.parseFloat(process.env.MARKET_DATA_MAX_PRICE_DEVIATION_PERCENT || '');
+
+    return {
+      ...DEFAULT_PROVIDER_HEALTH_CONFIG,
+      failureThreshold: failureThreshold > 0 ? failureThreshold : DEFAULT_PROVIDER_HEALTH_CONFIG.failureThreshold,
+      cooldownMinutes: cooldownMinutes > 0 ? cooldownMinutes : DEFAULT_PROVIDER_HEALTH_CONFIG.cooldownMinutes,
+      maxDeviationPercent: maxDeviationPercent > 0 ? maxDeviationPercent : DEFAULT_PROVIDER_HEALTH_CONFIG.maxDeviationPercent
+    };
+  }
+
+  /**
+   * Pricing mode settings from MARKET_DATA_PRICING_MODE (first|median|weighted),
+   * MARKET_DATA_CONSENSUS_MAX_SPREAD_PERCENT and MARKET_DATA_PROVIDER_WEIGHTS
+   * ("SIX Swiss Exchange:2,GoldAPI:1"; unlisted providers weigh 1)
+   */
+  static createConsensusConfigFromEnv(): ConsensusConfig {
+    const mode = process.env.MARKET_DATA_PRICING_MODE?.trim().toLowerCase() || DEFAULT_CONSENSUS_CONFIG.mode;
+    const maxSpreadPercent = Number.parseFloat(process.env.MARKET_DATA_CONSENSUS_MAX_SPREAD_PERCENT || '');
+    const providerWeights: Record<string, number> = {};
+
+    if (!(PRICING_MODES as readonly string[]).includes(mode)) {
+      throw new Error(`Invalid MARKET_DATA_PRICING_MODE "${mode}", expected one of: ${PRICING_MODES.join(', ')}`);
+    }
+
+    for (const entry of (process.env.MARKET_DATA_PROVIDER_WEIGHTS || '').split(',')) {
+      if (!entry.trim()) {
+        continue;
+      }
+
+      const separator = entry.lastIndexOf(':');
+      const name = entry.slice(0, separator).trim();
+      const weight = Number.parseFloat(entry.slice(separator + 1));
+
+      if (separator <= 0 || !name || !(weight > 0)) {
+        throw new Error(`Invalid MARKET_DATA_PROVIDER_WEIGHTS entry "${entry.trim()}", expected <provider name>:<weight>`);
+      }
+      providerWeights[name] = weight;
+    }
+
+    return {
+      mode: mode as PricingMode,
+      maxSpreadPercent: maxSpreadPercent >= 0 ? maxSpreadPercent : DEFAULT_CONSENSUS_CONFIG.maxSpreadPercent,
+      providerWeights
+    };
+  }
+
+  /**
+   * Trading calendar settings from MARKET_DATA_CLOSED_MARKET_MODE (last_close|continuous)
+   * and MARKET_DATA_STALE_AFTER_MINUTES
+   */
+  static createTradingCalendarConfigFromEnv(): TradingCalendarConfig {
+    const closedMarketMode = process.env.MARKET_DATA_CLOSED_MARKET_MODE?.trim().toLowerCase()
+      || DEFAULT_TRADING_CALENDAR_CONFIG.closedMarketMode;
+    const staleAfterMinutes = Number.parseInt(process.env.MARKET_DATA_STALE_AFTER_MINUTES || '', 10);
+
+    if (!(CLOSED_MARKET_MODES as readonly string[]).includes(closedMarketMode)) {
+      throw new Error(
+        `Invalid MARKET_DATA_CLOSED_MARKET_MODE "${closedMarketMode}", expected one of: ${CLOSED_MARKET_MODES.join(', ')}`
+      );
+    }
+
+    return {
+      closedMarketMode: closedMarketMode as ClosedMarketMode,
+      staleAfterMinutes: staleAfterMinutes > 0 ? staleAfterMinutes : DEFAULT_TRADING_CALENDAR_CONFIG.staleAfterMinutes
+    };
+  }
+
+  /**
+   * Replay provider settings from MARKET_DATA_REPLAY_MODE (off|file|random_walk),
+   * MARKET_DATA_REPLAY_FILE, MARKET_DATA_REPLAY_SPEED, MARKET_DATA_REPLAY_LOOP,
+   * MARKET_DATA_REPLAY_VOLATILITY_PERCENT and MARKET_DATA_REPLAY_SEED
+   */
+  static createReplayConfigFromEnv(): ReplayConfig {
+    const mode = process.env.MARKET_DATA_REPLAY_MODE?.trim().toLowerCase() || DEFAULT_REPLAY_CONFIG.mode;
+    const filePath = process.env.MARKET_DATA_REPLAY_FILE?.trim() || undefined;
+    const speed = Number.parseFloat(process.env.MARKET_DATA_REPLAY_SPEED || '');
+    const volatilityPercent = Number.parseFloat(process.env.MARKET_DATA_REPLAY_VOLATILITY_PERCENT || '');
+    const seed = Number.parseInt(process.env.MARKET_DATA_REPLAY_SEED || '', 10);
+
+    if (!(REPLAY_MODES as readonly string[]).includes(mode)) {
+      throw new Error(`Invalid MARKET_DATA_REPLAY_MODE "${mode}", expected one of: ${REPLAY_MODES.join(', ')}`);
+    }
+    if (mode === 'file' && !filePath) {
+      throw new Error('MARKET_DATA_REPLAY_FILE is required when MARKET_DATA_REPLAY_MODE=file');
+    }
+
+    return {
+      ...DEFAULT_REPLAY_CONFIG,
+      mode: mode as ReplayMode,
+      filePath,
+      speed: speed >= 0 ? speed : DEFAULT_REPLAY_CONFIG.speed,
+      loop: process.env.MARKET_DATA_REPLAY_LOOP?.trim().toLowerCase() !== 'false',
+      volatilityPercent: volatilityPercent >= 0 ? volatilityPercent : DEFAULT_REPLAY_CONFIG.volatilityPercent,
+      seed: Number.isNaN(seed) ? undefined : seed
+    };
+  }
+
+  /**
+   * Create price alert service; alerts are notified by email
+   * (requires APP_BASE_URL and EMAIL_FROM unless an email service is passed)
+   */
+  static createPriceAlertService(
+    pool: Pool,
+    marketDataRepository: IMarketDataRepository = new MarketDataRepositoryImpl(pool),
+    emailService?: IEmailService
+  ): IPriceAlertService {
+    return new PriceAlertServiceImpl(
+      new PriceAlertRepositoryImpl(pool),
+      marketDataRepository,
+      FxServiceFactory.create(pool),
+      emailService ?? EmailServiceFactory.create(getRequiredEnvVar('APP_BASE_URL'), getRequiredEnvVar('EMAIL_FROM'))
+    );
   }
 
   /**
@@ -53,8 +244,15 @@ export class MarketDataServiceFactory {
   /**
    * Create and configure all providers (Strategy Pattern)
    * Add new providers here in priority order (lower number = higher priority)
+   * An enabled replay provider replaces the external providers
    */
   private static createProviders(): IMarketDataProvider[] {
+    const replay = new ReplayProvider(this.createReplayConfigFromEnv());
+    if (replay.isAvailable()) {
+      console.log('[MarketDataFactory] Replay mode enabled, external providers disabled');
+      return [replay];
+    }
+
     const providers: IMarketDataProvider[] = [
       new SIXSwissExchangeProvider(),
       new GoldApiProvider(),
@@ -70,6 +268,6 @@ export class MarketDataServiceFactory {
    * Create scheduler with service dependency
    */
   static createScheduler(service: IMarketDataService): MarketDataScheduler {
-    return new MarketDataScheduler(service);
+    return new MarketDataScheduler(service, this.createTradingCalendarConfigFromEnv());
   }
 }
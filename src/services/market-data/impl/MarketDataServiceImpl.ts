@@ -9,28 +9,86 @@
  * - Repository for data persistence
  * - Providers array for external API access (Strategy Pattern)
  * - ReferenceService for metal symbol → ID resolution
+ * - MarketDataServiceDependencies for the optional collaborators and settings below
  */
 
 import type { IMarketDataService } from '../IMarketDataService';
 import type { IMarketDataRepository } from '../repository/IMarketDataRepository';
 import type { IMarketDataProvider } from '../providers/IMarketDataProvider';
 import type { IReferenceService } from '../../reference/IReferenceService';
+import type { IPriceAlertService } from '../IPriceAlertService';
+import type { IPriceStreamService } from '../IPriceStreamService';
 import type {
   MarketPrice,
   PriceHistory,
   MarketDataQuery,
   PriceUpdateResult,
   MarketDataProvider,
-  PriceData
+  MetalPrice,
+  PriceData,
+  PriceCandle,
+  ProviderHealthConfig,
+  ProviderStatus,
+  ConsensusConfig,
+  ConsensusMethod,
+  MarketStatus,
+  QuoteFreshness,
+  TradingCalendarConfig,
+  PriceFileRowError,
+  PriceHistoryImportOptions,
+  PriceHistoryImportResult
 } from '../types/MarketDataTypes';
-import { SUPPORTED_METALS, CACHE_DURATION_MINUTES } from '../types/MarketDataTypes';
+import {
+  SUPPORTED_METALS,
+  CACHE_DURATION_MINUTES,
+  DEFAULT_PROVIDER_HEALTH_CONFIG,
+  DEFAULT_CONSENSUS_CONFIG,
+  DEFAULT_TRADING_CALENDAR_CONFIG,
+  CONSENSUS_PROVIDER_NAME,
+  HISTORICAL_IMPORT_PROVIDER_NAME,
+  MAX_REPORTED_IMPORT_ERRORS,
+  PriceHistoryImportError,
+  PriceHistoryImportErrorCode
+} from '../types/MarketDataTypes';
+import { getCandleBucketStart, shiftCandleBucket } from '../utils/CandleAggregator';
+import { CircuitStatus, getCircuitStatus } from '../utils/ProviderCircuitBreaker';
+import { checkQuoteSanity } from '../utils/PriceSanityChecker';
+import { ContributorQuote, computeConsensus } from '../utils/ConsensusPricer';
+import { SESSION_SEARCH_DAYS, addDays, getMarketStatus, getQuoteFreshness } from '../utils/TradingCalendar';
+import { PriceFileFormat, PriceFileParseResult, parsePriceFile } from '../utils/PriceFileParser';
+
+export interface MarketDataServiceDependencies {
+  /** Alerts evaluated after each price update */
+  priceAlertService?: IPriceAlertService;
+  /** Per-provider circuit breaker and price sanity checks */
+  healthConfig?: ProviderHealthConfig;
+  /** First-provider vs. median/weighted consensus pricing */
+  consensusConfig?: ConsensusConfig;
+  /** Classifies quotes as live, stale or last close */
+  calendarConfig?: TradingCalendarConfig;
+  /** Pushes every saved price to streaming clients */
+  priceStream?: Pick<IPriceStreamService, 'getSubscriberCount' | 'publishPrice'>;
+}
 
 export class MarketDataServiceImpl implements IMarketDataService {
+  private readonly priceAlertService?: IPriceAlertService;
+  private readonly healthConfig: ProviderHealthConfig;
+  private readonly consensusConfig: ConsensusConfig;
+  private readonly calendarConfig: TradingCalendarConfig;
+  private readonly priceStream?: Pick<IPriceStreamService, 'getSubscriberCount' | 'publishPrice'>;
+
   constructor(
     private readonly repository: IMarketDataRepository,
     private readonly providers: ReadonlyArray<IMarketDataProvider>,
-    private readonly referenceService: IReferenceService
+    private readonly referenceService: IReferenceService,
+    dependencies: MarketDataServiceDependencies = {}
   ) {
+    this.priceAlertService = dependencies.priceAlertService;
+    this.healthConfig = dependencies.healthConfig ?? DEFAULT_PROVIDER_HEALTH_CONFIG;
+    this.consensusConfig = dependencies.consensusConfig ?? DEFAULT_CONSENSUS_CONFIG;
+    this.calendarConfig = dependencies.calendarConfig ?? DEFAULT_TRADING_CALENDAR_CONFIG;
+    this.priceStream = dependencies.priceStream;
+
     if (providers.length === 0) {
       console.warn('[MarketDataService] No providers configured');
     }
@@ -124,12 +182,57 @@ export class MarketDataServiceImpl implements IMarketDataService {
     }
   }
 
+  async getPriceCandles(query: MarketDataQuery): Promise<PriceCandle[]> {
+    try {
+      if (!query.metalSymbol && !query.metalId) {
+        throw new Error('Either metalSymbol or metalId must be provided');
+      }
+
+      let metalId: string | null = query.metalId || null;
+
+      if (!metalId && query.metalSymbol) {
+        metalId = await this.resolveMetalId(query.metalSymbol);
+        if (!metalId) {
+          console.warn(`[MarketDataService] Unknown metal symbol: ${query.metalSymbol}`);
+          return [];
+        }
+      }
+
+      if (!metalId) {
+        throw new Error('Failed to resolve metalId');
+      }
+
+      const interval = query.interval || '1d';
+      const endDate = query.endDate || new Date();
+      const currency = query.currency || 'USD';
+      const limit = query.limit || 100;
+      // Default range: exactly `limit` candles up to endDate
+      const startDate = query.startDate
+        || shiftCandleBucket(getCandleBucketStart(endDate, interval), interval, 1 - limit);
+
+      return await this.repository.getCandles(
+        metalId,
+        interval,
+        startDate,
+        endDate,
+        currency,
+        limit
+      );
+    } catch (error) {
+      console.error('[MarketDataService] Failed to get price candles:', error);
+      throw new Error('Failed to fetch price candles');
+    }
+  }
+
   async updatePricesFromApi(): Promise<PriceUpdateResult> {
     const result: PriceUpdateResult = {
       success: false,
       provider: 'none',
       updatedMetals: [],
       errors: [],
+      skippedProviders: [],
+      quarantinedQuotes: 0,
+      disputedMetals: [],
       timestamp: new Date()
     };
 
@@ -144,31 +247,20 @@ export class MarketDataServiceImpl implements IMarketDataService {
         return result;
       }
 
-      // Try each provider until one succeeds
-      for (const provider of availableProviders) {
-        try {
-          console.log(`[MarketDataService] Fetching prices from ${provider.getName()}`);
-          
-          const prices = await provider.fetchPrices(SUPPORTED_METALS, 'USD');
-          
-          if (prices.length > 0) {
-            await this.savePrices(provider.getName(), prices);
-            
-            result.success = true;
-            result.provider = provider.getName();
-            result.updatedMetals = prices.map(p => p.symbol);
-            
-            console.log(`[MarketDataService] Successfully updated ${prices.length} prices from ${provider.getName()}`);
-            break;
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-          console.warn(`[MarketDataService] Provider ${provider.getName()} failed: ${errorMsg}`);
-          result.errors.push(`${provider.getName()}: ${errorMsg}`);
-        }
+      // Provider records carry the health columns the circuit breaker works on
+      const providerRecords = new Map(
+        (await this.repository.getActiveProviders()).map(p => [p.name, p])
+      );
+
+      if (this.consensusConfig.mode === 'first') {
+        await this.updateFromFirstProvider(availableProviders, providerRecords, result);
+      } else {
+        await this.updateFromConsensus(this.consensusConfig.mode, availableProviders, providerRecords, result);
       }
 
-      if (!result.success) {
+      if (result.success) {
+        await this.evaluatePriceAlerts(result.updatedMetals);
+      } else {
         console.error('[MarketDataService] All providers failed to fetch prices');
       }
 
@@ -180,15 +272,132 @@ export class MarketDataServiceImpl implements IMarketDataService {
     }
   }
 
-  async getProviderStatus(): Promise<MarketDataProvider[]> {
+  async getProviderStatus(): Promise<ProviderStatus[]> {
     try {
-      return await this.repository.getActiveProviders();
+      const [providers, quarantineStats] = await Promise.all([
+        this.repository.getActiveProviders(),
+        this.repository.getQuarantineStats()
+      ]);
+      const statsByProvider = new Map(quarantineStats.map(stats => [stats.providerId, stats]));
+      const now = new Date();
+
+      return providers.map(provider => {
+        const circuit = getCircuitStatus(provider, this.healthConfig, now);
+        const stats = statsByProvider.get(provider.id);
+
+        return {
+          ...provider,
+          circuitState: circuit.state,
+          circuitOpenUntil: circuit.openUntil,
+          rejectedQuoteCount: stats?.rejectedCount ?? 0,
+          lastRejectedAt: stats?.lastRejectedAt
+        };
+      });
     } catch (error) {
       console.error('[MarketDataService] Failed to get provider status:', error);
       throw new Error('Failed to fetch provider status');
     }
   }
 
+  async getMarketStatus(at: Date = new Date()): Promise<MarketStatus> {
+    try {
+      // Holidays are local dates; one extra day covers venues ahead of or behind UTC
+      const today = at.toISOString().slice(0, 10);
+      const calendar = await this.repository.getTradingCalendar(
+        addDays(today, -(SESSION_SEARCH_DAYS + 1)),
+        addDays(today, SESSION_SEARCH_DAYS + 1)
+      );
+
+      return getMarketStatus(calendar, at);
+    } catch (error) {
+      console.error('[MarketDataService] Failed to get market status:', error);
+      throw new Error('Failed to fetch market status');
+    }
+  }
+
+  async getQuoteFreshness(price: MarketPrice, at: Date = new Date()): Promise<QuoteFreshness> {
+    const market = await this.getMarketStatus(at);
+    // Cached prices come back with ISO string timestamps
+    return getQuoteFreshness(new Date(price.timestamp), market, this.calendarConfig, at);
+  }
+
+  async importPriceHistory(
+    content: string,
+    format: PriceFileFormat,
+    options: PriceHistoryImportOptions = {}
+  ): Promise<PriceHistoryImportResult> {
+    const providerName = options.providerName?.trim() || HISTORICAL_IMPORT_PROVIDER_NAME;
+    const provider = await this.repository.getProviderByName(providerName);
+    if (!provider) {
+      throw new PriceHistoryImportError(
+        PriceHistoryImportErrorCode.UNKNOWN_PROVIDER,
+        `Unknown market data provider "${providerName}"`
+      );
+    }
+
+    let parsed: PriceFileParseResult;
+    try {
+      parsed = parsePriceFile(content, format, { symbol: options.symbol, currency: options.currency });
+    } catch (error) {
+      throw new PriceHistoryImportError(
+        PriceHistoryImportErrorCode.INVALID_FILE,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    const errors: PriceFileRowError[] = [...parsed.errors];
+    const metalIds = new Map<string, string | null>();
+    const now = Date.now();
+    let inserted = 0;
+    let skipped = 0;
+
+    for (const { row, quote } of parsed.quotes) {
+      try {
+        if (quote.timestamp.getTime() > now) {
+          throw new Error(`Timestamp ${quote.timestamp.toISOString()} is in the future`);
+        }
+
+        if (!metalIds.has(quote.symbol)) {
+          metalIds.set(quote.symbol, await this.resolveMetalId(quote.symbol));
+        }
+        const metalId = metalIds.get(quote.symbol);
+        if (!metalId) {
+          throw new Error(`Unknown metal symbol: ${quote.symbol}`);
+        }
+
+        const priceData: PriceData = {
+          metalId,
+          providerId: provider.id,
+          price: quote.price,
+          currency: quote.currency,
+          metadata: { bid: quote.bid, ask: quote.ask }
+        };
+
+        if (await this.repository.insertHistoricalPriceIfAbsent(priceData, quote.timestamp)) {
+          await this.repository.upsertCandles(priceData, quote.timestamp);
+          inserted++;
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        errors.push({ row, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    console.log(
+      `[MarketDataService] Imported price history as ${providerName}: ` +
+      `${inserted} inserted, ${skipped} skipped, ${errors.length} failed`
+    );
+
+    return {
+      provider: providerName,
+      inserted,
+      skipped,
+      failed: errors.length,
+      errors: errors.sort((a, b) => a.row - b.row).slice(0, MAX_REPORTED_IMPORT_ERRORS)
+    };
+  }
+
   async cleanupCache(): Promise<number> {
     try {
       const deleted = await this.repository.cleanupCache();
@@ -201,69 +410,355 @@ export class MarketDataServiceImpl implements IMarketDataService {
   }
 
   /**
-   * Private helper: Save fetched prices to database
-   * Follows Single Responsibility Principle
+   * Private helper: Try each provider by priority and store the prices of
+   * the first one that succeeds
    */
-  private async savePrices(
-    providerName: string,
-    prices: ReadonlyArray<{ symbol: string; price: number; currency: string; bid?: number; ask?: number }>
+  private async updateFromFirstProvider(
+    providers: ReadonlyArray<IMarketDataProvider>,
+    providerRecords: ReadonlyMap<string, MarketDataProvider>,
+    result: PriceUpdateResult
   ): Promise<void> {
-    try {
-      // Get provider from database
-      const providers = await this.repository.getActiveProviders();
-      const provider = providers.find(p => p.name === providerName);
-      
-      if (!provider) {
-        throw new Error(`Provider ${providerName} not found in database`);
+    for (const provider of providers) {
+      const providerName = provider.getName();
+      const record = providerRecords.get(providerName);
+      const circuit = this.checkCircuit(providerName, record, result);
+
+      if (!circuit) {
+        continue;
       }
 
-      // Save each price
-      for (const priceData of prices) {
-        const metalId = await this.resolveMetalId(priceData.symbol);
-        
-        if (!metalId) {
-          console.warn(`[MarketDataService] Metal ${priceData.symbol} not found, skipping`);
-          continue;
+      try {
+        if (!record) {
+          throw new Error(`Provider ${providerName} not found in database`);
         }
 
-        const dataToSave: PriceData = {
-          metalId,
-          providerId: provider.id,
-          price: priceData.price,
-          currency: priceData.currency,
-          metadata: {
-            bid: priceData.bid,
-            ask: priceData.ask
+        const prices = await this.fetchFromProvider(provider, circuit);
+        const saved = await this.savePrices(record, prices);
+        result.quarantinedQuotes += saved.quarantined;
+
+        if (saved.updatedMetals.length === 0) {
+          throw new Error(`All ${prices.length} quotes failed the sanity checks`);
+        }
+
+        await this.repository.updateProviderSuccess(record.id, new Date());
+
+        result.success = true;
+        result.provider = providerName;
+        result.updatedMetals = saved.updatedMetals;
+
+        console.log(`[MarketDataService] Successfully updated ${saved.updatedMetals.length} prices from ${providerName}`);
+        break;
+      } catch (error) {
+        await this.handleProviderError(providerName, record, error, result);
+      }
+    }
+  }
+
+  /**
+   * Private helper: Query every available provider and store one consensus
+   * price per metal under the virtual Consensus provider
+   */
+  private async updateFromConsensus(
+    method: ConsensusMethod,
+    providers: ReadonlyArray<IMarketDataProvider>,
+    providerRecords: ReadonlyMap<string, MarketDataProvider>,
+    result: PriceUpdateResult
+  ): Promise<void> {
+    const consensusRecord = providerRecords.get(CONSENSUS_PROVIDER_NAME);
+    if (!consensusRecord) {
+      result.errors.push(`Provider ${CONSENSUS_PROVIDER_NAME} not found in database`);
+      return;
+    }
+
+    const quotesByMetal = new Map<string, { symbol: string; currency: string; metalId: string; quotes: ContributorQuote[] }>();
+
+    for (const provider of providers) {
+      const providerName = provider.getName();
+      const record = providerRecords.get(providerName);
+      const circuit = this.checkCircuit(providerName, record, result);
+
+      if (!circuit) {
+        continue;
+      }
+
+      try {
+        if (!record) {
+          throw new Error(`Provider ${providerName} not found in database`);
+        }
+
+        const prices = await this.fetchFromProvider(provider, circuit);
+        let accepted = 0;
+
+        for (const priceData of prices) {
+          const screened = await this.screenQuote(record, priceData);
+          if (screened.quarantined) {
+            result.quarantinedQuotes++;
+          }
+          if (!screened.metalId) {
+            continue;
           }
-        };
 
-        await this.repository.upsertPrice(dataToSave);
+          const key = `${priceData.symbol}:${priceData.currency}`;
+          const group = quotesByMetal.get(key)
+            ?? { symbol: priceData.symbol, currency: priceData.currency, metalId: screened.metalId, quotes: [] };
+          group.quotes.push({
+            providerId: record.id,
+            providerName,
+            price: priceData.price,
+            weight: this.consensusConfig.providerWeights[providerName] ?? 1,
+            bid: priceData.bid,
+            ask: priceData.ask
+          });
+          quotesByMetal.set(key, group);
+          accepted++;
+        }
 
-        // Also save to history for archiving
-        await this.repository.saveHistoricalPrice(dataToSave, new Date());
+        if (accepted === 0) {
+          throw new Error(`All ${prices.length} quotes failed the sanity checks`);
+        }
 
-        // Invalidate cache
-        const cacheKey = `price:${priceData.symbol}:${priceData.currency}`;
-        await this.repository.setCachedData(cacheKey, null, 0);
+        await this.repository.updateProviderSuccess(record.id, new Date());
+      } catch (error) {
+        await this.handleProviderError(providerName, record, error, result);
       }
+    }
 
-      // Update provider success status
-      await this.repository.updateProviderSuccess(provider.id, new Date());
-    } catch (error) {
-      console.error('[MarketDataService] Failed to save prices:', error);
-      
-      // Update provider failure status
-      const providers = await this.repository.getActiveProviders();
-      const provider = providers.find(p => p.name === providerName);
-      if (provider) {
-        await this.repository.updateProviderFailure(
-          provider.id,
-          error instanceof Error ? error.message : 'Unknown error',
-          new Date()
+    for (const { symbol, currency, metalId, quotes } of quotesByMetal.values()) {
+      const { price, bid, ask, consensus } = computeConsensus(quotes, method, this.consensusConfig.maxSpreadPercent);
+
+      if (consensus.disputed) {
+        console.warn(
+          `[MarketDataService] Disputed ${symbol} consensus: providers differ by ${consensus.spreadPercent}% ` +
+          `(max ${this.consensusConfig.maxSpreadPercent}%)`
         );
+        result.disputedMetals.push(symbol);
       }
-      
-      throw error;
+
+      await this.persistPrice(symbol, {
+        metalId,
+        providerId: consensusRecord.id,
+        price,
+        currency,
+        metadata: { bid, ask },
+        consensus
+      });
+      result.updatedMetals.push(symbol);
+    }
+
+    if (result.updatedMetals.length > 0) {
+      result.success = true;
+      result.provider = CONSENSUS_PROVIDER_NAME;
+      console.log(
+        `[MarketDataService] Successfully updated ${result.updatedMetals.length} ${method} consensus prices`
+      );
+    }
+  }
+
+  /**
+   * Private helper: Circuit state of a provider, or null when it is open
+   * and the provider has to be skipped
+   */
+  private checkCircuit(
+    providerName: string,
+    record: MarketDataProvider | undefined,
+    result: PriceUpdateResult
+  ): CircuitStatus | null {
+    const circuit = record ? getCircuitStatus(record, this.healthConfig) : { state: 'closed' as const };
+
+    if (circuit.state === 'open') {
+      console.warn(
+        `[MarketDataService] Skipping ${providerName}: circuit open until ${circuit.openUntil?.toISOString()}`
+      );
+      result.skippedProviders.push(providerName);
+      return null;
+    }
+
+    return circuit;
+  }
+
+  /**
+   * Private helper: Fetch the supported metals from a provider
+   * @throws when the provider returns nothing
+   */
+  private async fetchFromProvider(provider: IMarketDataProvider, circuit: CircuitStatus): Promise<MetalPrice[]> {
+    const providerName = provider.getName();
+    console.log(
+      `[MarketDataService] Fetching prices from ${providerName}${circuit.state === 'half_open' ? ' (probe)' : ''}`
+    );
+
+    const prices = await provider.fetchPrices(SUPPORTED_METALS, 'USD');
+    if (prices.length === 0) {
+      throw new Error('No prices returned');
+    }
+
+    return prices;
+  }
+
+  /**
+   * Private helper: Record a provider error in the result and its health columns
+   */
+  private async handleProviderError(
+    providerName: string,
+    record: MarketDataProvider | undefined,
+    error: unknown,
+    result: PriceUpdateResult
+  ): Promise<void> {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[MarketDataService] Provider ${providerName} failed: ${errorMsg}`);
+    result.errors.push(`${providerName}: ${errorMsg}`);
+
+    if (record) {
+      await this.recordProviderFailure(record, errorMsg);
+    }
+  }
+
+  /**
+   * Private helper: Save fetched prices to database
+   * Quotes failing the sanity checks are quarantined instead
+   * @returns Symbols of the saved prices and the number of quarantined quotes
+   */
+  private async savePrices(
+    provider: MarketDataProvider,
+    prices: ReadonlyArray<MetalPrice>
+  ): Promise<{ updatedMetals: string[]; quarantined: number }> {
+    const updatedMetals: string[] = [];
+    let quarantined = 0;
+
+    for (const priceData of prices) {
+      const screened = await this.screenQuote(provider, priceData);
+
+      if (screened.quarantined) {
+        quarantined++;
+      }
+      if (!screened.metalId) {
+        continue;
+      }
+
+      await this.persistPrice(priceData.symbol, {
+        metalId: screened.metalId,
+        providerId: provider.id,
+        price: priceData.price,
+        currency: priceData.currency,
+        metadata: {
+          bid: priceData.bid,
+          ask: priceData.ask
+        }
+      });
+
+      updatedMetals.push(priceData.symbol);
+    }
+
+    return { updatedMetals, quarantined };
+  }
+
+  /**
+   * Private helper: Resolve the metal of a quote and run the sanity checks
+   * against the last stored price. Rejected quotes are quarantined.
+   * @returns metalId of an accepted quote, null for unknown metals and rejected quotes
+   */
+  private async screenQuote(
+    provider: MarketDataProvider,
+    priceData: MetalPrice
+  ): Promise<{ metalId: string | null; quarantined: boolean }> {
+    const metalId = await this.resolveMetalId(priceData.symbol);
+
+    if (!metalId) {
+      console.warn(`[MarketDataService] Metal ${priceData.symbol} not found, skipping`);
+      return { metalId: null, quarantined: false };
+    }
+
+    const timestamp = new Date();
+    const lastPrice = await this.repository.getCurrentPrice(metalId, priceData.currency);
+    const sanity = checkQuoteSanity(
+      priceData,
+      lastPrice ? { price: Number(lastPrice.pricePerTroyOz), timestamp: lastPrice.timestamp } : null,
+      this.healthConfig,
+      timestamp
+    );
+
+    if (sanity.accepted) {
+      return { metalId, quarantined: false };
+    }
+
+    console.warn(
+      `[MarketDataService] Quarantined ${priceData.symbol} quote ${priceData.price} from ${provider.name}: ${sanity.reason}`
+    );
+    await this.repository.quarantineQuote({
+      providerId: provider.id,
+      metalId,
+      currency: priceData.currency,
+      price: priceData.price,
+      bid: priceData.bid,
+      ask: priceData.ask,
+      referencePrice: lastPrice ? Number(lastPrice.pricePerTroyOz) : undefined,
+      deviationPercent: sanity.deviationPercent,
+      reason: sanity.reason,
+      quotedAt: timestamp
+    });
+
+    return { metalId: null, quarantined: true };
+  }
+
+  /**
+   * Private helper: Store a current price, archive it to history, roll it
+   * into the OHLC candles and invalidate the cached price
+   */
+  private async persistPrice(symbol: string, dataToSave: PriceData): Promise<void> {
+    const timestamp = new Date();
+
+    await this.repository.upsertPrice(dataToSave);
+    await this.repository.saveHistoricalPrice(dataToSave, timestamp);
+    await this.repository.upsertCandles(dataToSave, timestamp);
+
+    const cacheKey = `price:${symbol}:${dataToSave.currency}`;
+    await this.repository.setCachedData(cacheKey, null, 0);
+
+    await this.publishToStream(dataToSave);
+  }
+
+  /**
+   * Private helper: Push the current price to streaming subscribers
+   * Stream failures are logged and never fail the price update
+   */
+  private async publishToStream(priceData: PriceData): Promise<void> {
+    if (!this.priceStream || this.priceStream.getSubscriberCount() === 0) {
+      return;
+    }
+
+    try {
+      const price = await this.repository.getCurrentPrice(priceData.metalId, priceData.currency);
+      if (price) {
+        await this.priceStream.publishPrice(price);
+      }
+    } catch (error) {
+      console.error('[MarketDataService] Failed to publish price to stream:', error);
+    }
+  }
+
+  /**
+   * Private helper: Count a failed update towards the provider's circuit breaker
+   */
+  private async recordProviderFailure(provider: MarketDataProvider, errorMsg: string): Promise<void> {
+    try {
+      await this.repository.updateProviderFailure(provider.id, errorMsg, new Date());
+    } catch (error) {
+      console.error(`[MarketDataService] Failed to record failure for ${provider.name}:`, error);
+    }
+  }
+
+  /**
+   * Private helper: Check price alerts against the new prices
+   * Alert failures are logged and never fail the price update
+   */
+  private async evaluatePriceAlerts(metalSymbols: readonly string[]): Promise<void> {
+    if (!this.priceAlertService) {
+      return;
+    }
+
+    try {
+      await this.priceAlertService.evaluateAlerts(metalSymbols);
+    } catch (error) {
+      console.error('[MarketDataService] Failed to evaluate price alerts:', error);
     }
   }
 
@@ -0,0 +1,223 @@
+/**
+ * Price Alert Service Implementation
+ *
+ * Prices are stored in USD; alerts in other currencies are checked against
+ * the USD price converted with the latest exchange rates.
+ *
+ * Dependencies:
+ * - PriceAlertRepository for alert persistence
+ * - MarketDataRepository for current prices and daily candles
+ * - FxService for converting prices into the alert currency
+ * - EmailService for notifications
+ */
+
+import type { IPriceAlertService } from '../IPriceAlertService';
+import type { IPriceAlertRepository } from '../repository/IPriceAlertRepository';
+import type { IMarketDataRepository } from '../repository/IMarketDataRepository';
+import type { IEmailService } from '../../email/IEmailService';
+import type { IFxService } from '../../fx/IFxService';
+import type { FxRateTable } from '../../fx/utils/FxRateTable';
+import { SPOT_PRICE_CURRENCY } from '../../pricing/types/PricingTypes';
+import { SUPPORTED_METALS } from '../types/MarketDataTypes';
+import {
+  PriceAlert,
+  PendingPriceAlert,
+  PriceAlertError,
+  PriceAlertErrorCode,
+  PriceAlertEvaluationResult,
+  PriceAlertTrigger,
+  CreatePriceAlertInput,
+  UpdatePriceAlertInput,
+  isPriceAlertCondition
+} from '../types/PriceAlertTypes';
+import { getCandleBucketStart } from '../utils/CandleAggregator';
+import { evaluatePriceAlert } from '../utils/PriceAlertEvaluator';
+import { roundCurrency } from '../../../utils/currency';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+/** price_alert.threshold is NUMERIC(12, 4) */
+const MAX_THRESHOLD = 100_000_000;
+
+export class PriceAlertServiceImpl implements IPriceAlertService {
+  constructor(
+    private readonly alertRepository: IPriceAlertRepository,
+    private readonly marketDataRepository: IMarketDataRepository,
+    private readonly fxService: Pick<IFxService, 'getRateTable'>,
+    private readonly emailService: IEmailService
+  ) {}
+
+  async createAlert(userId: string, input: CreatePriceAlertInput): Promise<PriceAlert> {
+    const metalSymbol = String(input.metalSymbol ?? '').trim().toUpperCase();
+    if (!(SUPPORTED_METALS as readonly string[]).includes(metalSymbol)) {
+      throw new PriceAlertError(PriceAlertErrorCode.UNKNOWN_METAL, `Unknown metal symbol: ${input.metalSymbol}`);
+    }
+
+    const currency = String(input.currency ?? 'USD').trim().toUpperCase();
+    if (!CURRENCY_PATTERN.test(currency)) {
+      throw new PriceAlertError(PriceAlertErrorCode.VALIDATION_ERROR, `Invalid currency: ${input.currency}`);
+    }
+    if (currency !== SPOT_PRICE_CURRENCY && !(await this.fxService.getRateTable()).getCurrencies().includes(currency)) {
+      throw new PriceAlertError(PriceAlertErrorCode.VALIDATION_ERROR, `Unsupported currency: ${currency}`);
+    }
+
+    this.validateCondition(input.condition);
+    this.validateThreshold(input.threshold);
+
+    const alert = await this.alertRepository.create(userId, metalSymbol, currency, input.condition, input.threshold);
+    if (!alert) {
+      throw new PriceAlertError(PriceAlertErrorCode.UNKNOWN_METAL, `Unknown metal symbol: ${metalSymbol}`);
+    }
+    return alert;
+  }
+
+  async listAlerts(userId: string): Promise<PriceAlert[]> {
+    return this.alertRepository.findByUser(userId);
+  }
+
+  async getAlert(id: string, userId: string): Promise<PriceAlert> {
+    const alert = await this.alertRepository.findById(id, userId);
+    if (!alert) {
+      throw new PriceAlertError(PriceAlertErrorCode.NOT_FOUND, `Price alert not found: ${id}`);
+    }
+    return alert;
+  }
+
+  async updateAlert(id: string, userId: string, input: UpdatePriceAlertInput): Promise<PriceAlert> {
+    if (input.condition === undefined && input.threshold === undefined && input.isActive === undefined) {
+      throw new PriceAlertError(PriceAlertErrorCode.VALIDATION_ERROR, 'Nothing to update');
+    }
+    if (input.condition !== undefined) {
+      this.validateCondition(input.condition);
+    }
+    if (input.threshold !== undefined) {
+      this.validateThreshold(input.threshold);
+    }
+    if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+      throw new PriceAlertError(PriceAlertErrorCode.VALIDATION_ERROR, 'isActive must be a boolean');
+    }
+
+    const alert = await this.alertRepository.update(id, userId, {
+      ...input,
+      rearm: input.condition !== undefined || input.threshold !== undefined
+    });
+    if (!alert) {
+      throw new PriceAlertError(PriceAlertErrorCode.NOT_FOUND, `Price alert not found: ${id}`);
+    }
+    return alert;
+  }
+
+  async deleteAlert(id: string, userId: string): Promise<void> {
+    const deleted = await this.alertRepository.delete(id, userId);
+    if (!deleted) {
+      throw new PriceAlertError(PriceAlertErrorCode.NOT_FOUND, `Price alert not found: ${id}`);
+    }
+  }
+
+  async evaluateAlerts(metalSymbols: readonly string[]): Promise<PriceAlertEvaluationResult> {
+    const alerts = await this.alertRepository.findPending(metalSymbols);
+    const result: PriceAlertEvaluationResult = { evaluated: alerts.length, triggered: 0, notified: 0, errors: [] };
+    if (alerts.length === 0) {
+      return result;
+    }
+
+    const now = new Date();
+    const spotPrices = new Map(
+      (await this.marketDataRepository.getAllCurrentPrices(SPOT_PRICE_CURRENCY))
+        .map(price => [price.metalId, Number(price.pricePerTroyOz)])
+    );
+    const dailyOpens = new Map<string, number | null>();
+    let rates: FxRateTable | undefined;
+
+    for (const alert of alerts) {
+      try {
+        const spotPrice = spotPrices.get(alert.metalId);
+        if (!spotPrice) {
+          continue;
+        }
+
+        // Throws FxError when no rate into the alert currency is available
+        if (alert.currency !== SPOT_PRICE_CURRENCY) {
+          rates ??= await this.fxService.getRateTable();
+        }
+        const rate = rates ? rates.getRate(SPOT_PRICE_CURRENCY, alert.currency).rate : 1;
+        const price = roundCurrency(spotPrice * rate);
+
+        const dailyOpen = alert.condition === 'change_percent'
+          ? await this.getDailyOpen(alert.metalId, now, dailyOpens)
+          : null;
+        const check = evaluatePriceAlert(alert, price, dailyOpen === null ? null : dailyOpen * rate);
+        if (!check.triggered) {
+          continue;
+        }
+
+        const trigger: PriceAlertTrigger = { price, changePercent: check.changePercent, triggeredAt: now };
+        // Claim the trigger first so a concurrent evaluation cannot notify twice
+        if (!await this.alertRepository.markTriggered(alert.id, trigger)) {
+          continue;
+        }
+        result.triggered++;
+
+        await this.notify(alert, trigger);
+        result.notified++;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[PriceAlertService] Failed to process alert ${alert.id}: ${errorMsg}`);
+        result.errors.push(`${alert.id}: ${errorMsg}`);
+      }
+    }
+
+    console.log(
+      `[PriceAlertService] Evaluated ${result.evaluated} alert(s), triggered ${result.triggered}, notified ${result.notified}`
+    );
+    return result;
+  }
+
+  private validateCondition(condition: string): void {
+    if (!isPriceAlertCondition(condition)) {
+      throw new PriceAlertError(PriceAlertErrorCode.VALIDATION_ERROR, `Invalid condition: ${condition}`);
+    }
+  }
+
+  private validateThreshold(threshold: number): void {
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold <= 0 || threshold >= MAX_THRESHOLD) {
+      throw new PriceAlertError(PriceAlertErrorCode.VALIDATION_ERROR, `Invalid threshold: ${threshold}`);
+    }
+  }
+
+  /**
+   * Open of today's 1d candle in SPOT_PRICE_CURRENCY, loaded once per metal
+   */
+  private async getDailyOpen(
+    metalId: string,
+    now: Date,
+    dailyOpens: Map<string, number | null>
+  ): Promise<number | null> {
+    if (!dailyOpens.has(metalId)) {
+      const dayStart = getCandleBucketStart(now, '1d');
+      const candles = await this.marketDataRepository.getCandles(
+        metalId, '1d', dayStart, dayStart, SPOT_PRICE_CURRENCY, 1
+      );
+      dailyOpens.set(metalId, candles[0]?.open ?? null);
+    }
+    return dailyOpens.get(metalId) ?? null;
+  }
+
+  private async notify(
+    alert: PendingPriceAlert,
+    trigger: PriceAlertTrigger
+  ): Promise<void> {
+    await this.emailService.sendPriceAlert(
+      alert.email,
+      {
+        metalSymbol: alert.metalSymbol,
+        condition: alert.condition,
+        threshold: alert.threshold,
+        currency: alert.currency,
+        price: trigger.price,
+        changePercent: trigger.changePercent,
+        triggeredAt: trigger.triggeredAt
+      },
+      { firstName: alert.firstName, lastName: alert.lastName }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Price Stream Service Implementation
+ *
+ * Keeps the subscribers of this server instance in memory. Product prices
+ * are recalculated once per market price and shared by all subscribers.
+ *
+ * Dependencies:
+ * - Repository for the current prices sent as snapshot on connect
+ * - ProductPricer (set by the stream endpoint) for the products channel
+ */
+
+import type { IPriceStreamService } from '../IPriceStreamService';
+import type { IMarketDataRepository } from '../repository/IMarketDataRepository';
+import type { MarketPrice } from '../types/MarketDataTypes';
+import { SUPPORTED_CURRENCIES } from '../types/MarketDataTypes';
+import type {
+  PriceStreamEvent,
+  PriceStreamFilter,
+  PriceStreamSnapshot,
+  ProductPriceUpdate,
+  ProductPricer
+} from '../types/PriceStreamTypes';
+import { matchesPriceStreamFilter } from '../utils/PriceStreamFilter';
+
+interface Subscriber {
+  readonly filter: PriceStreamFilter;
+  readonly listener: (event: PriceStreamEvent) => void;
+}
+
+export class PriceStreamServiceImpl implements IPriceStreamService {
+  private readonly subscribers = new Set<Subscriber>();
+  private productPricer?: ProductPricer;
+
+  constructor(private readonly repository: Pick<IMarketDataRepository, 'getAllCurrentPrices'>) {}
+
+  subscribe(filter: PriceStreamFilter, listener: (event: PriceStreamEvent) => void): () => void {
+    const subscriber: Subscriber = { filter, listener };
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  async publishPrice(price: MarketPrice): Promise<void> {
+    const metalSymbol = price.metalSymbol;
+    if (!metalSymbol) {
+      return;
+    }
+
+    const matching = [...this.subscribers].filter(s =>
+      matchesPriceStreamFilter(s.filter, metalSymbol, price.currency)
+    );
+
+    this.deliver(
+      matching.filter(s => s.filter.channels.includes('prices')),
+      { type: 'price', data: price }
+    );
+
+    const productSubscribers = matching.filter(s => s.filter.channels.includes('products'));
+    if (productSubscribers.length === 0) {
+      return;
+    }
+
+    try {
+      const update = await this.priceProducts(price);
+      if (update) {
+        this.deliver(productSubscribers, { type: 'product_prices', data: update });
+      }
+    } catch (error) {
+      console.error(`[PriceStreamService] Failed to recalculate ${metalSymbol} product prices:`, error);
+    }
+  }
+
+  async getSnapshot(filter: PriceStreamFilter): Promise<PriceStreamSnapshot> {
+    const currencies = filter.currencies.length > 0 ? filter.currencies : [...SUPPORTED_CURRENCIES];
+    const prices = (await Promise.all(currencies.map(currency => this.repository.getAllCurrentPrices(currency))))
+      .flat()
+      .filter(price => price.metalSymbol && matchesPriceStreamFilter(filter, price.metalSymbol, price.currency));
+
+    const products: ProductPriceUpdate[] = [];
+    if (filter.channels.includes('products')) {
+      for (const price of prices) {
+        const update = await this.priceProducts(price);
+        if (update) {
+          products.push(update);
+        }
+      }
+    }
+
+    return {
+      prices: filter.channels.includes('prices') ? prices : [],
+      products,
+      timestamp: new Date()
+    };
+  }
+
+  setProductPricer(pricer: ProductPricer): void {
+    this.productPricer = pricer;
+  }
+
+  /**
+   * Private helper: Product prices at a market price, null when none could be priced
+   */
+  private async priceProducts(price: MarketPrice): Promise<ProductPriceUpdate | null> {
+    if (!this.productPricer || !price.metalSymbol) {
+      return null;
+    }
+
+    const prices = await this.productPricer(price.metalSymbol, Number(price.pricePerTroyOz), price.currency);
+    return prices.length > 0 ? { metalSymbol: price.metalSymbol, currency: price.currency, prices } : null;
+  }
+
+  /**
+   * Private helper: A failing subscriber (e.g. closed connection) is dropped
+   */
+  private deliver(subscribers: readonly Subscriber[], event: PriceStreamEvent): void {
+    for (const subscriber of subscribers) {
+      try {
+        subscriber.listener(event);
+      } catch (error) {
+        console.warn('[PriceStreamService] Dropping subscriber after delivery error:', error);
+        this.subscribers.delete(subscriber);
+      }
+    }
+  }
+}
@@ -7,27 +7,38 @@
 
 // Service Interfaces
 export { IMarketDataService } from './IMarketDataService';
+export { IPriceAlertService } from './IPriceAlertService';
+export { IPriceStreamService } from './IPriceStreamService';
 
 // Service Implementations
 export { MarketDataServiceImpl } from './impl/MarketDataServiceImpl';
+export type { MarketDataServiceDependencies } from './impl/MarketDataServiceImpl';
+export { PriceAlertServiceImpl } from './impl/PriceAlertServiceImpl';
+export { PriceStreamServiceImpl } from './impl/PriceStreamServiceImpl';
 
 // Repository Interfaces
 export { IMarketDataRepository } from './repository/IMarketDataRepository';
+export { IPriceAlertRepository } from './repository/IPriceAlertRepository';
 
 // Repository Implementations  
 export { MarketDataRepositoryImpl } from './repository/MarketDataRepositoryImpl';
+export { PriceAlertRepositoryImpl } from './repository/PriceAlertRepositoryImpl';
 export { MarketDataRepositoryMock } from './mock/MarketDataRepositoryMock';
+export { PriceAlertRepositoryMock } from './mock/PriceAlertRepositoryMock';
 
 // Provider Interfaces and Implementations
 export { IMarketDataProvider } from './providers/IMarketDataProvider';
 export { SIXSwissExchangeProvider } from './providers/SIXSwissExchangeProvider';
 export { GoldApiProvider } from './providers/GoldApiProvider';
+export { ReplayProvider } from './providers/ReplayProvider';
 
 // Factory for Service Creation
 export { MarketDataServiceFactory } from './MarketDataServiceFactory';
 
 // Types
 export * from './types/MarketDataTypes';
+export * from './types/PriceAlertTypes';
+export * from './types/PriceStreamTypes';
 
 // Legacy compatibility (deprecated - use MarketDataServiceFactory.create() instead)
 export { MarketDataServiceImpl as MarketDataService } from './impl/MarketDataServiceImpl';
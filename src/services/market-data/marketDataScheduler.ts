@@ -2,40 +2,36 @@
  * Market Data Scheduler
  * Handles automatic price updates from external APIs
  * Uses Dependency Injection for testability
+ *
+ * Prices are polled while a trading venue is in session (see the trading
+ * calendar); in last_close mode one more update captures the closing price
+ * and polling pauses until the next session.
  */
 
 import { CronJob } from 'cron';
 import type { IMarketDataService } from './IMarketDataService';
+import type { TradingCalendarConfig } from './types/MarketDataTypes';
+import { DEFAULT_TRADING_CALENDAR_CONFIG } from './types/MarketDataTypes';
 
 export class MarketDataScheduler {
   private updateJob?: CronJob;
   private cacheCleanupJob?: CronJob;
+  private marketWasOpen = false;
 
-  constructor(private readonly marketDataService: IMarketDataService) {}
+  constructor(
+    private readonly marketDataService: IMarketDataService,
+    private readonly calendarConfig: TradingCalendarConfig = DEFAULT_TRADING_CALENDAR_CONFIG
+  ) {}
 
   /**
    * Initialize scheduled jobs
    */
   initialize(): void {
-    // Update prices every 5 minutes during market hours (weekdays 9am-5pm UTC)
+    // Every 5 minutes; the trading calendar decides whether prices are fetched
     this.updateJob = new CronJob(
-      '*/5 9-17 * * 1-5', // Every 5 minutes, 9am-5pm, Monday-Friday
+      '*/5 * * * *',
       async () => {
-        console.log('[MarketDataScheduler] Running scheduled price update...');
-        try {
-          const result = await this.marketDataService.updatePricesFromApi();
-          if (result.success) {
-            console.log(
-              `[MarketDataScheduler] Price update successful - Provider: ${result.provider}, Metals: ${result.updatedMetals.join(', ')}`
-            );
-          } else {
-            console.error(
-              `[MarketDataScheduler] Price update failed - Errors: ${result.errors.join(', ')}`
-            );
-          }
-        } catch (error) {
-          console.error('[MarketDataScheduler] Price update error:', error);
-        }
+        await this.runScheduledUpdate();
       },
       null, // onComplete
       false, // start immediately
@@ -92,6 +88,49 @@ export class MarketDataScheduler {
     }
   }
 
+  /**
+   * Scheduled tick: update prices while the market is open, capture the
+   * last close once after it closes, otherwise skip
+   */
+  async runScheduledUpdate(now: Date = new Date()): Promise<void> {
+    try {
+      if (this.calendarConfig.closedMarketMode === 'last_close') {
+        const market = await this.marketDataService.getMarketStatus(now);
+        const capturingClose = !market.open && this.marketWasOpen;
+        this.marketWasOpen = market.open;
+
+        if (!market.open && !capturingClose) {
+          return;
+        }
+
+        if (capturingClose) {
+          console.log(
+            `[MarketDataScheduler] Market closed, capturing last close (next open: ${market.nextOpenAt?.toISOString() ?? 'unknown'})`
+          );
+        }
+      }
+    } catch (error) {
+      // Without a calendar keep prices flowing rather than going silent
+      console.error('[MarketDataScheduler] Market status unavailable, updating anyway:', error);
+    }
+
+    console.log('[MarketDataScheduler] Running scheduled price update...');
+    try {
+      const result = await this.marketDataService.updatePricesFromApi();
+      if (result.success) {
+        console.log(
+          `[MarketDataScheduler] Price update successful - Provider: ${result.provider}, Metals: ${result.updatedMetals.join(', ')}`
+        );
+      } else {
+        console.error(
+          `[MarketDataScheduler] Price update failed - Errors: ${result.errors.join(', ')}`
+        );
+      }
+    } catch (error) {
+      console.error('[MarketDataScheduler] Price update error:', error);
+    }
+  }
+
   /**
    * Run price update immediately
    */
@@ -11,13 +11,26 @@ import type {
   MarketPrice,
   PriceHistory,
   MarketDataProvider,
-  PriceData
+  PriceData,
+  PriceCandle,
+  CandleInterval,
+  QuarantinedQuote,
+  ProviderQuarantineStats,
+  TradingCalendar,
+  TradingHoliday,
+  TradingVenue
 } from '../types/MarketDataTypes';
+import { CANDLE_INTERVALS } from '../types/MarketDataTypes';
+import { getCandleBucketStart, mergePriceIntoCandle } from '../utils/CandleAggregator';
 
 export class MarketDataRepositoryMock implements IMarketDataRepository {
   private prices: Map<string, MarketPrice> = new Map();
   private history: PriceHistory[] = [];
+  private candles: Map<string, PriceCandle> = new Map();
+  private quarantine: QuarantinedQuote[] = [];
   private providers: MarketDataProvider[] = [];
+  private tradingVenues: TradingVenue[] = [];
+  private tradingHolidays: TradingHoliday[] = [];
   private cache: Map<string, { data: any; expiresAt: Date }> = new Map();
   private metals: Map<string, string> = new Map([
     ['AU', 'metal-au-id'],
@@ -75,6 +88,7 @@ export class MarketDataRepositoryMock implements IMarketDataRepository {
       ask: priceData.metadata?.ask,
       high24h: priceData.metadata?.high,
       low24h: priceData.metadata?.low,
+      consensus: priceData.consensus,
       timestamp: new Date(),
       createdAt: existingPrice?.createdAt || new Date(),
       updatedAt: new Date()
@@ -87,6 +101,10 @@ export class MarketDataRepositoryMock implements IMarketDataRepository {
     return this.providers.filter(p => p.isActive);
   }
 
+  async getProviderByName(name: string): Promise<MarketDataProvider | null> {
+    return this.providers.find(p => p.name === name) ?? null;
+  }
+
   async updateProviderSuccess(providerId: string, timestamp: Date): Promise<void> {
     const provider = this.providers.find(p => p.id === providerId);
     if (provider) {
@@ -154,6 +172,83 @@ export class MarketDataRepositoryMock implements IMarketDataRepository {
     this.history.push(historyEntry);
   }
 
+  async insertHistoricalPriceIfAbsent(priceData: PriceData, timestamp: Date): Promise<boolean> {
+    const exists = this.history.some(h =>
+      h.metalId === priceData.metalId &&
+      h.providerId === priceData.providerId &&
+      h.timestamp.getTime() === timestamp.getTime()
+    );
+
+    if (!exists) {
+      await this.saveHistoricalPrice(priceData, timestamp);
+    }
+    return !exists;
+  }
+
+  async upsertCandles(priceData: PriceData, timestamp: Date): Promise<void> {
+    const tick = {
+      metalId: priceData.metalId,
+      currency: priceData.currency,
+      price: priceData.price,
+      timestamp
+    };
+
+    for (const interval of CANDLE_INTERVALS) {
+      const bucketStart = getCandleBucketStart(timestamp, interval);
+      const key = `${priceData.metalId}-${priceData.currency}-${interval}-${bucketStart.toISOString()}`;
+      const candle = mergePriceIntoCandle(this.candles.get(key), tick, interval);
+      this.candles.set(key, { ...candle, metalSymbol: this.getSymbolByMetalId(priceData.metalId) });
+    }
+  }
+
+  async getCandles(
+    metalId: string,
+    interval: CandleInterval,
+    startDate: Date,
+    endDate: Date,
+    currency: string,
+    limit: number
+  ): Promise<PriceCandle[]> {
+    return Array.from(this.candles.values())
+      .filter(c =>
+        c.metalId === metalId &&
+        c.interval === interval &&
+        c.currency === currency &&
+        c.bucketStart >= startDate &&
+        c.bucketStart <= endDate
+      )
+      .sort((a, b) => b.bucketStart.getTime() - a.bucketStart.getTime())
+      .slice(0, limit);
+  }
+
+  async quarantineQuote(quote: QuarantinedQuote): Promise<void> {
+    this.quarantine.push(quote);
+  }
+
+  async getQuarantineStats(): Promise<ProviderQuarantineStats[]> {
+    const stats = new Map<string, ProviderQuarantineStats>();
+
+    for (const quote of this.quarantine) {
+      const existing = stats.get(quote.providerId);
+      stats.set(quote.providerId, {
+        providerId: quote.providerId,
+        rejectedCount: (existing?.rejectedCount ?? 0) + 1,
+        lastRejectedAt: existing?.lastRejectedAt && existing.lastRejectedAt > quote.quotedAt
+          ? existing.lastRejectedAt
+          : quote.quotedAt
+      });
+    }
+
+    return Array.from(stats.values());
+  }
+
+  async getTradingCalendar(fromDate: string, toDate: string): Promise<TradingCalendar> {
+    return {
+      venues: [...this.tradingVenues],
+      holidays: this.tradingHolidays.filter(h => h.date >= fromDate && h.date <= toDate)
+    };
+  }
+
   // Helper methods
   private initializeMockData(): void {
     // Initialize mock providers
@@ -229,9 +324,17 @@ export class MarketDataRepositoryMock implements IMarketDataRepository {
   public clearAll(): void {
     this.prices.clear();
     this.history = [];
+    this.candles.clear();
+    this.quarantine = [];
+    this.tradingVenues = [];
+    this.tradingHolidays = [];
     this.cache.clear();
   }
 
+  public getQuarantinedQuotes(): QuarantinedQuote[] {
+    return [...this.quarantine];
+  }
+
   public addMockPrice(price: MarketPrice): void {
     const key = `${price.metalId}-${price.currency}`;
     this.prices.set(key, price);
@@ -240,4 +343,12 @@ export class MarketDataRepositoryMock implements IMarketDataRepository {
   public addMockProvider(provider: MarketDataProvider): void {
     this.providers.push(provider);
   }
+
+  public addMockTradingVenue(venue: TradingVenue): void {
+    this.tradingVenues.push(venue);
+  }
+
+  public addMockTradingHoliday(holiday: TradingHoliday): void {
+    this.tradingHolidays.push(holiday);
+  }
 }
@@ -0,0 +1,142 @@
+/**
+ * Price Alert Repository Mock Implementation
+ *
+ * In-memory mock for testing without database
+ * Metal IDs match MarketDataRepositoryMock
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { IPriceAlertRepository } from '../repository/IPriceAlertRepository';
+import type {
+  PriceAlert,
+  PendingPriceAlert,
+  PriceAlertChanges,
+  PriceAlertCondition,
+  PriceAlertTrigger
+} from '../types/PriceAlertTypes';
+
+interface MockUser {
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export class PriceAlertRepositoryMock implements IPriceAlertRepository {
+  private alerts: Map<string, PriceAlert> = new Map();
+  private users: Map<string, MockUser> = new Map();
+  private metals: Map<string, string> = new Map([
+    ['AU', 'metal-au-id'],
+    ['AG', 'metal-ag-id'],
+    ['PT', 'metal-pt-id'],
+    ['PD', 'metal-pd-id']
+  ]);
+
+  async create(
+    userId: string,
+    metalSymbol: string,
+    currency: string,
+    condition: PriceAlertCondition,
+    threshold: number
+  ): Promise<PriceAlert | null> {
+    const metalId = this.metals.get(metalSymbol);
+    if (!metalId) {
+      return null;
+    }
+
+    const now = new Date();
+    const alert: PriceAlert = {
+      id: uuidv4(),
+      userId,
+      metalId,
+      metalSymbol,
+      currency,
+      condition,
+      threshold,
+      isActive: true,
+      triggeredAt: null,
+      triggeredPrice: null,
+      triggeredChangePercent: null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.alerts.set(alert.id, alert);
+    return alert;
+  }
+
+  async findByUser(userId: string): Promise<PriceAlert[]> {
+    return Array.from(this.alerts.values())
+      .filter(a => a.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findById(id: string, userId: string): Promise<PriceAlert | null> {
+    const alert = this.alerts.get(id);
+    return alert?.userId === userId ? alert : null;
+  }
+
+  async update(id: string, userId: string, changes: PriceAlertChanges): Promise<PriceAlert | null> {
+    const alert = await this.findById(id, userId);
+    if (!alert) {
+      return null;
+    }
+
+    const updated: PriceAlert = {
+      ...alert,
+      condition: changes.condition ?? alert.condition,
+      threshold: changes.threshold ?? alert.threshold,
+      isActive: changes.isActive ?? alert.isActive,
+      triggeredAt: changes.rearm ? null : alert.triggeredAt,
+      triggeredPrice: changes.rearm ? null : alert.triggeredPrice,
+      triggeredChangePercent: changes.rearm ? null : alert.triggeredChangePercent,
+      updatedAt: new Date()
+    };
+
+    this.alerts.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const alert = await this.findById(id, userId);
+    return alert ? this.alerts.delete(id) : false;
+  }
+
+  async findPending(metalSymbols: readonly string[]): Promise<PendingPriceAlert[]> {
+    const pending: PendingPriceAlert[] = [];
+
+    for (const alert of this.alerts.values()) {
+      const user = this.users.get(alert.userId);
+      if (user && alert.isActive && !alert.triggeredAt && metalSymbols.includes(alert.metalSymbol)) {
+        pending.push({ ...alert, ...user });
+      }
+    }
+
+    return pending;
+  }
+
+  async markTriggered(id: string, trigger: PriceAlertTrigger): Promise<boolean> {
+    const alert = this.alerts.get(id);
+    if (!alert || alert.triggeredAt) {
+      return false;
+    }
+
+    this.alerts.set(id, {
+      ...alert,
+      triggeredAt: trigger.triggeredAt,
+      triggeredPrice: trigger.price,
+      triggeredChangePercent: trigger.changePercent,
+      updatedAt: new Date()
+    });
+    return true;
+  }
+
+  // Public methods for test manipulation
+  public clearAll(): void {
+    this.alerts.clear();
+    this.users.clear();
+  }
+
+  public addMockUser(userId: string, email: string, firstName = 'Test', lastName = 'User'): void {
+    this.users.set(userId, { email, firstName, lastName });
+  }
+}
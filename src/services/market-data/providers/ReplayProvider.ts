@@ -0,0 +1,205 @@
+/**
+ * Replay Provider
+ *
+ * Offline market data for integration tests, demos and load tests, so the
+ * full pricing pipeline runs without external services:
+ * - file: replays recorded quotes from a CSV or JSON price file (see PriceFileParser)
+ *   at a configurable speed, optionally looping
+ * - random_walk: synthetic prices moving randomly from configured start prices
+ *
+ * Quotes are stamped with the fetch time, as the pipeline treats them as live.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { IMarketDataProvider } from './IMarketDataProvider';
+import type { MetalPrice, ReplayConfig } from '../types/MarketDataTypes';
+import { DEFAULT_REPLAY_CONFIG } from '../types/MarketDataTypes';
+import { getPriceFileFormat, parsePriceFile } from '../utils/PriceFileParser';
+
+export const REPLAY_PROVIDER_NAME = 'Replay';
+
+/** Difference between synthetic ask and bid, in percent of the price */
+const RANDOM_WALK_SPREAD_PERCENT = 0.1;
+
+export class ReplayProvider implements IMarketDataProvider {
+  private readonly priority = 3;
+  private readonly random: () => number;
+  private recording?: Promise<MetalPrice[]>;
+  private startedAt?: number;
+  private step = 0;
+  private readonly walkPrices = new Map<string, number>();
+
+  constructor(
+    private readonly config: ReplayConfig = DEFAULT_REPLAY_CONFIG,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.random = config.seed === undefined ? Math.random : createSeededRandom(config.seed);
+  }
+
+  getName(): string {
+    return REPLAY_PROVIDER_NAME;
+  }
+
+  getPriority(): number {
+    return this.priority;
+  }
+
+  isAvailable(): boolean {
+    return this.config.mode === 'random_walk' || (this.config.mode === 'file' && !!this.config.filePath);
+  }
+
+  async fetchPrices(metalSymbols: readonly string[], currency = 'USD'): Promise<MetalPrice[]> {
+    if (this.config.mode === 'file') {
+      return this.fetchRecordedPrices(metalSymbols, currency);
+    }
+    if (this.config.mode === 'random_walk') {
+      return this.fetchRandomWalkPrices(metalSymbols, currency);
+    }
+    throw new Error('Replay provider is disabled (MARKET_DATA_REPLAY_MODE=off)');
+  }
+
+  /**
+   * Private helper: Latest recorded quote per metal at the current replay time
+   */
+  private async fetchRecordedPrices(metalSymbols: readonly string[], currency: string): Promise<MetalPrice[]> {
+    const quotes = await this.loadRecording();
+    const replayTime = this.nextReplayTime(quotes);
+    const timestamp = this.now();
+    const prices: MetalPrice[] = [];
+
+    for (const symbol of metalSymbols) {
+      const quote = quotes
+        .filter(q => q.symbol === symbol && q.currency === currency && q.timestamp.getTime() <= replayTime)
+        .pop();
+      if (quote) {
+        prices.push({ ...quote, timestamp });
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Private helper: Recorded time to replay. The clock starts with the first
+   * fetch; with speed 0 every fetch advances to the next recorded timestamp.
+   */
+  private nextReplayTime(quotes: readonly MetalPrice[]): number {
+    const times = [...new Set(quotes.map(q => q.timestamp.getTime()))];
+    const first = times[0];
+    const last = times[times.length - 1];
+
+    if (this.config.speed === 0) {
+      const index = this.config.loop ? this.step % times.length : Math.min(this.step, times.length - 1);
+      this.step++;
+      return times[index];
+    }
+
+    const now = this.now().getTime();
+    this.startedAt ??= now;
+    const elapsed = (now - this.startedAt) * this.config.speed;
+
+    if (this.config.loop && times.length > 1) {
+      // The last quote is held for the interval before it, then the replay restarts
+      const period = last - first + (last - times[times.length - 2]);
+      return first + (elapsed % period);
+    }
+    return Math.min(first + elapsed, last);
+  }
+
+  /**
+   * Private helper: Read the price file once; invalid rows are skipped
+   * @throws when the file has no valid quote
+   */
+  private loadRecording(): Promise<MetalPrice[]> {
+    this.recording ??= (async () => {
+      const filePath = this.config.filePath;
+      if (!filePath) {
+        throw new Error('MARKET_DATA_REPLAY_FILE not configured');
+      }
+
+      const { quotes, errors } = parsePriceFile(await readFile(filePath, 'utf-8'), getPriceFileFormat(filePath));
+      if (errors.length > 0) {
+        console.warn(
+          `[ReplayProvider] Skipped ${errors.length} invalid row(s) in ${filePath}, first: row ${errors[0].row}: ${errors[0].error}`
+        );
+      }
+      if (quotes.length === 0) {
+        throw new Error(`No valid quotes in ${filePath}`);
+      }
+
+      console.log(`[ReplayProvider] Loaded ${quotes.length} quotes from ${filePath}`);
+      return quotes.map(entry => entry.quote);
+    })();
+
+    // Retry the next fetch after a failed load (e.g. file not written yet)
+    this.recording.catch(() => {
+      this.recording = undefined;
+    });
+
+    return this.recording;
+  }
+
+  /**
+   * Private helper: Move every requested price one random step (log-normal,
+   * so prices stay positive); the first fetch returns the start prices
+   */
+  private fetchRandomWalkPrices(metalSymbols: readonly string[], currency: string): MetalPrice[] {
+    const timestamp = this.now();
+    const prices: MetalPrice[] = [];
+
+    for (const symbol of metalSymbols) {
+      const key = `${symbol}/${currency}`;
+      const previous = this.walkPrices.get(key);
+      const start = this.config.startPrices[symbol];
+
+      if (previous === undefined && start === undefined) {
+        console.warn(`[ReplayProvider] No random walk start price for ${symbol}`);
+        continue;
+      }
+
+      const price = previous === undefined
+        ? start
+        : round(previous * Math.exp((this.config.volatilityPercent / 100) * this.nextGaussian()));
+      this.walkPrices.set(key, price);
+
+      const halfSpread = price * RANDOM_WALK_SPREAD_PERCENT / 200;
+      prices.push({
+        symbol,
+        price,
+        currency,
+        bid: round(price - halfSpread),
+        ask: round(price + halfSpread),
+        timestamp
+      });
+    }
+
+    return prices;
+  }
+
+  /**
+   * Private helper: Standard normal sample (Box-Muller)
+   */
+  private nextGaussian(): number {
+    const u = 1 - this.random();
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+/**
+ * Deterministic uniform [0, 1) generator (mulberry32)
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -15,7 +15,12 @@ import type {
   MarketPrice,
   PriceHistory,
   MarketDataProvider,
-  PriceData
+  PriceData,
+  PriceCandle,
+  CandleInterval,
+  QuarantinedQuote,
+  ProviderQuarantineStats,
+  TradingCalendar
 } from '../types/MarketDataTypes';
 
 export interface IMarketDataRepository {
@@ -50,6 +55,11 @@ export interface IMarketDataRepository {
    */
   getActiveProviders(): Promise<MarketDataProvider[]>;
 
+  /**
+   * Get a provider by name, active or not
+   */
+  getProviderByName(name: string): Promise<MarketDataProvider | null>;
+
   /**
    * Update provider success status
    */
@@ -80,4 +90,43 @@ export interface IMarketDataRepository {
    * Save historical price (for archiving)
    */
   saveHistoricalPrice(priceData: PriceData, timestamp: Date): Promise<void>;
+
+  /**
+   * Save an imported historical price unless the metal already has one from
+   * the provider at that timestamp
+   * @returns Whether the price was inserted
+   */
+  insertHistoricalPriceIfAbsent(priceData: PriceData, timestamp: Date): Promise<boolean>;
+
+  /**
+   * Merge a saved price into its 1h/1d/1w/1M candles
+   */
+  upsertCandles(priceData: PriceData, timestamp: Date): Promise<void>;
+
+  /**
+   * Get candles whose bucket starts within the range, newest first
+   */
+  getCandles(
+    metalId: string,
+    interval: CandleInterval,
+    startDate: Date,
+    endDate: Date,
+    currency: string,
+    limit: number
+  ): Promise<PriceCandle[]>;
+
+  /**
+   * Store a quote rejected by the sanity checks
+   */
+  quarantineQuote(quote: QuarantinedQuote): Promise<void>;
+
+  /**
+   * Get rejected-quote counts per provider
+   */
+  getQuarantineStats(): Promise<ProviderQuarantineStats[]>;
+
+  /**
+   * Get active trading venues and their holidays between two local dates ('YYYY-MM-DD')
+   */
+  getTradingCalendar(fromDate: string, toDate: string): Promise<TradingCalendar>;
 }
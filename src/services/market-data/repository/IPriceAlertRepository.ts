@@ -0,0 +1,61 @@
+/**
+ * Price Alert Repository Interface
+ *
+ * Data access for user price alerts. All user-facing operations are scoped
+ * to the owning user; a foreign alert behaves like a missing one.
+ */
+
+import type {
+  PriceAlert,
+  PendingPriceAlert,
+  PriceAlertChanges,
+  PriceAlertCondition,
+  PriceAlertTrigger
+} from '../types/PriceAlertTypes';
+
+export interface IPriceAlertRepository {
+  /**
+   * Create an alert
+   * @returns The alert, or null if the metal symbol is unknown
+   */
+  create(
+    userId: string,
+    metalSymbol: string,
+    currency: string,
+    condition: PriceAlertCondition,
+    threshold: number
+  ): Promise<PriceAlert | null>;
+
+  /**
+   * Get all alerts of a user, newest first
+   */
+  findByUser(userId: string): Promise<PriceAlert[]>;
+
+  /**
+   * Get one alert of a user
+   */
+  findById(id: string, userId: string): Promise<PriceAlert | null>;
+
+  /**
+   * Apply changes to an alert of a user
+   * @returns The updated alert, or null if not found
+   */
+  update(id: string, userId: string, changes: PriceAlertChanges): Promise<PriceAlert | null>;
+
+  /**
+   * Delete an alert of a user
+   * @returns True if an alert was deleted
+   */
+  delete(id: string, userId: string): Promise<boolean>;
+
+  /**
+   * Get active alerts that have not fired yet for the given metals
+   */
+  findPending(metalSymbols: readonly string[]): Promise<PendingPriceAlert[]>;
+
+  /**
+   * Record the trigger of an alert that has not fired yet
+   * @returns False if the alert already fired (or no longer exists)
+   */
+  markTriggered(id: string, trigger: PriceAlertTrigger): Promise<boolean>;
+}
@@ -14,7 +14,13 @@ import type {
   MarketPrice,
   PriceHistory,
   MarketDataProvider,
-  PriceData
+  PriceData,
+  PriceCandle,
+  CandleInterval,
+  QuarantinedQuote,
+  ProviderQuarantineStats,
+  ConsensusContributor,
+  TradingCalendar
 } from '../types/MarketDataTypes';
 
 export class MarketDataRepositoryImpl implements IMarketDataRepository {
@@ -36,6 +42,10 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
       low_24h?: number;
       change_24h?: number;
       change_percent_24h?: number;
+      consensus_method?: string;
+      contributors?: ConsensusContributor[];
+      spread_percent?: string;
+      is_disputed: boolean;
       timestamp: Date;
     }>(
       `SELECT 
@@ -53,6 +63,10 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
         mp.low_24h,
         mp.change_24h,
         mp.change_percent_24h,
+        mp.consensus_method,
+        mp.contributors,
+        mp.spread_percent,
+        mp.is_disputed,
         mp.timestamp
       FROM market_price mp
       JOIN metal m ON mp.metal_id = m.id
@@ -84,6 +98,10 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
       currency: string;
       bid?: number;
       ask?: number;
+      consensus_method?: string;
+      contributors?: ConsensusContributor[];
+      spread_percent?: string;
+      is_disputed: boolean;
       timestamp: Date;
     }>(
       `SELECT DISTINCT ON (m.symbol)
@@ -97,6 +115,10 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
         mp.currency,
         mp.bid,
         mp.ask,
+        mp.consensus_method,
+        mp.contributors,
+        mp.spread_percent,
+        mp.is_disputed,
         mp.timestamp
       FROM market_price mp
       JOIN metal m ON mp.metal_id = m.id
@@ -165,9 +187,10 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
     await this.pool.query(
       `INSERT INTO market_price (
         metal_id, provider_id, price_per_troy_oz, currency, 
-        bid, ask, high_24h, low_24h, timestamp
+        bid, ask, high_24h, low_24h,
+        consensus_method, contributors, spread_percent, is_disputed, timestamp
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
       ON CONFLICT (metal_id, provider_id) 
       DO UPDATE SET
         price_per_troy_oz = EXCLUDED.price_per_troy_oz,
@@ -176,6 +199,10 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
         ask = EXCLUDED.ask,
         high_24h = EXCLUDED.high_24h,
         low_24h = EXCLUDED.low_24h,
+        consensus_method = EXCLUDED.consensus_method,
+        contributors = EXCLUDED.contributors,
+        spread_percent = EXCLUDED.spread_percent,
+        is_disputed = EXCLUDED.is_disputed,
         timestamp = EXCLUDED.timestamp,
         updatedat = NOW()`,
       [
@@ -186,7 +213,11 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
         priceData.metadata?.bid,
         priceData.metadata?.ask,
         priceData.metadata?.high,
-        priceData.metadata?.low
+        priceData.metadata?.low,
+        priceData.consensus?.method ?? null,
+        priceData.consensus ? JSON.stringify(priceData.consensus.contributors) : null,
+        priceData.consensus?.spreadPercent ?? null,
+        priceData.consensus?.disputed ?? false
       ]
     );
   }
@@ -218,6 +249,20 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
     return result.rows.map(row => this.mapToMarketDataProvider(row));
   }
 
+  async getProviderByName(name: string): Promise<MarketDataProvider | null> {
+    const result = await this.pool.query(
+      `SELECT 
+        id, name, api_key_env_var, base_url, is_active,
+        rate_limit_per_minute, priority, last_success, last_failure,
+        failure_count, createdat, updatedat
+      FROM market_data_provider
+      WHERE name = $1`,
+      [name]
+    );
+
+    return result.rows.length > 0 ? this.mapToMarketDataProvider(result.rows[0]) : null;
+  }
+
   async updateProviderSuccess(providerId: string, timestamp: Date): Promise<void> {
     await this.pool.query(
       `UPDATE market_data_provider
@@ -282,6 +327,189 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
     );
   }
 
+  async insertHistoricalPriceIfAbsent(priceData: PriceData, timestamp: Date): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO price_history (
+        metal_id, provider_id, price_per_troy_oz, currency,
+        bid, ask, high, low, timestamp
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (metal_id, provider_id, timestamp) DO NOTHING
+      RETURNING id`,
+      [
+        priceData.metalId,
+        priceData.providerId,
+        priceData.price,
+        priceData.currency,
+        priceData.metadata?.bid,
+        priceData.metadata?.ask,
+        priceData.metadata?.high,
+        priceData.metadata?.low,
+        timestamp
+      ]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async upsertCandles(priceData: PriceData, timestamp: Date): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO price_candle (
+        metal_id, currency, candle_interval, bucket_start,
+        open, high, low, close, tick_count, first_tick_at, last_tick_at
+      )
+      SELECT $1, $2, i.candle_interval, DATE_TRUNC(i.unit, $4::timestamp),
+        $3, $3, $3, $3, 1, $4, $4
+      FROM (VALUES ('1h', 'hour'), ('1d', 'day'), ('1w', 'week'), ('1M', 'month')) AS i(candle_interval, unit)
+      ON CONFLICT (metal_id, currency, candle_interval, bucket_start)
+      DO UPDATE SET
+        open = CASE WHEN EXCLUDED.first_tick_at < price_candle.first_tick_at
+          THEN EXCLUDED.open ELSE price_candle.open END,
+        high = GREATEST(price_candle.high, EXCLUDED.high),
+        low = LEAST(price_candle.low, EXCLUDED.low),
+        close = CASE WHEN EXCLUDED.last_tick_at >= price_candle.last_tick_at
+          THEN EXCLUDED.close ELSE price_candle.close END,
+        tick_count = price_candle.tick_count + 1,
+        first_tick_at = LEAST(price_candle.first_tick_at, EXCLUDED.first_tick_at),
+        last_tick_at = GREATEST(price_candle.last_tick_at, EXCLUDED.last_tick_at),
+        updatedat = NOW()`,
+      [priceData.metalId, priceData.currency, priceData.price, timestamp]
+    );
+  }
+
+  async getCandles(
+    metalId: string,
+    interval: CandleInterval,
+    startDate: Date,
+    endDate: Date,
+    currency: string,
+    limit: number
+  ): Promise<PriceCandle[]> {
+    const result = await this.pool.query(
+      `SELECT
+        pc.metal_id,
+        m.symbol as metal_symbol,
+        pc.currency,
+        pc.candle_interval,
+        pc.bucket_start,
+        pc.open,
+        pc.high,
+        pc.low,
+        pc.close,
+        pc.tick_count,
+        pc.first_tick_at,
+        pc.last_tick_at
+      FROM price_candle pc
+      JOIN metal m ON pc.metal_id = m.id
+      WHERE pc.metal_id = $1
+        AND pc.candle_interval = $2
+        AND pc.bucket_start >= $3
+        AND pc.bucket_start <= $4
+        AND pc.currency = $5
+      ORDER BY pc.bucket_start DESC
+      LIMIT $6`,
+      [metalId, interval, startDate, endDate, currency, limit]
+    );
+
+    return result.rows.map(row => this.mapToPriceCandle(row));
+  }
+
+  async quarantineQuote(quote: QuarantinedQuote): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO market_price_quarantine (
+        provider_id, metal_id, currency, price_per_troy_oz, bid, ask,
+        reference_price, deviation_percent, reason, quoted_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        quote.providerId,
+        quote.metalId,
+        quote.currency,
+        Number.isFinite(quote.price) ? quote.price : null,
+        quote.bid,
+        quote.ask,
+        quote.referencePrice,
+        quote.deviationPercent,
+        quote.reason,
+        quote.quotedAt
+      ]
+    );
+  }
+
+  async getQuarantineStats(): Promise<ProviderQuarantineStats[]> {
+    const result = await this.pool.query<{
+      provider_id: string;
+      rejected_count: string;
+      last_rejected_at: Date;
+    }>(
+      `SELECT provider_id, COUNT(*) AS rejected_count, MAX(quoted_at) AS last_rejected_at
+      FROM market_price_quarantine
+      GROUP BY provider_id`
+    );
+
+    return result.rows.map(row => ({
+      providerId: row.provider_id,
+      rejectedCount: Number.parseInt(row.rejected_count, 10),
+      lastRejectedAt: row.last_rejected_at
+    }));
+  }
+
+  async getTradingCalendar(fromDate: string, toDate: string): Promise<TradingCalendar> {
+    const venues = await this.pool.query<{
+      id: string;
+      code: string;
+      name: string;
+      time_zone: string;
+      open_time: string;
+      close_time: string;
+      trading_days: number[];
+    }>(
+      `SELECT id, code, name, time_zone,
+        TO_CHAR(open_time, 'HH24:MI') AS open_time,
+        TO_CHAR(close_time, 'HH24:MI') AS close_time,
+        trading_days
+      FROM trading_venue
+      WHERE is_active = true
+      ORDER BY code`
+    );
+
+    const holidays = await this.pool.query<{
+      venue_code: string;
+      holiday_date: string;
+      name: string;
+      early_close_time: string | null;
+    }>(
+      `SELECT v.code AS venue_code,
+        TO_CHAR(h.holiday_date, 'YYYY-MM-DD') AS holiday_date,
+        h.name,
+        TO_CHAR(h.early_close_time, 'HH24:MI') AS early_close_time
+      FROM trading_holiday h
+      JOIN trading_venue v ON h.venue_id = v.id
+      WHERE v.is_active = true
+        AND h.holiday_date BETWEEN $1::DATE AND $2::DATE
+      ORDER BY h.holiday_date, v.code`,
+      [fromDate, toDate]
+    );
+
+    return {
+      venues: venues.rows.map(row => ({
+        id: row.id,
+        code: row.code,
+        name: row.name,
+        timeZone: row.time_zone,
+        openTime: row.open_time,
+        closeTime: row.close_time,
+        tradingDays: row.trading_days
+      })),
+      holidays: holidays.rows.map(row => ({
+        venueCode: row.venue_code,
+        date: row.holiday_date,
+        name: row.name,
+        earlyCloseTime: row.early_close_time ?? undefined
+      }))
+    };
+  }
+
   // Private mapping methods (DRY principle)
   private mapToMarketPrice(row: any): MarketPrice {
     return {
@@ -299,6 +527,14 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
       low24h: row.low_24h,
       change24h: row.change_24h,
       changePercent24h: row.change_percent_24h,
+      consensus: row.consensus_method
+        ? {
+          method: row.consensus_method,
+          spreadPercent: Number.parseFloat(row.spread_percent),
+          disputed: row.is_disputed,
+          contributors: row.contributors ?? []
+        }
+        : undefined,
       timestamp: row.timestamp,
       createdAt: row.createdat,
       updatedAt: row.updatedat
@@ -341,4 +577,21 @@ export class MarketDataRepositoryImpl implements IMarketDataRepository {
       updatedAt: row.updatedat
     };
   }
+
+  private mapToPriceCandle(row: Record<string, unknown>): PriceCandle {
+    return {
+      metalId: row.metal_id as string,
+      metalSymbol: row.metal_symbol as string,
+      currency: row.currency as string,
+      interval: row.candle_interval as CandleInterval,
+      bucketStart: row.bucket_start as Date,
+      open: Number.parseFloat(row.open as string),
+      high: Number.parseFloat(row.high as string),
+      low: Number.parseFloat(row.low as string),
+      close: Number.parseFloat(row.close as string),
+      tickCount: row.tick_count as number,
+      firstTickAt: row.first_tick_at as Date,
+      lastTickAt: row.last_tick_at as Date
+    };
+  }
 }
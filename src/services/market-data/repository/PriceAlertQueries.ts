@@ -0,0 +1,112 @@
+/**
+ * Price Alert SQL Queries
+ *
+ * Centralized SQL query definitions for user price alerts
+ */
+
+const SELECT_ALERT = `
+  SELECT
+    pa.id,
+    pa.user_id,
+    pa.metal_id,
+    m.symbol AS metal_symbol,
+    pa.currency,
+    pa.alert_condition,
+    pa.threshold,
+    pa.is_active,
+    pa.triggered_at,
+    pa.triggered_price,
+    pa.triggered_change_percent,
+    pa.createdat,
+    pa.updatedat
+  FROM price_alert pa
+  JOIN metal m ON m.id = pa.metal_id
+`;
+
+/**
+ * $1 user, $2 metal symbol, $3 currency, $4 condition, $5 threshold
+ */
+export const INSERT_ALERT = `
+  INSERT INTO price_alert (user_id, metal_id, currency, alert_condition, threshold)
+  SELECT $1, m.id, $3, $4, $5
+  FROM metal m
+  WHERE m.symbol = $2
+  RETURNING id
+`;
+
+export const GET_ALERTS_BY_USER = `
+  ${SELECT_ALERT}
+  WHERE pa.user_id = $1
+  ORDER BY pa.createdat DESC
+`;
+
+export const GET_ALERT_BY_ID = `
+  ${SELECT_ALERT}
+  WHERE pa.id = $1 AND pa.user_id = $2
+`;
+
+/**
+ * NULL leaves a field unchanged; $6 = true clears a recorded trigger
+ */
+export const UPDATE_ALERT = `
+  UPDATE price_alert
+  SET
+    alert_condition = COALESCE($3, alert_condition),
+    threshold = COALESCE($4, threshold),
+    is_active = COALESCE($5, is_active),
+    triggered_at = CASE WHEN $6 THEN NULL ELSE triggered_at END,
+    triggered_price = CASE WHEN $6 THEN NULL ELSE triggered_price END,
+    triggered_change_percent = CASE WHEN $6 THEN NULL ELSE triggered_change_percent END,
+    updatedat = NOW()
+  WHERE id = $1 AND user_id = $2
+  RETURNING id
+`;
+
+export const DELETE_ALERT = `
+  DELETE FROM price_alert
+  WHERE id = $1 AND user_id = $2
+`;
+
+/**
+ * Armed alerts for metal symbols $1 with the owner's contact details
+ */
+export const GET_PENDING_ALERTS = `
+  SELECT
+    pa.id,
+    pa.user_id,
+    pa.metal_id,
+    m.symbol AS metal_symbol,
+    pa.currency,
+    pa.alert_condition,
+    pa.threshold,
+    pa.is_active,
+    pa.triggered_at,
+    pa.triggered_price,
+    pa.triggered_change_percent,
+    pa.createdat,
+    pa.updatedat,
+    u.email,
+    COALESCE(up.first_name, '') AS first_name,
+    COALESCE(up.last_name, '') AS last_name
+  FROM price_alert pa
+  JOIN metal m ON m.id = pa.metal_id
+  JOIN users u ON u.id = pa.user_id
+  LEFT JOIN user_profiles up ON up.user_id = pa.user_id
+  WHERE pa.is_active = TRUE
+    AND pa.triggered_at IS NULL
+    AND m.symbol = ANY($1::text[])
+  ORDER BY pa.createdat ASC
+`;
+
+/**
+ * Only the first evaluation that sees the alert armed records the trigger
+ */
+export const MARK_ALERT_TRIGGERED = `
+  UPDATE price_alert
+  SET
+    triggered_at = $2,
+    triggered_price = $3,
+    triggered_change_percent = $4,
+    updatedat = NOW()
+  WHERE id = $1 AND triggered_at IS NULL
+`;
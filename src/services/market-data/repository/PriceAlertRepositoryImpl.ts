@@ -0,0 +1,88 @@
+/**
+ * Price Alert Repository Implementation
+ * PostgreSQL implementation of IPriceAlertRepository
+ */
+
+import { Pool } from 'pg';
+import type { IPriceAlertRepository } from './IPriceAlertRepository';
+import {
+  PriceAlert,
+  PendingPriceAlert,
+  PriceAlertChanges,
+  PriceAlertCondition,
+  PriceAlertTrigger,
+  mapRowToPriceAlert
+} from '../types/PriceAlertTypes';
+import * as queries from './PriceAlertQueries';
+
+export class PriceAlertRepositoryImpl implements IPriceAlertRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async create(
+    userId: string,
+    metalSymbol: string,
+    currency: string,
+    condition: PriceAlertCondition,
+    threshold: number
+  ): Promise<PriceAlert | null> {
+    const result = await this.pool.query(queries.INSERT_ALERT, [userId, metalSymbol, currency, condition, threshold]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.findById(result.rows[0].id, userId);
+  }
+
+  async findByUser(userId: string): Promise<PriceAlert[]> {
+    const result = await this.pool.query(queries.GET_ALERTS_BY_USER, [userId]);
+    return result.rows.map(mapRowToPriceAlert);
+  }
+
+  async findById(id: string, userId: string): Promise<PriceAlert | null> {
+    const result = await this.pool.query(queries.GET_ALERT_BY_ID, [id, userId]);
+    return result.rows.length > 0 ? mapRowToPriceAlert(result.rows[0]) : null;
+  }
+
+  async update(id: string, userId: string, changes: PriceAlertChanges): Promise<PriceAlert | null> {
+    const result = await this.pool.query(queries.UPDATE_ALERT, [
+      id,
+      userId,
+      changes.condition ?? null,
+      changes.threshold ?? null,
+      changes.isActive ?? null,
+      changes.rearm
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.findById(id, userId);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.pool.query(queries.DELETE_ALERT, [id, userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findPending(metalSymbols: readonly string[]): Promise<PendingPriceAlert[]> {
+    if (metalSymbols.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(queries.GET_PENDING_ALERTS, [[...metalSymbols]]);
+    return result.rows.map(row => ({
+      ...mapRowToPriceAlert(row),
+      email: row.email,
+      firstName: row.first_name,
+      lastName: row.last_name
+    }));
+  }
+
+  async markTriggered(id: string, trigger: PriceAlertTrigger): Promise<boolean> {
+    const result = await this.pool.query(queries.MARK_ALERT_TRIGGERED, [
+      id,
+      trigger.triggeredAt,
+      trigger.price,
+      trigger.changePercent
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
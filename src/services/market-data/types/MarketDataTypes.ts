@@ -25,6 +25,117 @@ export interface MarketDataProvider {
   readonly updatedBy?: string;
 }
 
+/**
+ * Circuit breaker state of a provider
+ * - closed: provider is used normally
+ * - open: skipped after repeated failures until the cooldown has passed
+ * - half_open: cooldown passed; the next update probes the provider again
+ */
+export const CIRCUIT_STATES = ['closed', 'open', 'half_open'] as const;
+export type CircuitState = typeof CIRCUIT_STATES[number];
+
+/**
+ * Provider with breaker state and quarantine statistics
+ */
+export interface ProviderStatus extends MarketDataProvider {
+  readonly circuitState: CircuitState;
+  /** Earliest time an open circuit lets the provider be probed again */
+  readonly circuitOpenUntil?: Date;
+  readonly rejectedQuoteCount: number;
+  readonly lastRejectedAt?: Date;
+}
+
+/**
+ * Why a fetched quote failed the sanity checks
+ */
+export const QUOTE_REJECTION_REASONS = ['invalid_price', 'bid_above_ask', 'price_deviation'] as const;
+export type QuoteRejectionReason = typeof QUOTE_REJECTION_REASONS[number];
+
+/**
+ * Quote kept out of market_price/price_history by the sanity checks
+ */
+export interface QuarantinedQuote {
+  readonly providerId: string;
+  readonly metalId: string;
+  readonly currency: string;
+  readonly price: number;
+  readonly bid?: number;
+  readonly ask?: number;
+  /** Last stored price the quote was compared with */
+  readonly referencePrice?: number;
+  readonly deviationPercent?: number;
+  readonly reason: QuoteRejectionReason;
+  readonly quotedAt: Date;
+}
+
+export interface ProviderQuarantineStats {
+  readonly providerId: string;
+  readonly rejectedCount: number;
+  readonly lastRejectedAt?: Date;
+}
+
+export interface ProviderHealthConfig {
+  /** Consecutive failures that open the circuit */
+  readonly failureThreshold: number;
+  /** Minutes an open circuit skips the provider before probing it again */
+  readonly cooldownMinutes: number;
+  /** Max move against the last stored price before a quote is quarantined */
+  readonly maxDeviationPercent: number;
+  /** Older stored prices are not used as deviation reference */
+  readonly referenceMaxAgeHours: number;
+}
+
+export const DEFAULT_PROVIDER_HEALTH_CONFIG: ProviderHealthConfig = {
+  failureThreshold: 3,
+  cooldownMinutes: 15,
+  maxDeviationPercent: 10,
+  referenceMaxAgeHours: 24
+};
+
+/**
+ * How the stored market price is determined
+ * - first: the first provider (by priority) that returns prices
+ * - median / weighted: consensus of the quotes of all available providers
+ */
+export const PRICING_MODES = ['first', 'median', 'weighted'] as const;
+export type PricingMode = typeof PRICING_MODES[number];
+export type ConsensusMethod = Exclude<PricingMode, 'first'>;
+
+/**
+ * Virtual provider consensus prices are stored under
+ */
+export const CONSENSUS_PROVIDER_NAME = 'Consensus';
+
+export interface ConsensusContributor {
+  readonly providerId: string;
+  readonly providerName: string;
+  readonly price: number;
+  readonly weight: number;
+}
+
+export interface PriceConsensus {
+  readonly method: ConsensusMethod;
+  /** Highest minus lowest contributing quote, in percent of the consensus price */
+  readonly spreadPercent: number;
+  /** Spread above the configured maximum */
+  readonly disputed: boolean;
+  readonly contributors: ConsensusContributor[];
+}
+
+export interface ConsensusConfig {
+  readonly mode: PricingMode;
+  /** Spread above which a consensus price is flagged as disputed */
+  readonly maxSpreadPercent: number;
+  /** Weight per provider name for the weighted consensus (default: 1) */
+  readonly providerWeights: Readonly<Record<string, number>>;
+}
+
+export const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
+  mode: 'first',
+  maxSpreadPercent: 0.5,
+  providerWeights: {}
+};
+
 export interface MarketPrice {
   readonly id: string;
   readonly metalId: string;
@@ -40,6 +151,8 @@ export interface MarketPrice {
   readonly low24h?: number;
   readonly change24h?: number;
   readonly changePercent24h?: number;
+  /** Set when the price is a consensus of several providers */
+  readonly consensus?: PriceConsensus;
   readonly timestamp: Date;
   readonly createdAt?: Date;
   readonly updatedAt?: Date;
@@ -63,6 +176,187 @@ export interface PriceHistory {
   readonly createdAt?: Date;
 }
 
+/**
+ * OHLC candle lengths; weeks start on Monday, all buckets in UTC
+ */
+export const CANDLE_INTERVALS = ['1h', '1d', '1w', '1M'] as const;
+export type CandleInterval = typeof CANDLE_INTERVALS[number];
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return (CANDLE_INTERVALS as readonly string[]).includes(value);
+}
+
+export interface PriceCandle {
+  readonly metalId: string;
+  readonly metalSymbol?: string;
+  readonly currency: string;
+  readonly interval: CandleInterval;
+  readonly bucketStart: Date;
+  readonly open: number;
+  readonly high: number;
+  readonly low: number;
+  readonly close: number;
+  readonly tickCount: number;
+  readonly firstTickAt: Date;
+  readonly lastTickAt: Date;
+}
+
+/**
+ * Venue whose trading session drives the price scheduler.
+ * Times are local wall-clock times ('HH:MM') in the venue's IANA time zone.
+ */
+export interface TradingVenue {
+  readonly id: string;
+  readonly code: string;
+  readonly name: string;
+  readonly timeZone: string;
+  readonly openTime: string;
+  readonly closeTime: string;
+  /** ISO weekdays the venue trades on (1 = Monday ... 7 = Sunday) */
+  readonly tradingDays: number[];
+}
+
+export interface TradingHoliday {
+  readonly venueCode: string;
+  /** Local date at the venue ('YYYY-MM-DD') */
+  readonly date: string;
+  readonly name: string;
+  /** Set for half days; the venue closes early instead of staying shut */
+  readonly earlyCloseTime?: string;
+}
+
+export interface TradingCalendar {
+  readonly venues: TradingVenue[];
+  readonly holidays: TradingHoliday[];
+}
+
+/**
+ * What happens while every venue is closed (nights, weekends, holidays)
+ * - last_close: stop polling after capturing the closing price; quotes report 'last_close'
+ * - continuous: keep polling around the clock; quotes stay live/stale by age
+ */
+export const CLOSED_MARKET_MODES = ['last_close', 'continuous'] as const;
+export type ClosedMarketMode = typeof CLOSED_MARKET_MODES[number];
+
+export interface TradingCalendarConfig {
+  readonly closedMarketMode: ClosedMarketMode;
+  /** Quotes older than this are stale while a venue is open */
+  readonly staleAfterMinutes: number;
+}
+
+export const DEFAULT_TRADING_CALENDAR_CONFIG: TradingCalendarConfig = {
+  closedMarketMode: 'last_close',
+  staleAfterMinutes: 15
+};
+
+export interface MarketStatus {
+  /** True while at least one venue is in session (always true without venues) */
+  readonly open: boolean;
+  readonly openVenues: string[];
+  /** Only set while the market is closed */
+  readonly nextOpenAt?: Date;
+  readonly lastCloseAt?: Date;
+}
+
+export const QUOTE_STATUSES = ['live', 'stale', 'last_close'] as const;
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+
+export interface QuoteFreshness {
+  readonly status: QuoteStatus;
+  readonly ageSeconds: number;
+  readonly marketOpen: boolean;
+  readonly openVenues: string[];
+  readonly nextOpenAt?: Date;
+  readonly lastCloseAt?: Date;
+}
+
+/**
+ * Replay provider modes (offline prices for tests, demos and load tests):
+ * - off: use the external providers
+ * - file: replay recorded quotes from a CSV or JSON price file
+ * - random_walk: synthetic prices moving randomly from a start price
+ */
+export const REPLAY_MODES = ['off', 'file', 'random_walk'] as const;
+export type ReplayMode = typeof REPLAY_MODES[number];
+
+export interface ReplayConfig {
+  readonly mode: ReplayMode;
+  /** CSV or JSON price file, required in file mode */
+  readonly filePath?: string;
+  /** Recorded time replayed per wall-clock time; 0 advances one recorded timestamp per fetch */
+  readonly speed: number;
+  /** Restart from the first quote after the last one instead of repeating it */
+  readonly loop: boolean;
+  /** Standard deviation of one random walk step, in percent */
+  readonly volatilityPercent: number;
+  /** Makes random walks reproducible */
+  readonly seed?: number;
+  /** Random walk start prices per metal, in USD */
+  readonly startPrices: Readonly<Record<string, number>>;
+}
+
+export const DEFAULT_REPLAY_CONFIG: ReplayConfig = {
+  mode: 'off',
+  speed: 1,
+  loop: true,
+  volatilityPercent: 0.5,
+  startPrices: { AU: 2000, AG: 25, PT: 950, PD: 1000 }
+};
+
+// ============================================================================
+// Price History Import
+// ============================================================================
+
+export const PriceHistoryImportErrorCode = {
+  INVALID_FILE: 'PRICE_HISTORY_INVALID_FILE',
+  UNKNOWN_PROVIDER: 'PRICE_HISTORY_UNKNOWN_PROVIDER',
+} as const;
+
+export type PriceHistoryImportErrorCode = typeof PriceHistoryImportErrorCode[keyof typeof PriceHistoryImportErrorCode];
+
+/**
+ * The file as a whole cannot be imported; invalid rows are counted as failed instead
+ */
+export class PriceHistoryImportError extends Error {
+  constructor(
+    public readonly code: PriceHistoryImportErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PriceHistoryImportError';
+  }
+}
+
+/** Provider that imported history is stored under unless another one is named */
+export const HISTORICAL_IMPORT_PROVIDER_NAME = 'Historical Import';
+
+/** Row errors beyond this are counted but not listed */
+export const MAX_REPORTED_IMPORT_ERRORS = 100;
+
+export interface PriceFileRowError {
+  /** CSV line number (header = 1) or JSON array index + 1 */
+  readonly row: number;
+  readonly error: string;
+}
+
+export interface PriceHistoryImportOptions {
+  /** Provider the prices are stored under (default: Historical Import) */
+  readonly providerName?: string;
+  /** Metal of rows without a symbol column */
+  readonly symbol?: string;
+  /** Currency of rows without a currency column (default: USD) */
+  readonly currency?: string;
+}
+
+export interface PriceHistoryImportResult {
+  readonly provider: string;
+  readonly inserted: number;
+  /** Rows already stored for the same metal, provider and timestamp */
+  readonly skipped: number;
+  readonly failed: number;
+  readonly errors: PriceFileRowError[];
+}
+
 export interface MarketDataCache {
   readonly id: string;
   readonly cacheKey: string;
@@ -86,6 +380,8 @@ export interface MarketDataQuery {
   readonly endDate?: Date;
   readonly currency?: string;
   readonly limit?: number;
+  /** Aggregate into OHLC candles instead of raw price ticks */
+  readonly interval?: CandleInterval;
 }
 
 export interface PriceUpdateResult {
@@ -93,6 +389,12 @@ export interface PriceUpdateResult {
   provider: string;
   updatedMetals: string[];
   errors: string[];
+  /** Providers skipped because their circuit is open */
+  skippedProviders: string[];
+  /** Quotes rejected by the sanity checks */
+  quarantinedQuotes: number;
+  /** Consensus prices whose contributors disagree beyond the configured spread */
+  disputedMetals: string[];
   readonly timestamp: Date;
 }
 
@@ -116,6 +418,7 @@ export interface PriceData {
     readonly high?: number;
     readonly low?: number;
   };
+  readonly consensus?: PriceConsensus;
 }
 
 /**
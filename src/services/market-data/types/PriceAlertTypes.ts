@@ -0,0 +1,132 @@
+/**
+ * Price Alert Domain Types
+ *
+ * User-defined price thresholds per metal that fire once and notify by email
+ */
+
+// ============================================================================
+// Error Codes
+// ============================================================================
+
+export const PriceAlertErrorCode = {
+  VALIDATION_ERROR: 'PRICE_ALERT_VALIDATION_ERROR',
+  UNKNOWN_METAL: 'PRICE_ALERT_UNKNOWN_METAL',
+  NOT_FOUND: 'PRICE_ALERT_NOT_FOUND',
+} as const;
+
+export type PriceAlertErrorCode = typeof PriceAlertErrorCode[keyof typeof PriceAlertErrorCode];
+
+export class PriceAlertError extends Error {
+  constructor(
+    public readonly code: PriceAlertErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PriceAlertError';
+  }
+}
+
+export function getPriceAlertHttpStatus(code: PriceAlertErrorCode): number {
+  switch (code) {
+    case PriceAlertErrorCode.NOT_FOUND:
+      return 404;
+    default:
+      return 400;
+  }
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+/**
+ * above/below: price crosses the threshold
+ * change_percent: price moved at least `threshold` percent since the daily (UTC) open
+ */
+export const PRICE_ALERT_CONDITIONS = ['above', 'below', 'change_percent'] as const;
+export type PriceAlertCondition = typeof PRICE_ALERT_CONDITIONS[number];
+
+export function isPriceAlertCondition(value: string): value is PriceAlertCondition {
+  return (PRICE_ALERT_CONDITIONS as readonly string[]).includes(value);
+}
+
+export interface PriceAlert {
+  readonly id: string;
+  readonly userId: string;
+  readonly metalId: string;
+  readonly metalSymbol: string;
+  readonly currency: string;
+  readonly condition: PriceAlertCondition;
+  readonly threshold: number;
+  readonly isActive: boolean;
+  readonly triggeredAt: Date | null;
+  readonly triggeredPrice: number | null;
+  readonly triggeredChangePercent: number | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Armed alert together with the owner's contact details for the notification
+ */
+export interface PendingPriceAlert extends PriceAlert {
+  readonly email: string;
+  readonly firstName: string;
+  readonly lastName: string;
+}
+
+export interface CreatePriceAlertInput {
+  metalSymbol: string;
+  condition: PriceAlertCondition;
+  threshold: number;
+  /** ISO 4217 code, default: USD; other currencies are checked against the converted USD price */
+  currency?: string;
+}
+
+export interface UpdatePriceAlertInput {
+  condition?: PriceAlertCondition;
+  threshold?: number;
+  isActive?: boolean;
+}
+
+export interface PriceAlertChanges extends UpdatePriceAlertInput {
+  /** Clear a recorded trigger so the alert can fire again */
+  rearm: boolean;
+}
+
+export interface PriceAlertTrigger {
+  readonly price: number;
+  readonly changePercent: number | null;
+  readonly triggeredAt: Date;
+}
+
+export interface PriceAlertEvaluationResult {
+  evaluated: number;
+  triggered: number;
+  notified: number;
+  errors: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function mapRowToPriceAlert(row: Record<string, unknown>): PriceAlert {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    metalId: row.metal_id as string,
+    metalSymbol: row.metal_symbol as string,
+    currency: row.currency as string,
+    condition: row.alert_condition as PriceAlertCondition,
+    threshold: Number.parseFloat(row.threshold as string),
+    isActive: row.is_active as boolean,
+    triggeredAt: row.triggered_at ? new Date(row.triggered_at as string) : null,
+    triggeredPrice: row.triggered_price == null ? null : Number.parseFloat(row.triggered_price as string),
+    triggeredChangePercent: row.triggered_change_percent == null
+      ? null
+      : Number.parseFloat(row.triggered_change_percent as string),
+    createdAt: new Date(row.createdat as string),
+    updatedAt: new Date(row.updatedat as string),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Price Stream Types
+ *
+ * Server-Sent Events pushing saved market prices and the product prices
+ * recalculated from them
+ */
+
+import type { ProductPriceDTO } from '../../product/types/ProductTypes';
+import type { MarketPrice } from './MarketDataTypes';
+
+// ============================================================================
+// Subscriptions
+// ============================================================================
+
+/**
+ * prices: every saved market price
+ * products: product prices recalculated at the new spot price
+ */
+export const PRICE_STREAM_CHANNELS = ['prices', 'products'] as const;
+export type PriceStreamChannel = typeof PRICE_STREAM_CHANNELS[number];
+
+export interface PriceStreamFilter {
+  readonly channels: PriceStreamChannel[];
+  /** Metal symbols; empty = all metals */
+  readonly metals: string[];
+  /** ISO 4217 codes; empty = all currencies */
+  readonly currencies: string[];
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+export interface ProductPriceUpdate {
+  readonly metalSymbol: string;
+  /** Currency of the market price the products were recalculated at; prices carry their own */
+  readonly currency: string;
+  readonly prices: ProductPriceDTO[];
+}
+
+export type PriceStreamEvent =
+  | { readonly type: 'price'; readonly data: MarketPrice }
+  | { readonly type: 'product_prices'; readonly data: ProductPriceUpdate };
+
+export interface PriceStreamSnapshot {
+  readonly prices: MarketPrice[];
+  readonly products: ProductPriceUpdate[];
+  readonly timestamp: Date;
+}
+
+/**
+ * Recalculates product prices of a metal at a spot price;
+ * returns an empty list when the spot price cannot be converted into the pricing currency
+ */
+export type ProductPricer = (metalSymbol: string, spotPrice: number, currency: string) => Promise<ProductPriceDTO[]>;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface PriceStreamConfig {
+  /** Interval of heartbeat events keeping idle connections and proxies alive */
+  readonly heartbeatSeconds: number;
+  /** Concurrent stream connections per server instance */
+  readonly maxClients: number;
+}
+
+export const DEFAULT_PRICE_STREAM_CONFIG: PriceStreamConfig = {
+  heartbeatSeconds: 15,
+  maxClients: 500
+};
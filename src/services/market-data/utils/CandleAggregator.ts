@@ -0,0 +1,94 @@
+/**
+ * Candle Aggregator
+ *
+ * UTC bucket arithmetic for OHLC candles and merging of single prices into candles.
+ * Mirrors the price_candle upsert so in-memory and database aggregation agree.
+ */
+
+import type { CandleInterval, PriceCandle } from '../types/MarketDataTypes';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface CandleTick {
+  readonly metalId: string;
+  readonly currency: string;
+  readonly price: number;
+  readonly timestamp: Date;
+}
+
+/**
+ * Start of the candle containing the timestamp (weeks start on Monday)
+ */
+export function getCandleBucketStart(timestamp: Date, interval: CandleInterval): Date {
+  const time = timestamp.getTime();
+
+  switch (interval) {
+    case '1h':
+      return new Date(time - (time % HOUR_MS));
+    case '1d':
+      return new Date(time - (time % DAY_MS));
+    case '1w': {
+      const dayStart = time - (time % DAY_MS);
+      const daysSinceMonday = (timestamp.getUTCDay() + 6) % 7;
+      return new Date(dayStart - daysSinceMonday * DAY_MS);
+    }
+    case '1M':
+      return new Date(Date.UTC(timestamp.getUTCFullYear(), timestamp.getUTCMonth(), 1));
+  }
+}
+
+/**
+ * Bucket start moved by a number of candles (negative = back in time)
+ */
+export function shiftCandleBucket(bucketStart: Date, interval: CandleInterval, count: number): Date {
+  switch (interval) {
+    case '1h':
+      return new Date(bucketStart.getTime() + count * HOUR_MS);
+    case '1d':
+      return new Date(bucketStart.getTime() + count * DAY_MS);
+    case '1w':
+      return new Date(bucketStart.getTime() + count * 7 * DAY_MS);
+    case '1M':
+      return new Date(Date.UTC(bucketStart.getUTCFullYear(), bucketStart.getUTCMonth() + count, 1));
+  }
+}
+
+/**
+ * Add one price to its candle; open/close follow tick time, so late prices do not move them
+ */
+export function mergePriceIntoCandle(
+  candle: PriceCandle | undefined,
+  tick: CandleTick,
+  interval: CandleInterval
+): PriceCandle {
+  if (!candle) {
+    return {
+      metalId: tick.metalId,
+      currency: tick.currency,
+      interval,
+      bucketStart: getCandleBucketStart(tick.timestamp, interval),
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      tickCount: 1,
+      firstTickAt: tick.timestamp,
+      lastTickAt: tick.timestamp
+    };
+  }
+
+  const isEarliest = tick.timestamp < candle.firstTickAt;
+  const isLatest = tick.timestamp >= candle.lastTickAt;
+
+  return {
+    ...candle,
+    open: isEarliest ? tick.price : candle.open,
+    high: Math.max(candle.high, tick.price),
+    low: Math.min(candle.low, tick.price),
+    close: isLatest ? tick.price : candle.close,
+    tickCount: candle.tickCount + 1,
+    firstTickAt: isEarliest ? tick.timestamp : candle.firstTickAt,
+    lastTickAt: isLatest ? tick.timestamp : candle.lastTickAt
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Consensus Pricer
+ *
+ * Combines the quotes of several providers for one metal into a single
+ * median or weighted-average price and measures how far they disagree.
+ */
+
+import type { ConsensusContributor, ConsensusMethod, PriceConsensus } from '../types/MarketDataTypes';
+
+export interface ContributorQuote extends ConsensusContributor {
+  readonly bid?: number;
+  readonly ask?: number;
+}
+
+export interface ConsensusResult {
+  readonly price: number;
+  /** Only set when every contributor quoted bid and ask */
+  readonly bid?: number;
+  readonly ask?: number;
+  readonly consensus: PriceConsensus;
+}
+
+export function computeConsensus(
+  quotes: readonly ContributorQuote[],
+  method: ConsensusMethod,
+  maxSpreadPercent: number
+): ConsensusResult {
+  if (quotes.length === 0) {
+    throw new Error('Consensus requires at least one quote');
+  }
+
+  const aggregate = (values: readonly number[]) =>
+    round4(method === 'median' ? median(values) : weightedAverage(values, quotes.map(q => q.weight)));
+
+  const price = aggregate(quotes.map(q => q.price));
+  const prices = quotes.map(q => q.price);
+  const spreadPercent = round4(((Math.max(...prices) - Math.min(...prices)) / price) * 100);
+
+  const quotesBidAsk = quotes.every(q => q.bid !== undefined && q.ask !== undefined);
+
+  return {
+    price,
+    bid: quotesBidAsk ? aggregate(quotes.map(q => q.bid as number)) : undefined,
+    ask: quotesBidAsk ? aggregate(quotes.map(q => q.ask as number)) : undefined,
+    consensus: {
+      method,
+      spreadPercent,
+      disputed: spreadPercent > maxSpreadPercent,
+      contributors: quotes.map(({ providerId, providerName, price: quoted, weight }) => ({
+        providerId,
+        providerName,
+        price: quoted,
+        weight
+      }))
+    }
+  };
+}
+
+function median(values: readonly number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function weightedAverage(values: readonly number[], weights: readonly number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  return values.reduce((sum, value, index) => sum + value * weights[index], 0) / totalWeight;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
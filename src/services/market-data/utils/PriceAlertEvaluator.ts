@@ -0,0 +1,34 @@
+/**
+ * Price Alert Evaluator
+ *
+ * Decides whether an alert fires for a price. Daily moves are measured
+ * against the open of the current 1d candle (UTC day).
+ */
+
+import type { PriceAlert } from '../types/PriceAlertTypes';
+
+export interface PriceAlertCheck {
+  readonly triggered: boolean;
+  /** Move since the daily open in percent (change_percent alerts only) */
+  readonly changePercent: number | null;
+}
+
+export function evaluatePriceAlert(
+  alert: Pick<PriceAlert, 'condition' | 'threshold'>,
+  price: number,
+  dailyOpen: number | null
+): PriceAlertCheck {
+  switch (alert.condition) {
+    case 'above':
+      return { triggered: price >= alert.threshold, changePercent: null };
+    case 'below':
+      return { triggered: price <= alert.threshold, changePercent: null };
+    case 'change_percent': {
+      if (!dailyOpen || dailyOpen <= 0) {
+        return { triggered: false, changePercent: null };
+      }
+      const changePercent = Math.round(((price - dailyOpen) / dailyOpen) * 1_000_000) / 10_000;
+      return { triggered: Math.abs(changePercent) >= alert.threshold, changePercent };
+    }
+  }
+}
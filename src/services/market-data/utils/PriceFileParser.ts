@@ -0,0 +1,159 @@
+/**
+ * Price File Parser
+ *
+ * Reads recorded metal quotes from CSV or JSON price files.
+ *
+ * CSV: header row with timestamp (or date),symbol,price and optional currency,bid,ask
+ * JSON: array of objects with the same fields
+ *
+ * Daily files without a symbol or currency column (e.g. one LBMA fix export per
+ * metal) take them from the defaults; currency falls back to USD. Invalid rows
+ * are reported, not thrown, so callers decide whether to skip them.
+ */
+
+import type { MetalPrice, PriceFileRowError } from '../types/MarketDataTypes';
+import { SUPPORTED_CURRENCIES, SUPPORTED_METALS } from '../types/MarketDataTypes';
+
+export const PRICE_FILE_FORMATS = ['csv', 'json'] as const;
+export type PriceFileFormat = typeof PRICE_FILE_FORMATS[number];
+
+export interface PriceFileQuote {
+  /** CSV line number (header = 1) or JSON array index + 1 */
+  readonly row: number;
+  readonly quote: MetalPrice;
+}
+
+export interface PriceFileParseResult {
+  /** Valid quotes ordered by timestamp */
+  readonly quotes: PriceFileQuote[];
+  readonly errors: PriceFileRowError[];
+}
+
+export interface PriceFileDefaults {
+  /** Metal of rows without a symbol */
+  readonly symbol?: string;
+  /** Currency of rows without a currency, USD when not set */
+  readonly currency?: string;
+}
+
+/**
+ * @throws Error for extensions other than .csv and .json
+ */
+export function getPriceFileFormat(filePath: string): PriceFileFormat {
+  const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+  if (!(PRICE_FILE_FORMATS as readonly string[]).includes(extension)) {
+    throw new Error(`Unsupported price file "${filePath}", expected a .csv or .json file`);
+  }
+  return extension as PriceFileFormat;
+}
+
+/**
+ * @throws Error when the file as a whole cannot be read (missing columns, malformed JSON)
+ */
+export function parsePriceFile(
+  content: string,
+  format: PriceFileFormat,
+  defaults: PriceFileDefaults = {}
+): PriceFileParseResult {
+  const rows = format === 'csv' ? readCsvRows(content, defaults) : readJsonRows(content);
+  const quotes: PriceFileQuote[] = [];
+  const errors: PriceFileRowError[] = [];
+
+  for (const { row, values } of rows) {
+    try {
+      quotes.push({ row, quote: toMetalPrice(values, defaults) });
+    } catch (error) {
+      errors.push({ row, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  quotes.sort((a, b) => a.quote.timestamp.getTime() - b.quote.timestamp.getTime());
+  return { quotes, errors };
+}
+
+function readCsvRows(
+  content: string,
+  defaults: PriceFileDefaults
+): Array<{ row: number; values: Record<string, unknown> }> {
+  const lines = content.split(/\r?\n/);
+  const headers = (lines[0] ?? '').split(',').map(h => h.trim().toLowerCase());
+  const missing = [
+    headers.includes('timestamp') || headers.includes('date') ? null : 'timestamp',
+    headers.includes('symbol') || defaults.symbol ? null : 'symbol',
+    headers.includes('price') ? null : 'price'
+  ].filter(column => column !== null);
+
+  if (missing.length > 0) {
+    throw new Error(`Price file is missing column(s): ${missing.join(', ')}`);
+  }
+
+  const rows: Array<{ row: number; values: Record<string, unknown> }> = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    const cells = lines[i].split(',').map(v => v.trim());
+    const values: Record<string, unknown> = {};
+    headers.forEach((header, index) => {
+      values[header] = cells[index] ?? '';
+    });
+    rows.push({ row: i + 1, values });
+  }
+  return rows;
+}
+
+function readJsonRows(content: string): Array<{ row: number; values: Record<string, unknown> }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Price file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Price file must contain a JSON array of quotes');
+  }
+
+  return parsed.map((values, index) => ({
+    row: index + 1,
+    values: typeof values === 'object' && values !== null ? (values as Record<string, unknown>) : {}
+  }));
+}
+
+function toMetalPrice(values: Record<string, unknown>, defaults: PriceFileDefaults): MetalPrice {
+  const rawTimestamp = String(values.timestamp || values.date || '');
+  const timestamp = new Date(rawTimestamp);
+  if (Number.isNaN(timestamp.getTime())) {
+    throw new Error(`Invalid timestamp "${rawTimestamp}"`);
+  }
+
+  const symbol = String(values.symbol || defaults.symbol || '').trim().toUpperCase();
+  if (!(SUPPORTED_METALS as readonly string[]).includes(symbol)) {
+    throw new Error(`Unsupported metal "${symbol}", expected one of: ${SUPPORTED_METALS.join(', ')}`);
+  }
+
+  const currency = String(values.currency || defaults.currency || 'USD').trim().toUpperCase();
+  if (!(SUPPORTED_CURRENCIES as readonly string[]).includes(currency)) {
+    throw new Error(`Unsupported currency "${currency}", expected one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+  }
+
+  return {
+    symbol,
+    price: parsePositive('price', values.price),
+    currency,
+    bid: parseOptionalPositive('bid', values.bid),
+    ask: parseOptionalPositive('ask', values.ask),
+    timestamp
+  };
+}
+
+function parsePositive(field: string, value: unknown): number {
+  const number = typeof value === 'number' ? value : Number.parseFloat(String(value ?? ''));
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`Invalid ${field} "${String(value ?? '')}", expected a positive number`);
+  }
+  return number;
+}
+
+function parseOptionalPositive(field: string, value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : parsePositive(field, value);
+}
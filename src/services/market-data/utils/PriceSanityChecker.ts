@@ -0,0 +1,50 @@
+/**
+ * Price Sanity Checker
+ *
+ * Checks a fetched quote before it is persisted. Rejected quotes are
+ * quarantined instead of becoming the current market price.
+ */
+
+import type { ProviderHealthConfig, QuoteRejectionReason } from '../types/MarketDataTypes';
+
+export interface QuoteToCheck {
+  readonly price: number;
+  readonly bid?: number;
+  readonly ask?: number;
+}
+
+export interface ReferencePrice {
+  readonly price: number;
+  readonly timestamp: Date;
+}
+
+export type SanityCheckResult =
+  | { readonly accepted: true; readonly deviationPercent?: number }
+  | { readonly accepted: false; readonly reason: QuoteRejectionReason; readonly deviationPercent?: number };
+
+export function checkQuoteSanity(
+  quote: QuoteToCheck,
+  reference: ReferencePrice | null,
+  config: Pick<ProviderHealthConfig, 'maxDeviationPercent' | 'referenceMaxAgeHours'>,
+  now: Date = new Date()
+): SanityCheckResult {
+  if (!Number.isFinite(quote.price) || quote.price <= 0) {
+    return { accepted: false, reason: 'invalid_price' };
+  }
+
+  if (quote.bid !== undefined && quote.ask !== undefined && quote.bid > quote.ask) {
+    return { accepted: false, reason: 'bid_above_ask' };
+  }
+
+  const referenceAgeMs = reference ? now.getTime() - new Date(reference.timestamp).getTime() : Infinity;
+  if (!reference || reference.price <= 0 || referenceAgeMs > config.referenceMaxAgeHours * 3_600_000) {
+    return { accepted: true };
+  }
+
+  const deviationPercent = Math.round(((quote.price - reference.price) / reference.price) * 1_000_000) / 10_000;
+  if (Math.abs(deviationPercent) > config.maxDeviationPercent) {
+    return { accepted: false, reason: 'price_deviation', deviationPercent };
+  }
+
+  return { accepted: true, deviationPercent };
+}
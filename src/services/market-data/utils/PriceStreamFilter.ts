@@ -0,0 +1,51 @@
+/**
+ * Price Stream Filter
+ *
+ * Parses the channels/metals/currencies query of a stream connection and
+ * matches prices against it
+ */
+
+import { SUPPORTED_CURRENCIES, SUPPORTED_METALS } from '../types/MarketDataTypes';
+import { PRICE_STREAM_CHANNELS, PriceStreamChannel, PriceStreamFilter } from '../types/PriceStreamTypes';
+
+export interface PriceStreamQuery {
+  channels?: string;
+  metals?: string;
+  currencies?: string;
+}
+
+/**
+ * @throws Error naming the first unsupported value
+ */
+export function parsePriceStreamFilter(query: PriceStreamQuery): PriceStreamFilter {
+  const channels = parseList(query.channels, value => value.toLowerCase());
+  const metals = parseList(query.metals, value => value.toUpperCase());
+  const currencies = parseList(query.currencies, value => value.toUpperCase());
+
+  assertSupported('channel', channels, PRICE_STREAM_CHANNELS);
+  assertSupported('metal', metals, SUPPORTED_METALS);
+  assertSupported('currency', currencies, SUPPORTED_CURRENCIES);
+
+  return {
+    channels: channels.length > 0 ? (channels as PriceStreamChannel[]) : ['prices'],
+    metals,
+    currencies
+  };
+}
+
+export function matchesPriceStreamFilter(filter: PriceStreamFilter, metalSymbol: string, currency: string): boolean {
+  return (filter.metals.length === 0 || filter.metals.includes(metalSymbol.toUpperCase()))
+    && (filter.currencies.length === 0 || filter.currencies.includes(currency.toUpperCase()));
+}
+
+function parseList(value: string | undefined, normalize: (value: string) => string): string[] {
+  const items = (value ?? '').split(',').map(item => normalize(item.trim())).filter(item => item !== '');
+  return [...new Set(items)];
+}
+
+function assertSupported(kind: string, values: readonly string[], supported: readonly string[]): void {
+  const unsupported = values.find(value => !supported.includes(value));
+  if (unsupported) {
+    throw new Error(`Unsupported ${kind} "${unsupported}", expected one of: ${supported.join(', ')}`);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Provider Circuit Breaker
+ *
+ * Derives the breaker state from the provider health columns
+ * (failure_count, last_failure), so the state survives restarts and is
+ * shared by every instance. A success resets failure_count and closes it.
+ */
+
+import type { CircuitState, MarketDataProvider, ProviderHealthConfig } from '../types/MarketDataTypes';
+
+export interface CircuitStatus {
+  readonly state: CircuitState;
+  readonly openUntil?: Date;
+}
+
+export function getCircuitStatus(
+  provider: Pick<MarketDataProvider, 'failureCount' | 'lastFailure'>,
+  config: Pick<ProviderHealthConfig, 'failureThreshold' | 'cooldownMinutes'>,
+  now: Date = new Date()
+): CircuitStatus {
+  if (provider.failureCount < config.failureThreshold || !provider.lastFailure) {
+    return { state: 'closed' };
+  }
+
+  const openUntil = new Date(new Date(provider.lastFailure).getTime() + config.cooldownMinutes * 60_000);
+  return openUntil > now ? { state: 'open', openUntil } : { state: 'half_open' };
+}
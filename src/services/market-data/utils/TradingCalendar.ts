@@ -0,0 +1,169 @@
+/**
+ * Trading Calendar
+ *
+ * Resolves venue sessions (local wall-clock hours in the venue's time zone,
+ * DST-aware via Intl) against holidays and half days, and classifies how
+ * fresh a stored quote is.
+ */
+
+import type {
+  MarketStatus,
+  QuoteFreshness,
+  TradingCalendar,
+  TradingCalendarConfig,
+  TradingHoliday,
+  TradingVenue
+} from '../types/MarketDataTypes';
+
+/** How far to look back/ahead for the previous close and next open */
+export const SESSION_SEARCH_DAYS = 14;
+
+export interface TradingSession {
+  readonly venueCode: string;
+  readonly openAt: Date;
+  readonly closeAt: Date;
+}
+
+/**
+ * Session of a venue on a local date, or null when it does not trade that day
+ */
+export function getVenueSession(
+  venue: TradingVenue,
+  holidays: readonly TradingHoliday[],
+  date: string
+): TradingSession | null {
+  if (!venue.tradingDays.includes(getIsoWeekday(date))) {
+    return null;
+  }
+
+  const holiday = holidays.find(h => h.venueCode === venue.code && h.date === date);
+  if (holiday && !holiday.earlyCloseTime) {
+    return null;
+  }
+
+  return {
+    venueCode: venue.code,
+    openAt: zonedTimeToUtc(date, venue.openTime, venue.timeZone),
+    closeAt: zonedTimeToUtc(date, holiday?.earlyCloseTime ?? venue.closeTime, venue.timeZone)
+  };
+}
+
+/**
+ * Whether any venue is in session; while closed also when it last closed
+ * and when it opens next. Without venues the market counts as always open.
+ */
+export function getMarketStatus(calendar: TradingCalendar, now: Date = new Date()): MarketStatus {
+  if (calendar.venues.length === 0) {
+    return { open: true, openVenues: [] };
+  }
+
+  const openVenues: string[] = [];
+  let nextOpenAt: Date | undefined;
+  let lastCloseAt: Date | undefined;
+
+  for (const venue of calendar.venues) {
+    const today = getLocalDate(now, venue.timeZone);
+
+    for (let offset = -SESSION_SEARCH_DAYS; offset <= SESSION_SEARCH_DAYS; offset++) {
+      const session = getVenueSession(venue, calendar.holidays, addDays(today, offset));
+      if (!session) {
+        continue;
+      }
+
+      if (session.openAt <= now && now < session.closeAt) {
+        openVenues.push(venue.code);
+      } else if (session.openAt > now && (!nextOpenAt || session.openAt < nextOpenAt)) {
+        nextOpenAt = session.openAt;
+      } else if (session.closeAt <= now && (!lastCloseAt || session.closeAt > lastCloseAt)) {
+        lastCloseAt = session.closeAt;
+      }
+    }
+  }
+
+  return openVenues.length > 0
+    ? { open: true, openVenues }
+    : { open: false, openVenues, nextOpenAt, lastCloseAt };
+}
+
+/**
+ * Live while the market is open and the quote is recent; outside sessions
+ * the quote is the last close unless the calendar polls continuously
+ */
+export function getQuoteFreshness(
+  quoteTimestamp: Date,
+  market: MarketStatus,
+  config: TradingCalendarConfig,
+  now: Date = new Date()
+): QuoteFreshness {
+  const ageSeconds = Math.max(0, Math.floor((now.getTime() - quoteTimestamp.getTime()) / 1000));
+
+  let status: QuoteFreshness['status'];
+  if (!market.open && config.closedMarketMode === 'last_close') {
+    status = 'last_close';
+  } else {
+    status = ageSeconds <= config.staleAfterMinutes * 60 ? 'live' : 'stale';
+  }
+
+  return {
+    status,
+    ageSeconds,
+    marketOpen: market.open,
+    openVenues: market.openVenues,
+    nextOpenAt: market.nextOpenAt,
+    lastCloseAt: market.lastCloseAt
+  };
+}
+
+/**
+ * UTC instant of a local wall-clock time in a time zone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Re-apply the offset at the first guess so DST transitions resolve correctly
+  const guess = wallClock - getOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * Local calendar date ('YYYY-MM-DD') of an instant in a time zone
+ */
+export function getLocalDate(instant: Date, timeZone: string): string {
+  return new Date(instant.getTime() + getOffsetMs(instant, timeZone)).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function getIsoWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+}
+
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  const localAsUtc = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
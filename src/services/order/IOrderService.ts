@@ -5,7 +5,16 @@
  * Allows for multiple implementations (production, mock, test) with same interface.
  */
 
-import { Order, CreateOrderRequest, CreateOrderResult, GetOrdersOptions, GetOrdersResult } from './types/OrderTypes';
+import {
+  Order,
+  CreateOrderRequest,
+  CreateOrderResult,
+  GetOrdersOptions,
+  GetOrdersResult,
+  OrderCalculation,
+  OrderStatusHistoryEntry,
+  OrderUpdate
+} from './types/OrderTypes';
 import { AuditTrailUser } from '../../utils/auditTrail';
 
 export interface IOrderService {
@@ -14,6 +23,12 @@ export interface IOrderService {
    */
   createOrder(request: CreateOrderRequest, authenticatedUser: AuditTrailUser): Promise<CreateOrderResult>;
 
+  /**
+   * Totals (fees, taxes, shipping) the order would get at current prices; nothing is stored
+   * and quotes are not redeemed
+   */
+  previewOrderTotal(request: CreateOrderRequest): Promise<OrderCalculation>;
+
   /**
    * Get order by ID with complete data mapping
    */
@@ -22,7 +37,18 @@ export interface IOrderService {
   /**
    * Update order status with business logic validation
    */
-  updateOrderStatus(orderId: string, newStatus: string, authenticatedUser: AuditTrailUser): Promise<void>;
+  updateOrderStatus(orderId: string, newStatus: string, authenticatedUser: AuditTrailUser, reason?: string): Promise<void>;
+
+  /**
+   * Update type, notes and status of an order atomically (status validated by the transition table)
+   */
+  updateOrder(orderId: string, updates: OrderUpdate, authenticatedUser: AuditTrailUser): Promise<void>;
+
+  /**
+   * Record a successful payment (payment intent succeeded) so buy orders can be shipped
+   * @returns False if the order does not exist
+   */
+  markOrderPaid(orderId: string, paymentIntentId: string): Promise<boolean>;
 
   /**
    * Get orders by user with filtering and pagination
@@ -36,4 +62,9 @@ export interface IOrderService {
     orderId: string,
     authenticatedUser: AuditTrailUser
   ): Promise<{ previousStatus: string; newStatus: string }>;
+
+  /**
+   * Get the status history (timeline) of an order
+   */
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]>;
 }
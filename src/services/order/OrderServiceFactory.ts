@@ -10,9 +10,10 @@ import { IOrderService } from './IOrderService';
 import { IOrderRepository } from './repository/IOrderRepository';
 import { OrderRepositoryImpl } from './repository/OrderRepositoryImpl';
 import { OrderRepositoryMock } from './mock/OrderRepositoryMock';
-import { OrderServiceImpl } from './impl/OrderServiceImpl';
+import { OrderServiceDependencies, OrderServiceImpl } from './impl/OrderServiceImpl';
 import { IProductService } from '../product/IProductService';
 import { ICalculationService } from '../calculation/ICalculationService';
+import { resolveTaxLotMethod } from '../portfolio/types/TaxLotTypes';
 
 /**
  * Factory class for creating Order services with DI
@@ -24,10 +25,11 @@ export class OrderServiceFactory {
   static create(
     pool: Pool,
     productService: IProductService,
-    calculationService: ICalculationService
+    calculationService: ICalculationService,
+    dependencies: OrderServiceDependencies = {}
   ): IOrderService {
-    const repository: IOrderRepository = new OrderRepositoryImpl(pool);
-    return new OrderServiceImpl(repository, productService, calculationService);
+    const repository: IOrderRepository = this.createRepository(pool);
+    return new OrderServiceImpl(repository, productService, calculationService, dependencies);
   }
 
   /**
@@ -35,17 +37,18 @@ export class OrderServiceFactory {
    */
   static createMock(
     productService: IProductService,
-    calculationService: ICalculationService
+    calculationService: ICalculationService,
+    dependencies: OrderServiceDependencies = {}
   ): IOrderService {
     const repository: IOrderRepository = new OrderRepositoryMock();
-    return new OrderServiceImpl(repository, productService, calculationService);
+    return new OrderServiceImpl(repository, productService, calculationService, dependencies);
   }
 
   /**
    * Create repository directly (for advanced usage)
    */
   static createRepository(pool: Pool): IOrderRepository {
-    return new OrderRepositoryImpl(pool);
+    return new OrderRepositoryImpl(pool, resolveTaxLotMethod(process.env.TAX_LOT_METHOD));
   }
 
   /**
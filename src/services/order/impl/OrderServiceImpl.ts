@@ -10,27 +10,59 @@ import { IOrderService } from '../IOrderService';
 import { IOrderRepository } from '../repository/IOrderRepository';
 import { IProductService } from '../../product/IProductService';
 import { ICalculationService } from '../../calculation/ICalculationService';
+import type { IPricingService } from '../../pricing/IPricingService';
+import type { PricedItem } from '../../pricing/types/PricingTypes';
+import type { ICustodyService } from '../../custody/ICustodyService';
+import { CustodyWeightLimitError } from '../../custody/types/CustodyTypes';
+import type { ITaxService } from '../../tax/ITaxService';
+import type { IShippingService } from '../../shipping/IShippingService';
+import { ShippingErrorCode, ShippingUnavailableError } from '../../shipping/types/ShippingTypes';
+import type { CalculationItem, ShippingCharges } from '../../calculation/types/CalculationTypes';
 import { 
   Order, 
   CreateOrderRequest, 
   CreateOrderResult, 
   GetOrdersOptions, 
-  GetOrdersResult
+  GetOrdersResult,
+  OrderCalculation,
+  OrderStatusHistoryEntry,
+  OrderUpdate
 } from '../types/OrderTypes';
 import { 
   validateCreateOrderRequest, 
   isValidOrderStatus, 
-  isValidStatusTransition,
   parseOrderType 
 } from '../utils/OrderValidator';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
+/**
+ * Optional collaborators; without one, the related step is skipped
+ * (spot pricing, custody limits, tax rules, shipping quotes)
+ */
+export interface OrderServiceDependencies {
+  pricingService?: IPricingService;
+  custodyService?: Pick<ICustodyService, 'checkCustodyCapacity'>;
+  taxService?: Pick<ITaxService, 'resolveRatesForUser'>;
+  shippingService?: Pick<IShippingService, 'quoteShipping'>;
+}
+
 export class OrderServiceImpl implements IOrderService {
+  private readonly pricingService?: IPricingService;
+  private readonly custodyService?: Pick<ICustodyService, 'checkCustodyCapacity'>;
+  private readonly taxService?: Pick<ITaxService, 'resolveRatesForUser'>;
+  private readonly shippingService?: Pick<IShippingService, 'quoteShipping'>;
+
   constructor(
     private readonly orderRepository: IOrderRepository,
     private readonly productService: IProductService,
-    private readonly calculationService: ICalculationService
-  ) {}
+    private readonly calculationService: ICalculationService,
+    dependencies: OrderServiceDependencies = {}
+  ) {
+    this.pricingService = dependencies.pricingService;
+    this.custodyService = dependencies.custodyService;
+    this.taxService = dependencies.taxService;
+    this.shippingService = dependencies.shippingService;
+  }
 
   /**
    * Create a new order with full enrichment
@@ -40,21 +72,42 @@ export class OrderServiceImpl implements IOrderService {
     validateCreateOrderRequest(request);
 
     // Enrich items with product data and validate availability
-    const enrichedItems = await this.productService.enrichOrderItems(request.items);
+    const catalogItems = await this.productService.enrichOrderItems(request.items);
 
     // Parse order type (returns lowercase for DB)
     const orderType: string = parseOrderType(request.type);
-    
-    // Calculate pricing
-    const calculation = this.calculationService.calculateOrderTotal(
-      enrichedItems.map(item => ({ quantity: item.quantity, unitPrice: item.unitPrice })),
-      orderType as 'buy' | 'sell'
-    );
 
-    // Generate order ID
+    // Reject buys the chosen custody service cannot hold (before a quote is redeemed)
+    if (orderType === 'buy' && request.custodyServiceId) {
+      await this.assertCustodyCapacity(request);
+    }
+
+    // Generate order ID (needed to redeem a price quote)
     const orderId = uuidv4();
     const now = new Date();
 
+    // Replace catalog prices with spot-based (or quote-locked) prices
+    const pricedItems = await this.resolveItemPrices(request, orderType, orderId);
+    const enrichedItems = this.applyItemPrices(catalogItems, pricedItems);
+
+    // Quote shipping and insurance for the priced parcel; a redeemed quote becomes usable again on failure
+    let shipping: ShippingCharges | undefined;
+    try {
+      shipping = await this.quoteShipping(request, orderType, enrichedItems);
+    } catch (error) {
+      if (request.quoteId && this.pricingService) {
+        await this.pricingService.releaseQuote(request.quoteId);
+      }
+      throw error;
+    }
+
+    // Calculate pricing
+    const calculation = this.calculationService.calculateOrderTotal(
+      await this.applyTaxRates(request.userId, orderType, enrichedItems),
+      orderType as 'buy' | 'sell',
+      shipping
+    );
+
     // Create the complete order object
     const order: Order = {
       id: orderId,
@@ -70,16 +123,25 @@ export class OrderServiceImpl implements IOrderService {
         unitPrice: item.unitPrice,
         totalPrice: item.totalPrice
       })),
-      currency: "CHF", // Current default currency for order persistence
+      currency: pricedItems?.[0]?.currency ?? "CHF", // Current default currency for order persistence
       subtotal: calculation.subtotal,
+      fees: calculation.fees,
       taxes: calculation.taxes || 0,
       totalAmount: calculation.totalAmount,
+      custodyServiceId: request.custodyServiceId,
       createdAt: now,
       updatedAt: now
     };
 
-    // Save to database via repository
-    await this.orderRepository.create(order, authenticatedUser);
+    // Save to database via repository; a redeemed quote becomes usable again on failure
+    try {
+      await this.orderRepository.create(order, authenticatedUser);
+    } catch (error) {
+      if (request.quoteId && this.pricingService) {
+        await this.pricingService.releaseQuote(request.quoteId);
+      }
+      throw error;
+    }
 
     return {
       order,
@@ -87,6 +149,24 @@ export class OrderServiceImpl implements IOrderService {
     };
   }
 
+  /**
+   * Order totals at current prices without storing the order or redeeming a quote
+   */
+  async previewOrderTotal(request: CreateOrderRequest): Promise<OrderCalculation> {
+    validateCreateOrderRequest(request);
+
+    const catalogItems = await this.productService.enrichOrderItems(request.items);
+    const orderType: string = parseOrderType(request.type);
+    const pricedItems = this.pricingService ? await this.pricingService.priceItems(request.items, orderType) : null;
+    const items = this.applyItemPrices(catalogItems, pricedItems);
+
+    return this.calculationService.calculateOrderTotal(
+      await this.applyTaxRates(request.userId, orderType, items),
+      orderType as 'buy' | 'sell',
+      await this.quoteShipping(request, orderType, items)
+    );
+  }
+
   /**
    * Get order by ID
    */
@@ -97,7 +177,12 @@ export class OrderServiceImpl implements IOrderService {
   /**
    * Update order status with validation
    */
-  async updateOrderStatus(orderId: string, newStatus: string, authenticatedUser: AuditTrailUser): Promise<void> {
+  async updateOrderStatus(
+    orderId: string,
+    newStatus: string,
+    authenticatedUser: AuditTrailUser,
+    reason?: string
+  ): Promise<void> {
     // Validate status
     if (!isValidOrderStatus(newStatus)) {
       throw new Error(`Invalid order status: ${newStatus}`);
@@ -109,13 +194,35 @@ export class OrderServiceImpl implements IOrderService {
       throw new Error(`Order not found: ${orderId}`);
     }
 
-    // Validate status transition
-    if (!isValidStatusTransition(currentOrder.status, newStatus)) {
-      throw new Error(`Invalid status transition from ${currentOrder.status} to ${newStatus}`);
+    // The repository validates the transition under the row lock
+    // (throws OrderStatusTransitionError with allowed next states)
+    await this.orderRepository.updateStatus(orderId, newStatus.toLowerCase(), authenticatedUser, reason);
+  }
+
+  /**
+   * Update order fields; the repository validates a status change under the row lock
+   */
+  async updateOrder(orderId: string, updates: OrderUpdate, authenticatedUser: AuditTrailUser): Promise<void> {
+    if (updates.status && !isValidOrderStatus(updates.status)) {
+      throw new Error(`Invalid order status: ${updates.status}`);
     }
 
-    // Update via repository
-    await this.orderRepository.updateStatus(orderId, newStatus, authenticatedUser);
+    await this.orderRepository.update(
+      orderId,
+      {
+        type: updates.type ? parseOrderType(updates.type) : undefined,
+        status: updates.status?.toLowerCase(),
+        notes: updates.notes
+      },
+      authenticatedUser
+    );
+  }
+
+  /**
+   * Mark order as paid once its payment intent succeeded
+   */
+  async markOrderPaid(orderId: string, paymentIntentId: string): Promise<boolean> {
+    return await this.orderRepository.markPaid(orderId, paymentIntentId);
   }
 
   /**
@@ -131,4 +238,143 @@ export class OrderServiceImpl implements IOrderService {
   ): Promise<{ previousStatus: string; newStatus: string }> {
     return await this.orderRepository.processOrderWorkflow(orderId, authenticatedUser);
   }
+
+  /**
+   * Get order status timeline
+   */
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    return await this.orderRepository.findStatusHistory(orderId);
+  }
+
+  /**
+   * Prices order items from the pricing service.
+   * With a quote the locked prices are used (the quote is redeemed for this order),
+   * otherwise items are priced at the current spot price.
+   * Returns null when no pricing service is configured (catalog prices apply).
+   */
+  private async resolveItemPrices(
+    request: CreateOrderRequest,
+    orderType: string,
+    orderId: string
+  ): Promise<PricedItem[] | null> {
+    if (!this.pricingService) {
+      if (request.quoteId) {
+        throw new Error('Price quotes are not supported: pricing service not configured');
+      }
+      return null;
+    }
+
+    if (request.quoteId) {
+      const quote = await this.pricingService.redeemQuote(request.quoteId, {
+        userId: request.userId,
+        type: orderType,
+        items: request.items,
+        orderId
+      });
+      return quote.items;
+    }
+
+    return await this.pricingService.priceItems(request.items, orderType);
+  }
+
+  /**
+   * Replace catalog unit prices with the priced ones (catalog prices apply without pricing)
+   */
+  private applyItemPrices<T extends { productId: string; quantity: number; unitPrice: number; totalPrice: number }>(
+    catalogItems: T[],
+    pricedItems: PricedItem[] | null
+  ): T[] {
+    if (!pricedItems) {
+      return catalogItems;
+    }
+
+    return catalogItems.map(item => {
+      const priced = pricedItems.find(candidate => candidate.productId === item.productId);
+      return priced
+        ? { ...item, unitPrice: priced.unitPrice, totalPrice: Math.round(priced.unitPrice * item.quantity * 100) / 100 }
+        : item;
+    });
+  }
+
+  /**
+   * Shipping and insurance charges for bought items with a delivery method.
+   * Returns undefined without a delivery method (or for sells): no shipping charges apply.
+   */
+  private async quoteShipping(
+    request: CreateOrderRequest,
+    orderType: string,
+    items: Array<{ productId: string; quantity: number; unitPrice: number }>
+  ): Promise<ShippingCharges | undefined> {
+    if (!request.deliveryMethod || orderType !== 'buy') {
+      return undefined;
+    }
+    if (!this.shippingService) {
+      throw new Error('Shipping is not supported: shipping service not configured');
+    }
+
+    const result = await this.shippingService.quoteShipping({
+      userId: request.userId,
+      deliveryMethod: request.deliveryMethod,
+      items: items.map(item => ({ productId: item.productId, quantity: item.quantity, unitPrice: item.unitPrice }))
+    });
+
+    if (!result.success || !result.data) {
+      if (result.error?.code === ShippingErrorCode.NO_TARIFF) {
+        throw new ShippingUnavailableError(result.error.message);
+      }
+      if (result.error?.code === ShippingErrorCode.VALIDATION_ERROR) {
+        throw new Error(`Invalid delivery method: ${result.error.message}`);
+      }
+      throw new Error(result.error?.message || 'Failed to quote shipping');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Attaches the buyer's tax rate per item (rules for the primary address country).
+   * Items without a matching rule, sells, and setups without a tax service
+   * use the calculation service's default rate (TAX_DEFAULT_RATE, untaxed if unset).
+   */
+  private async applyTaxRates(
+    userId: string,
+    orderType: string,
+    items: Array<{ productId: string; quantity: number; unitPrice: number }>
+  ): Promise<CalculationItem[]> {
+    const calculationItems: CalculationItem[] = items.map(item => ({ quantity: item.quantity, unitPrice: item.unitPrice }));
+    if (!this.taxService || orderType !== 'buy') {
+      return calculationItems;
+    }
+
+    const { rates } = await this.taxService.resolveRatesForUser(userId, items.map(item => item.productId));
+    return items.map((item, index) => {
+      const rate = rates.find(candidate => candidate.productId === item.productId)?.rate;
+      return rate === null || rate === undefined ? calculationItems[index] : { ...calculationItems[index], taxRate: rate };
+    });
+  }
+
+  /**
+   * Checks the requested custody service against its min/max fine weight,
+   * counting what the user already holds there.
+   * Skipped when no custody service is configured; fulfilment re-checks the limits.
+   */
+  private async assertCustodyCapacity(request: CreateOrderRequest): Promise<void> {
+    if (!this.custodyService || !request.custodyServiceId) {
+      return;
+    }
+
+    const result = await this.custodyService.checkCustodyCapacity(
+      request.userId,
+      request.custodyServiceId,
+      request.items
+    );
+
+    if (!result.success || !result.data) {
+      throw new Error(`Invalid custody service: ${result.error || 'capacity check failed'}`);
+    }
+
+    if (!result.data.accepted) {
+      throw new CustodyWeightLimitError(result.data);
+    }
+  }
 }
@@ -24,11 +24,13 @@ export type {
   OrderStatus,
   OrderItem,
   CreateOrderRequest,
+  OrderUpdate,
   OrderCalculation,
   CreateOrderResult,
   OrderPagination,
   GetOrdersOptions,
-  GetOrdersResult
+  GetOrdersResult,
+  OrderStatusHistoryEntry
 } from './types/OrderTypes';
 
 // ============================================================================
@@ -39,7 +41,18 @@ export {
   isValidOrderStatus,
   isValidStatusTransition,
   validateCreateOrderRequest,
-  parseOrderType
+  parseOrderType,
+  ORDER_STATUS_TRANSITIONS,
+  ORDER_STATUS_TRANSITION_ERROR_CODE,
+  OrderStatusTransitionError,
+  assertStatusTransition,
+  getAllowedNextStatuses,
+  getNextWorkflowStatus
+} from './utils/OrderValidator';
+export type {
+  OrderStatusValue,
+  OrderStatusTransition,
+  OrderTransitionContext
 } from './utils/OrderValidator';
 
 // ============================================================================
@@ -51,5 +64,6 @@ export { OrderServiceFactory } from './OrderServiceFactory';
 // Implementations (for advanced usage or direct instantiation)
 // ============================================================================
 export { OrderServiceImpl } from './impl/OrderServiceImpl';
+export type { OrderServiceDependencies } from './impl/OrderServiceImpl';
 export { OrderRepositoryImpl } from './repository/OrderRepositoryImpl';
 export { OrderRepositoryMock } from './mock/OrderRepositoryMock';
@@ -5,11 +5,13 @@
  */
 
 import { IOrderRepository } from '../repository/IOrderRepository';
-import { Order, GetOrdersOptions, GetOrdersResult } from '../types/OrderTypes';
+import { Order, GetOrdersOptions, GetOrdersResult, OrderStatusHistoryEntry, OrderUpdate } from '../types/OrderTypes';
 import { AuditTrailUser } from '../../../utils/auditTrail';
+import { assertStatusTransition, getNextWorkflowStatus } from '../utils/OrderStatusTransitions';
 
 export class OrderRepositoryMock implements IOrderRepository {
   private readonly orders: Map<string, Order> = new Map();
+  private readonly statusHistory: OrderStatusHistoryEntry[] = [];
 
   constructor() {
     this.initializeMockData();
@@ -36,6 +38,7 @@ export class OrderRepositoryMock implements IOrderRepository {
       subtotal: 900,
       taxes: 0,
       totalAmount: 900,
+      paymentStatus: 'pending',
       createdAt: new Date('2024-01-01'),
       updatedAt: new Date('2024-01-01')
     };
@@ -68,6 +71,7 @@ export class OrderRepositoryMock implements IOrderRepository {
       subtotal: 2260,
       taxes: 0,
       totalAmount: 2260,
+      paymentStatus: 'paid',
       createdAt: new Date('2024-01-15'),
       updatedAt: new Date('2024-01-16')
     };
@@ -76,8 +80,9 @@ export class OrderRepositoryMock implements IOrderRepository {
     this.orders.set(testOrder2.id, testOrder2);
   }
 
-  async create(order: Order, _authenticatedUser: AuditTrailUser): Promise<void> {
+  async create(order: Order, authenticatedUser: AuditTrailUser): Promise<void> {
     this.orders.set(order.id, { ...order });
+    this.recordStatusChange(order.id, null, order.status, authenticatedUser);
   }
 
   async findById(orderId: string): Promise<Order | null> {
@@ -124,25 +129,57 @@ export class OrderRepositoryMock implements IOrderRepository {
     };
   }
 
-  async updateStatus(orderId: string, newStatus: string, _authenticatedUser: AuditTrailUser): Promise<void> {
+  async updateStatus(
+    orderId: string,
+    newStatus: string,
+    authenticatedUser: AuditTrailUser,
+    reason?: string
+  ): Promise<void> {
     const order = this.orders.get(orderId);
     if (!order) {
       throw new Error(`Order not found: ${orderId}`);
     }
-    
+
+    assertStatusTransition(order.status, newStatus, {
+      orderType: order.type,
+      paymentStatus: order.paymentStatus ?? null
+    });
+    this.recordStatusChange(orderId, order.status, newStatus, authenticatedUser, reason);
     order.status = newStatus as any;
     order.updatedAt = new Date();
     this.orders.set(orderId, order);
   }
 
-  async update(orderId: string, updates: Partial<Order>, _authenticatedUser: AuditTrailUser): Promise<void> {
+  async markPaid(orderId: string, _paymentIntentId: string): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return false;
+    }
+
+    order.paymentStatus = 'paid';
+    order.updatedAt = new Date();
+    return true;
+  }
+
+  async update(orderId: string, updates: OrderUpdate, authenticatedUser: AuditTrailUser): Promise<void> {
     const order = this.orders.get(orderId);
     if (!order) {
       throw new Error(`Order not found: ${orderId}`);
     }
-    
-    const updatedOrder = { ...order, ...updates, updatedAt: new Date() };
-    this.orders.set(orderId, updatedOrder);
+
+    if (updates.status && updates.status !== order.status) {
+      assertStatusTransition(order.status, updates.status, {
+        orderType: order.type,
+        paymentStatus: order.paymentStatus ?? null
+      });
+      this.recordStatusChange(orderId, order.status, updates.status, authenticatedUser);
+      order.status = updates.status;
+    }
+
+    if (updates.type) {
+      order.type = updates.type;
+    }
+    order.updatedAt = new Date();
   }
 
   async countByUserId(userId: string | undefined, options?: { status?: string; type?: string }): Promise<number> {
@@ -165,7 +202,7 @@ export class OrderRepositoryMock implements IOrderRepository {
 
   async processOrderWorkflow(
     orderId: string,
-    _authenticatedUser: AuditTrailUser
+    authenticatedUser: AuditTrailUser
   ): Promise<{ previousStatus: string; newStatus: string }> {
     const order = this.orders.get(orderId);
     if (!order) {
@@ -173,31 +210,12 @@ export class OrderRepositoryMock implements IOrderRepository {
     }
 
     const currentStatus = order.status;
-    let newStatus: string;
-
-    switch (currentStatus) {
-      case 'pending':
-        newStatus = 'confirmed';
-        break;
-      case 'confirmed':
-        newStatus = 'processing';
-        break;
-      case 'processing':
-        newStatus = 'shipped';
-        break;
-      case 'shipped':
-        newStatus = 'delivered';
-        break;
-      case 'delivered':
-        newStatus = 'completed';
-        break;
-      case 'completed':
-      case 'cancelled':
-        throw new Error(`ORDER_WORKFLOW_INVALID_STATE:${currentStatus}`);
-      default:
-        throw new Error(`ORDER_WORKFLOW_INVALID_STATE:${currentStatus}`);
-    }
+    const newStatus = getNextWorkflowStatus(currentStatus, {
+      orderType: order.type,
+      paymentStatus: order.paymentStatus ?? null
+    });
 
+    this.recordStatusChange(orderId, currentStatus, newStatus, authenticatedUser);
     order.status = newStatus;
     order.updatedAt = new Date();
     this.orders.set(orderId, order);
@@ -205,9 +223,32 @@ export class OrderRepositoryMock implements IOrderRepository {
     return { previousStatus: currentStatus, newStatus };
   }
 
+  async findStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    return this.statusHistory.filter(entry => entry.orderId === orderId);
+  }
+
+  private recordStatusChange(
+    orderId: string,
+    previousStatus: string | null,
+    newStatus: string,
+    authenticatedUser: AuditTrailUser,
+    reason?: string
+  ): void {
+    this.statusHistory.push({
+      id: `history-${this.statusHistory.length + 1}`,
+      orderId,
+      previousStatus,
+      newStatus,
+      reason: reason ?? null,
+      changedBy: { id: authenticatedUser.id, email: authenticatedUser.email },
+      changedAt: new Date()
+    });
+  }
+
   // Test helper methods
   clear(): void {
     this.orders.clear();
+    this.statusHistory.length = 0;
   }
 
   getAllOrders(): Order[] {
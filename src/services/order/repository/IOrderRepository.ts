@@ -5,7 +5,7 @@
  * Separates data access from business logic
  */
 
-import { Order, GetOrdersOptions, GetOrdersResult } from '../types/OrderTypes';
+import { Order, GetOrdersOptions, GetOrdersResult, OrderStatusHistoryEntry, OrderUpdate } from '../types/OrderTypes';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
 export interface IOrderRepository {
@@ -25,14 +25,22 @@ export interface IOrderRepository {
   findByUserId(userId: string | undefined, options: GetOrdersOptions): Promise<GetOrdersResult>;
 
   /**
-   * Update order status
+   * Update order status and append a status history entry in the same transaction.
+   * The transition is validated against the locked row (throws OrderStatusTransitionError)
    */
-  updateStatus(orderId: string, newStatus: string, authenticatedUser: AuditTrailUser): Promise<void>;
+  updateStatus(orderId: string, newStatus: string, authenticatedUser: AuditTrailUser, reason?: string): Promise<void>;
 
   /**
-   * Update order with multiple fields
+   * Set payment_status to 'paid' after a successful payment
+   * @returns False if the order does not exist
    */
-  update(orderId: string, updates: Partial<Order>, authenticatedUser: AuditTrailUser): Promise<void>;
+  markPaid(orderId: string, paymentIntentId: string): Promise<boolean>;
+
+  /**
+   * Update order fields in one transaction; a status change is validated against the
+   * locked row and appends a status history entry
+   */
+  update(orderId: string, updates: OrderUpdate, authenticatedUser: AuditTrailUser): Promise<void>;
 
   /**
    * Count orders by user ID with filters
@@ -46,4 +54,9 @@ export interface IOrderRepository {
     orderId: string,
     authenticatedUser: AuditTrailUser
   ): Promise<{ previousStatus: string; newStatus: string }>;
+
+  /**
+   * Get the status history (timeline) of an order, oldest first
+   */
+  findStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]>;
 }
@@ -7,11 +7,26 @@
 
 import { Pool, PoolClient } from 'pg';
 import { IOrderRepository } from './IOrderRepository';
-import { Order, OrderItem, GetOrdersOptions, GetOrdersResult } from '../types/OrderTypes';
-import { createOrderWithAudit, createOrderItemWithAudit, updateOrderWithAudit, AuditTrailUser, getAuditUser } from '../../../utils/auditTrail';
+import { Order, OrderItem, GetOrdersOptions, GetOrdersResult, OrderStatusHistoryEntry, OrderUpdate } from '../types/OrderTypes';
+import { assertStatusTransition, getNextWorkflowStatus, OrderStatusTransitionError } from '../utils/OrderStatusTransitions';
+import { DEFAULT_TAX_LOT_METHOD, OpenTaxLot, TaxLotMethod } from '../../portfolio/types/TaxLotTypes';
+import { matchSellAgainstLots } from '../../portfolio/utils/TaxLotMatcher';
+import { CustodyWeightItem, CustodyWeightLimitError } from '../../custody/types/CustodyTypes';
+import { calculateFineWeightGrams, checkCustodyWeightLimits } from '../../custody/validators/CustodyValidators';
+import { createOrderWithAudit, createOrderItemWithAudit, AuditTrailUser, getAuditUser } from '../../../utils/auditTrail';
+
+/**
+ * Amounts stored on the order row on creation (NULL for orders stored before 28-order-amounts.sql)
+ */
+const ORDER_AMOUNT_COLUMNS = `o.currency as order_currency, o.subtotal as order_subtotal,
+  o.processing_fee as order_processing_fee, o.shipping_fee as order_shipping_fee,
+  o.insurance_fee as order_insurance_fee, o.taxes as order_taxes, o.total_amount as order_total_amount`;
 
 export class OrderRepositoryImpl implements IOrderRepository {
-  constructor(private readonly pool: Pool) {}
+  constructor(
+    private readonly pool: Pool,
+    private readonly taxLotMethod: TaxLotMethod = DEFAULT_TAX_LOT_METHOD
+  ) {}
 
   async create(order: Order, authenticatedUser: AuditTrailUser): Promise<void> {
     try {
@@ -22,9 +37,16 @@ export class OrderRepositoryImpl implements IOrderRepository {
         userid: order.userId,
         type: order.type,
         orderstatus: order.status,
-        custodyserviceid: undefined,
+        custodyserviceid: order.custodyServiceId,
         payment_intent_id: undefined,
-        payment_status: 'pending'
+        payment_status: 'pending',
+        currency: order.currency,
+        subtotal: order.subtotal,
+        processing_fee: order.fees?.processing,
+        shipping_fee: order.fees?.shipping,
+        insurance_fee: order.fees?.insurance,
+        taxes: order.taxes,
+        total_amount: order.totalAmount
       }, auditUser);
 
       // Insert order items with audit trail
@@ -38,6 +60,9 @@ export class OrderRepositoryImpl implements IOrderRepository {
           totalprice: item.totalPrice
         }, auditUser);
       }
+
+      // Initial timeline entry (previous_status NULL)
+      await this.insertStatusHistory(this.pool, order.id, null, order.status, auditUser.id);
     } catch (error) {
       throw new Error(`Failed to create order: ${(error as Error).message}`);
     }
@@ -48,6 +73,7 @@ export class OrderRepositoryImpl implements IOrderRepository {
       const result = await this.pool.query(
         `SELECT o.id, o.userid, o.type, o.orderstatus, o.createdat, o.updatedat, o.payment_status,
                 o.custodyserviceid,
+                ${ORDER_AMOUNT_COLUMNS},
                 oi.id as itemid, oi.productid, oi.quantity, oi.totalprice, oi.unitprice,
                 oi.productname,
                 p.currency, p.name as product_name,
@@ -125,6 +151,7 @@ export class OrderRepositoryImpl implements IOrderRepository {
       SELECT 
         o.id, o.userid, o.type, o.orderstatus, o.payment_status,
         o.createdat, o.updatedat, o.custodyserviceid,
+        ${ORDER_AMOUNT_COLUMNS},
         oi.id as itemid, oi.productid, oi.productname, oi.quantity,
         oi.unitprice, oi.totalprice,
         p.currency, p.name as product_name,
@@ -186,44 +213,129 @@ export class OrderRepositoryImpl implements IOrderRepository {
     return { orders, pagination };
   }
 
-  async updateStatus(orderId: string, newStatus: string, authenticatedUser: AuditTrailUser): Promise<void> {
+  async updateStatus(
+    orderId: string,
+    newStatus: string,
+    authenticatedUser: AuditTrailUser,
+    reason?: string
+  ): Promise<void> {
+    const client = await this.pool.connect();
+
     try {
-      const auditUser = getAuditUser(authenticatedUser);
-      const updatedOrder = await updateOrderWithAudit(orderId, {
-        orderstatus: newStatus
-      }, auditUser);
+      await client.query('BEGIN');
 
-      if (!updatedOrder) {
+      const orderResult = await client.query(
+        'SELECT type, orderstatus, payment_status FROM orders WHERE id = $1 FOR UPDATE',
+        [orderId]
+      );
+
+      if (orderResult.rows.length === 0) {
         throw new Error(`Order not found: ${orderId}`);
       }
+
+      // Validate against the locked row: a concurrent change may have moved the order on
+      const orderRow = orderResult.rows[0];
+      const previousStatus = String(orderRow.orderstatus);
+      assertStatusTransition(previousStatus, newStatus, {
+        orderType: String(orderRow.type),
+        paymentStatus: orderRow.payment_status ?? null
+      });
+
+      const auditUser = getAuditUser(authenticatedUser);
+
+      await client.query(
+        `UPDATE orders
+         SET orderstatus = $1,
+             updatedat = CURRENT_TIMESTAMP,
+             updatedBy = $2
+         WHERE id = $3`,
+        [newStatus, auditUser.id, orderId]
+      );
+
+      await this.insertStatusHistory(client, orderId, previousStatus, newStatus, auditUser.id, reason);
+
+      await client.query('COMMIT');
     } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof OrderStatusTransitionError) {
+        throw error;
+      }
       throw new Error(`Failed to update order status: ${(error as Error).message}`);
+    } finally {
+      client.release();
     }
   }
 
-  async update(orderId: string, updates: Partial<Order>, authenticatedUser: AuditTrailUser): Promise<void> {
+  async markPaid(orderId: string, paymentIntentId: string): Promise<boolean> {
     try {
-      const updateData: { type?: string; orderstatus?: string } = {};
-      if (updates.type) {
-        updateData.type = updates.type;
-      }
+      const result = await this.pool.query(
+        `UPDATE orders
+         SET payment_status = 'paid',
+             payment_intent_id = COALESCE(payment_intent_id, $2),
+             updatedat = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [orderId, paymentIntentId]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      throw new Error(`Failed to mark order as paid: ${(error as Error).message}`);
+    }
+  }
+
+  async update(orderId: string, updates: OrderUpdate, authenticatedUser: AuditTrailUser): Promise<void> {
+    if (!updates.type && !updates.status && !updates.notes) {
+      throw new Error('No valid fields provided for update');
+    }
+
+    const client = await this.pool.connect();
 
-      if (updates.status) {
-        updateData.orderstatus = updates.status;
+    try {
+      await client.query('BEGIN');
+
+      const orderResult = await client.query(
+        'SELECT type, orderstatus, payment_status FROM orders WHERE id = $1 FOR UPDATE',
+        [orderId]
+      );
+
+      if (orderResult.rows.length === 0) {
+        throw new Error(`Order not found: ${orderId}`);
       }
 
-      if (!updateData.type && !updateData.orderstatus) {
-        throw new Error('No valid fields provided for update');
+      const orderRow = orderResult.rows[0];
+      const previousStatus = String(orderRow.orderstatus);
+      const statusChanged = Boolean(updates.status) && updates.status !== previousStatus;
+      if (statusChanged) {
+        assertStatusTransition(previousStatus, updates.status as string, {
+          orderType: String(orderRow.type),
+          paymentStatus: orderRow.payment_status ?? null
+        });
       }
 
       const auditUser = getAuditUser(authenticatedUser);
-      const updatedOrder = await updateOrderWithAudit(orderId, updateData, auditUser);
+      await client.query(
+        `UPDATE orders
+         SET type = COALESCE($1, type),
+             orderstatus = COALESCE($2, orderstatus),
+             notes = COALESCE($3, notes),
+             updatedat = CURRENT_TIMESTAMP,
+             updatedBy = $4
+         WHERE id = $5`,
+        [updates.type ?? null, statusChanged ? updates.status : null, updates.notes ?? null, auditUser.id, orderId]
+      );
 
-      if (!updatedOrder) {
-        throw new Error(`Order not found: ${orderId}`);
+      if (statusChanged) {
+        await this.insertStatusHistory(client, orderId, previousStatus, updates.status as string, auditUser.id);
       }
+
+      await client.query('COMMIT');
     } catch (error) {
+      await client.query('ROLLBACK');
+      if (error instanceof OrderStatusTransitionError) {
+        throw error;
+      }
       throw new Error(`Failed to update order: ${(error as Error).message}`);
+    } finally {
+      client.release();
     }
   }
 
@@ -272,7 +384,7 @@ export class OrderRepositoryImpl implements IOrderRepository {
       await client.query('BEGIN');
 
       const orderResult = await client.query(
-        'SELECT id, userid, type, orderstatus FROM orders WHERE id = $1 FOR UPDATE',
+        'SELECT id, userid, type, orderstatus, payment_status, custodyserviceid FROM orders WHERE id = $1 FOR UPDATE',
         [orderId]
       );
 
@@ -282,7 +394,10 @@ export class OrderRepositoryImpl implements IOrderRepository {
 
       const orderRow = orderResult.rows[0];
       const currentStatus = String(orderRow.orderstatus);
-      const newStatus = this.getNextWorkflowStatus(currentStatus);
+      const newStatus = getNextWorkflowStatus(currentStatus, {
+        orderType: String(orderRow.type),
+        paymentStatus: orderRow.payment_status ?? null
+      });
 
       if (currentStatus === 'shipped') {
         await this.applyOrderFulfillment(
@@ -290,6 +405,7 @@ export class OrderRepositoryImpl implements IOrderRepository {
           orderId,
           String(orderRow.userid),
           String(orderRow.type),
+          orderRow.custodyserviceid ? String(orderRow.custodyserviceid) : null,
           authenticatedUser
         );
       }
@@ -304,6 +420,8 @@ export class OrderRepositoryImpl implements IOrderRepository {
         [newStatus, auditUser.id, orderId]
       );
 
+      await this.insertStatusHistory(client, orderId, currentStatus, newStatus, auditUser.id);
+
       await client.query('COMMIT');
       return { previousStatus: currentStatus, newStatus };
     } catch (error) {
@@ -314,38 +432,74 @@ export class OrderRepositoryImpl implements IOrderRepository {
     }
   }
 
-  private getNextWorkflowStatus(currentStatus: string): string {
-    switch (currentStatus) {
-      case 'pending':
-        return 'confirmed';
-      case 'confirmed':
-        return 'processing';
-      case 'processing':
-        return 'shipped';
-      case 'shipped':
-        return 'delivered';
-      case 'delivered':
-        return 'completed';
-      case 'completed':
-      case 'cancelled':
-        throw new Error(`ORDER_WORKFLOW_INVALID_STATE:${currentStatus}`);
-      default:
-        throw new Error(`ORDER_WORKFLOW_INVALID_STATE:${currentStatus}`);
+  async findStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT h.id, h.order_id, h.previous_status, h.new_status, h.reason,
+                h.changed_by, h.changed_at, u.email as changed_by_email
+         FROM order_status_history h
+         LEFT JOIN users u ON h.changed_by = u.id
+         WHERE h.order_id = $1
+         ORDER BY h.changed_at ASC, h.id ASC`,
+        [orderId]
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        orderId: row.order_id,
+        previousStatus: row.previous_status ?? null,
+        newStatus: row.new_status,
+        reason: row.reason ?? null,
+        changedBy: row.changed_by
+          ? { id: row.changed_by, email: row.changed_by_email ?? null }
+          : null,
+        changedAt: new Date(row.changed_at)
+      }));
+    } catch (error) {
+      throw new Error(`Failed to fetch order status history: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Appends a status history row using the caller's transaction client
+   */
+  private async insertStatusHistory(
+    client: Pool | PoolClient,
+    orderId: string,
+    previousStatus: string | null,
+    newStatus: string,
+    changedBy: string,
+    reason?: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO order_status_history (order_id, previous_status, new_status, reason, changed_by)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [orderId, previousStatus, newStatus, reason ?? null, changedBy]
+    );
+  }
+
   private async applyOrderFulfillment(
     client: PoolClient,
     orderId: string,
     userId: string,
     orderType: string,
+    custodyServiceId: string | null,
     authenticatedUser: AuditTrailUser
   ): Promise<void> {
     const auditUser = getAuditUser(authenticatedUser);
     const portfolioId = await this.getOrCreatePortfolioId(client, userId, auditUser.id);
 
+    if (orderType === 'buy') {
+      await this.assertCustodyWeightLimits(client, orderId, userId, custodyServiceId);
+    }
+
+    // Orders stored without a currency were priced in the product currency
     const orderItemsQuery = await client.query(
-      'SELECT productid, quantity, unitprice FROM order_items WHERE orderid = $1',
+      `SELECT oi.productid, oi.quantity, oi.unitprice, COALESCE(o.currency, p.currency) AS currency
+       FROM order_items oi
+       JOIN orders o ON o.id = oi.orderid
+       JOIN product p ON p.id = oi.productid
+       WHERE oi.orderid = $1`,
       [orderId]
     );
 
@@ -353,6 +507,7 @@ export class OrderRepositoryImpl implements IOrderRepository {
       const productId = String(item.productid);
       const quantity = Number.parseFloat(String(item.quantity));
       const unitPrice = Number.parseFloat(String(item.unitprice));
+      const currency = String(item.currency).trim();
 
       if (orderType === 'buy') {
         await this.processBuyItem(client, {
@@ -360,8 +515,10 @@ export class OrderRepositoryImpl implements IOrderRepository {
           productId,
           quantity,
           unitPrice,
+          currency,
           portfolioId,
           orderId,
+          custodyServiceId,
           auditUserId: auditUser.id,
         });
         continue;
@@ -373,6 +530,7 @@ export class OrderRepositoryImpl implements IOrderRepository {
           productId,
           quantity,
           unitPrice,
+          currency,
           orderId,
           auditUserId: auditUser.id,
         });
@@ -383,6 +541,94 @@ export class OrderRepositoryImpl implements IOrderRepository {
     }
   }
 
+  /**
+   * Rejects the fulfilment when a custody service would end up outside its
+   * min/max fine weight for the user. Items go to the custody service of the
+   * user's active position in the product, otherwise to the order's service.
+   */
+  private async assertCustodyWeightLimits(
+    client: PoolClient,
+    orderId: string,
+    userId: string,
+    custodyServiceId: string | null
+  ): Promise<void> {
+    const itemsResult = await client.query(
+      `SELECT oi.quantity, p.weight, p.weightunit, p.purity,
+              CASE WHEN pos.status = 'active'
+                   THEN COALESCE(pos.custodyserviceid, $3)
+                   ELSE $3::uuid
+              END AS custodyserviceid
+       FROM order_items oi
+       JOIN product p ON p.id = oi.productid
+       LEFT JOIN LATERAL (
+         SELECT status, custodyserviceid
+         FROM position
+         WHERE userid = $2 AND productid = oi.productid
+         ORDER BY updatedat DESC
+         LIMIT 1
+       ) pos ON TRUE
+       WHERE oi.orderid = $1`,
+      [orderId, userId, custodyServiceId]
+    );
+
+    const addedByService = new Map<string, CustodyWeightItem[]>();
+    for (const row of itemsResult.rows) {
+      if (!row.custodyserviceid) {
+        continue;
+      }
+      const items = addedByService.get(String(row.custodyserviceid)) ?? [];
+      items.push(this.mapRowToWeightItem(row));
+      addedByService.set(String(row.custodyserviceid), items);
+    }
+
+    if (addedByService.size === 0) {
+      return;
+    }
+
+    const serviceIds = Array.from(addedByService.keys());
+    const servicesResult = await client.query(
+      'SELECT id, custodyservicename, minweight, maxweight FROM custodyService WHERE id = ANY($1)',
+      [serviceIds]
+    );
+    const heldResult = await client.query(
+      `SELECT pos.custodyserviceid, pos.quantity, p.weight, p.weightunit, p.purity
+       FROM position pos
+       JOIN product p ON p.id = pos.productid
+       WHERE pos.userid = $1 AND pos.status = 'active' AND pos.custodyserviceid = ANY($2)`,
+      [userId, serviceIds]
+    );
+
+    for (const service of servicesResult.rows) {
+      const held = heldResult.rows
+        .filter(row => String(row.custodyserviceid) === String(service.id))
+        .map(row => this.mapRowToWeightItem(row));
+
+      const check = checkCustodyWeightLimits(
+        {
+          id: String(service.id),
+          name: String(service.custodyservicename),
+          minWeight: service.minweight === null ? null : Number.parseFloat(String(service.minweight)),
+          maxWeight: service.maxweight === null ? null : Number.parseFloat(String(service.maxweight)),
+        },
+        calculateFineWeightGrams(held),
+        calculateFineWeightGrams(addedByService.get(String(service.id)) ?? [])
+      );
+
+      if (!check.accepted) {
+        throw new CustodyWeightLimitError(check);
+      }
+    }
+  }
+
+  private mapRowToWeightItem(row: Record<string, unknown>): CustodyWeightItem {
+    return {
+      quantity: Number.parseFloat(String(row.quantity)),
+      weight: Number.parseFloat(String(row.weight)),
+      weightUnit: String(row.weightunit),
+      purity: Number.parseFloat(String(row.purity)),
+    };
+  }
+
   private async getOrCreatePortfolioId(client: PoolClient, userId: string, auditUserId: string): Promise<string> {
     const existingPortfolio = await client.query(
       'SELECT id FROM portfolio WHERE ownerid = $1 ORDER BY createdat ASC LIMIT 1',
@@ -410,8 +656,10 @@ export class OrderRepositoryImpl implements IOrderRepository {
       productId: string;
       quantity: number;
       unitPrice: number;
+      currency: string;
       portfolioId: string;
       orderId: string;
+      custodyServiceId: string | null;
       auditUserId: string;
     }
   ): Promise<void> {
@@ -436,12 +684,14 @@ export class OrderRepositoryImpl implements IOrderRepository {
            SET quantity = $1,
                purchaseprice = $2,
                marketprice = $2,
+               currency = $6,
                status = 'active',
                closeddate = NULL,
+               custodyserviceid = COALESCE($5, custodyserviceid),
                updatedBy = $3,
                updatedat = CURRENT_TIMESTAMP
            WHERE id = $4`,
-          [input.quantity, input.unitPrice, input.auditUserId, positionId]
+          [input.quantity, input.unitPrice, input.auditUserId, positionId, input.custodyServiceId, input.currency]
         );
       } else {
         const newQuantity = Number.parseFloat(String(row.quantity)) + input.quantity;
@@ -449,19 +699,21 @@ export class OrderRepositoryImpl implements IOrderRepository {
           `UPDATE position
            SET quantity = $1,
                purchaseprice = $2,
+               currency = $6,
+               custodyserviceid = COALESCE(custodyserviceid, $5),
                updatedBy = $3,
                updatedat = CURRENT_TIMESTAMP
            WHERE id = $4`,
-          [newQuantity, input.unitPrice, input.auditUserId, positionId]
+          [newQuantity, input.unitPrice, input.auditUserId, positionId, input.custodyServiceId, input.currency]
         );
       }
     } else {
       const newPosition = await client.query(
         `INSERT INTO position (
           userid, productid, portfolioid, purchasedate, purchaseprice, marketprice,
-          quantity, custodyserviceid, status, createdBy, updatedBy
+          currency, quantity, custodyserviceid, status, createdBy, updatedBy
          )
-         VALUES ($1, $2, $3, NOW(), $4, $4, $5, NULL, 'active', $6, $6)
+         VALUES ($1, $2, $3, NOW(), $4, $4, $8, $5, $7, 'active', $6, $6)
          RETURNING id`,
         [
           input.userId,
@@ -470,15 +722,36 @@ export class OrderRepositoryImpl implements IOrderRepository {
           input.unitPrice,
           input.quantity,
           input.auditUserId,
+          input.custodyServiceId,
+          input.currency,
         ]
       );
       positionId = String(newPosition.rows[0].id);
     }
 
+    const buyTransaction = await client.query(
+      `INSERT INTO transactions (positionid, userid, type, date, quantity, price, currency, fees, notes, createdBy)
+       VALUES ($1, $2, 'buy', NOW(), $3, $4, $7, 0, $5, $6)
+       RETURNING id, date`,
+      [positionId, input.userId, input.quantity, input.unitPrice, `Buy order ${input.orderId}`, input.auditUserId, input.currency]
+    );
+
+    // Every buy opens a tax lot that later sells are matched against
     await client.query(
-      `INSERT INTO transactions (positionid, userid, type, date, quantity, price, fees, notes, createdBy)
-       VALUES ($1, $2, 'buy', NOW(), $3, $4, 0, $5, $6)`,
-      [positionId, input.userId, input.quantity, input.unitPrice, `Buy order ${input.orderId}`, input.auditUserId]
+      `INSERT INTO tax_lot (
+        positionid, userid, productid, buy_transactionid, acquired_at,
+        original_quantity, remaining_quantity, unit_cost
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $6, $7)`,
+      [
+        positionId,
+        input.userId,
+        input.productId,
+        buyTransaction.rows[0].id,
+        buyTransaction.rows[0].date,
+        input.quantity,
+        input.unitPrice,
+      ]
     );
   }
 
@@ -489,12 +762,13 @@ export class OrderRepositoryImpl implements IOrderRepository {
       productId: string;
       quantity: number;
       unitPrice: number;
+      currency: string;
       orderId: string;
       auditUserId: string;
     }
   ): Promise<void> {
     const activePositionResult = await client.query(
-      `SELECT id, quantity
+      `SELECT id, quantity, purchaseprice, purchasedate
        FROM position
        WHERE userid = $1
          AND productid = $2
@@ -535,11 +809,94 @@ export class OrderRepositoryImpl implements IOrderRepository {
       );
     }
 
-    await client.query(
-      `INSERT INTO transactions (positionid, userid, type, date, quantity, price, fees, notes, createdBy)
-       VALUES ($1, $2, 'sell', NOW(), $3, $4, 0, $5, $6)`,
-      [positionId, input.userId, input.quantity, input.unitPrice, `Sell order ${input.orderId}`, input.auditUserId]
+    const sellTransaction = await client.query(
+      `INSERT INTO transactions (positionid, userid, type, date, quantity, price, currency, fees, notes, createdBy)
+       VALUES ($1, $2, 'sell', NOW(), $3, $4, $7, 0, $5, $6)
+       RETURNING id, date`,
+      [positionId, input.userId, input.quantity, input.unitPrice, `Sell order ${input.orderId}`, input.auditUserId, input.currency]
     );
+
+    await this.recordLotDisposals(client, {
+      positionId,
+      sellTransactionId: String(sellTransaction.rows[0].id),
+      disposedAt: new Date(sellTransaction.rows[0].date),
+      quantity: input.quantity,
+      unitPrice: input.unitPrice,
+      fallbackUnitCost: Number.parseFloat(String(activePosition.purchaseprice)),
+      fallbackAcquiredAt: new Date(activePosition.purchasedate),
+    });
+  }
+
+  /**
+   * Matches a sell against the open lots of the position (configured method)
+   * and records the realized gain of every consumed lot
+   */
+  private async recordLotDisposals(
+    client: PoolClient,
+    input: {
+      positionId: string;
+      sellTransactionId: string;
+      disposedAt: Date;
+      quantity: number;
+      unitPrice: number;
+      fallbackUnitCost: number;
+      fallbackAcquiredAt: Date;
+    }
+  ): Promise<void> {
+    const openLotsResult = await client.query(
+      `SELECT id, acquired_at, remaining_quantity, unit_cost
+       FROM tax_lot
+       WHERE positionid = $1 AND remaining_quantity > 0
+       ORDER BY acquired_at ASC
+       FOR UPDATE`,
+      [input.positionId]
+    );
+
+    const openLots: OpenTaxLot[] = openLotsResult.rows.map(row => ({
+      id: String(row.id),
+      acquiredAt: new Date(row.acquired_at),
+      remainingQuantity: Number.parseFloat(String(row.remaining_quantity)),
+      unitCost: Number.parseFloat(String(row.unit_cost)),
+    }));
+
+    const match = matchSellAgainstLots(openLots, {
+      quantity: input.quantity,
+      unitPrice: input.unitPrice,
+      fees: 0,
+      disposedAt: input.disposedAt,
+      fallbackUnitCost: input.fallbackUnitCost,
+      fallbackAcquiredAt: input.fallbackAcquiredAt,
+    }, this.taxLotMethod);
+
+    for (const update of match.lotUpdates) {
+      await client.query(
+        'UPDATE tax_lot SET remaining_quantity = $1, updatedat = CURRENT_TIMESTAMP WHERE id = $2',
+        [update.remainingQuantity, update.taxLotId]
+      );
+    }
+
+    for (const slice of match.slices) {
+      await client.query(
+        `INSERT INTO lot_disposal (
+          sell_transactionid, tax_lotid, positionid, method, quantity, acquired_at, disposed_at,
+          holding_period_days, proceeds, cost_basis, realized_gain
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          input.sellTransactionId,
+          slice.taxLotId,
+          input.positionId,
+          match.method,
+          slice.quantity,
+          slice.acquiredAt,
+          input.disposedAt,
+          slice.holdingPeriodDays,
+          slice.proceeds,
+          slice.costBasis,
+          slice.realizedGain,
+        ]
+      );
+    }
   }
 
   // ============================================================================
@@ -579,9 +936,7 @@ export class OrderRepositoryImpl implements IOrderRepository {
         } : {})
       }));
 
-    const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-    const taxes = 0;
-    const totalAmount = subtotal + taxes;
+    const amounts = this.mapOrderAmounts(firstRow, items);
 
     // Map custody service if present
     const custodyService = firstRow.custodyservicename ? {
@@ -603,16 +958,40 @@ export class OrderRepositoryImpl implements IOrderRepository {
       status: firstRow.orderstatus,
       orderNumber: this.generateOrderNumber(firstRow.id),
       items,
-      currency: firstRow.currency || 'CHF',
-      subtotal,
-      taxes,
-      totalAmount,
+      ...amounts,
+      paymentStatus: firstRow.payment_status ?? undefined,
       custodyService,
       createdAt: new Date(firstRow.createdat),
       updatedAt: new Date(firstRow.updatedat)
     };
   }
 
+  /**
+   * Stored order amounts; orders stored without amounts are summed from their
+   * items in the product currency, without fees and taxes
+   */
+  private mapOrderAmounts(
+    row: Record<string, unknown>,
+    items: OrderItem[]
+  ): Pick<Order, 'currency' | 'subtotal' | 'fees' | 'taxes' | 'totalAmount'> {
+    if (row.order_total_amount === null || row.order_total_amount === undefined) {
+      const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+      return { currency: (row.currency as string | null) || 'CHF', subtotal, taxes: 0, totalAmount: subtotal };
+    }
+
+    return {
+      currency: String(row.order_currency).trim(),
+      subtotal: Number.parseFloat(String(row.order_subtotal)),
+      fees: {
+        processing: Number.parseFloat(String(row.order_processing_fee ?? 0)),
+        shipping: Number.parseFloat(String(row.order_shipping_fee ?? 0)),
+        insurance: Number.parseFloat(String(row.order_insurance_fee ?? 0)),
+      },
+      taxes: Number.parseFloat(String(row.order_taxes ?? 0)),
+      totalAmount: Number.parseFloat(String(row.order_total_amount)),
+    };
+  }
+
   private generateOrderNumber(orderId: string): string {
     return `ORD-${orderId.slice(0, 8).toUpperCase()}`;
   }
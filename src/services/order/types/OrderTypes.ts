@@ -5,6 +5,8 @@
  * Centralized for consistency and reusability
  */
 
+import type { DeliveryMethod, ShippingCharges } from '../../calculation/types/CalculationTypes';
+
 // Re-export enums for convenience
 export { OrderType, OrderStatus, OrderSource } from '@marcopersi/shared';
 
@@ -66,13 +68,39 @@ export interface Order {
   items: OrderItem[];
   currency: string;
   subtotal: number;
+  /** Fees charged on creation; absent for orders stored before the amounts were persisted */
+  fees?: OrderFees;
   taxes: number;
   totalAmount: number;
+  paymentStatus?: string;
+  /** Custody service the bought items are allocated to (persisted on create) */
+  custodyServiceId?: string;
   custodyService?: OrderCustodyService | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// ============================================================================
+// Status History
+// ============================================================================
+
+/**
+ * One entry of the order status timeline (order_status_history)
+ * previousStatus is null for the initial status of an order
+ */
+export interface OrderStatusHistoryEntry {
+  id: string;
+  orderId: string;
+  previousStatus: string | null;
+  newStatus: string;
+  reason: string | null;
+  changedBy: {
+    id: string;
+    email: string | null;
+  } | null;
+  changedAt: Date;
+}
+
 // ============================================================================
 // Request/Response Types
 // ============================================================================
@@ -84,18 +112,36 @@ export interface CreateOrderRequest {
   shippingAddress?: any;
   paymentMethod?: any;
   custodyAssignments?: any[];
+  /** Custody service for bought items; checked against its min/max fine weight */
+  custodyServiceId?: string;
   notes?: string;
+  /** Price quote locking the unit prices; redeemed on order creation */
+  quoteId?: string;
+  /** Ships bought items with the matching tariff and insurance; omitted = no shipping charges */
+  deliveryMethod?: DeliveryMethod;
+}
+
+/**
+ * Editable order fields (PUT /orders/{id}); a status change goes through the transition table
+ */
+export interface OrderUpdate {
+  type?: string;
+  status?: string;
+  notes?: string;
+}
+
+export interface OrderFees {
+  processing: number;
+  shipping: number;
+  insurance: number;
 }
 
 export interface OrderCalculation {
   subtotal: number;
-  fees: {
-    processing: number;
-    shipping: number;
-    insurance: number;
-  };
+  fees: OrderFees;
   taxes: number;
   totalAmount: number;
+  shipping?: ShippingCharges;
 }
 
 export interface CreateOrderResult {
@@ -0,0 +1,192 @@
+/**
+ * Order Status Transitions
+ *
+ * Declarative state machine for the order lifecycle.
+ * Single source of truth for manual status updates and the admin workflow
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OrderStatusValue =
+  | 'pending'
+  | 'confirmed'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'completed'
+  | 'cancelled';
+
+/**
+ * Order facts the transition guards are evaluated against
+ */
+export interface OrderTransitionContext {
+  orderType?: string;
+  paymentStatus?: string | null;
+}
+
+/**
+ * Guard returns a rejection reason, or null when the transition is allowed
+ */
+export type OrderTransitionGuard = (context: OrderTransitionContext) => string | null;
+
+export interface OrderStatusTransition {
+  to: OrderStatusValue;
+  /** Marks the transition taken by POST /orders/{id}/process */
+  workflow?: boolean;
+  guard?: OrderTransitionGuard;
+}
+
+export const ORDER_STATUS_TRANSITION_ERROR_CODE = 'ORDER_INVALID_STATUS_TRANSITION';
+
+// ============================================================================
+// Guards
+// ============================================================================
+
+/**
+ * Buy orders are only shipped once the customer has paid
+ */
+const requirePaymentForBuyOrders: OrderTransitionGuard = (context) => {
+  if (context.orderType?.toLowerCase() !== 'buy') {
+    return null;
+  }
+
+  return context.paymentStatus === 'paid'
+    ? null
+    : `Buy orders cannot be shipped unless payment_status is 'paid' (current: '${context.paymentStatus ?? 'unknown'}')`;
+};
+
+// ============================================================================
+// Transition Table
+// ============================================================================
+
+export const ORDER_STATUS_TRANSITIONS: Readonly<Record<OrderStatusValue, readonly OrderStatusTransition[]>> = {
+  pending: [
+    { to: 'confirmed', workflow: true },
+    { to: 'cancelled' },
+  ],
+  confirmed: [
+    { to: 'processing', workflow: true },
+    { to: 'cancelled' },
+  ],
+  processing: [
+    { to: 'shipped', workflow: true, guard: requirePaymentForBuyOrders },
+    { to: 'cancelled' },
+  ],
+  shipped: [
+    { to: 'delivered', workflow: true },
+  ],
+  delivered: [
+    { to: 'completed', workflow: true },
+  ],
+  completed: [],
+  cancelled: [],
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Raised when a requested status change is not allowed by the transition table
+ */
+export class OrderStatusTransitionError extends Error {
+  public readonly code = ORDER_STATUS_TRANSITION_ERROR_CODE;
+
+  constructor(
+    public readonly currentStatus: string,
+    public readonly requestedStatus: string | null,
+    public readonly allowedNextStatuses: OrderStatusValue[],
+    public readonly reason?: string
+  ) {
+    super(OrderStatusTransitionError.buildMessage(currentStatus, requestedStatus, allowedNextStatuses, reason));
+    this.name = 'OrderStatusTransitionError';
+  }
+
+  private static buildMessage(
+    currentStatus: string,
+    requestedStatus: string | null,
+    allowedNextStatuses: OrderStatusValue[],
+    reason?: string
+  ): string {
+    const allowed = allowedNextStatuses.length > 0 ? allowedNextStatuses.join(', ') : 'none';
+    const target = requestedStatus ?? 'next workflow status';
+    const suffix = reason ? `: ${reason}` : '';
+    return `Invalid status transition from ${currentStatus} to ${target} (allowed: ${allowed})${suffix}`;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isKnownStatus(status: string): status is OrderStatusValue {
+  return Object.prototype.hasOwnProperty.call(ORDER_STATUS_TRANSITIONS, status);
+}
+
+function getTransitions(status: string): readonly OrderStatusTransition[] {
+  const normalized = status.toLowerCase();
+  return isKnownStatus(normalized) ? ORDER_STATUS_TRANSITIONS[normalized] : [];
+}
+
+function isTerminalStatus(status: string): boolean {
+  return getTransitions(status).length === 0;
+}
+
+/**
+ * Statuses reachable from the current status with all guards passing
+ */
+export function getAllowedNextStatuses(
+  currentStatus: string,
+  context: OrderTransitionContext = {}
+): OrderStatusValue[] {
+  return getTransitions(currentStatus)
+    .filter(transition => !transition.guard || transition.guard(context) === null)
+    .map(transition => transition.to);
+}
+
+/**
+ * Throws OrderStatusTransitionError unless currentStatus -> newStatus is allowed
+ */
+export function assertStatusTransition(
+  currentStatus: string,
+  newStatus: string,
+  context: OrderTransitionContext = {}
+): void {
+  const target = newStatus.toLowerCase();
+  const transition = getTransitions(currentStatus).find(candidate => candidate.to === target);
+
+  if (!transition) {
+    const reason = isTerminalStatus(currentStatus) ? `Order is ${currentStatus.toLowerCase()}` : undefined;
+    throw new OrderStatusTransitionError(currentStatus, target, getAllowedNextStatuses(currentStatus, context), reason);
+  }
+
+  const rejection = transition.guard?.(context) ?? null;
+  if (rejection) {
+    throw new OrderStatusTransitionError(currentStatus, target, getAllowedNextStatuses(currentStatus, context), rejection);
+  }
+}
+
+/**
+ * Resolves the next workflow status (pending -> confirmed -> ... -> completed)
+ * Throws OrderStatusTransitionError for terminal states and failed guards
+ */
+export function getNextWorkflowStatus(
+  currentStatus: string,
+  context: OrderTransitionContext = {}
+): OrderStatusValue {
+  const transition = getTransitions(currentStatus).find(candidate => candidate.workflow);
+
+  if (!transition) {
+    throw new OrderStatusTransitionError(
+      currentStatus,
+      null,
+      getAllowedNextStatuses(currentStatus, context),
+      `Order is ${currentStatus.toLowerCase()} and cannot be processed further`
+    );
+  }
+
+  assertStatusTransition(currentStatus, transition.to, context);
+  return transition.to;
+}
@@ -6,6 +6,22 @@
  */
 
 import { OrderType, OrderStatus, CreateOrderRequest } from '../types/OrderTypes';
+import { assertStatusTransition, OrderStatusTransitionError, OrderTransitionContext } from './OrderStatusTransitions';
+
+export {
+  ORDER_STATUS_TRANSITIONS,
+  ORDER_STATUS_TRANSITION_ERROR_CODE,
+  OrderStatusTransitionError,
+  assertStatusTransition,
+  getAllowedNextStatuses,
+  getNextWorkflowStatus,
+} from './OrderStatusTransitions';
+export type {
+  OrderStatusValue,
+  OrderStatusTransition,
+  OrderTransitionContext,
+  OrderTransitionGuard,
+} from './OrderStatusTransitions';
 
 // ============================================================================
 // Valid Values
@@ -25,9 +41,27 @@ export function isValidOrderStatus(status: string): boolean {
   return OrderStatus.fromValue(status.toLowerCase()) !== undefined;
 }
 
-export function isValidStatusTransition(currentStatus: string, newStatus: string): boolean {
-  // Simple validation for now - in practice this would have more complex business rules
-  return isValidOrderStatus(newStatus);
+/**
+ * Checks a status change against the order status transition table
+ */
+export function isValidStatusTransition(
+  currentStatus: string,
+  newStatus: string,
+  context: OrderTransitionContext = {}
+): boolean {
+  if (!isValidOrderStatus(newStatus)) {
+    return false;
+  }
+
+  try {
+    assertStatusTransition(currentStatus, newStatus, context);
+    return true;
+  } catch (error) {
+    if (error instanceof OrderStatusTransitionError) {
+      return false;
+    }
+    throw error;
+  }
 }
 
 export function validateCreateOrderRequest(request: CreateOrderRequest): void {
@@ -17,16 +17,28 @@ import {
 } from '@marcopersi/shared';
 import Stripe from 'stripe';
 
+export interface PaymentRequestOptions {
+  /** Requests repeated with the same key get the first result instead of being processed again */
+  idempotencyKey?: string;
+}
+
 export interface IPaymentService {
   /**
    * Create a payment intent using Stripe
    */
-  createPaymentIntent(request: CreatePaymentIntentRequest): Promise<CreatePaymentIntentResponse>;
+  createPaymentIntent(
+    request: CreatePaymentIntentRequest,
+    options?: PaymentRequestOptions
+  ): Promise<CreatePaymentIntentResponse>;
 
   /**
    * Confirm a payment intent
    */
-  confirmPayment(paymentIntentId: string, request: ConfirmPaymentRequest): Promise<ConfirmPaymentResponse>;
+  confirmPayment(
+    paymentIntentId: string,
+    request: ConfirmPaymentRequest,
+    options?: PaymentRequestOptions
+  ): Promise<ConfirmPaymentResponse>;
 
   /**
    * Retrieve a payment intent
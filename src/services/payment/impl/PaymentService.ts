@@ -20,7 +20,7 @@ import {
   PaymentMethod,
   PaymentError
 } from '@marcopersi/shared';
-import { IPaymentService } from '../IPaymentService';
+import { IPaymentService, PaymentRequestOptions } from '../IPaymentService';
 
 export class PaymentServiceImpl implements IPaymentService {
   constructor(private readonly stripe: Stripe) {}
@@ -28,7 +28,10 @@ export class PaymentServiceImpl implements IPaymentService {
   /**
    * Create a payment intent using Stripe
    */
-  async createPaymentIntent(request: CreatePaymentIntentRequest): Promise<CreatePaymentIntentResponse> {
+  async createPaymentIntent(
+    request: CreatePaymentIntentRequest,
+    options?: PaymentRequestOptions
+  ): Promise<CreatePaymentIntentResponse> {
     try {
       const stripePaymentIntent = await this.stripe.paymentIntents.create({
         amount: request.amount,
@@ -43,7 +46,7 @@ export class PaymentServiceImpl implements IPaymentService {
         automatic_payment_methods: {
           enabled: true,
         },
-      });
+      }, this.toRequestOptions(options));
 
       const paymentIntent: PaymentIntentType = this.mapStripePaymentIntent(stripePaymentIntent);
 
@@ -60,7 +63,11 @@ export class PaymentServiceImpl implements IPaymentService {
   /**
    * Confirm a payment intent
    */
-  async confirmPayment(paymentIntentId: string, request: ConfirmPaymentRequest): Promise<ConfirmPaymentResponse> {
+  async confirmPayment(
+    paymentIntentId: string,
+    request: ConfirmPaymentRequest,
+    options?: PaymentRequestOptions
+  ): Promise<ConfirmPaymentResponse> {
     try {
       const confirmParams: Stripe.PaymentIntentConfirmParams = {};
       
@@ -74,7 +81,8 @@ export class PaymentServiceImpl implements IPaymentService {
 
       const stripePaymentIntent = await this.stripe.paymentIntents.confirm(
         paymentIntentId,
-        confirmParams
+        confirmParams,
+        this.toRequestOptions(options)
       );
 
       const paymentIntent: PaymentIntentType = this.mapStripePaymentIntent(stripePaymentIntent);
@@ -205,6 +213,13 @@ export class PaymentServiceImpl implements IPaymentService {
     }
   }
 
+  /**
+   * Map our request options to Stripe request options
+   */
+  private toRequestOptions(options?: PaymentRequestOptions): Stripe.RequestOptions | undefined {
+    return options?.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : undefined;
+  }
+
   /**
    * Map Stripe PaymentIntent to our PaymentIntent type
    */
@@ -5,7 +5,7 @@
  */
 
 // Interfaces
-export { IPaymentService } from './IPaymentService';
+export { IPaymentService, PaymentRequestOptions } from './IPaymentService';
 
 // Implementations
 export { PaymentServiceImpl } from './impl/PaymentService';
@@ -18,7 +18,7 @@ import {
   PaymentIntent,
   PaymentMethod
 } from '@marcopersi/shared';
-import { IPaymentService } from '../IPaymentService';
+import { IPaymentService, PaymentRequestOptions } from '../IPaymentService';
 
 export class PaymentServiceMock implements IPaymentService {
   private paymentIntents: Map<string, PaymentIntent> = new Map();
@@ -62,7 +62,10 @@ export class PaymentServiceMock implements IPaymentService {
     this.paymentMethods.set('cus_mock_123', mockPaymentMethods);
   }
 
-  async createPaymentIntent(request: CreatePaymentIntentRequest): Promise<CreatePaymentIntentResponse> {
+  async createPaymentIntent(
+    request: CreatePaymentIntentRequest,
+    _options?: PaymentRequestOptions
+  ): Promise<CreatePaymentIntentResponse> {
     const paymentIntent: PaymentIntent = {
       id: `pi_mock_${Date.now()}`,
       clientSecret: `pi_mock_${Date.now()}_secret`,
@@ -85,7 +88,11 @@ export class PaymentServiceMock implements IPaymentService {
     };
   }
 
-  async confirmPayment(paymentIntentId: string, _request: ConfirmPaymentRequest): Promise<ConfirmPaymentResponse> {
+  async confirmPayment(
+    paymentIntentId: string,
+    _request: ConfirmPaymentRequest,
+    _options?: PaymentRequestOptions
+  ): Promise<ConfirmPaymentResponse> {
     const paymentIntent = this.paymentIntents.get(paymentIntentId);
 
     if (!paymentIntent) {
@@ -13,6 +13,7 @@ import {
   UpdatePortfolioRequest,
   PortfolioResult
 } from './types/PortfolioTypes';
+import { RealizedGainsReport } from './types/TaxLotTypes';
 import { AuditTrailUser } from '../../utils/auditTrail';
 
 export interface IPortfolioService {
@@ -21,6 +22,7 @@ export interface IPortfolioService {
   getUserPortfolios(userId: string, options?: ListPortfoliosOptions): Promise<GetPortfoliosResult>;
   getPortfolioById(portfolioId: string): Promise<PortfolioResult<PortfolioSummary>>;
   getPortfolioWithPositions(portfolioId: string): Promise<PortfolioResult<PortfolioWithPositions>>;
+  getRealizedGains(portfolioId: string, year: number): Promise<PortfolioResult<RealizedGainsReport>>;
   
   // CRUD operations
   createPortfolio(request: CreatePortfolioRequest, authenticatedUser: AuditTrailUser): Promise<PortfolioResult<PortfolioSummary>>;
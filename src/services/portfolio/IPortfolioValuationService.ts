@@ -0,0 +1,25 @@
+/**
+ * IPortfolioValuationService Interface
+ *
+ * Marks active portfolio positions to market using current spot prices
+ */
+
+import { PortfolioResult } from './types/PortfolioTypes';
+import { PerformanceOptions, PortfolioPerformance, PortfolioValuation } from './types/PortfolioValuationTypes';
+
+export interface IPortfolioValuationService {
+  /**
+   * Value a portfolio per position, per metal and in total.
+   * Currency defaults to the owner's preferred currency.
+   */
+  getPortfolioValuation(portfolioId: string, currency?: string): Promise<PortfolioResult<PortfolioValuation>>;
+
+  /**
+   * Portfolio value over time: holdings rebuilt from transactions at each point,
+   * priced with the daily close from price history.
+   * Defaults: last 30 days, interval 'day', owner's preferred currency.
+   */
+  getPortfolioPerformance(portfolioId: string, options?: PerformanceOptions): Promise<PortfolioResult<PortfolioPerformance>>;
+}
+
+export default IPortfolioValuationService;
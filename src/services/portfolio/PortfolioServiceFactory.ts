@@ -10,6 +10,12 @@ import { IPortfolioRepository } from './repository/IPortfolioRepository';
 import { PortfolioServiceImpl } from './impl/PortfolioServiceImpl';
 import { PortfolioRepositoryImpl } from './repository/PortfolioRepositoryImpl';
 import { PortfolioRepositoryMock } from './mock/PortfolioRepositoryMock';
+import { IPortfolioValuationService } from './IPortfolioValuationService';
+import { PortfolioValuationServiceImpl } from './impl/PortfolioValuationServiceImpl';
+import { MarketDataServiceFactory } from '../market-data/MarketDataServiceFactory';
+import type { IMarketDataService } from '../market-data/IMarketDataService';
+import { FxServiceFactory } from '../fx/FxServiceFactory';
+import type { IFxService } from '../fx/IFxService';
 
 export class PortfolioServiceFactory {
   /**
@@ -28,6 +34,29 @@ export class PortfolioServiceFactory {
     return new PortfolioServiceImpl(repository);
   }
 
+  /**
+   * Create production valuation service (mark-to-market against spot prices)
+   */
+  static createValuationService(pool: Pool, marketDataService?: IMarketDataService): IPortfolioValuationService {
+    const repository = this.createRepository(pool);
+    return new PortfolioValuationServiceImpl(
+      repository,
+      marketDataService ?? MarketDataServiceFactory.create(pool),
+      FxServiceFactory.create(pool)
+    );
+  }
+
+  /**
+   * Create valuation service for testing
+   */
+  static createValuationServiceMock(
+    marketDataService: Pick<IMarketDataService, 'getCurrentPrice'>,
+    fxService: Pick<IFxService, 'getRateTable'> = FxServiceFactory.createMock(),
+    repository: IPortfolioRepository = this.createRepositoryMock()
+  ): IPortfolioValuationService {
+    return new PortfolioValuationServiceImpl(repository, marketDataService, fxService);
+  }
+
   /**
    * Create Portfolio repository with PostgreSQL
    */
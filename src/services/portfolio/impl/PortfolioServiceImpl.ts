@@ -19,6 +19,8 @@ import {
   validateCreateRequest,
   validateUpdateRequest
 } from '../types/PortfolioTypes';
+import { RealizedGainsReport } from '../types/TaxLotTypes';
+import { summarizeRealizedGains } from '../utils/TaxLotMatcher';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
 export class PortfolioServiceImpl implements IPortfolioService {
@@ -70,6 +72,42 @@ export class PortfolioServiceImpl implements IPortfolioService {
     }
   }
 
+  async getRealizedGains(portfolioId: string, year: number): Promise<PortfolioResult<RealizedGainsReport>> {
+    if (!Number.isInteger(year) || year < 1900 || year > 9999) {
+      return {
+        success: false,
+        error: { code: PortfolioErrorCode.VALIDATION_ERROR, message: `Invalid year: ${year}` }
+      };
+    }
+
+    try {
+      const portfolio = await this.portfolioRepository.getById(portfolioId);
+      if (!portfolio) {
+        return {
+          success: false,
+          error: { code: PortfolioErrorCode.NOT_FOUND, message: 'Portfolio not found' }
+        };
+      }
+
+      const disposals = await this.portfolioRepository.getLotDisposals(
+        portfolioId,
+        new Date(Date.UTC(year, 0, 1)),
+        new Date(Date.UTC(year + 1, 0, 1))
+      );
+
+      return {
+        success: true,
+        data: { portfolioId, year, disposals, totals: summarizeRealizedGains(disposals) }
+      };
+    } catch (error) {
+      console.error('Error getting realized gains:', error);
+      return {
+        success: false,
+        error: { code: PortfolioErrorCode.INTERNAL_ERROR, message: 'Failed to get realized gains' }
+      };
+    }
+  }
+
   async createPortfolio(
     request: CreatePortfolioRequest,
     authenticatedUser: AuditTrailUser
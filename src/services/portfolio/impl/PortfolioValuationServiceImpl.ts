@@ -0,0 +1,262 @@
+/**
+ * Portfolio Valuation Service Implementation
+ *
+ * Values active positions as fine weight x current spot price
+ * and reports unrealized P&L against the purchase price.
+ * Spot prices are quoted in USD; spot and purchase prices are converted
+ * into the valuation currency with the latest exchange rates.
+ * Performance series convert each point's closes with the rates at that date
+ * and each transaction with the rates at the transaction date.
+ */
+
+import { IPortfolioValuationService } from '../IPortfolioValuationService';
+import { IPortfolioRepository } from '../repository/IPortfolioRepository';
+import type { IMarketDataService } from '../../market-data/IMarketDataService';
+import type { IFxService } from '../../fx/IFxService';
+import { FxError, FxErrorCode } from '../../fx/types/FxTypes';
+import type { FxRateTable } from '../../fx/utils/FxRateTable';
+import { SPOT_PRICE_CURRENCY } from '../../pricing/types/PricingTypes';
+import { PortfolioError, PortfolioErrorCode, PortfolioResult } from '../types/PortfolioTypes';
+import {
+  DEFAULT_VALUATION_CURRENCY,
+  MAX_PERFORMANCE_POINTS,
+  PERFORMANCE_INTERVALS,
+  PerformanceOptions,
+  PerformanceTransaction,
+  PortfolioPerformance,
+  PortfolioValuation,
+} from '../types/PortfolioValuationTypes';
+import { aggregateByMetal, aggregatePortfolio, valuePositionsInCurrency } from '../utils/PortfolioValuationCalculator';
+import {
+  buildPerformanceDates,
+  calculatePerformanceSeries,
+  countPerformancePoints,
+} from '../utils/PortfolioPerformanceCalculator';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DEFAULT_PERFORMANCE_DAYS = 30;
+
+function mapFxError(error: FxError): PortfolioError {
+  return {
+    code: error.code === FxErrorCode.RATE_UNAVAILABLE
+      ? PortfolioErrorCode.FX_RATE_UNAVAILABLE
+      : PortfolioErrorCode.VALIDATION_ERROR,
+    message: error.message
+  };
+}
+
+export class PortfolioValuationServiceImpl implements IPortfolioValuationService {
+  constructor(
+    private readonly portfolioRepository: IPortfolioRepository,
+    private readonly marketDataService: Pick<IMarketDataService, 'getCurrentPrice'>,
+    private readonly fxService: Pick<IFxService, 'getRateTable'>
+  ) {}
+
+  async getPortfolioValuation(portfolioId: string, currency?: string): Promise<PortfolioResult<PortfolioValuation>> {
+    const requestedCurrency = currency?.trim().toUpperCase();
+    if (requestedCurrency && !CURRENCY_PATTERN.test(requestedCurrency)) {
+      return {
+        success: false,
+        error: { code: PortfolioErrorCode.VALIDATION_ERROR, message: `Invalid currency: ${currency}` }
+      };
+    }
+
+    try {
+      const portfolio = await this.portfolioRepository.getById(portfolioId);
+      if (!portfolio) {
+        return {
+          success: false,
+          error: { code: PortfolioErrorCode.NOT_FOUND, message: 'Portfolio not found' }
+        };
+      }
+
+      const valuationCurrency = await this.resolveCurrency(portfolioId, requestedCurrency);
+
+      const inputs = await this.portfolioRepository.getActivePositionsForValuation(portfolioId);
+      const spotPrices = await this.loadSpotPrices([...new Set(inputs.map(input => input.metalSymbol))]);
+      const rates = await this.fxService.getRateTable();
+
+      const positions = valuePositionsInCurrency(inputs, spotPrices, rates, valuationCurrency);
+
+      return {
+        success: true,
+        data: {
+          portfolioId,
+          currency: valuationCurrency,
+          valuedAt: new Date(),
+          positions,
+          metals: aggregateByMetal(positions),
+          totals: aggregatePortfolio(positions)
+        }
+      };
+    } catch (error) {
+      if (error instanceof FxError) {
+        return { success: false, error: mapFxError(error) };
+      }
+      console.error('Error valuing portfolio:', error);
+      return {
+        success: false,
+        error: { code: PortfolioErrorCode.INTERNAL_ERROR, message: 'Failed to value portfolio' }
+      };
+    }
+  }
+
+  async getPortfolioPerformance(
+    portfolioId: string,
+    options: PerformanceOptions = {}
+  ): Promise<PortfolioResult<PortfolioPerformance>> {
+    const interval = options.interval ?? 'day';
+    const to = options.to ?? new Date();
+    const from = options.from ?? new Date(to.getTime() - DEFAULT_PERFORMANCE_DAYS * 24 * 60 * 60 * 1000);
+    const requestedCurrency = options.currency?.trim().toUpperCase();
+
+    const validationError = this.validatePerformanceOptions(from, to, interval, requestedCurrency);
+    if (validationError) {
+      return {
+        success: false,
+        error: { code: PortfolioErrorCode.VALIDATION_ERROR, message: validationError }
+      };
+    }
+
+    try {
+      const portfolio = await this.portfolioRepository.getById(portfolioId);
+      if (!portfolio) {
+        return {
+          success: false,
+          error: { code: PortfolioErrorCode.NOT_FOUND, message: 'Portfolio not found' }
+        };
+      }
+
+      const currency = await this.resolveCurrency(portfolioId, requestedCurrency);
+      const dates = buildPerformanceDates(from, to, interval);
+      const until = dates[dates.length - 1];
+
+      const transactions = await this.convertTransactions(
+        await this.portfolioRepository.getTransactionsForPerformance(portfolioId, until),
+        currency
+      );
+      const prices = await this.portfolioRepository.getMetalDailyCloses(
+        [...new Set(transactions.map(tx => tx.metalSymbol))],
+        from,
+        until
+      );
+      const spotRates = await this.loadSpotRates(dates, currency);
+
+      const points = calculatePerformanceSeries(transactions, prices, dates, spotRates);
+      const startValue = points[0].marketValue;
+      const endValue = points[points.length - 1].marketValue;
+      const valueChange = Math.round((endValue - startValue) * 100) / 100;
+
+      return {
+        success: true,
+        data: {
+          portfolioId,
+          currency,
+          interval,
+          from,
+          to,
+          points,
+          summary: {
+            startValue,
+            endValue,
+            valueChange,
+            valueChangePercentage: startValue > 0 ? Math.round((valueChange / startValue) * 10000) / 100 : 0
+          }
+        }
+      };
+    } catch (error) {
+      if (error instanceof FxError) {
+        return { success: false, error: mapFxError(error) };
+      }
+      console.error('Error calculating portfolio performance:', error);
+      return {
+        success: false,
+        error: { code: PortfolioErrorCode.INTERNAL_ERROR, message: 'Failed to calculate portfolio performance' }
+      };
+    }
+  }
+
+  private validatePerformanceOptions(
+    from: Date,
+    to: Date,
+    interval: string,
+    currency: string | undefined
+  ): string | null {
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return 'from and to must be valid dates';
+    }
+    if (from > to) {
+      return 'from must be before to';
+    }
+    if (!(PERFORMANCE_INTERVALS as readonly string[]).includes(interval)) {
+      return `interval must be one of: ${PERFORMANCE_INTERVALS.join(', ')}`;
+    }
+    if (currency && !CURRENCY_PATTERN.test(currency)) {
+      return `Invalid currency: ${currency}`;
+    }
+    if (countPerformancePoints(from, to, interval as PortfolioPerformance['interval']) > MAX_PERFORMANCE_POINTS) {
+      return `Range too large for interval '${interval}' (max ${MAX_PERFORMANCE_POINTS} points)`;
+    }
+    return null;
+  }
+
+  private async resolveCurrency(portfolioId: string, requestedCurrency?: string): Promise<string> {
+    return requestedCurrency
+      || await this.portfolioRepository.getOwnerPreferredCurrency(portfolioId)
+      || DEFAULT_VALUATION_CURRENCY;
+  }
+
+  /**
+   * Current spot prices in SPOT_PRICE_CURRENCY by metal symbol
+   */
+  private async loadSpotPrices(metalSymbols: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    await Promise.all(metalSymbols.map(async symbol => {
+      const marketPrice = await this.marketDataService.getCurrentPrice(symbol, SPOT_PRICE_CURRENCY);
+      if (marketPrice && marketPrice.pricePerTroyOz > 0) {
+        prices.set(symbol, marketPrice.pricePerTroyOz);
+      }
+    }));
+
+    return prices;
+  }
+
+  /**
+   * Rate from SPOT_PRICE_CURRENCY into the series currency at each date
+   */
+  private async loadSpotRates(dates: Date[], currency: string): Promise<number[]> {
+    if (currency === SPOT_PRICE_CURRENCY) {
+      return dates.map(() => 1);
+    }
+
+    return Promise.all(dates.map(async date => {
+      const rates = await this.fxService.getRateTable(date);
+      return rates.getRate(SPOT_PRICE_CURRENCY, currency).rate;
+    }));
+  }
+
+  /**
+   * Transaction prices and fees in the series currency, converted with the rates at each transaction date
+   */
+  private async convertTransactions(
+    transactions: PerformanceTransaction[],
+    currency: string
+  ): Promise<PerformanceTransaction[]> {
+    const tables = new Map<number, Promise<FxRateTable>>();
+
+    return Promise.all(transactions.map(async tx => {
+      if (tx.currency === currency) {
+        return tx;
+      }
+
+      let table = tables.get(tx.date.getTime());
+      if (!table) {
+        table = this.fxService.getRateTable(tx.date);
+        tables.set(tx.date.getTime(), table);
+      }
+      const rate = (await table).getRate(tx.currency, currency).rate;
+      return { ...tx, price: tx.price * rate, fees: tx.fees * rate, currency };
+    }));
+  }
+}
@@ -7,6 +7,7 @@
 // Interfaces
 export { IPortfolioService } from './IPortfolioService';
 export { IPortfolioRepository } from './repository/IPortfolioRepository';
+export { IPortfolioValuationService } from './IPortfolioValuationService';
 
 // Types
 export {
@@ -22,10 +23,42 @@ export {
   validateCreateRequest,
   validateUpdateRequest
 } from './types/PortfolioTypes';
+export {
+  ValuationPositionInput,
+  ValuationPriceSource,
+  ValuationFigures,
+  PositionValuation,
+  MetalValuation,
+  PortfolioValuation,
+  DEFAULT_VALUATION_CURRENCY,
+  PERFORMANCE_INTERVALS,
+  MAX_PERFORMANCE_POINTS,
+  PerformanceInterval,
+  PerformanceOptions,
+  PerformanceTransaction,
+  MetalPricePoint,
+  PerformancePoint,
+  PortfolioPerformance
+} from './types/PortfolioValuationTypes';
+export {
+  TAX_LOT_METHODS,
+  DEFAULT_TAX_LOT_METHOD,
+  LONG_TERM_HOLDING_DAYS,
+  TaxLotMethod,
+  OpenTaxLot,
+  LotDisposalSlice,
+  LotMatchResult,
+  SellToMatch,
+  RealizedGainDisposal,
+  RealizedGainsReport,
+  isTaxLotMethod,
+  resolveTaxLotMethod
+} from './types/TaxLotTypes';
 
 // Implementations
 export { PortfolioServiceImpl } from './impl/PortfolioServiceImpl';
 export { PortfolioRepositoryImpl } from './repository/PortfolioRepositoryImpl';
+export { PortfolioValuationServiceImpl } from './impl/PortfolioValuationServiceImpl';
 
 // Mocks
 export { PortfolioRepositoryMock } from './mock/PortfolioRepositoryMock';
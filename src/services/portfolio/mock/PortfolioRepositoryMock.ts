@@ -11,11 +11,22 @@ import {
   ListPortfoliosOptions,
   GetPortfoliosResult
 } from '../types/PortfolioTypes';
+import {
+  MetalPricePoint,
+  PerformanceTransaction,
+  ValuationPositionInput,
+} from '../types/PortfolioValuationTypes';
+import { RealizedGainDisposal } from '../types/TaxLotTypes';
 import { CommonPaginationSchema } from '@marcopersi/shared';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
 export class PortfolioRepositoryMock implements IPortfolioRepository {
   private readonly portfolios: Map<string, PortfolioSummary> = new Map();
+  private readonly valuationPositions: Map<string, ValuationPositionInput[]> = new Map();
+  private readonly preferredCurrencies: Map<string, string> = new Map();
+  private readonly transactions: Map<string, PerformanceTransaction[]> = new Map();
+  private metalPrices: MetalPricePoint[] = [];
+  private readonly lotDisposals: Map<string, RealizedGainDisposal[]> = new Map();
 
   constructor() {
     this.initializeMockData();
@@ -212,9 +223,55 @@ export class PortfolioRepositoryMock implements IPortfolioRepository {
     return portfolio?.positionCount || 0;
   }
 
+  async getActivePositionsForValuation(portfolioId: string): Promise<ValuationPositionInput[]> {
+    return this.valuationPositions.get(portfolioId) ?? [];
+  }
+
+  async getOwnerPreferredCurrency(portfolioId: string): Promise<string | null> {
+    const portfolio = this.portfolios.get(portfolioId);
+    return portfolio ? this.preferredCurrencies.get(portfolio.ownerId) ?? null : null;
+  }
+
+  async getTransactionsForPerformance(portfolioId: string, until: Date): Promise<PerformanceTransaction[]> {
+    return (this.transactions.get(portfolioId) ?? []).filter(tx => tx.date <= until);
+  }
+
+  async getMetalDailyCloses(metalSymbols: string[], _from: Date, to: Date): Promise<MetalPricePoint[]> {
+    return this.metalPrices.filter(price => metalSymbols.includes(price.metalSymbol) && price.timestamp <= to);
+  }
+
+  async getLotDisposals(portfolioId: string, from: Date, to: Date): Promise<RealizedGainDisposal[]> {
+    return (this.lotDisposals.get(portfolioId) ?? []).filter(d => d.disposedAt >= from && d.disposedAt < to);
+  }
+
   // Test helper methods
+  setLotDisposals(portfolioId: string, disposals: RealizedGainDisposal[]): void {
+    this.lotDisposals.set(portfolioId, disposals);
+  }
+
+  setTransactions(portfolioId: string, transactions: PerformanceTransaction[]): void {
+    this.transactions.set(portfolioId, transactions);
+  }
+
+  setMetalPrices(prices: MetalPricePoint[]): void {
+    this.metalPrices = prices;
+  }
+
+  setValuationPositions(portfolioId: string, positions: ValuationPositionInput[]): void {
+    this.valuationPositions.set(portfolioId, positions);
+  }
+
+  setPreferredCurrency(userId: string, currency: string): void {
+    this.preferredCurrencies.set(userId, currency);
+  }
+
   clear(): void {
     this.portfolios.clear();
+    this.valuationPositions.clear();
+    this.preferredCurrencies.clear();
+    this.transactions.clear();
+    this.metalPrices = [];
+    this.lotDisposals.clear();
   }
 
   /** Test helper: Get all portfolios from internal storage (no pagination) */
@@ -11,6 +11,12 @@ import {
   ListPortfoliosOptions, 
   GetPortfoliosResult 
 } from '../types/PortfolioTypes';
+import {
+  MetalPricePoint,
+  PerformanceTransaction,
+  ValuationPositionInput,
+} from '../types/PortfolioValuationTypes';
+import { RealizedGainDisposal } from '../types/TaxLotTypes';
 import { AuditTrailUser } from '../../../utils/auditTrail';
 
 export interface IPortfolioRepository {
@@ -63,5 +69,29 @@ export interface IPortfolioRepository {
    * Get position count for portfolio
    */
   getPositionCount(portfolioId: string): Promise<number>;
-}
 
+  /**
+   * Get active positions with product weight, purity and metal for valuation
+   */
+  getActivePositionsForValuation(portfolioId: string): Promise<ValuationPositionInput[]>;
+
+  /**
+   * Get the preferred currency of the portfolio owner (null if not set)
+   */
+  getOwnerPreferredCurrency(portfolioId: string): Promise<string | null>;
+
+  /**
+   * Get all portfolio transactions up to (and including) a date
+   */
+  getTransactionsForPerformance(portfolioId: string, until: Date): Promise<PerformanceTransaction[]>;
+
+  /**
+   * Get daily closing prices for metals in SPOT_PRICE_CURRENCY in a date range (plus the last close before it)
+   */
+  getMetalDailyCloses(metalSymbols: string[], from: Date, to: Date): Promise<MetalPricePoint[]>;
+
+  /**
+   * Get lot disposals (realized gains) with disposal date in [from, to)
+   */
+  getLotDisposals(portfolioId: string, from: Date, to: Date): Promise<RealizedGainDisposal[]>;
+}
@@ -7,6 +7,12 @@
 import { Pool } from 'pg';
 import { PositionSchema } from '@marcopersi/shared';
 import { PortfolioSummary, Position } from '../types/PortfolioTypes';
+import {
+  MetalPricePoint,
+  PerformanceTransaction,
+  ValuationPositionInput,
+} from '../types/PortfolioValuationTypes';
+import { LONG_TERM_HOLDING_DAYS, RealizedGainDisposal, resolveTaxLotMethod } from '../types/TaxLotTypes';
 import { PRODUCT_SELECT_QUERY, CUSTODY_SELECT_QUERY } from './PortfolioQueries';
 import { getApiBaseUrl } from '../../../utils/getApiBaseUrl';
 
@@ -34,6 +40,81 @@ export function mapRowToSummary(row: Record<string, unknown>): PortfolioSummary
   };
 }
 
+/**
+ * Map VALUATION_POSITIONS_QUERY row to ValuationPositionInput
+ */
+export function mapRowToValuationInput(row: Record<string, unknown>): ValuationPositionInput {
+  return {
+    positionId: row.id as string,
+    productId: row.productid as string,
+    productName: row.productname as string,
+    metalSymbol: String(row.metal_symbol).trim().toUpperCase(),
+    metalName: row.metalname as string,
+    weight: Number.parseFloat(row.weight as string),
+    weightUnit: row.weightunit as string,
+    purity: Number.parseFloat(row.purity as string),
+    quantity: Number.parseFloat(row.quantity as string),
+    purchasePrice: Number.parseFloat(row.purchaseprice as string) || 0,
+    storedMarketPrice: Number.parseFloat(row.marketprice as string) || 0,
+    currency: String(row.currency).trim().toUpperCase(),
+  };
+}
+
+/**
+ * Map PERFORMANCE_TRANSACTIONS_QUERY row to PerformanceTransaction
+ */
+export function mapRowToPerformanceTransaction(row: Record<string, unknown>): PerformanceTransaction {
+  return {
+    positionId: row.positionid as string,
+    productId: row.productid as string,
+    metalSymbol: String(row.metal_symbol).trim().toUpperCase(),
+    weight: Number.parseFloat(row.weight as string),
+    weightUnit: row.weightunit as string,
+    purity: Number.parseFloat(row.purity as string),
+    type: row.type === 'sell' ? 'sell' : 'buy',
+    date: new Date(row.date as string),
+    quantity: Number.parseFloat(row.quantity as string),
+    price: Number.parseFloat(row.price as string) || 0,
+    fees: Number.parseFloat(row.fees as string) || 0,
+    currency: String(row.currency).trim().toUpperCase(),
+  };
+}
+
+/**
+ * Map METAL_DAILY_CLOSE_QUERY row to MetalPricePoint
+ */
+export function mapRowToMetalPricePoint(row: Record<string, unknown>): MetalPricePoint {
+  return {
+    metalSymbol: row.metal_symbol as string,
+    timestamp: new Date(row.timestamp as string),
+    pricePerTroyOz: Number.parseFloat(row.price as string),
+  };
+}
+
+/**
+ * Map LOT_DISPOSALS_QUERY row to RealizedGainDisposal
+ */
+export function mapRowToRealizedGainDisposal(row: Record<string, unknown>): RealizedGainDisposal {
+  const holdingPeriodDays = Number.parseInt(row.holding_period_days as string, 10) || 0;
+  return {
+    id: row.id as string,
+    sellTransactionId: row.sell_transactionid as string,
+    productId: row.productid as string,
+    productName: row.productname as string,
+    metalSymbol: String(row.metal_symbol).trim().toUpperCase(),
+    method: resolveTaxLotMethod(row.method as string),
+    quantity: Number.parseFloat(row.quantity as string),
+    acquiredAt: new Date(row.acquired_at as string),
+    disposedAt: new Date(row.disposed_at as string),
+    holdingPeriodDays,
+    holdingPeriod: holdingPeriodDays > LONG_TERM_HOLDING_DAYS ? 'long' : 'short',
+    proceeds: Number.parseFloat(row.proceeds as string) || 0,
+    costBasis: Number.parseFloat(row.cost_basis as string) || 0,
+    realizedGain: Number.parseFloat(row.realized_gain as string) || 0,
+    matchedToLot: row.tax_lotid !== null && row.tax_lotid !== undefined,
+  };
+}
+
 /**
  * Map database row to Position with product and custody enrichment
  */
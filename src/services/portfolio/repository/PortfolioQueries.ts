@@ -106,6 +106,113 @@ export const CUSTODY_SELECT_QUERY = `
   WHERE cs.id = $1
 `;
 
+/**
+ * Active positions with product attributes for mark-to-market valuation
+ */
+export const VALUATION_POSITIONS_QUERY = `
+  SELECT
+    pos.id,
+    pos.productid,
+    pos.quantity,
+    pos.purchaseprice,
+    pos.marketprice,
+    COALESCE(pos.currency, product.currency) AS currency,
+    product.name AS productname,
+    product.weight,
+    product.weightunit,
+    product.purity,
+    metal.name AS metalname,
+    metal.symbol AS metal_symbol
+  FROM position pos
+  JOIN product ON product.id = pos.productid
+  JOIN metal ON metal.id = product.metalId
+  WHERE pos.portfolioid = $1
+    AND pos.status = 'active'
+  ORDER BY pos.purchasedate ASC
+`;
+
+/**
+ * Portfolio transactions up to a date with product attributes for performance series
+ */
+export const PERFORMANCE_TRANSACTIONS_QUERY = `
+  SELECT
+    t.positionid,
+    t.type,
+    t.date,
+    t.quantity,
+    t.price,
+    COALESCE(t.fees, 0) AS fees,
+    COALESCE(t.currency, pos.currency, product.currency) AS currency,
+    pos.productid,
+    product.weight,
+    product.weightunit,
+    product.purity,
+    metal.symbol AS metal_symbol
+  FROM transactions t
+  JOIN position pos ON pos.id = t.positionid
+  JOIN product ON product.id = pos.productid
+  JOIN metal ON metal.id = product.metalId
+  WHERE pos.portfolioid = $1
+    AND t.date <= $2
+  ORDER BY t.date ASC
+`;
+
+/**
+ * Daily closing prices per metal in one currency ($2) between two dates, plus the last close
+ * before the range so the first point of a series can be valued
+ */
+export const METAL_DAILY_CLOSE_QUERY = `
+  WITH daily AS (
+    SELECT DISTINCT ON (metal.symbol, date_trunc('day', ph.timestamp))
+      UPPER(TRIM(metal.symbol)) AS metal_symbol,
+      ph.timestamp,
+      COALESCE(ph.close, ph.price_per_troy_oz) AS price
+    FROM price_history ph
+    JOIN metal ON metal.id = ph.metal_id
+    WHERE UPPER(TRIM(metal.symbol)) = ANY($1::text[])
+      AND ph.currency = $2
+      AND ph.timestamp <= $4
+    ORDER BY metal.symbol, date_trunc('day', ph.timestamp), ph.timestamp DESC
+  )
+  SELECT metal_symbol, timestamp, price FROM daily WHERE timestamp >= $3
+  UNION ALL
+  SELECT metal_symbol, timestamp, price FROM (
+    SELECT DISTINCT ON (metal_symbol) metal_symbol, timestamp, price
+    FROM daily
+    WHERE timestamp < $3
+    ORDER BY metal_symbol, timestamp DESC
+  ) previous_close
+`;
+
+/**
+ * Lot disposals (realized gains) of a portfolio within a date range
+ */
+export const LOT_DISPOSALS_QUERY = `
+  SELECT
+    ld.id,
+    ld.sell_transactionid,
+    ld.tax_lotid,
+    ld.method,
+    ld.quantity,
+    ld.acquired_at,
+    ld.disposed_at,
+    ld.holding_period_days,
+    ld.proceeds,
+    ld.cost_basis,
+    ld.realized_gain,
+    pos.productid,
+    product.name AS productname,
+    metal.symbol AS metal_symbol
+  FROM lot_disposal ld
+  JOIN position pos ON pos.id = ld.positionid
+  JOIN product ON product.id = pos.productid
+  JOIN metal ON metal.id = product.metalId
+  WHERE pos.portfolioid = $1
+    AND ld.disposed_at >= $2
+    AND ld.disposed_at < $3
+  ORDER BY ld.disposed_at ASC, ld.acquired_at ASC
+`;
+
 /**
  * Sort column mapping for ORDER BY
  */
@@ -14,8 +14,30 @@ import {
   ListPortfoliosOptions,
   GetPortfoliosResult,
 } from '../types/PortfolioTypes';
-import { PORTFOLIO_STATS_SUBQUERY, PORTFOLIO_SELECT_FIELDS, SORT_COLUMN_MAP } from './PortfolioQueries';
-import { mapRowToSummary, mapRowToPosition } from './PortfolioMappers';
+import {
+  MetalPricePoint,
+  PerformanceTransaction,
+  ValuationPositionInput,
+} from '../types/PortfolioValuationTypes';
+import { RealizedGainDisposal } from '../types/TaxLotTypes';
+import { SPOT_PRICE_CURRENCY } from '../../pricing/types/PricingTypes';
+import {
+  PORTFOLIO_STATS_SUBQUERY,
+  PORTFOLIO_SELECT_FIELDS,
+  SORT_COLUMN_MAP,
+  VALUATION_POSITIONS_QUERY,
+  PERFORMANCE_TRANSACTIONS_QUERY,
+  METAL_DAILY_CLOSE_QUERY,
+  LOT_DISPOSALS_QUERY,
+} from './PortfolioQueries';
+import {
+  mapRowToSummary,
+  mapRowToPosition,
+  mapRowToValuationInput,
+  mapRowToPerformanceTransaction,
+  mapRowToMetalPricePoint,
+  mapRowToRealizedGainDisposal,
+} from './PortfolioMappers';
 import { AuditTrailUser, getAuditUser } from '../../../utils/auditTrail';
 
 export class PortfolioRepositoryImpl implements IPortfolioRepository {
@@ -240,4 +262,37 @@ export class PortfolioRepositoryImpl implements IPortfolioRepository {
     const result = await this.pool.query('SELECT COUNT(*) as count FROM position WHERE portfolioid = $1', [portfolioId]);
     return Number.parseInt(result.rows[0]?.count || '0', 10);
   }
+
+  async getActivePositionsForValuation(portfolioId: string): Promise<ValuationPositionInput[]> {
+    const result = await this.pool.query(VALUATION_POSITIONS_QUERY, [portfolioId]);
+    return result.rows.map(mapRowToValuationInput);
+  }
+
+  async getOwnerPreferredCurrency(portfolioId: string): Promise<string | null> {
+    const result = await this.pool.query(
+      `SELECT up.preferred_currency
+       FROM portfolio p
+       LEFT JOIN user_profiles up ON up.user_id = p.ownerid
+       WHERE p.id = $1`,
+      [portfolioId]
+    );
+    const currency = result.rows[0]?.preferred_currency as string | null | undefined;
+    return currency ? currency.trim().toUpperCase() : null;
+  }
+
+  async getTransactionsForPerformance(portfolioId: string, until: Date): Promise<PerformanceTransaction[]> {
+    const result = await this.pool.query(PERFORMANCE_TRANSACTIONS_QUERY, [portfolioId, until]);
+    return result.rows.map(mapRowToPerformanceTransaction);
+  }
+
+  async getMetalDailyCloses(metalSymbols: string[], from: Date, to: Date): Promise<MetalPricePoint[]> {
+    if (metalSymbols.length === 0) return [];
+    const result = await this.pool.query(METAL_DAILY_CLOSE_QUERY, [metalSymbols, SPOT_PRICE_CURRENCY, from, to]);
+    return result.rows.map(mapRowToMetalPricePoint);
+  }
+
+  async getLotDisposals(portfolioId: string, from: Date, to: Date): Promise<RealizedGainDisposal[]> {
+    const result = await this.pool.query(LOT_DISPOSALS_QUERY, [portfolioId, from, to]);
+    return result.rows.map(mapRowToRealizedGainDisposal);
+  }
 }
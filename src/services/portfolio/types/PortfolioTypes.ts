@@ -49,6 +49,7 @@ export const PortfolioErrorCode = {
   OWNER_NOT_FOUND: 'OWNER_NOT_FOUND',
   HAS_POSITIONS: 'HAS_POSITIONS',
   UNAUTHORIZED: 'UNAUTHORIZED',
+  FX_RATE_UNAVAILABLE: 'FX_RATE_UNAVAILABLE',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
 } as const;
 
@@ -0,0 +1,153 @@
+/**
+ * Portfolio Valuation Types
+ *
+ * Mark-to-market valuation of active positions against current metal spot prices
+ */
+
+// ============================================================================
+// Input
+// ============================================================================
+
+/**
+ * Active position joined with the product attributes needed for valuation
+ */
+export interface ValuationPositionInput {
+  positionId: string;
+  productId: string;
+  productName: string;
+  metalSymbol: string;
+  metalName: string;
+  weight: number;
+  weightUnit: string;
+  purity: number;
+  quantity: number;
+  purchasePrice: number;
+  storedMarketPrice: number;
+  /** Currency of purchasePrice and storedMarketPrice (the position currency, else the product currency) */
+  currency: string;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * 'market' = valued at the current spot price,
+ * 'position' = no spot price available, stored position.marketprice used
+ */
+export type ValuationPriceSource = 'market' | 'position';
+
+export interface ValuationFigures {
+  currentValue: number;
+  costBasis: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercentage: number;
+}
+
+export interface PositionValuation extends ValuationFigures {
+  positionId: string;
+  productId: string;
+  productName: string;
+  metalSymbol: string;
+  metalName: string;
+  quantity: number;
+  fineWeightTroyOz: number;
+  spotPricePerTroyOz: number | null;
+  unitValue: number;
+  priceSource: ValuationPriceSource;
+}
+
+export interface MetalValuation extends ValuationFigures {
+  metalSymbol: string;
+  metalName: string;
+  positionCount: number;
+  fineWeightTroyOz: number;
+}
+
+export interface PortfolioValuation {
+  portfolioId: string;
+  currency: string;
+  valuedAt: Date;
+  positions: PositionValuation[];
+  metals: MetalValuation[];
+  totals: ValuationFigures & { positionCount: number; fineWeightTroyOz: number };
+}
+
+/**
+ * Currency used when neither the request nor the owner profile specifies one
+ */
+export const DEFAULT_VALUATION_CURRENCY = 'CHF';
+
+// ============================================================================
+// Performance (value over time)
+// ============================================================================
+
+export const PERFORMANCE_INTERVALS = ['day', 'week', 'month'] as const;
+
+export type PerformanceInterval = typeof PERFORMANCE_INTERVALS[number];
+
+/**
+ * Upper bound for generated points, protects against huge ranges with interval=day
+ */
+export const MAX_PERFORMANCE_POINTS = 1000;
+
+export interface PerformanceOptions {
+  from?: Date;
+  to?: Date;
+  interval?: PerformanceInterval;
+  currency?: string;
+}
+
+/**
+ * Portfolio transaction joined with the product attributes needed for valuation.
+ * price and fees are in currency (the transaction currency, else the position or product currency).
+ */
+export interface PerformanceTransaction {
+  positionId: string;
+  productId: string;
+  metalSymbol: string;
+  weight: number;
+  weightUnit: string;
+  purity: number;
+  type: 'buy' | 'sell';
+  date: Date;
+  quantity: number;
+  price: number;
+  fees: number;
+  currency: string;
+}
+
+/**
+ * Closing spot price of a metal at a point in time (from price_history, in SPOT_PRICE_CURRENCY)
+ */
+export interface MetalPricePoint {
+  metalSymbol: string;
+  timestamp: Date;
+  pricePerTroyOz: number;
+}
+
+export interface PerformancePoint {
+  date: Date;
+  marketValue: number;
+  netInvested: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercentage: number;
+  fineWeightTroyOz: number;
+  /** false when at least one holding had no historical price and was valued at its last trade price */
+  fullyPriced: boolean;
+}
+
+export interface PortfolioPerformance {
+  portfolioId: string;
+  currency: string;
+  interval: PerformanceInterval;
+  from: Date;
+  to: Date;
+  points: PerformancePoint[];
+  summary: {
+    startValue: number;
+    endValue: number;
+    valueChange: number;
+    valueChangePercentage: number;
+  };
+}
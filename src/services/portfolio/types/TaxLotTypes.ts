@@ -0,0 +1,109 @@
+/**
+ * Tax Lot Types
+ *
+ * Lot accounting for buy transactions and realized gains of sell transactions
+ */
+
+// ============================================================================
+// Lot Matching
+// ============================================================================
+
+export const TAX_LOT_METHODS = ['fifo', 'lifo', 'average'] as const;
+
+export type TaxLotMethod = typeof TAX_LOT_METHODS[number];
+
+export const DEFAULT_TAX_LOT_METHOD: TaxLotMethod = 'fifo';
+
+/**
+ * Disposals held longer than this count as long-term
+ */
+export const LONG_TERM_HOLDING_DAYS = 365;
+
+/**
+ * Open (partially) unsold lot created by a buy transaction
+ */
+export interface OpenTaxLot {
+  id: string;
+  acquiredAt: Date;
+  remainingQuantity: number;
+  unitCost: number;
+}
+
+/**
+ * Part of a sell matched against one lot.
+ * taxLotId is null for quantity that could not be matched to a lot
+ * (positions bought before lot tracking existed).
+ */
+export interface LotDisposalSlice {
+  taxLotId: string | null;
+  quantity: number;
+  acquiredAt: Date;
+  proceeds: number;
+  costBasis: number;
+  realizedGain: number;
+  holdingPeriodDays: number;
+}
+
+export interface LotMatchResult {
+  method: TaxLotMethod;
+  slices: LotDisposalSlice[];
+  lotUpdates: Array<{ taxLotId: string; remainingQuantity: number }>;
+}
+
+export interface SellToMatch {
+  quantity: number;
+  unitPrice: number;
+  fees: number;
+  disposedAt: Date;
+  /** Cost and acquisition date used for quantity not covered by lots */
+  fallbackUnitCost: number;
+  fallbackAcquiredAt: Date;
+}
+
+// ============================================================================
+// Realized Gains Report
+// ============================================================================
+
+export interface RealizedGainDisposal {
+  id: string;
+  sellTransactionId: string;
+  productId: string;
+  productName: string;
+  metalSymbol: string;
+  method: TaxLotMethod;
+  quantity: number;
+  acquiredAt: Date;
+  disposedAt: Date;
+  holdingPeriodDays: number;
+  holdingPeriod: 'short' | 'long';
+  proceeds: number;
+  costBasis: number;
+  realizedGain: number;
+  matchedToLot: boolean;
+}
+
+export interface RealizedGainsReport {
+  portfolioId: string;
+  year: number;
+  disposals: RealizedGainDisposal[];
+  totals: {
+    disposalCount: number;
+    proceeds: number;
+    costBasis: number;
+    realizedGain: number;
+    shortTermGain: number;
+    longTermGain: number;
+  };
+}
+
+export function isTaxLotMethod(value: unknown): value is TaxLotMethod {
+  return typeof value === 'string' && (TAX_LOT_METHODS as readonly string[]).includes(value);
+}
+
+/**
+ * Lot matching method from configuration (TAX_LOT_METHOD), FIFO when unset or invalid
+ */
+export function resolveTaxLotMethod(value: string | undefined): TaxLotMethod {
+  const normalized = value?.trim().toLowerCase();
+  return isTaxLotMethod(normalized) ? normalized : DEFAULT_TAX_LOT_METHOD;
+}
@@ -0,0 +1,161 @@
+/**
+ * Portfolio Performance Calculator
+ *
+ * Pure functions rebuilding holdings at points in time from transactions
+ * and valuing them with the metal price known at that time
+ */
+
+import { calculateFineWeightTroyOz } from '../../pricing/utils/SpotPriceCalculator';
+import { roundCurrency } from '../../../utils/currency';
+import {
+  MetalPricePoint,
+  PerformanceInterval,
+  PerformancePoint,
+  PerformanceTransaction,
+} from '../types/PortfolioValuationTypes';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function roundWeight(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function endOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 23, 59, 59, 999));
+}
+
+function addInterval(date: Date, interval: PerformanceInterval): Date {
+  switch (interval) {
+    case 'week':
+      return new Date(date.getTime() + 7 * MS_PER_DAY);
+    case 'month': {
+      // Clamp to the last day of the target month (Jan 31 -> Feb 28/29)
+      const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+      const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+      target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+      return endOfUtcDay(target);
+    }
+    default:
+      return new Date(date.getTime() + MS_PER_DAY);
+  }
+}
+
+/**
+ * Point-in-time dates (end of day, UTC) from `from` to `to` in interval steps.
+ * The last point is always `to` so the series ends at the requested date.
+ */
+export function buildPerformanceDates(from: Date, to: Date, interval: PerformanceInterval): Date[] {
+  const end = endOfUtcDay(to);
+  const dates: Date[] = [];
+
+  for (let current = endOfUtcDay(from); current < end; current = addInterval(current, interval)) {
+    dates.push(current);
+  }
+  dates.push(end);
+
+  return dates;
+}
+
+/**
+ * Number of points buildPerformanceDates would return (without allocating them)
+ */
+export function countPerformancePoints(from: Date, to: Date, interval: PerformanceInterval): number {
+  const days = Math.max(0, Math.ceil((endOfUtcDay(to).getTime() - endOfUtcDay(from).getTime()) / MS_PER_DAY));
+  const divisor = interval === 'day' ? 1 : interval === 'week' ? 7 : 28;
+  return Math.ceil(days / divisor) + 1;
+}
+
+/**
+ * Values the holdings at each date.
+ * Transactions and prices may be in any order; prices after a date are ignored for that date.
+ * Transaction prices are expected in the series currency; spotRates[i] (default 1) converts
+ * the metal prices into it at dates[i].
+ */
+export function calculatePerformanceSeries(
+  transactions: PerformanceTransaction[],
+  prices: MetalPricePoint[],
+  dates: Date[],
+  spotRates: number[] = []
+): PerformancePoint[] {
+  const sortedTransactions = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const pricesByMetal = new Map<string, MetalPricePoint[]>();
+  for (const price of [...prices].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())) {
+    pricesByMetal.set(price.metalSymbol, [...(pricesByMetal.get(price.metalSymbol) ?? []), price]);
+  }
+
+  const holdings = new Map<string, { transaction: PerformanceTransaction; quantity: number; lastPrice: number }>();
+  let netInvested = 0;
+  let txIndex = 0;
+
+  return dates.map((date, index) => {
+    const spotRate = spotRates[index] ?? 1;
+
+    // Apply all transactions up to and including this date
+    while (txIndex < sortedTransactions.length && sortedTransactions[txIndex].date <= date) {
+      const tx = sortedTransactions[txIndex++];
+      const holding = holdings.get(tx.productId) ?? { transaction: tx, quantity: 0, lastPrice: tx.price };
+      const signedQuantity = tx.type === 'sell' ? -tx.quantity : tx.quantity;
+
+      holding.quantity += signedQuantity;
+      holding.lastPrice = tx.price;
+      holdings.set(tx.productId, holding);
+
+      netInvested += tx.type === 'sell'
+        ? -(tx.quantity * tx.price - tx.fees)
+        : tx.quantity * tx.price + tx.fees;
+    }
+
+    let marketValue = 0;
+    let fineWeightTroyOz = 0;
+    let fullyPriced = true;
+
+    for (const holding of holdings.values()) {
+      if (holding.quantity <= 0) {
+        continue;
+      }
+
+      const unitFineWeight = calculateFineWeightTroyOz(holding.transaction);
+      const spot = findPriceAt(pricesByMetal.get(holding.transaction.metalSymbol), date);
+
+      fineWeightTroyOz += unitFineWeight * holding.quantity;
+      if (spot === null) {
+        fullyPriced = false;
+        marketValue += holding.lastPrice * holding.quantity;
+      } else {
+        marketValue += unitFineWeight * spot * spotRate * holding.quantity;
+      }
+    }
+
+    const unrealizedPnL = roundCurrency(marketValue - netInvested);
+    return {
+      date,
+      marketValue: roundCurrency(marketValue),
+      netInvested: roundCurrency(netInvested),
+      unrealizedPnL,
+      unrealizedPnLPercentage: netInvested > 0 ? roundCurrency((unrealizedPnL / netInvested) * 100) : 0,
+      fineWeightTroyOz: roundWeight(fineWeightTroyOz),
+      fullyPriced,
+    };
+  });
+}
+
+/**
+ * Latest price at or before the date (binary search over ascending prices)
+ */
+function findPriceAt(prices: MetalPricePoint[] | undefined, date: Date): number | null {
+  if (!prices || prices.length === 0 || prices[0].timestamp > date) {
+    return null;
+  }
+
+  let low = 0;
+  let high = prices.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (prices[mid].timestamp <= date) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return prices[low].pricePerTroyOz;
+}
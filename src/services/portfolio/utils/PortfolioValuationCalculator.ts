@@ -0,0 +1,132 @@
+/**
+ * Portfolio Valuation Calculator
+ *
+ * Pure functions marking positions to market and aggregating
+ * the result per metal and per portfolio
+ */
+
+import { calculateFineWeightTroyOz } from '../../pricing/utils/SpotPriceCalculator';
+import { SPOT_PRICE_CURRENCY } from '../../pricing/types/PricingTypes';
+import type { FxRateTable } from '../../fx/utils/FxRateTable';
+import { roundCurrency } from '../../../utils/currency';
+import {
+  MetalValuation,
+  PositionValuation,
+  ValuationFigures,
+  ValuationPositionInput,
+} from '../types/PortfolioValuationTypes';
+
+function roundWeight(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function calculateFigures(currentValue: number, costBasis: number): ValuationFigures {
+  const unrealizedPnL = roundCurrency(currentValue - costBasis);
+  return {
+    currentValue: roundCurrency(currentValue),
+    costBasis: roundCurrency(costBasis),
+    unrealizedPnL,
+    unrealizedPnLPercentage: costBasis > 0 ? roundCurrency((unrealizedPnL / costBasis) * 100) : 0,
+  };
+}
+
+/**
+ * Values one position at the spot price; falls back to the stored
+ * market price of the position when no spot price is available
+ */
+export function valuePosition(position: ValuationPositionInput, spotPricePerTroyOz: number | null): PositionValuation {
+  const unitFineWeight = calculateFineWeightTroyOz(position);
+  const unitValue = spotPricePerTroyOz === null
+    ? position.storedMarketPrice
+    : unitFineWeight * spotPricePerTroyOz;
+
+  return {
+    positionId: position.positionId,
+    productId: position.productId,
+    productName: position.productName,
+    metalSymbol: position.metalSymbol,
+    metalName: position.metalName,
+    quantity: position.quantity,
+    fineWeightTroyOz: roundWeight(unitFineWeight * position.quantity),
+    spotPricePerTroyOz: spotPricePerTroyOz === null ? null : roundCurrency(spotPricePerTroyOz),
+    unitValue: roundCurrency(unitValue),
+    priceSource: spotPricePerTroyOz === null ? 'position' : 'market',
+    ...calculateFigures(unitValue * position.quantity, position.purchasePrice * position.quantity),
+  };
+}
+
+/**
+ * Values positions in the valuation currency: spot prices (in SPOT_PRICE_CURRENCY, by metal symbol)
+ * and the purchase and stored market prices (in the position currency) are converted with the rates.
+ * Throws FxError when a rate is missing.
+ */
+export function valuePositionsInCurrency(
+  positions: ValuationPositionInput[],
+  spotPrices: Map<string, number>,
+  rates: FxRateTable,
+  currency: string
+): PositionValuation[] {
+  const spotRate = spotPrices.size > 0 ? rates.getRate(SPOT_PRICE_CURRENCY, currency).rate : 1;
+
+  return positions.map(position => {
+    const priceRate = rates.getRate(position.currency, currency).rate;
+    const spotPrice = spotPrices.get(position.metalSymbol);
+    return valuePosition(
+      {
+        ...position,
+        purchasePrice: position.purchasePrice * priceRate,
+        storedMarketPrice: position.storedMarketPrice * priceRate,
+        currency,
+      },
+      spotPrice === undefined ? null : spotPrice * spotRate
+    );
+  });
+}
+
+/**
+ * Aggregates position valuations per metal (sorted by current value, descending)
+ */
+export function aggregateByMetal(positions: PositionValuation[]): MetalValuation[] {
+  const groups = new Map<string, PositionValuation[]>();
+  for (const position of positions) {
+    groups.set(position.metalSymbol, [...(groups.get(position.metalSymbol) ?? []), position]);
+  }
+
+  return [...groups.values()]
+    .map(group => {
+      const totals = sumPositions(group);
+      return {
+        metalSymbol: group[0].metalSymbol,
+        metalName: group[0].metalName,
+        positionCount: group.length,
+        fineWeightTroyOz: totals.fineWeightTroyOz,
+        ...calculateFigures(totals.currentValue, totals.costBasis),
+      };
+    })
+    .sort((a, b) => b.currentValue - a.currentValue);
+}
+
+/**
+ * Portfolio totals over all position valuations
+ */
+export function aggregatePortfolio(
+  positions: PositionValuation[]
+): ValuationFigures & { positionCount: number; fineWeightTroyOz: number } {
+  const totals = sumPositions(positions);
+  return {
+    positionCount: positions.length,
+    fineWeightTroyOz: totals.fineWeightTroyOz,
+    ...calculateFigures(totals.currentValue, totals.costBasis),
+  };
+}
+
+function sumPositions(positions: PositionValuation[]): { currentValue: number; costBasis: number; fineWeightTroyOz: number } {
+  return positions.reduce(
+    (sum, position) => ({
+      currentValue: sum.currentValue + position.currentValue,
+      costBasis: sum.costBasis + position.costBasis,
+      fineWeightTroyOz: roundWeight(sum.fineWeightTroyOz + position.fineWeightTroyOz),
+    }),
+    { currentValue: 0, costBasis: 0, fineWeightTroyOz: 0 }
+  );
+}
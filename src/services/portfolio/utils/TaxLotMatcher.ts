@@ -0,0 +1,116 @@
+/**
+ * Tax Lot Matcher
+ *
+ * Matches a sell against open lots (FIFO, LIFO or average cost) and
+ * computes proceeds, cost basis, realized gain and holding period per slice
+ */
+
+import { roundCurrency } from '../../../utils/currency';
+import {
+  LotDisposalSlice,
+  LotMatchResult,
+  OpenTaxLot,
+  RealizedGainDisposal,
+  RealizedGainsReport,
+  SellToMatch,
+  TaxLotMethod,
+} from '../types/TaxLotTypes';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const QUANTITY_EPSILON = 1e-9;
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function calculateHoldingPeriodDays(acquiredAt: Date, disposedAt: Date): number {
+  return Math.max(0, Math.floor((disposedAt.getTime() - acquiredAt.getTime()) / MS_PER_DAY));
+}
+
+/**
+ * Matches the sold quantity against open lots.
+ * FIFO consumes oldest lots first, LIFO newest first. Average cost consumes lots
+ * oldest first (for holding periods) but prices every unit at the weighted average cost.
+ * Proceeds are net of fees and split pro rata over the slices.
+ */
+export function matchSellAgainstLots(lots: OpenTaxLot[], sell: SellToMatch, method: TaxLotMethod): LotMatchResult {
+  const openLots = lots
+    .filter(lot => lot.remainingQuantity > QUANTITY_EPSILON)
+    .sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime());
+  if (method === 'lifo') {
+    openLots.reverse();
+  }
+
+  const openQuantity = openLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+  const averageCost = openQuantity > 0
+    ? openLots.reduce((sum, lot) => sum + lot.remainingQuantity * lot.unitCost, 0) / openQuantity
+    : 0;
+
+  const netUnitProceeds = sell.quantity > 0 ? (sell.quantity * sell.unitPrice - sell.fees) / sell.quantity : 0;
+  const slices: LotDisposalSlice[] = [];
+  const lotUpdates: LotMatchResult['lotUpdates'] = [];
+  let remaining = sell.quantity;
+
+  for (const lot of openLots) {
+    if (remaining <= QUANTITY_EPSILON) {
+      break;
+    }
+
+    const quantity = Math.min(lot.remainingQuantity, remaining);
+    const unitCost = method === 'average' ? averageCost : lot.unitCost;
+    slices.push(createSlice(lot.id, quantity, lot.acquiredAt, unitCost, netUnitProceeds, sell.disposedAt));
+    lotUpdates.push({ taxLotId: lot.id, remainingQuantity: roundQuantity(lot.remainingQuantity - quantity) });
+    remaining -= quantity;
+  }
+
+  if (remaining > QUANTITY_EPSILON) {
+    slices.push(createSlice(
+      null,
+      remaining,
+      sell.fallbackAcquiredAt,
+      sell.fallbackUnitCost,
+      netUnitProceeds,
+      sell.disposedAt
+    ));
+  }
+
+  return { method, slices, lotUpdates };
+}
+
+function createSlice(
+  taxLotId: string | null,
+  quantity: number,
+  acquiredAt: Date,
+  unitCost: number,
+  netUnitProceeds: number,
+  disposedAt: Date
+): LotDisposalSlice {
+  const proceeds = roundCurrency(quantity * netUnitProceeds);
+  const costBasis = roundCurrency(quantity * unitCost);
+  return {
+    taxLotId,
+    quantity: roundQuantity(quantity),
+    acquiredAt,
+    proceeds,
+    costBasis,
+    realizedGain: roundCurrency(proceeds - costBasis),
+    holdingPeriodDays: calculateHoldingPeriodDays(acquiredAt, disposedAt),
+  };
+}
+
+/**
+ * Totals over the disposals of a realized gains report
+ */
+export function summarizeRealizedGains(disposals: RealizedGainDisposal[]): RealizedGainsReport['totals'] {
+  const sum = (select: (d: RealizedGainDisposal) => number, filter: (d: RealizedGainDisposal) => boolean = () => true) =>
+    roundCurrency(disposals.filter(filter).reduce((total, disposal) => total + select(disposal), 0));
+
+  return {
+    disposalCount: disposals.length,
+    proceeds: sum(d => d.proceeds),
+    costBasis: sum(d => d.costBasis),
+    realizedGain: sum(d => d.realizedGain),
+    shortTermGain: sum(d => d.realizedGain, d => d.holdingPeriod === 'short'),
+    longTermGain: sum(d => d.realizedGain, d => d.holdingPeriod === 'long'),
+  };
+}
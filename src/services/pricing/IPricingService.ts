@@ -0,0 +1,49 @@
+/**
+ * IPricingService Interface
+ *
+ * Prices products from live metal spot prices and manages
+ * time-limited price quotes that lock those prices for order creation
+ */
+
+import { AuditTrailUser } from '../../utils/auditTrail';
+import type { ProductPriceDTO } from '../product/types/ProductTypes';
+import {
+  CreatePriceQuoteRequest,
+  PriceQuote,
+  PricedItem,
+  PricingItemRequest,
+  RedeemPriceQuoteRequest,
+} from './types/PricingTypes';
+
+export interface IPricingService {
+  /**
+   * Price order items at the current spot price (no lock); sells are priced less the sell spread
+   */
+  priceItems(items: PricingItemRequest[], type?: string): Promise<PricedItem[]>;
+
+  /**
+   * Recalculate the unit price of every product of a metal at a spot price, converted into the pricing currency
+   * Returns an empty list when no exchange rate into the pricing currency is available
+   */
+  priceProductsAtSpot(metalSymbol: string, spotPrice: number, currency: string): Promise<ProductPriceDTO[]>;
+
+  /**
+   * Price items and hold the prices for the configured lock window
+   */
+  createQuote(request: CreatePriceQuoteRequest, authenticatedUser: AuditTrailUser): Promise<PriceQuote>;
+
+  /**
+   * Get a quote; throws PricingError when not found or owned by another user
+   */
+  getQuote(quoteId: string, userId: string): Promise<PriceQuote>;
+
+  /**
+   * Consume a quote for an order; rejects expired, used or mismatching quotes
+   */
+  redeemQuote(quoteId: string, request: RedeemPriceQuoteRequest): Promise<PriceQuote>;
+
+  /**
+   * Undo a redemption when the order could not be persisted
+   */
+  releaseQuote(quoteId: string): Promise<void>;
+}
@@ -0,0 +1,58 @@
+/**
+ * Pricing Service Factory
+ *
+ * Factory for creating Pricing services with proper dependency injection
+ */
+
+import { Pool } from 'pg';
+import { IPricingService } from './IPricingService';
+import { IPricingRepository } from './repository/IPricingRepository';
+import { PricingRepositoryImpl } from './repository/PricingRepositoryImpl';
+import { PricingRepositoryMock } from './mock/PricingRepositoryMock';
+import { PricingServiceImpl } from './impl/PricingServiceImpl';
+import { MarketDataServiceFactory } from '../market-data/MarketDataServiceFactory';
+import type { IMarketDataService } from '../market-data/IMarketDataService';
+import { FxServiceFactory } from '../fx/FxServiceFactory';
+import type { IFxService } from '../fx/IFxService';
+import { DEFAULT_PRICING_CONFIG, PricingConfig } from './types/PricingTypes';
+
+export class PricingServiceFactory {
+  /**
+   * Create PricingService with real PostgreSQL database, market data and FX rates
+   */
+  static create(pool: Pool, marketDataService?: IMarketDataService): IPricingService {
+    const repository: IPricingRepository = new PricingRepositoryImpl(pool);
+    const marketData = marketDataService ?? MarketDataServiceFactory.create(pool);
+    return new PricingServiceImpl(repository, marketData, FxServiceFactory.create(pool), this.createConfigFromEnv());
+  }
+
+  /**
+   * Create PricingService with mock repository for testing
+   */
+  static createMock(
+    marketDataService: Pick<IMarketDataService, 'getCurrentPrice'>,
+    fxService: Pick<IFxService, 'getRateTable'> = FxServiceFactory.createMock(),
+    repository: IPricingRepository = new PricingRepositoryMock(),
+    config: PricingConfig = DEFAULT_PRICING_CONFIG
+  ): IPricingService {
+    return new PricingServiceImpl(repository, marketDataService, fxService, config);
+  }
+
+  /**
+   * Pricing configuration from ORDER_PRICING_CURRENCY, PRICE_QUOTE_LOCK_SECONDS,
+   * PRICING_CATALOG_FALLBACK and PRICING_SELL_SPREAD_PERCENTAGE
+   */
+  static createConfigFromEnv(): PricingConfig {
+    const lockSeconds = Number.parseInt(process.env.PRICE_QUOTE_LOCK_SECONDS || '', 10);
+    const sellSpread = Number.parseFloat(process.env.PRICING_SELL_SPREAD_PERCENTAGE || '');
+
+    return {
+      currency: (process.env.ORDER_PRICING_CURRENCY || DEFAULT_PRICING_CONFIG.currency).toUpperCase(),
+      quoteLockSeconds: lockSeconds > 0 ? lockSeconds : DEFAULT_PRICING_CONFIG.quoteLockSeconds,
+      allowCatalogFallback: process.env.PRICING_CATALOG_FALLBACK !== 'false',
+      sellSpreadPercentage: sellSpread >= 0 && sellSpread < 100
+        ? sellSpread
+        : DEFAULT_PRICING_CONFIG.sellSpreadPercentage,
+    };
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * PricingService Implementation
+ *
+ * Derives unit prices from the metal spot price (fine weight x spot x premium,
+ * less the sell spread for sells) and locks them in quotes that can be redeemed
+ * once within the lock window. Spot and catalog prices are converted into the
+ * pricing currency with the latest FX rates.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { IPricingService } from '../IPricingService';
+import { IPricingRepository } from '../repository/IPricingRepository';
+import type { IMarketDataService } from '../../market-data/IMarketDataService';
+import type { IFxService } from '../../fx/IFxService';
+import { FxError } from '../../fx/types/FxTypes';
+import type { FxRateTable } from '../../fx/utils/FxRateTable';
+import {
+  CreatePriceQuoteRequest,
+  DEFAULT_PRICING_CONFIG,
+  PriceQuote,
+  PricedItem,
+  PricingConfig,
+  PricingError,
+  PricingErrorCode,
+  PricingItemRequest,
+  PricingSide,
+  ProductPricingBasis,
+  RedeemPriceQuoteRequest,
+  SPOT_PRICE_CURRENCY,
+} from '../types/PricingTypes';
+import {
+  calculateFineWeightTroyOz,
+  calculateSpotSellUnitPrice,
+  calculateSpotUnitPrice,
+} from '../utils/SpotPriceCalculator';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+import { roundCurrency } from '../../../utils/currency';
+import type { ProductPriceDTO } from '../../product/types/ProductTypes';
+
+export class PricingServiceImpl implements IPricingService {
+  constructor(
+    private readonly repository: IPricingRepository,
+    private readonly marketDataService: Pick<IMarketDataService, 'getCurrentPrice'>,
+    private readonly fxService: Pick<IFxService, 'getRateTable'>,
+    private readonly config: PricingConfig = DEFAULT_PRICING_CONFIG
+  ) {}
+
+  async priceItems(items: PricingItemRequest[], type = 'buy'): Promise<PricedItem[]> {
+    this.validateItems(items);
+    const side = this.normalizeType(type);
+
+    const productIds = [...new Set(items.map(item => item.productId))];
+    const bases = await this.repository.findProductPricingBasis(productIds);
+    const basisById = new Map(bases.map(basis => [basis.productId, basis]));
+    const rates = await this.fxService.getRateTable();
+
+    const spotCache = new Map<string, number | null>();
+    const priced: PricedItem[] = [];
+
+    for (const item of items) {
+      const basis = basisById.get(item.productId);
+      if (!basis) {
+        throw new PricingError(PricingErrorCode.PRODUCT_NOT_FOUND, `Product not found: ${item.productId}`);
+      }
+
+      if (!spotCache.has(basis.metalSymbol)) {
+        spotCache.set(basis.metalSymbol, await this.lookupSpotPrice(basis.metalSymbol, rates));
+      }
+
+      priced.push(this.priceItem(basis, item.quantity, side, spotCache.get(basis.metalSymbol) ?? null, rates));
+    }
+
+    return priced;
+  }
+
+  async priceProductsAtSpot(metalSymbol: string, spotPrice: number, currency: string): Promise<ProductPriceDTO[]> {
+    if (!(spotPrice > 0)) {
+      return [];
+    }
+
+    const convertedSpotPrice = this.convertToPricingCurrency(spotPrice, currency, await this.fxService.getRateTable());
+    if (convertedSpotPrice === null) {
+      return [];
+    }
+
+    const bases = await this.repository.findProductPricingBasisByMetal(metalSymbol);
+    return bases.map(basis => ({
+      id: basis.productId,
+      price: calculateSpotUnitPrice(basis, convertedSpotPrice),
+      currency: this.config.currency,
+    }));
+  }
+
+  async createQuote(request: CreatePriceQuoteRequest, authenticatedUser: AuditTrailUser): Promise<PriceQuote> {
+    const type = this.normalizeType(request.type);
+    const items = await this.priceItems(request.items, type);
+    const createdAt = new Date();
+
+    const quote: PriceQuote = {
+      id: uuidv4(),
+      userId: request.userId,
+      type,
+      currency: this.config.currency,
+      items,
+      subtotal: roundCurrency(items.reduce((sum, item) => sum + item.totalPrice, 0)),
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + this.config.quoteLockSeconds * 1000),
+      redeemedAt: null,
+      orderId: null,
+    };
+
+    await this.repository.createQuote(quote, authenticatedUser);
+    return quote;
+  }
+
+  async getQuote(quoteId: string, userId: string): Promise<PriceQuote> {
+    const quote = await this.repository.findQuoteById(quoteId);
+    if (!quote || quote.userId !== userId) {
+      throw new PricingError(PricingErrorCode.QUOTE_NOT_FOUND, `Price quote not found: ${quoteId}`);
+    }
+    return quote;
+  }
+
+  async redeemQuote(quoteId: string, request: RedeemPriceQuoteRequest): Promise<PriceQuote> {
+    const quote = await this.getQuote(quoteId, request.userId);
+
+    if (quote.redeemedAt) {
+      throw new PricingError(PricingErrorCode.QUOTE_ALREADY_USED, `Price quote ${quoteId} has already been used`);
+    }
+    if (quote.expiresAt.getTime() <= Date.now()) {
+      throw new PricingError(
+        PricingErrorCode.QUOTE_EXPIRED,
+        `Price quote ${quoteId} expired at ${quote.expiresAt.toISOString()}`
+      );
+    }
+
+    this.assertQuoteMatches(quote, request);
+
+    const redeemed = await this.repository.markQuoteRedeemed(quoteId, request.orderId);
+    if (!redeemed) {
+      // Lost a race against another redemption or the lock window closed meanwhile
+      const current = await this.repository.findQuoteById(quoteId);
+      if (current?.redeemedAt) {
+        throw new PricingError(PricingErrorCode.QUOTE_ALREADY_USED, `Price quote ${quoteId} has already been used`);
+      }
+      throw new PricingError(PricingErrorCode.QUOTE_EXPIRED, `Price quote ${quoteId} has expired`);
+    }
+
+    return { ...quote, redeemedAt: new Date(), orderId: request.orderId };
+  }
+
+  async releaseQuote(quoteId: string): Promise<void> {
+    await this.repository.releaseQuote(quoteId);
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private priceItem(
+    basis: ProductPricingBasis,
+    quantity: number,
+    side: PricingSide,
+    spotPrice: number | null,
+    rates: FxRateTable
+  ): PricedItem {
+    const fineWeightTroyOz = calculateFineWeightTroyOz(basis);
+    const sellSpread = this.config.sellSpreadPercentage;
+
+    let unitPrice: number;
+    if (spotPrice === null) {
+      unitPrice = this.catalogUnitPrice(basis, side, rates);
+    } else if (side === 'sell') {
+      unitPrice = calculateSpotSellUnitPrice(basis, spotPrice, sellSpread);
+    } else {
+      unitPrice = calculateSpotUnitPrice(basis, spotPrice);
+    }
+
+    return {
+      productId: basis.productId,
+      productName: basis.productName,
+      quantity,
+      unitPrice,
+      totalPrice: roundCurrency(unitPrice * quantity),
+      currency: this.config.currency,
+      priceSource: spotPrice === null ? 'catalog' : 'spot',
+      metalSymbol: basis.metalSymbol,
+      fineWeightTroyOz,
+      spotPricePerTroyOz: spotPrice,
+      premiumPercentage: side === 'sell' ? -sellSpread : basis.premiumPercentage,
+    };
+  }
+
+  /**
+   * Catalog price in the pricing currency when no spot price exists
+   * @throws SPOT_PRICE_UNAVAILABLE when the fallback is disabled or the price cannot be converted
+   */
+  private catalogUnitPrice(basis: ProductPricingBasis, side: PricingSide, rates: FxRateTable): number {
+    const catalogPrice = this.config.allowCatalogFallback
+      ? this.convertToPricingCurrency(basis.catalogPrice, basis.catalogCurrency, rates)
+      : null;
+
+    if (catalogPrice === null) {
+      throw new PricingError(
+        PricingErrorCode.SPOT_PRICE_UNAVAILABLE,
+        `No ${this.config.currency} spot price available for ${basis.metalSymbol}`
+      );
+    }
+
+    return roundCurrency(side === 'sell' ? catalogPrice * (1 - this.config.sellSpreadPercentage / 100) : catalogPrice);
+  }
+
+  /**
+   * Spot price per troy ounce in the pricing currency, null when there is none or it cannot be converted
+   */
+  private async lookupSpotPrice(metalSymbol: string, rates: FxRateTable): Promise<number | null> {
+    const marketPrice = await this.marketDataService.getCurrentPrice(metalSymbol, SPOT_PRICE_CURRENCY);
+    if (!marketPrice || !(marketPrice.pricePerTroyOz > 0)) {
+      return null;
+    }
+    return this.convertToPricingCurrency(Number(marketPrice.pricePerTroyOz), SPOT_PRICE_CURRENCY, rates);
+  }
+
+  private convertToPricingCurrency(amount: number, currency: string, rates: FxRateTable): number | null {
+    if (currency?.trim().toUpperCase() === this.config.currency) {
+      return amount;
+    }
+
+    try {
+      return amount * rates.getRate(currency, this.config.currency).rate;
+    } catch (error) {
+      if (error instanceof FxError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private validateItems(items: PricingItemRequest[]): void {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new PricingError(PricingErrorCode.VALIDATION_ERROR, 'At least one item is required');
+    }
+
+    for (const item of items) {
+      if (!item?.productId) {
+        throw new PricingError(PricingErrorCode.VALIDATION_ERROR, 'Each item requires a productId');
+      }
+      if (typeof item.quantity !== 'number' || !(item.quantity > 0)) {
+        throw new PricingError(PricingErrorCode.VALIDATION_ERROR, `Invalid quantity for product ${item.productId}`);
+      }
+    }
+  }
+
+  private normalizeType(type: string): PricingSide {
+    const normalized = (type || '').toLowerCase();
+    if (normalized !== 'buy' && normalized !== 'sell') {
+      throw new PricingError(PricingErrorCode.VALIDATION_ERROR, 'Quote type must be buy or sell');
+    }
+    return normalized;
+  }
+
+  private assertQuoteMatches(quote: PriceQuote, request: RedeemPriceQuoteRequest): void {
+    if (quote.type !== this.normalizeType(request.type)) {
+      throw new PricingError(
+        PricingErrorCode.QUOTE_MISMATCH,
+        `Price quote ${quote.id} was issued for a ${quote.type} order`
+      );
+    }
+
+    const quoted = this.summarizeQuantities(quote.items);
+    const requested = this.summarizeQuantities(request.items);
+    const sameItems = quoted.size === requested.size
+      && [...requested].every(([productId, quantity]) => quoted.get(productId) === quantity);
+
+    if (!sameItems) {
+      throw new PricingError(
+        PricingErrorCode.QUOTE_MISMATCH,
+        `Order items do not match the items of price quote ${quote.id}`
+      );
+    }
+  }
+
+  private summarizeQuantities(items: PricingItemRequest[]): Map<string, number> {
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    }
+    return quantities;
+  }
+}
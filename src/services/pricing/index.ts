@@ -0,0 +1,26 @@
+/**
+ * Pricing Service Barrel Export
+ * Clean public API
+ */
+
+// Service Interface
+export { IPricingService } from './IPricingService';
+
+// Service Implementation
+export { PricingServiceImpl } from './impl/PricingServiceImpl';
+
+// Repository Interfaces
+export { IPricingRepository } from './repository/IPricingRepository';
+
+// Repository Implementations
+export { PricingRepositoryImpl } from './repository/PricingRepositoryImpl';
+export { PricingRepositoryMock } from './mock/PricingRepositoryMock';
+
+// Types
+export * from './types/PricingTypes';
+
+// Utils
+export * from './utils/SpotPriceCalculator';
+
+// Factory
+export { PricingServiceFactory } from './PricingServiceFactory';
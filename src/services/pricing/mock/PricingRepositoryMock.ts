@@ -0,0 +1,65 @@
+/**
+ * Pricing Repository Mock Implementation
+ *
+ * In-memory implementation for testing without database dependency
+ */
+
+import { IPricingRepository } from '../repository/IPricingRepository';
+import { PriceQuote, ProductPricingBasis } from '../types/PricingTypes';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+
+export class PricingRepositoryMock implements IPricingRepository {
+  private readonly products: Map<string, ProductPricingBasis> = new Map();
+  private readonly quotes: Map<string, PriceQuote> = new Map();
+
+  constructor(products: ProductPricingBasis[] = []) {
+    for (const product of products) {
+      this.products.set(product.productId, product);
+    }
+  }
+
+  async findProductPricingBasis(productIds: string[]): Promise<ProductPricingBasis[]> {
+    return productIds
+      .map(id => this.products.get(id))
+      .filter((product): product is ProductPricingBasis => product !== undefined);
+  }
+
+  async findProductPricingBasisByMetal(metalSymbol: string): Promise<ProductPricingBasis[]> {
+    return [...this.products.values()].filter(product => product.metalSymbol === metalSymbol.toUpperCase());
+  }
+
+  async createQuote(quote: PriceQuote, _authenticatedUser: AuditTrailUser): Promise<void> {
+    this.quotes.set(quote.id, { ...quote });
+  }
+
+  async findQuoteById(quoteId: string): Promise<PriceQuote | null> {
+    return this.quotes.get(quoteId) || null;
+  }
+
+  async markQuoteRedeemed(quoteId: string, orderId: string): Promise<boolean> {
+    const quote = this.quotes.get(quoteId);
+    if (!quote || quote.redeemedAt || quote.expiresAt.getTime() <= Date.now()) {
+      return false;
+    }
+
+    this.quotes.set(quoteId, { ...quote, redeemedAt: new Date(), orderId });
+    return true;
+  }
+
+  async releaseQuote(quoteId: string): Promise<void> {
+    const quote = this.quotes.get(quoteId);
+    if (quote) {
+      this.quotes.set(quoteId, { ...quote, redeemedAt: null, orderId: null });
+    }
+  }
+
+  // Test helper methods
+  setProduct(product: ProductPricingBasis): void {
+    this.products.set(product.productId, product);
+  }
+
+  clear(): void {
+    this.products.clear();
+    this.quotes.clear();
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Pricing Repository Interface
+ *
+ * Data access for product pricing attributes and price quotes
+ */
+
+import { AuditTrailUser } from '../../../utils/auditTrail';
+import { PriceQuote, ProductPricingBasis } from '../types/PricingTypes';
+
+export interface IPricingRepository {
+  /**
+   * Load weight, purity, premium and metal symbol for the given products
+   */
+  findProductPricingBasis(productIds: string[]): Promise<ProductPricingBasis[]>;
+
+  /**
+   * Load the pricing attributes of all products made of a metal
+   */
+  findProductPricingBasisByMetal(metalSymbol: string): Promise<ProductPricingBasis[]>;
+
+  /**
+   * Persist a new price quote
+   */
+  createQuote(quote: PriceQuote, authenticatedUser: AuditTrailUser): Promise<void>;
+
+  /**
+   * Find a price quote by ID
+   */
+  findQuoteById(quoteId: string): Promise<PriceQuote | null>;
+
+  /**
+   * Atomically mark a quote as redeemed for an order
+   * Returns false when the quote is already redeemed or expired
+   */
+  markQuoteRedeemed(quoteId: string, orderId: string): Promise<boolean>;
+
+  /**
+   * Make a redeemed quote usable again (order creation failed)
+   */
+  releaseQuote(quoteId: string): Promise<void>;
+}
@@ -0,0 +1,134 @@
+/**
+ * Pricing Repository Implementation
+ *
+ * PostgreSQL data access for product pricing attributes and price quotes
+ */
+
+import { Pool } from 'pg';
+import { IPricingRepository } from './IPricingRepository';
+import { PriceQuote, PricedItem, ProductPricingBasis } from '../types/PricingTypes';
+import { AuditTrailUser, getAuditUser } from '../../../utils/auditTrail';
+
+export class PricingRepositoryImpl implements IPricingRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async findProductPricingBasis(productIds: string[]): Promise<ProductPricingBasis[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT p.id, p.name, p.weight, p.weightunit, p.purity, p.premiumpercentage,
+              p.price, p.currency, m.symbol as metal_symbol
+       FROM product p
+       JOIN metal m ON p.metalid = m.id
+       WHERE p.id = ANY($1::uuid[])`,
+      [productIds]
+    );
+
+    return result.rows.map(row => this.mapRowToPricingBasis(row));
+  }
+
+  async findProductPricingBasisByMetal(metalSymbol: string): Promise<ProductPricingBasis[]> {
+    const result = await this.pool.query(
+      `SELECT p.id, p.name, p.weight, p.weightunit, p.purity, p.premiumpercentage,
+              p.price, p.currency, m.symbol as metal_symbol
+       FROM product p
+       JOIN metal m ON p.metalid = m.id
+       WHERE UPPER(TRIM(m.symbol)) = UPPER($1)`,
+      [metalSymbol]
+    );
+
+    return result.rows.map(row => this.mapRowToPricingBasis(row));
+  }
+
+  async createQuote(quote: PriceQuote, authenticatedUser: AuditTrailUser): Promise<void> {
+    const auditUser = getAuditUser(authenticatedUser);
+
+    await this.pool.query(
+      `INSERT INTO price_quote (id, userid, type, currency, items, subtotal, expires_at, createdat, createdBy)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        quote.id,
+        quote.userId,
+        quote.type,
+        quote.currency,
+        JSON.stringify(quote.items),
+        quote.subtotal,
+        quote.expiresAt,
+        quote.createdAt,
+        auditUser.id,
+      ]
+    );
+  }
+
+  async findQuoteById(quoteId: string): Promise<PriceQuote | null> {
+    const result = await this.pool.query(
+      `SELECT id, userid, type, currency, items, subtotal, expires_at, redeemed_at, orderid, createdat
+       FROM price_quote
+       WHERE id = $1`,
+      [quoteId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToQuote(result.rows[0]);
+  }
+
+  async markQuoteRedeemed(quoteId: string, orderId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE price_quote
+       SET redeemed_at = CURRENT_TIMESTAMP, orderid = $2
+       WHERE id = $1
+         AND redeemed_at IS NULL
+         AND expires_at > CURRENT_TIMESTAMP`,
+      [quoteId, orderId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async releaseQuote(quoteId: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE price_quote SET redeemed_at = NULL, orderid = NULL WHERE id = $1',
+      [quoteId]
+    );
+  }
+
+  // ============================================================================
+  // Private Mapping Methods
+  // ============================================================================
+
+  private mapRowToPricingBasis(row: Record<string, unknown>): ProductPricingBasis {
+    return {
+      productId: row.id as string,
+      productName: row.name as string,
+      metalSymbol: String(row.metal_symbol).trim().toUpperCase(),
+      weight: Number.parseFloat(row.weight as string),
+      weightUnit: row.weightunit as string,
+      purity: Number.parseFloat(row.purity as string),
+      premiumPercentage: row.premiumpercentage ? Number.parseFloat(row.premiumpercentage as string) : 0,
+      catalogPrice: Number.parseFloat(row.price as string),
+      catalogCurrency: row.currency as string,
+    };
+  }
+
+  private mapRowToQuote(row: Record<string, unknown>): PriceQuote {
+    const items = (typeof row.items === 'string' ? JSON.parse(row.items) : row.items) as PricedItem[];
+
+    return {
+      id: row.id as string,
+      userId: row.userid as string,
+      type: row.type as string,
+      currency: row.currency as string,
+      items,
+      subtotal: Number.parseFloat(row.subtotal as string),
+      createdAt: new Date(row.createdat as string),
+      expiresAt: new Date(row.expires_at as string),
+      redeemedAt: row.redeemed_at ? new Date(row.redeemed_at as string) : null,
+      orderId: (row.orderid as string | null) ?? null,
+    };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Pricing Domain Types
+ *
+ * Spot-price based product pricing and time-limited price quotes (locks)
+ */
+
+// ============================================================================
+// Error Codes
+// ============================================================================
+
+export const PricingErrorCode = {
+  VALIDATION_ERROR: 'PRICING_VALIDATION_ERROR',
+  PRODUCT_NOT_FOUND: 'PRICING_PRODUCT_NOT_FOUND',
+  UNSUPPORTED_WEIGHT_UNIT: 'PRICING_UNSUPPORTED_WEIGHT_UNIT',
+  SPOT_PRICE_UNAVAILABLE: 'PRICING_SPOT_PRICE_UNAVAILABLE',
+  QUOTE_NOT_FOUND: 'PRICE_QUOTE_NOT_FOUND',
+  QUOTE_EXPIRED: 'PRICE_QUOTE_EXPIRED',
+  QUOTE_ALREADY_USED: 'PRICE_QUOTE_ALREADY_USED',
+  QUOTE_MISMATCH: 'PRICE_QUOTE_MISMATCH',
+} as const;
+
+export type PricingErrorCode = typeof PricingErrorCode[keyof typeof PricingErrorCode];
+
+export class PricingError extends Error {
+  constructor(
+    public readonly code: PricingErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+export function getPricingHttpStatus(code: PricingErrorCode): number {
+  switch (code) {
+    case PricingErrorCode.PRODUCT_NOT_FOUND:
+    case PricingErrorCode.QUOTE_NOT_FOUND:
+      return 404;
+    case PricingErrorCode.QUOTE_EXPIRED:
+    case PricingErrorCode.QUOTE_ALREADY_USED:
+      return 409;
+    case PricingErrorCode.SPOT_PRICE_UNAVAILABLE:
+      return 503;
+    default:
+      return 400;
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface PricingConfig {
+  /** Currency used for spot lookups and order prices */
+  currency: string;
+  /** How long a quote holds its prices */
+  quoteLockSeconds: number;
+  /** Use product.price when no live market price exists for the metal */
+  allowCatalogFallback: boolean;
+  /** Discount on the metal value (sells) or catalog price paid when buying products back */
+  sellSpreadPercentage: number;
+}
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  currency: 'CHF',
+  quoteLockSeconds: 120,
+  allowCatalogFallback: true,
+  sellSpreadPercentage: 3,
+};
+
+/** Currency the market data providers quote spot prices in */
+export const SPOT_PRICE_CURRENCY = 'USD';
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+export type PriceSource = 'spot' | 'catalog';
+
+export type PricingSide = 'buy' | 'sell';
+
+/**
+ * Product attributes needed to price one unit from the spot price
+ */
+export interface ProductPricingBasis {
+  productId: string;
+  productName: string;
+  metalSymbol: string;
+  weight: number;
+  weightUnit: string;
+  purity: number;
+  premiumPercentage: number;
+  catalogPrice: number;
+  catalogCurrency: string;
+}
+
+export interface PricingItemRequest {
+  productId: string;
+  quantity: number;
+}
+
+export interface PricedItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  currency: string;
+  priceSource: PriceSource;
+  metalSymbol: string;
+  fineWeightTroyOz: number;
+  spotPricePerTroyOz: number | null;
+  /** Premium over the metal value; negative for the sell spread */
+  premiumPercentage: number;
+}
+
+// ============================================================================
+// Quotes
+// ============================================================================
+
+export interface PriceQuote {
+  id: string;
+  userId: string;
+  type: string;
+  currency: string;
+  items: PricedItem[];
+  subtotal: number;
+  createdAt: Date;
+  expiresAt: Date;
+  redeemedAt: Date | null;
+  orderId: string | null;
+}
+
+export interface CreatePriceQuoteRequest {
+  userId: string;
+  type: string;
+  items: PricingItemRequest[];
+}
+
+export interface RedeemPriceQuoteRequest {
+  userId: string;
+  type: string;
+  items: PricingItemRequest[];
+  orderId: string;
+}
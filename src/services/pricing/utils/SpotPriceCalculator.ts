@@ -0,0 +1,59 @@
+/**
+ * Spot Price Calculator
+ *
+ * Pure functions converting product metal content into a unit price:
+ * buy: fine weight (troy oz) x spot price per troy oz x (1 + premium %)
+ * sell: fine weight (troy oz) x spot price per troy oz x (1 - sell spread %)
+ */
+
+import { PricingError, PricingErrorCode, ProductPricingBasis } from '../types/PricingTypes';
+import { roundCurrency } from '../../../utils/currency';
+
+export const GRAMS_PER_TROY_OUNCE = 31.1034768;
+
+const TROY_OUNCES_PER_UNIT: Readonly<Record<string, number>> = {
+  troy_ounces: 1,
+  grams: 1 / GRAMS_PER_TROY_OUNCE,
+  kilograms: 1000 / GRAMS_PER_TROY_OUNCE,
+};
+
+/**
+ * Converts a product weight (unitOfMeasure enum value) to troy ounces
+ */
+export function convertWeightToTroyOunces(weight: number, weightUnit: string): number {
+  const factor = TROY_OUNCES_PER_UNIT[weightUnit.toLowerCase()];
+  if (factor === undefined) {
+    throw new PricingError(PricingErrorCode.UNSUPPORTED_WEIGHT_UNIT, `Unsupported weight unit: ${weightUnit}`);
+  }
+  return weight * factor;
+}
+
+/**
+ * Fine metal content in troy ounces (gross weight x purity)
+ */
+export function calculateFineWeightTroyOz(basis: Pick<ProductPricingBasis, 'weight' | 'weightUnit' | 'purity'>): number {
+  return convertWeightToTroyOunces(basis.weight, basis.weightUnit) * basis.purity;
+}
+
+/**
+ * Unit price from the spot price including the product premium, rounded to cents
+ */
+export function calculateSpotUnitPrice(
+  basis: Pick<ProductPricingBasis, 'weight' | 'weightUnit' | 'purity' | 'premiumPercentage'>,
+  spotPricePerTroyOz: number
+): number {
+  const metalValue = calculateFineWeightTroyOz(basis) * spotPricePerTroyOz;
+  return roundCurrency(metalValue * (1 + basis.premiumPercentage / 100));
+}
+
+/**
+ * Buy-back unit price: metal value at spot less the sell spread, rounded to cents
+ */
+export function calculateSpotSellUnitPrice(
+  basis: Pick<ProductPricingBasis, 'weight' | 'weightUnit' | 'purity'>,
+  spotPricePerTroyOz: number,
+  sellSpreadPercentage: number
+): number {
+  const metalValue = calculateFineWeightTroyOz(basis) * spotPricePerTroyOz;
+  return roundCurrency(metalValue * (1 - sellSpreadPercentage / 100));
+}
@@ -0,0 +1,17 @@
+/**
+ * Savings Plan Execution Service Interface
+ *
+ * Places the buy orders of due savings plans, charges them to the plan's
+ * payment method and retries failed executions
+ */
+
+import type { SavingsPlanRunResult } from './types/SavingsPlanTypes';
+
+export interface ISavingsPlanExecutionService {
+  /**
+   * Execute every plan due at asOf (default: now) and retry failed executions whose retry is due.
+   * An execution that still fails after the maximum number of attempts is reported
+   * to its owner and its unpaid order is cancelled.
+   */
+  executeDuePlans(asOf?: Date): Promise<SavingsPlanRunResult>;
+}
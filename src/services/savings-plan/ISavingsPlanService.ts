@@ -0,0 +1,56 @@
+/**
+ * Savings Plan Service Interface
+ *
+ * Recurring purchases per user: a fixed amount of a product bought at every
+ * due date of the plan's frequency and charged to a linked payment method.
+ */
+
+import type {
+  SavingsPlan,
+  SavingsPlanExecution,
+  CreateSavingsPlanInput,
+  UpdateSavingsPlanInput,
+  ListSavingsPlanExecutionsOptions
+} from './types/SavingsPlanTypes';
+
+export interface ISavingsPlanService {
+  /**
+   * Create a plan for a user
+   * Throws SAVINGS_PLAN_VALIDATION_ERROR or SAVINGS_PLAN_UNKNOWN_PRODUCT
+   */
+  createPlan(userId: string, input: CreateSavingsPlanInput): Promise<SavingsPlan>;
+
+  /**
+   * Get all plans of a user, newest first
+   */
+  listPlans(userId: string): Promise<SavingsPlan[]>;
+
+  /**
+   * Get one plan of a user
+   * Throws SAVINGS_PLAN_NOT_FOUND
+   */
+  getPlan(id: string, userId: string): Promise<SavingsPlan>;
+
+  /**
+   * Change amount, frequency or payment method, pause or resume a plan of a user
+   * Throws SAVINGS_PLAN_VALIDATION_ERROR, SAVINGS_PLAN_NOT_FOUND or SAVINGS_PLAN_CANCELLED
+   */
+  updatePlan(id: string, userId: string, input: UpdateSavingsPlanInput): Promise<SavingsPlan>;
+
+  /**
+   * Cancel a plan of a user; its execution history is kept
+   * Throws SAVINGS_PLAN_NOT_FOUND or SAVINGS_PLAN_CANCELLED
+   */
+  cancelPlan(id: string, userId: string): Promise<SavingsPlan>;
+
+  /**
+   * Executions of a plan of a user, newest first
+   * Throws SAVINGS_PLAN_NOT_FOUND
+   */
+  listPlanExecutions(id: string, userId: string): Promise<SavingsPlanExecution[]>;
+
+  /**
+   * Executions of all plans, e.g. the failed ones (admin report)
+   */
+  listExecutions(options?: ListSavingsPlanExecutionsOptions): Promise<SavingsPlanExecution[]>;
+}
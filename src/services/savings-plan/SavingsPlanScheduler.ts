@@ -0,0 +1,86 @@
+/**
+ * Savings Plan Scheduler
+ * Executes due savings plans and retries failed executions
+ * Uses Dependency Injection for testability
+ */
+
+import { CronJob } from 'cron';
+import type { ISavingsPlanExecutionService } from './ISavingsPlanExecutionService';
+import type { SavingsPlanRunResult } from './types/SavingsPlanTypes';
+
+export class SavingsPlanScheduler {
+  private executionJob?: CronJob;
+
+  constructor(private readonly executionService: ISavingsPlanExecutionService) {}
+
+  /**
+   * Initialize scheduled jobs
+   */
+  initialize(): void {
+    // Hourly run picks up plans due since the last run and retries whose delay has passed
+    this.executionJob = new CronJob(
+      '5 * * * *', // Every hour at minute 5
+      async () => {
+        console.log('[SavingsPlanScheduler] Running scheduled savings plan execution...');
+        try {
+          this.logResult('Savings plan execution', await this.executionService.executeDuePlans());
+        } catch (error) {
+          console.error('[SavingsPlanScheduler] Savings plan execution error:', error);
+        }
+      },
+      null, // onComplete
+      false, // start immediately
+      'UTC' // timezone
+    );
+
+    console.log('[SavingsPlanScheduler] Scheduler initialized (not started)');
+  }
+
+  /**
+   * Start all scheduled jobs
+   */
+  start(): void {
+    if (this.executionJob) {
+      this.executionJob.start();
+      console.log('[SavingsPlanScheduler] Savings plan execution job started');
+    }
+  }
+
+  /**
+   * Stop all scheduled jobs
+   */
+  stop(): void {
+    if (this.executionJob) {
+      this.executionJob.stop();
+      console.log('[SavingsPlanScheduler] Savings plan execution job stopped');
+    }
+  }
+
+  /**
+   * Execute due savings plans immediately
+   */
+  async runExecutionNow(asOf?: Date): Promise<SavingsPlanRunResult> {
+    console.log('[SavingsPlanScheduler] Running manual savings plan execution...');
+    try {
+      const result = await this.executionService.executeDuePlans(asOf);
+      this.logResult('Manual execution', result);
+      return result;
+    } catch (error) {
+      console.error('[SavingsPlanScheduler] Manual execution error:', error);
+      throw error;
+    }
+  }
+
+  private logResult(label: string, result: SavingsPlanRunResult): void {
+    if (result.errors.length === 0) {
+      console.log(
+        `[SavingsPlanScheduler] ${label} successful - Succeeded: ${result.succeeded} of ${result.attempted}`
+      );
+    } else {
+      console.error(
+        `[SavingsPlanScheduler] ${label} completed with errors - Succeeded: ${result.succeeded}, ` +
+        `Retrying: ${result.retrying}, Failed: ${result.failed}, Errors: ${result.errors.join(', ')}`
+      );
+    }
+  }
+}
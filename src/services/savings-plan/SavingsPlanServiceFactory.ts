@@ -0,0 +1,111 @@
+/**
+ * Savings Plan Service Factory
+ * Dependency Injection setup
+ */
+
+import { Pool } from 'pg';
+import { ISavingsPlanService } from './ISavingsPlanService';
+import { ISavingsPlanExecutionService } from './ISavingsPlanExecutionService';
+import { ISavingsPlanRepository } from './repository/ISavingsPlanRepository';
+import { SavingsPlanRepositoryImpl } from './repository/SavingsPlanRepositoryImpl';
+import { SavingsPlanRepositoryMock } from './mock/SavingsPlanRepositoryMock';
+import { SavingsPlanServiceImpl } from './impl/SavingsPlanServiceImpl';
+import { SavingsPlanExecutionServiceImpl } from './impl/SavingsPlanExecutionServiceImpl';
+import { SavingsPlanScheduler } from './SavingsPlanScheduler';
+import { DEFAULT_SAVINGS_PLAN_CONFIG, SavingsPlanConfig } from './types/SavingsPlanTypes';
+import { ProductServiceFactory } from '../product/ProductServiceFactory';
+import { CalculationServiceFactory } from '../calculation/CalculationServiceFactory';
+import { PricingServiceFactory } from '../pricing/PricingServiceFactory';
+import { CustodyServiceFactory } from '../custody/CustodyServiceFactory';
+import { TaxServiceFactory } from '../tax/TaxServiceFactory';
+import { ShippingServiceFactory } from '../shipping/ShippingServiceFactory';
+import { FxServiceFactory } from '../fx/FxServiceFactory';
+import { OrderServiceFactory } from '../order/OrderServiceFactory';
+import { PaymentServiceFactory } from '../payment/PaymentServiceFactory';
+import { EmailServiceFactory } from '../email/EmailServiceFactory';
+import { getRequiredEnvVar } from '../../config/environment';
+
+export class SavingsPlanServiceFactory {
+  /**
+   * Create a savings plan service with real database repository
+   */
+  static createService(pool: Pool): ISavingsPlanService {
+    return new SavingsPlanServiceImpl(new SavingsPlanRepositoryImpl(pool), this.createConfigFromEnv());
+  }
+
+  /**
+   * Create a savings plan service with mock repository (for testing)
+   */
+  static createMockService(
+    repository: ISavingsPlanRepository = new SavingsPlanRepositoryMock(),
+    config: SavingsPlanConfig = DEFAULT_SAVINGS_PLAN_CONFIG
+  ): ISavingsPlanService {
+    return new SavingsPlanServiceImpl(repository, config);
+  }
+
+  /**
+   * Create the execution service with the order, pricing, payment (Stripe) and email services.
+   * Requires STRIPE_SECRET_KEY, APP_BASE_URL and EMAIL_FROM.
+   */
+  static createExecutionService(pool: Pool): ISavingsPlanExecutionService {
+    const pricingService = PricingServiceFactory.create(pool);
+    const orderService = OrderServiceFactory.create(
+      pool,
+      ProductServiceFactory.createProductService(pool),
+      CalculationServiceFactory.create(),
+      {
+        pricingService,
+        custodyService: CustodyServiceFactory.createService(pool),
+        taxService: TaxServiceFactory.create(pool),
+        shippingService: ShippingServiceFactory.create(pool),
+      }
+    );
+
+    return new SavingsPlanExecutionServiceImpl(
+      new SavingsPlanRepositoryImpl(pool),
+      pricingService,
+      FxServiceFactory.create(pool),
+      orderService,
+      PaymentServiceFactory.create(),
+      EmailServiceFactory.create(getRequiredEnvVar('APP_BASE_URL'), getRequiredEnvVar('EMAIL_FROM')),
+      this.createConfigFromEnv()
+    );
+  }
+
+  /**
+   * Create repository only (useful for complex scenarios)
+   */
+  static createRepository(pool: Pool): ISavingsPlanRepository {
+    return new SavingsPlanRepositoryImpl(pool);
+  }
+
+  /**
+   * Create mock repository only
+   */
+  static createMockRepository(): ISavingsPlanRepository {
+    return new SavingsPlanRepositoryMock();
+  }
+
+  /**
+   * Create savings plan scheduler with execution service dependency
+   */
+  static createScheduler(service: ISavingsPlanExecutionService): SavingsPlanScheduler {
+    return new SavingsPlanScheduler(service);
+  }
+
+  /**
+   * Savings plan configuration from SAVINGS_PLAN_MAX_ATTEMPTS, SAVINGS_PLAN_RETRY_DELAY_MINUTES
+   * and ORDER_PRICING_CURRENCY (default plan currency)
+   */
+  static createConfigFromEnv(): SavingsPlanConfig {
+    const maxAttempts = Number.parseInt(process.env.SAVINGS_PLAN_MAX_ATTEMPTS || '', 10);
+    const retryDelayMinutes = Number.parseInt(process.env.SAVINGS_PLAN_RETRY_DELAY_MINUTES || '', 10);
+
+    return {
+      ...DEFAULT_SAVINGS_PLAN_CONFIG,
+      maxAttempts: maxAttempts > 0 ? maxAttempts : DEFAULT_SAVINGS_PLAN_CONFIG.maxAttempts,
+      retryDelayMinutes: retryDelayMinutes > 0 ? retryDelayMinutes : DEFAULT_SAVINGS_PLAN_CONFIG.retryDelayMinutes,
+      defaultCurrency: (process.env.ORDER_PRICING_CURRENCY || DEFAULT_SAVINGS_PLAN_CONFIG.defaultCurrency).toUpperCase(),
+    };
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Savings Plan Execution Service Implementation
+ *
+ * Dependencies:
+ * - SavingsPlanRepository for due plans and execution records
+ * - PricingService for the current unit price of the plan's product
+ * - FxService to convert plan amounts in other currencies into the pricing currency
+ * - OrderService to place the buy orders
+ * - PaymentService to charge the order total to the plan's payment method
+ * - EmailService to report executions that failed for good
+ */
+
+import type { ISavingsPlanExecutionService } from '../ISavingsPlanExecutionService';
+import type { ISavingsPlanRepository } from '../repository/ISavingsPlanRepository';
+import type { IPricingService } from '../../pricing/IPricingService';
+import type { IFxService } from '../../fx/IFxService';
+import type { IOrderService } from '../../order/IOrderService';
+import type { CreateOrderRequest } from '../../order/types/OrderTypes';
+import type { IPaymentService } from '../../payment/IPaymentService';
+import type { IEmailService } from '../../email/IEmailService';
+import {
+  DueSavingsPlan,
+  SavingsPlanConfig,
+  SavingsPlanExecution,
+  SavingsPlanRunResult,
+  DEFAULT_SAVINGS_PLAN_CONFIG
+} from '../types/SavingsPlanTypes';
+import { calculateFractionalQuantity, getNextExecutionDate } from '../utils/SavingsPlanSchedule';
+
+/**
+ * Payment intent states after confirmation that settle without customer action
+ */
+const SETTLING_PAYMENT_STATUSES = ['succeeded', 'processing'];
+
+/**
+ * Order total previews before giving up on fitting the quantity into the plan amount
+ */
+const MAX_BUDGET_FIT_ROUNDS = 10;
+
+interface PlacedOrder {
+  orderId: string;
+  quantity: number;
+  unitPrice: number;
+  chargedAmount: number;
+  chargedCurrency: string;
+}
+
+export class SavingsPlanExecutionServiceImpl implements ISavingsPlanExecutionService {
+  constructor(
+    private readonly repository: ISavingsPlanRepository,
+    private readonly pricingService: IPricingService,
+    private readonly fxService: IFxService,
+    private readonly orderService: IOrderService,
+    private readonly paymentService: IPaymentService,
+    private readonly emailService: IEmailService,
+    private readonly config: SavingsPlanConfig = DEFAULT_SAVINGS_PLAN_CONFIG
+  ) {}
+
+  async executeDuePlans(asOf: Date = new Date()): Promise<SavingsPlanRunResult> {
+    const result: SavingsPlanRunResult = { asOf, attempted: 0, succeeded: 0, retrying: 0, failed: 0, errors: [] };
+
+    for (const plan of await this.repository.findDuePlans(asOf)) {
+      try {
+        // Claim the due date first so a concurrent run cannot buy twice
+        const execution = await this.repository.createExecution(plan.id, plan.nextExecutionAt);
+        await this.repository.advancePlan(plan.id, asOf, getNextExecutionDate(plan.startDate, plan.frequency, asOf));
+        if (execution) {
+          await this.attempt(plan, execution, asOf, result);
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[SavingsPlanExecutionService] Failed to schedule plan ${plan.id}: ${errorMsg}`);
+        result.errors.push(`${plan.id}: ${errorMsg}`);
+      }
+    }
+
+    for (const execution of await this.repository.findRetryableExecutions(asOf)) {
+      try {
+        const plan = await this.repository.findDuePlanById(execution.savingsPlanId);
+        if (plan) {
+          await this.attempt(plan, execution, asOf, result);
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[SavingsPlanExecutionService] Failed to retry execution ${execution.id}: ${errorMsg}`);
+        result.errors.push(`${execution.savingsPlanId}: ${errorMsg}`);
+      }
+    }
+
+    console.log(
+      `[SavingsPlanExecutionService] Attempted ${result.attempted} execution(s), succeeded ${result.succeeded}, ` +
+      `retrying ${result.retrying}, failed ${result.failed}`
+    );
+    return result;
+  }
+
+  /**
+   * Place the order (unless an earlier attempt already did) and charge it.
+   * A failed attempt is retried with exponential backoff until maxAttempts is reached.
+   */
+  private async attempt(
+    plan: DueSavingsPlan,
+    execution: SavingsPlanExecution,
+    asOf: Date,
+    result: SavingsPlanRunResult
+  ): Promise<void> {
+    const attempts = execution.attempts + 1;
+    let orderId = execution.orderId;
+    result.attempted++;
+
+    try {
+      // Same rule as orders and payments through the API
+      if (!plan.emailVerified) {
+        throw new Error(`Email address ${plan.email} is not verified`);
+      }
+
+      let charge = execution.chargedAmount !== null && execution.chargedCurrency !== null
+        ? { amount: execution.chargedAmount, currency: execution.chargedCurrency }
+        : null;
+
+      if (!orderId || !charge) {
+        const placed = await this.placeOrder(plan);
+        orderId = placed.orderId;
+        charge = { amount: placed.chargedAmount, currency: placed.chargedCurrency };
+        // Record the order right away so a failed payment is retried without buying again
+        await this.repository.updateExecution(execution.id, {
+          status: execution.status,
+          attempts: execution.attempts,
+          lastError: execution.lastError,
+          nextRetryAt: execution.nextRetryAt,
+          ...placed
+        });
+      }
+
+      const paymentIntentId = await this.chargeOrder(plan, execution, attempts, orderId, charge.amount, charge.currency);
+      await this.repository.updateExecution(execution.id, {
+        status: 'succeeded',
+        attempts,
+        paymentIntentId,
+        lastError: null,
+        nextRetryAt: null
+      });
+      result.succeeded++;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      const label = `${plan.id} (${execution.scheduledFor.toISOString()})`;
+      result.errors.push(`${label}: ${errorMsg}`);
+
+      if (attempts < this.config.maxAttempts) {
+        const delayMinutes = this.config.retryDelayMinutes * 2 ** (attempts - 1);
+        const nextRetryAt = new Date(asOf.getTime() + delayMinutes * 60_000);
+        console.warn(
+          `[SavingsPlanExecutionService] Attempt ${attempts} of ${label} failed, retrying at ${nextRetryAt.toISOString()}: ${errorMsg}`
+        );
+        await this.repository.updateExecution(execution.id, {
+          status: 'retrying',
+          attempts,
+          lastError: errorMsg,
+          nextRetryAt
+        });
+        result.retrying++;
+        return;
+      }
+
+      console.error(`[SavingsPlanExecutionService] Execution ${label} failed after ${attempts} attempt(s): ${errorMsg}`);
+      await this.repository.updateExecution(execution.id, {
+        status: 'failed',
+        attempts,
+        lastError: errorMsg,
+        nextRetryAt: null
+      });
+      result.failed++;
+      await this.reportFailure(plan, execution, orderId, errorMsg, asOf);
+    }
+  }
+
+  /**
+   * Buy the largest fractional quantity whose order total (fees and taxes included)
+   * the plan amount pays for at the current price
+   */
+  private async placeOrder(plan: DueSavingsPlan): Promise<PlacedOrder> {
+    const [priced] = await this.pricingService.priceItems([{ productId: plan.productId, quantity: 1 }]);
+    if (!priced || !(priced.unitPrice > 0)) {
+      throw new Error(`No price available for product ${plan.productId}`);
+    }
+
+    const budget = priced.currency === plan.currency
+      ? plan.amount
+      : (await this.fxService.convert(plan.amount, plan.currency, priced.currency)).convertedAmount;
+    const estimate = calculateFractionalQuantity(budget, priced.unitPrice, this.config.quantityDecimals);
+    const quantity = estimate > 0 ? await this.fitQuantityToBudget(plan, estimate, budget) : 0;
+    if (quantity <= 0) {
+      throw new Error(
+        `Amount ${plan.amount} ${plan.currency} is too small for ${plan.productName} at ${priced.unitPrice} ${priced.currency}`
+      );
+    }
+
+    const owner = { id: plan.userId, email: plan.email, role: plan.role };
+    const { order, calculation } = await this.orderService.createOrder(this.buildOrderRequest(plan, quantity), owner);
+
+    if (calculation.totalAmount > budget) {
+      // The price rose between preview and order: drop the order, the retry buys at the new price
+      await this.orderService.updateOrderStatus(order.id, 'cancelled', owner, 'Savings plan amount exceeded');
+      throw new Error(
+        `Order total ${calculation.totalAmount} ${order.currency} exceeds the plan amount of ${budget} ${priced.currency}`
+      );
+    }
+
+    return {
+      orderId: order.id,
+      quantity,
+      unitPrice: priced.unitPrice,
+      chargedAmount: calculation.totalAmount,
+      chargedCurrency: order.currency
+    };
+  }
+
+  /**
+   * Largest quantity up to the estimate whose order total stays within the budget, 0 if none does.
+   * Fees and taxes grow with the subtotal, so each round scales the quantity down by the overshoot.
+   */
+  private async fitQuantityToBudget(plan: DueSavingsPlan, estimate: number, budget: number): Promise<number> {
+    const decimals = this.config.quantityDecimals;
+    let quantity = estimate;
+
+    for (let round = 0; round < MAX_BUDGET_FIT_ROUNDS && quantity > 0; round++) {
+      const { totalAmount } = await this.orderService.previewOrderTotal(this.buildOrderRequest(plan, quantity));
+      if (totalAmount <= budget) {
+        return quantity;
+      }
+
+      const scaled = calculateFractionalQuantity(quantity * budget, totalAmount, decimals);
+      quantity = Math.min(scaled, Number((quantity - 10 ** -decimals).toFixed(decimals)));
+    }
+
+    return 0;
+  }
+
+  private buildOrderRequest(plan: DueSavingsPlan, quantity: number): CreateOrderRequest {
+    return {
+      userId: plan.userId,
+      type: 'buy',
+      items: [{ productId: plan.productId, quantity }],
+      custodyServiceId: plan.custodyServiceId ?? undefined,
+      notes: `Savings plan ${plan.id}`
+    };
+  }
+
+  /**
+   * Charge the order total off-session. A succeeded payment marks the order paid right away,
+   * one still processing is marked paid by the webhook.
+   * The payment intent is keyed by plan and due date, so retries and overlapping runs reuse it;
+   * each attempt confirms with its own key, so a declined confirmation can be tried again.
+   * @returns Payment intent ID
+   */
+  private async chargeOrder(
+    plan: DueSavingsPlan,
+    execution: SavingsPlanExecution,
+    attempt: number,
+    orderId: string,
+    amount: number,
+    currency: string
+  ): Promise<string> {
+    const idempotencyKey = `savings-plan-${plan.id}-${execution.scheduledFor.toISOString()}`;
+    const { paymentIntent } = await this.paymentService.createPaymentIntent({
+      amount: Math.round(amount * 100),
+      currency,
+      customerId: plan.customerId,
+      paymentMethodId: plan.paymentMethodId,
+      description: `Savings plan: ${plan.productName}`,
+      orderId,
+      metadata: { savingsPlanId: plan.id, savingsPlanExecutionId: execution.id }
+    }, { idempotencyKey });
+
+    const confirmed = await this.paymentService.confirmPayment(paymentIntent.id, {
+      paymentMethodId: plan.paymentMethodId
+    }, { idempotencyKey: `${idempotencyKey}-confirm-${attempt}` });
+    const status = String(confirmed.paymentIntent.status);
+    if (!SETTLING_PAYMENT_STATUSES.includes(status)) {
+      throw new Error(`Payment ${paymentIntent.id} was not completed (status: ${status})`);
+    }
+    if (status === 'succeeded') {
+      await this.markPaid(orderId, paymentIntent.id);
+    }
+    return paymentIntent.id;
+  }
+
+  /**
+   * The charge went through, so a failure here must not trigger a retry (and a second charge);
+   * the payment webhook marks the order paid as well
+   */
+  private async markPaid(orderId: string, paymentIntentId: string): Promise<void> {
+    try {
+      await this.orderService.markOrderPaid(orderId, paymentIntentId);
+    } catch (error) {
+      console.error(`[SavingsPlanExecutionService] Failed to mark order ${orderId} as paid:`, error);
+    }
+  }
+
+  /**
+   * Cancel the unpaid order and tell the owner; errors are logged, not thrown
+   */
+  private async reportFailure(
+    plan: DueSavingsPlan,
+    execution: SavingsPlanExecution,
+    orderId: string | null,
+    reason: string,
+    asOf: Date
+  ): Promise<void> {
+    if (orderId) {
+      try {
+        await this.orderService.updateOrderStatus(
+          orderId,
+          'cancelled',
+          { id: plan.userId, email: plan.email, role: plan.role },
+          `Savings plan payment failed: ${reason}`
+        );
+      } catch (error) {
+        console.error(`[SavingsPlanExecutionService] Failed to cancel order ${orderId}:`, error);
+      }
+    }
+
+    try {
+      await this.emailService.sendSavingsPlanExecutionFailed(
+        plan.email,
+        {
+          productName: plan.productName,
+          amount: plan.amount,
+          currency: plan.currency,
+          scheduledFor: execution.scheduledFor,
+          reason,
+          nextExecutionAt: plan.status === 'active' ? getNextExecutionDate(plan.startDate, plan.frequency, asOf) : null
+        },
+        { firstName: plan.firstName, lastName: plan.lastName }
+      );
+    } catch (error) {
+      console.error(`[SavingsPlanExecutionService] Failed to notify ${plan.email}:`, error);
+    }
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Savings Plan Service Implementation
+ *
+ * Dependencies:
+ * - SavingsPlanRepository for plan and execution persistence
+ */
+
+import type { ISavingsPlanService } from '../ISavingsPlanService';
+import type { ISavingsPlanRepository } from '../repository/ISavingsPlanRepository';
+import {
+  SavingsPlan,
+  SavingsPlanChanges,
+  SavingsPlanConfig,
+  SavingsPlanError,
+  SavingsPlanErrorCode,
+  SavingsPlanExecution,
+  CreateSavingsPlanInput,
+  UpdateSavingsPlanInput,
+  ListSavingsPlanExecutionsOptions,
+  DEFAULT_SAVINGS_PLAN_CONFIG,
+  isSavingsPlanExecutionStatus,
+  isSavingsPlanFrequency
+} from '../types/SavingsPlanTypes';
+import { getNextExecutionDate } from '../utils/SavingsPlanSchedule';
+import { roundCurrency } from '../../../utils/currency';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+/** savings_plan.amount is NUMERIC(12, 2) */
+const MAX_AMOUNT = 10_000_000_000;
+/** Stripe ids are at most 255 characters (VARCHAR(255)) */
+const MAX_STRIPE_ID_LENGTH = 255;
+const UPDATABLE_STATUSES = ['active', 'paused'];
+
+export class SavingsPlanServiceImpl implements ISavingsPlanService {
+  constructor(
+    private readonly repository: ISavingsPlanRepository,
+    private readonly config: SavingsPlanConfig = DEFAULT_SAVINGS_PLAN_CONFIG,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async createPlan(userId: string, input: CreateSavingsPlanInput): Promise<SavingsPlan> {
+    if (typeof input.productId !== 'string' || !UUID_REGEX.test(input.productId)) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid product ID: ${input.productId}`);
+    }
+    if (input.custodyServiceId !== undefined && !UUID_REGEX.test(String(input.custodyServiceId))) {
+      throw new SavingsPlanError(
+        SavingsPlanErrorCode.VALIDATION_ERROR,
+        `Invalid custody service ID: ${input.custodyServiceId}`
+      );
+    }
+
+    const currency = String(input.currency ?? this.config.defaultCurrency).trim().toUpperCase();
+    if (!CURRENCY_PATTERN.test(currency)) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid currency: ${input.currency}`);
+    }
+
+    this.validateFrequency(input.frequency);
+
+    const plan = await this.repository.create(userId, {
+      productId: input.productId,
+      amount: this.validateAmount(input.amount),
+      currency,
+      frequency: input.frequency,
+      startDate: this.parseStartDate(input.startDate),
+      customerId: this.validateStripeId('customerId', input.customerId),
+      paymentMethodId: this.validateStripeId('paymentMethodId', input.paymentMethodId),
+      custodyServiceId: input.custodyServiceId ?? null
+    });
+    if (!plan) {
+      throw new SavingsPlanError(
+        SavingsPlanErrorCode.UNKNOWN_PRODUCT,
+        `Unknown product or custody service: ${input.productId}`
+      );
+    }
+    return plan;
+  }
+
+  async listPlans(userId: string): Promise<SavingsPlan[]> {
+    return this.repository.findByUser(userId);
+  }
+
+  async getPlan(id: string, userId: string): Promise<SavingsPlan> {
+    const plan = await this.repository.findById(id, userId);
+    if (!plan) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.NOT_FOUND, `Savings plan not found: ${id}`);
+    }
+    return plan;
+  }
+
+  async updatePlan(id: string, userId: string, input: UpdateSavingsPlanInput): Promise<SavingsPlan> {
+    if (
+      input.amount === undefined &&
+      input.frequency === undefined &&
+      input.paymentMethodId === undefined &&
+      input.status === undefined
+    ) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, 'Nothing to update');
+    }
+
+    const changes: SavingsPlanChanges = {};
+    if (input.amount !== undefined) {
+      changes.amount = this.validateAmount(input.amount);
+    }
+    if (input.frequency !== undefined) {
+      this.validateFrequency(input.frequency);
+      changes.frequency = input.frequency;
+    }
+    if (input.paymentMethodId !== undefined) {
+      changes.paymentMethodId = this.validateStripeId('paymentMethodId', input.paymentMethodId);
+    }
+    if (input.status !== undefined) {
+      if (!UPDATABLE_STATUSES.includes(input.status)) {
+        throw new SavingsPlanError(
+          SavingsPlanErrorCode.VALIDATION_ERROR,
+          `Invalid status: ${input.status}, expected one of: ${UPDATABLE_STATUSES.join(', ')}`
+        );
+      }
+      changes.status = input.status;
+    }
+
+    const plan = await this.getActivePlan(id, userId);
+
+    // A new frequency or a resumed plan continues with the next date of its schedule;
+    // executions missed while paused are not caught up
+    const frequency = changes.frequency ?? plan.frequency;
+    const resumed = plan.status === 'paused' && changes.status === 'active';
+    if (frequency !== plan.frequency || resumed) {
+      changes.nextExecutionAt = getNextExecutionDate(
+        plan.startDate,
+        frequency,
+        plan.lastExecutionAt && !resumed ? plan.lastExecutionAt : this.now()
+      );
+    }
+
+    const updated = await this.repository.update(id, userId, changes);
+    if (!updated) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.NOT_FOUND, `Savings plan not found: ${id}`);
+    }
+    return updated;
+  }
+
+  async cancelPlan(id: string, userId: string): Promise<SavingsPlan> {
+    await this.getActivePlan(id, userId);
+
+    const plan = await this.repository.cancel(id, userId);
+    if (!plan) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.NOT_FOUND, `Savings plan not found: ${id}`);
+    }
+    return plan;
+  }
+
+  async listPlanExecutions(id: string, userId: string): Promise<SavingsPlanExecution[]> {
+    await this.getPlan(id, userId);
+    return this.repository.findExecutions({ savingsPlanId: id });
+  }
+
+  async listExecutions(options: ListSavingsPlanExecutionsOptions = {}): Promise<SavingsPlanExecution[]> {
+    if (options.status !== undefined && !isSavingsPlanExecutionStatus(options.status)) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid execution status: ${options.status}`);
+    }
+    if (options.userId !== undefined && !UUID_REGEX.test(options.userId)) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid user ID: ${options.userId}`);
+    }
+    return this.repository.findExecutions(options);
+  }
+
+  /**
+   * Plan of the user that can still be changed
+   */
+  private async getActivePlan(id: string, userId: string): Promise<SavingsPlan> {
+    const plan = await this.getPlan(id, userId);
+    if (plan.status === 'cancelled') {
+      throw new SavingsPlanError(SavingsPlanErrorCode.CANCELLED, `Savings plan is cancelled: ${id}`);
+    }
+    return plan;
+  }
+
+  private validateAmount(amount: number): number {
+    const rounded = typeof amount === 'number' && Number.isFinite(amount) ? roundCurrency(amount) : Number.NaN;
+    if (!(rounded > 0) || rounded >= MAX_AMOUNT) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid amount: ${amount}`);
+    }
+    return rounded;
+  }
+
+  private validateFrequency(frequency: string): void {
+    if (typeof frequency !== 'string' || !isSavingsPlanFrequency(frequency)) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid frequency: ${frequency}`);
+    }
+  }
+
+  private validateStripeId(field: string, value: string): string {
+    const id = typeof value === 'string' ? value.trim() : '';
+    if (!id || id.length > MAX_STRIPE_ID_LENGTH) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid ${field}: ${value}`);
+    }
+    return id;
+  }
+
+  /**
+   * Start dates may lie earlier on the current (UTC) day but not before
+   */
+  private parseStartDate(value: string | undefined): Date {
+    const now = this.now();
+    if (value === undefined) {
+      return now;
+    }
+
+    const startDate = new Date(value);
+    if (Number.isNaN(startDate.getTime())) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `Invalid startDate: ${value}`);
+    }
+
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    if (startDate < today) {
+      throw new SavingsPlanError(SavingsPlanErrorCode.VALIDATION_ERROR, `startDate must not be in the past: ${value}`);
+    }
+    return startDate;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Savings Plan Service Barrel Export
+ * Clean public API
+ */
+
+// Service Interfaces
+export { ISavingsPlanService } from './ISavingsPlanService';
+export { ISavingsPlanExecutionService } from './ISavingsPlanExecutionService';
+
+// Service Implementations
+export { SavingsPlanServiceImpl } from './impl/SavingsPlanServiceImpl';
+export { SavingsPlanExecutionServiceImpl } from './impl/SavingsPlanExecutionServiceImpl';
+
+// Repository Interfaces
+export { ISavingsPlanRepository } from './repository/ISavingsPlanRepository';
+
+// Repository Implementations
+export { SavingsPlanRepositoryImpl } from './repository/SavingsPlanRepositoryImpl';
+export { SavingsPlanRepositoryMock } from './mock/SavingsPlanRepositoryMock';
+
+// Types
+export * from './types/SavingsPlanTypes';
+
+// Utilities
+export * from './utils/SavingsPlanSchedule';
+
+// Scheduler
+export { SavingsPlanScheduler } from './SavingsPlanScheduler';
+
+// Factory
+export { SavingsPlanServiceFactory } from './SavingsPlanServiceFactory';
@@ -0,0 +1,237 @@
+/**
+ * Savings Plan Repository Mock Implementation
+ *
+ * In-memory mock for testing without database
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ISavingsPlanRepository } from '../repository/ISavingsPlanRepository';
+import type {
+  DueSavingsPlan,
+  ListSavingsPlanExecutionsOptions,
+  NewSavingsPlan,
+  SavingsPlan,
+  SavingsPlanChanges,
+  SavingsPlanExecution,
+  SavingsPlanExecutionUpdate
+} from '../types/SavingsPlanTypes';
+
+interface MockUser {
+  email: string;
+  emailVerified: boolean;
+  role: string;
+  firstName: string;
+  lastName: string;
+}
+
+export class SavingsPlanRepositoryMock implements ISavingsPlanRepository {
+  private plans: Map<string, SavingsPlan> = new Map();
+  private executions: Map<string, SavingsPlanExecution> = new Map();
+  private users: Map<string, MockUser> = new Map();
+  private products: Map<string, string> = new Map();
+
+  async create(userId: string, plan: NewSavingsPlan): Promise<SavingsPlan | null> {
+    const productName = this.products.get(plan.productId);
+    if (!productName) {
+      return null;
+    }
+
+    const now = new Date();
+    const created: SavingsPlan = {
+      id: uuidv4(),
+      userId,
+      productId: plan.productId,
+      productName,
+      amount: plan.amount,
+      currency: plan.currency,
+      frequency: plan.frequency,
+      startDate: plan.startDate,
+      nextExecutionAt: plan.startDate,
+      lastExecutionAt: null,
+      customerId: plan.customerId,
+      paymentMethodId: plan.paymentMethodId,
+      custodyServiceId: plan.custodyServiceId,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.plans.set(created.id, created);
+    return created;
+  }
+
+  async findByUser(userId: string): Promise<SavingsPlan[]> {
+    return Array.from(this.plans.values())
+      .filter(p => p.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findById(id: string, userId: string): Promise<SavingsPlan | null> {
+    const plan = this.plans.get(id);
+    return plan?.userId === userId ? plan : null;
+  }
+
+  async update(id: string, userId: string, changes: SavingsPlanChanges): Promise<SavingsPlan | null> {
+    const plan = await this.findById(id, userId);
+    if (!plan) {
+      return null;
+    }
+
+    const updated: SavingsPlan = {
+      ...plan,
+      amount: changes.amount ?? plan.amount,
+      frequency: changes.frequency ?? plan.frequency,
+      paymentMethodId: changes.paymentMethodId ?? plan.paymentMethodId,
+      status: changes.status ?? plan.status,
+      nextExecutionAt: changes.nextExecutionAt ?? plan.nextExecutionAt,
+      updatedAt: new Date()
+    };
+
+    this.plans.set(id, updated);
+    return updated;
+  }
+
+  async cancel(id: string, userId: string): Promise<SavingsPlan | null> {
+    const plan = await this.findById(id, userId);
+    if (!plan) {
+      return null;
+    }
+
+    for (const execution of this.executions.values()) {
+      if (execution.savingsPlanId === id && (execution.status === 'pending' || execution.status === 'retrying')) {
+        this.executions.set(execution.id, {
+          ...execution,
+          status: 'failed',
+          lastError: 'Savings plan cancelled',
+          nextRetryAt: null,
+          updatedAt: new Date()
+        });
+      }
+    }
+
+    const cancelled: SavingsPlan = { ...plan, status: 'cancelled', updatedAt: new Date() };
+    this.plans.set(id, cancelled);
+    return cancelled;
+  }
+
+  async findDuePlans(asOf: Date): Promise<DueSavingsPlan[]> {
+    return Array.from(this.plans.values())
+      .filter(p => p.status === 'active' && p.nextExecutionAt <= asOf)
+      .sort((a, b) => a.nextExecutionAt.getTime() - b.nextExecutionAt.getTime())
+      .map(p => this.withOwner(p));
+  }
+
+  async findDuePlanById(id: string): Promise<DueSavingsPlan | null> {
+    const plan = this.plans.get(id);
+    return plan ? this.withOwner(plan) : null;
+  }
+
+  async advancePlan(id: string, executedAt: Date, nextExecutionAt: Date): Promise<void> {
+    const plan = this.plans.get(id);
+    if (plan) {
+      this.plans.set(id, { ...plan, lastExecutionAt: executedAt, nextExecutionAt, updatedAt: new Date() });
+    }
+  }
+
+  async createExecution(savingsPlanId: string, scheduledFor: Date): Promise<SavingsPlanExecution | null> {
+    const plan = this.plans.get(savingsPlanId);
+    const exists = Array.from(this.executions.values()).some(
+      e => e.savingsPlanId === savingsPlanId && e.scheduledFor.getTime() === scheduledFor.getTime()
+    );
+    if (!plan || exists) {
+      return null;
+    }
+
+    const now = new Date();
+    const execution: SavingsPlanExecution = {
+      id: uuidv4(),
+      savingsPlanId,
+      userId: plan.userId,
+      scheduledFor,
+      status: 'pending',
+      attempts: 0,
+      orderId: null,
+      paymentIntentId: null,
+      quantity: null,
+      unitPrice: null,
+      chargedAmount: null,
+      chargedCurrency: null,
+      lastError: null,
+      nextRetryAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.executions.set(execution.id, execution);
+    return execution;
+  }
+
+  async findRetryableExecutions(asOf: Date): Promise<SavingsPlanExecution[]> {
+    return Array.from(this.executions.values())
+      .filter(e => e.status === 'retrying' && e.nextRetryAt !== null && e.nextRetryAt <= asOf)
+      .filter(e => this.plans.get(e.savingsPlanId)?.status !== 'cancelled')
+      .sort((a, b) => (a.nextRetryAt?.getTime() ?? 0) - (b.nextRetryAt?.getTime() ?? 0));
+  }
+
+  async updateExecution(id: string, update: SavingsPlanExecutionUpdate): Promise<void> {
+    const execution = this.executions.get(id);
+    if (!execution) {
+      return;
+    }
+
+    this.executions.set(id, {
+      ...execution,
+      status: update.status,
+      attempts: update.attempts,
+      orderId: update.orderId ?? execution.orderId,
+      paymentIntentId: update.paymentIntentId ?? execution.paymentIntentId,
+      quantity: update.quantity ?? execution.quantity,
+      unitPrice: update.unitPrice ?? execution.unitPrice,
+      chargedAmount: update.chargedAmount ?? execution.chargedAmount,
+      chargedCurrency: update.chargedCurrency ?? execution.chargedCurrency,
+      lastError: update.lastError,
+      nextRetryAt: update.nextRetryAt,
+      updatedAt: new Date()
+    });
+  }
+
+  async findExecutions(
+    options: ListSavingsPlanExecutionsOptions & { savingsPlanId?: string }
+  ): Promise<SavingsPlanExecution[]> {
+    return Array.from(this.executions.values())
+      .filter(e => !options.savingsPlanId || e.savingsPlanId === options.savingsPlanId)
+      .filter(e => !options.userId || e.userId === options.userId)
+      .filter(e => !options.status || e.status === options.status)
+      .sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime())
+      .slice(0, options.limit ?? 100);
+  }
+
+  private withOwner(plan: SavingsPlan): DueSavingsPlan {
+    const user = this.users.get(plan.userId)
+      ?? { email: '', emailVerified: false, role: 'customer', firstName: '', lastName: '' };
+    return { ...plan, ...user };
+  }
+
+  // Public methods for test manipulation
+  public clearAll(): void {
+    this.plans.clear();
+    this.executions.clear();
+    this.users.clear();
+    this.products.clear();
+  }
+
+  public addMockUser(
+    userId: string,
+    email: string,
+    firstName = 'Test',
+    lastName = 'User',
+    role = 'customer',
+    emailVerified = true
+  ): void {
+    this.users.set(userId, { email, emailVerified, role, firstName, lastName });
+  }
+
+  public addMockProduct(productId: string, name: string): void {
+    this.products.set(productId, name);
+  }
+}
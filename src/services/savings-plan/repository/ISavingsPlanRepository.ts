@@ -0,0 +1,84 @@
+/**
+ * Savings Plan Repository Interface
+ *
+ * Data access for savings plans and their executions. All user-facing operations
+ * are scoped to the owning user; a foreign plan behaves like a missing one.
+ */
+
+import type {
+  DueSavingsPlan,
+  ListSavingsPlanExecutionsOptions,
+  NewSavingsPlan,
+  SavingsPlan,
+  SavingsPlanChanges,
+  SavingsPlanExecution,
+  SavingsPlanExecutionUpdate
+} from '../types/SavingsPlanTypes';
+
+export interface ISavingsPlanRepository {
+  /**
+   * Create a plan; the first execution is due on its start date
+   * @returns The plan, or null if the product or custody service is unknown
+   */
+  create(userId: string, plan: NewSavingsPlan): Promise<SavingsPlan | null>;
+
+  /**
+   * Get all plans of a user, newest first
+   */
+  findByUser(userId: string): Promise<SavingsPlan[]>;
+
+  /**
+   * Get one plan of a user
+   */
+  findById(id: string, userId: string): Promise<SavingsPlan | null>;
+
+  /**
+   * Apply changes to a plan of a user
+   * @returns The updated plan, or null if not found
+   */
+  update(id: string, userId: string, changes: SavingsPlanChanges): Promise<SavingsPlan | null>;
+
+  /**
+   * Cancel a plan of a user and give up its executions awaiting a retry
+   * @returns The cancelled plan, or null if not found
+   */
+  cancel(id: string, userId: string): Promise<SavingsPlan | null>;
+
+  /**
+   * Active plans whose next execution is due at asOf, oldest due date first
+   */
+  findDuePlans(asOf: Date): Promise<DueSavingsPlan[]>;
+
+  /**
+   * Get a plan with its owner, regardless of the user (for retries)
+   */
+  findDuePlanById(id: string): Promise<DueSavingsPlan | null>;
+
+  /**
+   * Record an execution and move the plan to its next due date
+   */
+  advancePlan(id: string, executedAt: Date, nextExecutionAt: Date): Promise<void>;
+
+  /**
+   * Create the execution of a plan for a due date
+   * @returns The execution, or null if one already exists for that date
+   */
+  createExecution(savingsPlanId: string, scheduledFor: Date): Promise<SavingsPlanExecution | null>;
+
+  /**
+   * Failed executions of plans that are not cancelled whose retry is due at asOf
+   */
+  findRetryableExecutions(asOf: Date): Promise<SavingsPlanExecution[]>;
+
+  /**
+   * Write the outcome of an execution attempt
+   */
+  updateExecution(id: string, update: SavingsPlanExecutionUpdate): Promise<void>;
+
+  /**
+   * Executions of one plan (or of all plans when savingsPlanId is omitted), newest due date first
+   */
+  findExecutions(
+    options: ListSavingsPlanExecutionsOptions & { savingsPlanId?: string }
+  ): Promise<SavingsPlanExecution[]>;
+}
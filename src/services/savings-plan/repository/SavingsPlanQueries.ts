@@ -0,0 +1,198 @@
+/**
+ * Savings Plan SQL Queries
+ *
+ * Centralized SQL query definitions for savings plans and their executions
+ */
+
+const PLAN_COLUMNS = `
+  sp.id,
+  sp.userid,
+  sp.productid,
+  p.name AS productname,
+  sp.amount,
+  sp.currency,
+  sp.frequency,
+  sp.start_date,
+  sp.next_execution_at,
+  sp.last_execution_at,
+  sp.customer_id,
+  sp.payment_method_id,
+  sp.custodyserviceid,
+  sp.status,
+  sp.createdat,
+  sp.updatedat
+`;
+
+const SELECT_PLAN = `
+  SELECT ${PLAN_COLUMNS}
+  FROM savings_plan sp
+  JOIN product p ON p.id = sp.productid
+`;
+
+/**
+ * Plans with the owner's audit and contact details
+ */
+const SELECT_DUE_PLAN = `
+  SELECT
+    ${PLAN_COLUMNS},
+    u.email,
+    u.email_verified,
+    u.role,
+    COALESCE(up.first_name, '') AS first_name,
+    COALESCE(up.last_name, '') AS last_name
+  FROM savings_plan sp
+  JOIN product p ON p.id = sp.productid
+  JOIN users u ON u.id = sp.userid
+  LEFT JOIN user_profiles up ON up.user_id = sp.userid
+`;
+
+const SELECT_EXECUTION = `
+  SELECT
+    spe.id,
+    spe.savings_plan_id,
+    sp.userid,
+    spe.scheduled_for,
+    spe.status,
+    spe.attempts,
+    spe.orderid,
+    spe.payment_intent_id,
+    spe.quantity,
+    spe.unit_price,
+    spe.charged_amount,
+    spe.charged_currency,
+    spe.last_error,
+    spe.next_retry_at,
+    spe.createdat,
+    spe.updatedat
+  FROM savings_plan_execution spe
+  JOIN savings_plan sp ON sp.id = spe.savings_plan_id
+`;
+
+/**
+ * $1 user, $2 product, $3 amount, $4 currency, $5 frequency, $6 start date,
+ * $7 customer, $8 payment method, $9 custody service (optional)
+ */
+export const INSERT_PLAN = `
+  INSERT INTO savings_plan (
+    userid, productid, amount, currency, frequency, start_date, next_execution_at,
+    customer_id, payment_method_id, custodyserviceid
+  )
+  SELECT $1, p.id, $3, $4, $5, $6, $6, $7, $8, $9
+  FROM product p
+  WHERE p.id = $2
+    AND ($9::uuid IS NULL OR EXISTS (SELECT 1 FROM custodyService cs WHERE cs.id = $9::uuid))
+  RETURNING id
+`;
+
+export const GET_PLANS_BY_USER = `
+  ${SELECT_PLAN}
+  WHERE sp.userid = $1
+  ORDER BY sp.createdat DESC
+`;
+
+export const GET_PLAN_BY_ID = `
+  ${SELECT_PLAN}
+  WHERE sp.id = $1 AND sp.userid = $2
+`;
+
+/**
+ * NULL leaves a field unchanged
+ */
+export const UPDATE_PLAN = `
+  UPDATE savings_plan
+  SET
+    amount = COALESCE($3, amount),
+    frequency = COALESCE($4, frequency),
+    payment_method_id = COALESCE($5, payment_method_id),
+    status = COALESCE($6, status),
+    next_execution_at = COALESCE($7, next_execution_at),
+    updatedat = NOW()
+  WHERE id = $1 AND userid = $2
+  RETURNING id
+`;
+
+export const CANCEL_PLAN = `
+  UPDATE savings_plan
+  SET status = 'cancelled', updatedat = NOW()
+  WHERE id = $1 AND userid = $2
+  RETURNING id
+`;
+
+export const GIVE_UP_PLAN_RETRIES = `
+  UPDATE savings_plan_execution
+  SET status = 'failed', last_error = 'Savings plan cancelled', next_retry_at = NULL, updatedat = NOW()
+  WHERE savings_plan_id = $1 AND status IN ('pending', 'retrying')
+`;
+
+export const GET_DUE_PLANS = `
+  ${SELECT_DUE_PLAN}
+  WHERE sp.status = 'active'
+    AND sp.next_execution_at <= $1
+  ORDER BY sp.next_execution_at ASC
+`;
+
+export const GET_DUE_PLAN_BY_ID = `
+  ${SELECT_DUE_PLAN}
+  WHERE sp.id = $1
+`;
+
+export const ADVANCE_PLAN = `
+  UPDATE savings_plan
+  SET last_execution_at = $2, next_execution_at = $3, updatedat = NOW()
+  WHERE id = $1
+`;
+
+/**
+ * One execution per plan and due date; a concurrent run sees the conflict and skips it
+ */
+export const INSERT_EXECUTION = `
+  INSERT INTO savings_plan_execution (savings_plan_id, scheduled_for)
+  VALUES ($1, $2)
+  ON CONFLICT (savings_plan_id, scheduled_for) DO NOTHING
+  RETURNING id
+`;
+
+export const GET_EXECUTION_BY_ID = `
+  ${SELECT_EXECUTION}
+  WHERE spe.id = $1
+`;
+
+export const GET_RETRYABLE_EXECUTIONS = `
+  ${SELECT_EXECUTION}
+  WHERE spe.status = 'retrying'
+    AND spe.next_retry_at <= $1
+    AND sp.status <> 'cancelled'
+  ORDER BY spe.next_retry_at ASC
+`;
+
+/**
+ * NULL leaves the order, payment and pricing fields ($4-$9) unchanged
+ */
+export const UPDATE_EXECUTION = `
+  UPDATE savings_plan_execution
+  SET
+    status = $2,
+    attempts = $3,
+    orderid = COALESCE($4, orderid),
+    payment_intent_id = COALESCE($5, payment_intent_id),
+    quantity = COALESCE($6, quantity),
+    unit_price = COALESCE($7, unit_price),
+    charged_amount = COALESCE($8, charged_amount),
+    charged_currency = COALESCE($9, charged_currency),
+    last_error = $10,
+    next_retry_at = $11,
+    updatedat = NOW()
+  WHERE id = $1
+`;
+
+/**
+ * $1 plan (optional), $2 user (optional), $3 status (optional), $4 limit
+ */
+export const GET_EXECUTIONS = `
+  ${SELECT_EXECUTION}
+  WHERE ($1::uuid IS NULL OR spe.savings_plan_id = $1::uuid)
+    AND ($2::uuid IS NULL OR sp.userid = $2::uuid)
+    AND ($3::text IS NULL OR spe.status = $3::text)
+  ORDER BY spe.scheduled_for DESC, spe.createdat DESC
+  LIMIT $4
+`;
@@ -0,0 +1,157 @@
+/**
+ * Savings Plan Repository Implementation
+ * PostgreSQL implementation of ISavingsPlanRepository
+ */
+
+import { Pool } from 'pg';
+import type { ISavingsPlanRepository } from './ISavingsPlanRepository';
+import {
+  DueSavingsPlan,
+  ListSavingsPlanExecutionsOptions,
+  NewSavingsPlan,
+  SavingsPlan,
+  SavingsPlanChanges,
+  SavingsPlanExecution,
+  SavingsPlanExecutionUpdate,
+  mapRowToSavingsPlan,
+  mapRowToSavingsPlanExecution
+} from '../types/SavingsPlanTypes';
+import * as queries from './SavingsPlanQueries';
+
+const DEFAULT_EXECUTION_LIMIT = 100;
+
+export class SavingsPlanRepositoryImpl implements ISavingsPlanRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async create(userId: string, plan: NewSavingsPlan): Promise<SavingsPlan | null> {
+    const result = await this.pool.query(queries.INSERT_PLAN, [
+      userId,
+      plan.productId,
+      plan.amount,
+      plan.currency,
+      plan.frequency,
+      plan.startDate,
+      plan.customerId,
+      plan.paymentMethodId,
+      plan.custodyServiceId
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.findById(result.rows[0].id, userId);
+  }
+
+  async findByUser(userId: string): Promise<SavingsPlan[]> {
+    const result = await this.pool.query(queries.GET_PLANS_BY_USER, [userId]);
+    return result.rows.map(mapRowToSavingsPlan);
+  }
+
+  async findById(id: string, userId: string): Promise<SavingsPlan | null> {
+    const result = await this.pool.query(queries.GET_PLAN_BY_ID, [id, userId]);
+    return result.rows.length > 0 ? mapRowToSavingsPlan(result.rows[0]) : null;
+  }
+
+  async update(id: string, userId: string, changes: SavingsPlanChanges): Promise<SavingsPlan | null> {
+    const result = await this.pool.query(queries.UPDATE_PLAN, [
+      id,
+      userId,
+      changes.amount ?? null,
+      changes.frequency ?? null,
+      changes.paymentMethodId ?? null,
+      changes.status ?? null,
+      changes.nextExecutionAt ?? null
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.findById(id, userId);
+  }
+
+  async cancel(id: string, userId: string): Promise<SavingsPlan | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(queries.CANCEL_PLAN, [id, userId]);
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      await client.query(queries.GIVE_UP_PLAN_RETRIES, [id]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    return this.findById(id, userId);
+  }
+
+  async findDuePlans(asOf: Date): Promise<DueSavingsPlan[]> {
+    const result = await this.pool.query(queries.GET_DUE_PLANS, [asOf]);
+    return result.rows.map(mapRowToDueSavingsPlan);
+  }
+
+  async findDuePlanById(id: string): Promise<DueSavingsPlan | null> {
+    const result = await this.pool.query(queries.GET_DUE_PLAN_BY_ID, [id]);
+    return result.rows.length > 0 ? mapRowToDueSavingsPlan(result.rows[0]) : null;
+  }
+
+  async advancePlan(id: string, executedAt: Date, nextExecutionAt: Date): Promise<void> {
+    await this.pool.query(queries.ADVANCE_PLAN, [id, executedAt, nextExecutionAt]);
+  }
+
+  async createExecution(savingsPlanId: string, scheduledFor: Date): Promise<SavingsPlanExecution | null> {
+    const result = await this.pool.query(queries.INSERT_EXECUTION, [savingsPlanId, scheduledFor]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const execution = await this.pool.query(queries.GET_EXECUTION_BY_ID, [result.rows[0].id]);
+    return mapRowToSavingsPlanExecution(execution.rows[0]);
+  }
+
+  async findRetryableExecutions(asOf: Date): Promise<SavingsPlanExecution[]> {
+    const result = await this.pool.query(queries.GET_RETRYABLE_EXECUTIONS, [asOf]);
+    return result.rows.map(mapRowToSavingsPlanExecution);
+  }
+
+  async updateExecution(id: string, update: SavingsPlanExecutionUpdate): Promise<void> {
+    await this.pool.query(queries.UPDATE_EXECUTION, [
+      id,
+      update.status,
+      update.attempts,
+      update.orderId ?? null,
+      update.paymentIntentId ?? null,
+      update.quantity ?? null,
+      update.unitPrice ?? null,
+      update.chargedAmount ?? null,
+      update.chargedCurrency ?? null,
+      update.lastError,
+      update.nextRetryAt
+    ]);
+  }
+
+  async findExecutions(
+    options: ListSavingsPlanExecutionsOptions & { savingsPlanId?: string }
+  ): Promise<SavingsPlanExecution[]> {
+    const result = await this.pool.query(queries.GET_EXECUTIONS, [
+      options.savingsPlanId ?? null,
+      options.userId ?? null,
+      options.status ?? null,
+      options.limit ?? DEFAULT_EXECUTION_LIMIT
+    ]);
+    return result.rows.map(mapRowToSavingsPlanExecution);
+  }
+}
+
+function mapRowToDueSavingsPlan(row: Record<string, unknown>): DueSavingsPlan {
+  return {
+    ...mapRowToSavingsPlan(row),
+    email: row.email as string,
+    emailVerified: row.email_verified === true,
+    role: row.role as string,
+    firstName: row.first_name as string,
+    lastName: row.last_name as string
+  };
+}
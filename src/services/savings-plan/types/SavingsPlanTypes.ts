@@ -0,0 +1,272 @@
+/**
+ * Savings Plan Domain Types
+ *
+ * Recurring purchases of a fixed amount of a product ("CHF 200 of gold every month"),
+ * executed as buy orders with fractional quantities and charged to a linked payment method
+ */
+
+// ============================================================================
+// Error Codes
+// ============================================================================
+
+export const SavingsPlanErrorCode = {
+  VALIDATION_ERROR: 'SAVINGS_PLAN_VALIDATION_ERROR',
+  UNKNOWN_PRODUCT: 'SAVINGS_PLAN_UNKNOWN_PRODUCT',
+  NOT_FOUND: 'SAVINGS_PLAN_NOT_FOUND',
+  CANCELLED: 'SAVINGS_PLAN_CANCELLED',
+} as const;
+
+export type SavingsPlanErrorCode = typeof SavingsPlanErrorCode[keyof typeof SavingsPlanErrorCode];
+
+export class SavingsPlanError extends Error {
+  constructor(
+    public readonly code: SavingsPlanErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SavingsPlanError';
+  }
+}
+
+export function getSavingsPlanHttpStatus(code: SavingsPlanErrorCode): number {
+  switch (code) {
+    case SavingsPlanErrorCode.NOT_FOUND:
+      return 404;
+    case SavingsPlanErrorCode.CANCELLED:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+// ============================================================================
+// Plans
+// ============================================================================
+
+/**
+ * paymentFrequency values a plan can run at ('onetime' is an order, not a plan)
+ */
+export const SAVINGS_PLAN_FREQUENCIES = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'] as const;
+export type SavingsPlanFrequency = typeof SAVINGS_PLAN_FREQUENCIES[number];
+
+/**
+ * Cancelled plans keep their execution history but can no longer be changed
+ */
+export const SAVINGS_PLAN_STATUSES = ['active', 'paused', 'cancelled'] as const;
+export type SavingsPlanStatus = typeof SAVINGS_PLAN_STATUSES[number];
+
+export function isSavingsPlanFrequency(value: string): value is SavingsPlanFrequency {
+  return (SAVINGS_PLAN_FREQUENCIES as readonly string[]).includes(value);
+}
+
+export interface SavingsPlan {
+  readonly id: string;
+  readonly userId: string;
+  readonly productId: string;
+  readonly productName: string;
+  /** Amount invested per execution; fees and taxes of the order are charged on top */
+  readonly amount: number;
+  readonly currency: string;
+  readonly frequency: SavingsPlanFrequency;
+  /** First execution; later executions keep its day of week / month */
+  readonly startDate: Date;
+  readonly nextExecutionAt: Date;
+  readonly lastExecutionAt: Date | null;
+  /** Stripe customer and payment method charged for each execution */
+  readonly customerId: string;
+  readonly paymentMethodId: string;
+  readonly custodyServiceId: string | null;
+  readonly status: SavingsPlanStatus;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Plan due for execution together with the owner used for the order audit trail
+ */
+export interface DueSavingsPlan extends SavingsPlan {
+  readonly email: string;
+  readonly emailVerified: boolean;
+  readonly role: string;
+  readonly firstName: string;
+  readonly lastName: string;
+}
+
+export interface CreateSavingsPlanInput {
+  productId: string;
+  amount: number;
+  /** ISO 4217 code, default: CHF */
+  currency?: string;
+  frequency: SavingsPlanFrequency;
+  /** ISO 8601, default: now */
+  startDate?: string;
+  customerId: string;
+  paymentMethodId: string;
+  custodyServiceId?: string;
+}
+
+/**
+ * Validated plan as persisted by the repository
+ */
+export interface NewSavingsPlan {
+  productId: string;
+  amount: number;
+  currency: string;
+  frequency: SavingsPlanFrequency;
+  startDate: Date;
+  customerId: string;
+  paymentMethodId: string;
+  custodyServiceId: string | null;
+}
+
+export interface UpdateSavingsPlanInput {
+  amount?: number;
+  frequency?: SavingsPlanFrequency;
+  paymentMethodId?: string;
+  /** Pause or resume the plan; cancel with DELETE */
+  status?: 'active' | 'paused';
+}
+
+export interface SavingsPlanChanges extends UpdateSavingsPlanInput {
+  /** Recomputed when the frequency changes or a paused plan is resumed */
+  nextExecutionAt?: Date;
+}
+
+// ============================================================================
+// Executions
+// ============================================================================
+
+/**
+ * pending: created, not yet attempted; retrying: failed attempt, retried at nextRetryAt;
+ * failed: gave up after the maximum number of attempts
+ */
+export const SAVINGS_PLAN_EXECUTION_STATUSES = ['pending', 'retrying', 'succeeded', 'failed'] as const;
+export type SavingsPlanExecutionStatus = typeof SAVINGS_PLAN_EXECUTION_STATUSES[number];
+
+export function isSavingsPlanExecutionStatus(value: string): value is SavingsPlanExecutionStatus {
+  return (SAVINGS_PLAN_EXECUTION_STATUSES as readonly string[]).includes(value);
+}
+
+export interface SavingsPlanExecution {
+  readonly id: string;
+  readonly savingsPlanId: string;
+  readonly userId: string;
+  /** Due date of the execution; one execution per plan and due date */
+  readonly scheduledFor: Date;
+  readonly status: SavingsPlanExecutionStatus;
+  readonly attempts: number;
+  readonly orderId: string | null;
+  readonly paymentIntentId: string | null;
+  readonly quantity: number | null;
+  readonly unitPrice: number | null;
+  /** Order total charged to the payment method */
+  readonly chargedAmount: number | null;
+  readonly chargedCurrency: string | null;
+  readonly lastError: string | null;
+  readonly nextRetryAt: Date | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Fields written after an attempt; undefined order, payment and pricing fields are left unchanged
+ */
+export interface SavingsPlanExecutionUpdate {
+  status: SavingsPlanExecutionStatus;
+  attempts: number;
+  lastError: string | null;
+  nextRetryAt: Date | null;
+  orderId?: string;
+  paymentIntentId?: string;
+  quantity?: number;
+  unitPrice?: number;
+  chargedAmount?: number;
+  chargedCurrency?: string;
+}
+
+export interface ListSavingsPlanExecutionsOptions {
+  status?: SavingsPlanExecutionStatus;
+  userId?: string;
+  limit?: number;
+}
+
+export interface SavingsPlanRunResult {
+  asOf: Date;
+  /** Executions attempted in this run (new and retried) */
+  attempted: number;
+  succeeded: number;
+  /** Failed attempts that will be retried */
+  retrying: number;
+  /** Executions that failed for good */
+  failed: number;
+  errors: string[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface SavingsPlanConfig {
+  /** Attempts per execution before it is reported as failed */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for every further attempt */
+  retryDelayMinutes: number;
+  /** Decimal places of the fractional order quantity (position quantities are NUMERIC(10,4)) */
+  quantityDecimals: number;
+  defaultCurrency: string;
+}
+
+export const DEFAULT_SAVINGS_PLAN_CONFIG: SavingsPlanConfig = {
+  maxAttempts: 3,
+  retryDelayMinutes: 60,
+  quantityDecimals: 4,
+  defaultCurrency: 'CHF',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function mapRowToSavingsPlan(row: Record<string, unknown>): SavingsPlan {
+  return {
+    id: row.id as string,
+    userId: row.userid as string,
+    productId: row.productid as string,
+    productName: row.productname as string,
+    amount: Number.parseFloat(row.amount as string),
+    currency: String(row.currency).trim(),
+    frequency: row.frequency as SavingsPlanFrequency,
+    startDate: new Date(row.start_date as string),
+    nextExecutionAt: new Date(row.next_execution_at as string),
+    lastExecutionAt: row.last_execution_at ? new Date(row.last_execution_at as string) : null,
+    customerId: row.customer_id as string,
+    paymentMethodId: row.payment_method_id as string,
+    custodyServiceId: (row.custodyserviceid as string | null) ?? null,
+    status: row.status as SavingsPlanStatus,
+    createdAt: new Date(row.createdat as string),
+    updatedAt: new Date(row.updatedat as string),
+  };
+}
+
+export function mapRowToSavingsPlanExecution(row: Record<string, unknown>): SavingsPlanExecution {
+  const toNumber = (value: unknown): number | null => (value == null ? null : Number.parseFloat(value as string));
+
+  return {
+    id: row.id as string,
+    savingsPlanId: row.savings_plan_id as string,
+    userId: row.userid as string,
+    scheduledFor: new Date(row.scheduled_for as string),
+    status: row.status as SavingsPlanExecutionStatus,
+    attempts: Number(row.attempts),
+    orderId: (row.orderid as string | null) ?? null,
+    paymentIntentId: (row.payment_intent_id as string | null) ?? null,
+    quantity: toNumber(row.quantity),
+    unitPrice: toNumber(row.unit_price),
+    chargedAmount: toNumber(row.charged_amount),
+    chargedCurrency: row.charged_currency ? String(row.charged_currency).trim() : null,
+    lastError: (row.last_error as string | null) ?? null,
+    nextRetryAt: row.next_retry_at ? new Date(row.next_retry_at as string) : null,
+    createdAt: new Date(row.createdat as string),
+    updatedAt: new Date(row.updatedat as string),
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Savings Plan Schedule
+ * Pure functions for the execution dates of a plan (UTC)
+ */
+
+import type { SavingsPlanFrequency } from '../types/SavingsPlanTypes';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTHS_PER_PERIOD: Partial<Record<SavingsPlanFrequency, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * Date of the n-th execution (0 = start date).
+ * Monthly, quarterly and yearly plans keep the day of month of the start date,
+ * clamped to the last day of shorter months (Jan 31 -> Feb 28 -> Mar 31).
+ */
+export function getScheduledDate(startDate: Date, frequency: SavingsPlanFrequency, n: number): Date {
+  switch (frequency) {
+    case 'daily':
+      return new Date(startDate.getTime() + n * MS_PER_DAY);
+    case 'weekly':
+      return new Date(startDate.getTime() + n * 7 * MS_PER_DAY);
+    default: {
+      const months = startDate.getUTCMonth() + n * (MONTHS_PER_PERIOD[frequency] ?? 1);
+      const year = startDate.getUTCFullYear() + Math.floor(months / 12);
+      const month = months % 12;
+      const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return new Date(Date.UTC(
+        year,
+        month,
+        Math.min(startDate.getUTCDate(), lastDayOfMonth),
+        startDate.getUTCHours(),
+        startDate.getUTCMinutes(),
+        startDate.getUTCSeconds()
+      ));
+    }
+  }
+}
+
+/**
+ * First execution strictly after `after`; the start date itself when it lies after `after`.
+ * Missed executions (e.g. while a plan was paused) are skipped, not caught up.
+ */
+export function getNextExecutionDate(startDate: Date, frequency: SavingsPlanFrequency, after: Date): Date {
+  if (startDate > after) {
+    return startDate;
+  }
+
+  // Lower bound of the elapsed periods (longest period length), then step to the first date after `after`
+  const maxPeriodDays = { daily: 1, weekly: 7, monthly: 31, quarterly: 92, yearly: 366 }[frequency];
+  let n = Math.floor((after.getTime() - startDate.getTime()) / (maxPeriodDays * MS_PER_DAY));
+  while (getScheduledDate(startDate, frequency, n) <= after) {
+    n++;
+  }
+  return getScheduledDate(startDate, frequency, n);
+}
+
+/**
+ * Largest quantity with the given decimal places whose price does not exceed the amount
+ */
+export function calculateFractionalQuantity(amount: number, unitPrice: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  // Round away floating point noise before flooring (200 / 2000 = 0.1 must not become 0.0999)
+  return Math.floor(Number((amount / unitPrice * factor).toFixed(6))) / factor;
+}
@@ -0,0 +1,58 @@
+/**
+ * IShippingService Interface
+ *
+ * Shipping tariff and insurance tier administration, and shipping quotes for orders
+ */
+
+import {
+  CreateInsuranceTierRequest,
+  CreateShippingTariffRequest,
+  InsuranceTier,
+  ListShippingTariffsOptions,
+  ShippingCharges,
+  ShippingQuoteRequest,
+  ShippingResult,
+  ShippingTariff,
+  UpdateInsuranceTierRequest,
+  UpdateShippingTariffRequest,
+} from './types/ShippingTypes';
+import { AuditTrailUser } from '../../utils/auditTrail';
+
+export interface IShippingService {
+  listTariffs(options?: ListShippingTariffsOptions): Promise<ShippingResult<ShippingTariff[]>>;
+
+  getTariff(id: string): Promise<ShippingResult<ShippingTariff>>;
+
+  createTariff(request: CreateShippingTariffRequest, authenticatedUser: AuditTrailUser): Promise<ShippingResult<ShippingTariff>>;
+
+  /**
+   * Partial update; omitted fields keep their current value
+   */
+  updateTariff(
+    id: string,
+    request: UpdateShippingTariffRequest,
+    authenticatedUser: AuditTrailUser
+  ): Promise<ShippingResult<ShippingTariff>>;
+
+  deleteTariff(id: string): Promise<ShippingResult<void>>;
+
+  listInsuranceTiers(): Promise<ShippingResult<InsuranceTier[]>>;
+
+  getInsuranceTier(id: string): Promise<ShippingResult<InsuranceTier>>;
+
+  createInsuranceTier(request: CreateInsuranceTierRequest, authenticatedUser: AuditTrailUser): Promise<ShippingResult<InsuranceTier>>;
+
+  updateInsuranceTier(
+    id: string,
+    request: UpdateInsuranceTierRequest,
+    authenticatedUser: AuditTrailUser
+  ): Promise<ShippingResult<InsuranceTier>>;
+
+  deleteInsuranceTier(id: string): Promise<ShippingResult<void>>;
+
+  /**
+   * Shipping and insurance charges for the items, delivered to the user's primary address country.
+   * Fails with NO_TARIFF when no tariff covers the destination and parcel weight.
+   */
+  quoteShipping(request: ShippingQuoteRequest): Promise<ShippingResult<ShippingCharges>>;
+}
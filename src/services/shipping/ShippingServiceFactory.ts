@@ -0,0 +1,41 @@
+/**
+ * Shipping Service Factory
+ * Dependency Injection setup
+ */
+
+import { Pool } from 'pg';
+import { IShippingService } from './IShippingService';
+import { ShippingServiceImpl } from './impl/ShippingServiceImpl';
+import { IShippingRepository } from './repository/IShippingRepository';
+import { ShippingRepositoryImpl } from './repository/ShippingRepositoryImpl';
+import { ShippingRepositoryMock } from './mock/ShippingRepositoryMock';
+
+export class ShippingServiceFactory {
+  /**
+   * Create a shipping service with real database repository
+   */
+  static create(pool: Pool): IShippingService {
+    return new ShippingServiceImpl(new ShippingRepositoryImpl(pool));
+  }
+
+  /**
+   * Create a shipping service with mock repository (for testing)
+   */
+  static createMock(repository: IShippingRepository = new ShippingRepositoryMock()): IShippingService {
+    return new ShippingServiceImpl(repository);
+  }
+
+  /**
+   * Create repository only (useful for complex scenarios)
+   */
+  static createRepository(pool: Pool): IShippingRepository {
+    return new ShippingRepositoryImpl(pool);
+  }
+
+  /**
+   * Create mock repository only
+   */
+  static createMockRepository(): IShippingRepository {
+    return new ShippingRepositoryMock();
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Shipping Service Implementation
+ *
+ * Manages shipping tariffs and insurance tiers and quotes the shipping
+ * and insurance charges of an order
+ */
+
+import { IShippingService } from '../IShippingService';
+import { IShippingRepository } from '../repository/IShippingRepository';
+import {
+  CreateInsuranceTierRequest,
+  CreateShippingTariffRequest,
+  DELIVERY_METHODS,
+  InsuranceTier,
+  ListShippingTariffsOptions,
+  ShippingCharges,
+  ShippingErrorCode,
+  ShippingQuoteRequest,
+  ShippingResult,
+  ShippingTariff,
+  UpdateInsuranceTierRequest,
+  UpdateShippingTariffRequest,
+  isDeliveryMethod,
+  validateInsuranceTier,
+  validateShippingTariff,
+} from '../types/ShippingTypes';
+import { calculateParcelWeightGrams, calculateShippingCharges } from '../utils/ShippingCalculator';
+import { roundCurrency } from '../../../utils/currency';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+
+const PG_FOREIGN_KEY_VIOLATION = '23503';
+const PG_UNIQUE_VIOLATION = '23505';
+const PG_INVALID_TEXT = '22P02';
+
+export class ShippingServiceImpl implements IShippingService {
+  constructor(private readonly repository: IShippingRepository) {}
+
+  // ============================================================================
+  // Shipping Tariffs
+  // ============================================================================
+
+  async listTariffs(options: ListShippingTariffsOptions = {}): Promise<ShippingResult<ShippingTariff[]>> {
+    if (options.deliveryMethod && !isDeliveryMethod(options.deliveryMethod)) {
+      return this.validationError(`deliveryMethod must be one of: ${DELIVERY_METHODS.join(', ')}`);
+    }
+    try {
+      return { success: true, data: await this.repository.findTariffs(options) };
+    } catch (error) {
+      return this.failWith(error, 'Failed to list shipping tariffs');
+    }
+  }
+
+  async getTariff(id: string): Promise<ShippingResult<ShippingTariff>> {
+    try {
+      const tariff = await this.repository.findTariffById(id);
+      return tariff ? { success: true, data: tariff } : this.notFound('Shipping tariff not found');
+    } catch (error) {
+      return this.failWith(error, 'Failed to get shipping tariff');
+    }
+  }
+
+  async createTariff(
+    request: CreateShippingTariffRequest,
+    authenticatedUser: AuditTrailUser
+  ): Promise<ShippingResult<ShippingTariff>> {
+    const validation = validateShippingTariff(request);
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const id = await this.repository.createTariff(validation.data, authenticatedUser);
+      return await this.getTariff(id);
+    } catch (error) {
+      return this.failWith(error, 'Failed to create shipping tariff');
+    }
+  }
+
+  async updateTariff(
+    id: string,
+    request: UpdateShippingTariffRequest,
+    authenticatedUser: AuditTrailUser
+  ): Promise<ShippingResult<ShippingTariff>> {
+    const existing = await this.getTariff(id);
+    if (!existing.success || !existing.data) {
+      return existing;
+    }
+
+    const current = existing.data;
+    const validation = validateShippingTariff({
+      deliveryMethod: request.deliveryMethod ?? current.deliveryMethod,
+      countryId: request.countryId === undefined ? current.countryId : request.countryId,
+      minWeightGrams: request.minWeightGrams ?? current.minWeightGrams,
+      maxWeightGrams: request.maxWeightGrams === undefined ? current.maxWeightGrams : request.maxWeightGrams,
+      fee: request.fee ?? current.fee,
+      description: request.description === undefined ? current.description : request.description,
+    });
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const updated = await this.repository.updateTariff(id, validation.data, authenticatedUser);
+      return updated ? await this.getTariff(id) : this.notFound('Shipping tariff not found');
+    } catch (error) {
+      return this.failWith(error, 'Failed to update shipping tariff');
+    }
+  }
+
+  async deleteTariff(id: string): Promise<ShippingResult<void>> {
+    try {
+      const deleted = await this.repository.deleteTariff(id);
+      return deleted ? { success: true } : this.notFound('Shipping tariff not found');
+    } catch (error) {
+      return this.failWith(error, 'Failed to delete shipping tariff');
+    }
+  }
+
+  // ============================================================================
+  // Insurance Tiers
+  // ============================================================================
+
+  async listInsuranceTiers(): Promise<ShippingResult<InsuranceTier[]>> {
+    try {
+      return { success: true, data: await this.repository.findInsuranceTiers() };
+    } catch (error) {
+      return this.failWith(error, 'Failed to list insurance tiers');
+    }
+  }
+
+  async getInsuranceTier(id: string): Promise<ShippingResult<InsuranceTier>> {
+    try {
+      const tier = await this.repository.findInsuranceTierById(id);
+      return tier ? { success: true, data: tier } : this.notFound('Insurance tier not found');
+    } catch (error) {
+      return this.failWith(error, 'Failed to get insurance tier');
+    }
+  }
+
+  async createInsuranceTier(
+    request: CreateInsuranceTierRequest,
+    authenticatedUser: AuditTrailUser
+  ): Promise<ShippingResult<InsuranceTier>> {
+    const validation = validateInsuranceTier(request);
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const id = await this.repository.createInsuranceTier(validation.data, authenticatedUser);
+      return await this.getInsuranceTier(id);
+    } catch (error) {
+      return this.failWith(error, 'Failed to create insurance tier');
+    }
+  }
+
+  async updateInsuranceTier(
+    id: string,
+    request: UpdateInsuranceTierRequest,
+    authenticatedUser: AuditTrailUser
+  ): Promise<ShippingResult<InsuranceTier>> {
+    const existing = await this.getInsuranceTier(id);
+    if (!existing.success || !existing.data) {
+      return existing;
+    }
+
+    const current = existing.data;
+    const validation = validateInsuranceTier({
+      deliveryMethod: request.deliveryMethod ?? current.deliveryMethod,
+      minValue: request.minValue ?? current.minValue,
+      maxValue: request.maxValue === undefined ? current.maxValue : request.maxValue,
+      rate: request.rate ?? current.rate,
+      description: request.description === undefined ? current.description : request.description,
+    });
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const updated = await this.repository.updateInsuranceTier(id, validation.data, authenticatedUser);
+      return updated ? await this.getInsuranceTier(id) : this.notFound('Insurance tier not found');
+    } catch (error) {
+      return this.failWith(error, 'Failed to update insurance tier');
+    }
+  }
+
+  async deleteInsuranceTier(id: string): Promise<ShippingResult<void>> {
+    try {
+      const deleted = await this.repository.deleteInsuranceTier(id);
+      return deleted ? { success: true } : this.notFound('Insurance tier not found');
+    } catch (error) {
+      return this.failWith(error, 'Failed to delete insurance tier');
+    }
+  }
+
+  // ============================================================================
+  // Quotes
+  // ============================================================================
+
+  async quoteShipping(request: ShippingQuoteRequest): Promise<ShippingResult<ShippingCharges>> {
+    if (!isDeliveryMethod(request.deliveryMethod)) {
+      return this.validationError(`deliveryMethod must be one of: ${DELIVERY_METHODS.join(', ')}`);
+    }
+    if (request.items.length === 0) {
+      return this.validationError('At least one item is required');
+    }
+
+    try {
+      const destination = await this.repository.findPrimaryAddressCountry(request.userId);
+      const [tariffs, tiers, weights] = await Promise.all([
+        this.repository.findTariffs({ deliveryMethod: request.deliveryMethod, countryId: destination?.countryId }),
+        this.repository.findInsuranceTiers(),
+        this.repository.findProductWeights([...new Set(request.items.map(item => item.productId))]),
+      ]);
+
+      const parcelWeightGrams = calculateParcelWeightGrams(request.items, weights);
+      const declaredValue = roundCurrency(
+        request.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+      );
+      const charges = calculateShippingCharges({
+        tariffs,
+        tiers,
+        deliveryMethod: request.deliveryMethod,
+        destination,
+        parcelWeightGrams,
+        declaredValue,
+      });
+
+      if (!charges) {
+        return {
+          success: false,
+          error: {
+            code: ShippingErrorCode.NO_TARIFF,
+            message: `No ${request.deliveryMethod} tariff for ${parcelWeightGrams} g to ` +
+              `${destination?.countryCode ?? 'an unknown destination'}`,
+          },
+        };
+      }
+
+      return { success: true, data: charges };
+    } catch (error) {
+      return this.failWith(error, 'Failed to quote shipping');
+    }
+  }
+
+  private notFound<T>(message: string): ShippingResult<T> {
+    return { success: false, error: { code: ShippingErrorCode.NOT_FOUND, message } };
+  }
+
+  private validationError<T>(message: string): ShippingResult<T> {
+    return { success: false, error: { code: ShippingErrorCode.VALIDATION_ERROR, message } };
+  }
+
+  private failWith<T>(error: unknown, message: string): ShippingResult<T> {
+    const pgCode = (error as { code?: string })?.code;
+    if (pgCode === PG_FOREIGN_KEY_VIOLATION) {
+      return { success: false, error: { code: ShippingErrorCode.REFERENCE_NOT_FOUND, message: 'Unknown country' } };
+    }
+    if (pgCode === PG_UNIQUE_VIOLATION) {
+      return {
+        success: false,
+        error: { code: ShippingErrorCode.DUPLICATE_ENTRY, message: 'An entry with the same scope and lower bound already exists' },
+      };
+    }
+    if (pgCode === PG_INVALID_TEXT) {
+      return this.validationError('Invalid identifier');
+    }
+
+    console.error(`${message}:`, error);
+    return { success: false, error: { code: ShippingErrorCode.INTERNAL_ERROR, message } };
+  }
+}
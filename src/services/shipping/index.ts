@@ -0,0 +1,26 @@
+/**
+ * Shipping Service Barrel Export
+ * Clean public API
+ */
+
+// Service Interface
+export { IShippingService } from './IShippingService';
+
+// Service Implementation
+export { ShippingServiceImpl } from './impl/ShippingServiceImpl';
+
+// Repository Interfaces
+export { IShippingRepository } from './repository/IShippingRepository';
+
+// Repository Implementations
+export { ShippingRepositoryImpl } from './repository/ShippingRepositoryImpl';
+export { ShippingRepositoryMock } from './mock/ShippingRepositoryMock';
+
+// Types
+export * from './types/ShippingTypes';
+
+// Utilities
+export * from './utils/ShippingCalculator';
+
+// Factory
+export { ShippingServiceFactory } from './ShippingServiceFactory';
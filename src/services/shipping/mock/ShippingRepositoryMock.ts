@@ -0,0 +1,149 @@
+/**
+ * Shipping Repository Mock
+ * In-memory implementation for testing
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  InsuranceTier,
+  ListShippingTariffsOptions,
+  NormalizedInsuranceTier,
+  NormalizedShippingTariff,
+  ProductParcelWeight,
+  ShippingTariff,
+} from '../types/ShippingTypes';
+import { IShippingRepository } from '../repository/IShippingRepository';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+
+interface MockCountry {
+  id: string;
+  code: string;
+}
+
+const duplicateKeyError = (index: string): Error =>
+  Object.assign(new Error(`duplicate key value violates unique constraint "${index}"`), { code: '23505' });
+
+export class ShippingRepositoryMock implements IShippingRepository {
+  private tariffs: ShippingTariff[] = [];
+  private tiers: InsuranceTier[] = [];
+  private countries: MockCountry[] = [];
+  private primaryCountries = new Map<string, string>();
+  private productWeights: ProductParcelWeight[] = [];
+
+  async findTariffs(options: ListShippingTariffsOptions = {}): Promise<ShippingTariff[]> {
+    return this.tariffs.filter(tariff =>
+      (!options.deliveryMethod || tariff.deliveryMethod === options.deliveryMethod) &&
+      (!options.countryId || tariff.countryId === null || tariff.countryId === options.countryId)
+    );
+  }
+
+  async findTariffById(id: string): Promise<ShippingTariff | null> {
+    return this.tariffs.find(tariff => tariff.id === id) ?? null;
+  }
+
+  async createTariff(tariff: NormalizedShippingTariff, _authenticatedUser: AuditTrailUser): Promise<string> {
+    if (this.tariffs.some(existing => this.isSameTariffScope(existing, tariff))) {
+      throw duplicateKeyError('idx_shipping_tariff_scope');
+    }
+    const now = new Date();
+    const id = uuidv4();
+    this.tariffs.push({ id, ...tariff, countryCode: this.resolveCountryCode(tariff.countryId), createdAt: now, updatedAt: now });
+    return id;
+  }
+
+  async updateTariff(id: string, tariff: NormalizedShippingTariff, _authenticatedUser: AuditTrailUser): Promise<boolean> {
+    const index = this.tariffs.findIndex(existing => existing.id === id);
+    if (index < 0) {
+      return false;
+    }
+    this.tariffs[index] = {
+      ...this.tariffs[index],
+      ...tariff,
+      countryCode: this.resolveCountryCode(tariff.countryId),
+      updatedAt: new Date(),
+    };
+    return true;
+  }
+
+  async deleteTariff(id: string): Promise<boolean> {
+    const before = this.tariffs.length;
+    this.tariffs = this.tariffs.filter(tariff => tariff.id !== id);
+    return this.tariffs.length < before;
+  }
+
+  async findInsuranceTiers(): Promise<InsuranceTier[]> {
+    return [...this.tiers];
+  }
+
+  async findInsuranceTierById(id: string): Promise<InsuranceTier | null> {
+    return this.tiers.find(tier => tier.id === id) ?? null;
+  }
+
+  async createInsuranceTier(tier: NormalizedInsuranceTier, _authenticatedUser: AuditTrailUser): Promise<string> {
+    if (this.tiers.some(existing => existing.deliveryMethod === tier.deliveryMethod && existing.minValue === tier.minValue)) {
+      throw duplicateKeyError('idx_insurance_tier_scope');
+    }
+    const now = new Date();
+    const id = uuidv4();
+    this.tiers.push({ id, ...tier, createdAt: now, updatedAt: now });
+    return id;
+  }
+
+  async updateInsuranceTier(id: string, tier: NormalizedInsuranceTier, _authenticatedUser: AuditTrailUser): Promise<boolean> {
+    const index = this.tiers.findIndex(existing => existing.id === id);
+    if (index < 0) {
+      return false;
+    }
+    this.tiers[index] = { ...this.tiers[index], ...tier, updatedAt: new Date() };
+    return true;
+  }
+
+  async deleteInsuranceTier(id: string): Promise<boolean> {
+    const before = this.tiers.length;
+    this.tiers = this.tiers.filter(tier => tier.id !== id);
+    return this.tiers.length < before;
+  }
+
+  async findPrimaryAddressCountry(userId: string): Promise<{ countryId: string; countryCode: string } | null> {
+    const countryId = this.primaryCountries.get(userId);
+    const country = this.countries.find(candidate => candidate.id === countryId);
+    return country ? { countryId: country.id, countryCode: country.code } : null;
+  }
+
+  async findProductWeights(productIds: string[]): Promise<ProductParcelWeight[]> {
+    return this.productWeights.filter(product => productIds.includes(product.productId));
+  }
+
+  // ============================================================================
+  // Test helpers
+  // ============================================================================
+
+  setCountries(countries: MockCountry[]): void {
+    this.countries = [...countries];
+  }
+
+  setPrimaryAddressCountry(userId: string, countryId: string): void {
+    this.primaryCountries.set(userId, countryId);
+  }
+
+  setProductWeights(weights: ProductParcelWeight[]): void {
+    this.productWeights = [...weights];
+  }
+
+  private isSameTariffScope(existing: ShippingTariff, tariff: NormalizedShippingTariff): boolean {
+    return existing.deliveryMethod === tariff.deliveryMethod &&
+      existing.countryId === tariff.countryId &&
+      existing.minWeightGrams === tariff.minWeightGrams;
+  }
+
+  private resolveCountryCode(countryId: string | null): string | null {
+    if (countryId === null) {
+      return null;
+    }
+    const country = this.countries.find(candidate => candidate.id === countryId);
+    if (!country) {
+      throw Object.assign(new Error('insert or update on table "shipping_tariff" violates foreign key constraint'), { code: '23503' });
+    }
+    return country.code;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Shipping Repository Interface
+ *
+ * Data access contract for shipping tariffs, insurance tiers and parcel lookups
+ */
+
+import {
+  InsuranceTier,
+  ListShippingTariffsOptions,
+  NormalizedInsuranceTier,
+  NormalizedShippingTariff,
+  ProductParcelWeight,
+  ShippingTariff,
+} from '../types/ShippingTypes';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+
+export interface IShippingRepository {
+  findTariffs(options?: ListShippingTariffsOptions): Promise<ShippingTariff[]>;
+
+  findTariffById(id: string): Promise<ShippingTariff | null>;
+
+  /**
+   * Returns the new tariff id.
+   * Throws on an unknown country (23503) or a duplicate bracket (23505).
+   */
+  createTariff(tariff: NormalizedShippingTariff, authenticatedUser: AuditTrailUser): Promise<string>;
+
+  /**
+   * Returns false when the tariff does not exist
+   */
+  updateTariff(id: string, tariff: NormalizedShippingTariff, authenticatedUser: AuditTrailUser): Promise<boolean>;
+
+  deleteTariff(id: string): Promise<boolean>;
+
+  findInsuranceTiers(): Promise<InsuranceTier[]>;
+
+  findInsuranceTierById(id: string): Promise<InsuranceTier | null>;
+
+  /**
+   * Returns the new tier id. Throws on a duplicate tier start (23505).
+   */
+  createInsuranceTier(tier: NormalizedInsuranceTier, authenticatedUser: AuditTrailUser): Promise<string>;
+
+  updateInsuranceTier(id: string, tier: NormalizedInsuranceTier, authenticatedUser: AuditTrailUser): Promise<boolean>;
+
+  deleteInsuranceTier(id: string): Promise<boolean>;
+
+  /**
+   * Country of the user's primary address, null when the user has none
+   */
+  findPrimaryAddressCountry(userId: string): Promise<{ countryId: string; countryCode: string } | null>;
+
+  findProductWeights(productIds: string[]): Promise<ProductParcelWeight[]>;
+}
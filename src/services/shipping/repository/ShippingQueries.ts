@@ -0,0 +1,101 @@
+/**
+ * Shipping SQL Queries
+ *
+ * Centralized SQL query definitions for shipping tariffs and insurance tiers
+ */
+
+export const SHIPPING_TARIFF_SELECT = `
+  SELECT
+    st.id,
+    st.delivery_method,
+    st.countryid,
+    c.isocode2,
+    st.min_weight_grams,
+    st.max_weight_grams,
+    st.fee,
+    st.description,
+    st.createdat,
+    st.updatedat
+  FROM shipping_tariff st
+  LEFT JOIN country c ON c.id = st.countryid
+`;
+
+export const SHIPPING_TARIFF_ORDER_BY = `
+  ORDER BY st.delivery_method, c.isocode2 NULLS LAST, st.min_weight_grams
+`;
+
+export const GET_SHIPPING_TARIFF_BY_ID = `${SHIPPING_TARIFF_SELECT} WHERE st.id = $1`;
+
+export const INSERT_SHIPPING_TARIFF = `
+  INSERT INTO shipping_tariff (
+    delivery_method, countryid, min_weight_grams, max_weight_grams, fee, description, createdBy, updatedBy
+  )
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $7)
+  RETURNING id
+`;
+
+export const UPDATE_SHIPPING_TARIFF = `
+  UPDATE shipping_tariff
+  SET delivery_method = $2,
+      countryid = $3,
+      min_weight_grams = $4,
+      max_weight_grams = $5,
+      fee = $6,
+      description = $7,
+      updatedBy = $8,
+      updatedat = CURRENT_TIMESTAMP
+  WHERE id = $1
+  RETURNING id
+`;
+
+export const DELETE_SHIPPING_TARIFF = `DELETE FROM shipping_tariff WHERE id = $1`;
+
+export const INSURANCE_TIER_SELECT = `
+  SELECT id, delivery_method, min_value, max_value, rate, description, createdat, updatedat
+  FROM insurance_tier
+`;
+
+export const INSURANCE_TIER_ORDER_BY = `ORDER BY delivery_method, min_value`;
+
+export const GET_INSURANCE_TIER_BY_ID = `${INSURANCE_TIER_SELECT} WHERE id = $1`;
+
+export const INSERT_INSURANCE_TIER = `
+  INSERT INTO insurance_tier (delivery_method, min_value, max_value, rate, description, createdBy, updatedBy)
+  VALUES ($1, $2, $3, $4, $5, $6, $6)
+  RETURNING id
+`;
+
+export const UPDATE_INSURANCE_TIER = `
+  UPDATE insurance_tier
+  SET delivery_method = $2,
+      min_value = $3,
+      max_value = $4,
+      rate = $5,
+      description = $6,
+      updatedBy = $7,
+      updatedat = CURRENT_TIMESTAMP
+  WHERE id = $1
+  RETURNING id
+`;
+
+export const DELETE_INSURANCE_TIER = `DELETE FROM insurance_tier WHERE id = $1`;
+
+/**
+ * Country of the user's primary address (shipping destination)
+ */
+export const GET_PRIMARY_ADDRESS_COUNTRY = `
+  SELECT c.id, c.isocode2
+  FROM user_addresses ua
+  JOIN country c ON c.id = ua.countryId
+  WHERE ua.user_id = $1 AND ua.is_primary = TRUE
+  LIMIT 1
+`;
+
+/**
+ * Gross weight per product
+ */
+export const GET_PRODUCT_PARCEL_WEIGHTS = `
+  SELECT id, weight, weightunit
+  FROM product
+  WHERE id = ANY($1::uuid[])
+`;
@@ -0,0 +1,126 @@
+/**
+ * Shipping Repository Implementation
+ * PostgreSQL implementation of IShippingRepository
+ */
+
+import { Pool } from 'pg';
+import {
+  InsuranceTier,
+  ListShippingTariffsOptions,
+  NormalizedInsuranceTier,
+  NormalizedShippingTariff,
+  ProductParcelWeight,
+  ShippingTariff,
+  mapRowToInsuranceTier,
+  mapRowToShippingTariff,
+} from '../types/ShippingTypes';
+import { IShippingRepository } from './IShippingRepository';
+import * as queries from './ShippingQueries';
+import { AuditTrailUser, getAuditUser } from '../../../utils/auditTrail';
+
+export class ShippingRepositoryImpl implements IShippingRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async findTariffs(options: ListShippingTariffsOptions = {}): Promise<ShippingTariff[]> {
+    const whereConditions: string[] = [];
+    const queryParams: string[] = [];
+    let paramIndex = 1;
+
+    if (options.deliveryMethod) {
+      whereConditions.push(`st.delivery_method = $${paramIndex++}`);
+      queryParams.push(options.deliveryMethod);
+    }
+
+    if (options.countryId) {
+      whereConditions.push(`(st.countryid = $${paramIndex++} OR st.countryid IS NULL)`);
+      queryParams.push(options.countryId);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+    const result = await this.pool.query(
+      `${queries.SHIPPING_TARIFF_SELECT} ${whereClause} ${queries.SHIPPING_TARIFF_ORDER_BY}`,
+      queryParams
+    );
+
+    return result.rows.map(mapRowToShippingTariff);
+  }
+
+  async findTariffById(id: string): Promise<ShippingTariff | null> {
+    const result = await this.pool.query(queries.GET_SHIPPING_TARIFF_BY_ID, [id]);
+    return result.rows.length > 0 ? mapRowToShippingTariff(result.rows[0]) : null;
+  }
+
+  async createTariff(tariff: NormalizedShippingTariff, authenticatedUser: AuditTrailUser): Promise<string> {
+    const auditUser = getAuditUser(authenticatedUser);
+    const result = await this.pool.query(queries.INSERT_SHIPPING_TARIFF, [
+      tariff.deliveryMethod, tariff.countryId, tariff.minWeightGrams, tariff.maxWeightGrams,
+      tariff.fee, tariff.description, auditUser.id,
+    ]);
+    return result.rows[0].id;
+  }
+
+  async updateTariff(id: string, tariff: NormalizedShippingTariff, authenticatedUser: AuditTrailUser): Promise<boolean> {
+    const auditUser = getAuditUser(authenticatedUser);
+    const result = await this.pool.query(queries.UPDATE_SHIPPING_TARIFF, [
+      id, tariff.deliveryMethod, tariff.countryId, tariff.minWeightGrams, tariff.maxWeightGrams,
+      tariff.fee, tariff.description, auditUser.id,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteTariff(id: string): Promise<boolean> {
+    const result = await this.pool.query(queries.DELETE_SHIPPING_TARIFF, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findInsuranceTiers(): Promise<InsuranceTier[]> {
+    const result = await this.pool.query(`${queries.INSURANCE_TIER_SELECT} ${queries.INSURANCE_TIER_ORDER_BY}`);
+    return result.rows.map(mapRowToInsuranceTier);
+  }
+
+  async findInsuranceTierById(id: string): Promise<InsuranceTier | null> {
+    const result = await this.pool.query(queries.GET_INSURANCE_TIER_BY_ID, [id]);
+    return result.rows.length > 0 ? mapRowToInsuranceTier(result.rows[0]) : null;
+  }
+
+  async createInsuranceTier(tier: NormalizedInsuranceTier, authenticatedUser: AuditTrailUser): Promise<string> {
+    const auditUser = getAuditUser(authenticatedUser);
+    const result = await this.pool.query(queries.INSERT_INSURANCE_TIER, [
+      tier.deliveryMethod, tier.minValue, tier.maxValue, tier.rate, tier.description, auditUser.id,
+    ]);
+    return result.rows[0].id;
+  }
+
+  async updateInsuranceTier(id: string, tier: NormalizedInsuranceTier, authenticatedUser: AuditTrailUser): Promise<boolean> {
+    const auditUser = getAuditUser(authenticatedUser);
+    const result = await this.pool.query(queries.UPDATE_INSURANCE_TIER, [
+      id, tier.deliveryMethod, tier.minValue, tier.maxValue, tier.rate, tier.description, auditUser.id,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteInsuranceTier(id: string): Promise<boolean> {
+    const result = await this.pool.query(queries.DELETE_INSURANCE_TIER, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findPrimaryAddressCountry(userId: string): Promise<{ countryId: string; countryCode: string } | null> {
+    const result = await this.pool.query(queries.GET_PRIMARY_ADDRESS_COUNTRY, [userId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return { countryId: result.rows[0].id, countryCode: result.rows[0].isocode2 };
+  }
+
+  async findProductWeights(productIds: string[]): Promise<ProductParcelWeight[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+    const result = await this.pool.query(queries.GET_PRODUCT_PARCEL_WEIGHTS, [productIds]);
+    return result.rows.map(row => ({
+      productId: row.id,
+      weight: parseFloat(row.weight),
+      weightUnit: row.weightunit,
+    }));
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Shipping Types
+ *
+ * Shipping tariffs by delivery method, destination and parcel weight,
+ * and insurance tiers by declared value
+ */
+
+import type { DeliveryMethod, ShippingCharges } from '../../calculation/types/CalculationTypes';
+
+export type { DeliveryMethod, ShippingCharges };
+
+export const DELIVERY_METHODS: readonly DeliveryMethod[] = ['insured_courier', 'vault_delivery'];
+
+export function isDeliveryMethod(value: unknown): value is DeliveryMethod {
+  return typeof value === 'string' && (DELIVERY_METHODS as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+export const ShippingErrorCode = {
+  NOT_FOUND: 'SHIPPING_NOT_FOUND',
+  VALIDATION_ERROR: 'SHIPPING_VALIDATION_ERROR',
+  REFERENCE_NOT_FOUND: 'SHIPPING_REFERENCE_NOT_FOUND',
+  DUPLICATE_ENTRY: 'SHIPPING_DUPLICATE_ENTRY',
+  NO_TARIFF: 'SHIPPING_NO_TARIFF',
+  INTERNAL_ERROR: 'SHIPPING_INTERNAL_ERROR',
+} as const;
+
+export type ShippingErrorCode = typeof ShippingErrorCode[keyof typeof ShippingErrorCode];
+
+export interface ShippingError {
+  code: ShippingErrorCode;
+  message: string;
+}
+
+export interface ShippingResult<T> {
+  success: boolean;
+  data?: T;
+  error?: ShippingError;
+}
+
+export function getShippingHttpStatus(code: ShippingErrorCode | undefined): number {
+  switch (code) {
+    case ShippingErrorCode.NOT_FOUND:
+      return 404;
+    case ShippingErrorCode.VALIDATION_ERROR:
+    case ShippingErrorCode.REFERENCE_NOT_FOUND:
+    case ShippingErrorCode.NO_TARIFF:
+      return 400;
+    case ShippingErrorCode.DUPLICATE_ENTRY:
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * Thrown by order creation when no tariff covers the parcel
+ */
+export class ShippingUnavailableError extends Error {
+  readonly code = ShippingErrorCode.NO_TARIFF;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShippingUnavailableError';
+  }
+}
+
+// ============================================================================
+// Tariffs and Tiers
+// ============================================================================
+
+export interface ShippingTariff {
+  id: string;
+  deliveryMethod: DeliveryMethod;
+  /** null = fallback for destinations without a specific tariff */
+  countryId: string | null;
+  countryCode: string | null;
+  minWeightGrams: number;
+  /** Exclusive; null = open-ended */
+  maxWeightGrams: number | null;
+  fee: number;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsuranceTier {
+  id: string;
+  deliveryMethod: DeliveryMethod;
+  minValue: number;
+  /** Exclusive; null = open-ended */
+  maxValue: number | null;
+  /** Decimal fraction applied to the full declared value */
+  rate: number;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateShippingTariffRequest {
+  deliveryMethod: DeliveryMethod;
+  countryId?: string | null;
+  minWeightGrams?: number;
+  maxWeightGrams?: number | null;
+  fee: number;
+  description?: string | null;
+}
+
+export type UpdateShippingTariffRequest = Partial<CreateShippingTariffRequest>;
+
+export interface CreateInsuranceTierRequest {
+  deliveryMethod: DeliveryMethod;
+  minValue?: number;
+  maxValue?: number | null;
+  rate: number;
+  description?: string | null;
+}
+
+export type UpdateInsuranceTierRequest = Partial<CreateInsuranceTierRequest>;
+
+export interface ListShippingTariffsOptions {
+  deliveryMethod?: DeliveryMethod;
+  countryId?: string;
+}
+
+export interface NormalizedShippingTariff {
+  deliveryMethod: DeliveryMethod;
+  countryId: string | null;
+  minWeightGrams: number;
+  maxWeightGrams: number | null;
+  fee: number;
+  description: string | null;
+}
+
+export interface NormalizedInsuranceTier {
+  deliveryMethod: DeliveryMethod;
+  minValue: number;
+  maxValue: number | null;
+  rate: number;
+  description: string | null;
+}
+
+// ============================================================================
+// Quotes
+// ============================================================================
+
+export interface ShippingQuoteItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface ShippingQuoteRequest {
+  userId: string;
+  deliveryMethod: DeliveryMethod;
+  items: ShippingQuoteItem[];
+}
+
+/**
+ * Gross weight attributes of a product
+ */
+export interface ProductParcelWeight {
+  productId: string;
+  weight: number;
+  weightUnit: string;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function validationError<T>(message: string): ShippingResult<T> {
+  return { success: false, error: { code: ShippingErrorCode.VALIDATION_ERROR, message } };
+}
+
+/**
+ * Validate a complete tariff (create, or an update merged onto the existing tariff)
+ */
+export function validateShippingTariff(request: CreateShippingTariffRequest): ShippingResult<NormalizedShippingTariff> {
+  if (!isDeliveryMethod(request.deliveryMethod)) {
+    return validationError(`deliveryMethod must be one of: ${DELIVERY_METHODS.join(', ')}`);
+  }
+  if (request.countryId && !UUID_REGEX.test(request.countryId)) {
+    return validationError('countryId must be a valid UUID');
+  }
+  const minWeightGrams = request.minWeightGrams ?? 0;
+  const maxWeightGrams = request.maxWeightGrams ?? null;
+  if (!isNonNegativeNumber(minWeightGrams)) {
+    return validationError('minWeightGrams must be a non-negative number');
+  }
+  if (maxWeightGrams !== null && (!isNonNegativeNumber(maxWeightGrams) || maxWeightGrams <= minWeightGrams)) {
+    return validationError('maxWeightGrams must be greater than minWeightGrams');
+  }
+  if (!isNonNegativeNumber(request.fee)) {
+    return validationError('fee must be a non-negative number');
+  }
+
+  return {
+    success: true,
+    data: {
+      deliveryMethod: request.deliveryMethod,
+      countryId: request.countryId || null,
+      minWeightGrams,
+      maxWeightGrams,
+      fee: request.fee,
+      description: request.description?.trim() || null,
+    },
+  };
+}
+
+/**
+ * Validate a complete insurance tier (create, or an update merged onto the existing tier)
+ */
+export function validateInsuranceTier(request: CreateInsuranceTierRequest): ShippingResult<NormalizedInsuranceTier> {
+  if (!isDeliveryMethod(request.deliveryMethod)) {
+    return validationError(`deliveryMethod must be one of: ${DELIVERY_METHODS.join(', ')}`);
+  }
+  const minValue = request.minValue ?? 0;
+  const maxValue = request.maxValue ?? null;
+  if (!isNonNegativeNumber(minValue)) {
+    return validationError('minValue must be a non-negative number');
+  }
+  if (maxValue !== null && (!isNonNegativeNumber(maxValue) || maxValue <= minValue)) {
+    return validationError('maxValue must be greater than minValue');
+  }
+  if (!isNonNegativeNumber(request.rate) || request.rate >= 1) {
+    return validationError('rate must be a decimal fraction between 0 and 1 (e.g. 0.01 for 1%)');
+  }
+
+  return {
+    success: true,
+    data: {
+      deliveryMethod: request.deliveryMethod,
+      minValue,
+      maxValue,
+      rate: request.rate,
+      description: request.description?.trim() || null,
+    },
+  };
+}
+
+// ============================================================================
+// Mapper Functions
+// ============================================================================
+
+const toNullableNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : parseFloat(String(value));
+
+export const mapRowToShippingTariff = (row: Record<string, unknown>): ShippingTariff => ({
+  id: row.id as string,
+  deliveryMethod: row.delivery_method as DeliveryMethod,
+  countryId: (row.countryid as string | null) ?? null,
+  countryCode: (row.isocode2 as string | null) ?? null,
+  minWeightGrams: parseFloat(row.min_weight_grams as string),
+  maxWeightGrams: toNullableNumber(row.max_weight_grams),
+  fee: parseFloat(row.fee as string),
+  description: (row.description as string | null) ?? null,
+  createdAt: row.createdat as Date,
+  updatedAt: row.updatedat as Date,
+});
+
+export const mapRowToInsuranceTier = (row: Record<string, unknown>): InsuranceTier => ({
+  id: row.id as string,
+  deliveryMethod: row.delivery_method as DeliveryMethod,
+  minValue: parseFloat(row.min_value as string),
+  maxValue: toNullableNumber(row.max_value),
+  rate: parseFloat(row.rate as string),
+  description: (row.description as string | null) ?? null,
+  createdAt: row.createdat as Date,
+  updatedAt: row.updatedat as Date,
+});
@@ -0,0 +1,94 @@
+/**
+ * Shipping Calculator
+ *
+ * Selects the shipping tariff for a parcel (destination-specific tariffs before
+ * the fallback tariffs without a country) and the insurance tier for its declared value
+ */
+
+import { GRAMS_PER_TROY_OUNCE, convertWeightToTroyOunces } from '../../pricing/utils/SpotPriceCalculator';
+import { roundCurrency } from '../../../utils/currency';
+import {
+  DeliveryMethod,
+  InsuranceTier,
+  ProductParcelWeight,
+  ShippingCharges,
+  ShippingQuoteItem,
+  ShippingTariff,
+} from '../types/ShippingTypes';
+
+function inRange(value: number, min: number, max: number | null): boolean {
+  return value >= min && (max === null || value < max);
+}
+
+/**
+ * Gross parcel weight in grams (weight x quantity); products without weight data count as 0
+ */
+export function calculateParcelWeightGrams(items: ShippingQuoteItem[], weights: ProductParcelWeight[]): number {
+  const grams = items.reduce((sum, item) => {
+    const product = weights.find(candidate => candidate.productId === item.productId);
+    if (!product) {
+      return sum;
+    }
+    return sum + convertWeightToTroyOunces(product.weight, product.weightUnit) * GRAMS_PER_TROY_OUNCE * item.quantity;
+  }, 0);
+  return Math.round(grams * 100) / 100;
+}
+
+export function selectShippingTariff(
+  tariffs: ShippingTariff[],
+  deliveryMethod: DeliveryMethod,
+  countryId: string | null,
+  weightGrams: number
+): ShippingTariff | null {
+  const candidates = tariffs.filter(tariff =>
+    tariff.deliveryMethod === deliveryMethod && inRange(weightGrams, tariff.minWeightGrams, tariff.maxWeightGrams)
+  );
+  return (countryId !== null ? candidates.find(tariff => tariff.countryId === countryId) : undefined)
+    ?? candidates.find(tariff => tariff.countryId === null)
+    ?? null;
+}
+
+export function selectInsuranceTier(
+  tiers: InsuranceTier[],
+  deliveryMethod: DeliveryMethod,
+  declaredValue: number
+): InsuranceTier | null {
+  return tiers.find(tier =>
+    tier.deliveryMethod === deliveryMethod && inRange(declaredValue, tier.minValue, tier.maxValue)
+  ) ?? null;
+}
+
+/**
+ * Shipping and insurance charges for a parcel; null when no tariff covers it.
+ * Without a matching insurance tier the parcel is shipped uninsured (rate 0).
+ */
+export function calculateShippingCharges(params: {
+  tariffs: ShippingTariff[];
+  tiers: InsuranceTier[];
+  deliveryMethod: DeliveryMethod;
+  destination: { countryId: string; countryCode: string } | null;
+  parcelWeightGrams: number;
+  declaredValue: number;
+}): ShippingCharges | null {
+  const { tariffs, tiers, deliveryMethod, destination, parcelWeightGrams, declaredValue } = params;
+
+  const tariff = selectShippingTariff(tariffs, deliveryMethod, destination?.countryId ?? null, parcelWeightGrams);
+  if (!tariff) {
+    return null;
+  }
+
+  const tier = selectInsuranceTier(tiers, deliveryMethod, declaredValue);
+  const insuranceRate = tier ? tier.rate : 0;
+
+  return {
+    deliveryMethod,
+    destinationCountry: destination?.countryCode ?? null,
+    parcelWeightGrams,
+    shippingTariffId: tariff.id,
+    shippingFee: tariff.fee,
+    declaredValue,
+    insuranceTierId: tier ? tier.id : null,
+    insuranceRate,
+    insuranceFee: roundCurrency(declaredValue * insuranceRate),
+  };
+}
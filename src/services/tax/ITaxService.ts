@@ -0,0 +1,36 @@
+/**
+ * ITaxService Interface
+ *
+ * Tax rule administration and per-product rate resolution
+ */
+
+import {
+  CreateTaxRuleRequest,
+  ListTaxRulesOptions,
+  TaxResult,
+  TaxRule,
+  UpdateTaxRuleRequest,
+  UserTaxRates,
+} from './types/TaxTypes';
+import { AuditTrailUser } from '../../utils/auditTrail';
+
+export interface ITaxService {
+  listRules(options?: ListTaxRulesOptions): Promise<TaxResult<TaxRule[]>>;
+
+  getRule(id: string): Promise<TaxResult<TaxRule>>;
+
+  createRule(request: CreateTaxRuleRequest, authenticatedUser: AuditTrailUser): Promise<TaxResult<TaxRule>>;
+
+  /**
+   * Partial update; omitted fields keep their current value
+   */
+  updateRule(id: string, request: UpdateTaxRuleRequest, authenticatedUser: AuditTrailUser): Promise<TaxResult<TaxRule>>;
+
+  deleteRule(id: string): Promise<TaxResult<void>>;
+
+  /**
+   * Tax rate per product for a buyer, based on the country of the user's primary address.
+   * Products without a matching rule (or a user without a primary address) get a null rate.
+   */
+  resolveRatesForUser(userId: string, productIds: string[], asOf?: Date): Promise<UserTaxRates>;
+}
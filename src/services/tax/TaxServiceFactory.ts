@@ -0,0 +1,41 @@
+/**
+ * Tax Service Factory
+ * Dependency Injection setup
+ */
+
+import { Pool } from 'pg';
+import { ITaxService } from './ITaxService';
+import { TaxServiceImpl } from './impl/TaxServiceImpl';
+import { ITaxRuleRepository } from './repository/ITaxRuleRepository';
+import { TaxRuleRepositoryImpl } from './repository/TaxRuleRepositoryImpl';
+import { TaxRuleRepositoryMock } from './mock/TaxRuleRepositoryMock';
+
+export class TaxServiceFactory {
+  /**
+   * Create a tax service with real database repository
+   */
+  static create(pool: Pool): ITaxService {
+    return new TaxServiceImpl(new TaxRuleRepositoryImpl(pool));
+  }
+
+  /**
+   * Create a tax service with mock repository (for testing)
+   */
+  static createMock(repository: ITaxRuleRepository = new TaxRuleRepositoryMock()): ITaxService {
+    return new TaxServiceImpl(repository);
+  }
+
+  /**
+   * Create repository only (useful for complex scenarios)
+   */
+  static createRepository(pool: Pool): ITaxRuleRepository {
+    return new TaxRuleRepositoryImpl(pool);
+  }
+
+  /**
+   * Create mock repository only
+   */
+  static createMockRepository(): ITaxRuleRepository {
+    return new TaxRuleRepositoryMock();
+  }
+}
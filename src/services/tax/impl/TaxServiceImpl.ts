@@ -0,0 +1,159 @@
+/**
+ * Tax Service Implementation
+ *
+ * Manages tax rules and resolves the rate per product for a buyer
+ * from the country of the buyer's primary address
+ */
+
+import { ITaxService } from '../ITaxService';
+import { ITaxRuleRepository } from '../repository/ITaxRuleRepository';
+import {
+  CreateTaxRuleRequest,
+  ListTaxRulesOptions,
+  TaxErrorCode,
+  TaxResult,
+  TaxRule,
+  UpdateTaxRuleRequest,
+  UserTaxRates,
+  validateTaxRule,
+} from '../types/TaxTypes';
+import { resolveTaxRates } from '../utils/TaxRuleMatcher';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+
+const PG_FOREIGN_KEY_VIOLATION = '23503';
+const PG_UNIQUE_VIOLATION = '23505';
+const PG_INVALID_TEXT = '22P02';
+
+export class TaxServiceImpl implements ITaxService {
+  constructor(private readonly repository: ITaxRuleRepository) {}
+
+  async listRules(options: ListTaxRulesOptions = {}): Promise<TaxResult<TaxRule[]>> {
+    try {
+      return { success: true, data: await this.repository.findAll(options) };
+    } catch (error) {
+      return this.failWith(error, 'Failed to list tax rules');
+    }
+  }
+
+  async getRule(id: string): Promise<TaxResult<TaxRule>> {
+    try {
+      const rule = await this.repository.findById(id);
+      if (!rule) {
+        return { success: false, error: { code: TaxErrorCode.NOT_FOUND, message: 'Tax rule not found' } };
+      }
+      return { success: true, data: rule };
+    } catch (error) {
+      return this.failWith(error, 'Failed to get tax rule');
+    }
+  }
+
+  async createRule(request: CreateTaxRuleRequest, authenticatedUser: AuditTrailUser): Promise<TaxResult<TaxRule>> {
+    const validation = validateTaxRule(request);
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const id = await this.repository.create(validation.data, authenticatedUser);
+      return await this.getRule(id);
+    } catch (error) {
+      return this.failWith(error, 'Failed to create tax rule');
+    }
+  }
+
+  async updateRule(
+    id: string,
+    request: UpdateTaxRuleRequest,
+    authenticatedUser: AuditTrailUser
+  ): Promise<TaxResult<TaxRule>> {
+    const existing = await this.getRule(id);
+    if (!existing.success || !existing.data) {
+      return existing;
+    }
+
+    const current = existing.data;
+    const validation = validateTaxRule({
+      countryId: request.countryId ?? current.countryId,
+      metalId: request.metalId === undefined ? current.metalId : request.metalId,
+      productTypeId: request.productTypeId === undefined ? current.productTypeId : request.productTypeId,
+      rate: request.rate ?? current.rate,
+      description: request.description === undefined ? current.description : request.description,
+      validFrom: request.validFrom ?? current.validFrom.toISOString().slice(0, 10),
+      validTo: request.validTo === undefined ? current.validTo?.toISOString().slice(0, 10) : request.validTo,
+    });
+    if (!validation.success || !validation.data) {
+      return { success: false, error: validation.error };
+    }
+
+    try {
+      const updated = await this.repository.update(id, validation.data, authenticatedUser);
+      if (!updated) {
+        return { success: false, error: { code: TaxErrorCode.NOT_FOUND, message: 'Tax rule not found' } };
+      }
+      return await this.getRule(id);
+    } catch (error) {
+      return this.failWith(error, 'Failed to update tax rule');
+    }
+  }
+
+  async deleteRule(id: string): Promise<TaxResult<void>> {
+    try {
+      const deleted = await this.repository.delete(id);
+      if (!deleted) {
+        return { success: false, error: { code: TaxErrorCode.NOT_FOUND, message: 'Tax rule not found' } };
+      }
+      return { success: true };
+    } catch (error) {
+      return this.failWith(error, 'Failed to delete tax rule');
+    }
+  }
+
+  async resolveRatesForUser(userId: string, productIds: string[], asOf: Date = new Date()): Promise<UserTaxRates> {
+    const uniqueProductIds = [...new Set(productIds)];
+    const country = await this.repository.findPrimaryAddressCountry(userId);
+    if (!country) {
+      return {
+        countryCode: null,
+        rates: uniqueProductIds.map(productId => ({ productId, rate: null, ruleId: null })),
+      };
+    }
+
+    const [rules, products] = await Promise.all([
+      this.repository.findAll({ countryId: country.countryId, activeAt: asOf }),
+      this.repository.findTaxableProducts(uniqueProductIds),
+    ]);
+    const resolved = resolveTaxRates(rules, products, asOf);
+
+    return {
+      countryCode: country.countryCode,
+      rates: uniqueProductIds.map(productId =>
+        resolved.find(rate => rate.productId === productId) ?? { productId, rate: null, ruleId: null }
+      ),
+    };
+  }
+
+  private failWith<T>(error: unknown, message: string): TaxResult<T> {
+    const pgCode = (error as { code?: string })?.code;
+    if (pgCode === PG_FOREIGN_KEY_VIOLATION) {
+      return {
+        success: false,
+        error: { code: TaxErrorCode.REFERENCE_NOT_FOUND, message: 'Unknown country, metal or product type' },
+      };
+    }
+    if (pgCode === PG_UNIQUE_VIOLATION) {
+      return {
+        success: false,
+        error: {
+          code: TaxErrorCode.DUPLICATE_RULE,
+          message: 'A tax rule for this country, metal, product type and start date already exists',
+        },
+      };
+    }
+    if (pgCode === PG_INVALID_TEXT) {
+      return { success: false, error: { code: TaxErrorCode.VALIDATION_ERROR, message: 'Invalid identifier' } };
+    }
+
+    console.error(`${message}:`, error);
+    return { success: false, error: { code: TaxErrorCode.INTERNAL_ERROR, message } };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Tax Service Barrel Export
+ * Clean public API
+ */
+
+// Service Interface
+export { ITaxService } from './ITaxService';
+
+// Service Implementation
+export { TaxServiceImpl } from './impl/TaxServiceImpl';
+
+// Repository Interfaces
+export { ITaxRuleRepository } from './repository/ITaxRuleRepository';
+
+// Repository Implementations
+export { TaxRuleRepositoryImpl } from './repository/TaxRuleRepositoryImpl';
+export { TaxRuleRepositoryMock } from './mock/TaxRuleRepositoryMock';
+
+// Types
+export * from './types/TaxTypes';
+
+// Utilities
+export * from './utils/TaxRuleMatcher';
+
+// Factory
+export { TaxServiceFactory } from './TaxServiceFactory';
@@ -0,0 +1,124 @@
+/**
+ * Tax Rule Repository Mock
+ * In-memory implementation for testing
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ListTaxRulesOptions,
+  NormalizedTaxRule,
+  TaxableProduct,
+  TaxRule,
+} from '../types/TaxTypes';
+import { isTaxRuleActive } from '../utils/TaxRuleMatcher';
+import { ITaxRuleRepository } from '../repository/ITaxRuleRepository';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+
+interface MockCountry {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export class TaxRuleRepositoryMock implements ITaxRuleRepository {
+  private rules: TaxRule[] = [];
+  private countries: MockCountry[] = [];
+  private primaryCountries = new Map<string, string>();
+  private products: TaxableProduct[] = [];
+
+  async findAll(options: ListTaxRulesOptions = {}): Promise<TaxRule[]> {
+    return this.rules.filter(rule =>
+      (!options.countryId || rule.countryId === options.countryId) &&
+      (!options.metalId || rule.metalId === null || rule.metalId === options.metalId) &&
+      (!options.productTypeId || rule.productTypeId === null || rule.productTypeId === options.productTypeId) &&
+      (!options.activeAt || isTaxRuleActive(rule, options.activeAt))
+    );
+  }
+
+  async findById(id: string): Promise<TaxRule | null> {
+    return this.rules.find(rule => rule.id === id) ?? null;
+  }
+
+  async create(rule: NormalizedTaxRule, _authenticatedUser: AuditTrailUser): Promise<string> {
+    const country = this.requireCountry(rule.countryId);
+    const duplicate = this.rules.some(existing =>
+      existing.countryId === rule.countryId &&
+      existing.metalId === rule.metalId &&
+      existing.productTypeId === rule.productTypeId &&
+      existing.validFrom.getTime() === rule.validFrom.getTime()
+    );
+    if (duplicate) {
+      throw Object.assign(new Error('duplicate key value violates unique constraint "idx_tax_rule_scope"'), { code: '23505' });
+    }
+
+    const now = new Date();
+    const id = uuidv4();
+    this.rules.push({
+      id,
+      ...rule,
+      countryCode: country.code,
+      countryName: country.name,
+      metalSymbol: null,
+      productTypeName: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return id;
+  }
+
+  async update(id: string, rule: NormalizedTaxRule, _authenticatedUser: AuditTrailUser): Promise<boolean> {
+    const index = this.rules.findIndex(existing => existing.id === id);
+    if (index < 0) {
+      return false;
+    }
+    const country = this.requireCountry(rule.countryId);
+    this.rules[index] = {
+      ...this.rules[index],
+      ...rule,
+      countryCode: country.code,
+      countryName: country.name,
+      updatedAt: new Date(),
+    };
+    return true;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const before = this.rules.length;
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    return this.rules.length < before;
+  }
+
+  async findPrimaryAddressCountry(userId: string): Promise<{ countryId: string; countryCode: string } | null> {
+    const countryId = this.primaryCountries.get(userId);
+    const country = this.countries.find(candidate => candidate.id === countryId);
+    return country ? { countryId: country.id, countryCode: country.code } : null;
+  }
+
+  async findTaxableProducts(productIds: string[]): Promise<TaxableProduct[]> {
+    return this.products.filter(product => productIds.includes(product.productId));
+  }
+
+  // ============================================================================
+  // Test helpers
+  // ============================================================================
+
+  setCountries(countries: MockCountry[]): void {
+    this.countries = [...countries];
+  }
+
+  setPrimaryAddressCountry(userId: string, countryId: string): void {
+    this.primaryCountries.set(userId, countryId);
+  }
+
+  setTaxableProducts(products: TaxableProduct[]): void {
+    this.products = [...products];
+  }
+
+  private requireCountry(countryId: string): MockCountry {
+    const country = this.countries.find(candidate => candidate.id === countryId);
+    if (!country) {
+      throw Object.assign(new Error('insert or update on table "tax_rule" violates foreign key constraint'), { code: '23503' });
+    }
+    return country;
+  }
+}
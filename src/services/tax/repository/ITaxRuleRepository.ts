@@ -0,0 +1,39 @@
+/**
+ * Tax Rule Repository Interface
+ *
+ * Data access contract for tax rules and the lookups needed to resolve rates
+ */
+
+import {
+  ListTaxRulesOptions,
+  NormalizedTaxRule,
+  TaxableProduct,
+  TaxRule,
+} from '../types/TaxTypes';
+import { AuditTrailUser } from '../../../utils/auditTrail';
+
+export interface ITaxRuleRepository {
+  findAll(options?: ListTaxRulesOptions): Promise<TaxRule[]>;
+
+  findById(id: string): Promise<TaxRule | null>;
+
+  /**
+   * Returns the new rule id.
+   * Throws on unknown country/metal/product type (23503) or a duplicate scope (23505).
+   */
+  create(rule: NormalizedTaxRule, authenticatedUser: AuditTrailUser): Promise<string>;
+
+  /**
+   * Returns false when the rule does not exist
+   */
+  update(id: string, rule: NormalizedTaxRule, authenticatedUser: AuditTrailUser): Promise<boolean>;
+
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Country of the user's primary address, null when the user has none
+   */
+  findPrimaryAddressCountry(userId: string): Promise<{ countryId: string; countryCode: string } | null>;
+
+  findTaxableProducts(productIds: string[]): Promise<TaxableProduct[]>;
+}
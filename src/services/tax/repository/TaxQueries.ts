@@ -0,0 +1,81 @@
+/**
+ * Tax SQL Queries
+ *
+ * Centralized SQL query definitions for tax rule operations
+ */
+
+/**
+ * Select fields for tax rules (joined with country, metal and product type)
+ */
+export const TAX_RULE_SELECT = `
+  SELECT
+    tr.id,
+    tr.countryid,
+    c.isocode2,
+    c.countryname,
+    tr.metalid,
+    m.symbol as metalsymbol,
+    tr.producttypeid,
+    pt.producttypename,
+    tr.rate,
+    tr.description,
+    tr.valid_from,
+    tr.valid_to,
+    tr.createdat,
+    tr.updatedat
+  FROM tax_rule tr
+  JOIN country c ON c.id = tr.countryid
+  LEFT JOIN metal m ON m.id = tr.metalid
+  LEFT JOIN productType pt ON pt.id = tr.producttypeid
+`;
+
+export const TAX_RULE_ORDER_BY = `
+  ORDER BY c.isocode2, tr.metalid NULLS FIRST, tr.producttypeid NULLS FIRST, tr.valid_from DESC
+`;
+
+export const GET_TAX_RULE_BY_ID = `${TAX_RULE_SELECT} WHERE tr.id = $1`;
+
+export const INSERT_TAX_RULE = `
+  INSERT INTO tax_rule (
+    countryid, metalid, producttypeid, rate, description, valid_from, valid_to, createdBy, updatedBy
+  )
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+  RETURNING id
+`;
+
+export const UPDATE_TAX_RULE = `
+  UPDATE tax_rule
+  SET countryid = $2,
+      metalid = $3,
+      producttypeid = $4,
+      rate = $5,
+      description = $6,
+      valid_from = $7,
+      valid_to = $8,
+      updatedBy = $9,
+      updatedat = CURRENT_TIMESTAMP
+  WHERE id = $1
+  RETURNING id
+`;
+
+export const DELETE_TAX_RULE = `DELETE FROM tax_rule WHERE id = $1`;
+
+/**
+ * Country of the user's primary address
+ */
+export const GET_PRIMARY_ADDRESS_COUNTRY = `
+  SELECT c.id, c.isocode2
+  FROM user_addresses ua
+  JOIN country c ON c.id = ua.countryId
+  WHERE ua.user_id = $1 AND ua.is_primary = TRUE
+  LIMIT 1
+`;
+
+/**
+ * Metal and product type per product (rule selection attributes)
+ */
+export const GET_TAXABLE_PRODUCTS = `
+  SELECT id, metalid, producttypeid
+  FROM product
+  WHERE id = ANY($1::uuid[])
+`;
@@ -0,0 +1,108 @@
+/**
+ * Tax Rule Repository Implementation
+ * PostgreSQL implementation of ITaxRuleRepository
+ */
+
+import { Pool } from 'pg';
+import {
+  ListTaxRulesOptions,
+  NormalizedTaxRule,
+  TaxableProduct,
+  TaxRule,
+  mapRowToTaxRule,
+} from '../types/TaxTypes';
+import { ITaxRuleRepository } from './ITaxRuleRepository';
+import * as queries from './TaxQueries';
+import { AuditTrailUser, getAuditUser } from '../../../utils/auditTrail';
+
+const toDateParam = (date: Date | null): string | null =>
+  date ? date.toISOString().slice(0, 10) : null;
+
+export class TaxRuleRepositoryImpl implements ITaxRuleRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async findAll(options: ListTaxRulesOptions = {}): Promise<TaxRule[]> {
+    const whereConditions: string[] = [];
+    const queryParams: (string | null)[] = [];
+    let paramIndex = 1;
+
+    if (options.countryId) {
+      whereConditions.push(`tr.countryid = $${paramIndex++}`);
+      queryParams.push(options.countryId);
+    }
+
+    if (options.metalId) {
+      whereConditions.push(`(tr.metalid = $${paramIndex++} OR tr.metalid IS NULL)`);
+      queryParams.push(options.metalId);
+    }
+
+    if (options.productTypeId) {
+      whereConditions.push(`(tr.producttypeid = $${paramIndex++} OR tr.producttypeid IS NULL)`);
+      queryParams.push(options.productTypeId);
+    }
+
+    if (options.activeAt) {
+      whereConditions.push(
+        `tr.valid_from <= $${paramIndex} AND (tr.valid_to IS NULL OR tr.valid_to > $${paramIndex})`
+      );
+      paramIndex++;
+      queryParams.push(toDateParam(options.activeAt));
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+    const result = await this.pool.query(
+      `${queries.TAX_RULE_SELECT} ${whereClause} ${queries.TAX_RULE_ORDER_BY}`,
+      queryParams
+    );
+
+    return result.rows.map(mapRowToTaxRule);
+  }
+
+  async findById(id: string): Promise<TaxRule | null> {
+    const result = await this.pool.query(queries.GET_TAX_RULE_BY_ID, [id]);
+    return result.rows.length > 0 ? mapRowToTaxRule(result.rows[0]) : null;
+  }
+
+  async create(rule: NormalizedTaxRule, authenticatedUser: AuditTrailUser): Promise<string> {
+    const auditUser = getAuditUser(authenticatedUser);
+    const result = await this.pool.query(queries.INSERT_TAX_RULE, [
+      rule.countryId, rule.metalId, rule.productTypeId, rule.rate, rule.description,
+      toDateParam(rule.validFrom), toDateParam(rule.validTo), auditUser.id,
+    ]);
+    return result.rows[0].id;
+  }
+
+  async update(id: string, rule: NormalizedTaxRule, authenticatedUser: AuditTrailUser): Promise<boolean> {
+    const auditUser = getAuditUser(authenticatedUser);
+    const result = await this.pool.query(queries.UPDATE_TAX_RULE, [
+      id, rule.countryId, rule.metalId, rule.productTypeId, rule.rate, rule.description,
+      toDateParam(rule.validFrom), toDateParam(rule.validTo), auditUser.id,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query(queries.DELETE_TAX_RULE, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findPrimaryAddressCountry(userId: string): Promise<{ countryId: string; countryCode: string } | null> {
+    const result = await this.pool.query(queries.GET_PRIMARY_ADDRESS_COUNTRY, [userId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return { countryId: result.rows[0].id, countryCode: result.rows[0].isocode2 };
+  }
+
+  async findTaxableProducts(productIds: string[]): Promise<TaxableProduct[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+    const result = await this.pool.query(queries.GET_TAXABLE_PRODUCTS, [productIds]);
+    return result.rows.map(row => ({
+      productId: row.id,
+      metalId: row.metalid,
+      productTypeId: row.producttypeid,
+    }));
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Tax Types
+ *
+ * Rule-based VAT by country, optionally narrowed to a metal and/or product type
+ */
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+export const TaxErrorCode = {
+  NOT_FOUND: 'TAX_RULE_NOT_FOUND',
+  VALIDATION_ERROR: 'TAX_VALIDATION_ERROR',
+  REFERENCE_NOT_FOUND: 'TAX_REFERENCE_NOT_FOUND',
+  DUPLICATE_RULE: 'TAX_DUPLICATE_RULE',
+  INTERNAL_ERROR: 'TAX_INTERNAL_ERROR',
+} as const;
+
+export type TaxErrorCode = typeof TaxErrorCode[keyof typeof TaxErrorCode];
+
+export interface TaxError {
+  code: TaxErrorCode;
+  message: string;
+}
+
+export interface TaxResult<T> {
+  success: boolean;
+  data?: T;
+  error?: TaxError;
+}
+
+export function getTaxHttpStatus(code: TaxErrorCode | undefined): number {
+  switch (code) {
+    case TaxErrorCode.NOT_FOUND:
+      return 404;
+    case TaxErrorCode.VALIDATION_ERROR:
+    case TaxErrorCode.REFERENCE_NOT_FOUND:
+      return 400;
+    case TaxErrorCode.DUPLICATE_RULE:
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// ============================================================================
+// Tax Rules
+// ============================================================================
+
+export interface TaxRule {
+  id: string;
+  countryId: string;
+  countryCode: string;
+  countryName: string;
+  /** null = all metals */
+  metalId: string | null;
+  metalSymbol: string | null;
+  /** null = all product types */
+  productTypeId: string | null;
+  productTypeName: string | null;
+  /** Decimal fraction, 0.081 = 8.1%; 0 marks an exemption */
+  rate: number;
+  description: string | null;
+  validFrom: Date;
+  /** Exclusive; null = open-ended */
+  validTo: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateTaxRuleRequest {
+  countryId: string;
+  metalId?: string | null;
+  productTypeId?: string | null;
+  rate: number;
+  description?: string | null;
+  validFrom?: string;
+  validTo?: string | null;
+}
+
+export type UpdateTaxRuleRequest = Partial<CreateTaxRuleRequest>;
+
+export interface ListTaxRulesOptions {
+  countryId?: string;
+  metalId?: string;
+  productTypeId?: string;
+  /** Only rules valid at this date */
+  activeAt?: Date;
+}
+
+// ============================================================================
+// Rate Resolution
+// ============================================================================
+
+/**
+ * Product attributes that select a tax rule
+ */
+export interface TaxableProduct {
+  productId: string;
+  metalId: string;
+  productTypeId: string;
+}
+
+export interface ResolvedTaxRate {
+  productId: string;
+  /** null when no rule matches (the calculation default rate applies) */
+  rate: number | null;
+  ruleId: string | null;
+}
+
+export interface UserTaxRates {
+  /** ISO 3166 alpha-2 code of the primary address, null when the user has none */
+  countryCode: string | null;
+  rates: ResolvedTaxRate[];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface NormalizedTaxRule {
+  countryId: string;
+  metalId: string | null;
+  productTypeId: string | null;
+  rate: number;
+  description: string | null;
+  validFrom: Date;
+  validTo: Date | null;
+}
+
+function parseOptionalDate(value: string | null | undefined, name: string): Date | null | TaxError {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return { code: TaxErrorCode.VALIDATION_ERROR, message: `Invalid ${name}: ${value}` };
+  }
+  return date;
+}
+
+function isTaxError(value: unknown): value is TaxError {
+  return typeof value === 'object' && value !== null && 'code' in value;
+}
+
+/**
+ * Validate a complete rule (create, or an update merged onto the existing rule)
+ */
+export function validateTaxRule(request: CreateTaxRuleRequest): TaxResult<NormalizedTaxRule> {
+  const fail = (message: string): TaxResult<NormalizedTaxRule> => ({
+    success: false,
+    error: { code: TaxErrorCode.VALIDATION_ERROR, message },
+  });
+
+  if (!request.countryId || !UUID_REGEX.test(request.countryId)) {
+    return fail('countryId must be a valid UUID');
+  }
+  if (request.metalId && !UUID_REGEX.test(request.metalId)) {
+    return fail('metalId must be a valid UUID');
+  }
+  if (request.productTypeId && !UUID_REGEX.test(request.productTypeId)) {
+    return fail('productTypeId must be a valid UUID');
+  }
+  if (typeof request.rate !== 'number' || !Number.isFinite(request.rate) || request.rate < 0 || request.rate >= 1) {
+    return fail('rate must be a decimal fraction between 0 and 1 (e.g. 0.081 for 8.1%)');
+  }
+
+  const validFrom = parseOptionalDate(request.validFrom, 'validFrom');
+  const validTo = parseOptionalDate(request.validTo, 'validTo');
+  if (isTaxError(validFrom)) {
+    return { success: false, error: validFrom };
+  }
+  if (isTaxError(validTo)) {
+    return { success: false, error: validTo };
+  }
+
+  const from = validFrom ?? new Date(new Date().toISOString().slice(0, 10));
+  if (validTo && validTo <= from) {
+    return fail('validTo must be after validFrom');
+  }
+
+  return {
+    success: true,
+    data: {
+      countryId: request.countryId,
+      metalId: request.metalId || null,
+      productTypeId: request.productTypeId || null,
+      rate: request.rate,
+      description: request.description?.trim() || null,
+      validFrom: from,
+      validTo,
+    },
+  };
+}
+
+// ============================================================================
+// Mapper Functions
+// ============================================================================
+
+export const mapRowToTaxRule = (row: Record<string, unknown>): TaxRule => ({
+  id: row.id as string,
+  countryId: row.countryid as string,
+  countryCode: row.isocode2 as string,
+  countryName: row.countryname as string,
+  metalId: (row.metalid as string | null) ?? null,
+  metalSymbol: (row.metalsymbol as string | null) ?? null,
+  productTypeId: (row.producttypeid as string | null) ?? null,
+  productTypeName: (row.producttypename as string | null) ?? null,
+  rate: parseFloat(row.rate as string),
+  description: (row.description as string | null) ?? null,
+  validFrom: new Date(row.valid_from as string),
+  validTo: row.valid_to ? new Date(row.valid_to as string) : null,
+  createdAt: row.createdat as Date,
+  updatedAt: row.updatedat as Date,
+});
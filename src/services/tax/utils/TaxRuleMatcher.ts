@@ -0,0 +1,66 @@
+/**
+ * Tax Rule Matcher
+ *
+ * Selects the applicable tax rule for a product: among the rules valid at the
+ * given date, the most specific scope wins
+ * (metal + product type > metal > product type > country default)
+ */
+
+import { ResolvedTaxRate, TaxableProduct, TaxRule } from '../types/TaxTypes';
+
+export function isTaxRuleActive(rule: TaxRule, asOf: Date): boolean {
+  return rule.validFrom.getTime() <= asOf.getTime() &&
+    (rule.validTo === null || rule.validTo.getTime() > asOf.getTime());
+}
+
+/**
+ * Specificity score, or -1 when the rule's scope does not cover the product
+ */
+function scoreRule(rule: TaxRule, product: Pick<TaxableProduct, 'metalId' | 'productTypeId'>): number {
+  if (rule.metalId !== null && rule.metalId !== product.metalId) {
+    return -1;
+  }
+  if (rule.productTypeId !== null && rule.productTypeId !== product.productTypeId) {
+    return -1;
+  }
+  return (rule.metalId !== null ? 2 : 0) + (rule.productTypeId !== null ? 1 : 0);
+}
+
+/**
+ * Most specific active rule for the product; on equal scope the latest validFrom wins
+ */
+export function selectTaxRule(
+  rules: TaxRule[],
+  product: Pick<TaxableProduct, 'metalId' | 'productTypeId'>,
+  asOf: Date = new Date()
+): TaxRule | null {
+  let best: TaxRule | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    if (!isTaxRuleActive(rule, asOf)) {
+      continue;
+    }
+    const score = scoreRule(rule, product);
+    if (score < 0) {
+      continue;
+    }
+    if (score > bestScore || (score === bestScore && best !== null && rule.validFrom > best.validFrom)) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export function resolveTaxRates(rules: TaxRule[], products: TaxableProduct[], asOf: Date = new Date()): ResolvedTaxRate[] {
+  return products.map(product => {
+    const rule = selectTaxRule(rules, product, asOf);
+    return {
+      productId: product.productId,
+      rate: rule ? rule.rate : null,
+      ruleId: rule ? rule.id : null,
+    };
+  });
+}
@@ -20,6 +20,7 @@ import {
   EnhancedRegistrationRequest,
   EnhancedRegistrationResponse,
   RegistrationErrorResponse,
+  EmailVerificationResult,
   ValidationError,
 } from './registrationTypes';
 
@@ -52,6 +53,12 @@ export interface IUserRegistrationService {
    * Generate email verification token for a user
    */
   generateEmailVerificationToken(userId: string): Promise<string>;
+
+  /**
+   * Confirm a user's email address with the token from the verification email.
+   * Tokens are single-use and expire 24 hours after they were issued.
+   */
+  verifyEmail(token: string): Promise<EmailVerificationResult>;
 }
 
 export interface IRegistrationRepository {
@@ -100,6 +107,16 @@ export interface IRegistrationRepository {
    */
   findUserAddressByUserId(userId: string): Promise<import('./types').UserAddressEntity | null>;
 
+  /**
+   * Find the verification status holding an email verification token
+   */
+  findVerificationStatusByToken(token: string): Promise<import('./types').UserVerificationStatusEntity | null>;
+
+  /**
+   * Mark the user's email as verified and consume the verification token
+   */
+  markEmailVerified(userId: string): Promise<void>;
+
   /**
    * Execute a database transaction
    */
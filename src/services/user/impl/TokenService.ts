@@ -33,6 +33,7 @@ export class TokenService implements ITokenService {
         email: user.email,
         userName: `${profile.firstName} ${profile.lastName}`,
         role: user.role,
+        tv: user.tokenVersion,
       };
 
       const token = jwt.sign(payload, this.jwtSecret, {
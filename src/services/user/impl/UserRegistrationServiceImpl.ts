@@ -17,6 +17,7 @@ import {
   EnhancedRegistrationRequest,
   EnhancedRegistrationResponse,
   RegistrationErrorResponse,
+  EmailVerificationResult,
   EnhancedRegistrationRequestSchema,
   ERROR_CODES,
   ValidationError,
@@ -31,6 +32,8 @@ import {
   UserRole,
 } from '../types';
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export class UserRegistrationServiceImpl implements IUserRegistrationService {
   constructor(
     private readonly userRepository: IRegistrationRepository,
@@ -209,6 +212,39 @@ export class UserRegistrationServiceImpl implements IUserRegistrationService {
     }
   }
 
+  async verifyEmail(token: string): Promise<EmailVerificationResult> {
+    const invalidToken: EmailVerificationResult = {
+      success: false,
+      error: 'Invalid or already used verification token',
+      code: ERROR_CODES.INVALID_VERIFICATION_TOKEN,
+    };
+
+    if (!token || !UUID_REGEX.test(token)) {
+      return invalidToken;
+    }
+
+    const verification = await this.userRepository.findVerificationStatusByToken(token);
+    if (!verification) {
+      return invalidToken;
+    }
+
+    if (!verification.emailVerificationExpiresAt || verification.emailVerificationExpiresAt.getTime() <= Date.now()) {
+      return {
+        success: false,
+        error: 'Verification token has expired. Please request a new verification email.',
+        code: ERROR_CODES.VERIFICATION_TOKEN_EXPIRED,
+      };
+    }
+
+    await this.userRepository.markEmailVerified(verification.userId);
+
+    return {
+      success: true,
+      userId: verification.userId,
+      message: 'Email address verified successfully',
+    };
+  }
+
   // =============================================================================
   // PRIVATE HELPER METHODS
   // =============================================================================
@@ -24,6 +24,9 @@ export {
   EnhancedRegistrationRequestSchema,
   ERROR_CODES,
   RegistrationResult,
+  EmailVerificationResponse,
+  EmailVerificationErrorResponse,
+  EmailVerificationResult,
   ValidationError as RegistrationValidationError,
 } from './registrationTypes';
 
@@ -59,6 +59,8 @@ export class UserRepositoryMock implements IRegistrationRepository {
       blockedAt: null,
       blockedBy: null,
       blockReason: null,
+      lockedUntil: null,
+      tokenVersion: 0,
       phoneNumber: null,
       gender: null,
       preferredCurrencyId: null,
@@ -117,6 +119,8 @@ export class UserRepositoryMock implements IRegistrationRepository {
       blockedAt: null,
       blockedBy: null,
       blockReason: null,
+      lockedUntil: null,
+      tokenVersion: 0,
       phoneNumber: null,
       gender: null,
       preferredCurrencyId: null,
@@ -240,6 +244,33 @@ export class UserRepositoryMock implements IRegistrationRepository {
     return this.addresses.get(userId) ?? null;
   }
 
+  async findVerificationStatusByToken(token: string): Promise<UserVerificationStatusEntity | null> {
+    for (const status of this.verificationStatuses.values()) {
+      if (status.emailVerificationToken === token) {
+        return status;
+      }
+    }
+    return null;
+  }
+
+  async markEmailVerified(userId: string): Promise<void> {
+    const status = this.verificationStatuses.get(userId);
+    if (status) {
+      this.verificationStatuses.set(userId, {
+        ...status,
+        emailVerificationStatus: EmailVerificationStatus.VERIFIED,
+        emailVerificationToken: null,
+        emailVerificationExpiresAt: null,
+        updatedAt: new Date(),
+      });
+    }
+
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, emailVerified: true, updatedAt: new Date() });
+    }
+  }
+
   async executeTransaction<T>(callback: (client: unknown) => Promise<T>): Promise<T> {
     return callback(null);
   }
@@ -112,6 +112,18 @@ export interface RegistrationErrorResponse {
   details: RegistrationErrorDetails;
 }
 
+export interface EmailVerificationResponse {
+  success: true;
+  userId: string;
+  message: string;
+}
+
+export interface EmailVerificationErrorResponse {
+  success: false;
+  error: string;
+  code: string;
+}
+
 // =============================================================================
 // VALIDATION SCHEMAS
 // =============================================================================
@@ -240,6 +252,8 @@ export const ERROR_CODES = {
   WEAK_PASSWORD: 'WEAK_PASSWORD',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+  INVALID_VERIFICATION_TOKEN: 'INVALID_VERIFICATION_TOKEN',
+  VERIFICATION_TOKEN_EXPIRED: 'VERIFICATION_TOKEN_EXPIRED',
 } as const;
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
@@ -249,3 +263,5 @@ export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
 // =============================================================================
 
 export type RegistrationResult = EnhancedRegistrationResponse | RegistrationErrorResponse;
+
+export type EmailVerificationResult = EmailVerificationResponse | EmailVerificationErrorResponse;
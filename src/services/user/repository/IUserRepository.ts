@@ -102,7 +102,7 @@ export interface IUserRepository {
   
   /**
    * Unblock a user account
-   * Sets account_status back to 'active', clears blocked_at, blocked_by, block_reason
+   * Sets account_status back to 'active', clears blocked_at, blocked_by, block_reason, locked_until
    */
   unblockUser(userId: string, authenticatedUser: AuditTrailUser): Promise<UserEntity | null>;
   
@@ -117,6 +117,11 @@ export interface IUserRepository {
    */
   findBlockedUsers(): Promise<UserEntity[]>;
 
+  /**
+   * Find users temporarily locked after failed logins whose lock has not expired
+   */
+  findLockedUsers(): Promise<UserEntity[]>;
+
   // =========================================================================
   // User Profile Operations
   // =========================================================================
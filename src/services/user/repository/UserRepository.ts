@@ -175,6 +175,38 @@ export class UserRepository implements IRegistrationRepository {
     return result.rows.length > 0 ? mapUserAddressEntity(result.rows[0]) : null;
   }
 
+  async findVerificationStatusByToken(token: string): Promise<UserVerificationStatusEntity | null> {
+    const result = await getPool().query<UserVerificationStatusDbRow>(
+      'SELECT * FROM user_verification_status WHERE email_verification_token = $1',
+      [token]
+    );
+    return result.rows.length > 0 ? mapUserVerificationStatusEntity(result.rows[0]) : null;
+  }
+
+  async markEmailVerified(userId: string): Promise<void> {
+    const client = await getPool().connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE user_verification_status
+         SET email_verification_status = 'verified', email_verification_token = NULL,
+             email_verification_expires_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1`,
+        [userId]
+      );
+      await client.query(
+        'UPDATE users SET email_verified = TRUE, updatedat = CURRENT_TIMESTAMP WHERE id = $1',
+        [userId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async executeTransaction<T>(callback: (client: unknown) => Promise<T>): Promise<T> {
     const client = await getPool().connect();
     try {
@@ -261,6 +261,7 @@ export class UserRepositoryImpl implements IUserRepository {
            blocked_at = CURRENT_TIMESTAMP,
            blocked_by = $2,
            block_reason = $3,
+           locked_until = NULL,
            updatedat = CURRENT_TIMESTAMP,
            updatedBy = $4
        WHERE id = $1
@@ -279,6 +280,7 @@ export class UserRepositoryImpl implements IUserRepository {
            blocked_at = NULL,
            blocked_by = NULL,
            block_reason = NULL,
+           locked_until = NULL,
            updatedat = CURRENT_TIMESTAMP,
            updatedBy = $2
        WHERE id = $1
@@ -314,6 +316,17 @@ export class UserRepositoryImpl implements IUserRepository {
     return result.rows.map(row => mapUserEntity(row));
   }
 
+  async findLockedUsers(): Promise<UserEntity[]> {
+    const result = await this.pool.query<UserDbRow>(
+      `SELECT * FROM users 
+       WHERE account_status = 'suspended'
+         AND locked_until > CURRENT_TIMESTAMP
+       ORDER BY locked_until ASC`
+    );
+    
+    return result.rows.map(row => mapUserEntity(row));
+  }
+
   // =========================================================================
   // User Profile Operations
   // =========================================================================
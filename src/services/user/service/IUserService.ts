@@ -246,6 +246,12 @@ export interface IUserService {
    */
   findBlockedUsers(): Promise<UserOperationResult<UserEntity[]>>;
 
+  /**
+   * Find accounts temporarily locked after too many failed logins
+   * @returns List of locked users, soonest unlock first
+   */
+  findLockedUsers(): Promise<UserOperationResult<UserEntity[]>>;
+
   // =========================================================================
   // Authentication Support
   // =========================================================================
@@ -756,6 +756,20 @@ export class UserServiceImpl implements IUserService {
     }
   }
 
+  async findLockedUsers(): Promise<UserOperationResult<UserEntity[]>> {
+    try {
+      const lockedUsers = await this.userRepository.findLockedUsers();
+      return { success: true, data: lockedUsers };
+    } catch (error) {
+      console.error('Error finding locked users:', error);
+      return {
+        success: false,
+        error: 'Failed to find locked users',
+        errorCode: UserErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
   // =========================================================================
   // Authentication Support
   // =========================================================================
@@ -31,6 +31,10 @@ export interface UserEntity {
   blockedAt: Date | null;
   blockedBy: string | null;
   blockReason: string | null;
+  // Automatic unlock time of a temporary lock after failed logins (from 27-login-lockout.sql)
+  lockedUntil: Date | null;
+  // Incremented on password change/reset to revoke earlier JWTs (from 24-password-reset.sql)
+  tokenVersion: number;
   // Extended profile fields (from 08-user-account-status.sql)
   phoneNumber: string | null;
   gender: Gender | null;
@@ -149,6 +153,8 @@ export interface UserDbRow {
   blocked_at: Date | null;
   blocked_by: string | null;
   block_reason: string | null;
+  locked_until: Date | null;
+  token_version: number;
   // Extended profile fields
   phone_number: string | null;
   gender: string | null;
@@ -68,6 +68,8 @@ export function mapUserEntity(row: UserDbRow): UserEntity {
     blockedAt: row.blocked_at,
     blockedBy: row.blocked_by,
     blockReason: row.block_reason,
+    lockedUntil: row.locked_until,
+    tokenVersion: row.token_version,
     phoneNumber: row.phone_number,
     gender: gender,
     preferredCurrencyId: row.preferred_currency_id,
@@ -158,6 +158,13 @@ export async function createOrderWithAudit(
     custodyserviceid?: string;
     payment_intent_id?: string;
     payment_status?: string;
+    currency?: string;
+    subtotal?: number;
+    processing_fee?: number;
+    shipping_fee?: number;
+    insurance_fee?: number;
+    taxes?: number;
+    total_amount?: number;
   },
   user: AuditTrailUser
 ) {
@@ -166,8 +173,9 @@ export async function createOrderWithAudit(
   const query = `
     INSERT INTO orders (
       id, userid, type, orderstatus, custodyserviceid, payment_intent_id, payment_status,
+      currency, subtotal, processing_fee, shipping_fee, insurance_fee, taxes, total_amount,
       createdBy, updatedBy, createdat, updatedat
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) 
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
     RETURNING *
   `;
   
@@ -179,6 +187,13 @@ export async function createOrderWithAudit(
     orderData.custodyserviceid || null,
     orderData.payment_intent_id || null,
     orderData.payment_status || 'pending',
+    orderData.currency ?? null,
+    orderData.subtotal ?? null,
+    orderData.processing_fee ?? null,
+    orderData.shipping_fee ?? null,
+    orderData.insurance_fee ?? null,
+    orderData.taxes ?? null,
+    orderData.total_amount ?? null,
     auditFields.createdBy,
     auditFields.updatedBy,
     auditFields.createdat,
@@ -0,0 +1,6 @@
+/**
+ * Round a monetary amount to cents
+ */
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,36 @@
+import type { IFxRateProvider } from '../../src/services/fx/providers/IFxRateProvider';
+import type { IMarketDataProvider } from '../../src/services/market-data/providers/IMarketDataProvider';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+
+/** Resolves every metal symbol to `metal-<symbol>-id` */
+export const referenceService = {
+  getMetalBySymbol: async (symbol: string) => ({ id: `metal-${symbol.toLowerCase()}-id` }),
+} as unknown as IReferenceService;
+
+export const stubProvider = (
+  name: string,
+  priority: number,
+  fetchPrices: IMarketDataProvider['fetchPrices']
+): IMarketDataProvider => ({
+  getName: () => name,
+  getPriority: () => priority,
+  isAvailable: () => true,
+  fetchPrices,
+});
+
+/** Primary provider quoting the given USD prices for the requested symbols */
+export const spotPriceProvider = (prices: Record<string, number>): IMarketDataProvider =>
+  stubProvider('SIX-Swiss-Exchange', 1, async symbols => symbols
+    .filter(symbol => prices[symbol] !== undefined)
+    .map(symbol => ({ symbol, price: prices[symbol], currency: 'USD', timestamp: new Date() })));
+
+export const stubFxProvider = (
+  name: string,
+  priority: number,
+  fetchRates: IFxRateProvider['fetchRates']
+): IFxRateProvider => ({
+  getName: () => name,
+  getPriority: () => priority,
+  isAvailable: () => true,
+  fetchRates,
+});
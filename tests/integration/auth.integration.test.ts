@@ -187,15 +187,16 @@ describe('Authentication Endpoints', () => {
         .send({ email: 'bank.technical@goldsphere.vault', password: 'GoldspherePassword' })
         .expect(200);
 
-      const token = loginResponse.body.data.accessToken;
+      const refreshToken = loginResponse.body.data.refreshToken;
 
       const response = await request(app)
         .post('/api/auth/refresh')
-        .set('Authorization', `Bearer ${token}`)
+        .send({ refreshToken })
         .expect(200);
 
       expect(response.body).toHaveProperty('success', true);
       expect(response.body).toHaveProperty('data.accessToken');
+      expect(response.body).toHaveProperty('data.refreshToken');
       expect(response.body).toHaveProperty('data.tokenType', 'Bearer');
       expect(response.body).toHaveProperty('data.expiresIn');
       expect(response.body).toHaveProperty('data.expiresAt');
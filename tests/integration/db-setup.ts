@@ -134,7 +134,28 @@ async function initializeDatabaseSchema(): Promise<void> {
     { name: '05-market-data.sql', path: path.join(__dirname, '../../initdb/05-market-data.sql') },
     { name: '06-user-enums.sql', path: path.join(__dirname, '../../initdb/06-user-enums.sql') },
     { name: '07-market-data-price-types.sql', path: path.join(__dirname, '../../initdb/07-market-data-price-types.sql') },
-    { name: '08-user-account-status.sql', path: path.join(__dirname, '../../initdb/08-user-account-status.sql') }
+    { name: '08-user-account-status.sql', path: path.join(__dirname, '../../initdb/08-user-account-status.sql') },
+    { name: '09-order-status-history.sql', path: path.join(__dirname, '../../initdb/09-order-status-history.sql') },
+    { name: '10-price-quotes.sql', path: path.join(__dirname, '../../initdb/10-price-quotes.sql') },
+    { name: '11-tax-lots.sql', path: path.join(__dirname, '../../initdb/11-tax-lots.sql') },
+    { name: '12-custody-invoices.sql', path: path.join(__dirname, '../../initdb/12-custody-invoices.sql') },
+    { name: '13-tax-rules.sql', path: path.join(__dirname, '../../initdb/13-tax-rules.sql') },
+    { name: '14-shipping-tariffs.sql', path: path.join(__dirname, '../../initdb/14-shipping-tariffs.sql') },
+    { name: '15-fx-rates.sql', path: path.join(__dirname, '../../initdb/15-fx-rates.sql') },
+    { name: '16-price-candles.sql', path: path.join(__dirname, '../../initdb/16-price-candles.sql') },
+    { name: '17-price-alerts.sql', path: path.join(__dirname, '../../initdb/17-price-alerts.sql') },
+    { name: '18-price-quarantine.sql', path: path.join(__dirname, '../../initdb/18-price-quarantine.sql') },
+    { name: '19-consensus-pricing.sql', path: path.join(__dirname, '../../initdb/19-consensus-pricing.sql') },
+    { name: '20-trading-calendar.sql', path: path.join(__dirname, '../../initdb/20-trading-calendar.sql') },
+    { name: '21-replay-provider.sql', path: path.join(__dirname, '../../initdb/21-replay-provider.sql') },
+    { name: '22-price-history-import.sql', path: path.join(__dirname, '../../initdb/22-price-history-import.sql') },
+    { name: '23-savings-plans.sql', path: path.join(__dirname, '../../initdb/23-savings-plans.sql') },
+    { name: '24-password-reset.sql', path: path.join(__dirname, '../../initdb/24-password-reset.sql') },
+    { name: '25-auth-sessions.sql', path: path.join(__dirname, '../../initdb/25-auth-sessions.sql') },
+    { name: '26-two-factor-auth.sql', path: path.join(__dirname, '../../initdb/26-two-factor-auth.sql') },
+    { name: '27-login-lockout.sql', path: path.join(__dirname, '../../initdb/27-login-lockout.sql') },
+    { name: '28-order-amounts.sql', path: path.join(__dirname, '../../initdb/28-order-amounts.sql') },
+    { name: '29-position-currency.sql', path: path.join(__dirname, '../../initdb/29-position-currency.sql') }
   ];
 
   for (const sqlFile of sqlFiles) {
@@ -95,6 +95,8 @@ describe('Market Data API', () => {
       expect(response.body.data).toHaveProperty('pricePerTroyOz');
       expect(response.body.data).toHaveProperty('currency', 'USD');
       expect(Number.parseFloat(response.body.data.pricePerTroyOz)).toBeGreaterThan(0);
+      expect(['live', 'stale', 'last_close']).toContain(response.body.freshness.status);
+      expect(response.body.freshness.ageSeconds).toBeGreaterThanOrEqual(0);
     });
 
     it('should return current price for silver', async () => {
@@ -1,9 +1,47 @@
 import request from "supertest";
+import Stripe from "stripe";
 import { getPool } from "../../src/dbConfig";
 import { setupTestDatabase, teardownTestDatabase } from './db-setup';
 
 let app: any;
 
+// Webhook signatures are verified locally, no Stripe account is contacted
+process.env.STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || 'sk_test_orders_integration';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_orders_integration';
+
+// Buy orders are only shipped once paid (order status transition guard):
+// deliver a signed payment_intent.succeeded event to the Stripe webhook
+const markOrderPaid = async (orderId: string): Promise<void> => {
+  const payload = JSON.stringify({
+    id: `evt_${orderId.slice(0, 8)}`,
+    object: 'event',
+    type: 'payment_intent.succeeded',
+    data: {
+      object: {
+        id: `pi_${orderId.slice(0, 8)}`,
+        object: 'payment_intent',
+        amount: 100,
+        currency: 'chf',
+        metadata: { orderId },
+      },
+    },
+  });
+  const signature = Stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret: process.env.STRIPE_WEBHOOK_SECRET as string,
+  });
+
+  await request(app)
+    .post('/api/payments/webhook')
+    .set('Content-Type', 'application/json')
+    .set('stripe-signature', signature)
+    .send(payload)
+    .expect(200);
+
+  const result = await getPool().query('SELECT payment_status FROM orders WHERE id = $1', [orderId]);
+  expect(result.rows[0].payment_status).toBe('paid');
+};
+
 describe("Orders API", () => {
   let authToken: string;
   // Shared test products for ALL order tests (created once, used by all)
@@ -302,6 +340,7 @@ describe("Orders API", () => {
         
         expect(createResponse.status).toBe(201);
         processOrderId = createResponse.body.data.id;
+        await markOrderPaid(processOrderId);
         
         // TEST: Process order from pending to confirmed
         const response = await request(app)
@@ -352,6 +391,7 @@ describe("Orders API", () => {
         
         expect(createResponse.status).toBe(201);
         processOrderId = createResponse.body.data.id;
+        await markOrderPaid(processOrderId);
         
         // TEST: Process through multiple stages
         // pending → confirmed
@@ -417,6 +457,7 @@ describe("Orders API", () => {
         
         expect(createResponse.status).toBe(201);
         processOrderId = createResponse.body.data.id;
+        await markOrderPaid(processOrderId);
         
         // TEST: Process to delivered (all stages)
         const stages = ['confirmed', 'processing', 'shipped', 'delivered'];
@@ -535,6 +576,7 @@ describe("Orders API", () => {
       
       expect(createResponse.status).toBe(201);
       buyOrderId = createResponse.body.data.id;
+      await markOrderPaid(buyOrderId);
       
       // Step 2: Process order through all stages to delivered
       const stages = ['confirmed', 'processing', 'shipped', 'delivered'];
@@ -592,6 +634,7 @@ describe("Orders API", () => {
       
       expect(setupBuyResponse.status).toBe(201);
       setupBuyOrderId = setupBuyResponse.body.data.id;
+      await markOrderPaid(setupBuyOrderId);
       
       // Step 1b: Process setup buy order through all stages to delivered
       const setupStages = ['confirmed', 'processing', 'shipped', 'delivered'];
@@ -729,6 +772,7 @@ describe("Orders API", () => {
       
       expect(buyResponse.status).toBe(201);
       testOrderId = buyResponse.body.data.id;
+      await markOrderPaid(testOrderId);
       
       // Process to delivered
       const stages = ['confirmed', 'processing', 'shipped', 'delivered'];
@@ -819,6 +863,7 @@ describe("Orders API", () => {
       
       expect(reactivateBuyResponse.status).toBe(201);
       const reactivateOrderId = reactivateBuyResponse.body.data.id;
+      await markOrderPaid(reactivateOrderId);
       
       // Process to delivered
       for (const _ of stages) {
@@ -39,6 +39,9 @@ describe('Orders Workflow Integration', () => {
     expect(response.status).toBe(201);
     const orderId = response.body.data.id as string;
     createdOrderIds.push(orderId);
+
+    // Buy orders are only shipped once paid (order status transition guard)
+    await getPool().query("UPDATE orders SET payment_status = 'paid' WHERE id = $1", [orderId]);
     return orderId;
   };
 
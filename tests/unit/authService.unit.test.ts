@@ -24,6 +24,7 @@ describe('AuthService', () => {
       lastName: 'User',
       role: 'user',
       status: 'active',
+      tokenVersion: 0,
       ...overrides,
     };
   };
@@ -244,7 +245,7 @@ describe('AuthService', () => {
   });
 
   describe('refreshToken', () => {
-    it('should return new token for valid token', async () => {
+    it('should return new access and refresh token for valid refresh token', async () => {
       const testUser = await createTestUser();
       mockRepository.addUser(testUser);
 
@@ -254,15 +255,40 @@ describe('AuthService', () => {
       });
 
       const originalToken = loginResult.data!.data.accessToken;
+      const originalRefreshToken = loginResult.data!.data.refreshToken!;
       
       // Wait a bit to ensure different iat timestamp
       await new Promise(resolve => setTimeout(resolve, 1100));
       
-      const result = await authService.refreshToken(originalToken);
+      const result = await authService.refreshToken(originalRefreshToken);
 
       expect(result.success).toBe(true);
       expect(result.data!.data.accessToken).toBeDefined();
       expect(result.data!.data.accessToken).not.toBe(originalToken);
+      expect(result.data!.data.refreshToken).toBeDefined();
+      expect(result.data!.data.refreshToken).not.toBe(originalRefreshToken);
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      const testUser = await createTestUser();
+      mockRepository.addUser(testUser);
+
+      const loginResult = await authService.login({
+        email: 'test@goldsphere.vault',
+        password: testPassword,
+      });
+      const originalRefreshToken = loginResult.data!.data.refreshToken!;
+
+      const refreshed = await authService.refreshToken(originalRefreshToken);
+      const reused = await authService.refreshToken(originalRefreshToken);
+
+      expect(reused.success).toBe(false);
+      expect(reused.error?.code).toBe(AuthErrorCode.TOKEN_INVALID);
+
+      const afterReuse = await authService.refreshToken(refreshed.data!.data.refreshToken!);
+      expect(afterReuse.success).toBe(false);
+      expect((await authService.validateToken(refreshed.data!.data.accessToken)).error?.message)
+        .toBe('Session has been revoked');
     });
 
     it('should return error if user is no longer active', async () => {
@@ -278,13 +304,13 @@ describe('AuthService', () => {
       mockRepository.removeUser('test@goldsphere.vault');
       mockRepository.addUser({ ...testUser, status: 'inactive' });
 
-      const result = await authService.refreshToken(loginResult.data!.data.accessToken);
+      const result = await authService.refreshToken(loginResult.data!.data.refreshToken!);
 
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(AuthErrorCode.USER_INACTIVE);
     });
 
-    it('should return error for invalid token', async () => {
+    it('should return error for unknown refresh token', async () => {
       const result = await authService.refreshToken('invalid-token');
 
       expect(result.success).toBe(false);
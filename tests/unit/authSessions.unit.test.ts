@@ -0,0 +1,97 @@
+/**
+ * Auth Session Unit Tests
+ */
+
+import bcrypt from 'bcrypt';
+import { AuthServiceImpl } from '../../src/services/auth/impl/AuthServiceImpl';
+import { AuthRepositoryMock } from '../../src/services/auth/mock/AuthRepositoryMock';
+import { AuthErrorCode, AuthUserRecord } from '../../src/services/auth/types';
+
+describe('AuthService sessions', () => {
+  const password = 'SecurePassword123';
+  let repository: AuthRepositoryMock;
+  let authService: AuthServiceImpl;
+
+  const user: Omit<AuthUserRecord, 'passwordHash'> = {
+    id: 'user-123',
+    email: 'test@goldsphere.vault',
+    firstName: 'Test',
+    lastName: 'User',
+    role: 'user',
+    status: 'active',
+    tokenVersion: 0,
+  };
+
+  const login = async (userAgent: string) => {
+    const result = await authService.login({ email: user.email, password }, { userAgent, ipAddress: '203.0.113.7' });
+    const accessToken = result.data!.data.accessToken;
+    const validation = await authService.validateToken(accessToken);
+    return { accessToken, refreshToken: result.data!.data.refreshToken!, sessionId: validation.data!.sid! };
+  };
+
+  beforeEach(() => {
+    repository = new AuthRepositoryMock([{ ...user, passwordHash: bcrypt.hashSync(password, 4) }]);
+    authService = new AuthServiceImpl(repository, 'test-jwt-secret', '15m', 30);
+  });
+
+  it('lists active sessions and marks the current one', async () => {
+    const laptop = await login('Laptop');
+    const phone = await login('Phone');
+
+    const result = await authService.listSessions(user.id, phone.sessionId);
+
+    expect(result.data).toHaveLength(2);
+    expect(result.data!.find(session => session.id === phone.sessionId)).toMatchObject({
+      userAgent: 'Phone',
+      ipAddress: '203.0.113.7',
+      current: true,
+    });
+    expect(result.data!.find(session => session.id === laptop.sessionId)?.current).toBe(false);
+  });
+
+  it('revokes a single own session and its tokens', async () => {
+    const laptop = await login('Laptop');
+    const phone = await login('Phone');
+
+    expect((await authService.revokeSession('other-user', laptop.sessionId)).error?.code)
+      .toBe(AuthErrorCode.SESSION_NOT_FOUND);
+    expect((await authService.revokeSession(user.id, laptop.sessionId)).success).toBe(true);
+
+    expect((await authService.validateToken(laptop.accessToken)).error?.code).toBe(AuthErrorCode.TOKEN_INVALID);
+    expect((await authService.refreshToken(laptop.refreshToken)).success).toBe(false);
+    expect((await authService.validateToken(phone.accessToken)).success).toBe(true);
+    expect((await authService.listSessions(user.id)).data!.map(session => session.id)).toEqual([phone.sessionId]);
+  });
+
+  it('revokes all sessions of a user', async () => {
+    const laptop = await login('Laptop');
+    await login('Phone');
+
+    const result = await authService.revokeAllSessions(user.id, 'user_blocked');
+
+    expect(result.data).toEqual({ revokedSessions: 2 });
+    expect(repository.getSessionRevocationReason(laptop.sessionId)).toBe('user_blocked');
+    expect((await authService.refreshToken(laptop.refreshToken)).success).toBe(false);
+  });
+
+  it('ends the session on logout', async () => {
+    const laptop = await login('Laptop');
+
+    await authService.logout(laptop.accessToken);
+
+    expect(repository.getSessionRevocationReason(laptop.sessionId)).toBe('logout');
+    expect((await authService.refreshToken(laptop.refreshToken)).success).toBe(false);
+  });
+
+  it('rejects refresh tokens of expired sessions', async () => {
+    const laptop = await login('Laptop');
+
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    try {
+      const result = await authService.refreshToken(laptop.refreshToken);
+      expect(result.error?.code).toBe(AuthErrorCode.TOKEN_EXPIRED);
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+});
@@ -1,8 +1,8 @@
 import { CalculationServiceImpl } from '../../src/services/calculation/impl/CalculationServiceImpl';
 
 describe('CalculationServiceImpl', () => {
-  it('applies taxes for buy orders', () => {
-    const service = new CalculationServiceImpl();
+  it('applies the configured default tax rate for buy orders', () => {
+    const service = new CalculationServiceImpl({ taxRate: 0.0825 });
     const result = service.calculateOrderTotal([{ quantity: 1, unitPrice: 100 }], 'buy');
 
     expect(result.subtotal).toBe(100);
@@ -11,6 +11,14 @@ describe('CalculationServiceImpl', () => {
     expect(result.totalAmount).toBeCloseTo(113.6625, 4);
   });
 
+  it('does not tax items without a rate unless a default is configured', () => {
+    const service = new CalculationServiceImpl();
+    const result = service.calculateOrderTotal([{ quantity: 1, unitPrice: 100 }], 'buy');
+
+    expect(result.taxes).toBe(0);
+    expect(result.totalAmount).toBe(105);
+  });
+
   it('does not apply taxes for sell orders', () => {
     const service = new CalculationServiceImpl();
     const result = service.calculateOrderTotal([{ quantity: 1, unitPrice: 100 }], 'sell');
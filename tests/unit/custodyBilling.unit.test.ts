@@ -0,0 +1,117 @@
+import {
+  calculateCustodyInvoices,
+  getBillingPeriod,
+  getLastCompletedPeriod,
+  toAccruedFrequency,
+} from '../../src/services/custody/utils/CustodyFeeCalculator';
+import { CustodyBillingServiceImpl } from '../../src/services/custody/impl/CustodyBillingServiceImpl';
+import { CustodyRepositoryMock } from '../../src/services/custody/mock/CustodyRepositoryMock';
+import { BillablePosition } from '../../src/services/custody/types/CustodyBillingTypes';
+
+const vaultPosition: BillablePosition = {
+  positionId: 'pos-1',
+  userId: 'user-1',
+  custodyServiceId: 'service-vault',
+  custodyServiceName: 'Vault',
+  fee: 31,
+  currencyId: 'curr-chf',
+  currency: 'CHF',
+  paymentFrequency: 'monthly',
+  openedAt: new Date('2023-11-20T14:00:00Z'),
+  closedAt: null,
+};
+
+describe('Custody fee calculator', () => {
+  it('builds calendar billing periods in UTC', () => {
+    const date = new Date('2024-02-14T18:30:00Z');
+
+    expect(getBillingPeriod('monthly', date)).toMatchObject({
+      start: new Date('2024-02-01T00:00:00Z'),
+      end: new Date('2024-03-01T00:00:00Z'),
+      days: 29,
+    });
+    expect(getBillingPeriod('weekly', date).start).toEqual(new Date('2024-02-12T00:00:00Z'));
+    expect(getBillingPeriod('quarterly', date).days).toBe(91);
+    expect(getLastCompletedPeriod('monthly', new Date('2024-03-01T00:15:00Z')).start)
+      .toEqual(new Date('2024-02-01T00:00:00Z'));
+    expect(getLastCompletedPeriod('yearly', new Date('2024-03-01T00:15:00Z')).days).toBe(365);
+  });
+
+  it('maps payment frequencies and excludes one-time fees', () => {
+    expect(toAccruedFrequency('annual')).toBe('yearly');
+    expect(toAccruedFrequency('quarterly')).toBe('quarterly');
+    expect(toAccruedFrequency('onetime')).toBeNull();
+  });
+
+  it('charges the full fee for positions held the whole period', () => {
+    const period = getBillingPeriod('monthly', new Date('2024-01-15T00:00:00Z'));
+    const [invoice] = calculateCustodyInvoices([vaultPosition], period);
+
+    expect(invoice).toMatchObject({ billedDays: 31, periodDays: 31, amount: 31, currency: 'CHF' });
+  });
+
+  it('pro-rates positions opened or closed mid-period and bills overlapping positions once', () => {
+    const period = getBillingPeriod('monthly', new Date('2024-01-15T00:00:00Z'));
+    const invoices = calculateCustodyInvoices([
+      { ...vaultPosition, positionId: 'pos-opened', openedAt: new Date('2024-01-10T09:00:00Z') },
+      {
+        ...vaultPosition,
+        positionId: 'pos-closed',
+        openedAt: new Date('2024-01-05T09:00:00Z'),
+        closedAt: new Date('2024-01-15T16:00:00Z'),
+      },
+      {
+        ...vaultPosition,
+        positionId: 'pos-other-user',
+        userId: 'user-2',
+        openedAt: new Date('2023-06-01T00:00:00Z'),
+        closedAt: new Date('2024-01-11T00:00:00Z'),
+      },
+    ], period);
+
+    expect(invoices).toHaveLength(2);
+    // Jan 5 - Jan 31 covered by the union of both positions
+    expect(invoices[0]).toMatchObject({ userId: 'user-1', billedDays: 27, amount: 27 });
+    expect(invoices[0].lineItems.map(item => [item.positionId, item.days])).toEqual([
+      ['pos-opened', 22],
+      ['pos-closed', 10],
+    ]);
+    // Closing day is not billed
+    expect(invoices[1]).toMatchObject({ userId: 'user-2', billedDays: 10, amount: 10 });
+  });
+
+  it('skips free services, other frequencies and positions outside the period', () => {
+    const period = getBillingPeriod('monthly', new Date('2024-01-15T00:00:00Z'));
+
+    expect(calculateCustodyInvoices([
+      { ...vaultPosition, fee: 0 },
+      { ...vaultPosition, paymentFrequency: 'onetime' },
+      { ...vaultPosition, openedAt: new Date('2024-02-01T00:00:00Z') },
+    ], period)).toEqual([]);
+  });
+});
+
+describe('CustodyBillingServiceImpl', () => {
+  it('invoices completed periods once and lists invoices per user', async () => {
+    const annualUserId = '750e8400-e29b-41d4-a716-446655440002';
+    const repository = new CustodyRepositoryMock();
+    repository.setBillablePositions([
+      vaultPosition,
+      { ...vaultPosition, positionId: 'pos-2', userId: annualUserId, paymentFrequency: 'annual', fee: 366 },
+    ]);
+    const service = new CustodyBillingServiceImpl(repository);
+    const asOf = new Date('2024-02-01T00:15:00Z');
+
+    const first = await service.accrueFees(asOf);
+    expect(first).toMatchObject({ invoicesCreated: 2, invoicesSkipped: 0, errors: [] });
+
+    const second = await service.accrueFees(asOf);
+    expect(second).toMatchObject({ invoicesCreated: 0, invoicesSkipped: 2 });
+
+    const mine = await service.getUserInvoices(annualUserId);
+    expect(mine.success).toBe(true);
+    expect(mine.data?.invoices).toHaveLength(1);
+    // 2023 has 365 days; held Nov 20 - Dec 31 = 42 days
+    expect(mine.data?.invoices[0]).toMatchObject({ paymentFrequency: 'yearly', billedDays: 42, amount: 42.12 });
+  });
+});
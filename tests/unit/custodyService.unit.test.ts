@@ -8,6 +8,7 @@ import { CustodyServiceImpl } from '../../src/services/custody/impl/CustodyServi
 import { ICustodyRepository } from '../../src/services/custody/repository/ICustodyRepository';
 import { CustodyServiceEntity, CustodianWithServices } from '../../src/services/custody/types/CustodyTypes';
 import { AuditTrailUser } from '../../src/utils/auditTrail';
+import { calculateFineWeightGrams, checkCustodyWeightLimits } from '../../src/services/custody/validators/CustodyValidators';
 
 describe('CustodyServiceImpl Unit Tests', () => {
   const testUser: AuditTrailUser = { id: 'test-user-id', email: 'test@example.com', role: 'admin' };
@@ -29,6 +30,8 @@ describe('CustodyServiceImpl Unit Tests', () => {
       custodianExists: jest.fn(),
       currencyExists: jest.fn(),
       getCurrencyIdByCode: jest.fn(),
+      findProductWeights: jest.fn(),
+      findHeldWeights: jest.fn(),
     } as any;
 
     service = new CustodyServiceImpl(mockRepository);
@@ -339,4 +342,87 @@ describe('CustodyServiceImpl Unit Tests', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe('custody weight limits', () => {
+    const userId = '750e8400-e29b-41d4-a716-446655440001';
+    const barId = '850e8400-e29b-41d4-a716-446655440001';
+    const vault: CustodyServiceEntity = {
+      id: '650e8400-e29b-41d4-a716-446655440010',
+      custodyservicename: 'Small Vault',
+      custodianid: '550e8400-e29b-41d4-a716-446655440001',
+      custodianname: 'Loomis',
+      fee: '25',
+      paymentfrequency: 'monthly',
+      currencyid: 'currency-id',
+      currency: 'CHF',
+      minweight: '100',
+      maxweight: '1000',
+      createdat: new Date(),
+      updatedat: new Date(),
+    };
+
+    beforeEach(() => {
+      // 500 g bar at 999.9 fine
+      mockRepository.findProductWeights.mockResolvedValue([
+        { productId: barId, weight: 500, weightUnit: 'grams', purity: 0.9999 },
+      ]);
+      mockRepository.findHeldWeights.mockResolvedValue([
+        { custodyServiceId: vault.id, weight: 1, weightUnit: 'troy_ounces', purity: 1, quantity: 10 },
+      ]);
+    });
+
+    it('computes fine weight in grams across units', () => {
+      expect(calculateFineWeightGrams([
+        { weight: 1, weightUnit: 'troy_ounces', purity: 1, quantity: 2 },
+        { weight: 0.1, weightUnit: 'kilograms', purity: 0.5, quantity: 1 },
+      ])).toBe(112.21);
+    });
+
+    it('reports the violated limit', () => {
+      const limits = { id: vault.id, name: 'Small Vault', minWeight: 100, maxWeight: 1000 };
+
+      expect(checkCustodyWeightLimits(limits, 0, 1000).accepted).toBe(true);
+      expect(checkCustodyWeightLimits(limits, 600, 500)).toMatchObject({
+        accepted: false,
+        code: 'CUSTODY_MAX_WEIGHT_EXCEEDED',
+        resultingWeightGrams: 1100,
+      });
+      expect(checkCustodyWeightLimits(limits, 0, 50).code).toBe('CUSTODY_MIN_WEIGHT_NOT_MET');
+    });
+
+    it('counts what the user already holds in the service', async () => {
+      mockRepository.findById.mockResolvedValue(vault);
+
+      const result = await service.checkCustodyCapacity(userId, vault.id, [{ productId: barId, quantity: 2 }]);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        accepted: false,
+        currentWeightGrams: 311.03,
+        basketWeightGrams: 999.9,
+        code: 'CUSTODY_MAX_WEIGHT_EXCEEDED',
+      });
+    });
+
+    it('suggests services that can accept the basket first', async () => {
+      const unlimited = { ...vault, id: '650e8400-e29b-41d4-a716-446655440011', custodyservicename: 'Big Vault', fee: '40', minweight: null, maxweight: null };
+      mockRepository.findAll.mockResolvedValue({ custodyServices: [vault, unlimited], total: 2 });
+
+      const result = await service.suggestCustodyServices(userId, [{ productId: barId, quantity: 2 }]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(s => [s.custodyService.custodyServiceName, s.capacity.accepted])).toEqual([
+        ['Big Vault', true],
+        ['Small Vault', false],
+      ]);
+    });
+
+    it('rejects baskets with unknown products', async () => {
+      mockRepository.findProductWeights.mockResolvedValue([]);
+
+      const result = await service.suggestCustodyServices(userId, [{ productId: barId, quantity: 1 }]);
+
+      expect(result).toEqual({ success: false, error: `Product not found: ${barId}` });
+    });
+  });
 });
@@ -0,0 +1,63 @@
+import { UserRegistrationServiceImpl } from '../../src/services/user/impl/UserRegistrationServiceImpl';
+import { UserRepositoryMock } from '../../src/services/user/mock/UserRepositoryMock';
+import { PasswordService } from '../../src/services/user/impl/PasswordService';
+import { TokenService } from '../../src/services/user/impl/TokenService';
+import { EmailServiceMock } from '../../src/services/email/mock/EmailServiceMock';
+import { ERROR_CODES } from '../../src/services/user/registrationTypes';
+
+const TOKEN = '6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f';
+
+describe('UserRegistrationServiceImpl.verifyEmail', () => {
+  let repository: UserRepositoryMock;
+  let service: UserRegistrationServiceImpl;
+  let userId: string;
+
+  const issueToken = async (expiresAt: Date) => {
+    const user = await repository.createUser({ email: 'new.customer@example.com', passwordHash: 'hash' });
+    await repository.createUserVerificationStatus({
+      userId: user.id,
+      emailVerificationToken: TOKEN,
+      emailVerificationExpiresAt: expiresAt,
+    });
+    userId = user.id;
+  };
+
+  beforeEach(() => {
+    repository = new UserRepositoryMock();
+    service = new UserRegistrationServiceImpl(
+      repository,
+      new PasswordService(),
+      new TokenService('test-secret'),
+      new EmailServiceMock()
+    );
+  });
+
+  it('verifies the email address and consumes the token', async () => {
+    await issueToken(new Date(Date.now() + 60 * 60 * 1000));
+
+    const result = await service.verifyEmail(TOKEN);
+
+    expect(result).toEqual({ success: true, userId, message: 'Email address verified successfully' });
+    expect(repository.getAllUsers().find(user => user.id === userId)?.emailVerified).toBe(true);
+    expect(await repository.findVerificationStatusByToken(TOKEN)).toBeNull();
+    expect(await service.verifyEmail(TOKEN)).toMatchObject({
+      success: false,
+      code: ERROR_CODES.INVALID_VERIFICATION_TOKEN,
+    });
+  });
+
+  it('rejects expired tokens', async () => {
+    await issueToken(new Date(Date.now() - 1000));
+
+    expect(await service.verifyEmail(TOKEN)).toMatchObject({
+      success: false,
+      code: ERROR_CODES.VERIFICATION_TOKEN_EXPIRED,
+    });
+    expect(repository.getAllUsers().find(user => user.id === userId)?.emailVerified).toBe(false);
+  });
+
+  it('rejects unknown and malformed tokens', async () => {
+    expect(await service.verifyEmail(TOKEN)).toMatchObject({ code: ERROR_CODES.INVALID_VERIFICATION_TOKEN });
+    expect(await service.verifyEmail('not-a-token')).toMatchObject({ code: ERROR_CODES.INVALID_VERIFICATION_TOKEN });
+  });
+});
@@ -0,0 +1,104 @@
+import { FxServiceImpl } from '../../src/services/fx/impl/FxServiceImpl';
+import { FxRateRepositoryMock } from '../../src/services/fx/mock/FxRateRepositoryMock';
+import { EcbFxRateProvider } from '../../src/services/fx/providers/EcbFxRateProvider';
+import type { IFxRateProvider } from '../../src/services/fx/providers/IFxRateProvider';
+import { FxErrorCode, FxRate } from '../../src/services/fx/types/FxTypes';
+import { FxRateTable } from '../../src/services/fx/utils/FxRateTable';
+import { stubFxProvider } from '../helpers/marketDataStubs';
+
+const CURRENCIES = ['CHF', 'EUR', 'USD', 'GBP'];
+
+const rate = (base: string, quote: string, value: number, asOf: string, source = 'ECB'): FxRate => ({
+  baseCurrency: base,
+  quoteCurrency: quote,
+  rate: value,
+  source,
+  asOf: new Date(asOf),
+});
+
+describe('FxRateTable', () => {
+  const table = new FxRateTable(CURRENCIES, [
+    rate('EUR', 'USD', 1.2, '2026-10-15T00:00:00Z'),
+    rate('EUR', 'CHF', 0.96, '2026-10-16T00:00:00Z'),
+  ]);
+
+  it('resolves direct, inverse and cross rates', () => {
+    expect(table.getRate('EUR', 'USD').rate).toBe(1.2);
+    expect(table.getRate('usd', 'eur').rate).toBeCloseTo(1 / 1.2, 10);
+
+    const cross = table.getRate('CHF', 'USD');
+    expect(cross.rate).toBeCloseTo(1.25, 10);
+    expect(cross.path).toEqual(['EUR/CHF', 'EUR/USD']);
+    expect(cross.asOf).toEqual(new Date('2026-10-15T00:00:00Z'));
+    expect(table.convert(100, 'CHF', 'USD')).toBe(125);
+    expect(table.convert(99.99, 'CHF', 'CHF')).toBe(99.99);
+  });
+
+  it('rejects invalid, unsupported and unquoted currencies', () => {
+    expect(() => table.getRate('EURO', 'USD')).toThrow(expect.objectContaining({ code: FxErrorCode.VALIDATION_ERROR }));
+    expect(() => table.getRate('JPY', 'USD')).toThrow(expect.objectContaining({ code: FxErrorCode.UNSUPPORTED_CURRENCY }));
+    expect(() => table.getRate('GBP', 'USD')).toThrow(expect.objectContaining({ code: FxErrorCode.RATE_UNAVAILABLE }));
+  });
+});
+
+describe('FxServiceImpl', () => {
+  it('converts with the latest rate at or before asOf', async () => {
+    const repository = new FxRateRepositoryMock();
+    await repository.saveRates([
+      rate('EUR', 'USD', 1.1, '2026-10-01T00:00:00Z'),
+      rate('EUR', 'USD', 1.2, '2026-10-15T00:00:00Z'),
+    ]);
+    const service = new FxServiceImpl(repository, []);
+
+    const latest = await service.convert(100, 'EUR', 'USD');
+    expect(latest).toMatchObject({ from: 'EUR', to: 'USD', rate: 1.2, convertedAmount: 120, source: 'ECB' });
+
+    const historical = await service.convert(100, 'EUR', 'USD', new Date('2026-10-10T00:00:00Z'));
+    expect(historical.convertedAmount).toBe(110);
+
+    await expect(service.convert(100, 'EUR', 'USD', new Date('2026-09-01T00:00:00Z')))
+      .rejects.toMatchObject({ code: FxErrorCode.RATE_UNAVAILABLE });
+  });
+
+  it('stores rates from the first provider by priority that returns any', async () => {
+    const repository = new FxRateRepositoryMock();
+    const failing = stubFxProvider('Primary', 1, async () => {
+      throw new Error('HTTP 503: Service Unavailable');
+    });
+    const fallback = stubFxProvider('Fallback', 2, async currencies => currencies
+      .filter(code => code !== 'EUR')
+      .map(code => rate('EUR', code, 2, '2026-10-16T00:00:00Z', 'Fallback')));
+    const service = new FxServiceImpl(repository, [fallback, failing]);
+
+    const result = await service.updateRatesFromProviders();
+
+    expect(result).toMatchObject({ success: true, provider: 'Fallback', savedRates: 5 });
+    expect(result.errors).toEqual(['Primary: HTTP 503: Service Unavailable']);
+
+    const again = await service.updateRatesFromProviders();
+    expect(again.savedRates).toBe(0);
+  });
+});
+
+describe('EcbFxRateProvider', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('parses the daily reference rates for the requested currencies', async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <gesmes:Envelope><Cube><Cube time='2026-10-16'>
+        <Cube currency='USD' rate='1.1697'/>
+        <Cube currency='JPY' rate='176.12'/>
+        <Cube currency='CHF' rate='0.9312'/>
+      </Cube></Cube></gesmes:Envelope>`;
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(xml, { status: 200 }));
+
+    const rates = await new EcbFxRateProvider().fetchRates(['EUR', 'USD', 'CHF']);
+
+    expect(rates).toEqual([
+      rate('EUR', 'USD', 1.1697, '2026-10-16T00:00:00Z'),
+      rate('EUR', 'CHF', 0.9312, '2026-10-16T00:00:00Z'),
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Login Lockout Unit Tests
+ */
+
+import bcrypt from 'bcrypt';
+import { AuthServiceImpl } from '../../src/services/auth/impl/AuthServiceImpl';
+import { AuthRepositoryMock } from '../../src/services/auth/mock/AuthRepositoryMock';
+import { AuthErrorCode, AuthUserRecord, LoginProtectionConfig } from '../../src/services/auth/types';
+import { LoginAttemptGuard } from '../../src/services/auth/utils/LoginAttemptGuard';
+import { EmailServiceMock } from '../../src/services/email/mock/EmailServiceMock';
+
+describe('Login lockout', () => {
+  const password = 'SecurePassword123';
+  const config: LoginProtectionConfig = {
+    failureWindowMinutes: 15,
+    baseDelaySeconds: 1,
+    maxDelaySeconds: 30,
+    accountDelayAfter: 2,
+    accountLockAfter: 4,
+    lockDurationMinutes: 15,
+    ipDelayAfter: 3,
+    ipBlockAfter: 5,
+    twoFactorDelayAfter: 3,
+    twoFactorBlockAfter: 5,
+  };
+  let now: number;
+  let nowSpy: jest.SpyInstance<number, []>;
+  let repository: AuthRepositoryMock;
+  let emailService: EmailServiceMock;
+  let authService: AuthServiceImpl;
+
+  const user: Omit<AuthUserRecord, 'passwordHash'> = {
+    id: 'user-123',
+    email: 'test@goldsphere.vault',
+    firstName: 'Test',
+    lastName: 'User',
+    role: 'user',
+    status: 'active',
+    tokenVersion: 0,
+  };
+
+  const login = (email: string, attemptPassword: string, ipAddress = '203.0.113.7') =>
+    authService.login({ email, password: attemptPassword }, { ipAddress });
+
+  const advanceSeconds = (seconds: number) => {
+    now += seconds * 1000;
+  };
+
+  beforeEach(() => {
+    now = Date.now();
+    nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    repository = new AuthRepositoryMock([{ ...user, passwordHash: bcrypt.hashSync(password, 4) }]);
+    emailService = new EmailServiceMock();
+    authService = new AuthServiceImpl(
+      repository,
+      'test-jwt-secret',
+      '15m',
+      30,
+      new LoginAttemptGuard(repository, config, emailService)
+    );
+  });
+
+  afterEach(() => {
+    nowSpy.mockRestore();
+  });
+
+  it('delays further attempts progressively after repeated failures', async () => {
+    await login(user.email, 'WrongPassword1');
+    await login(user.email, 'WrongPassword1');
+
+    const delayed = await login(user.email, password);
+    expect(delayed.error).toMatchObject({ code: AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS, retryAfterSeconds: 1 });
+
+    advanceSeconds(1);
+    expect((await login(user.email, 'WrongPassword1')).error?.code).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+    expect((await login(user.email, password)).error?.retryAfterSeconds).toBe(2);
+  });
+
+  it('delays unknown email addresses like existing accounts', async () => {
+    await login('unknown@goldsphere.vault', 'WrongPassword1');
+    await login('unknown@goldsphere.vault', 'WrongPassword1');
+
+    expect((await login('Unknown@goldsphere.vault', 'WrongPassword1')).error?.code)
+      .toBe(AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS);
+  });
+
+  it('resets the account counter after a successful login', async () => {
+    await login(user.email, 'WrongPassword1');
+    expect((await login(user.email, password)).success).toBe(true);
+
+    await login(user.email, 'WrongPassword1');
+    expect((await login(user.email, password)).success).toBe(true);
+  });
+
+  it('locks the account temporarily, notifies the user and unlocks automatically', async () => {
+    for (let attempt = 0; attempt < config.accountLockAfter; attempt++) {
+      advanceSeconds(config.maxDelaySeconds);
+      await login(user.email, 'WrongPassword1');
+    }
+
+    advanceSeconds(config.maxDelaySeconds);
+    const locked = await login(user.email, password);
+    expect(locked.error?.code).toBe(AuthErrorCode.ACCOUNT_LOCKED);
+    expect(locked.error?.retryAfterSeconds).toBe(config.lockDurationMinutes * 60 - config.maxDelaySeconds);
+    expect((await repository.findUserById(user.id))?.status).toBe('suspended');
+    expect(emailService.getSentAccountLocks()).toHaveLength(1);
+    expect(emailService.getSentAccountLocks()[0]).toMatchObject({
+      email: user.email,
+      lock: { failedAttempts: config.accountLockAfter, ipAddress: '203.0.113.7' },
+    });
+
+    advanceSeconds(config.lockDurationMinutes * 60 - config.maxDelaySeconds);
+    expect((await login(user.email, password)).success).toBe(true);
+    expect((await repository.findUserById(user.id))?.status).toBe('active');
+  });
+
+  it('answers wrong passwords for a locked account like an unknown email', async () => {
+    const failures = [];
+    for (let attempt = 0; attempt < config.accountLockAfter; attempt++) {
+      advanceSeconds(config.maxDelaySeconds);
+      failures.push(await login(user.email, 'WrongPassword1'));
+    }
+    advanceSeconds(config.maxDelaySeconds);
+    failures.push(await login(user.email, 'WrongPassword1', '198.51.100.2'));
+
+    advanceSeconds(config.maxDelaySeconds);
+    const unknown = await login('unknown@goldsphere.vault', 'WrongPassword1', '198.51.100.1');
+    expect(failures.map(failure => failure.error)).toEqual(failures.map(() => unknown.error));
+    expect((await login(user.email, password)).error?.code).toBe(AuthErrorCode.ACCOUNT_LOCKED);
+    expect(emailService.getSentAccountLocks()).toHaveLength(1);
+  });
+
+  it('does not unlock accounts suspended by an admin', async () => {
+    repository.clear();
+    repository.addUser({ ...user, status: 'suspended', passwordHash: bcrypt.hashSync(password, 4) });
+
+    expect((await login(user.email, password)).error).toEqual({
+      code: AuthErrorCode.ACCOUNT_LOCKED,
+      message: 'Account is not active',
+    });
+  });
+
+  it('throttles an IP across accounts without affecting other IPs', async () => {
+    await login('a@goldsphere.vault', 'WrongPassword1');
+    await login('b@goldsphere.vault', 'WrongPassword1');
+    await login('c@goldsphere.vault', 'WrongPassword1');
+
+    expect((await login(user.email, password)).error?.code).toBe(AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS);
+    expect((await login(user.email, password, '198.51.100.1')).success).toBe(true);
+
+    advanceSeconds(1);
+    await login('d@goldsphere.vault', 'WrongPassword1');
+    advanceSeconds(2);
+    await login('e@goldsphere.vault', 'WrongPassword1');
+    expect((await login(user.email, password)).error?.retryAfterSeconds).toBe(config.lockDurationMinutes * 60);
+  });
+});
@@ -0,0 +1,90 @@
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import type { IMarketDataProvider } from '../../src/services/market-data/providers/IMarketDataProvider';
+import type { PriceData } from '../../src/services/market-data/types/MarketDataTypes';
+import {
+  getCandleBucketStart,
+  shiftCandleBucket,
+} from '../../src/services/market-data/utils/CandleAggregator';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService, spotPriceProvider } from '../helpers/marketDataStubs';
+
+const goldPrice = (price: number): PriceData => ({
+  metalId: 'metal-au-id',
+  providerId: 'provider-six-swiss',
+  price,
+  currency: 'USD',
+});
+
+describe('CandleAggregator', () => {
+  const timestamp = new Date('2026-10-15T13:45:10Z'); // Thursday
+
+  it('computes UTC bucket starts per interval', () => {
+    expect(getCandleBucketStart(timestamp, '1h')).toEqual(new Date('2026-10-15T13:00:00Z'));
+    expect(getCandleBucketStart(timestamp, '1d')).toEqual(new Date('2026-10-15T00:00:00Z'));
+    expect(getCandleBucketStart(timestamp, '1w')).toEqual(new Date('2026-10-12T00:00:00Z'));
+    expect(getCandleBucketStart(new Date('2026-10-18T23:59:59Z'), '1w')).toEqual(new Date('2026-10-12T00:00:00Z'));
+    expect(getCandleBucketStart(timestamp, '1M')).toEqual(new Date('2026-10-01T00:00:00Z'));
+  });
+
+  it('shifts buckets by whole intervals', () => {
+    expect(shiftCandleBucket(new Date('2026-10-12T00:00:00Z'), '1w', -2)).toEqual(new Date('2026-09-28T00:00:00Z'));
+    expect(shiftCandleBucket(new Date('2026-01-01T00:00:00Z'), '1M', -3)).toEqual(new Date('2025-10-01T00:00:00Z'));
+  });
+});
+
+describe('MarketDataRepositoryMock candles', () => {
+  it('keeps open and close by tick time when prices arrive out of order', async () => {
+    const repository = new MarketDataRepositoryMock();
+    await repository.upsertCandles(goldPrice(2010), new Date('2026-10-15T13:30:00Z'));
+    await repository.upsertCandles(goldPrice(2000), new Date('2026-10-15T13:05:00Z'));
+    await repository.upsertCandles(goldPrice(2025), new Date('2026-10-15T13:50:00Z'));
+    await repository.upsertCandles(goldPrice(1990), new Date('2026-10-15T13:20:00Z'));
+    await repository.upsertCandles(goldPrice(2030), new Date('2026-10-15T14:10:00Z'));
+
+    const hourly = await repository.getCandles(
+      'metal-au-id', '1h', new Date('2026-10-15T00:00:00Z'), new Date('2026-10-16T00:00:00Z'), 'USD', 10
+    );
+    expect(hourly.map(c => c.bucketStart)).toEqual([
+      new Date('2026-10-15T14:00:00Z'),
+      new Date('2026-10-15T13:00:00Z'),
+    ]);
+    expect(hourly[1]).toMatchObject({ metalSymbol: 'AU', open: 2000, high: 2025, low: 1990, close: 2025, tickCount: 4 });
+
+    const daily = await repository.getCandles(
+      'metal-au-id', '1d', new Date('2026-10-15T00:00:00Z'), new Date('2026-10-16T00:00:00Z'), 'USD', 10
+    );
+    expect(daily).toHaveLength(1);
+    expect(daily[0]).toMatchObject({ open: 2000, high: 2030, low: 1990, close: 2030, tickCount: 5 });
+  });
+});
+
+describe('MarketDataServiceImpl candles', () => {
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('builds candles while saving prices and serves them by interval', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-15T13:05:00Z') });
+    const repository = new MarketDataRepositoryMock();
+
+    await new MarketDataServiceImpl(repository, [spotPriceProvider({ AU: 2000, AG: 25 })], referenceService).updatePricesFromApi();
+    jest.setSystemTime(new Date('2026-10-15T15:40:00Z'));
+    await new MarketDataServiceImpl(repository, [spotPriceProvider({ AU: 2050 })], referenceService).updatePricesFromApi();
+
+    const service = new MarketDataServiceImpl(repository, [], referenceService);
+
+    const hourly = await service.getPriceCandles({ metalSymbol: 'AU', interval: '1h', limit: 24 });
+    expect(hourly.map(c => [c.open, c.close])).toEqual([[2050, 2050], [2000, 2000]]);
+
+    const daily = await service.getPriceCandles({ metalSymbol: 'AU', interval: '1d' });
+    expect(daily).toHaveLength(1);
+    expect(daily[0]).toMatchObject({ open: 2000, high: 2050, low: 2000, close: 2050, tickCount: 2 });
+
+    // Default range covers exactly `limit` hours back from now
+    const lastTwoHours = await service.getPriceCandles({ metalSymbol: 'AU', interval: '1h', limit: 2 });
+    expect(lastTwoHours).toHaveLength(1);
+    expect(lastTwoHours[0].bucketStart).toEqual(new Date('2026-10-15T15:00:00Z'));
+  });
+});
@@ -0,0 +1,120 @@
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import type { IMarketDataProvider } from '../../src/services/market-data/providers/IMarketDataProvider';
+import {
+  CONSENSUS_PROVIDER_NAME,
+  MetalPrice,
+} from '../../src/services/market-data/types/MarketDataTypes';
+import { computeConsensus } from '../../src/services/market-data/utils/ConsensusPricer';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService, stubProvider } from '../helpers/marketDataStubs';
+
+const quotes = (prices: Record<string, number>) => async (): Promise<MetalPrice[]> =>
+  Object.entries(prices).map(([symbol, price]) => ({ symbol, price, currency: 'USD', timestamp: new Date() }));
+
+const contributor = (providerName: string, price: number, weight = 1) =>
+  ({ providerId: `id-${providerName}`, providerName, price, weight });
+
+describe('computeConsensus', () => {
+  it('takes the median and averages the middle quotes for an even count', () => {
+    const odd = computeConsensus([contributor('A', 2010), contributor('B', 2000), contributor('C', 2100)], 'median', 1);
+    expect(odd.price).toBe(2010);
+    expect(odd.consensus).toMatchObject({ method: 'median', spreadPercent: 4.9751, disputed: true });
+
+    const even = computeConsensus([contributor('A', 2000), contributor('B', 2010)], 'median', 0.5);
+    expect(even.price).toBe(2005);
+    expect(even.consensus).toMatchObject({ spreadPercent: 0.4988, disputed: false });
+  });
+
+  it('weights quotes and only aggregates bid/ask when every provider quoted them', () => {
+    const weighted = computeConsensus(
+      [{ ...contributor('A', 2000, 3), bid: 1999, ask: 2001 }, { ...contributor('B', 2010), bid: 2009, ask: 2011 }],
+      'weighted',
+      0.5
+    );
+    expect(weighted).toMatchObject({ price: 2002.5, bid: 2001.5, ask: 2003.5 });
+
+    const partial = computeConsensus([{ ...contributor('A', 2000), bid: 1999, ask: 2001 }, contributor('B', 2010)], 'weighted', 0.5);
+    expect(partial.bid).toBeUndefined();
+    expect(partial.ask).toBeUndefined();
+  });
+});
+
+describe('MarketDataServiceImpl consensus pricing', () => {
+  let repository: MarketDataRepositoryMock;
+
+  beforeEach(() => {
+    repository = new MarketDataRepositoryMock();
+    repository.clearAll();
+    repository.addMockProvider({
+      id: 'provider-consensus',
+      name: CONSENSUS_PROVIDER_NAME,
+      apiKeyEnvVar: 'NONE',
+      baseUrl: 'internal://consensus',
+      isActive: true,
+      rateLimitPerMinute: 0,
+      priority: 0,
+      failureCount: 0,
+    });
+    repository.addMockProvider({
+      id: 'provider-gold-api',
+      name: 'Gold-API',
+      apiKeyEnvVar: 'GOLD_API_KEY',
+      baseUrl: 'https://api.gold-api.com',
+      isActive: true,
+      rateLimitPerMinute: 60,
+      priority: 2,
+      failureCount: 0,
+    });
+  });
+
+  it('stores the median of all providers with its contributors and flags disputed metals', async () => {
+    const service = new MarketDataServiceImpl(
+      repository,
+      [
+        stubProvider('SIX-Swiss-Exchange', 1, quotes({ AU: 2000, AG: 25 })),
+        stubProvider('Gold-API', 2, quotes({ AU: 2010, AG: 25.5 })),
+      ],
+      referenceService,
+      { consensusConfig: { mode: 'median', maxSpreadPercent: 0.5, providerWeights: {} } }
+    );
+
+    const result = await service.updatePricesFromApi();
+    expect(result).toMatchObject({ success: true, provider: CONSENSUS_PROVIDER_NAME, disputedMetals: ['AG'], errors: [] });
+    expect([...result.updatedMetals].sort()).toEqual(['AG', 'AU']);
+
+    const gold = await repository.getCurrentPrice('metal-au-id', 'USD');
+    expect(gold).toMatchObject({
+      providerId: 'provider-consensus',
+      pricePerTroyOz: 2005,
+      consensus: {
+        method: 'median',
+        spreadPercent: 0.4988,
+        disputed: false,
+        contributors: [
+          { providerId: 'provider-six-swiss', providerName: 'SIX-Swiss-Exchange', price: 2000, weight: 1 },
+          { providerId: 'provider-gold-api', providerName: 'Gold-API', price: 2010, weight: 1 },
+        ],
+      },
+    });
+    expect((await repository.getCurrentPrice('metal-ag-id', 'USD'))?.consensus).toMatchObject({ disputed: true });
+  });
+
+  it('computes a weighted consensus from the providers that answered', async () => {
+    const service = new MarketDataServiceImpl(
+      repository,
+      [
+        stubProvider('SIX-Swiss-Exchange', 1, quotes({ AU: 2000 })),
+        stubProvider('Gold-API', 2, quotes({ AU: 2010 })),
+        stubProvider('Broken', 3, async () => { throw new Error('HTTP 503'); }),
+      ],
+      referenceService,
+      { consensusConfig: { mode: 'weighted', maxSpreadPercent: 0.5, providerWeights: { 'SIX-Swiss-Exchange': 3 } } }
+    );
+
+    const result = await service.updatePricesFromApi();
+    expect(result).toMatchObject({ success: true, updatedMetals: ['AU'], disputedMetals: [] });
+    expect(result.errors).toEqual(['Broken: Provider Broken not found in database']);
+    expect((await repository.getCurrentPrice('metal-au-id', 'USD'))?.pricePerTroyOz).toBe(2002.5);
+  });
+});
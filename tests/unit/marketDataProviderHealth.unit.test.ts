@@ -0,0 +1,125 @@
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import type { IMarketDataProvider } from '../../src/services/market-data/providers/IMarketDataProvider';
+import { DEFAULT_PROVIDER_HEALTH_CONFIG, MetalPrice } from '../../src/services/market-data/types/MarketDataTypes';
+import { checkQuoteSanity } from '../../src/services/market-data/utils/PriceSanityChecker';
+import { getCircuitStatus } from '../../src/services/market-data/utils/ProviderCircuitBreaker';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService, stubProvider } from '../helpers/marketDataStubs';
+
+const NOW = new Date('2026-10-15T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60_000);
+
+const quote = (symbol: string, price: number, extra: Partial<MetalPrice> = {}): MetalPrice => ({
+  symbol,
+  price,
+  currency: 'USD',
+  timestamp: new Date(),
+  ...extra,
+});
+
+describe('getCircuitStatus', () => {
+  const config = { failureThreshold: 3, cooldownMinutes: 15 };
+
+  it('opens after the failure threshold and half-opens after the cooldown', () => {
+    expect(getCircuitStatus({ failureCount: 2, lastFailure: minutesAgo(1) }, config, NOW).state).toBe('closed');
+    expect(getCircuitStatus({ failureCount: 3, lastFailure: minutesAgo(5) }, config, NOW))
+      .toEqual({ state: 'open', openUntil: new Date('2026-10-15T12:10:00Z') });
+    expect(getCircuitStatus({ failureCount: 3, lastFailure: minutesAgo(20) }, config, NOW).state).toBe('half_open');
+  });
+});
+
+describe('checkQuoteSanity', () => {
+  const config = { maxDeviationPercent: 10, referenceMaxAgeHours: 24 };
+  const reference = { price: 2000, timestamp: minutesAgo(5) };
+
+  it('rejects invalid prices, crossed quotes and large moves against a recent reference', () => {
+    expect(checkQuoteSanity({ price: 0 }, reference, config, NOW)).toEqual({ accepted: false, reason: 'invalid_price' });
+    expect(checkQuoteSanity({ price: 2000, bid: 2001, ask: 1999 }, reference, config, NOW))
+      .toEqual({ accepted: false, reason: 'bid_above_ask' });
+    expect(checkQuoteSanity({ price: 2300 }, reference, config, NOW))
+      .toEqual({ accepted: false, reason: 'price_deviation', deviationPercent: 15 });
+    expect(checkQuoteSanity({ price: 2100 }, reference, config, NOW)).toEqual({ accepted: true, deviationPercent: 5 });
+  });
+
+  it('ignores a stale reference price', () => {
+    const stale = { price: 2000, timestamp: minutesAgo(25 * 60) };
+    expect(checkQuoteSanity({ price: 2300 }, stale, config, NOW)).toEqual({ accepted: true });
+  });
+});
+
+describe('MarketDataServiceImpl provider health', () => {
+  let repository: MarketDataRepositoryMock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    repository = new MarketDataRepositoryMock();
+    repository.clearAll();
+    repository.addMockProvider({
+      id: 'provider-gold-api',
+      name: 'Gold-API',
+      apiKeyEnvVar: 'GOLD_API_KEY',
+      baseUrl: 'https://api.gold-api.com',
+      isActive: true,
+      rateLimitPerMinute: 60,
+      priority: 2,
+      failureCount: 0,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('skips a provider with an open circuit and probes it again after the cooldown', async () => {
+    let primaryUp = false;
+    const primary = stubProvider('SIX-Swiss-Exchange', 1, async () => {
+      if (!primaryUp) {
+        throw new Error('HTTP 503');
+      }
+      return [quote('AU', 2010)];
+    });
+    const fallback = stubProvider('Gold-API', 2, async () => [quote('AU', 2000)]);
+    const service = new MarketDataServiceImpl(repository, [primary, fallback], referenceService);
+
+    for (let run = 0; run < DEFAULT_PROVIDER_HEALTH_CONFIG.failureThreshold; run++) {
+      expect(await service.updatePricesFromApi()).toMatchObject({ success: true, provider: 'Gold-API' });
+    }
+
+    const skipped = await service.updatePricesFromApi();
+    expect(skipped).toMatchObject({ provider: 'Gold-API', skippedProviders: ['SIX-Swiss-Exchange'], errors: [] });
+
+    const [six] = await service.getProviderStatus();
+    expect(six).toMatchObject({ name: 'SIX-Swiss-Exchange', failureCount: 3, circuitState: 'open' });
+
+    jest.setSystemTime(new Date(NOW.getTime() + 16 * 60_000));
+    primaryUp = true;
+    expect(await service.updatePricesFromApi()).toMatchObject({ provider: 'SIX-Swiss-Exchange', skippedProviders: [] });
+
+    const [recovered] = await service.getProviderStatus();
+    expect(recovered).toMatchObject({ failureCount: 0, circuitState: 'closed' });
+  });
+
+  it('quarantines suspicious quotes and reports them per provider', async () => {
+    const prices: MetalPrice[][] = [
+      [quote('AU', 2000), quote('AG', 25)],
+      [quote('AU', 2600), quote('AG', 25.2, { bid: 25.3, ask: 25.1 })],
+    ];
+    const provider = stubProvider('SIX-Swiss-Exchange', 1, async () => prices.shift() ?? []);
+    const service = new MarketDataServiceImpl(repository, [provider], referenceService);
+
+    await service.updatePricesFromApi();
+    const result = await service.updatePricesFromApi();
+
+    expect(result).toMatchObject({ success: false, quarantinedQuotes: 2 });
+    expect(result.errors).toEqual(['SIX-Swiss-Exchange: All 2 quotes failed the sanity checks']);
+    expect(repository.getQuarantinedQuotes().map(q => [q.reason, q.referencePrice, q.deviationPercent])).toEqual([
+      ['price_deviation', 2000, 30],
+      ['bid_above_ask', 25, undefined],
+    ]);
+    expect((await repository.getCurrentPrice('metal-au-id', 'USD'))?.pricePerTroyOz).toBe(2000);
+
+    const [six] = await service.getProviderStatus();
+    expect(six).toMatchObject({ rejectedQuoteCount: 2, lastRejectedAt: NOW, failureCount: 1 });
+  });
+});
@@ -0,0 +1,99 @@
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { MarketDataScheduler } from '../../src/services/market-data/marketDataScheduler';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import type { IMarketDataProvider } from '../../src/services/market-data/providers/IMarketDataProvider';
+import {
+  DEFAULT_TRADING_CALENDAR_CONFIG,
+  TradingCalendar,
+  TradingVenue,
+} from '../../src/services/market-data/types/MarketDataTypes';
+import {
+  getMarketStatus,
+  getQuoteFreshness,
+  getVenueSession,
+} from '../../src/services/market-data/utils/TradingCalendar';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService, stubProvider } from '../helpers/marketDataStubs';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const VENUES: TradingVenue[] = [
+  { id: 'venue-lon', code: 'LON', name: 'London Bullion Market', timeZone: 'Europe/London', openTime: '08:00', closeTime: '17:00', tradingDays: WEEKDAYS },
+  { id: 'venue-zrh', code: 'ZRH', name: 'SIX Swiss Exchange', timeZone: 'Europe/Zurich', openTime: '09:00', closeTime: '17:30', tradingDays: WEEKDAYS },
+  { id: 'venue-nyc', code: 'NYC', name: 'COMEX New York', timeZone: 'America/New_York', openTime: '08:20', closeTime: '13:30', tradingDays: WEEKDAYS },
+];
+
+const CALENDAR: TradingCalendar = {
+  venues: VENUES,
+  holidays: [
+    { venueCode: 'LON', date: '2026-12-24', name: 'Christmas Eve', earlyCloseTime: '12:30' },
+    { venueCode: 'ZRH', date: '2026-12-24', name: 'Christmas Eve' },
+  ],
+};
+
+describe('TradingCalendar', () => {
+  it('applies each venue time zone including daylight saving time', () => {
+    expect(getVenueSession(VENUES[0], [], '2026-10-23')?.openAt).toEqual(new Date('2026-10-23T07:00:00Z'));
+    expect(getVenueSession(VENUES[0], [], '2026-10-26')?.openAt).toEqual(new Date('2026-10-26T08:00:00Z'));
+    expect(getVenueSession(VENUES[2], [], '2026-10-26')?.closeAt).toEqual(new Date('2026-10-26T17:30:00Z'));
+    expect(getVenueSession(VENUES[0], [], '2026-10-24')).toBeNull();
+  });
+
+  it('reports open venues, and the last close and next open over the weekend', () => {
+    expect(getMarketStatus(CALENDAR, new Date('2026-10-16T14:00:00Z')))
+      .toEqual({ open: true, openVenues: ['LON', 'ZRH', 'NYC'] });
+
+    expect(getMarketStatus(CALENDAR, new Date('2026-10-17T12:00:00Z'))).toEqual({
+      open: false,
+      openVenues: [],
+      lastCloseAt: new Date('2026-10-16T17:30:00Z'),
+      nextOpenAt: new Date('2026-10-19T07:00:00Z'),
+    });
+  });
+
+  it('honours holidays and early closes', () => {
+    expect(getMarketStatus(CALENDAR, new Date('2026-12-24T13:00:00Z'))).toEqual({
+      open: false,
+      openVenues: [],
+      lastCloseAt: new Date('2026-12-24T12:30:00Z'),
+      nextOpenAt: new Date('2026-12-24T13:20:00Z'),
+    });
+  });
+
+  it('classifies quotes as live, stale or last close', () => {
+    const now = new Date('2026-10-16T14:00:00Z');
+    const open = getMarketStatus(CALENDAR, now);
+    const closed = getMarketStatus(CALENDAR, new Date('2026-10-17T12:00:00Z'));
+
+    expect(getQuoteFreshness(new Date('2026-10-16T13:55:00Z'), open, DEFAULT_TRADING_CALENDAR_CONFIG, now))
+      .toMatchObject({ status: 'live', ageSeconds: 300, marketOpen: true });
+    expect(getQuoteFreshness(new Date('2026-10-16T13:30:00Z'), open, DEFAULT_TRADING_CALENDAR_CONFIG, now).status)
+      .toBe('stale');
+    expect(getQuoteFreshness(new Date('2026-10-16T17:30:00Z'), closed, DEFAULT_TRADING_CALENDAR_CONFIG, new Date('2026-10-17T12:00:00Z')))
+      .toMatchObject({ status: 'last_close', ageSeconds: 66_600, marketOpen: false });
+    expect(getQuoteFreshness(new Date('2026-10-16T17:30:00Z'), closed, { closedMarketMode: 'continuous', staleAfterMinutes: 15 }).status)
+      .toBe('stale');
+  });
+});
+
+describe('MarketDataScheduler with trading calendar', () => {
+  it('polls during sessions, captures the last close once and pauses while closed', async () => {
+    const repository = new MarketDataRepositoryMock();
+    repository.clearAll();
+    VENUES.forEach(venue => repository.addMockTradingVenue(venue));
+
+    const fetchPrices = jest.fn(async () => [{ symbol: 'AU', price: 2000, currency: 'USD', timestamp: new Date() }]);
+    const provider = stubProvider('SIX-Swiss-Exchange', 1, fetchPrices);
+    const service = new MarketDataServiceImpl(repository, [provider], referenceService);
+    const scheduler = new MarketDataScheduler(service);
+
+    await scheduler.runScheduledUpdate(new Date('2026-10-16T17:25:00Z'));
+    await scheduler.runScheduledUpdate(new Date('2026-10-16T17:30:00Z'));
+    await scheduler.runScheduledUpdate(new Date('2026-10-16T17:35:00Z'));
+    await scheduler.runScheduledUpdate(new Date('2026-10-17T12:00:00Z'));
+    expect(fetchPrices).toHaveBeenCalledTimes(2);
+
+    await scheduler.runScheduledUpdate(new Date('2026-10-19T07:00:00Z'));
+    expect(fetchPrices).toHaveBeenCalledTimes(3);
+  });
+});
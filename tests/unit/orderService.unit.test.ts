@@ -0,0 +1,115 @@
+/**
+ * Order Service Unit Tests
+ */
+
+import { OrderServiceImpl } from '../../src/services/order/impl/OrderServiceImpl';
+import { OrderRepositoryMock } from '../../src/services/order/mock/OrderRepositoryMock';
+import { OrderStatusTransitionError } from '../../src/services/order/utils/OrderStatusTransitions';
+import type { IProductService } from '../../src/services/product/IProductService';
+import type { ICalculationService } from '../../src/services/calculation/ICalculationService';
+
+describe('OrderService', () => {
+  const admin = { id: 'admin-001', email: 'admin@goldsphere.vault', role: 'admin' };
+  let orderService: OrderServiceImpl;
+
+  const productService = {
+    enrichOrderItems: async (items: Array<{ productId: string; quantity: number }>) => items.map(item => ({
+      ...item,
+      productName: 'Gold Coin',
+      unitPrice: 100,
+      totalPrice: item.quantity * 100,
+      available: true,
+    })),
+  } as unknown as IProductService;
+
+  const calculationService = {
+    calculateOrderTotal: (items: Array<{ quantity: number; unitPrice: number }>) => {
+      const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+      return { subtotal, fees: { processing: 0, shipping: 0, insurance: 0 }, taxes: 0, totalAmount: subtotal };
+    },
+  } as unknown as ICalculationService;
+
+  beforeEach(() => {
+    orderService = new OrderServiceImpl(new OrderRepositoryMock(), productService, calculationService);
+  });
+
+  describe('payment', () => {
+    it('ships a buy order once its payment succeeded', async () => {
+      await orderService.processOrderWorkflow('order-001', admin);
+      await orderService.processOrderWorkflow('order-001', admin);
+      await expect(orderService.processOrderWorkflow('order-001', admin)).rejects.toThrow(OrderStatusTransitionError);
+
+      expect(await orderService.markOrderPaid('order-001', 'pi_123')).toBe(true);
+
+      expect((await orderService.getOrderById('order-001'))?.paymentStatus).toBe('paid');
+      expect(await orderService.processOrderWorkflow('order-001', admin))
+        .toEqual({ previousStatus: 'processing', newStatus: 'shipped' });
+    });
+
+    it('reports unknown orders', async () => {
+      expect(await orderService.markOrderPaid('order-404', 'pi_123')).toBe(false);
+    });
+  });
+
+  describe('previewOrderTotal', () => {
+    it('totals the order without storing it', async () => {
+      const { orders } = await orderService.getOrdersByUserId('user-001');
+
+      expect(await orderService.previewOrderTotal(
+        { userId: 'user-001', type: 'buy', items: [{ productId: 'prod-001', quantity: 2 }] }
+      )).toMatchObject({ subtotal: 200, totalAmount: 200 });
+      expect((await orderService.getOrdersByUserId('user-001')).orders).toHaveLength(orders.length);
+    });
+  });
+
+  describe('updateOrder', () => {
+    it('changes fields and status together', async () => {
+      await orderService.updateOrder('order-001', { type: 'SELL', status: 'Confirmed' }, admin);
+
+      expect(await orderService.getOrderById('order-001')).toMatchObject({ type: 'sell', status: 'confirmed' });
+    });
+
+    it('leaves the order untouched when the status change is rejected', async () => {
+      await expect(orderService.updateOrder('order-001', { type: 'sell', status: 'completed' }, admin))
+        .rejects.toThrow(OrderStatusTransitionError);
+
+      expect(await orderService.getOrderById('order-001')).toMatchObject({ type: 'buy', status: 'pending' });
+    });
+  });
+
+  describe('status history', () => {
+    it('starts the timeline with the initial pending entry', async () => {
+      const { order } = await orderService.createOrder(
+        { userId: 'user-001', type: 'buy', items: [{ productId: 'prod-001', quantity: 1 }] },
+        admin
+      );
+
+      expect(await orderService.getOrderStatusHistory(order.id)).toEqual([
+        expect.objectContaining({
+          previousStatus: null,
+          newStatus: 'pending',
+          changedBy: { id: admin.id, email: admin.email },
+        }),
+      ]);
+    });
+
+    it('appends workflow steps and the cancellation reason in order', async () => {
+      await orderService.processOrderWorkflow('order-001', admin);
+      await orderService.updateOrderStatus('order-001', 'cancelled', admin, 'Customer request');
+
+      const history = await orderService.getOrderStatusHistory('order-001');
+      expect(history.map(entry => [entry.previousStatus, entry.newStatus, entry.reason])).toEqual([
+        ['pending', 'confirmed', null],
+        ['confirmed', 'cancelled', 'Customer request'],
+      ]);
+    });
+
+    it('writes no entry for a rejected transition', async () => {
+      await expect(orderService.updateOrderStatus('order-002', 'completed', admin)).rejects.toThrow(
+        OrderStatusTransitionError
+      );
+
+      expect(await orderService.getOrderStatusHistory('order-002')).toEqual([]);
+    });
+  });
+});
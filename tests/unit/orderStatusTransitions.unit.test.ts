@@ -0,0 +1,58 @@
+import {
+  assertStatusTransition,
+  getAllowedNextStatuses,
+  getNextWorkflowStatus,
+  OrderStatusTransitionError,
+} from '../../src/services/order/utils/OrderStatusTransitions';
+
+describe('Order status transitions', () => {
+  const paidBuy = { orderType: 'buy', paymentStatus: 'paid' };
+  const unpaidBuy = { orderType: 'buy', paymentStatus: 'pending' };
+
+  it('walks the workflow from pending to completed', () => {
+    const visited: string[] = [];
+    let status = 'pending';
+
+    while (status !== 'completed') {
+      status = getNextWorkflowStatus(status, paidBuy);
+      visited.push(status);
+    }
+
+    expect(visited).toEqual(['confirmed', 'processing', 'shipped', 'delivered', 'completed']);
+  });
+
+  it('rejects moving a completed order back to pending', () => {
+    expect(() => assertStatusTransition('completed', 'pending', paidBuy)).toThrow(OrderStatusTransitionError);
+  });
+
+  it('blocks shipping an unpaid buy order and names the allowed next states', () => {
+    let caught: unknown;
+    try {
+      getNextWorkflowStatus('processing', unpaidBuy);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(OrderStatusTransitionError);
+    const transitionError = caught as OrderStatusTransitionError;
+    expect(transitionError.code).toBe('ORDER_INVALID_STATUS_TRANSITION');
+    expect(transitionError.requestedStatus).toBe('shipped');
+    expect(transitionError.allowedNextStatuses).toEqual(['cancelled']);
+    expect(transitionError.reason).toContain("payment_status is 'paid'");
+  });
+
+  it('does not require payment to ship sell orders', () => {
+    expect(getNextWorkflowStatus('processing', { orderType: 'sell', paymentStatus: 'pending' })).toBe('shipped');
+  });
+
+  it('allows cancellation only before shipping', () => {
+    expect(getAllowedNextStatuses('confirmed', paidBuy)).toContain('cancelled');
+    expect(getAllowedNextStatuses('shipped', paidBuy)).toEqual(['delivered']);
+    expect(() => assertStatusTransition('shipped', 'cancelled', paidBuy)).toThrow(OrderStatusTransitionError);
+  });
+
+  it('reports no next states for terminal orders', () => {
+    expect(() => getNextWorkflowStatus('cancelled')).toThrow(OrderStatusTransitionError);
+    expect(getAllowedNextStatuses('cancelled')).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Password Management Service Unit Tests
+ */
+
+import bcrypt from 'bcrypt';
+import { AuthServiceImpl } from '../../src/services/auth/impl/AuthServiceImpl';
+import { PasswordManagementServiceImpl } from '../../src/services/auth/impl/PasswordManagementServiceImpl';
+import { AuthRepositoryMock } from '../../src/services/auth/mock/AuthRepositoryMock';
+import { AuthErrorCode } from '../../src/services/auth/types';
+import { EmailServiceMock } from '../../src/services/email/mock/EmailServiceMock';
+
+describe('PasswordManagementService', () => {
+  const email = 'test@goldsphere.vault';
+  const currentPassword = 'SecurePassword123';
+  const newPassword = 'NewSecurePassword456';
+  let repository: AuthRepositoryMock;
+  let emailService: EmailServiceMock;
+  let service: PasswordManagementServiceImpl;
+
+  beforeEach(() => {
+    repository = new AuthRepositoryMock([{
+      id: 'user-123',
+      email,
+      passwordHash: bcrypt.hashSync(currentPassword, 4),
+      firstName: 'Test',
+      lastName: 'User',
+      role: 'user',
+      status: 'active',
+      tokenVersion: 0,
+    }]);
+    emailService = new EmailServiceMock();
+    service = new PasswordManagementServiceImpl(repository, emailService, { resetTokenTtlMinutes: 30 });
+  });
+
+  const requestResetToken = async (): Promise<string> => {
+    await service.requestPasswordReset(email);
+    return emailService.getSentPasswordResets()[0].token;
+  };
+
+  it('succeeds without sending an email for unknown addresses', async () => {
+    const result = await service.requestPasswordReset('unknown@goldsphere.vault');
+
+    expect(result.success).toBe(true);
+    expect(emailService.getSentPasswordResets()).toHaveLength(0);
+  });
+
+  it('resets the password once with the mailed token and revokes issued tokens', async () => {
+    const token = await requestResetToken();
+    expect(emailService.getSentPasswordResets()[0]).toMatchObject({ email, expiresInMinutes: 30 });
+
+    const result = await service.resetPassword(token, newPassword);
+
+    expect(result.success).toBe(true);
+    const user = await repository.findUserByEmail(email);
+    expect(user?.tokenVersion).toBe(1);
+    expect(await bcrypt.compare(newPassword, user!.passwordHash)).toBe(true);
+    expect((await service.resetPassword(token, newPassword)).error?.code).toBe(AuthErrorCode.RESET_TOKEN_INVALID);
+  });
+
+  it('rejects expired, superseded and unknown reset tokens', async () => {
+    const supersededToken = await requestResetToken();
+    await service.requestPasswordReset(email);
+
+    expect((await service.resetPassword(supersededToken, newPassword)).error?.code).toBe(AuthErrorCode.RESET_TOKEN_INVALID);
+    expect((await service.resetPassword('a'.repeat(64), newPassword)).error?.code).toBe(AuthErrorCode.RESET_TOKEN_INVALID);
+    expect((await service.resetPassword('not-a-token', newPassword)).error?.code).toBe(AuthErrorCode.VALIDATION_ERROR);
+
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 31 * 60 * 1000);
+    try {
+      const expiredToken = emailService.getSentPasswordResets()[1].token;
+      expect((await service.resetPassword(expiredToken, newPassword)).error?.code).toBe(AuthErrorCode.RESET_TOKEN_INVALID);
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('changes the password only with the correct current password', async () => {
+    const rejected = await service.changePassword('user-123', 'WrongPassword1', newPassword);
+    expect(rejected.error?.code).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+
+    const weak = await service.changePassword('user-123', currentPassword, 'short');
+    expect(weak.error?.code).toBe(AuthErrorCode.VALIDATION_ERROR);
+
+    const result = await service.changePassword('user-123', currentPassword, newPassword);
+    expect(result.success).toBe(true);
+    expect((await repository.findUserById('user-123'))?.tokenVersion).toBe(1);
+  });
+
+  it('rejects JWTs issued before the password change', async () => {
+    const authService = new AuthServiceImpl(repository, 'test-jwt-secret', '1h');
+    const login = await authService.login({ email, password: currentPassword });
+    const accessToken = login.data!.data.accessToken;
+    expect((await authService.validateToken(accessToken)).success).toBe(true);
+
+    await service.changePassword('user-123', currentPassword, newPassword);
+
+    const validation = await authService.validateToken(accessToken);
+    expect(validation.error).toEqual({ code: AuthErrorCode.TOKEN_INVALID, message: 'Token has been revoked' });
+  });
+});
@@ -0,0 +1,186 @@
+import { FxRateTable } from '../../src/services/fx/utils/FxRateTable';
+import {
+  aggregateByMetal,
+  aggregatePortfolio,
+  valuePosition,
+  valuePositionsInCurrency,
+} from '../../src/services/portfolio/utils/PortfolioValuationCalculator';
+import {
+  buildPerformanceDates,
+  calculatePerformanceSeries,
+} from '../../src/services/portfolio/utils/PortfolioPerformanceCalculator';
+import {
+  PerformanceTransaction,
+  ValuationPositionInput,
+} from '../../src/services/portfolio/types/PortfolioValuationTypes';
+
+const goldCoin: ValuationPositionInput = {
+  positionId: 'pos-gold-1',
+  productId: 'prod-gold-coin',
+  productName: 'Gold Coin 1oz',
+  metalSymbol: 'XAU',
+  metalName: 'Gold',
+  weight: 1,
+  weightUnit: 'troy_ounces',
+  purity: 1,
+  quantity: 2,
+  purchasePrice: 1800,
+  storedMarketPrice: 1800,
+  currency: 'USD',
+};
+
+const goldBar: ValuationPositionInput = {
+  ...goldCoin,
+  positionId: 'pos-gold-2',
+  productId: 'prod-gold-bar',
+  productName: 'Gold Bar 1kg',
+  weight: 1,
+  weightUnit: 'kilograms',
+  purity: 0.5,
+  quantity: 1,
+  purchasePrice: 30000,
+  storedMarketPrice: 30000,
+};
+
+const silverCoin: ValuationPositionInput = {
+  positionId: 'pos-silver-1',
+  productId: 'prod-silver-coin',
+  productName: 'Silver Coin 1oz',
+  metalSymbol: 'XAG',
+  metalName: 'Silver',
+  weight: 1,
+  weightUnit: 'troy_ounces',
+  purity: 1,
+  quantity: 10,
+  purchasePrice: 25,
+  storedMarketPrice: 24,
+  currency: 'USD',
+};
+
+describe('Portfolio valuation calculator', () => {
+  it('marks a position to market from fine weight and spot price', () => {
+    const valuation = valuePosition(goldCoin, 2000);
+
+    expect(valuation.priceSource).toBe('market');
+    expect(valuation.fineWeightTroyOz).toBe(2);
+    expect(valuation.currentValue).toBe(4000);
+    expect(valuation.costBasis).toBe(3600);
+    expect(valuation.unrealizedPnL).toBe(400);
+    expect(valuation.unrealizedPnLPercentage).toBe(11.11);
+  });
+
+  it('falls back to the stored market price when no spot price is available', () => {
+    const valuation = valuePosition(silverCoin, null);
+
+    expect(valuation.priceSource).toBe('position');
+    expect(valuation.currentValue).toBe(240);
+    expect(valuation.unrealizedPnL).toBe(-10);
+    expect(valuation.unrealizedPnLPercentage).toBe(-4);
+  });
+
+  it('aggregates per metal and per portfolio', () => {
+    const positions = [
+      valuePosition(goldCoin, 2000),
+      valuePosition(goldBar, 2000),
+      valuePosition(silverCoin, 30),
+    ];
+
+    const metals = aggregateByMetal(positions);
+    expect(metals.map(metal => metal.metalSymbol)).toEqual(['XAU', 'XAG']);
+    expect(metals[0].positionCount).toBe(2);
+    expect(metals[0].currentValue).toBe(positions[0].currentValue + positions[1].currentValue);
+    expect(metals[1].unrealizedPnL).toBe(50);
+
+    const totals = aggregatePortfolio(positions);
+    expect(totals.positionCount).toBe(3);
+    expect(totals.costBasis).toBe(33850);
+    expect(totals.currentValue).toBe(metals[0].currentValue + metals[1].currentValue);
+    expect(totals.unrealizedPnL).toBe(Math.round((totals.currentValue - 33850) * 100) / 100);
+  });
+
+  it('converts USD spot prices and the cost basis into the valuation currency', () => {
+    const rates = new FxRateTable(['CHF', 'USD'], [
+      { baseCurrency: 'USD', quoteCurrency: 'CHF', rate: 0.8, source: 'test', asOf: new Date() },
+    ]);
+    const chfSilverCoin: ValuationPositionInput = { ...silverCoin, currency: 'CHF' };
+
+    const [gold, silver] = valuePositionsInCurrency(
+      [goldCoin, chfSilverCoin],
+      new Map([['XAU', 2000], ['XAG', 30]]),
+      rates,
+      'CHF'
+    );
+
+    expect(gold).toMatchObject({ spotPricePerTroyOz: 1600, currentValue: 3200, costBasis: 2880, unrealizedPnL: 320 });
+    // Bought in CHF: the cost basis stays as is, only the spot price is converted
+    expect(silver).toMatchObject({ spotPricePerTroyOz: 24, currentValue: 240, costBasis: 250, unrealizedPnL: -10 });
+  });
+
+  it('throws when a rate into the valuation currency is missing', () => {
+    const rates = new FxRateTable(['CHF', 'USD'], []);
+
+    expect(() => valuePositionsInCurrency([goldCoin], new Map([['XAU', 2000]]), rates, 'CHF')).toThrow();
+  });
+});
+
+describe('Portfolio performance calculator', () => {
+  const buy: PerformanceTransaction = {
+    positionId: 'pos-gold-1',
+    productId: 'prod-gold-coin',
+    metalSymbol: 'XAU',
+    weight: 1,
+    weightUnit: 'troy_ounces',
+    purity: 1,
+    type: 'buy',
+    date: new Date('2024-01-02T10:00:00Z'),
+    quantity: 2,
+    price: 1900,
+    fees: 10,
+    currency: 'USD',
+  };
+
+  it('builds end-of-day points for each interval and always ends at the requested date', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+    const to = new Date('2024-03-15T12:00:00Z');
+
+    expect(buildPerformanceDates(from, new Date('2024-01-03T08:00:00Z'), 'day').map(d => d.toISOString())).toEqual([
+      '2024-01-01T23:59:59.999Z',
+      '2024-01-02T23:59:59.999Z',
+      '2024-01-03T23:59:59.999Z',
+    ]);
+    expect(buildPerformanceDates(from, to, 'week')).toHaveLength(12);
+    expect(buildPerformanceDates(new Date('2024-01-31T00:00:00Z'), to, 'month').map(d => d.toISOString().slice(0, 10)))
+      .toEqual(['2024-01-31', '2024-02-29', '2024-03-15']);
+  });
+
+  it('rebuilds holdings from transactions and prices them with the close known at each date', () => {
+    const sell: PerformanceTransaction = { ...buy, type: 'sell', date: new Date('2024-01-04T09:00:00Z'), quantity: 1, price: 2100 };
+    const dates = buildPerformanceDates(new Date('2024-01-01T00:00:00Z'), new Date('2024-01-04T00:00:00Z'), 'day');
+
+    const points = calculatePerformanceSeries([sell, buy], [
+      { metalSymbol: 'XAU', timestamp: new Date('2024-01-03T16:00:00Z'), pricePerTroyOz: 2000 },
+      { metalSymbol: 'XAU', timestamp: new Date('2024-01-04T16:00:00Z'), pricePerTroyOz: 2100 },
+    ], dates);
+
+    // Jan 1: nothing held yet
+    expect(points[0]).toMatchObject({ marketValue: 0, netInvested: 0, fullyPriced: true });
+    // Jan 2: bought, no price history yet -> valued at the trade price
+    expect(points[1]).toMatchObject({ marketValue: 3800, netInvested: 3810, fullyPriced: false });
+    // Jan 3: 2 oz at 2000
+    expect(points[2]).toMatchObject({ marketValue: 4000, unrealizedPnL: 190, fineWeightTroyOz: 2, fullyPriced: true });
+    // Jan 4: sold 1 oz at 2100 (fees reduce proceeds), 1 oz left at 2100
+    expect(points[3]).toMatchObject({ marketValue: 2100, netInvested: 1720, fineWeightTroyOz: 1 });
+  });
+
+  it('converts the closes with the rate at each point', () => {
+    const dates = buildPerformanceDates(new Date('2024-01-03T00:00:00Z'), new Date('2024-01-04T00:00:00Z'), 'day');
+
+    const points = calculatePerformanceSeries([buy], [
+      { metalSymbol: 'XAU', timestamp: new Date('2024-01-03T16:00:00Z'), pricePerTroyOz: 2000 },
+    ], dates, [0.8, 0.9]);
+
+    // Same USD close, marked to market at each day's rate
+    expect(points[0]).toMatchObject({ marketValue: 3200, netInvested: 3810 });
+    expect(points[1]).toMatchObject({ marketValue: 3600, netInvested: 3810 });
+  });
+});
@@ -0,0 +1,129 @@
+import { EmailServiceMock } from '../../src/services/email/mock/EmailServiceMock';
+import { FxRateTable } from '../../src/services/fx/utils/FxRateTable';
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { PriceAlertServiceImpl } from '../../src/services/market-data/impl/PriceAlertServiceImpl';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import { PriceAlertRepositoryMock } from '../../src/services/market-data/mock/PriceAlertRepositoryMock';
+import type { IMarketDataProvider } from '../../src/services/market-data/providers/IMarketDataProvider';
+import { PriceAlertErrorCode } from '../../src/services/market-data/types/PriceAlertTypes';
+import { evaluatePriceAlert } from '../../src/services/market-data/utils/PriceAlertEvaluator';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService, spotPriceProvider } from '../helpers/marketDataStubs';
+
+const USER_ID = 'user-1';
+const OTHER_USER_ID = 'user-2';
+
+// 1 USD = 0.8 CHF; EUR has no stored rate
+const fxService = {
+  getRateTable: async () => new FxRateTable(['CHF', 'EUR', 'USD'], [
+    { baseCurrency: 'USD', quoteCurrency: 'CHF', rate: 0.8, source: 'test', asOf: new Date() },
+  ]),
+};
+
+function createServices() {
+  const marketDataRepository = new MarketDataRepositoryMock();
+  marketDataRepository.clearAll();
+  const alertRepository = new PriceAlertRepositoryMock();
+  alertRepository.addMockUser(USER_ID, 'anna@example.com', 'Anna', 'Muster');
+  const emailService = new EmailServiceMock();
+  const alertService = new PriceAlertServiceImpl(alertRepository, marketDataRepository, fxService, emailService);
+
+  const updatePrices = (prices: Record<string, number>) =>
+    new MarketDataServiceImpl(
+      marketDataRepository, [spotPriceProvider(prices)], referenceService, { priceAlertService: alertService }
+    ).updatePricesFromApi();
+
+  return { alertService, emailService, updatePrices };
+}
+
+describe('evaluatePriceAlert', () => {
+  it('compares thresholds and daily moves', () => {
+    expect(evaluatePriceAlert({ condition: 'above', threshold: 2500 }, 2500, null).triggered).toBe(true);
+    expect(evaluatePriceAlert({ condition: 'below', threshold: 2500 }, 2500.01, null).triggered).toBe(false);
+    expect(evaluatePriceAlert({ condition: 'change_percent', threshold: 2 }, 1960, 2000))
+      .toEqual({ triggered: true, changePercent: -2 });
+    expect(evaluatePriceAlert({ condition: 'change_percent', threshold: 2 }, 1960, null).triggered).toBe(false);
+  });
+});
+
+describe('PriceAlertServiceImpl', () => {
+  it('validates input and scopes alerts to their owner', async () => {
+    const { alertService } = createServices();
+
+    await expect(alertService.createAlert(USER_ID, { metalSymbol: 'XX', condition: 'above', threshold: 1 }))
+      .rejects.toMatchObject({ code: PriceAlertErrorCode.UNKNOWN_METAL });
+    await expect(alertService.createAlert(USER_ID, { metalSymbol: 'AU', condition: 'above', threshold: -5 }))
+      .rejects.toMatchObject({ code: PriceAlertErrorCode.VALIDATION_ERROR });
+    await expect(alertService.createAlert(USER_ID, { metalSymbol: 'AU', condition: 'above', threshold: 1, currency: 'XYZ' }))
+      .rejects.toMatchObject({ code: PriceAlertErrorCode.VALIDATION_ERROR });
+
+    const alert = await alertService.createAlert(USER_ID, { metalSymbol: 'au', condition: 'above', threshold: 2100 });
+    expect(alert).toMatchObject({ metalSymbol: 'AU', currency: 'USD', isActive: true, triggeredAt: null });
+
+    await expect(alertService.getAlert(alert.id, OTHER_USER_ID))
+      .rejects.toMatchObject({ code: PriceAlertErrorCode.NOT_FOUND });
+    await expect(alertService.deleteAlert(alert.id, OTHER_USER_ID))
+      .rejects.toMatchObject({ code: PriceAlertErrorCode.NOT_FOUND });
+    expect(await alertService.listAlerts(USER_ID)).toHaveLength(1);
+  });
+
+  it('fires once after a price update, emails the owner and re-arms on threshold change', async () => {
+    const { alertService, emailService, updatePrices } = createServices();
+    const above = await alertService.createAlert(USER_ID, { metalSymbol: 'AU', condition: 'above', threshold: 2100 });
+    const below = await alertService.createAlert(USER_ID, { metalSymbol: 'AG', condition: 'below', threshold: 20 });
+
+    await updatePrices({ AU: 2050, AG: 25 });
+    expect(emailService.getSentPriceAlerts()).toHaveLength(0);
+
+    await updatePrices({ AU: 2120, AG: 25 });
+    await updatePrices({ AU: 2150, AG: 25 });
+
+    const sent = emailService.getSentPriceAlerts();
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      email: 'anna@example.com',
+      alert: { metalSymbol: 'AU', condition: 'above', threshold: 2100, price: 2120 },
+      userInfo: { firstName: 'Anna', lastName: 'Muster' },
+    });
+    expect(await alertService.getAlert(above.id, USER_ID)).toMatchObject({ triggeredPrice: 2120 });
+    expect((await alertService.getAlert(below.id, USER_ID)).triggeredAt).toBeNull();
+
+    const rearmed = await alertService.updateAlert(above.id, USER_ID, { threshold: 2200 });
+    expect(rearmed).toMatchObject({ threshold: 2200, triggeredAt: null, triggeredPrice: null });
+
+    await updatePrices({ AU: 2210 });
+    expect(emailService.getSentPriceAlerts()).toHaveLength(2);
+  });
+
+  it('fires change_percent alerts on the move since the daily open', async () => {
+    const { alertService, emailService, updatePrices } = createServices();
+    await alertService.createAlert(USER_ID, { metalSymbol: 'AU', condition: 'change_percent', threshold: 3 });
+
+    await updatePrices({ AU: 2000 });
+    await updatePrices({ AU: 2040 });
+    expect(emailService.getSentPriceAlerts()).toHaveLength(0);
+
+    await updatePrices({ AU: 1930 });
+    const sent = emailService.getSentPriceAlerts();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].alert).toMatchObject({ price: 1930, changePercent: -3.5 });
+  });
+
+  it('checks alerts in other currencies against the converted USD price', async () => {
+    const { alertService, emailService, updatePrices } = createServices();
+    await alertService.createAlert(USER_ID, { metalSymbol: 'AU', condition: 'above', threshold: 1650, currency: 'chf' });
+    const eurAlert = await alertService.createAlert(USER_ID, {
+      metalSymbol: 'AU', condition: 'above', threshold: 1, currency: 'EUR',
+    });
+
+    await updatePrices({ AU: 2050 });
+    expect(emailService.getSentPriceAlerts()).toHaveLength(0);
+
+    await updatePrices({ AU: 2070 });
+    const sent = emailService.getSentPriceAlerts();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].alert).toMatchObject({ currency: 'CHF', threshold: 1650, price: 1656 });
+    // No EUR rate: the alert stays armed instead of being checked against the USD price
+    expect((await alertService.getAlert(eurAlert.id, USER_ID)).triggeredAt).toBeNull();
+  });
+});
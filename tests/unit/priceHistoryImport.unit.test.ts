@@ -0,0 +1,78 @@
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import {
+  HISTORICAL_IMPORT_PROVIDER_NAME,
+  PriceHistoryImportErrorCode,
+} from '../../src/services/market-data/types/MarketDataTypes';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService } from '../helpers/marketDataStubs';
+
+const LBMA_GOLD = [
+  'Date,Price',
+  '2026-01-05,2050.5',
+  '2026-01-06,2061.25',
+  '2026-01-06,2061.25',
+  '2026-01-07,-1',
+  '2099-01-01,2100',
+].join('\n');
+
+describe('MarketDataServiceImpl.importPriceHistory', () => {
+  let repository: MarketDataRepositoryMock;
+  let service: MarketDataServiceImpl;
+
+  beforeEach(() => {
+    repository = new MarketDataRepositoryMock();
+    repository.clearAll();
+    repository.addMockProvider({
+      id: 'provider-import',
+      name: HISTORICAL_IMPORT_PROVIDER_NAME,
+      apiKeyEnvVar: 'NONE',
+      baseUrl: 'internal://import',
+      isActive: false,
+      rateLimitPerMinute: 0,
+      priority: 9,
+      failureCount: 0,
+    });
+    service = new MarketDataServiceImpl(repository, [], referenceService);
+  });
+
+  it('imports valid rows, skips stored ones and reports failed rows', async () => {
+    const result = await service.importPriceHistory(LBMA_GOLD, 'csv', { symbol: 'au' });
+
+    expect(result).toEqual({
+      provider: HISTORICAL_IMPORT_PROVIDER_NAME,
+      inserted: 2,
+      skipped: 1,
+      failed: 2,
+      errors: [
+        { row: 5, error: 'Invalid price "-1", expected a positive number' },
+        { row: 6, error: 'Timestamp 2099-01-01T00:00:00.000Z is in the future' },
+      ],
+    });
+
+    const history = await repository.getHistoricalPrices(
+      'metal-au-id', new Date('2026-01-01'), new Date('2026-02-01'), 'USD', 10
+    );
+    expect(history.map(h => h.pricePerTroyOz)).toEqual([2050.5, 2061.25]);
+
+    const [week] = await repository.getCandles(
+      'metal-au-id', '1w', new Date('2026-01-01'), new Date('2026-02-01'), 'USD', 10
+    );
+    expect(week).toMatchObject({ open: 2050.5, close: 2061.25, tickCount: 2 });
+
+    const again = await service.importPriceHistory(LBMA_GOLD, 'csv', { symbol: 'AU' });
+    expect(again).toMatchObject({ inserted: 0, skipped: 3, failed: 2 });
+  });
+
+  it('rejects unknown providers and unreadable files', async () => {
+    await expect(service.importPriceHistory(LBMA_GOLD, 'csv', { providerName: 'LBMA', symbol: 'AU' }))
+      .rejects.toMatchObject({ code: PriceHistoryImportErrorCode.UNKNOWN_PROVIDER });
+    await expect(service.importPriceHistory(LBMA_GOLD, 'csv'))
+      .rejects.toMatchObject({
+        code: PriceHistoryImportErrorCode.INVALID_FILE,
+        message: 'Price file is missing column(s): symbol',
+      });
+    await expect(service.importPriceHistory('{"prices": []}', 'json'))
+      .rejects.toMatchObject({ code: PriceHistoryImportErrorCode.INVALID_FILE });
+  });
+});
@@ -0,0 +1,102 @@
+import { FxServiceFactory } from '../../src/services/fx/FxServiceFactory';
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { PriceStreamServiceImpl } from '../../src/services/market-data/impl/PriceStreamServiceImpl';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import type { IMarketDataProvider } from '../../src/services/market-data/providers/IMarketDataProvider';
+import type { PriceStreamEvent } from '../../src/services/market-data/types/PriceStreamTypes';
+import { parsePriceStreamFilter } from '../../src/services/market-data/utils/PriceStreamFilter';
+import { PricingServiceImpl } from '../../src/services/pricing/impl/PricingServiceImpl';
+import { PricingRepositoryMock } from '../../src/services/pricing/mock/PricingRepositoryMock';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService, spotPriceProvider } from '../helpers/marketDataStubs';
+
+function createStream() {
+  const repository = new MarketDataRepositoryMock();
+  repository.clearAll();
+
+  const pricingService = new PricingServiceImpl(
+    new PricingRepositoryMock([{
+      productId: 'product-gold-bar',
+      productName: 'Gold Bar 1 oz',
+      metalSymbol: 'AU',
+      weight: 1,
+      weightUnit: 'troy_ounces',
+      purity: 0.9999,
+      premiumPercentage: 2,
+      catalogPrice: 2100,
+      catalogCurrency: 'USD',
+    }]),
+    { getCurrentPrice: async () => null },
+    FxServiceFactory.createMock(),
+    { currency: 'USD', quoteLockSeconds: 120, allowCatalogFallback: true, sellSpreadPercentage: 3 }
+  );
+
+  const stream = new PriceStreamServiceImpl(repository);
+  stream.setProductPricer((metalSymbol, spotPrice, currency) =>
+    pricingService.priceProductsAtSpot(metalSymbol, spotPrice, currency)
+  );
+
+  const updatePrices = (prices: Record<string, number>) =>
+    new MarketDataServiceImpl(repository, [spotPriceProvider(prices)], referenceService, { priceStream: stream })
+      .updatePricesFromApi();
+
+  return { stream, updatePrices };
+}
+
+describe('parsePriceStreamFilter', () => {
+  it('normalizes the query and defaults to the prices channel', () => {
+    expect(parsePriceStreamFilter({ metals: 'au, ag,AU', currencies: 'usd' }))
+      .toEqual({ channels: ['prices'], metals: ['AU', 'AG'], currencies: ['USD'] });
+    expect(parsePriceStreamFilter({ channels: 'Prices,products' }))
+      .toEqual({ channels: ['prices', 'products'], metals: [], currencies: [] });
+  });
+
+  it('rejects unsupported values', () => {
+    expect(() => parsePriceStreamFilter({ metals: 'AU,XX' })).toThrow('Unsupported metal "XX"');
+    expect(() => parsePriceStreamFilter({ channels: 'orders' })).toThrow('Unsupported channel "orders"');
+  });
+});
+
+describe('PriceStreamServiceImpl', () => {
+  it('pushes saved prices and recalculated product prices to matching subscribers', async () => {
+    const { stream, updatePrices } = createStream();
+    const goldEvents: PriceStreamEvent[] = [];
+    const silverEvents: PriceStreamEvent[] = [];
+
+    stream.subscribe(parsePriceStreamFilter({ metals: 'AU', channels: 'prices,products' }), e => goldEvents.push(e));
+    const unsubscribe = stream.subscribe(parsePriceStreamFilter({ metals: 'AG' }), e => silverEvents.push(e));
+
+    await updatePrices({ AU: 2000, AG: 25 });
+
+    expect(goldEvents).toEqual([
+      { type: 'price', data: expect.objectContaining({ metalSymbol: 'AU', pricePerTroyOz: 2000 }) },
+      {
+        type: 'product_prices',
+        data: { metalSymbol: 'AU', currency: 'USD', prices: [{ id: 'product-gold-bar', price: 2039.8, currency: 'USD' }] },
+      },
+    ]);
+    expect(silverEvents).toEqual([
+      { type: 'price', data: expect.objectContaining({ metalSymbol: 'AG', pricePerTroyOz: 25 }) },
+    ]);
+
+    unsubscribe();
+    await updatePrices({ AG: 25.5 });
+    expect(silverEvents).toHaveLength(1);
+    expect(stream.getSubscriberCount()).toBe(1);
+  });
+
+  it('builds a snapshot of the current prices for the filter', async () => {
+    const { stream, updatePrices } = createStream();
+    await updatePrices({ AU: 2000, AG: 25 });
+
+    const snapshot = await stream.getSnapshot(parsePriceStreamFilter({ metals: 'AU', channels: 'products' }));
+
+    expect(snapshot.prices).toEqual([]);
+    expect(snapshot.products).toEqual([
+      { metalSymbol: 'AU', currency: 'USD', prices: [{ id: 'product-gold-bar', price: 2039.8, currency: 'USD' }] },
+    ]);
+
+    const prices = await stream.getSnapshot(parsePriceStreamFilter({ currencies: 'USD' }));
+    expect(prices.prices.map(price => price.metalSymbol).sort()).toEqual(['AG', 'AU']);
+  });
+});
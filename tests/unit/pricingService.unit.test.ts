@@ -0,0 +1,223 @@
+import { FxRateTable } from '../../src/services/fx/utils/FxRateTable';
+import { PricingServiceImpl } from '../../src/services/pricing/impl/PricingServiceImpl';
+import { PricingRepositoryMock } from '../../src/services/pricing/mock/PricingRepositoryMock';
+import {
+  PricingError,
+  PricingErrorCode,
+  ProductPricingBasis,
+} from '../../src/services/pricing/types/PricingTypes';
+import {
+  calculateSpotSellUnitPrice,
+  calculateSpotUnitPrice,
+  convertWeightToTroyOunces,
+} from '../../src/services/pricing/utils/SpotPriceCalculator';
+
+const user = { id: '11111111-1111-4111-8111-111111111111', email: 'buyer@example.com', role: 'user' };
+
+const goldBar: ProductPricingBasis = {
+  productId: 'a0000000-0000-4000-8000-000000000001',
+  productName: 'Gold Bar 100g',
+  metalSymbol: 'XAU',
+  weight: 100,
+  weightUnit: 'grams',
+  purity: 0.9999,
+  premiumPercentage: 2,
+  catalogPrice: 6500,
+  catalogCurrency: 'CHF',
+};
+
+const silverCoin: ProductPricingBasis = {
+  productId: 'a0000000-0000-4000-8000-000000000002',
+  productName: 'Silver Coin 1oz',
+  metalSymbol: 'XAG',
+  weight: 1,
+  weightUnit: 'troy_ounces',
+  purity: 0.999,
+  premiumPercentage: 10,
+  catalogPrice: 35,
+  catalogCurrency: 'CHF',
+};
+
+// 1 USD = 0.8 CHF; EUR has no stored rate
+const fxService = {
+  getRateTable: async () => new FxRateTable(['CHF', 'EUR', 'USD'], [
+    { baseCurrency: 'USD', quoteCurrency: 'CHF', rate: 0.8, source: 'test', asOf: new Date() },
+  ]),
+};
+
+/**
+ * Spot prices are given in USD, as the market data providers quote them
+ */
+function createService(
+  spotPrices: Record<string, number>,
+  config: Partial<{ quoteLockSeconds: number; allowCatalogFallback: boolean }> = {},
+  bases: ProductPricingBasis[] = [goldBar, silverCoin]
+) {
+  const marketData = {
+    getCurrentPrice: jest.fn(async (symbol: string, currency?: string) =>
+      spotPrices[symbol] === undefined || currency !== 'USD'
+        ? null
+        : ({ pricePerTroyOz: spotPrices[symbol] } as any)
+    ),
+  };
+  const service = new PricingServiceImpl(new PricingRepositoryMock(bases), marketData, fxService, {
+    currency: 'CHF',
+    quoteLockSeconds: config.quoteLockSeconds ?? 120,
+    allowCatalogFallback: config.allowCatalogFallback ?? true,
+    sellSpreadPercentage: 3,
+  });
+  return { service, marketData };
+}
+
+async function captureError(action: () => Promise<unknown>): Promise<unknown> {
+  try {
+    await action();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe('SpotPriceCalculator', () => {
+  it('converts grams and kilograms to troy ounces', () => {
+    expect(convertWeightToTroyOunces(31.1034768, 'grams')).toBeCloseTo(1, 10);
+    expect(convertWeightToTroyOunces(1, 'kilograms')).toBeCloseTo(32.1507, 4);
+  });
+
+  it('prices fine weight at spot plus premium', () => {
+    // 100g x 0.9999 = 3.21475 oz fine; x 2000 = 6429.51; +2% = 6558.10
+    expect(calculateSpotUnitPrice(goldBar, 2000)).toBe(6558.1);
+  });
+
+  it('prices buy-backs at the metal value less the sell spread', () => {
+    // 3.21475 oz fine x 2000 = 6429.51; -3% = 6236.62
+    expect(calculateSpotSellUnitPrice(goldBar, 2000, 3)).toBe(6236.62);
+  });
+
+  it('rejects unknown weight units', () => {
+    expect(() => convertWeightToTroyOunces(1, 'pounds')).toThrow(PricingError);
+  });
+});
+
+describe('PricingService', () => {
+  it('prices items from the USD spot converted into the pricing currency', async () => {
+    const { service, marketData } = createService({ XAU: 2500 });
+
+    const [gold, silver] = await service.priceItems([
+      { productId: goldBar.productId, quantity: 2 },
+      { productId: silverCoin.productId, quantity: 3 },
+    ]);
+
+    expect(marketData.getCurrentPrice).toHaveBeenCalledWith('XAU', 'USD');
+    expect(gold).toMatchObject({ priceSource: 'spot', currency: 'CHF', spotPricePerTroyOz: 2000 });
+    expect(gold.unitPrice).toBe(6558.1);
+    expect(gold.totalPrice).toBe(13116.2);
+    expect(silver.priceSource).toBe('catalog');
+    expect(silver.unitPrice).toBe(35);
+  });
+
+  it('converts the catalog fallback from the catalog currency', async () => {
+    const usdCoin = { ...silverCoin, catalogPrice: 40, catalogCurrency: 'USD' };
+    const eurCoin = { ...silverCoin, productId: 'a0000000-0000-4000-8000-000000000003', catalogCurrency: 'EUR' };
+    const { service } = createService({}, {}, [usdCoin, eurCoin]);
+
+    const [priced] = await service.priceItems([{ productId: usdCoin.productId, quantity: 1 }]);
+    expect(priced).toMatchObject({ priceSource: 'catalog', unitPrice: 32, currency: 'CHF' });
+
+    const error = await captureError(() => service.priceItems([{ productId: eurCoin.productId, quantity: 1 }]));
+    expect((error as PricingError).code).toBe(PricingErrorCode.SPOT_PRICE_UNAVAILABLE);
+  });
+
+  it('recalculates product prices at a spot price in another currency', async () => {
+    const { service } = createService({});
+
+    await expect(service.priceProductsAtSpot('XAU', 2500, 'USD')).resolves.toEqual([
+      { id: goldBar.productId, price: 6558.1, currency: 'CHF' },
+    ]);
+    await expect(service.priceProductsAtSpot('XAU', 2000, 'CHF')).resolves.toEqual([
+      { id: goldBar.productId, price: 6558.1, currency: 'CHF' },
+    ]);
+    // No EUR rate stored
+    await expect(service.priceProductsAtSpot('XAU', 2300, 'EUR')).resolves.toEqual([]);
+  });
+
+  it('prices sells below buys', async () => {
+    const { service } = createService({ XAU: 2500 });
+    const items = [
+      { productId: goldBar.productId, quantity: 1 },
+      { productId: silverCoin.productId, quantity: 1 },
+    ];
+
+    const [goldBuy, silverBuy] = await service.priceItems(items, 'buy');
+    const [goldSell, silverSell] = await service.priceItems(items, 'sell');
+
+    expect(goldSell.unitPrice).toBe(6236.62);
+    expect(goldSell.premiumPercentage).toBe(-3);
+    expect(goldSell.unitPrice).toBeLessThan(goldBuy.unitPrice);
+    expect(silverSell.unitPrice).toBe(33.95);
+    expect(silverSell.unitPrice).toBeLessThan(silverBuy.unitPrice);
+
+    const quote = await service.createQuote({ userId: user.id, type: 'sell', items }, user);
+    expect(quote.items.map(item => item.unitPrice)).toEqual([6236.62, 33.95]);
+  });
+
+  it('fails when no spot price exists and the catalog fallback is disabled', async () => {
+    const { service } = createService({}, { allowCatalogFallback: false });
+
+    const error = await captureError(() => service.priceItems([{ productId: goldBar.productId, quantity: 1 }]));
+
+    expect(error).toBeInstanceOf(PricingError);
+    expect((error as PricingError).code).toBe(PricingErrorCode.SPOT_PRICE_UNAVAILABLE);
+  });
+
+  it('keeps the quoted price when the spot price moves before redemption', async () => {
+    const spotPrices: Record<string, number> = { XAU: 2500 };
+    const { service } = createService(spotPrices);
+    const items = [{ productId: goldBar.productId, quantity: 1 }];
+
+    const quote = await service.createQuote({ userId: user.id, type: 'BUY', items }, user);
+    spotPrices.XAU = 3125;
+
+    const redeemed = await service.redeemQuote(quote.id, { userId: user.id, type: 'buy', items, orderId: 'order-1' });
+
+    expect(redeemed.items[0].unitPrice).toBe(6558.1);
+    expect(redeemed.orderId).toBe('order-1');
+  });
+
+  it('rejects expired, reused and mismatching quotes', async () => {
+    const items = [{ productId: goldBar.productId, quantity: 1 }];
+
+    const expiring = createService({ XAU: 2500 }, { quoteLockSeconds: 0 }).service;
+    const expired = await expiring.createQuote({ userId: user.id, type: 'buy', items }, user);
+    const expiredError = await captureError(() =>
+      expiring.redeemQuote(expired.id, { userId: user.id, type: 'buy', items, orderId: 'order-1' })
+    );
+    expect((expiredError as PricingError).code).toBe(PricingErrorCode.QUOTE_EXPIRED);
+
+    const { service } = createService({ XAU: 2500 });
+    const quote = await service.createQuote({ userId: user.id, type: 'buy', items }, user);
+
+    const mismatch = await captureError(() =>
+      service.redeemQuote(quote.id, { userId: user.id, type: 'buy', items: [{ ...items[0], quantity: 5 }], orderId: 'order-2' })
+    );
+    expect((mismatch as PricingError).code).toBe(PricingErrorCode.QUOTE_MISMATCH);
+
+    await service.redeemQuote(quote.id, { userId: user.id, type: 'buy', items, orderId: 'order-2' });
+    const reused = await captureError(() =>
+      service.redeemQuote(quote.id, { userId: user.id, type: 'buy', items, orderId: 'order-3' })
+    );
+    expect((reused as PricingError).code).toBe(PricingErrorCode.QUOTE_ALREADY_USED);
+  });
+
+  it('hides quotes of other users', async () => {
+    const { service } = createService({ XAU: 2500 });
+    const quote = await service.createQuote(
+      { userId: user.id, type: 'buy', items: [{ productId: goldBar.productId, quantity: 1 }] },
+      user
+    );
+
+    const error = await captureError(() => service.getQuote(quote.id, 'someone-else'));
+
+    expect((error as PricingError).code).toBe(PricingErrorCode.QUOTE_NOT_FOUND);
+  });
+});
@@ -0,0 +1,137 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MarketDataServiceImpl } from '../../src/services/market-data/impl/MarketDataServiceImpl';
+import { MarketDataRepositoryMock } from '../../src/services/market-data/mock/MarketDataRepositoryMock';
+import { REPLAY_PROVIDER_NAME, ReplayProvider } from '../../src/services/market-data/providers/ReplayProvider';
+import { DEFAULT_REPLAY_CONFIG } from '../../src/services/market-data/types/MarketDataTypes';
+import { parsePriceFile } from '../../src/services/market-data/utils/PriceFileParser';
+import type { IReferenceService } from '../../src/services/reference/IReferenceService';
+import { referenceService } from '../helpers/marketDataStubs';
+
+const RECORDING = [
+  'timestamp,symbol,price,currency,bid,ask',
+  '2026-03-02T09:02:00Z,AU,2010,USD,2009,2011',
+  '2026-03-02T09:00:00Z,AU,2000,USD,1999,2001',
+  '2026-03-02T09:00:00Z,AG,25,USD,,',
+  '2026-03-02T09:01:00Z,AU,2005,USD,2004,2006',
+].join('\n');
+
+describe('parsePriceFile', () => {
+  it('reads CSV and JSON quotes ordered by timestamp and reports invalid rows', () => {
+    const csv = parsePriceFile(`${RECORDING}\n2026-03-02T09:03:00Z,XX,1,USD\nnot-a-date,AU,2000\n`, 'csv');
+
+    expect(csv.quotes.map(q => `${q.row}:${q.quote.symbol}@${q.quote.price}`))
+      .toEqual(['3:AU@2000', '4:AG@25', '5:AU@2005', '2:AU@2010']);
+    expect(csv.quotes[1].quote).toMatchObject({ currency: 'USD', bid: undefined, ask: undefined });
+    expect(csv.errors).toEqual([
+      { row: 6, error: expect.stringContaining('Unsupported metal "XX"') },
+      { row: 7, error: 'Invalid timestamp "not-a-date"' },
+    ]);
+
+    const json = parsePriceFile(
+      JSON.stringify([{ timestamp: '2026-03-02T09:00:00Z', symbol: 'pt', price: 950, currency: 'chf' }, { symbol: 'AU' }]),
+      'json'
+    );
+    expect(json.quotes).toEqual([{
+      row: 1,
+      quote: { symbol: 'PT', price: 950, currency: 'CHF', bid: undefined, ask: undefined, timestamp: new Date('2026-03-02T09:00:00Z') },
+    }]);
+    expect(json.errors).toHaveLength(1);
+  });
+
+  it('rejects files without the required columns', () => {
+    expect(() => parsePriceFile('time,metal,price\n', 'csv')).toThrow('missing column(s): timestamp, symbol');
+  });
+});
+
+describe('ReplayProvider', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'replay-'));
+    filePath = path.join(dir, 'prices.csv');
+    writeFileSync(filePath, RECORDING);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('steps through recorded timestamps and feeds the pricing pipeline', async () => {
+    const repository = new MarketDataRepositoryMock();
+    repository.clearAll();
+    repository.addMockProvider({
+      id: 'provider-replay',
+      name: REPLAY_PROVIDER_NAME,
+      apiKeyEnvVar: 'NONE',
+      baseUrl: 'internal://replay',
+      isActive: true,
+      rateLimitPerMinute: 0,
+      priority: 3,
+      failureCount: 0,
+    });
+
+    const provider = new ReplayProvider({ ...DEFAULT_REPLAY_CONFIG, mode: 'file', filePath, speed: 0, loop: false });
+    const service = new MarketDataServiceImpl(repository, [provider], referenceService);
+
+    const first = await service.updatePricesFromApi();
+    expect(first).toMatchObject({ success: true, provider: REPLAY_PROVIDER_NAME });
+    expect(first.updatedMetals.sort()).toEqual(['AG', 'AU']);
+    expect((await repository.getCurrentPrice('metal-au-id', 'USD'))?.pricePerTroyOz).toBe(2000);
+
+    await service.updatePricesFromApi();
+    await service.updatePricesFromApi();
+    await service.updatePricesFromApi();
+
+    // Without looping the last recorded quote repeats
+    expect((await repository.getCurrentPrice('metal-au-id', 'USD'))?.pricePerTroyOz).toBe(2010);
+    expect((await repository.getCurrentPrice('metal-ag-id', 'USD'))?.pricePerTroyOz).toBe(25);
+  });
+
+  it('replays recorded time at the configured speed and loops', async () => {
+    let now = new Date('2026-10-01T12:00:00Z');
+    const provider = new ReplayProvider(
+      { ...DEFAULT_REPLAY_CONFIG, mode: 'file', filePath, speed: 60, loop: true },
+      () => now
+    );
+    const goldAt = async (seconds: number) => {
+      now = new Date(Date.parse('2026-10-01T12:00:00Z') + seconds * 1000);
+      const [gold] = await provider.fetchPrices(['AU'], 'USD');
+      return gold;
+    };
+
+    expect(await goldAt(0)).toEqual({
+      symbol: 'AU', price: 2000, currency: 'USD', bid: 1999, ask: 2001, timestamp: new Date('2026-10-01T12:00:00Z'),
+    });
+    expect((await goldAt(1)).price).toBe(2005);
+    expect((await goldAt(2.5)).price).toBe(2010);
+    expect((await goldAt(3)).price).toBe(2000);
+    expect((await goldAt(4.5)).price).toBe(2005);
+    expect(await provider.fetchPrices(['AU'], 'EUR')).toEqual([]);
+  });
+
+  it('generates reproducible random walks from the start prices', async () => {
+    const config = { ...DEFAULT_REPLAY_CONFIG, mode: 'random_walk' as const, seed: 42, volatilityPercent: 1 };
+    const walk = async (provider: ReplayProvider) => {
+      const prices: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        const [gold] = await provider.fetchPrices(['AU'], 'USD');
+        prices.push(gold.price);
+      }
+      return prices;
+    };
+
+    const prices = await walk(new ReplayProvider(config));
+
+    expect(prices[0]).toBe(2000);
+    expect(new Set(prices).size).toBe(5);
+    expect(prices.every(price => Math.abs(price / 2000 - 1) < 0.1)).toBe(true);
+    expect(await walk(new ReplayProvider(config))).toEqual(prices);
+
+    const [gold] = await new ReplayProvider(config).fetchPrices(['AU'], 'USD');
+    expect(gold.bid).toBe(1999);
+    expect(gold.ask).toBe(2001);
+  });
+});
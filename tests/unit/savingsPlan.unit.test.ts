@@ -0,0 +1,264 @@
+import { SavingsPlanServiceImpl } from '../../src/services/savings-plan/impl/SavingsPlanServiceImpl';
+import { SavingsPlanExecutionServiceImpl } from '../../src/services/savings-plan/impl/SavingsPlanExecutionServiceImpl';
+import { SavingsPlanRepositoryMock } from '../../src/services/savings-plan/mock/SavingsPlanRepositoryMock';
+import {
+  DEFAULT_SAVINGS_PLAN_CONFIG,
+  SavingsPlanErrorCode,
+} from '../../src/services/savings-plan/types/SavingsPlanTypes';
+import {
+  calculateFractionalQuantity,
+  getNextExecutionDate,
+  getScheduledDate,
+} from '../../src/services/savings-plan/utils/SavingsPlanSchedule';
+import { EmailServiceMock } from '../../src/services/email/mock/EmailServiceMock';
+import type { IPricingService } from '../../src/services/pricing/IPricingService';
+import type { IFxService } from '../../src/services/fx/IFxService';
+import type { IOrderService } from '../../src/services/order/IOrderService';
+import type { IPaymentService } from '../../src/services/payment/IPaymentService';
+import type { CreateOrderRequest } from '../../src/services/order/types/OrderTypes';
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const GOLD_BAR_ID = '22222222-2222-4222-8222-222222222222';
+const NOW = new Date('2026-01-31T08:00:00Z');
+
+describe('SavingsPlanSchedule', () => {
+  it('keeps the day of month, clamped to shorter months', () => {
+    const start = new Date('2026-01-31T08:00:00Z');
+
+    expect([1, 2, 13].map(n => getScheduledDate(start, 'monthly', n).toISOString())).toEqual([
+      '2026-02-28T08:00:00.000Z',
+      '2026-03-31T08:00:00.000Z',
+      '2027-02-28T08:00:00.000Z',
+    ]);
+    expect(getScheduledDate(start, 'quarterly', 1).toISOString()).toBe('2026-04-30T08:00:00.000Z');
+    expect(getNextExecutionDate(start, 'monthly', new Date('2026-07-15T00:00:00Z')).toISOString())
+      .toBe('2026-07-31T08:00:00.000Z');
+    expect(getNextExecutionDate(start, 'weekly', start).toISOString()).toBe('2026-02-07T08:00:00.000Z');
+    expect(getNextExecutionDate(start, 'daily', new Date('2026-01-01T00:00:00Z'))).toBe(start);
+  });
+
+  it('rounds fractional quantities down to the configured decimals', () => {
+    expect(calculateFractionalQuantity(200, 2000, 4)).toBe(0.1);
+    expect(calculateFractionalQuantity(200, 2345.67, 4)).toBe(0.0852);
+    expect(calculateFractionalQuantity(0.01, 2000, 4)).toBe(0);
+  });
+});
+
+describe('SavingsPlanServiceImpl', () => {
+  let repository: SavingsPlanRepositoryMock;
+  let service: SavingsPlanServiceImpl;
+  let now: Date;
+
+  const createInput = {
+    productId: GOLD_BAR_ID,
+    amount: 200,
+    frequency: 'monthly' as const,
+    customerId: 'cus_123',
+    paymentMethodId: 'pm_card_visa',
+  };
+
+  beforeEach(() => {
+    now = NOW;
+    repository = new SavingsPlanRepositoryMock();
+    repository.clearAll();
+    repository.addMockProduct(GOLD_BAR_ID, 'Gold Bar 1oz');
+    service = new SavingsPlanServiceImpl(repository, DEFAULT_SAVINGS_PLAN_CONFIG, () => now);
+  });
+
+  it('creates plans in the default currency and rejects invalid input', async () => {
+    const plan = await service.createPlan(USER_ID, createInput);
+
+    expect(plan).toMatchObject({
+      productName: 'Gold Bar 1oz',
+      amount: 200,
+      currency: 'CHF',
+      status: 'active',
+      nextExecutionAt: NOW,
+    });
+    expect(await service.listPlans(USER_ID)).toHaveLength(1);
+
+    await expect(service.createPlan(USER_ID, { ...createInput, frequency: 'onetime' as never }))
+      .rejects.toMatchObject({ code: SavingsPlanErrorCode.VALIDATION_ERROR });
+    await expect(service.createPlan(USER_ID, { ...createInput, startDate: '2026-01-30T23:00:00Z' }))
+      .rejects.toMatchObject({ code: SavingsPlanErrorCode.VALIDATION_ERROR });
+    await expect(service.createPlan(USER_ID, { ...createInput, productId: '33333333-3333-4333-8333-333333333333' }))
+      .rejects.toMatchObject({ code: SavingsPlanErrorCode.UNKNOWN_PRODUCT });
+  });
+
+  it('pauses, resumes on the next scheduled date and cancels plans', async () => {
+    const plan = await service.createPlan(USER_ID, createInput);
+
+    await service.updatePlan(plan.id, USER_ID, { status: 'paused' });
+    now = new Date('2026-04-10T00:00:00Z');
+    const resumed = await service.updatePlan(plan.id, USER_ID, { status: 'active', amount: 250.004 });
+
+    expect(resumed).toMatchObject({ status: 'active', amount: 250 });
+    expect(resumed.nextExecutionAt.toISOString()).toBe('2026-04-30T08:00:00.000Z');
+
+    await expect(service.getPlan(plan.id, '99999999-9999-4999-8999-999999999999'))
+      .rejects.toMatchObject({ code: SavingsPlanErrorCode.NOT_FOUND });
+
+    expect((await service.cancelPlan(plan.id, USER_ID)).status).toBe('cancelled');
+    await expect(service.updatePlan(plan.id, USER_ID, { amount: 100 }))
+      .rejects.toMatchObject({ code: SavingsPlanErrorCode.CANCELLED });
+  });
+});
+
+describe('SavingsPlanExecutionServiceImpl', () => {
+  let repository: SavingsPlanRepositoryMock;
+  let emailService: EmailServiceMock;
+  let orders: CreateOrderRequest[];
+  let cancelledOrders: string[];
+  let paidOrders: string[];
+  let paymentStatus: string;
+  let idempotencyKeys: Array<string | undefined>;
+  let execution: SavingsPlanExecutionServiceImpl;
+
+  const pricingService = {
+    priceItems: async () => [{ productId: GOLD_BAR_ID, unitPrice: 2000, currency: 'CHF' }],
+  } as unknown as IPricingService;
+
+  const fxService = {
+    convert: async (amount: number) => ({ convertedAmount: amount * 0.9 }),
+  } as unknown as IFxService;
+
+  // 2.5% fees and taxes plus a flat 5 on top of the unit price of 2000
+  const orderTotal = (request: CreateOrderRequest) =>
+    ({ totalAmount: Math.round((request.items[0].quantity * 2000 * 1.025 + 5) * 100) / 100 });
+
+  beforeEach(async () => {
+    repository = new SavingsPlanRepositoryMock();
+    repository.clearAll();
+    repository.addMockProduct(GOLD_BAR_ID, 'Gold Bar 1oz');
+    repository.addMockUser(USER_ID, 'saver@example.com', 'Sam');
+    emailService = new EmailServiceMock();
+    orders = [];
+    cancelledOrders = [];
+    paidOrders = [];
+    paymentStatus = 'succeeded';
+    idempotencyKeys = [];
+
+    const orderService = {
+      previewOrderTotal: async (request: CreateOrderRequest) => orderTotal(request),
+      createOrder: async (request: CreateOrderRequest) => {
+        orders.push(request);
+        return { order: { id: `order-${orders.length}`, currency: 'CHF' }, calculation: orderTotal(request) };
+      },
+      updateOrderStatus: async (orderId: string) => {
+        cancelledOrders.push(orderId);
+      },
+      markOrderPaid: async (orderId: string) => {
+        paidOrders.push(orderId);
+        return true;
+      },
+    } as unknown as IOrderService;
+
+    const paymentService = {
+      createPaymentIntent: async (request: { amount: number }, options?: { idempotencyKey?: string }) => {
+        idempotencyKeys.push(options?.idempotencyKey);
+        return { success: true, paymentIntent: { id: `pi_${request.amount}`, status: 'requires_confirmation' } };
+      },
+      confirmPayment: async (id: string, _request: unknown, options?: { idempotencyKey?: string }) => {
+        idempotencyKeys.push(options?.idempotencyKey);
+        return { success: true, paymentIntent: { id, status: paymentStatus } };
+      },
+    } as unknown as IPaymentService;
+
+    execution = new SavingsPlanExecutionServiceImpl(
+      repository, pricingService, fxService, orderService, paymentService, emailService,
+      { ...DEFAULT_SAVINGS_PLAN_CONFIG, maxAttempts: 2, retryDelayMinutes: 30 }
+    );
+  });
+
+  const createPlan = (currency = 'CHF') => new SavingsPlanServiceImpl(repository, DEFAULT_SAVINGS_PLAN_CONFIG, () => NOW)
+    .createPlan(USER_ID, {
+      productId: GOLD_BAR_ID,
+      amount: 200,
+      currency,
+      frequency: 'monthly',
+      customerId: 'cus_123',
+      paymentMethodId: 'pm_card_visa',
+    });
+
+  it('buys the fractional quantity whose total fits the amount, charges it and moves to the next due date', async () => {
+    const plan = await createPlan();
+
+    const result = await execution.executeDuePlans(NOW);
+
+    expect(result).toMatchObject({ attempted: 1, succeeded: 1, retrying: 0, failed: 0, errors: [] });
+    expect(orders).toEqual([{
+      userId: USER_ID,
+      type: 'buy',
+      items: [{ productId: GOLD_BAR_ID, quantity: 0.0951 }],
+      custodyServiceId: undefined,
+      notes: `Savings plan ${plan.id}`,
+    }]);
+
+    const [executed] = await repository.findExecutions({ savingsPlanId: plan.id });
+    expect(executed).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      orderId: 'order-1',
+      paymentIntentId: 'pi_19996',
+      quantity: 0.0951,
+      chargedAmount: 199.96,
+    });
+    expect(executed.chargedAmount).toBeLessThanOrEqual(plan.amount);
+    expect(paidOrders).toEqual(['order-1']);
+    expect((await repository.findById(plan.id, USER_ID))?.nextExecutionAt.toISOString())
+      .toBe('2026-02-28T08:00:00.000Z');
+
+    // The same due date is not executed twice
+    expect(await execution.executeDuePlans(NOW)).toMatchObject({ attempted: 0 });
+  });
+
+  it('converts amounts in other currencies into the pricing currency', async () => {
+    await createPlan('EUR');
+
+    await execution.executeDuePlans(NOW);
+
+    expect(orders[0].items[0].quantity).toBe(0.0853);
+  });
+
+  it('retries failed payments without buying again and reports executions that keep failing', async () => {
+    const plan = await createPlan();
+    paymentStatus = 'requires_payment_method';
+
+    const first = await execution.executeDuePlans(NOW);
+    expect(first).toMatchObject({ attempted: 1, retrying: 1, failed: 0 });
+    expect(first.errors[0]).toContain('was not completed (status: requires_payment_method)');
+
+    // Retry is not due before the delay has passed
+    expect(await execution.executeDuePlans(new Date(NOW.getTime() + 29 * 60_000))).toMatchObject({ attempted: 0 });
+
+    const second = await execution.executeDuePlans(new Date(NOW.getTime() + 30 * 60_000));
+    expect(second).toMatchObject({ attempted: 1, retrying: 0, failed: 1 });
+    expect(orders).toHaveLength(1);
+    expect(cancelledOrders).toEqual(['order-1']);
+    expect(paidOrders).toEqual([]);
+
+    // One payment intent per due date, confirmed once per attempt
+    const key = `savings-plan-${plan.id}-${NOW.toISOString()}`;
+    expect(idempotencyKeys).toEqual([key, `${key}-confirm-1`, key, `${key}-confirm-2`]);
+
+    const [failed] = await repository.findExecutions({ status: 'failed' });
+    expect(failed).toMatchObject({ savingsPlanId: plan.id, attempts: 2, orderId: 'order-1', nextRetryAt: null });
+
+    const [notice] = emailService.getSentSavingsPlanFailures();
+    expect(notice.email).toBe('saver@example.com');
+    expect(notice.failure).toMatchObject({ productName: 'Gold Bar 1oz', amount: 200, currency: 'CHF' });
+    expect(notice.failure.nextExecutionAt?.toISOString()).toBe('2026-02-28T08:00:00.000Z');
+  });
+
+  it('does not buy or charge while the owner has not verified the email address', async () => {
+    repository.addMockUser(USER_ID, 'saver@example.com', 'Sam', 'User', 'customer', false);
+    await createPlan();
+
+    const result = await execution.executeDuePlans(NOW);
+
+    expect(result).toMatchObject({ attempted: 1, succeeded: 0, retrying: 1 });
+    expect(result.errors[0]).toContain('is not verified');
+    expect(orders).toEqual([]);
+    expect(idempotencyKeys).toEqual([]);
+  });
+});
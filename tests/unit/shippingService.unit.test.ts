@@ -0,0 +1,123 @@
+import { CalculationServiceImpl } from '../../src/services/calculation/impl/CalculationServiceImpl';
+import { ShippingServiceImpl } from '../../src/services/shipping/impl/ShippingServiceImpl';
+import { ShippingRepositoryMock } from '../../src/services/shipping/mock/ShippingRepositoryMock';
+import { ShippingErrorCode, validateShippingTariff } from '../../src/services/shipping/types/ShippingTypes';
+import { calculateParcelWeightGrams } from '../../src/services/shipping/utils/ShippingCalculator';
+import { AuditTrailUser } from '../../src/utils/auditTrail';
+
+const CH = '11111111-1111-4111-8111-111111111111';
+const DE = '22222222-2222-4222-8222-222222222222';
+
+const admin: AuditTrailUser = { id: 'admin-1', email: 'admin@goldsphere.vault', role: 'admin' };
+
+const createService = async () => {
+  const repository = new ShippingRepositoryMock();
+  repository.setCountries([{ id: CH, code: 'CH' }, { id: DE, code: 'DE' }]);
+  repository.setPrimaryAddressCountry('user-ch', CH);
+  repository.setPrimaryAddressCountry('user-de', DE);
+  repository.setProductWeights([
+    { productId: 'bar-1kg', weight: 1, weightUnit: 'kilograms' },
+    { productId: 'coin-1oz', weight: 1, weightUnit: 'troy_ounces' },
+  ]);
+  const service = new ShippingServiceImpl(repository);
+
+  await service.createTariff({ deliveryMethod: 'insured_courier', countryId: CH, maxWeightGrams: 1000, fee: 25 }, admin);
+  await service.createTariff({ deliveryMethod: 'insured_courier', countryId: CH, minWeightGrams: 1000, fee: 45 }, admin);
+  await service.createTariff({ deliveryMethod: 'insured_courier', fee: 60 }, admin);
+  await service.createInsuranceTier({ deliveryMethod: 'insured_courier', maxValue: 10000, rate: 0.01 }, admin);
+  await service.createInsuranceTier({ deliveryMethod: 'insured_courier', minValue: 10000, rate: 0.005 }, admin);
+
+  return service;
+};
+
+describe('Shipping calculator', () => {
+  it('sums gross parcel weight in grams', () => {
+    expect(calculateParcelWeightGrams(
+      [{ productId: 'bar-1kg', quantity: 2, unitPrice: 0 }, { productId: 'coin-1oz', quantity: 10, unitPrice: 0 }],
+      [
+        { productId: 'bar-1kg', weight: 1, weightUnit: 'kilograms' },
+        { productId: 'coin-1oz', weight: 1, weightUnit: 'troy_ounces' },
+      ]
+    )).toBeCloseTo(2311.03, 2);
+  });
+
+  it('validates tariff brackets', () => {
+    expect(validateShippingTariff({ deliveryMethod: 'insured_courier', minWeightGrams: 500, maxWeightGrams: 100, fee: 10 })
+      .error?.code).toBe(ShippingErrorCode.VALIDATION_ERROR);
+    expect(validateShippingTariff({ deliveryMethod: 'drone' as never, fee: 10 }).success).toBe(false);
+  });
+});
+
+describe('ShippingServiceImpl', () => {
+  it('quotes the destination tariff by weight bracket and the insurance tier by declared value', async () => {
+    const service = await createService();
+
+    const light = await service.quoteShipping({
+      userId: 'user-ch',
+      deliveryMethod: 'insured_courier',
+      items: [{ productId: 'coin-1oz', quantity: 5, unitPrice: 2000 }],
+    });
+    expect(light.data).toMatchObject({
+      destinationCountry: 'CH',
+      shippingFee: 25,
+      declaredValue: 10000,
+      insuranceRate: 0.005,
+      insuranceFee: 50,
+    });
+
+    const heavy = await service.quoteShipping({
+      userId: 'user-ch',
+      deliveryMethod: 'insured_courier',
+      items: [{ productId: 'bar-1kg', quantity: 1, unitPrice: 5000 }],
+    });
+    expect(heavy.data).toMatchObject({ parcelWeightGrams: 1000, shippingFee: 45, insuranceFee: 50 });
+  });
+
+  it('falls back to the tariff without a country and reports missing tariffs', async () => {
+    const service = await createService();
+
+    const abroad = await service.quoteShipping({
+      userId: 'user-de',
+      deliveryMethod: 'insured_courier',
+      items: [{ productId: 'bar-1kg', quantity: 1, unitPrice: 100 }],
+    });
+    expect(abroad.data).toMatchObject({ destinationCountry: 'DE', shippingFee: 60, insuranceFee: 1 });
+
+    const vault = await service.quoteShipping({
+      userId: 'user-de',
+      deliveryMethod: 'vault_delivery',
+      items: [{ productId: 'bar-1kg', quantity: 1, unitPrice: 100 }],
+    });
+    expect(vault.error?.code).toBe(ShippingErrorCode.NO_TARIFF);
+  });
+
+  it('rejects duplicate brackets', async () => {
+    const service = await createService();
+    const duplicate = await service.createTariff({ deliveryMethod: 'insured_courier', countryId: CH, fee: 30 }, admin);
+
+    expect(duplicate.error?.code).toBe(ShippingErrorCode.DUPLICATE_ENTRY);
+  });
+});
+
+describe('CalculationServiceImpl with shipping charges', () => {
+  it('uses quoted shipping and insurance and returns the breakdown', () => {
+    const service = new CalculationServiceImpl({ taxRate: 0 });
+    const shipping = {
+      deliveryMethod: 'insured_courier' as const,
+      destinationCountry: 'CH',
+      parcelWeightGrams: 31.1,
+      shippingTariffId: 'tariff-1',
+      shippingFee: 25,
+      declaredValue: 100,
+      insuranceTierId: 'tier-1',
+      insuranceRate: 0.01,
+      insuranceFee: 1,
+    };
+
+    const result = service.calculateOrderTotal([{ quantity: 1, unitPrice: 100 }], 'buy', shipping);
+
+    expect(result.fees).toEqual({ processing: 5, shipping: 25, insurance: 1 });
+    expect(result.totalAmount).toBe(131);
+    expect(result.shipping).toBe(shipping);
+  });
+});
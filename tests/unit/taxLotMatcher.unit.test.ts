@@ -0,0 +1,83 @@
+import { matchSellAgainstLots, summarizeRealizedGains } from '../../src/services/portfolio/utils/TaxLotMatcher';
+import { OpenTaxLot, resolveTaxLotMethod, SellToMatch } from '../../src/services/portfolio/types/TaxLotTypes';
+
+const lots: OpenTaxLot[] = [
+  { id: 'lot-2023', acquiredAt: new Date('2023-01-10T00:00:00Z'), remainingQuantity: 2, unitCost: 1800 },
+  { id: 'lot-2024', acquiredAt: new Date('2024-03-01T00:00:00Z'), remainingQuantity: 2, unitCost: 2100 },
+];
+
+const sell: SellToMatch = {
+  quantity: 3,
+  unitPrice: 2300,
+  fees: 0,
+  disposedAt: new Date('2024-06-01T00:00:00Z'),
+  fallbackUnitCost: 2000,
+  fallbackAcquiredAt: new Date('2022-01-01T00:00:00Z'),
+};
+
+describe('Tax lot matcher', () => {
+  it('consumes the oldest lots first with FIFO', () => {
+    const result = matchSellAgainstLots(lots, sell, 'fifo');
+
+    expect(result.slices.map(s => [s.taxLotId, s.quantity, s.costBasis])).toEqual([
+      ['lot-2023', 2, 3600],
+      ['lot-2024', 1, 2100],
+    ]);
+    expect(result.slices[0].holdingPeriodDays).toBe(508);
+    expect(result.lotUpdates).toEqual([
+      { taxLotId: 'lot-2023', remainingQuantity: 0 },
+      { taxLotId: 'lot-2024', remainingQuantity: 1 },
+    ]);
+  });
+
+  it('consumes the newest lots first with LIFO', () => {
+    const result = matchSellAgainstLots(lots, sell, 'lifo');
+
+    expect(result.slices.map(s => [s.taxLotId, s.quantity, s.realizedGain])).toEqual([
+      ['lot-2024', 2, 400],
+      ['lot-2023', 1, 500],
+    ]);
+  });
+
+  it('prices every unit at the weighted average cost', () => {
+    const result = matchSellAgainstLots(lots, sell, 'average');
+
+    expect(result.slices.map(s => s.costBasis)).toEqual([3900, 1950]);
+    expect(result.slices.reduce((sum, s) => sum + s.realizedGain, 0)).toBe(1050);
+  });
+
+  it('records quantity beyond the open lots at the fallback cost and nets fees from proceeds', () => {
+    const result = matchSellAgainstLots(lots.slice(0, 1), { ...sell, fees: 30 }, 'fifo');
+
+    expect(result.slices).toHaveLength(2);
+    expect(result.slices[1]).toMatchObject({ taxLotId: null, quantity: 1, costBasis: 2000, proceeds: 2290 });
+    expect(result.slices[0].proceeds).toBe(4580);
+  });
+
+  it('summarizes short- and long-term gains', () => {
+    const base = {
+      sellTransactionId: 'tx', productId: 'p', productName: 'Coin', metalSymbol: 'XAU', method: 'fifo' as const,
+      quantity: 1, acquiredAt: new Date(), disposedAt: new Date(), holdingPeriodDays: 0, matchedToLot: true,
+    };
+
+    const totals = summarizeRealizedGains([
+      { ...base, id: 'a', holdingPeriod: 'long', proceeds: 2300, costBasis: 1800, realizedGain: 500 },
+      { ...base, id: 'b', holdingPeriod: 'short', proceeds: 2300, costBasis: 2400, realizedGain: -100 },
+    ]);
+
+    expect(totals).toEqual({
+      disposalCount: 2,
+      proceeds: 4600,
+      costBasis: 4200,
+      realizedGain: 400,
+      shortTermGain: -100,
+      longTermGain: 500,
+    });
+  });
+
+  it('falls back to FIFO for unknown configuration values', () => {
+    expect(resolveTaxLotMethod('LIFO')).toBe('lifo');
+    expect(resolveTaxLotMethod('hifo')).toBe('fifo');
+    expect(resolveTaxLotMethod(undefined)).toBe('fifo');
+  });
+});
@@ -0,0 +1,126 @@
+import { CalculationServiceImpl } from '../../src/services/calculation/impl/CalculationServiceImpl';
+import { TaxServiceImpl } from '../../src/services/tax/impl/TaxServiceImpl';
+import { TaxRuleRepositoryMock } from '../../src/services/tax/mock/TaxRuleRepositoryMock';
+import { TaxErrorCode, TaxRule, validateTaxRule } from '../../src/services/tax/types/TaxTypes';
+import { selectTaxRule } from '../../src/services/tax/utils/TaxRuleMatcher';
+import { AuditTrailUser } from '../../src/utils/auditTrail';
+
+const CH = '11111111-1111-4111-8111-111111111111';
+const GOLD = '22222222-2222-4222-8222-222222222222';
+const SILVER = '33333333-3333-4333-8333-333333333333';
+const BAR = '44444444-4444-4444-8444-444444444444';
+const JEWELRY = '55555555-5555-4555-8555-555555555555';
+
+const admin: AuditTrailUser = { id: 'admin-1', email: 'admin@goldsphere.vault', role: 'admin' };
+
+const baseRule: TaxRule = {
+  id: 'rule-ch',
+  countryId: CH,
+  countryCode: 'CH',
+  countryName: 'Switzerland',
+  metalId: null,
+  metalSymbol: null,
+  productTypeId: null,
+  productTypeName: null,
+  rate: 0.081,
+  description: null,
+  validFrom: new Date('2024-01-01'),
+  validTo: null,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+describe('Tax rule matcher', () => {
+  const rules: TaxRule[] = [
+    baseRule,
+    { ...baseRule, id: 'rule-ch-2018', rate: 0.077, validFrom: new Date('2018-01-01'), validTo: new Date('2024-01-01') },
+    { ...baseRule, id: 'rule-gold-bar', metalId: GOLD, productTypeId: BAR, rate: 0 },
+    { ...baseRule, id: 'rule-silver', metalId: SILVER, rate: 0.05 },
+  ];
+
+  it('prefers the most specific rule', () => {
+    expect(selectTaxRule(rules, { metalId: GOLD, productTypeId: BAR })?.id).toBe('rule-gold-bar');
+    expect(selectTaxRule(rules, { metalId: GOLD, productTypeId: JEWELRY })?.id).toBe('rule-ch');
+    expect(selectTaxRule(rules, { metalId: SILVER, productTypeId: BAR })?.id).toBe('rule-silver');
+  });
+
+  it('only considers rules valid at the given date', () => {
+    expect(selectTaxRule(rules, { metalId: GOLD, productTypeId: JEWELRY }, new Date('2023-06-30'))?.rate).toBe(0.077);
+    expect(selectTaxRule(rules, { metalId: GOLD, productTypeId: JEWELRY }, new Date('2017-06-30'))).toBeNull();
+  });
+
+  it('validates rates and validity ranges', () => {
+    expect(validateTaxRule({ countryId: CH, rate: 8.1 }).error?.code).toBe(TaxErrorCode.VALIDATION_ERROR);
+    expect(validateTaxRule({ countryId: CH, rate: 0.081, validFrom: '2024-01-01', validTo: '2023-01-01' }).success)
+      .toBe(false);
+    expect(validateTaxRule({ countryId: CH, rate: 0, validFrom: '2024-01-01' }).data?.metalId).toBeNull();
+  });
+});
+
+describe('TaxServiceImpl', () => {
+  const createService = () => {
+    const repository = new TaxRuleRepositoryMock();
+    repository.setCountries([{ id: CH, code: 'CH', name: 'Switzerland' }]);
+    repository.setPrimaryAddressCountry('user-1', CH);
+    repository.setTaxableProducts([
+      { productId: 'gold-bar', metalId: GOLD, productTypeId: BAR },
+      { productId: 'silver-bar', metalId: SILVER, productTypeId: BAR },
+    ]);
+    return new TaxServiceImpl(repository);
+  };
+
+  it('resolves per-product rates from the primary address country', async () => {
+    const service = createService();
+    await service.createRule({ countryId: CH, rate: 0.081, validFrom: '2024-01-01' }, admin);
+    await service.createRule({ countryId: CH, metalId: GOLD, productTypeId: BAR, rate: 0, validFrom: '2024-01-01' }, admin);
+
+    const result = await service.resolveRatesForUser('user-1', ['gold-bar', 'silver-bar', 'unknown']);
+
+    expect(result.countryCode).toBe('CH');
+    expect(result.rates.map(rate => [rate.productId, rate.rate])).toEqual([
+      ['gold-bar', 0],
+      ['silver-bar', 0.081],
+      ['unknown', null],
+    ]);
+    expect((await service.resolveRatesForUser('user-without-address', ['gold-bar'])).rates[0].rate).toBeNull();
+  });
+
+  it('maps duplicates, unknown references and missing rules to error codes', async () => {
+    const service = createService();
+    const created = await service.createRule({ countryId: CH, rate: 0.081, validFrom: '2024-01-01' }, admin);
+
+    expect((await service.createRule({ countryId: CH, rate: 0.08, validFrom: '2024-01-01' }, admin)).error?.code)
+      .toBe(TaxErrorCode.DUPLICATE_RULE);
+    expect((await service.createRule({ countryId: GOLD, rate: 0.08 }, admin)).error?.code)
+      .toBe(TaxErrorCode.REFERENCE_NOT_FOUND);
+
+    const updated = await service.updateRule(created.data!.id, { rate: 0.077 }, admin);
+    expect(updated.data).toMatchObject({ rate: 0.077, validFrom: new Date('2024-01-01') });
+
+    expect((await service.deleteRule(created.data!.id)).success).toBe(true);
+    expect((await service.getRule(created.data!.id)).error?.code).toBe(TaxErrorCode.NOT_FOUND);
+  });
+});
+
+describe('CalculationServiceImpl with per-item tax rates', () => {
+  it('taxes items at their rate and fees at the effective rate', () => {
+    const service = new CalculationServiceImpl();
+    const result = service.calculateOrderTotal([
+      { quantity: 1, unitPrice: 100, taxRate: 0 },
+      { quantity: 1, unitPrice: 100, taxRate: 0.081 },
+    ], 'buy');
+
+    expect(result.subtotal).toBe(200);
+    expect(result.fees.processing).toBe(10);
+    // 8.10 on the silver item + 10 fees x 4.05%
+    expect(result.taxes).toBeCloseTo(8.505, 4);
+  });
+
+  it('exempts an all-exempt basket entirely', () => {
+    const service = new CalculationServiceImpl();
+    const result = service.calculateOrderTotal([{ quantity: 2, unitPrice: 100, taxRate: 0 }], 'buy');
+
+    expect(result.taxes).toBe(0);
+    expect(result.totalAmount).toBe(210);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Two-Factor Authentication Unit Tests
+ */
+
+import bcrypt from 'bcrypt';
+import { AuthServiceImpl } from '../../src/services/auth/impl/AuthServiceImpl';
+import { TwoFactorServiceImpl } from '../../src/services/auth/impl/TwoFactorServiceImpl';
+import { AuthRepositoryMock } from '../../src/services/auth/mock/AuthRepositoryMock';
+import { AuthErrorCode, AuthUserRecord } from '../../src/services/auth/types';
+import { TotpSecretCipher } from '../../src/services/auth/utils/TotpSecretCipher';
+import {
+  encodeBase32,
+  findTotpTimeStep,
+  generateTotpCode,
+  getTotpTimeStep,
+} from '../../src/services/auth/utils/Totp';
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 SHA-1 test vector', () => {
+    const secret = encodeBase32(Buffer.from('12345678901234567890', 'ascii'));
+
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(generateTotpCode(secret, getTotpTimeStep(59 * 1000))).toBe('287082');
+    expect(findTotpTimeStep(secret, '287082', 89 * 1000)).toBe(1);
+    expect(findTotpTimeStep(secret, '287082', 120 * 1000)).toBeNull();
+  });
+});
+
+describe('TwoFactorService', () => {
+  const password = 'SecurePassword123';
+  const jwtSecret = 'test-jwt-secret';
+  let repository: AuthRepositoryMock;
+  let authService: AuthServiceImpl;
+  let twoFactorService: TwoFactorServiceImpl;
+
+  const user: Omit<AuthUserRecord, 'passwordHash'> = {
+    id: 'user-123',
+    email: 'test@goldsphere.vault',
+    firstName: 'Test',
+    lastName: 'User',
+    role: 'user',
+    status: 'active',
+    tokenVersion: 0,
+  };
+
+  const enableTwoFactor = async () => {
+    const enrollment = (await twoFactorService.startEnrollment(user.id)).data!;
+    const activation = await twoFactorService.activateTwoFactor(
+      user.id,
+      generateTotpCode(enrollment.secret, getTotpTimeStep())
+    );
+    expect(activation.success).toBe(true);
+    return enrollment;
+  };
+
+  const loginWithCode = async (code: string) => {
+    const login = await authService.login({ email: user.email, password });
+    expect(login.error?.code).toBe(AuthErrorCode.TWO_FACTOR_REQUIRED);
+    return authService.completeTwoFactorLogin(login.error!.challenge!.challengeToken, code);
+  };
+
+  beforeEach(() => {
+    repository = new AuthRepositoryMock([{ ...user, passwordHash: bcrypt.hashSync(password, 4) }]);
+    authService = new AuthServiceImpl(repository, jwtSecret, '15m', 30);
+    twoFactorService = new TwoFactorServiceImpl(repository, TotpSecretCipher.fromEnvironment(jwtSecret));
+  });
+
+  it('enforces 2FA only after activation with a valid code', async () => {
+    const enrollment = (await twoFactorService.startEnrollment(user.id)).data!;
+
+    expect(enrollment.provisioningUri).toContain(`secret=${enrollment.secret}`);
+    expect(enrollment.recoveryCodes).toHaveLength(10);
+    expect((await repository.findTwoFactor(user.id))?.secretEncrypted).not.toContain(enrollment.secret);
+    expect((await authService.login({ email: user.email, password })).success).toBe(true);
+    expect((await twoFactorService.activateTwoFactor(user.id, '000000')).error?.code)
+      .toBe(AuthErrorCode.INVALID_CREDENTIALS);
+
+    await twoFactorService.activateTwoFactor(user.id, generateTotpCode(enrollment.secret, getTotpTimeStep()));
+
+    expect((await twoFactorService.getStatus(user.id)).data).toEqual({ enabled: true, recoveryCodesRemaining: 10 });
+    expect((await twoFactorService.startEnrollment(user.id)).error?.code).toBe(AuthErrorCode.TWO_FACTOR_ALREADY_ENABLED);
+  });
+
+  it('completes the login with a fresh code and rejects replays', async () => {
+    const enrollment = await enableTwoFactor();
+    const nextCode = generateTotpCode(enrollment.secret, getTotpTimeStep() + 1);
+
+    const result = await loginWithCode(nextCode);
+    expect(result.data?.data.accessToken).toBeDefined();
+    expect(result.data?.data.refreshToken).toBeDefined();
+
+    expect((await loginWithCode(nextCode)).error?.code).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+    expect((await authService.completeTwoFactorLogin(result.data!.data.accessToken, nextCode)).error?.code)
+      .toBe(AuthErrorCode.TOKEN_INVALID);
+  });
+
+  it('accepts each recovery code once', async () => {
+    const enrollment = await enableTwoFactor();
+    const [recoveryCode] = enrollment.recoveryCodes;
+
+    expect((await loginWithCode(recoveryCode.toUpperCase())).success).toBe(true);
+    expect((await loginWithCode(recoveryCode)).success).toBe(false);
+    expect((await twoFactorService.getStatus(user.id)).data?.recoveryCodesRemaining).toBe(9);
+  });
+
+  it('steps up the current session for a limited time', async () => {
+    const login = await authService.login({ email: user.email, password });
+    const sessionId = (await authService.validateToken(login.data!.data.accessToken)).data!.sid!;
+
+    expect(await twoFactorService.hasRecentStepUp(sessionId)).toBe(false);
+    expect((await twoFactorService.stepUp(user.id, sessionId, { password: 'WrongPassword1' })).success).toBe(false);
+    expect((await twoFactorService.stepUp(user.id, sessionId, { password })).success).toBe(true);
+    expect(await twoFactorService.hasRecentStepUp(sessionId)).toBe(true);
+
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 6 * 60 * 1000);
+    try {
+      expect(await twoFactorService.hasRecentStepUp(sessionId)).toBe(false);
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('requires the second factor for step-up once 2FA is enabled', async () => {
+    const login = await authService.login({ email: user.email, password });
+    const sessionId = (await authService.validateToken(login.data!.data.accessToken)).data!.sid!;
+    const enrollment = await enableTwoFactor();
+
+    expect((await twoFactorService.stepUp(user.id, sessionId, { password })).success).toBe(false);
+    expect((await twoFactorService.stepUp(user.id, sessionId, { code: enrollment.recoveryCodes[1] })).success)
+      .toBe(true);
+  });
+
+  it('resets the failed-login counter only once the second factor is verified', async () => {
+    const enrollment = await enableTwoFactor();
+    await authService.login({ email: user.email, password: 'WrongPassword1' });
+
+    const login = await authService.login({ email: user.email, password });
+    expect(login.error?.code).toBe(AuthErrorCode.TWO_FACTOR_REQUIRED);
+    expect((await repository.findLoginAttempt('account', user.email))?.failedCount).toBe(1);
+
+    const code = generateTotpCode(enrollment.secret, getTotpTimeStep() + 1);
+    expect((await authService.completeTwoFactorLogin(login.error!.challenge!.challengeToken, code)).success).toBe(true);
+    expect(await repository.findLoginAttempt('account', user.email)).toBeNull();
+  });
+
+  it('delays and then blocks repeated invalid codes and step-up passwords per user', async () => {
+    let now = Date.now();
+    const nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    try {
+      const login = await authService.login({ email: user.email, password });
+      const sessionId = (await authService.validateToken(login.data!.data.accessToken)).data!.sid!;
+      const stepUp = (attempt: string) => twoFactorService.stepUp(user.id, sessionId, { password: attempt });
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        expect((await stepUp('WrongPassword1')).error?.code).toBe(AuthErrorCode.INVALID_CREDENTIALS);
+      }
+      expect((await stepUp(password)).error).toMatchObject({
+        code: AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS,
+        retryAfterSeconds: 1,
+      });
+
+      now += 1000;
+      await stepUp('WrongPassword1');
+      now += 2000;
+      await stepUp('WrongPassword1');
+      expect((await stepUp(password)).error?.retryAfterSeconds).toBe(15 * 60);
+
+      // The limit is per user: the second login step is blocked as well
+      const enrollment = await enableTwoFactor();
+      const challenge = (await authService.login({ email: user.email, password })).error!.challenge!;
+      const code = generateTotpCode(enrollment.secret, getTotpTimeStep() + 1);
+      expect((await authService.completeTwoFactorLogin(challenge.challengeToken, code)).error?.code)
+        .toBe(AuthErrorCode.TOO_MANY_LOGIN_ATTEMPTS);
+
+      now += 15 * 60 * 1000;
+      const freshCode = generateTotpCode(enrollment.secret, getTotpTimeStep());
+      expect((await twoFactorService.stepUp(user.id, sessionId, { code: freshCode })).success).toBe(true);
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('lets admins reset 2FA so the password alone works again', async () => {
+    await enableTwoFactor();
+
+    expect((await twoFactorService.resetTwoFactor(user.id)).success).toBe(true);
+    expect((await authService.login({ email: user.email, password })).success).toBe(true);
+    expect((await twoFactorService.resetTwoFactor(user.id)).error?.code).toBe(AuthErrorCode.TWO_FACTOR_NOT_ENABLED);
+  });
+});
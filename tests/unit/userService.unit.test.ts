@@ -66,6 +66,8 @@ class UserRepositoryMock implements IUserRepository {
       blockedAt: null,
       blockedBy: null,
       blockReason: null,
+      lockedUntil: null,
+      tokenVersion: 0,
       phoneNumber: null,
       gender: null,
       preferredCurrencyId: null,
@@ -107,6 +109,8 @@ class UserRepositoryMock implements IUserRepository {
       blockedAt: null,
       blockedBy: null,
       blockReason: null,
+      lockedUntil: null,
+      tokenVersion: 0,
       phoneNumber: null,
       gender: null,
       preferredCurrencyId: null,
@@ -219,6 +223,7 @@ class UserRepositoryMock implements IUserRepository {
       blockedAt: null,
       blockedBy: null,
       blockReason: null,
+      lockedUntil: null,
       updatedAt: new Date(),
     };
     this.users.set(userId, unblocked);
@@ -245,6 +250,13 @@ class UserRepositoryMock implements IUserRepository {
     );
   }
 
+  async findLockedUsers(): Promise<UserEntity[]> {
+    return Array.from(this.users.values()).filter(
+      user => user.accountStatus === AccountStatus.SUSPENDED &&
+              user.lockedUntil !== null && user.lockedUntil.getTime() > Date.now()
+    );
+  }
+
   async createUserProfile(profileData: CreateUserProfileData, _client?: PoolClient): Promise<UserProfileEntity> {
     const profile: UserProfileEntity = {
       id: `profile-${Date.now()}`,
@@ -708,6 +720,22 @@ describe('UserServiceImpl Unit Tests', () => {
     });
   });
 
+  describe('unblockUser()', () => {
+    it('should list a temporary lock after failed logins as blocked and lift it early', async () => {
+      const user = await mockRepo.findUserById('existing-user-id');
+      user!.accountStatus = AccountStatus.SUSPENDED;
+      user!.lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+      expect((await service.findLockedUsers()).data).toHaveLength(1);
+      expect((await service.findBlockedUsers()).data).toHaveLength(1);
+
+      const result = await service.unblockUser('existing-user-id', testUser);
+
+      expect(result.success).toBe(true);
+      expect((await service.findLockedUsers()).data).toEqual([]);
+      expect((await mockRepo.findUserById('existing-user-id'))?.accountStatus).toBe(AccountStatus.ACTIVE);
+    });
+  });
+
   describe('validateCredentials()', () => {
     it('should validate correct credentials', async () => {
       // First create a user with known password